@@ -10,12 +10,15 @@ const nextConfig: NextConfig = {
       },
     },
   },
+  // WebAssembly audio decoders for API routes; loaded by Node, not bundled
+  serverExternalPackages: ['opus-decoder', 'mpg123-decoder'],
   webpack: (config) => {
     config.resolve.fallback = {
       ...config.resolve.fallback,
       fs: false,
       net: false,
       tls: false,
+      dns: false,
     };
     
     // Exclude TypeScript definition files from being processed
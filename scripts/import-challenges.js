@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+
+/**
+ * Challenge Import Script
+ * Moves the static challenge configuration (src/data/challenge-songs.json)
+ * into the challenges table. "X (Instrumental)" and "X (Vocals)" entries
+ * become the stems of X. Safe to re-run: rows are upserted by id.
+ *
+ * Usage: npm run import-challenges [-- path/to/songs.json] [--dry-run]
+ */
+
+const { createClient } = require('@supabase/supabase-js');
+const fs = require('fs');
+const path = require('path');
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const sourcePath = args.find(arg => !arg.startsWith('--')) ||
+  path.join(process.cwd(), 'src', 'data', 'challenge-songs.json');
+
+console.log('🎵 GigaVibe Challenge Import');
+console.log('============================');
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!dryRun && (!supabaseUrl || !supabaseKey)) {
+  console.error('❌ Missing required environment variables:');
+  console.error('   - NEXT_PUBLIC_SUPABASE_URL');
+  console.error('   - SUPABASE_SERVICE_ROLE_KEY');
+  console.error('');
+  console.error('Please set these in your .env.local file and try again.');
+  process.exit(1);
+}
+
+const STEM_SUFFIX = /\s*\((Instrumental|Vocals?)\)\s*$/i;
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+/**
+ * Group configuration entries into catalog rows, one per song
+ */
+function toChallengeRows(songs) {
+  const rows = new Map();
+  const stems = [];
+
+  for (const song of songs) {
+    const match = song.title && song.title.match(STEM_SUFFIX);
+    if (match) {
+      stems.push({ song, baseTitle: song.title.replace(STEM_SUFFIX, ''), stem: match[1].toLowerCase() });
+      continue;
+    }
+
+    const difficulty = DIFFICULTIES.includes(song.difficulty) ? song.difficulty : 'medium';
+    rows.set(song.title, {
+      id: song.id,
+      title: song.title,
+      artist: song.artist || 'GIGAVIBE',
+      description: song.description || null,
+      difficulty,
+      duration: Number.isInteger(song.duration) ? song.duration : null,
+      bpm: Number.isInteger(song.bpm) ? song.bpm : null,
+      musical_key: song.key || null,
+      tags: Array.isArray(song.tags) ? song.tags : song.tags ? song.tags.split(',').map(tag => tag.trim()) : [difficulty],
+      type: song.type || 'featured',
+      preview_url: song.audioUrl || song.previewUrl || song.vocalUrl,
+      instrumental_url: song.instrumentalUrl || null,
+      vocal_url: null,
+      source: 'import',
+      created_by: 'import-challenges',
+      created_at: song.uploadedAt || new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    });
+  }
+
+  for (const { song, baseTitle, stem } of stems) {
+    const row = rows.get(baseTitle);
+    if (!row) {
+      console.warn(`⚠️  No song "${baseTitle}" for ${song.title}, skipping`);
+      continue;
+    }
+    row[stem === 'instrumental' ? 'instrumental_url' : 'vocal_url'] = song.audioUrl || song.previewUrl;
+  }
+
+  return [...rows.values()].filter(row => {
+    if (!row.preview_url) {
+      console.warn(`⚠️  ${row.title} has no audio URL, skipping`);
+      return false;
+    }
+    return true;
+  });
+}
+
+async function importChallenges() {
+  if (!fs.existsSync(sourcePath)) {
+    console.error(`❌ ${sourcePath} not found`);
+    process.exit(1);
+  }
+
+  const songs = JSON.parse(fs.readFileSync(sourcePath, 'utf8'));
+  if (!Array.isArray(songs)) {
+    console.error('❌ Expected an array of challenge songs');
+    process.exit(1);
+  }
+
+  const rows = toChallengeRows(songs);
+  console.log(`📄 ${songs.length} entries in ${path.relative(process.cwd(), sourcePath)} → ${rows.length} challenges`);
+
+  for (const row of rows) {
+    const stems = ['preview', row.instrumental_url && 'instrumental', row.vocal_url && 'vocal'].filter(Boolean);
+    console.log(`   - ${row.id}: ${row.title} (${stems.join(', ')})`);
+  }
+
+  if (dryRun) {
+    console.log('');
+    console.log('🔍 Dry run - nothing written');
+    return;
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  const { error } = await supabase
+    .from('challenges')
+    .upsert(rows, { onConflict: 'id' });
+
+  if (error) {
+    if (error.code === '42P01') {
+      console.error('❌ The challenges table does not exist.');
+      console.error('   Run src/lib/database/challenges-schema.sql in your Supabase SQL editor first.');
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  console.log('');
+  console.log(`✅ Imported ${rows.length} challenges`);
+}
+
+importChallenges().catch(error => {
+  console.error('❌ Import failed:', error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/SessionAuth';
+import { accountService } from '@/lib/auth/AccountService';
+import { getErrorMessage } from '@/config/auth.config';
+
+/**
+ * POST - Link a Farcaster ID to the signed-in account
+ * Body: { fid }. One of the account's wallets must be a verified address of
+ * the FID. Results submitted under the FID move to the account.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: getErrorMessage('UNAUTHORIZED') },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const fid = Number(body?.fid);
+    if (!Number.isInteger(fid) || fid <= 0) {
+      return NextResponse.json(
+        { error: 'fid must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const result = await accountService.linkFarcaster(session, fid);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error linking Farcaster account:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to link Farcaster account',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/SessionAuth';
+import { accountService } from '@/lib/auth/AccountService';
+import { getErrorMessage } from '@/config/auth.config';
+
+/**
+ * GET - The signed-in account: its primary wallet, linked wallets and FID
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: getErrorMessage('UNAUTHORIZED') },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { account: await accountService.getAccount(session) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Error fetching account:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch account',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/SessionAuth';
+import { accountService } from '@/lib/auth/AccountService';
+import { getErrorMessage } from '@/config/auth.config';
+
+/**
+ * POST - Link another wallet to the signed-in account
+ * Body: { message, signature }, a SIWE message signed by the new wallet with
+ * a nonce from GET /api/auth/nonce. A wallet that already has an account
+ * merges that account into this one.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: getErrorMessage('UNAUTHORIZED') },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    if (typeof body?.message !== 'string' || typeof body?.signature !== 'string') {
+      return NextResponse.json(
+        { error: 'message and signature are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await accountService.linkWallet(session, body.message, body.signature, request.headers.get('host'));
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error linking wallet:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to link wallet',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
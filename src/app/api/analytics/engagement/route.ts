@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database/DatabaseService';
+import { eventCounterService, totalInteractions } from '@/lib/analytics/EventCounters';
+import { calculateEngagementRate } from '@/lib/viral/ViralEligibility';
 
 /**
  * API route to get engagement metrics for a performance
  * GET /api/analytics/engagement?performanceId=xyz
+ *
+ * Returns rolling-window counts (1h / 24h / 7d), share velocity (shares in the
+ * last hour) and the lifetime engagement rate (interactions / views).
  */
 export async function GET(request: NextRequest) {
   try {
@@ -16,15 +22,33 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Feature not yet implemented
-    return NextResponse.json(
-      { 
-        error: 'Engagement metrics feature coming soon',
-        status: 'pending_implementation',
-        performanceId
+    const [windows, metrics] = await Promise.all([
+      eventCounterService.getWindowedCounts(performanceId),
+      databaseService.getPerformanceMetrics(performanceId)
+    ]);
+
+    const engagementRate = metrics
+      ? calculateEngagementRate({
+          likes: metrics.likes_count || 0,
+          replies: metrics.replies_count || 0,
+          recasts: metrics.recasts_count || 0,
+          shares: metrics.shares_count || 0,
+          views: metrics.views_count || 0
+        })
+      : 0;
+
+    return NextResponse.json({
+      performanceId,
+      windows,
+      shareVelocity: windows.share['1h'],
+      interactions: {
+        '1h': totalInteractions(windows, '1h'),
+        '24h': totalInteractions(windows, '24h'),
+        '7d': totalInteractions(windows, '7d')
       },
-      { status: 501 }
-    );
+      engagementRate,
+      timestamp: new Date().toISOString()
+    });
   } catch (error) {
     console.error('Error fetching engagement data:', error);
     return NextResponse.json(
@@ -32,4 +56,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
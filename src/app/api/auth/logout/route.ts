@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookie, endSession } from '@/lib/auth/SessionAuth';
+import { getSuccessMessage } from '@/config/auth.config';
+
+/**
+ * POST - Revoke the current session and clear its cookie
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await endSession(request);
+  } catch (error) {
+    // The cookie is cleared regardless; the session still expires on its own
+    console.error('Error revoking session:', error);
+  }
+
+  const response = NextResponse.json({ success: true, message: getSuccessMessage('SIGN_OUT') });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { createNonce, isSessionConfigured } from '@/lib/auth/SessionAuth';
+import { getErrorMessage } from '@/config/auth.config';
+
+/**
+ * GET - A single-use nonce to put in the next Sign-In with Ethereum message
+ */
+export async function GET() {
+  if (!isSessionConfigured()) {
+    return NextResponse.json(
+      { error: 'Sign-in is not configured' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const { nonce, expiresAt } = await createNonce();
+
+    return NextResponse.json(
+      { nonce, expiresAt: expiresAt.toISOString() },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Error issuing SIWE nonce:', error);
+    return NextResponse.json(
+      {
+        error: getErrorMessage('NETWORK_ERROR'),
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refreshSession, setSessionCookie } from '@/lib/auth/SessionAuth';
+import { getErrorMessage } from '@/config/auth.config';
+
+/**
+ * POST - Replace the current session with a fresh one
+ * The old session is revoked; 401 when there is no live session to refresh.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const refreshed = await refreshSession(request);
+    if (!refreshed) {
+      return NextResponse.json(
+        { error: getErrorMessage('EXPIRED_SESSION') },
+        { status: 401 }
+      );
+    }
+
+    const { session, token } = refreshed;
+    const response = NextResponse.json({
+      user: { address: session.address, chainId: session.chainId },
+      expiresAt: session.expiresAt.toISOString()
+    });
+    setSessionCookie(response, token, session);
+    return response;
+  } catch (error) {
+    console.error('Error refreshing session:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to refresh session',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
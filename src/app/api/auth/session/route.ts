@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/SessionAuth';
+import { accountService } from '@/lib/auth/AccountService';
+import { getErrorMessage } from '@/config/auth.config';
+
+/**
+ * GET - The signed-in wallet behind the session cookie, and its account
+ * 401 when there is no live session.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: getErrorMessage('UNAUTHORIZED') },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        user: { address: session.address, chainId: session.chainId },
+        account: await accountService.getAccount(session),
+        expiresAt: session.expiresAt.toISOString()
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('Error reading session:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to read session',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
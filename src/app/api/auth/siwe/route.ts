@@ -1,22 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SiweMessage } from 'siwe';
 import { AUTH_CONFIG, isProductionDomain, getErrorMessage, getSuccessMessage } from '@/config/auth.config';
+import { createSession, isSessionConfigured, setSessionCookie, verifySignIn } from '@/lib/auth/SessionAuth';
+import { accountService } from '@/lib/auth/AccountService';
 
+/**
+ * POST - Sign in with Ethereum
+ * Body: { message, signature }, where the message carries a nonce from
+ * GET /api/auth/nonce. Sets the httpOnly session cookie on success.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    
+
     const origin = request.headers.get('origin');
     const host = request.headers.get('host');
 
     console.log('SIWE authentication request received');
-    console.log('Request Origin:', origin);
-    console.log('Request Host:', host);
-    console.log('Allowed Domains:', AUTH_CONFIG.SECURITY.ALLOWED_DOMAINS);
-    
+
     // Validate request origin in production
     if (AUTH_CONFIG.SECURITY.VALIDATE_ORIGIN) {
-      
+
       if (origin && !isProductionDomain(new URL(origin).hostname)) {
         return NextResponse.json(
           { error: getErrorMessage('INVALID_DOMAIN') },
@@ -25,81 +28,48 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    if (!body.message || !body.signature) {
+    if (!isSessionConfigured()) {
       return NextResponse.json(
-        { error: getErrorMessage('INVALID_SIGNATURE') },
-        { status: 400 }
+        { error: 'Sign-in is not configured' },
+        { status: 503 }
       );
     }
 
-    // Parse the SIWE message
-    let siweMessage: SiweMessage;
-    try {
-      // Create a new SIWE message from the stringified message
-      siweMessage = new SiweMessage(body.message);
-    } catch (error) {
-      console.error('Failed to parse SIWE message:', error);
+    if (typeof body?.message !== 'string' || typeof body?.signature !== 'string') {
       return NextResponse.json(
         { error: getErrorMessage('INVALID_SIGNATURE') },
         { status: 400 }
       );
     }
 
-    // Verify the signature
-    try {
-      const fields = await siweMessage.verify({
-        signature: body.signature,
-        domain: body.domain || request.headers.get('host') || undefined,
-      });
-
-      if (!fields.success) {
-        return NextResponse.json(
-          { error: getErrorMessage('INVALID_SIGNATURE') },
-          { status: 401 }
-        );
-      }
-
-      // Check if the message is expired
-      const expirationTime = fields.data.expirationTime;
-      if (expirationTime && new Date(expirationTime) < new Date()) {
-        return NextResponse.json(
-          { error: getErrorMessage('EXPIRED_SESSION') },
-          { status: 401 }
-        );
-      }
-
-      // Extract user information from the verified message
-      const address = fields.data.address;
-      
-      // Extract custom fields if present (like FID)
-      const statement = fields.data.statement || '';
-      const fidMatch = statement.match(/FID:(\d+)/);
-      const fid = fidMatch ? fidMatch[1] : undefined;
-      
-      const usernameMatch = statement.match(/Username:([a-zA-Z0-9_-]+)/);
-      const username = usernameMatch ? usernameMatch[1] : undefined;
-
-      // Here you would typically:
-      // 1. Store the user session in a database or cookie
-      // 2. Create a JWT token or session ID
-      
-      return NextResponse.json({
-        success: true,
-        message: getSuccessMessage('SIGN_IN') || 'Authentication successful',
-        user: {
-          address,
-          fid: fid || undefined,
-          username: username || `${address.substring(0, 6)}...${address.substring(38)}`
-        },
-        timestamp: Date.now()
-      });
-    } catch (error) {
-      console.error('Signature verification error:', error);
+    // The message must be for this host; a domain from the body proves nothing
+    const verified = await verifySignIn(body.message, body.signature, host);
+    if ('error' in verified) {
       return NextResponse.json(
-        { error: getErrorMessage('INVALID_SIGNATURE') },
+        { error: getErrorMessage(verified.error) },
         { status: 401 }
       );
     }
+
+    const { address, chainId } = verified;
+    const { session, token } = await createSession(address, chainId, request);
+
+    console.log(`🔑 Session opened for ${address}`);
+
+    const response = NextResponse.json({
+      success: true,
+      message: getSuccessMessage('SIGN_IN') || 'Authentication successful',
+      user: {
+        address,
+        chainId,
+        username: `${address.substring(0, 6)}...${address.substring(38)}`
+      },
+      account: await accountService.getAccount(session),
+      expiresAt: session.expiresAt.toISOString(),
+      timestamp: Date.now()
+    });
+    setSessionCookie(response, token, session);
+    return response;
   } catch (error) {
     console.error('SIWE authentication error:', error);
     return NextResponse.json(
@@ -107,4 +77,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database/DatabaseService';
+import {
+  ChallengeInput,
+  isChallengeAvailable,
+  toChallenge,
+  toChallengeUpdate,
+  validateChallengeInput
+} from '@/lib/challenges/ChallengeCatalog';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+/**
+ * GET - A catalog challenge
+ * Challenges outside their availability window are only visible to admins.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ challengeId: string }> }
+) {
+  try {
+    const { challengeId } = await params;
+    const row = await databaseService.getChallengeById(challengeId);
+
+    if (!row || (!isChallengeAvailable(row) && !isAdminRequest(request))) {
+      return NextResponse.json(
+        { error: 'Challenge not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      challenge: toChallenge(row),
+      available: isChallengeAvailable(row),
+      archived: !!row.archived_at
+    });
+  } catch (error) {
+    console.error('Error fetching challenge:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch challenge',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH - Update a challenge (admin only)
+ * Body: any of the create fields except id; stems are updated individually.
+ * `{ restore: true }` brings back an archived challenge.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ challengeId: string }> }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { challengeId } = await params;
+    const { restore, actor, ...input } = (await request.json()) || {};
+
+    const errors = validateChallengeInput(input, true);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid challenge', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const existing = await databaseService.getChallengeById(challengeId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Challenge not found' },
+        { status: 404 }
+      );
+    }
+
+    // The window is checked against the stored end when only one side changes
+    const availableFrom = input.availableFrom !== undefined ? input.availableFrom : existing.available_from;
+    const availableUntil = input.availableUntil !== undefined ? input.availableUntil : existing.available_until;
+    if (availableFrom && availableUntil && Date.parse(availableUntil) <= Date.parse(availableFrom)) {
+      return NextResponse.json(
+        { error: 'Invalid challenge', details: ['availableUntil must be after availableFrom'] },
+        { status: 400 }
+      );
+    }
+
+    const row = await databaseService.updateChallenge(challengeId, {
+      ...toChallengeUpdate(input as ChallengeInput),
+      ...(restore === true && { archived_at: null })
+    });
+
+    return NextResponse.json({
+      success: true,
+      challenge: toChallenge(row || existing)
+    });
+  } catch (error) {
+    console.error('Error updating challenge:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update challenge',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Archive a challenge (admin only)
+ * Archived challenges leave the catalog but keep their submissions; restore
+ * one with PATCH { restore: true }.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ challengeId: string }> }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { challengeId } = await params;
+    const row = await databaseService.updateChallenge(challengeId, {
+      archived_at: new Date().toISOString()
+    });
+
+    if (!row) {
+      return NextResponse.json(
+        { error: 'Challenge not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`🗄️ Challenge ${challengeId} archived`);
+
+    return NextResponse.json({
+      success: true,
+      challengeId
+    });
+  } catch (error) {
+    console.error('Error archiving challenge:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to archive challenge',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
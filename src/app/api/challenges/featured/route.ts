@@ -8,13 +8,32 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get("limit") || "10", 10);
     
+    // Viral catalog challenges (AI generations included) lead
+    let generated: ViralChallenge[] = [];
+    try {
+      generated = (await databaseService.getChallenges({ types: ['viral'], limit }))
+        .map(row => ({
+          id: row.id,
+          title: row.title,
+          difficulty: row.difficulty === "easy" ? "Easy" : row.difficulty === "hard" ? "Hard" : "Medium",
+          duration: row.duration ?? 0,
+          originalAudio: row.preview_url,
+          instrumentalAudio: row.instrumental_url || row.preview_url,
+          vocalsOnlyAudio: row.vocal_url || row.preview_url,
+          prompt: row.description || row.title,
+          tags: row.tags.join(", ")
+        }));
+    } catch (dbError) {
+      console.warn('Failed to load catalog challenges:', dbError);
+    }
+
     // Try to get featured challenges from database
     try {
       const challengeResults = await databaseService.getChallengeResults(undefined, limit * 2, 0);
       
-      if (challengeResults.length > 0) {
+      if (challengeResults.length > 0 || generated.length > 0) {
         // Transform database results to featured challenge format
-        const featuredChallenges: ViralChallenge[] = challengeResults
+        const communityChallenges: ViralChallenge[] = challengeResults
           .slice(0, limit)
           .map(result => ({
             id: result.challenge_id || result.id,
@@ -30,6 +49,7 @@ export async function GET(request: NextRequest) {
             selfRating: result.self_rating,
             createdAt: result.created_at
           }));
+        const featuredChallenges = [...generated, ...communityChallenges].slice(0, limit);
 
         return NextResponse.json({ 
           challenges: featuredChallenges,
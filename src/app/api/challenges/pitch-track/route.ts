@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database/DatabaseService';
+import { supabase } from '@/integrations/supabase/client';
+import { isPitchContour } from '@/lib/audio/OfflinePitchAnalyzer';
+import { getSession } from '@/lib/auth/SessionAuth';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+// Roughly 10 minutes at a 20ms hop - anything larger is not a real recording
+const MAX_FRAMES = 30000;
+
+/**
+ * GET - Fetch the stored pitch contour for a challenge submission
+ * GET /api/challenges/pitch-track?submissionId=xyz
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const submissionId = request.nextUrl.searchParams.get('submissionId');
+
+    if (!submissionId) {
+      return NextResponse.json(
+        { error: 'submissionId is required' },
+        { status: 400 }
+      );
+    }
+
+    const pitchTrack = await databaseService.getPitchTrack(submissionId);
+    if (!pitchTrack) {
+      return NextResponse.json(
+        { error: 'Pitch track not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      submissionId,
+      pitchTrack
+    });
+  } catch (error) {
+    console.error('Pitch track fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch pitch track' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Attach an offline pitch contour to an existing challenge submission
+ * Used when the contour is extracted after the result was submitted (e.g. uploaded files)
+ * Only the submission's owner (by session) or an admin can attach one.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const isAdmin = isAdminRequest(request);
+    const session = isAdmin ? null : await getSession(request);
+    if (!isAdmin && !session) {
+      return NextResponse.json(
+        { error: 'Sign in to attach a pitch track' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { submissionId, pitchTrack } = body;
+
+    if (!submissionId || !pitchTrack) {
+      return NextResponse.json(
+        { error: 'Missing required fields: submissionId, pitchTrack' },
+        { status: 400 }
+      );
+    }
+
+    if (!isPitchContour(pitchTrack) || pitchTrack.frames.length > MAX_FRAMES) {
+      return NextResponse.json(
+        { error: 'Invalid pitch track format' },
+        { status: 400 }
+      );
+    }
+
+    // Pitch tracks always hang off a stored challenge result
+    const { data: challengeResult, error: lookupError } = await supabase
+      .from('challenge_results')
+      .select('id, user_id')
+      .eq('id', submissionId)
+      .single();
+
+    if (lookupError || !challengeResult) {
+      return NextResponse.json(
+        { error: 'Challenge submission not found' },
+        { status: 404 }
+      );
+    }
+
+    if (session && challengeResult.user_id !== session.userId) {
+      return NextResponse.json(
+        { error: 'You can only attach pitch tracks to your own submissions' },
+        { status: 403 }
+      );
+    }
+
+    await databaseService.savePitchTrack(submissionId, pitchTrack);
+
+    return NextResponse.json({
+      success: true,
+      submissionId,
+      frameCount: pitchTrack.frames.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Pitch track save error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save pitch track',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
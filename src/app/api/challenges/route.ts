@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database/DatabaseService';
+import {
+  CHALLENGE_TYPES,
+  ChallengeInput,
+  ChallengeType,
+  toChallenge,
+  toChallengeInsert,
+  validateChallengeInput
+} from '@/lib/challenges/ChallengeCatalog';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+/**
+ * API route to list the challenge catalog
+ * GET /api/challenges[?type=featured][&include=unavailable,archived]
+ *
+ * Only challenges inside their availability window are listed; admins can
+ * include scheduled, expired and archived ones.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const type = searchParams.get('type');
+    const include = isAdminRequest(request) ? (searchParams.get('include') || '').split(',') : [];
+
+    if (type && !CHALLENGE_TYPES.includes(type as ChallengeType)) {
+      return NextResponse.json(
+        { error: `Type must be one of: ${CHALLENGE_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const rows = await databaseService.getChallenges({
+      types: type ? [type] : undefined,
+      includeUnavailable: include.includes('unavailable'),
+      includeArchived: include.includes('archived')
+    });
+
+    return NextResponse.json({
+      success: true,
+      challenges: rows.map(toChallenge),
+      count: rows.length
+    });
+  } catch (error) {
+    console.error('Error listing challenges:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list challenges',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API route to add a challenge to the catalog (admin only)
+ * POST /api/challenges
+ * Body: { id?, title, artist?, description?, difficulty?, duration?, bpm?, key?, tags?, type?,
+ *         stems: { preview, instrumental?, vocal? }, availableFrom?, availableUntil?, actor? }
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { actor = 'admin', ...input } = (await request.json()) || {};
+
+    const errors = validateChallengeInput(input);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid challenge', details: errors },
+        { status: 400 }
+      );
+    }
+
+    if (input.id && await databaseService.getChallengeById(input.id)) {
+      return NextResponse.json(
+        { error: `Challenge ${input.id} already exists` },
+        { status: 409 }
+      );
+    }
+
+    const row = await databaseService.createChallenge(
+      toChallengeInsert(input as ChallengeInput, typeof actor === 'string' ? actor : 'admin')
+    );
+
+    console.log(`🎵 Challenge ${row.id} added to the catalog`);
+
+    return NextResponse.json(
+      { success: true, challenge: toChallenge(row) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating challenge:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create challenge',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
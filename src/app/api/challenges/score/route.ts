@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database/DatabaseService';
+import { supabase } from '@/integrations/supabase/client';
+import { melodyScoringService } from '@/lib/audio/MelodyScoringService';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+/**
+ * GET - Fetch the reference-melody score for a challenge submission
+ * GET /api/challenges/score?submissionId=xyz
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const submissionId = request.nextUrl.searchParams.get('submissionId');
+
+    if (!submissionId) {
+      return NextResponse.json(
+        { error: 'submissionId is required' },
+        { status: 400 }
+      );
+    }
+
+    const score = await databaseService.getChallengeScore(submissionId);
+    if (!score) {
+      return NextResponse.json(
+        { error: 'Score not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      submissionId,
+      score
+    });
+  } catch (error) {
+    console.error('Challenge score fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch challenge score' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - (Re)score a submission from its stored pitch track (admin only)
+ * Used when the pitch track was attached after submission or the reference stem changed.
+ * The reference melody comes from the challenge's catalog vocal stem.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { submissionId } = body;
+
+    if (!submissionId) {
+      return NextResponse.json(
+        { error: 'Missing required field: submissionId' },
+        { status: 400 }
+      );
+    }
+
+    const { data: challengeResult, error: lookupError } = await supabase
+      .from('challenge_results')
+      .select('id, challenge_id, verification_status')
+      .eq('id', submissionId)
+      .single();
+
+    if (lookupError || !challengeResult) {
+      return NextResponse.json(
+        { error: 'Challenge submission not found' },
+        { status: 404 }
+      );
+    }
+
+    // A flagged pitch track may not match the audio, so its score would be meaningless
+    if (challengeResult.verification_status === 'flagged') {
+      return NextResponse.json(
+        { error: 'Flagged submissions cannot be re-scored' },
+        { status: 409 }
+      );
+    }
+
+    const pitchTrack = await databaseService.getPitchTrack(submissionId);
+    if (!pitchTrack) {
+      return NextResponse.json(
+        { error: 'Submission has no pitch track to score' },
+        { status: 409 }
+      );
+    }
+
+    const score = await melodyScoringService.scoreSubmission({
+      submissionId,
+      challengeId: challengeResult.challenge_id,
+      pitchTrack
+    });
+
+    return NextResponse.json({
+      success: true,
+      submissionId,
+      score,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Challenge scoring error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to score challenge submission',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
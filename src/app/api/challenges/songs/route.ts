@@ -1,51 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { databaseService } from '@/lib/database/DatabaseService';
+import { ChallengeRow, databaseService } from '@/lib/database/DatabaseService';
+import {
+  ChallengeInput,
+  toChallenge,
+  toChallengeInsert,
+  validateChallengeInput
+} from '@/lib/challenges/ChallengeCatalog';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
 import fs from 'fs';
 import path from 'path';
 
 /**
  * API endpoint for challenge songs
- * Returns available vocal challenges from database or configuration
+ * Returns available vocal challenges from the catalog, falling back to the
+ * bundled configuration until it has been imported
  */
 export async function GET(request: NextRequest) {
   try {
-    // First, try to get challenges from database
+    // First, try the challenge catalog
     try {
-      const challengeResults = await databaseService.getChallengeResults(undefined, 50, 0);
-      
-      if (challengeResults.length > 0) {
-        // Transform database results to challenge format
-        const challenges = challengeResults.map(result => ({
-          id: result.challenge_id,
-          title: result.challenge_title,
-          artist: 'Community',
-          vocalUrl: result.audio_url,
-          instrumentalUrl: result.audio_url, // In a real system, you'd have separate instrumental tracks
-          difficulty: 'medium', // Could be calculated from ratings
-          duration: result.duration_seconds || 180,
-          bpm: 120, // Default, could be stored in database
-          key: 'Unknown', // Could be analyzed and stored
-          description: `Community challenge: ${result.challenge_title}`,
-          uploadedAt: result.created_at,
-          selfRating: result.self_rating,
-          confidence: result.confidence_level,
-          userFid: result.user_fid
-        }));
-
-        // Remove duplicates by challenge_id
-        const uniqueChallenges = challenges.reduce((acc, current) => {
-          const existing = acc.find(item => item.id === current.id);
-          if (!existing) {
-            acc.push(current);
-          }
-          return acc;
-        }, [] as any[]);
+      const challenges = (await databaseService.getChallenges()).map(toChallenge);
 
+      if (challenges.length > 0) {
         return NextResponse.json({
           success: true,
-          challenges: uniqueChallenges,
-          source: 'database',
-          count: uniqueChallenges.length
+          challenges,
+          source: 'catalog',
+          count: challenges.length
         });
       }
     } catch (dbError) {
@@ -87,7 +68,7 @@ export async function GET(request: NextRequest) {
       challenges: [defaultChallenge],
       source: 'default',
       count: 1,
-      note: 'Using default challenge. Submit performances to create more challenges.'
+      note: 'Using default challenge. Run `npm run import-challenges` or add challenges via /api/challenges.'
     });
     
   } catch (error) {
@@ -103,9 +84,17 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST endpoint to update challenges (after IPFS upload)
+ * POST endpoint to bulk upsert challenges into the catalog (admin only)
+ * Body: { challenges: ChallengeInput[] } - each is validated like POST /api/challenges
  */
 export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
   try {
     const body = await request.json();
     const { challenges } = body;
@@ -116,24 +105,30 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-    
-    // Save to configuration file
-    const configPath = path.join(process.cwd(), 'src', 'data', 'challenge-songs.json');
-    const configDir = path.dirname(configPath);
-    
-    // Ensure directory exists
-    if (!fs.existsSync(configDir)) {
-      fs.mkdirSync(configDir, { recursive: true });
+
+    const invalid = challenges
+      .map((challenge, index) => ({ index, errors: validateChallengeInput(challenge) }))
+      .filter(result => result.errors.length > 0);
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid challenges data', details: invalid },
+        { status: 400 }
+      );
+    }
+
+    const rows: ChallengeRow[] = [];
+    for (const challenge of challenges as ChallengeInput[]) {
+      rows.push(await databaseService.upsertChallenge({
+        ...toChallengeInsert(challenge, 'admin'),
+        source: 'import'
+      }));
     }
-    
-    // Write configuration
-    fs.writeFileSync(configPath, JSON.stringify(challenges, null, 2));
     
     return NextResponse.json({
       success: true,
       message: 'Challenges updated successfully',
-      count: challenges.length,
-      configPath
+      count: rows.length,
+      challengeIds: rows.map(row => row.id)
     });
     
   } catch (error) {
@@ -146,4 +141,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
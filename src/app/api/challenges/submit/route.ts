@@ -2,12 +2,32 @@ import { NextRequest, NextResponse } from 'next/server';
 import { databaseService } from '@/lib/database/DatabaseService';
 import { supabase } from '@/integrations/supabase/client';
 import { v4 as uuidv4 } from 'uuid';
+import { isPitchContour } from '@/lib/audio/OfflinePitchAnalyzer';
+import { melodyScoringService } from '@/lib/audio/MelodyScoringService';
+import { MelodyAlignmentResult } from '@/lib/audio/MelodyAlignment';
+import { submissionVerifier } from '@/lib/audio/SubmissionVerifier';
+import { audioFingerprintIndex, extractAudioCid, DuplicateSubmission } from '@/lib/audio/AudioFingerprintIndex';
+import { moderationService, ContentType, ModerationReason } from '@/lib/moderation/ModerationService';
+import type { Json } from '@/integrations/supabase/types';
+import { getSession } from '@/lib/auth/SessionAuth';
 
 /**
  * POST - Submit a challenge result to database
+ * Signed-in users only; the result belongs to the session's account, and
+ * carries its linked FID rather than one from the body.
  */
 export async function POST(request: NextRequest) {
   try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in to submit a challenge result' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.userId;
+    const userFid = session.fid;
     const body = await request.json();
     const {
       challengeId,
@@ -16,11 +36,10 @@ export async function POST(request: NextRequest) {
       selfRating,
       confidence,
       duration,
-      userFid,
       castHash,
       accuracy,
       submissionId,
-      userId
+      pitchTrack
     } = body;
 
     // Validate required fields
@@ -40,6 +59,71 @@ export async function POST(request: NextRequest) {
     }
 
     const finalSubmissionId = submissionId || uuidv4();
+    const clientPitchTrack = pitchTrack && isPitchContour(pitchTrack) ? pitchTrack : null;
+    if (pitchTrack && !clientPitchTrack) {
+      console.warn('Ignoring malformed pitch track for submission:', finalSubmissionId);
+    }
+
+    // Never trust claimed numbers - inspect the uploaded audio ourselves
+    let verification = await submissionVerifier.verifyAudio({
+      audioUrl,
+      claimedDuration: typeof duration === 'number' ? duration : undefined,
+      pitchTrack: clientPitchTrack
+    });
+
+    if (verification.rejection) {
+      return NextResponse.json(
+        { error: verification.rejection },
+        { status: 422 }
+      );
+    }
+
+    // Only a contour we extracted ourselves is scored. A client's contour can
+    // be fitted to the (public) reference melody, so its score would be theirs.
+    const serverPitchTrack = verification.pitchTrack;
+
+    // Score against the challenge's reference melody (from its catalog vocal stem)
+    let score: MelodyAlignmentResult | null = null;
+    if (serverPitchTrack) {
+      try {
+        score = await melodyScoringService.score({
+          challengeId,
+          pitchTrack: serverPitchTrack
+        });
+      } catch (scoreError) {
+        console.warn('Failed to score submission against reference melody:', scoreError);
+      }
+    }
+
+    verification = submissionVerifier.checkAccuracy(
+      verification,
+      typeof accuracy === 'number' ? accuracy : undefined,
+      score ? score.accuracy : null
+    );
+
+    // Re-submitting another performance's audio must not farm ratings or coins
+    let duplicate: DuplicateSubmission | null = null;
+    try {
+      duplicate = await audioFingerprintIndex.findOriginalSubmission(audioUrl, finalSubmissionId);
+    } catch (duplicateError) {
+      console.warn('Failed to check submission for duplicate audio:', duplicateError);
+    }
+
+    verification = submissionVerifier.checkDuplicate(
+      verification,
+      duplicate && {
+        submissionId: duplicate.original.id,
+        matchType: duplicate.matchType,
+        similarity: duplicate.similarity
+      }
+    );
+
+    if (verification.status === 'flagged') {
+      console.warn('🚩 Challenge submission flagged:', {
+        submissionId: finalSubmissionId,
+        flags: verification.flags.map(flag => flag.code)
+      });
+    }
 
     // Store challenge result in database
     const { data: challengeResult, error: insertError } = await supabase
@@ -51,11 +135,19 @@ export async function POST(request: NextRequest) {
         audio_url: audioUrl,
         self_rating: selfRating,
         confidence: confidence,
-        duration: duration,
+        duration: verification.duration !== null ? Math.round(verification.duration) : duration,
         user_fid: userFid,
         cast_hash: castHash,
-        accuracy: accuracy,
+        accuracy: score ? score.accuracy : null,
         user_id: userId,
+        verification_status: verification.status,
+        verification_flags: verification.flags as unknown as Json,
+        audio_format: verification.format,
+        claimed_duration: typeof duration === 'number' ? Math.round(duration) : null,
+        claimed_accuracy: typeof accuracy === 'number' ? accuracy : null,
+        verified_at: new Date().toISOString(),
+        audio_cid: extractAudioCid(audioUrl),
+        duplicate_of_result_id: duplicate ? duplicate.original.id : null,
         created_at: new Date().toISOString()
       })
       .select()
@@ -69,6 +161,67 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Signal checks and speech-to-text run in the background; playback of the
+    // original is checked against the catalog's preview, never a request URL
+    try {
+      const challenge = await databaseService.getChallengeById(challengeId);
+      await moderationService.init();
+      await moderationService.moderateContent(
+        finalSubmissionId,
+        ContentType.AUDIO,
+        audioUrl,
+        userId,
+        {
+          referenceUrl: challenge?.preview_url,
+          claimedDuration: typeof duration === 'number' ? duration : undefined
+        }
+      );
+    } catch (moderationError) {
+      console.warn('Failed to queue submission for audio moderation:', moderationError);
+    }
+
+    if (duplicate) {
+      // Someone else's recording is theft; the submitter's own is farming
+      const sameSubmitter = duplicate.original.user_id === userId ||
+        (userFid !== null && duplicate.original.user_fid === userFid);
+      try {
+        await moderationService.init();
+        await moderationService.flagForReview(
+          finalSubmissionId,
+          ContentType.AUDIO,
+          userId || (userFid ? String(userFid) : undefined),
+          sameSubmitter ? ModerationReason.SPAM : ModerationReason.COPYRIGHT_VIOLATION,
+          duplicate.similarity,
+          {
+            duplicateOf: duplicate.original.id,
+            matchType: duplicate.matchType
+          }
+        );
+      } catch (moderationError) {
+        console.warn('Failed to flag duplicate submission for review:', moderationError);
+      }
+    }
+
+    // Persist the pitch contour alongside the result (optional, best effort)
+    let pitchTrackStored = false;
+    const storedPitchTrack = serverPitchTrack || clientPitchTrack;
+    if (storedPitchTrack) {
+      try {
+        await databaseService.savePitchTrack(finalSubmissionId, storedPitchTrack);
+        pitchTrackStored = true;
+      } catch (pitchError) {
+        console.warn('Failed to store pitch track:', pitchError);
+      }
+    }
+
+    if (score) {
+      try {
+        await databaseService.saveChallengeScore(finalSubmissionId, challengeId, score);
+      } catch (scoreError) {
+        console.warn('Failed to store melody score:', scoreError);
+      }
+    }
+
     // Track analytics event
     await databaseService.trackEvent({
       event_type: 'challenge_submitted',
@@ -80,7 +233,11 @@ export async function POST(request: NextRequest) {
         confidence: confidence,
         duration: duration,
         has_cast_hash: !!castHash,
-        accuracy: accuracy
+        accuracy: score ? score.accuracy : null,
+        claimed_accuracy: accuracy,
+        verification_status: verification.status,
+        verification_flags: verification.flags.map(flag => flag.code),
+        has_pitch_track: pitchTrackStored
       }
     });
 
@@ -98,7 +255,8 @@ export async function POST(request: NextRequest) {
       submissionId: finalSubmissionId,
       challengeId,
       userId,
-      selfRating
+      selfRating,
+      verificationStatus: verification.status
     });
 
     return NextResponse.json({
@@ -113,6 +271,16 @@ export async function POST(request: NextRequest) {
       likes: 0,
       comments: 0,
       shares: 0,
+      pitchTrackStored,
+      accuracy: score ? score.accuracy : null,
+      score,
+      verification: {
+        status: verification.status,
+        duration: verification.duration,
+        format: verification.format,
+        flags: verification.flags
+      },
+      duplicateOf: duplicate ? duplicate.original.id : null,
       stored: true
     });
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { FarcasterDataService } from '@/lib/farcaster/FarcasterDataService';
+import { eventCounterService } from '@/lib/analytics/EventCounters';
 
 export async function POST(request: NextRequest) {
   try {
@@ -46,6 +47,9 @@ export async function POST(request: NextRequest) {
       }
       
       const result = await response.json();
+
+      // Count towards rolling engagement
+      await eventCounterService.record(performanceId, 'comment');
       
       // Return success response with Farcaster data
       return NextResponse.json({
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { databaseService } from '@/lib/database/DatabaseService';
-import { transformDiscoveryFeedToRealityCheck } from '@/lib/database/transformers';
+import { feedSnapshotService, FEED_TYPES, FeedType } from '@/lib/discovery/FeedSnapshotService';
+import { getSession } from '@/lib/auth/SessionAuth';
 
 /**
  * GET - Discovery feed endpoint
- * Returns performance data for different feed types from database
+ * Returns performance data for different feed types from database; the
+ * personalised one is ranked for the signed-in account
  */
 export async function GET(
   request: NextRequest,
@@ -12,51 +13,51 @@ export async function GET(
 ) {
   try {
     const { searchParams } = new URL(request.url);
-    const offset = parseInt(searchParams.get('offset') || '0', 10);
+    const cursor = searchParams.get('cursor');
     const limit = parseInt(searchParams.get('limit') || '20', 10);
     const { feedType } = await params;
 
     // Validate feed type
-    const validFeedTypes = ['foryou', 'trending', 'viral', 'recent'];
-    if (!validFeedTypes.includes(feedType)) {
+    if (!FEED_TYPES.includes(feedType as FeedType)) {
       return NextResponse.json(
         { error: 'Invalid feed type' },
         { status: 400 }
       );
     }
 
-    let feedData: any[] = [];
+    if (isNaN(limit) || limit <= 0 || limit > 100) {
+      return NextResponse.json(
+        { error: 'Invalid pagination parameters' },
+        { status: 400 }
+      );
+    }
 
     // Get data from database based on feed type
     try {
-      switch (feedType) {
-        case 'recent':
-          feedData = await databaseService.getDiscoveryFeedRecent(limit, offset);
-          break;
-        case 'trending':
-          feedData = await databaseService.getDiscoveryFeedTrending(limit, offset);
-          break;
-        case 'viral':
-          feedData = await databaseService.getDiscoveryFeedViral(limit, offset);
-          break;
-        case 'foryou':
-          feedData = await databaseService.getDiscoveryFeedForYou(limit, offset);
-          break;
-        default:
-          feedData = await databaseService.getDiscoveryFeedRecent(limit, offset);
+      const session = await getSession(request);
+      const result = await feedSnapshotService.getPage(feedType as FeedType, {
+        cursor,
+        limit,
+        userId: session?.userId || 'anonymous',
+        fid: session?.fid ?? null
+      });
+      if ('error' in result) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
       }
 
-      // Transform database results to API format
-      const performances = feedData.map(transformDiscoveryFeedToRealityCheck);
+      const { page } = result;
 
       return NextResponse.json({
         success: true,
-        performances,
+        performances: page.performances,
         pagination: {
-          offset,
           limit,
-          total: feedData.length,
-          hasMore: feedData.length === limit // Assume more if we got a full page
+          total: page.total,
+          hasMore: page.hasMore,
+          nextCursor: page.nextCursor
         },
         feedType,
         source: 'database',
@@ -71,10 +72,10 @@ export async function GET(
         success: true,
         performances: [],
         pagination: {
-          offset,
           limit,
           total: 0,
-          hasMore: false
+          hasMore: false,
+          nextCursor: null
         },
         feedType,
         source: 'empty',
@@ -1,18 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { RealityCheckResult } from '@/lib/zora/types';
-import { databaseService } from '@/lib/database/DatabaseService';
-import { transformDiscoveryFeedToRealityCheck, transformSeedPerformanceToRealityCheck } from '@/lib/database/transformers';
+import { transformSeedPerformanceToRealityCheck } from '@/lib/database/transformers';
 import { coldStartContentService } from '@/lib/coldstart/ColdStartContentService';
+import { feedSnapshotService } from '@/lib/discovery/FeedSnapshotService';
 
 export async function GET(request: NextRequest) {
   try {
     // Get query parameters
     const searchParams = request.nextUrl.searchParams;
-    const offset = parseInt(searchParams.get('offset') || '0', 10);
+    const cursor = searchParams.get('cursor');
     const limit = parseInt(searchParams.get('limit') || '20', 10);
 
     // Validate parameters
-    if (offset < 0 || limit <= 0 || limit > 100) {
+    if (isNaN(limit) || limit <= 0 || limit > 100) {
       return NextResponse.json(
         { error: 'Invalid pagination parameters' },
         { status: 400 }
@@ -21,26 +21,39 @@ export async function GET(request: NextRequest) {
 
     let performances: RealityCheckResult[] = [];
     let total = 0;
+    let hasMore = false;
+    let nextCursor: string | null = null;
 
     try {
-      // Try to get trending performances from database using discovery_feed view
-      const feedData = await databaseService.getDiscoveryFeedTrending(limit, offset);
-      
-      // Transform database results to RealityCheckResult format
-      performances = feedData.map(transformDiscoveryFeedToRealityCheck);
-      total = feedData.length; // This is approximate since we're using pagination
-      
+      // Trending performances, ranked once per scroll session
+      const result = await feedSnapshotService.getPage('trending', { cursor, limit });
+      if ('error' in result) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const { page } = result;
+      performances = page.performances;
+      total = page.total;
+      hasMore = page.hasMore;
+      nextCursor = page.nextCursor;
+
     } catch (dbError) {
+      // Seed content has no snapshot, so it only ever fills the first page
+      if (cursor) throw dbError;
+
       console.warn('Database query failed, falling back to cold start content:', dbError);
-      
+
       // Fallback to cold start content if database is empty or fails
-      const coldStartData = await coldStartContentService.getDiscoveryFeedContent(limit, offset);
+      const coldStartData = await coldStartContentService.getDiscoveryFeedContent(limit, 0);
       performances = coldStartData.performances.map(transformSeedPerformanceToRealityCheck);
       total = coldStartData.performances.length;
     }
 
     // If we still have no data, provide empty response
-    if (performances.length === 0 && offset === 0) {
+    if (performances.length === 0 && !cursor) {
       console.log('No trending performances found, returning empty feed');
     }
     
@@ -49,9 +62,9 @@ export async function GET(request: NextRequest) {
       performances,
       pagination: {
         total,
-        offset,
         limit,
-        hasMore: performances.length === limit // Approximate check
+        hasMore,
+        nextCursor
       },
       source: performances.length > 0 ? 'database' : 'empty'
     });
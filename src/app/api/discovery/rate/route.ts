@@ -1,15 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { databaseService } from '@/lib/database/DatabaseService';
+import { eventCounterService } from '@/lib/analytics/EventCounters';
+import { forYouFeedService } from '@/lib/discovery/ForYouFeedService';
+import { isSeedPerformanceId } from '@/lib/coldstart/SeedBlending';
 import { RatingService } from '@/lib/services/RatingService';
+import { RatingScale } from '@/lib/services/RatingAggregator';
+import { getSession } from '@/lib/auth/SessionAuth';
+
+const RATING_SCALES: RatingScale[] = ['1-5', '1-10'];
 
 /**
- * POST - Rate a performance
- * Clean, modular implementation following DRY principles
+ * POST - Rate a performance (signed-in users only; the voter is the session's account)
+ * One vote per user; re-rating replaces the previous vote.
+ * Ratings are normalized to 5 stars and aggregated with a reputation-weighted Bayesian average.
  */
 export async function POST(request: NextRequest) {
   try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in to rate a performance' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.userId;
     const body = await request.json();
-    const { performanceId, rating, userId } = body;
+    const { performanceId, rating, scale = '1-10' } = body;
 
     // Input validation
     if (!performanceId) {
@@ -19,57 +36,108 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (typeof rating !== 'number' || rating < 1 || rating > 10) {
+    // Seed content is an example, not a performance anyone can be judged on
+    if (isSeedPerformanceId(performanceId)) {
+      return NextResponse.json(
+        { error: 'Seed performances cannot be rated' },
+        { status: 400 }
+      );
+    }
+
+    if (!RATING_SCALES.includes(scale)) {
+      return NextResponse.json(
+        { error: `Scale must be one of: ${RATING_SCALES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const maxRating = scale === '1-10' ? 10 : 5;
+    if (typeof rating !== 'number' || rating < 1 || rating > maxRating) {
       return NextResponse.json(
-        { error: 'Rating must be a number between 1 and 10' },
+        { error: `Rating must be a number between 1 and ${maxRating}` },
         { status: 400 }
       );
     }
 
-    // Validate performance exists
-    const currentPerformance = await databaseService.getPerformanceById(performanceId);
-    if (!currentPerformance) {
+    // Discovery feed items are challenge results; older items live in performances
+    const challengeResult = await databaseService.getChallengeResultById(performanceId);
+    const currentPerformance = challengeResult ? null : await databaseService.getPerformanceById(performanceId);
+    if (!challengeResult && !currentPerformance) {
       return NextResponse.json(
         { error: 'Performance not found' },
         { status: 404 }
       );
     }
 
+    // Results are keyed by the primary wallet (and FID), older performances by account
+    const isOwnPerformance = challengeResult
+      ? challengeResult.user_id?.toLowerCase() === userId.toLowerCase() ||
+        (session.fid !== null && challengeResult.user_fid === session.fid)
+      : currentPerformance?.user_id === session.accountId;
+    if (isOwnPerformance) {
+      return NextResponse.json(
+        { error: 'You cannot rate your own performance' },
+        { status: 403 }
+      );
+    }
+
+    // Use dedicated rating service for vote storage and aggregation
+    const ratingService = RatingService.getInstance();
+    const ratingData = await ratingService.submitRating({
+      performanceId,
+      userId,
+      rating,
+      scale,
+      isChallengeResult: !!challengeResult
+    });
+
+    // Count new votes towards rolling engagement (re-rating is not new engagement)
+    if (ratingData.previousRating === null) {
+      await eventCounterService.record(performanceId, 'rate');
+    }
+
+    // Picked up by the next For You page
+    forYouFeedService.invalidateProfile(userId);
+
     // Track the rating event
     await databaseService.trackEvent({
       event_type: 'performance_rated',
       user_id: userId,
       performance_id: performanceId,
       event_data: {
-        rating: rating,
-        rating_scale: '1-10'
+        rating: ratingData.userRating,
+        rating_scale: '1-5',
+        raw_rating: rating,
+        raw_scale: scale,
+        weight: ratingData.weight,
+        replaced_rating: ratingData.previousRating
       }
     });
 
-    // Use dedicated rating service for clean, performant calculations
-    const ratingService = RatingService.getInstance();
-    const ratingData = await ratingService.calculateNewRating(performanceId, rating);
-
-    console.log(`Performance ${performanceId} rated ${rating}/10. New average: ${ratingData.newAverage}`);
+    console.log(`Performance ${performanceId} rated ${ratingData.userRating}/5 (weight ${ratingData.weight}). Community rating: ${ratingData.rating} from ${ratingData.voteCount} votes`);
 
     return NextResponse.json({
       success: true,
-      message: 'Performance rated successfully',
+      message: ratingData.previousRating !== null ? 'Rating updated successfully' : 'Performance rated successfully',
       performanceId,
-      rating,
-      newAverage: ratingData.newAverage,
-      totalRatings: ratingData.totalRatings,
+      rating: ratingData.userRating,
+      communityRating: ratingData.rating,
+      newAverage: ratingData.rating,
+      rawAverage: ratingData.mean,
+      totalRatings: ratingData.voteCount,
+      confidence: ratingData.confidence,
+      scale: '1-5',
       timestamp: new Date().toISOString()
     });
 
   } catch (error) {
     console.error('Rate performance error:', error);
     return NextResponse.json(
-      { 
+      {
         error: 'Failed to rate performance',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database/DatabaseService';
+import { coldStartContentService } from '@/lib/coldstart/ColdStartContentService';
+import {
+  DEFAULT_SEED_BLEND_POLICY,
+  SeedBlendOverride,
+  resolveSeedBlendPolicy,
+  seedRatio,
+  validateSeedBlendOverride
+} from '@/lib/coldstart/SeedBlending';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+/**
+ * API route to inspect the seed blending policy
+ * GET /api/discovery/seed-blending
+ *
+ * Returns the effective policies, the feed-wide seed ratio and, per challenge
+ * with seeds or an override, its real performance count and seed ratio.
+ */
+export async function GET() {
+  try {
+    const [config, plan, counts] = await Promise.all([
+      coldStartContentService.getBlendConfig(),
+      coldStartContentService.getBlendPlan(),
+      databaseService.getChallengeSubmissionCounts()
+    ]);
+
+    const challengeIds = [...new Set([
+      ...coldStartContentService.getSeedPerformances().map(seed => seed.challengeId),
+      ...Object.keys(config.challenges)
+    ])];
+
+    return NextResponse.json({
+      defaults: config.defaults,
+      builtIn: DEFAULT_SEED_BLEND_POLICY,
+      overrides: config.challenges,
+      realCount: plan.realCount,
+      ratio: plan.ratio,
+      challenges: challengeIds.map(challengeId => {
+        const policy = resolveSeedBlendPolicy(config, challengeId);
+        const realCount = counts[challengeId] || 0;
+        return { challengeId, realCount, ratio: seedRatio(realCount, policy), policy };
+      })
+    });
+  } catch (error) {
+    console.error('Error fetching seed blending policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch seed blending policy' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API route to set a seed blending policy (admin only)
+ * POST /api/discovery/seed-blending
+ * Body: { scope: 'default' | challengeId, policy: { enabled?, initialRatio?, halfLife?, floorRatio?, retireAfter? }, actor? }
+ *
+ * Replaces the stored policy for the scope; fields left out inherit from the
+ * default policy (or, for the default scope, the built-in one).
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { scope, policy, actor = 'admin' } = body || {};
+
+    if (typeof scope !== 'string' || !scope) {
+      return NextResponse.json(
+        { error: "scope must be 'default' or a challenge id" },
+        { status: 400 }
+      );
+    }
+
+    const errors = validateSeedBlendOverride(policy);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid seed blending policy', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const override = policy as SeedBlendOverride;
+    const row = await databaseService.upsertSeedBlendPolicy({
+      scope,
+      enabled: override.enabled ?? null,
+      initial_ratio: override.initialRatio ?? null,
+      half_life: override.halfLife ?? null,
+      floor_ratio: override.floorRatio ?? null,
+      retire_after: override.retireAfter ?? null,
+      updated_by: typeof actor === 'string' ? actor : 'admin'
+    });
+    coldStartContentService.invalidateBlendPlan();
+
+    console.log(`🌱 Seed blending policy for ${scope} updated by ${row.updated_by}`);
+
+    return NextResponse.json({
+      success: true,
+      policy: row
+    });
+  } catch (error) {
+    console.error('Error updating seed blending policy:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update seed blending policy',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API route to remove a seed blending policy (admin only)
+ * DELETE /api/discovery/seed-blending?scope=...
+ *
+ * A challenge falls back to the default policy; removing the default policy
+ * restores the built-in one.
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const scope = request.nextUrl.searchParams.get('scope');
+    if (!scope) {
+      return NextResponse.json(
+        { error: 'scope is required' },
+        { status: 400 }
+      );
+    }
+
+    await databaseService.deleteSeedBlendPolicy(scope);
+    coldStartContentService.invalidateBlendPlan();
+
+    return NextResponse.json({
+      success: true,
+      scope
+    });
+  } catch (error) {
+    console.error('Error removing seed blending policy:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to remove seed blending policy',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { databaseService } from '@/lib/database/DatabaseService';
+import { counterActor, eventCounterService } from '@/lib/analytics/EventCounters';
+import { forYouFeedService } from '@/lib/discovery/ForYouFeedService';
+import { isSeedPerformanceId } from '@/lib/coldstart/SeedBlending';
+import { getSession } from '@/lib/auth/SessionAuth';
 
 /**
  * POST - Share a performance
@@ -7,7 +11,10 @@ import { databaseService } from '@/lib/database/DatabaseService';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { performanceId, userId, platform } = body;
+    const { performanceId, platform } = body;
+
+    // Anonymous engagement still counts; only the session can say who it was
+    const userId = (await getSession(request))?.userId ?? null;
 
     if (!performanceId) {
       return NextResponse.json(
@@ -16,6 +23,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Seed engagement is acknowledged but never counted towards metrics or virality
+    if (isSeedPerformanceId(performanceId)) {
+      return NextResponse.json({
+        success: true,
+        message: 'Seed performance shared',
+        performanceId,
+        counted: false,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    // Only engagement with a real performance counts
+    const isKnown = !!(await databaseService.getChallengeResultById(performanceId)) ||
+      !!(await databaseService.getPerformanceById(performanceId));
+    if (!isKnown) {
+      return NextResponse.json(
+        { error: 'Performance not found' },
+        { status: 404 }
+      );
+    }
+
+    // Each user (or IP when signed out) counts once an hour; repeats are acknowledged only
+    const counted = await eventCounterService.record(performanceId, 'share', counterActor(userId, request));
+    if (!counted) {
+      return NextResponse.json({
+        success: true,
+        message: 'Performance already shared',
+        performanceId,
+        counted: false,
+        timestamp: new Date().toISOString()
+      });
+    }
+
     // Get current performance metrics
     const currentMetrics = await databaseService.getPerformanceMetrics(performanceId);
     const currentShares = currentMetrics?.shares_count || 0;
@@ -38,6 +78,11 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    // Picked up by the next For You page
+    if (userId) {
+      forYouFeedService.invalidateProfile(userId);
+    }
+
     console.log(`✅ Performance ${performanceId} shared successfully. New count: ${currentShares + 1}`);
 
     return NextResponse.json({
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { farcasterService } from '@/services/FarcasterService';
+import { challengeFrameService, CHALLENGE_FRAME_POST_URL } from '@/lib/farcaster/ChallengeFrameService';
+import type { FrameRequest } from '@/types/farcaster.types';
+
+/**
+ * POST - A button press on a challenge frame
+ * Body: the frame action (untrustedData and trustedData.messageBytes). Only
+ * the signed message is trusted: who pressed, which button, the input text and
+ * the frame state all come from it, and it must be recent and for this URL.
+ * Query: challengeId, for frames shared before they carried state
+ * Answers with the next frame as HTML.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: Partial<FrameRequest> = await request.json();
+    const messageBytes = body.trustedData?.messageBytes;
+
+    if (!messageBytes) {
+      return NextResponse.json(
+        { error: 'Signed frame message is required' },
+        { status: 400 }
+      );
+    }
+
+    const action = await farcasterService.validateFrameAction(messageBytes, CHALLENGE_FRAME_POST_URL);
+    if (!action) {
+      return NextResponse.json(
+        { error: 'Invalid frame message' },
+        { status: 401 }
+      );
+    }
+
+    const frame = await challengeFrameService.handleAction(action, request.nextUrl.searchParams.get('challengeId'));
+    if (!frame) {
+      return NextResponse.json(
+        { error: 'Challenge not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(farcasterService.generateFrameHtml(frame), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    });
+  } catch (error) {
+    console.error('Error handling challenge frame action:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to handle frame action',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ogImageUrl } from '@/lib/og/OgImageUrls';
+import { farcasterService } from '@/services/FarcasterService';
+import {
+  CHALLENGE_FRAME_POST_URL,
+  INITIAL_CHALLENGE_FRAME_VIEW
+} from '@/lib/farcaster/ChallengeFrameService';
 
 export async function POST(request: NextRequest) {
   try {
@@ -8,23 +14,25 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Challenge data is required' }, { status: 400 });
     }
 
-    // Generate frame metadata
+    // Generate frame metadata. Post buttons are handled by the action route,
+    // which rebuilds what each one does from the screen named in the state.
     const frameMetadata = {
       'fc:frame': 'vNext',
-      'fc:frame:image': options?.imageUrl || generateChallengeImage(challengeData),
+      'fc:frame:image': options?.imageUrl || ogImageUrl('challenge', challengeData.id),
       'fc:frame:button:1': options?.buttons?.[0]?.label || '🎤 Accept Challenge',
       'fc:frame:button:1:action': options?.buttons?.[0]?.action || 'link',
-      'fc:frame:button:1:target': options?.buttons?.[0]?.target || `/challenge/${challengeData.id}`,
+      'fc:frame:button:1:target': options?.buttons?.[0]?.target || farcasterService.createChallengeInviteUrl(challengeData.id),
       'fc:frame:button:2': options?.buttons?.[1]?.label || '👀 View Leaderboard',
-      'fc:frame:button:2:action': options?.buttons?.[1]?.action || 'post',
-      'fc:frame:button:2:target': options?.buttons?.[1]?.target || 'leaderboard',
+      'fc:frame:button:2:action': 'post',
       'fc:frame:button:3': options?.buttons?.[2]?.label || '🎵 Preview Song',
-      'fc:frame:button:3:action': options?.buttons?.[2]?.action || 'post',
-      'fc:frame:button:3:target': options?.buttons?.[2]?.target || 'preview',
-      'fc:frame:post_url': `${process.env.NEXT_PUBLIC_BASE_URL}/api/farcaster/frames/challenge/action`,
+      'fc:frame:button:3:action': 'post',
+      'fc:frame:button:4': options?.buttons?.[3]?.label || '⭐ Rate Singers',
+      'fc:frame:button:4:action': 'post',
+      'fc:frame:post_url': `${CHALLENGE_FRAME_POST_URL}?challengeId=${encodeURIComponent(challengeData.id)}`,
+      'fc:frame:state': JSON.stringify({ challengeId: challengeData.id, view: INITIAL_CHALLENGE_FRAME_VIEW }),
       'og:title': options?.title || `New Challenge: ${challengeData.title}`,
       'og:description': options?.description || challengeData.description,
-      'og:image': options?.imageUrl || generateChallengeImage(challengeData),
+      'og:image': options?.imageUrl || ogImageUrl('challenge', challengeData.id),
     };
 
     // Create frame URL with metadata
@@ -39,16 +47,3 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Failed to generate challenge frame' }, { status: 500 });
   }
 }
-
-function generateChallengeImage(challengeData: any): string {
-  // Generate a dynamic image URL based on challenge data
-  const params = new URLSearchParams({
-    title: challengeData.title,
-    description: challengeData.description || '',
-    difficulty: challengeData.difficulty || '',
-    participants: challengeData.participants?.toString() || '0',
-    type: 'challenge'
-  });
-  
-  return `${process.env.NEXT_PUBLIC_BASE_URL}/api/og/challenge?${params.toString()}`;
-}
\ No newline at end of file
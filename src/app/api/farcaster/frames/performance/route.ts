@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ogImageUrl } from '@/lib/og/OgImageUrls';
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,7 +12,7 @@ export async function POST(request: NextRequest) {
     // Generate frame metadata
     const frameMetadata = {
       'fc:frame': 'vNext',
-      'fc:frame:image': options?.imageUrl || generatePerformanceImage(performanceData),
+      'fc:frame:image': options?.imageUrl || ogImageUrl('result', performanceData.id),
       'fc:frame:button:1': options?.buttons?.[0]?.label || '🎵 Listen',
       'fc:frame:button:1:action': options?.buttons?.[0]?.action || 'post',
       'fc:frame:button:1:target': options?.buttons?.[0]?.target || 'play',
@@ -24,7 +25,7 @@ export async function POST(request: NextRequest) {
       'fc:frame:post_url': `${process.env.NEXT_PUBLIC_BASE_URL}/api/farcaster/frames/performance/action`,
       'og:title': options?.title || `${performanceData.challengeTitle} Performance`,
       'og:description': options?.description || `Vocal performance with ${performanceData.selfRating}/5 self-rating`,
-      'og:image': options?.imageUrl || generatePerformanceImage(performanceData),
+      'og:image': options?.imageUrl || ogImageUrl('result', performanceData.id),
     };
 
     // Create frame URL with metadata
@@ -42,16 +43,3 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Failed to generate performance frame' }, { status: 500 });
   }
 }
-
-function generatePerformanceImage(performanceData: any): string {
-  // Generate a dynamic image URL based on performance data
-  const params = new URLSearchParams({
-    title: performanceData.challengeTitle,
-    selfRating: performanceData.selfRating.toString(),
-    communityRating: performanceData.communityRating?.toString() || '',
-    gap: performanceData.gap?.toString() || '',
-    type: 'performance'
-  });
-  
-  return `${process.env.NEXT_PUBLIC_BASE_URL}/api/og/performance?${params.toString()}`;
-}
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { moderationService } from '@/lib/moderation/ModerationService';
+import { authenticateReviewer } from '@/lib/moderation/ReviewerAuth';
+
+/**
+ * GET - A single appeal (reviewers only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ appealId: string }> }
+) {
+  const reviewerId = await authenticateReviewer(request);
+  if (!reviewerId) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { appealId } = await params;
+    const appeal = await moderationService.getAppeal(appealId);
+    if (!appeal) {
+      return NextResponse.json(
+        { error: 'Appeal not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      appeal,
+      reports: await moderationService.getReportsForContent(appeal.contentId)
+    });
+  } catch (error) {
+    console.error('Error fetching appeal:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch appeal',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Resolve an appeal
+ * Body: { approved }
+ * An approved appeal restores the content. The reviewer who made the original
+ * decision cannot resolve the appeal against it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ appealId: string }> }
+) {
+  const reviewerId = await authenticateReviewer(request);
+  if (!reviewerId) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { appealId } = await params;
+    const { approved } = await request.json();
+
+    if (typeof approved !== 'boolean') {
+      return NextResponse.json(
+        { error: 'approved must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const appeal = await moderationService.getAppeal(appealId);
+    if (!appeal) {
+      return NextResponse.json(
+        { error: 'Appeal not found' },
+        { status: 404 }
+      );
+    }
+
+    if (appeal.status !== 'pending') {
+      return NextResponse.json(
+        { error: `Appeal is already ${appeal.status}` },
+        { status: 409 }
+      );
+    }
+
+    const resolved = await moderationService.resolveAppeal(appealId, approved, reviewerId);
+    if (!resolved) {
+      return NextResponse.json(
+        { error: 'Appeals must be resolved by a different reviewer than the original decision' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      appeal: await moderationService.getAppeal(appealId)
+    });
+  } catch (error) {
+    console.error('Error resolving appeal:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to resolve appeal',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
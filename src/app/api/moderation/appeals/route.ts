@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { moderationService } from '@/lib/moderation/ModerationService';
+import { authenticateReviewer } from '@/lib/moderation/ReviewerAuth';
+import { getSession } from '@/lib/auth/SessionAuth';
+
+/**
+ * POST - Appeal rejected content (signed-in users only; only the content's owner can appeal)
+ * Body: { contentId, reason, evidence? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in to appeal a moderation decision' },
+        { status: 401 }
+      );
+    }
+
+    const userId = session.userId;
+    const body = await request.json();
+    const { contentId, reason, evidence } = body;
+
+    if (!contentId || typeof contentId !== 'string') {
+      return NextResponse.json(
+        { error: 'Content ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!reason || typeof reason !== 'string') {
+      return NextResponse.json(
+        { error: 'A reason is required to appeal' },
+        { status: 400 }
+      );
+    }
+
+    await moderationService.init();
+    const evidenceText = typeof evidence === 'string' ? evidence : undefined;
+
+    const ineligible = await moderationService.checkAppealEligibility(userId, contentId, evidenceText);
+    if (ineligible) {
+      return NextResponse.json(
+        { error: ineligible },
+        { status: ineligible === 'Content not found' ? 404 : 409 }
+      );
+    }
+
+    const appealId = await moderationService.submitAppeal(userId, contentId, reason, evidenceText);
+    if (!appealId) {
+      return NextResponse.json(
+        { error: 'Appeal was not accepted' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, appealId });
+  } catch (error) {
+    console.error('Error submitting appeal:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to submit appeal',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET - Pending appeals with their SLA, most urgent first (reviewers only)
+ */
+export async function GET(request: NextRequest) {
+  const reviewerId = await authenticateReviewer(request);
+  if (!reviewerId) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const appeals = await moderationService.getAppealQueue();
+    return NextResponse.json({ appeals });
+  } catch (error) {
+    console.error('Error fetching appeals:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch appeals',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  moderationService,
+  ModerationActionType,
+  ModerationReason
+} from '@/lib/moderation/ModerationService';
+import { authenticateReviewer } from '@/lib/moderation/ReviewerAuth';
+
+/**
+ * POST - Decide on content in the reviewer's queue
+ * Body: { contentId, approved, reason?, actionTaken? }
+ * Resolves open reports and applies the action to the content owner.
+ */
+export async function POST(request: NextRequest) {
+  const reviewerId = await authenticateReviewer(request);
+  if (!reviewerId) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { contentId, approved, reason, actionTaken } = body;
+
+    if (!contentId || typeof contentId !== 'string') {
+      return NextResponse.json(
+        { error: 'Content ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof approved !== 'boolean') {
+      return NextResponse.json(
+        { error: 'approved must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    if (reason !== undefined && !Object.values(ModerationReason).includes(reason)) {
+      return NextResponse.json(
+        { error: `Reason must be one of: ${Object.values(ModerationReason).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (actionTaken !== undefined && !Object.values(ModerationActionType).includes(actionTaken)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${Object.values(ModerationActionType).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const applied = await moderationService.submitModerationDecision(
+      contentId,
+      reviewerId,
+      approved,
+      reason,
+      actionTaken
+    );
+
+    if (!applied) {
+      return NextResponse.json(
+        { error: 'Content is not in your review queue' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      contentId,
+      status: await moderationService.getModerationStatus(contentId)
+    });
+  } catch (error) {
+    console.error('Error submitting moderation decision:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to submit moderation decision',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { moderationService, ReviewSlaStatus } from '@/lib/moderation/ModerationService';
+import { authenticateReviewer } from '@/lib/moderation/ReviewerAuth';
+
+/**
+ * GET - The authenticated reviewer's queue, most urgent first
+ * Applies SLA escalation before reading, so the queue is current even between scheduler runs.
+ */
+export async function GET(request: NextRequest) {
+  const reviewerId = await authenticateReviewer(request);
+  if (!reviewerId) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    await moderationService.processReviewSla();
+    const items = await moderationService.getReviewQueue(reviewerId);
+
+    const sla: Record<ReviewSlaStatus, number> = { on_track: 0, at_risk: 0, overdue: 0 };
+    for (const item of items) {
+      sla[item.slaStatus]++;
+    }
+
+    return NextResponse.json({
+      reviewerId,
+      items,
+      sla,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error fetching review queue:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch review queue',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
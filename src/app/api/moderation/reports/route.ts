@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  moderationService,
+  ContentType,
+  ModerationReason,
+  ReportStatus
+} from '@/lib/moderation/ModerationService';
+import { authenticateReviewer } from '@/lib/moderation/ReviewerAuth';
+import { getSession } from '@/lib/auth/SessionAuth';
+
+/**
+ * POST - Report content (signed-in users only; the reporter is the session's account)
+ * Body: { contentId, contentType, reason, details? }
+ * Enough reputation-weighted reports put the content in a reviewer's queue.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in to report content' },
+        { status: 401 }
+      );
+    }
+
+    const reporterId = session.userId;
+    const body = await request.json();
+    const { contentId, contentType, reason, details } = body;
+
+    if (!contentId || typeof contentId !== 'string') {
+      return NextResponse.json(
+        { error: 'Content ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Object.values(ContentType).includes(contentType)) {
+      return NextResponse.json(
+        { error: `Content type must be one of: ${Object.values(ContentType).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Object.values(ModerationReason).includes(reason)) {
+      return NextResponse.json(
+        { error: `Reason must be one of: ${Object.values(ModerationReason).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await moderationService.init();
+    const reportId = await moderationService.reportContent(
+      contentId,
+      contentType,
+      reporterId,
+      reason,
+      typeof details === 'string' ? details : undefined
+    );
+
+    if (reportId === 'report_disabled') {
+      return NextResponse.json(
+        { error: 'Community reporting is disabled' },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json({ success: true, reportId });
+  } catch (error) {
+    console.error('Error submitting report:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to submit report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET - List reports (reviewers only)
+ * Query: contentId?, status? (comma-separated, defaults to submitted)
+ */
+export async function GET(request: NextRequest) {
+  const reviewerId = await authenticateReviewer(request);
+  if (!reviewerId) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const contentId = searchParams.get('contentId') || undefined;
+    const statuses = (searchParams.get('status') || ReportStatus.SUBMITTED)
+      .split(',')
+      .filter((status): status is ReportStatus => Object.values(ReportStatus).includes(status as ReportStatus));
+
+    const reports = await moderationService.listReports({ contentId, statuses });
+
+    return NextResponse.json({ reports });
+  } catch (error) {
+    console.error('Error listing reports:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list reports',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { moderationService } from '@/lib/moderation/ModerationService';
+import { issueReviewerToken } from '@/lib/moderation/ReviewerAuth';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+/**
+ * POST - Register a reviewer and issue their console token (admin only)
+ * Body: { userId, ttlHours? }
+ * The user must have reached ReputationLevel.MODERATOR. Calling again for a
+ * registered reviewer just issues a fresh token.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { userId, ttlHours } = await request.json();
+
+    if (!userId || typeof userId !== 'string') {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (ttlHours !== undefined && (typeof ttlHours !== 'number' || ttlHours <= 0 || ttlHours > 24 * 7)) {
+      return NextResponse.json(
+        { error: 'ttlHours must be between 0 and 168' },
+        { status: 400 }
+      );
+    }
+
+    await moderationService.init();
+    if (!(await moderationService.registerReviewer(userId))) {
+      return NextResponse.json(
+        { error: 'User has not reached moderator reputation' },
+        { status: 403 }
+      );
+    }
+
+    const { token, expiresAt } = issueReviewerToken(userId, ttlHours);
+
+    return NextResponse.json({
+      success: true,
+      reviewerId: userId,
+      token,
+      expiresAt: new Date(expiresAt).toISOString()
+    });
+  } catch (error) {
+    console.error('Error registering reviewer:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to register reviewer',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE - Unregister a reviewer and reassign their queue (admin only)
+ * Query: userId
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const userId = request.nextUrl.searchParams.get('userId');
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    await moderationService.init();
+    await moderationService.unregisterReviewer(userId);
+
+    return NextResponse.json({ success: true, reviewerId: userId });
+  } catch (error) {
+    console.error('Error unregistering reviewer:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to unregister reviewer',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { moderationService } from '@/lib/moderation/ModerationService';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+/**
+ * Escalate reviews past humanModeration.escalationThreshold and reassign
+ * overdue ones
+ * Called by the scheduler: GET or POST /api/moderation/sla/run with `Authorization: Bearer $ADMIN_API_SECRET`
+ */
+async function runReviewSla(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    await moderationService.init();
+    const summary = await moderationService.processReviewSla();
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Review SLA run error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run review SLA',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = runReviewSla;
+export const POST = runReviewSla;
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChallengeCardProps } from '@/lib/og/OgCardData';
+import { ChallengeCard } from '@/lib/og/OgCards';
+import { ogImageService } from '@/lib/og/OgImageService';
+
+/**
+ * GET - Shareable PNG of a challenge card
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ challengeId: string }> }
+) {
+  try {
+    const { challengeId } = await params;
+    const props = await getChallengeCardProps(challengeId);
+
+    if (!props) {
+      return NextResponse.json(
+        { error: 'Challenge not found' },
+        { status: 404 }
+      );
+    }
+
+    return ogImageService.respond(request, `challenge:${challengeId}`, props, ChallengeCard);
+  } catch (error) {
+    console.error('Error rendering challenge image:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to render challenge image',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
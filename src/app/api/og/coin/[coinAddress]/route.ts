@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAddress } from 'viem';
+import { getCoinCardProps } from '@/lib/og/OgCardData';
+import { CoinCard } from '@/lib/og/OgCards';
+import { ogImageService } from '@/lib/og/OgImageService';
+
+/**
+ * GET - Shareable PNG of a performance coin
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ coinAddress: string }> }
+) {
+  try {
+    const { coinAddress } = await params;
+
+    if (!isAddress(coinAddress)) {
+      return NextResponse.json(
+        { error: 'Invalid coin address' },
+        { status: 400 }
+      );
+    }
+
+    const props = await getCoinCardProps(coinAddress);
+
+    if (!props) {
+      return NextResponse.json(
+        { error: 'Coin not found' },
+        { status: 404 }
+      );
+    }
+
+    return ogImageService.respond(request, `coin:${coinAddress.toLowerCase()}`, props, CoinCard);
+  } catch (error) {
+    console.error('Error rendering coin image:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to render coin image',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLeaderboardCardProps } from '@/lib/og/OgCardData';
+import { LeaderboardCard } from '@/lib/og/OgCards';
+import { ogImageService } from '@/lib/og/OgImageService';
+
+/**
+ * GET - PNG of one page of a challenge's leaderboard
+ * Query: page (from 0, default 0)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ challengeId: string }> }
+) {
+  try {
+    const { challengeId } = await params;
+    const page = parseInt(request.nextUrl.searchParams.get('page') || '0', 10);
+
+    if (!Number.isInteger(page) || page < 0) {
+      return NextResponse.json(
+        { error: 'Page must be a non-negative integer' },
+        { status: 400 }
+      );
+    }
+
+    const props = await getLeaderboardCardProps(challengeId, page);
+
+    if (!props) {
+      return NextResponse.json(
+        { error: 'Challenge not found' },
+        { status: 404 }
+      );
+    }
+
+    return ogImageService.respond(request, `leaderboard:${challengeId}:${page}`, props, LeaderboardCard);
+  } catch (error) {
+    console.error('Error rendering leaderboard image:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to render leaderboard image',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRealityRevealCardProps } from '@/lib/og/OgCardData';
+import { RealityRevealCard } from '@/lib/og/OgCards';
+import { ogImageService } from '@/lib/og/OgImageService';
+
+/**
+ * GET - Shareable PNG of a Reality Reveal: self vs community rating, the gap
+ * and the category. Seed performance IDs work too.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ resultId: string }> }
+) {
+  try {
+    const { resultId } = await params;
+    const props = await getRealityRevealCardProps(resultId);
+
+    if (!props) {
+      return NextResponse.json(
+        { error: 'Result not found' },
+        { status: 404 }
+      );
+    }
+
+    return ogImageService.respond(request, `result:${resultId}`, props, RealityRevealCard);
+  } catch (error) {
+    console.error('Error rendering result image:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to render result image',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
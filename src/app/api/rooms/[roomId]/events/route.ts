@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AudioRoomParticipantRow } from '@/lib/database/DatabaseService';
+import { audioRoomService } from '@/lib/rooms/AudioRoomService';
+
+export const maxDuration = 300;
+
+// Signaling is latency sensitive, so this polls faster than the job streams
+const POLL_INTERVAL_MS = 1000;
+const PRESENCE_INTERVAL_MS = 15 * 1000;
+// Close a little before maxDuration; EventSource reconnects with Last-Event-ID
+const STREAM_LIFETIME_MS = 280 * 1000;
+
+/**
+ * GET - Server-sent events for one participant
+ * Query: token (EventSource cannot send headers), after (the cursor returned by join)
+ * Emits `room` with the current room on connect, then a `signal` event per
+ * offer, answer, ICE candidate, join/leave or room change addressed to the
+ * participant. Keeping the stream open keeps the participant present.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  const { roomId } = await params;
+  const fid = audioRoomService.authenticate(request, roomId);
+  if (fid === null) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  let participant: AudioRoomParticipantRow | null;
+  try {
+    participant = await audioRoomService.getStreamParticipant(roomId, fid);
+  } catch (error) {
+    console.error('Error opening audio room stream:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to open audio room stream',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+
+  if (!participant) {
+    return NextResponse.json(
+      { error: 'Not in this room' },
+      { status: 404 }
+    );
+  }
+
+  const resumeFrom = request.headers.get('last-event-id') || request.nextUrl.searchParams.get('after') || '0';
+  const encoder = new TextEncoder();
+  const initial = participant;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const startedAt = Date.now();
+      let cursor = parseInt(resumeFrom, 10) || 0;
+      let lastPresence = 0;
+      let current: AudioRoomParticipantRow | null = initial;
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+      request.signal.addEventListener('abort', close);
+
+      const send = (event: string, data: unknown, id?: number) => {
+        const idLine = id !== undefined ? `id: ${id}\n` : '';
+        controller.enqueue(encoder.encode(`event: ${event}\n${idLine}data: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        send('room', await audioRoomService.getRoom(roomId));
+      } catch (error) {
+        console.warn(`⚠️ Failed to load audio room ${roomId}:`, error);
+      }
+
+      while (!closed && current && Date.now() - startedAt < STREAM_LIFETIME_MS) {
+        try {
+          if (Date.now() - lastPresence >= PRESENCE_INTERVAL_MS) {
+            lastPresence = Date.now();
+            controller.enqueue(encoder.encode(': keep-alive\n\n'));
+            await audioRoomService.heartbeat(roomId, current);
+          }
+
+          const events = await audioRoomService.getEvents(roomId, current, cursor);
+          for (const event of events) {
+            send('signal', event, event.id);
+            cursor = event.id;
+          }
+
+          if (events.some(event => event.type === 'room-ended')) break;
+
+          // Approval, rejection, leaving or a kick changes what this stream may see
+          if (events.some(event => event.type.startsWith('join-') || event.type.startsWith('participant-'))) {
+            current = await audioRoomService.getStreamParticipant(roomId, fid);
+          }
+        } catch (error) {
+          // Transient read errors keep the stream open; the next poll retries
+          console.warn(`⚠️ Failed to poll audio room ${roomId}:`, error);
+        }
+
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+
+      close();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
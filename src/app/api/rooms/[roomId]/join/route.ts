@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { audioRoomService } from '@/lib/rooms/AudioRoomService';
+import { validateParticipantProfile } from '@/lib/rooms/AudioRoomRules';
+import { getSession } from '@/lib/auth/SessionAuth';
+
+/**
+ * POST - Join an audio room (signed-in users with a linked Farcaster account only)
+ * Body: { fid?, username?, displayName?, pfpUrl? }
+ * The participant is the session's FID; a different `fid` is refused.
+ * 200 with the room when admitted; 202 while a host or moderator has to
+ * approve (the stream then delivers join-approved or join-rejected); 409 when
+ * the room is full. Both successes return the participant token.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in to join an audio room' },
+        { status: 401 }
+      );
+    }
+    if (!session.fid) {
+      return NextResponse.json(
+        { error: 'Link a Farcaster account to join an audio room' },
+        { status: 403 }
+      );
+    }
+
+    const { roomId } = await params;
+    const body = (await request.json()) || {};
+    if (body.fid !== undefined && body.fid !== session.fid) {
+      return NextResponse.json(
+        { error: 'You can only join as your own Farcaster account' },
+        { status: 403 }
+      );
+    }
+    const profile = { ...body, fid: session.fid };
+
+    const errors = validateParticipantProfile(profile);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid participant', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await audioRoomService.join(roomId, profile);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result, { status: result.status === 'pending' ? 202 : 200 });
+  } catch (error) {
+    console.error('Error joining audio room:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to join audio room',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
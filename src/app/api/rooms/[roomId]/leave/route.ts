@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { audioRoomService } from '@/lib/rooms/AudioRoomService';
+
+/**
+ * POST - Leave an audio room, or withdraw a pending request. The room ends
+ * when its host leaves.
+ * Headers: Authorization: Bearer <participant token>
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  const { roomId } = await params;
+  const fid = audioRoomService.authenticate(request, roomId);
+  if (fid === null) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await audioRoomService.leave(roomId, fid);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error leaving audio room:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to leave audio room',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { audioRoomService } from '@/lib/rooms/AudioRoomService';
+
+/**
+ * PATCH - Mute or unmute yourself, or stop listening
+ * Headers: Authorization: Bearer <participant token>
+ * Body: { isMuted?, isListening? }
+ * Unmuting is refused while a host or moderator has you muted.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  const { roomId } = await params;
+  const fid = audioRoomService.authenticate(request, roomId);
+  if (fid === null) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { isMuted, isListening } = (await request.json()) || {};
+
+    if ((isMuted !== undefined && typeof isMuted !== 'boolean') ||
+        (isListening !== undefined && typeof isListening !== 'boolean')) {
+      return NextResponse.json(
+        { error: 'isMuted and isListening must be booleans' },
+        { status: 400 }
+      );
+    }
+
+    const result = await audioRoomService.updateSelf(roomId, fid, { isMuted, isListening });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error updating audio room participant:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update participant',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { audioRoomService } from '@/lib/rooms/AudioRoomService';
+import { validateModerationRequest } from '@/lib/rooms/AudioRoomPermissions';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+/**
+ * GET - The room's moderation log (hosts and moderators, or admins)
+ * Headers: Authorization: Bearer <participant token, or the admin secret>
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  const { roomId } = await params;
+  const isAdmin = isAdminRequest(request);
+  const fid = audioRoomService.authenticate(request, roomId);
+  if (!isAdmin && fid === null) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await audioRoomService.getModerationLog(roomId, fid, isAdmin);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching audio room moderation log:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch moderation log',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Moderate the room (hosts and moderators only)
+ * Headers: Authorization: Bearer <participant token>
+ * Body: { action: mute|unmute|kick|promote|demote|lock|unlock|end, targetFid?, reason? }
+ * Promote, demote and end are host-only. Returns the log entry and the room
+ * as it is now (null once ended).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  const { roomId } = await params;
+  const actorFid = audioRoomService.authenticate(request, roomId);
+  if (actorFid === null) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+
+    const errors = validateModerationRequest(body);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid moderation request', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await audioRoomService.moderate(roomId, actorFid, body);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error moderating audio room:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to moderate audio room',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
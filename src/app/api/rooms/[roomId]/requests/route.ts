@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { audioRoomService } from '@/lib/rooms/AudioRoomService';
+
+/**
+ * POST - Approve or decline a join request (hosts and moderators only)
+ * Headers: Authorization: Bearer <participant token>
+ * Body: { fid, approve }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  const { roomId } = await params;
+  const actorFid = audioRoomService.authenticate(request, roomId);
+  if (actorFid === null) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { fid, approve } = (await request.json()) || {};
+
+    if (!Number.isInteger(fid) || typeof approve !== 'boolean') {
+      return NextResponse.json(
+        { error: 'fid and approve are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await audioRoomService.respondToJoinRequest(roomId, actorFid, fid, approve);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error answering join request:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to answer join request',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
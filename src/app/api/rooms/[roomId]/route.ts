@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { audioRoomService } from '@/lib/rooms/AudioRoomService';
+
+/**
+ * GET - An audio room and its joined participants
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+    const room = await audioRoomService.getRoom(roomId);
+
+    if (!room) {
+      return NextResponse.json(
+        { error: 'Room not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ room });
+  } catch (error) {
+    console.error('Error fetching audio room:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch audio room',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH - Update what the room is doing (host only)
+ * Headers: Authorization: Bearer <participant token>
+ * Body: { isLive?, currentTrack? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  const { roomId } = await params;
+  const fid = audioRoomService.authenticate(request, roomId);
+  if (fid === null) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { isLive, currentTrack } = (await request.json()) || {};
+
+    if (isLive !== undefined && typeof isLive !== 'boolean') {
+      return NextResponse.json(
+        { error: 'isLive must be a boolean' },
+        { status: 400 }
+      );
+    }
+    if (currentTrack !== undefined && currentTrack !== null &&
+        (typeof currentTrack !== 'object' || typeof currentTrack.title !== 'string')) {
+      return NextResponse.json(
+        { error: 'currentTrack must be a track or null' },
+        { status: 400 }
+      );
+    }
+
+    const result = await audioRoomService.updateRoom(roomId, fid, { isLive, currentTrack });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error updating audio room:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to update audio room',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { audioRoomService } from '@/lib/rooms/AudioRoomService';
+import { PeerSignal, validatePeerSignal } from '@/lib/rooms/AudioRoomRules';
+
+/**
+ * POST - Relay a WebRTC offer, answer or ICE candidate to another participant
+ * Headers: Authorization: Bearer <participant token>
+ * Body: { to, type: 'offer' | 'answer' | 'ice-candidate', payload }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  const { roomId } = await params;
+  const fid = audioRoomService.authenticate(request, roomId);
+  if (fid === null) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const signal = await request.json();
+
+    const errors = validatePeerSignal(signal);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid signal', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await audioRoomService.relay(roomId, fid, signal as PeerSignal);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error relaying signal:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to relay signal',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { audioRoomService } from '@/lib/rooms/AudioRoomService';
+import { validateParticipantProfile, validateRoomInput } from '@/lib/rooms/AudioRoomRules';
+import { getSession } from '@/lib/auth/SessionAuth';
+
+/**
+ * GET - Open audio rooms, newest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '50', 10) || 50, 100);
+    const rooms = await audioRoomService.listRooms(limit);
+
+    return NextResponse.json({ rooms, count: rooms.length });
+  } catch (error) {
+    console.error('Error listing audio rooms:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to list audio rooms',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Create an audio room and join it as host (signed-in users with a linked Farcaster account only)
+ * Body: { name, description?, maxParticipants?, settings?, host: { fid?, username?, displayName?, pfpUrl? } }
+ * The host is the session's FID; a different `host.fid` is refused.
+ * Returns the host's participant token and the stream cursor.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Sign in to host an audio room' },
+        { status: 401 }
+      );
+    }
+    if (!session.fid) {
+      return NextResponse.json(
+        { error: 'Link a Farcaster account to host an audio room' },
+        { status: 403 }
+      );
+    }
+
+    const { host: profile, ...input } = (await request.json()) || {};
+    if (profile?.fid !== undefined && profile.fid !== session.fid) {
+      return NextResponse.json(
+        { error: 'You can only host as your own Farcaster account' },
+        { status: 403 }
+      );
+    }
+    const host = { ...profile, fid: session.fid };
+
+    const errors = [...validateRoomInput(input), ...validateParticipantProfile(host)];
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid room', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await audioRoomService.createRoom(input, host);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Error creating audio room:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create audio room',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,32 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { sunoJobRunner } from '@/lib/suno/SunoJobRunner';
 
+// Advancing a job can pin every stem to IPFS before responding
+export const maxDuration = 300;
+
+/**
+ * POST - Suno generation callback
+ * The URL carries the job id and its callback token (see SunoJobRunner).
+ * The payload is stored and the job advanced; repeats are acknowledged.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    
-    console.log('Suno callback received:', {
-      code: body.code,
-      msg: body.msg,
-      callbackType: body.data?.callbackType,
-      taskId: body.data?.task_id
+    const searchParams = request.nextUrl.searchParams;
+
+    console.log('Suno generation callback received:', {
+      code: body?.code,
+      msg: body?.msg,
+      taskId: body?.data?.task_id,
+      jobId: searchParams.get('jobId')
+    });
+
+    const result = await sunoJobRunner.handleCallback({
+      endpoint: 'callback',
+      jobId: searchParams.get('jobId'),
+      token: searchParams.get('token'),
+      body,
+      origin: request.nextUrl.origin
     });
 
-    // In a real implementation, you would:
-    // 1. Store the callback data in your database
-    // 2. Update the task status
-    // 3. Notify any waiting clients via WebSocket or polling
-    
-    // For now, just log and acknowledge
-    return NextResponse.json({ 
-      success: true, 
-      message: 'Callback received' 
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Callback received',
+      status: result.job.status,
+      advanced: result.advanced
     });
-    
+
   } catch (error) {
-    console.error('Suno callback error:', error);
+    console.error('Suno generation callback error:', error);
     return NextResponse.json(
-      { error: 'Failed to process callback' },
+      {
+        error: 'Failed to process callback',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService, SunoGenerationJobRow } from '@/lib/database/DatabaseService';
+import { toSunoJobView } from '@/lib/suno/SunoJobRunner';
+import { isTerminalSunoJobStatus, SunoJobStatus } from '@/lib/suno/SunoJobStateMachine';
+
+export const maxDuration = 300;
+
+const POLL_INTERVAL_MS = 3000;
+// Close a little before maxDuration; EventSource reconnects on its own
+const STREAM_LIFETIME_MS = 280 * 1000;
+
+/**
+ * GET - Server-sent events for a generation job
+ * Emits a `status` event whenever the job changes and closes once it is
+ * published or failed.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  let job: SunoGenerationJobRow | null;
+  try {
+    job = await databaseService.getSunoGenerationJob(jobId);
+  } catch (error) {
+    console.error('Error opening Suno job stream:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch generation job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Generation job not found' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const initial = job;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const startedAt = Date.now();
+      let lastUpdate = '';
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+      request.signal.addEventListener('abort', close);
+
+      const send = (current: SunoGenerationJobRow) => {
+        lastUpdate = current.updated_at;
+        controller.enqueue(encoder.encode(`event: status\ndata: ${JSON.stringify(toSunoJobView(current))}\n\n`));
+      };
+
+      send(initial);
+
+      let current = initial;
+      while (!closed && !isTerminalSunoJobStatus(current.status as SunoJobStatus) && Date.now() - startedAt < STREAM_LIFETIME_MS) {
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        if (closed) break;
+
+        try {
+          current = (await databaseService.getSunoGenerationJob(jobId)) || current;
+          if (current.updated_at !== lastUpdate) {
+            send(current);
+          } else {
+            controller.enqueue(encoder.encode(': keep-alive\n\n'));
+          }
+        } catch (error) {
+          // Transient read errors keep the stream open; the next poll retries
+          console.warn(`⚠️ Failed to poll Suno job ${jobId}:`, error);
+        }
+      }
+
+      close();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sunoJobRunner, toSunoJobView } from '@/lib/suno/SunoJobRunner';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+// Pinning downloads and re-uploads every stem
+export const maxDuration = 300;
+
+/**
+ * POST - Resume a failed generation job at the stage that failed (admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const { jobId } = await params;
+    const result = await sunoJobRunner.retry(jobId, request.nextUrl.origin);
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    const { job } = result;
+    return NextResponse.json({
+      success: job.status !== 'failed',
+      job: toSunoJobView(job)
+    });
+  } catch (error) {
+    console.error('Error retrying Suno job:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to retry generation job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
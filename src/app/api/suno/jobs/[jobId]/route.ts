@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database/DatabaseService';
+import { toSunoJobView } from '@/lib/suno/SunoJobRunner';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+/**
+ * GET - Status of a generation job
+ * Admins can add ?include=callbacks for the stored Suno callback payloads.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const job = await databaseService.getSunoGenerationJob(jobId);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Generation job not found' },
+        { status: 404 }
+      );
+    }
+
+    const includeCallbacks = request.nextUrl.searchParams.get('include') === 'callbacks' && isAdminRequest(request);
+
+    return NextResponse.json({
+      job: toSunoJobView(job),
+      ...(includeCallbacks && { callbacks: await databaseService.getSunoGenerationCallbacks(job.id) })
+    });
+  } catch (error) {
+    console.error('Error fetching Suno job:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch generation job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { databaseService } from '@/lib/database/DatabaseService';
+import { sunoJobRunner, toSunoJobView } from '@/lib/suno/SunoJobRunner';
+import { SUNO_MODELS, SunoModel } from '@/lib/suno/SunoClient';
+import { isSunoJobStatus } from '@/lib/suno/SunoJobStateMachine';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+/**
+ * GET - Recent generation jobs (admin only), optionally ?status=failed
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !isSunoJobStatus(status)) {
+      return NextResponse.json(
+        { error: `Unknown status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await databaseService.getSunoGenerationJobs(status ? [status] : undefined);
+
+    return NextResponse.json({
+      jobs: jobs.map(toSunoJobView)
+    });
+  } catch (error) {
+    console.error('Error fetching Suno jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch generation jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST - Start a generation (admin only)
+ * Body: { prompt, title?, difficulty?, model?, actor? }
+ * Returns the job straight away; follow it at /api/suno/jobs/{id}/events.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { prompt, title, difficulty = 'medium', model = 'V4_5', actor = 'admin' } = body || {};
+
+    if (typeof prompt !== 'string' || !prompt.trim()) {
+      return NextResponse.json(
+        { error: 'Prompt is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!DIFFICULTIES.includes(difficulty)) {
+      return NextResponse.json(
+        { error: `Difficulty must be one of: ${DIFFICULTIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!SUNO_MODELS.includes(model)) {
+      return NextResponse.json(
+        { error: `Model must be one of: ${SUNO_MODELS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const job = await sunoJobRunner.create({
+      prompt: prompt.trim(),
+      title: typeof title === 'string' ? title.trim() : undefined,
+      difficulty,
+      model: model as SunoModel,
+      requestedBy: typeof actor === 'string' ? actor : 'admin',
+      origin: request.nextUrl.origin
+    });
+
+    return NextResponse.json(
+      { success: job.status !== 'failed', job: toSunoJobView(job) },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error creating Suno job:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to start generation',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
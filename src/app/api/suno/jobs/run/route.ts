@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sunoJobRunner } from '@/lib/suno/SunoJobRunner';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+// Pinning downloads and re-uploads every stem
+export const maxDuration = 300;
+
+/**
+ * Reconcile generation jobs whose Suno callback never arrived
+ * Called by the scheduler: GET or POST /api/suno/jobs/run with `Authorization: Bearer $ADMIN_API_SECRET`
+ */
+async function runSunoJobs(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const summary = await sunoJobRunner.reconcile(request.nextUrl.origin);
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Suno job run error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run Suno jobs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = runSunoJobs;
+export const POST = runSunoJobs;
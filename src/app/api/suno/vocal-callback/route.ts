@@ -1,31 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { sunoJobRunner } from '@/lib/suno/SunoJobRunner';
 
+// Advancing a job can pin every stem to IPFS before responding
+export const maxDuration = 300;
+
+/**
+ * POST - Suno vocal separation callback
+ * The URL carries the job id and its callback token (see SunoJobRunner).
+ * The payload is stored and the job advanced; repeats are acknowledged.
+ */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    
+    const searchParams = request.nextUrl.searchParams;
+
     console.log('Suno vocal separation callback received:', {
-      code: body.code,
-      msg: body.msg,
-      taskId: body.data?.task_id,
-      hasVocalInfo: !!body.data?.vocal_removal_info
+      code: body?.code,
+      msg: body?.msg,
+      taskId: body?.data?.task_id,
+      jobId: searchParams.get('jobId')
+    });
+
+    const result = await sunoJobRunner.handleCallback({
+      endpoint: 'vocal-callback',
+      jobId: searchParams.get('jobId'),
+      token: searchParams.get('token'),
+      body,
+      origin: request.nextUrl.origin
     });
 
-    // In a real implementation, you would:
-    // 1. Store the vocal separation results in your database
-    // 2. Update the challenge status
-    // 3. Make the separated tracks available to users
-    
-    return NextResponse.json({ 
-      success: true, 
-      message: 'Vocal separation callback received' 
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Callback received',
+      status: result.job.status,
+      advanced: result.advanced
     });
-    
+
   } catch (error) {
-    console.error('Suno vocal callback error:', error);
+    console.error('Suno vocal separation callback error:', error);
     return NextResponse.json(
-      { error: 'Failed to process vocal callback' },
+      {
+        error: 'Failed to process callback',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,14 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { audioFingerprintIndex, FingerprintRegistration } from '@/lib/audio/AudioFingerprintIndex';
+import type { UploadMetadata } from '@/lib/audio/UploadService';
+import { getSession } from '@/lib/auth/SessionAuth';
 
 /**
  * Enhanced Audio Upload API with Real Pinata IPFS Integration
  * 
- * Handles audio file uploads with proper error handling and fallbacks
+ * Handles audio file uploads with proper error handling and fallbacks.
+ * The uploader is the session's account; a userAddress in metadata is ignored.
  */
 export async function POST(request: NextRequest) {
   try {
+    const session = await getSession(request);
+    const uploader = session?.userId ?? null;
     const body = await request.json();
-    const { filename, data, metadata } = body;
+    const { filename, data } = body;
+    const metadata: UploadMetadata | undefined = body.metadata;
 
     if (!filename || !data) {
       return NextResponse.json(
@@ -44,7 +51,7 @@ export async function POST(request: NextRequest) {
             sourceType: metadata?.sourceType || 'vocal-recording',
             challengeId: metadata?.challengeId || 'unknown',
             timestamp: metadata?.timestamp || Date.now(),
-            userAddress: metadata?.userAddress || 'anonymous',
+            userAddress: uploader || 'anonymous',
             selfRating: metadata?.selfRating || 0,
             duration: metadata?.duration || 0
           }
@@ -79,6 +86,8 @@ export async function POST(request: NextRequest) {
             size: result.PinSize,
             timestamp: result.Timestamp
           });
+
+          const fingerprint = await registerFingerprint(result.IpfsHash, buffer, metadata, uploader);
           
           return NextResponse.json({
             success: true,
@@ -90,7 +99,8 @@ export async function POST(request: NextRequest) {
             filename,
             size: result.PinSize || buffer.length,
             timestamp: result.Timestamp,
-            metadata
+            metadata,
+            fingerprint
           });
         } else {
           const errorText = await response.text();
@@ -112,6 +122,8 @@ export async function POST(request: NextRequest) {
     // Local storage fallback (for development/testing)
     console.log('Using local storage fallback...');
     const localId = `local_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+    const localBuffer = Buffer.from(data, 'base64');
+    const fingerprint = await registerFingerprint(localId, localBuffer, metadata, uploader);
     
     return NextResponse.json({
       success: true,
@@ -119,8 +131,9 @@ export async function POST(request: NextRequest) {
       url: `local://${localId}`,
       storageType: 'local',
       filename,
-      size: Buffer.from(data, 'base64').length,
+      size: localBuffer.length,
       metadata,
+      fingerprint,
       warning: 'Using local storage - file will not persist across sessions'
     });
 
@@ -136,6 +149,30 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Fingerprint the upload and link it to earlier uploads of the same recording.
+ * Best effort - a failed registration never fails the upload.
+ */
+async function registerFingerprint(
+  cid: string,
+  buffer: Buffer,
+  metadata: UploadMetadata | undefined,
+  uploader: string | null
+): Promise<Pick<FingerprintRegistration, 'contentHash' | 'fingerprinted' | 'duplicateOf'> | null> {
+  try {
+    const { contentHash, fingerprinted, duplicateOf } = await audioFingerprintIndex.register({
+      cid,
+      data: buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer,
+      challengeId: metadata?.challengeId,
+      uploader: uploader ?? undefined
+    });
+    return { contentHash, fingerprinted, duplicateOf };
+  } catch (error) {
+    console.warn(`⚠️ Failed to fingerprint upload ${cid}:`, error);
+    return null;
+  }
+}
+
 /**
  * GET endpoint for upload status/health check
  */
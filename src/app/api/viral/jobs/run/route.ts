@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { viralJobRunner } from '@/lib/viral/ViralJobRunner';
+import { eventCounterService } from '@/lib/analytics/EventCounters';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+// Minting waits for on-chain confirmation
+export const maxDuration = 300;
+
+/**
+ * Run one pass of the viral job runner (detect → approve → mint) and prune
+ * expired engagement counter buckets
+ * Called by the scheduler: GET or POST /api/viral/jobs/run with `Authorization: Bearer $ADMIN_API_SECRET`
+ */
+async function runViralJobs(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const summary = await viralJobRunner.run();
+
+    let prunedBuckets = 0;
+    try {
+      prunedBuckets = await eventCounterService.prune();
+    } catch (pruneError) {
+      console.warn('⚠️ Failed to prune event counter buckets:', pruneError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      prunedBuckets,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Viral job run error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run viral jobs',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = runViralJobs;
+export const POST = runViralJobs;
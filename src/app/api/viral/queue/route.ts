@@ -1,23 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { databaseService, ViralQueueItem } from '@/lib/database/DatabaseService';
+import { viralJobRunner } from '@/lib/viral/ViralJobRunner';
+import { isViralJobStatus } from '@/lib/viral/ViralJobStateMachine';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
 
 /**
  * GET - Get viral queue status
- * Returns current viral queue information
+ * Returns job counts per status and the most recent jobs (optionally ?status=approved)
  */
 export async function GET(request: NextRequest) {
   try {
-    // Mock viral queue data for now
-    // In production, this would connect to your viral content processing system
-    const mockQueue = {
-      totalItems: 0,
-      processing: 0,
-      completed: 0,
-      failed: 0,
-      queue: [],
-      lastUpdated: new Date().toISOString()
-    };
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !isViralJobStatus(status)) {
+      return NextResponse.json(
+        { error: `Unknown status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const [counts, jobs] = await Promise.all([
+      databaseService.getViralQueueCounts(),
+      databaseService.getViralJobs(status ? [status] : undefined, 50)
+    ]);
 
-    return NextResponse.json(mockQueue);
+    return NextResponse.json({
+      totalItems: Object.values(counts).reduce((sum, count) => sum + count, 0),
+      detected: counts.detected || 0,
+      approved: counts.approved || 0,
+      processing: counts.minting || 0,
+      completed: counts.minted || 0,
+      failed: counts.failed || 0,
+      queue: jobs.map(toQueueItem),
+      lastUpdated: new Date().toISOString()
+    });
   } catch (error) {
     console.error('Viral queue API error:', error);
     return NextResponse.json(
@@ -28,42 +43,110 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST - Add item to viral queue
+ * POST - Ask for a performance to be checked for viral eligibility
+ * Eligibility is recomputed server-side; repeated requests return the same job.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { performanceId, challengeId, userId } = body;
+    const { performanceId } = body;
 
-    if (!performanceId || !challengeId || !userId) {
+    if (!performanceId) {
       return NextResponse.json(
         { error: 'Missing required parameters' },
         { status: 400 }
       );
     }
 
-    // Mock response - in production, this would add to actual queue
-    const queueItem = {
-      id: `queue_${Date.now()}`,
-      performanceId,
-      challengeId,
-      userId,
-      status: 'queued',
-      createdAt: new Date().toISOString(),
-      estimatedProcessingTime: '2-5 minutes'
-    };
+    const detection = await viralJobRunner.detectPerformance(performanceId);
+    if (!detection) {
+      return NextResponse.json(
+        { error: 'Performance is not eligible for a viral coin', performanceId },
+        { status: 422 }
+      );
+    }
 
     return NextResponse.json({
       success: true,
-      queueItem,
-      position: 1,
-      estimatedWait: '2-5 minutes'
+      created: detection.created,
+      queueItem: toQueueItem(detection.job)
     });
   } catch (error) {
     console.error('Viral queue POST error:', error);
     return NextResponse.json(
-      { error: 'Failed to add to viral queue' },
+      {
+        error: 'Failed to add to viral queue',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * PATCH - Approve, reject or retry a job (admin only)
+ * Body: { jobId, action: 'approve' | 'reject', reason?, actor? }
+ * Approving a failed job retries it.
+ */
+export async function PATCH(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { jobId, action, reason, actor = 'admin' } = body;
+
+    if (!jobId || (action !== 'approve' && action !== 'reject')) {
+      return NextResponse.json(
+        { error: 'jobId and action (approve | reject) are required' },
+        { status: 400 }
+      );
+    }
+
+    const job = action === 'approve'
+      ? await viralJobRunner.approve(jobId, actor)
+      : await viralJobRunner.reject(jobId, actor, reason);
+
+    return NextResponse.json({
+      success: true,
+      queueItem: toQueueItem(job)
+    });
+  } catch (error) {
+    console.error('Viral queue PATCH error:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      {
+        error: 'Failed to update viral job',
+        details: message
+      },
+      { status: message.includes('not found') ? 404 : 409 }
+    );
+  }
+}
+
+/**
+ * Public view of a job - signed transaction bytes stay server-side
+ */
+function toQueueItem(job: ViralQueueItem) {
+  return {
+    id: job.id,
+    performanceId: job.performance_id,
+    status: job.status,
+    eligibilityType: job.eligibility_type,
+    reason: job.reason,
+    detectionScore: job.detection_score,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    nextAttemptAt: job.next_attempt_at,
+    approvedBy: job.approved_by,
+    txHash: job.tx_hash,
+    coinAddress: job.coin_address,
+    message: job.result_message,
+    detectedAt: job.detected_at,
+    mintedAt: job.minted_at
+  };
+}
@@ -1,39 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { databaseService, ViralThreshold } from '@/lib/database/DatabaseService';
-
-// Default viral thresholds mapping to database thresholds
-const DEFAULT_THRESHOLDS = {
-  SHARE_COUNT: 100,        // 100+ shares = viral moment
-  PERFECT_SCORE: 4.8,      // 4.8+ rating = perfect performance
-  REALITY_GAP: 2.5,        // 2.5+ gap = comedy gold
-  ENGAGEMENT_RATE: 0.3,    // 30% engagement rate
-  VELOCITY: 50,            // 50 shares in 1 hour = trending
-};
-
-// Map legacy threshold names to database threshold names
-const THRESHOLD_MAP = {
-  SHARE_COUNT: 'shares_threshold',
-  PERFECT_SCORE: 'rating_threshold', 
-  REALITY_GAP: 'gap_threshold',
-  ENGAGEMENT_RATE: 'engagement_rate',
-  VELOCITY: 'growth_rate'
-};
+import { viralRuleService, ViralRuleAllocation } from '@/lib/viral/ViralRuleService';
+import {
+  DEFAULT_VIRAL_RULES,
+  DEFAULT_VIRAL_THRESHOLDS,
+  ViralThresholds,
+  thresholdsFromRules,
+  validateViralRules
+} from '@/lib/viral/ViralRules';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
 
 /**
- * API route to get viral thresholds
- * GET /api/viral/thresholds
+ * API route to get viral thresholds and rule sets
+ * GET /api/viral/thresholds[?include=history,audit][&performanceId=...]
+ *
+ * `thresholds` is the flat view of the primary (most-traffic) rule set.
+ * `performanceId` returns the A/B variant that performance is evaluated with.
  */
 export async function GET(request: NextRequest) {
   try {
-    // Get thresholds from database
-    const dbThresholds = await databaseService.getViralThresholds();
-    
-    // Convert from database format to API response format
-    const thresholds = convertToLegacyFormat(dbThresholds);
-    
+    const searchParams = request.nextUrl.searchParams;
+    const include = (searchParams.get('include') || '').split(',');
+    const performanceId = searchParams.get('performanceId');
+
+    const [active, primary] = await Promise.all([
+      viralRuleService.getActiveRuleSets(),
+      viralRuleService.getPrimaryRuleSet()
+    ]);
+
     return NextResponse.json({
-      thresholds,
-      defaults: DEFAULT_THRESHOLDS
+      thresholds: thresholdsFromRules(primary.rules),
+      defaults: DEFAULT_VIRAL_THRESHOLDS,
+      rules: primary.rules,
+      version: primary.version,
+      active,
+      ...(performanceId && { assigned: await viralRuleService.resolveRuleSet(performanceId) }),
+      ...(include.includes('history') && { history: await viralRuleService.listRuleSets() }),
+      ...(include.includes('audit') && isAdminRequest(request) && { audit: await viralRuleService.getAuditLog() })
     });
   } catch (error) {
     console.error('Error fetching viral thresholds:', error);
@@ -45,94 +47,186 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * API route to update viral thresholds
+ * API route to publish a new rule set version (admin only)
  * POST /api/viral/thresholds
+ *
+ * Body is either { rules, name?, notes?, activate?, actor? } for a full rule set,
+ * or legacy flat thresholds ({ SHARE_COUNT: 120, ... }), which are applied to the
+ * primary rule set and activated for all traffic.
  */
 export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
   try {
     const body = await request.json();
-    
+
     if (!body || typeof body !== 'object') {
       return NextResponse.json(
         { error: 'Invalid threshold data' },
         { status: 400 }
       );
     }
-    
-    // Validate the input values
-    const validKeys = Object.keys(DEFAULT_THRESHOLDS);
-    const updates: Record<string, number> = {};
-    
+
+    const actor = typeof body.actor === 'string' && body.actor ? body.actor : 'admin';
+
+    if (body.rules !== undefined) {
+      const errors = validateViralRules(body.rules);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid viral rules', details: errors },
+          { status: 400 }
+        );
+      }
+
+      const ruleSet = await viralRuleService.publish({
+        rules: body.rules,
+        name: body.name,
+        notes: body.notes,
+        actor
+      });
+
+      if (body.activate) {
+        await viralRuleService.allocate([{ version: ruleSet.version, trafficPercent: 100 }], actor, body.notes);
+      }
+
+      return NextResponse.json({
+        success: true,
+        ruleSet: body.activate ? { ...ruleSet, status: 'active', trafficPercent: 100 } : ruleSet,
+        thresholds: thresholdsFromRules(ruleSet.rules)
+      });
+    }
+
+    // Legacy flat thresholds
+    const validKeys = Object.keys(DEFAULT_VIRAL_THRESHOLDS);
+    const updates: Partial<ViralThresholds> = {};
+
     for (const key of Object.keys(body)) {
       if (validKeys.includes(key)) {
         const value = parseFloat(body[key]);
         if (!isNaN(value) && value >= 0) {
-          updates[key] = value;
+          updates[key as keyof ViralThresholds] = value;
         }
       }
     }
-    
-    // Update thresholds in database
-    const updatePromises = Object.entries(updates).map(([legacyKey, value]) => {
-      const dbKey = THRESHOLD_MAP[legacyKey as keyof typeof THRESHOLD_MAP];
-      if (dbKey) {
-        return databaseService.updateViralThreshold({
-          threshold_name: dbKey,
-          threshold_value: value,
-          description: `Updated via API (was ${legacyKey})`
-        });
-      }
-    }).filter(Boolean);
-    
-    await Promise.all(updatePromises);
-    
-    // Get updated thresholds
-    const dbThresholds = await databaseService.getViralThresholds();
-    const thresholds = convertToLegacyFormat(dbThresholds);
-    
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { error: `No valid thresholds given (expected any of ${validKeys.join(', ')})` },
+        { status: 400 }
+      );
+    }
+
+    const ruleSet = await viralRuleService.publishThresholds(updates, actor, body.notes);
+    const thresholds = thresholdsFromRules(ruleSet.rules);
+
     console.log('🔧 Viral thresholds updated:', thresholds);
-    
+
     return NextResponse.json({
       success: true,
+      ruleSet,
       thresholds
     });
   } catch (error) {
     console.error('Error updating viral thresholds:', error);
     return NextResponse.json(
-      { error: 'Failed to update viral thresholds' },
+      {
+        error: 'Failed to update viral thresholds',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * API route to split traffic between rule set versions (admin only)
+ * PATCH /api/viral/thresholds
+ * Body: { allocations: [{ version, trafficPercent }], reason?, actor? }
+ *
+ * Percentages must add up to 100; active versions left out are retired.
+ */
+export async function PATCH(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { allocations, reason, actor = 'admin' } = body || {};
+
+    const valid = Array.isArray(allocations) && allocations.length > 0 && allocations.every(
+      (allocation: ViralRuleAllocation) =>
+        Number.isInteger(allocation?.version) &&
+        Number.isInteger(allocation?.trafficPercent) &&
+        allocation.trafficPercent > 0 &&
+        allocation.trafficPercent <= 100
+    );
+    const total = valid
+      ? (allocations as ViralRuleAllocation[]).reduce((sum, allocation) => sum + allocation.trafficPercent, 0)
+      : 0;
+
+    if (!valid || total !== 100) {
+      return NextResponse.json(
+        { error: 'allocations must be [{ version, trafficPercent }] with whole percentages adding up to 100' },
+        { status: 400 }
+      );
+    }
+
+    const active = await viralRuleService.allocate(allocations, actor, reason);
+
+    return NextResponse.json({
+      success: true,
+      active
+    });
+  } catch (error) {
+    console.error('Error allocating viral rule sets:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to allocate viral rule sets',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
       { status: 500 }
     );
   }
 }
 
 /**
- * API route to reset viral thresholds to defaults
+ * API route to reset viral thresholds to defaults (admin only)
  * DELETE /api/viral/thresholds
+ *
+ * Publishes the built-in rules as a new version and sends all traffic to it.
  */
 export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
   try {
-    // Reset to defaults in database
-    const updatePromises = Object.entries(DEFAULT_THRESHOLDS).map(([legacyKey, value]) => {
-      const dbKey = THRESHOLD_MAP[legacyKey as keyof typeof THRESHOLD_MAP];
-      if (dbKey) {
-        return databaseService.updateViralThreshold({
-          threshold_name: dbKey,
-          threshold_value: value,
-          description: `Reset to default value (${legacyKey})`
-        });
-      }
-    }).filter(Boolean);
-    
-    await Promise.all(updatePromises);
-    
-    // Get updated thresholds
-    const dbThresholds = await databaseService.getViralThresholds();
-    const thresholds = convertToLegacyFormat(dbThresholds);
-    
+    const actor = request.nextUrl.searchParams.get('actor') || 'admin';
+
+    const ruleSet = await viralRuleService.publish({
+      rules: DEFAULT_VIRAL_RULES,
+      name: 'Built-in defaults',
+      notes: 'Reset to defaults',
+      actor
+    });
+    await viralRuleService.allocate([{ version: ruleSet.version, trafficPercent: 100 }], actor, 'Reset to defaults');
+
     return NextResponse.json({
       success: true,
       message: 'Thresholds reset to defaults',
-      thresholds
+      thresholds: DEFAULT_VIRAL_THRESHOLDS
     });
   } catch (error) {
     console.error('Error resetting viral thresholds:', error);
@@ -142,26 +236,3 @@ export async function DELETE(request: NextRequest) {
     );
   }
 }
-
-/**
- * Convert database thresholds to legacy format
- */
-function convertToLegacyFormat(dbThresholds: ViralThreshold[]): Record<string, number> {
-  const result: Record<string, number> = { ...DEFAULT_THRESHOLDS };
-  
-  // Create a reverse map from db keys to legacy keys
-  const reverseMap: Record<string, string> = {};
-  Object.entries(THRESHOLD_MAP).forEach(([legacyKey, dbKey]) => {
-    reverseMap[dbKey] = legacyKey;
-  });
-  
-  // Convert database thresholds to legacy format
-  dbThresholds.forEach(threshold => {
-    const legacyKey = reverseMap[threshold.threshold_name];
-    if (legacyKey) {
-      result[legacyKey] = threshold.threshold_value;
-    }
-  });
-  
-  return result;
-}
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { viralSimulator } from '@/lib/viral/ViralSimulator';
+import { viralRuleService } from '@/lib/viral/ViralRuleService';
+import {
+  DEFAULT_VIRAL_THRESHOLDS,
+  VIRAL_CHALLENGE_TYPES,
+  ViralChallengeType,
+  ViralRule,
+  ViralThresholds,
+  applyThresholds,
+  validateViralRules
+} from '@/lib/viral/ViralRules';
+import { isAdminRequest } from '@/lib/utils/adminAuth';
+
+const MAX_DAYS = 30;
+
+export const maxDuration = 60;
+
+/**
+ * API route to dry-run candidate viral thresholds against history (admin only)
+ * POST /api/viral/thresholds/simulate
+ *
+ * Body: one of { rules } | { thresholds } (flat, applied to the live rules) | { version },
+ * plus optional { days = 7 } or { from, to }, { challengeTypes: { [challengeId]: type } }
+ * and { stepMinutes = 60 }. `challengeTypes` override the catalog types. Nothing is queued or minted.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { error: 'Invalid simulation request' },
+        { status: 400 }
+      );
+    }
+
+    // Candidate rules
+    let rules: ViralRule[];
+    if (body.rules !== undefined) {
+      const errors = validateViralRules(body.rules);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid viral rules', details: errors },
+          { status: 400 }
+        );
+      }
+      rules = body.rules;
+    } else if (body.version !== undefined) {
+      const ruleSet = await viralRuleService.getRuleSet(Number(body.version));
+      if (!ruleSet) {
+        return NextResponse.json(
+          { error: `Rule set version ${body.version} not found` },
+          { status: 404 }
+        );
+      }
+      rules = ruleSet.rules;
+    } else if (body.thresholds && typeof body.thresholds === 'object') {
+      const updates: Partial<ViralThresholds> = {};
+      for (const key of Object.keys(DEFAULT_VIRAL_THRESHOLDS) as (keyof ViralThresholds)[]) {
+        const value = parseFloat(body.thresholds[key]);
+        if (!isNaN(value) && value >= 0) {
+          updates[key] = value;
+        }
+      }
+      rules = applyThresholds((await viralRuleService.getPrimaryRuleSet()).rules, updates);
+    } else {
+      return NextResponse.json(
+        { error: 'Provide candidate rules, thresholds or a rule set version' },
+        { status: 400 }
+      );
+    }
+
+    // Replay window
+    const to = body.to ? new Date(body.to) : new Date();
+    const days = Math.min(MAX_DAYS, Math.max(1, Number(body.days) || 7));
+    const from = body.from ? new Date(body.from) : new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json(
+        { error: 'from must be a date before to' },
+        { status: 400 }
+      );
+    }
+    if (to.getTime() - from.getTime() > MAX_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `Simulation window cannot exceed ${MAX_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const challengeTypes: Record<string, ViralChallengeType> = {};
+    for (const [challengeId, challengeType] of Object.entries(body.challengeTypes || {})) {
+      if (VIRAL_CHALLENGE_TYPES.includes(challengeType as ViralChallengeType)) {
+        challengeTypes[challengeId] = challengeType as ViralChallengeType;
+      }
+    }
+
+    const stepMinutes = Math.min(24 * 60, Math.max(15, Number(body.stepMinutes) || 60));
+
+    const simulation = await viralSimulator.simulate({ rules, from, to, challengeTypes, stepMinutes });
+
+    console.log(`🧪 Viral simulation: ${simulation.candidate.total} coins (live rules: ${simulation.baseline.total}) over ${simulation.scanned} performances`);
+
+    return NextResponse.json({
+      success: true,
+      dryRun: true,
+      rules,
+      simulation
+    });
+  } catch (error) {
+    console.error('Error simulating viral thresholds:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to simulate viral thresholds',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -20,7 +20,8 @@ import UnifiedAudioVisualizer from "./audio/UnifiedAudioVisualizer";
 import RecordingControls from "./RecordingControls";
 
 // Services
-import { LiveAudioAnalysisService, PitchData } from "@/lib/audio/LiveAudioAnalysisService";
+import { LiveAudioAnalysisService } from "@/lib/audio/LiveAudioAnalysisService";
+import { PitchData } from "@/types";
 import { AdaptiveBackingTrackService, PerformanceMetrics } from "@/lib/audio/AdaptiveBackingTrackService";
 import { useFeatureFlags } from "@/lib/features/FeatureFlags";
 
@@ -10,7 +10,7 @@ import { getAddress } from "viem";
 
 interface SIWEUser {
   address: string;
-  fid?: string;
+  chainId?: number;
   username?: string;
 }
 
@@ -57,6 +57,13 @@ export default function SIWEButton({
       // Use viem's getAddress to ensure EIP-55 checksum compliance.
       const checksummedAddress = getAddress(address);
 
+      // The server only accepts messages carrying a nonce it issued
+      const nonceResponse = await fetch("/api/auth/nonce", { cache: "no-store" });
+      const nonceData = await nonceResponse.json();
+      if (!nonceResponse.ok) {
+        throw new Error(nonceData.error || "Failed to start sign-in");
+      }
+
       // Create SIWE message
       const message = new SiweMessage({
         domain,
@@ -65,10 +72,9 @@ export default function SIWEButton({
         uri: origin,
         version: "1",
         chainId: 1, // Ethereum mainnet
-        nonce: Math.random().toString(36).substring(2, 15),
+        nonce: nonceData.nonce,
         issuedAt: new Date().toISOString(),
-        // You could add custom fields for FID if you have it
-        // e.g., resources: [`FID:${fid}`]
+        expirationTime: nonceData.expiresAt,
       });
 
       // Generate the message string
@@ -89,7 +95,6 @@ export default function SIWEButton({
         body: JSON.stringify({
           message: messageString,
           signature,
-          domain,
         }),
       });
 
@@ -10,6 +10,7 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Challenge, ChallengeFlowProps, ChallengeResult } from '@/types/challenge.types';
 import { useUnifiedChallenge, useChallengeFlow } from '@/hooks/useUnifiedChallenge';
+import { audioRecordingService } from '@/services/AudioRecordingService';
 
 // Import flow step components
 import {
@@ -109,6 +110,15 @@ export default function ChallengeFlow({
       castHash: shareToSocial ? `mock-cast-${Date.now()}` : undefined
     };
 
+    // Pitch contour is optional - never block submission on analysis
+    if (recordingData.audioBlob) {
+      try {
+        result.pitchTrack = await audioRecordingService.extractPitchTrack(recordingData.audioBlob);
+      } catch (error) {
+        console.warn('Pitch track extraction failed:', error);
+      }
+    }
+
     try {
       await onComplete(result);
     } catch (error) {
@@ -24,6 +24,44 @@ import {
   coldStartContentService,
   SeedPerformance,
 } from "@/lib/coldstart/ColdStartContentService";
+import { DiscoveryService } from "@/lib/discovery/DiscoveryService";
+import { RealityCheckResult } from "@/lib/zora/types";
+
+/**
+ * Adapt a ranked For You result to the card's shape
+ */
+function toFeedCardPerformance(result: RealityCheckResult): SeedPerformance {
+  const author = result.farcasterData;
+  return {
+    id: result.id,
+    challengeId: result.challengeId,
+    challengeTitle: result.challengeTitle,
+    audioUrl: result.audioUrl,
+    duration: 0, // Not part of the feed payload
+    selfRating: result.selfRating,
+    communityRating: result.communityRatingCount ? result.communityRating : undefined,
+    gap: result.communityRatingCount ? result.gap : undefined,
+    author: {
+      id: String(author?.authorFid || result.userAddress),
+      username: author?.authorUsername || "",
+      displayName: author?.authorDisplayName || "Anonymous",
+      pfpUrl: author?.authorPfp || "",
+      isVerified: false,
+      isSeedAccount: !!result.seed,
+    },
+    engagement: {
+      likes: author?.likes || 0,
+      comments: author?.replies || 0,
+      shares: result.shareCount || 0,
+    },
+    timestamp: new Date(result.timestamp),
+    tags: [],
+    difficulty: "medium",
+    featured: false,
+    reasons: result.reasons,
+    spotlight: result.seed?.kind === "spotlight",
+  };
+}
 
 interface FeedCardProps {
   performance: SeedPerformance;
@@ -143,7 +181,7 @@ function FeedCard({
                     className="text-xs px-1 py-0 border-purple-400 text-purple-400"
                   >
                     <Sparkles className="w-3 h-3 mr-1" />
-                    Demo
+                    {performance.spotlight ? "New challenge" : "Demo"}
                   </Badge>
                 )}
               </div>
@@ -171,6 +209,21 @@ function FeedCard({
           </motion.div>
         )}
 
+        {/* Why this performance is in the feed */}
+        {performance.reasons && performance.reasons.length > 0 && (
+          <div className="mx-4 mb-2 flex flex-wrap gap-2">
+            {performance.reasons.map((reason) => (
+              <Badge
+                key={reason.kind + reason.label}
+                variant="outline"
+                className="text-xs border-white/30 text-gray-200"
+              >
+                {reason.label}
+              </Badge>
+            ))}
+          </div>
+        )}
+
         {/* Main Content Area */}
         <div className="flex-1 flex flex-col justify-center items-center p-6">
           {/* Challenge Title */}
@@ -278,7 +331,9 @@ function FeedCard({
               </Button>
             </div>
 
-            <div className="text-gray-400 text-xs">{performance.duration}s</div>
+            {performance.duration > 0 && (
+              <div className="text-gray-400 text-xs">{performance.duration}s</div>
+            )}
           </div>
         </div>
       </div>
@@ -324,11 +379,28 @@ export default function DiscoveryFeedV2() {
   const [showColdStartHints, setShowColdStartHints] = useState(false);
   const { likePerformance, commentOnPerformance } = useFarcasterIntegration();
 
-  // Load content using cold start service
+  // Load the ranked For You feed, falling back to cold start content
   useEffect(() => {
     const loadContent = async () => {
       try {
         setIsLoading(true);
+
+        try {
+          const { performances: ranked } = await DiscoveryService.getInstance().getFeed("foryou", null, 10);
+          if (ranked.length > 0) {
+            setPerformances(
+              ranked.map((result) => {
+                const perf = toFeedCardPerformance(result);
+                return { ...perf, realityRevealed: perf.communityRating !== undefined };
+              })
+            );
+            setShowColdStartHints(false);
+            return;
+          }
+        } catch (feedError) {
+          console.warn("For You feed unavailable, using cold start content:", feedError);
+        }
+
         const { performances: feedContent, strategy } =
           await coldStartContentService.getDiscoveryFeedContent(10, 0);
 
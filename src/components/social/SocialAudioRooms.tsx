@@ -16,6 +16,10 @@ import {
   Music,
   Headphones,
   UserPlus,
+  UserX,
+  Shield,
+  Lock,
+  Unlock,
   MoreVertical
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -24,6 +28,12 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import { useMiniKit } from '@coinbase/onchainkit/minikit';
+import {
+  MobileAudioStreamingService,
+  AudioRoom as StreamingRoom,
+  RoomModerationAction,
+  RoomParticipant as StreamingParticipant
+} from '@/lib/audio/MobileAudioStreamingService';
 
 export interface AudioRoom {
   id: string;
@@ -33,6 +43,7 @@ export interface AudioRoom {
   participants: RoomParticipant[];
   maxParticipants: number;
   isPrivate: boolean;
+  isLocked: boolean;
   currentSong?: {
     title: string;
     artist: string;
@@ -50,12 +61,65 @@ export interface RoomParticipant {
   displayName: string;
   pfpUrl: string;
   role: 'host' | 'speaker' | 'listener';
+  isModerator: boolean;
   isMuted: boolean;
   isHandRaised: boolean;
   joinedAt: Date;
   isConnected: boolean;
 }
 
+function toViewParticipant(participant: StreamingParticipant): RoomParticipant {
+  return {
+    fid: participant.fid,
+    username: participant.username,
+    displayName: participant.displayName,
+    pfpUrl: participant.pfpUrl,
+    role: participant.role === 'host' ? 'host' : participant.isMuted ? 'listener' : 'speaker',
+    isModerator: participant.role === 'moderator',
+    isMuted: participant.isMuted,
+    isHandRaised: false,
+    joinedAt: participant.joinedAt,
+    isConnected: participant.isListening
+  };
+}
+
+function toViewRoom(room: StreamingRoom): AudioRoom {
+  const host = room.participants.find(participant => participant.fid === room.hostFid);
+
+  return {
+    id: room.id,
+    title: room.name,
+    description: room.description,
+    host: host ? toViewParticipant(host) : {
+      fid: room.hostFid,
+      username: room.hostName,
+      displayName: room.hostName,
+      pfpUrl: '',
+      role: 'host',
+      isModerator: false,
+      isMuted: true,
+      isHandRaised: false,
+      joinedAt: room.createdAt,
+      isConnected: false
+    },
+    participants: room.participants
+      .filter(participant => participant.fid !== room.hostFid)
+      .map(toViewParticipant),
+    maxParticipants: room.maxParticipants,
+    isPrivate: room.settings.requireApprovalToJoin,
+    isLocked: room.isLocked ?? false,
+    currentSong: room.currentTrack && {
+      title: room.currentTrack.title,
+      artist: room.currentTrack.artist,
+      audioUrl: '',
+      duration: room.currentTrack.duration
+    },
+    status: room.isLive ? 'active' : 'waiting',
+    createdAt: room.createdAt,
+    tags: room.settings.requireApprovalToJoin ? ['approval required'] : []
+  };
+}
+
 interface SocialAudioRoomsProps {
   onJoinRoom?: (room: AudioRoom) => void;
   onCreateRoom?: () => void;
@@ -72,10 +136,13 @@ export default function SocialAudioRooms({
   const [rooms, setRooms] = useState<AudioRoom[]>([]);
   const [currentRoom, setCurrentRoom] = useState<AudioRoom | null>(null);
   const [isInRoom, setIsInRoom] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
   const [isHandRaised, setIsHandRaised] = useState(false);
   const [showRoomControls, setShowRoomControls] = useState(false);
   const [activeTab, setActiveTab] = useState<'discover' | 'joined'>('discover');
+  const [pendingRoomId, setPendingRoomId] = useState<string | null>(null);
+  const [joinRequests, setJoinRequests] = useState<StreamingParticipant[]>([]);
+  const [roomError, setRoomError] = useState<string | null>(null);
+  const streamingRef = useRef<MobileAudioStreamingService | null>(null);
   
   // Mobile optimization
   const [touchStartY, setTouchStartY] = useState(0);
@@ -83,98 +150,61 @@ export default function SocialAudioRooms({
   const roomControlsRef = useRef<HTMLDivElement>(null);
   
   // Farcaster MiniKit integration
-  const { isFrameReady } = useMiniKit();
+  const { isFrameReady, context } = useMiniKit();
 
-  // Mock data for demonstration
+  // What we may do comes from our role on the server
+  const myFid = context?.user?.fid ?? userFid;
+  const me = currentRoom && [currentRoom.host, ...currentRoom.participants].find(p => p.fid === myFid);
+  const isMuted = me?.isMuted ?? true;
+  const isRoomHost = me?.role === 'host';
+  const canModerateRoom = isRoomHost || !!me?.isModerator;
+
+  // Rooms and signaling live on the server; this device only keeps its peers
   useEffect(() => {
-    const mockRooms: AudioRoom[] = [
-      {
-        id: 'room-1',
-        title: '🎤 Late Night Karaoke',
-        description: 'Chill vibes and great voices',
-        host: {
-          fid: 123,
-          username: 'karaoke_queen',
-          displayName: 'Sarah M.',
-          pfpUrl: '/api/placeholder/40/40',
-          role: 'host',
-          isMuted: false,
-          isHandRaised: false,
-          joinedAt: new Date(),
-          isConnected: true
-        },
-        participants: [
-          {
-            fid: 456,
-            username: 'singer_pro',
-            displayName: 'Mike R.',
-            pfpUrl: '/api/placeholder/40/40',
-            role: 'speaker',
-            isMuted: false,
-            isHandRaised: false,
-            joinedAt: new Date(),
-            isConnected: true
-          },
-          {
-            fid: 789,
-            username: 'music_lover',
-            displayName: 'Emma K.',
-            pfpUrl: '/api/placeholder/40/40',
-            role: 'listener',
-            isMuted: true,
-            isHandRaised: true,
-            joinedAt: new Date(),
-            isConnected: true
-          }
-        ],
-        maxParticipants: 12,
-        isPrivate: false,
-        currentSong: {
-          title: 'Bohemian Rhapsody',
-          artist: 'Queen',
-          audioUrl: '/audio/bohemian-rhapsody.mp3',
-          duration: 355
-        },
-        status: 'active',
-        createdAt: new Date(),
-        tags: ['karaoke', 'rock', 'classics']
-      },
-      {
-        id: 'room-2',
-        title: '🎵 R&B Vocal Sessions',
-        description: 'Smooth vocals and soulful performances',
-        host: {
-          fid: 321,
-          username: 'rnb_master',
-          displayName: 'Alex J.',
-          pfpUrl: '/api/placeholder/40/40',
-          role: 'host',
-          isMuted: false,
-          isHandRaised: false,
-          joinedAt: new Date(),
-          isConnected: true
-        },
-        participants: [
-          {
-            fid: 654,
-            username: 'soul_singer',
-            displayName: 'Lisa P.',
-            pfpUrl: '/api/placeholder/40/40',
-            role: 'speaker',
-            isMuted: false,
-            isHandRaised: false,
-            joinedAt: new Date(),
-            isConnected: true
-          }
-        ],
-        maxParticipants: 8,
-        isPrivate: false,
-        status: 'waiting',
-        createdAt: new Date(),
-        tags: ['rnb', 'soul', 'vocals']
+    const streaming = new MobileAudioStreamingService();
+    streamingRef.current = streaming;
+
+    streaming.setRoomUpdateCallback(room => setCurrentRoom(toViewRoom(room)));
+    streaming.setJoinRequestCallback(participant => {
+      setJoinRequests(requests => [...requests.filter(p => p.fid !== participant.fid), participant]);
+    });
+    streaming.setJoinResolvedCallback(approved => {
+      setPendingRoomId(null);
+      if (approved) {
+        setIsInRoom(true);
+      } else {
+        setRoomError('The host declined your request to join');
       }
-    ];
-    setRooms(mockRooms);
+    });
+    streaming.setRoomEndedCallback(() => {
+      setCurrentRoom(null);
+      setIsInRoom(false);
+      setShowRoomControls(false);
+      setRoomError('The room has ended');
+    });
+    streaming.setRemovedCallback(() => {
+      setCurrentRoom(null);
+      setIsInRoom(false);
+      setShowRoomControls(false);
+      setRoomError('You were removed from the room');
+    });
+
+    const loadRooms = async () => {
+      try {
+        setRooms((await streaming.listRooms()).map(toViewRoom));
+      } catch (error) {
+        console.error('Failed to load audio rooms:', error);
+      }
+    };
+
+    loadRooms();
+    const interval = setInterval(loadRooms, 15000);
+
+    return () => {
+      clearInterval(interval);
+      streaming.dispose();
+      streamingRef.current = null;
+    };
   }, []);
 
   // Mobile touch handlers for swipe gestures
@@ -213,29 +243,75 @@ export default function SocialAudioRooms({
     setIsSwipeGesture(false);
   };
 
-  const handleJoinRoom = (room: AudioRoom) => {
-    setCurrentRoom(room);
-    setIsInRoom(true);
-    onJoinRoom?.(room);
-    
-    // Mobile haptic feedback if available
-    if (navigator.vibrate) {
-      navigator.vibrate([10, 5, 10]);
+  const handleJoinRoom = async (room: AudioRoom) => {
+    const streaming = streamingRef.current;
+    const fid = context?.user?.fid ?? userFid;
+    if (!streaming || !fid) {
+      setRoomError('Sign in with Farcaster to join audio rooms');
+      return;
+    }
+
+    setRoomError(null);
+    try {
+      const status = await streaming.joinRoom(room.id, {
+        fid,
+        username: context?.user?.username,
+        displayName: context?.user?.displayName,
+        pfpUrl: context?.user?.pfpUrl
+      });
+
+      if (status === 'pending') {
+        setPendingRoomId(room.id);
+        return;
+      }
+
+      setIsInRoom(true);
+      onJoinRoom?.(room);
+
+      // Mobile haptic feedback if available
+      if (navigator.vibrate) {
+        navigator.vibrate([10, 5, 10]);
+      }
+    } catch (error) {
+      setRoomError(error instanceof Error ? error.message : 'Failed to join room');
     }
   };
 
-  const handleLeaveRoom = () => {
+  const handleLeaveRoom = async () => {
     setCurrentRoom(null);
     setIsInRoom(false);
     setShowRoomControls(false);
-    setIsMuted(false);
     setIsHandRaised(false);
+    setPendingRoomId(null);
+    setJoinRequests([]);
+    await streamingRef.current?.leaveRoom();
   };
 
-  const toggleMute = () => {
-    setIsMuted(!isMuted);
-    if (navigator.vibrate) {
-      navigator.vibrate(20);
+  const handleJoinRequest = async (participantFid: number, approve: boolean) => {
+    setJoinRequests(requests => requests.filter(p => p.fid !== participantFid));
+    try {
+      await streamingRef.current?.respondToJoinRequest(participantFid, approve);
+    } catch (error) {
+      setRoomError(error instanceof Error ? error.message : 'Failed to answer join request');
+    }
+  };
+
+  const toggleMute = async () => {
+    try {
+      await streamingRef.current?.setSelfMuted(!isMuted);
+      if (navigator.vibrate) {
+        navigator.vibrate(20);
+      }
+    } catch (error) {
+      setRoomError(error instanceof Error ? error.message : 'Failed to change mute');
+    }
+  };
+
+  const handleModerate = async (action: RoomModerationAction, targetFid?: number) => {
+    try {
+      await streamingRef.current?.moderate(action, targetFid);
+    } catch (error) {
+      setRoomError(error instanceof Error ? error.message : `Failed to ${action}`);
     }
   };
 
@@ -289,6 +365,30 @@ export default function SocialAudioRooms({
           </div>
         </div>
 
+        {/* Join Requests */}
+        {joinRequests.map(participant => (
+          <div
+            key={participant.fid}
+            className="flex items-center gap-3 px-4 py-2 bg-gigavibe-500/10 border-b border-gigavibe-500/20"
+          >
+            <Avatar className="w-8 h-8">
+              <AvatarImage src={participant.pfpUrl} />
+              <AvatarFallback className="bg-gray-600 text-white text-xs">
+                {participant.displayName.charAt(0)}
+              </AvatarFallback>
+            </Avatar>
+            <span className="flex-1 text-sm text-white truncate">
+              {participant.displayName} wants to join
+            </span>
+            <Button size="sm" variant="ghost" className="text-white/60" onClick={() => handleJoinRequest(participant.fid, false)}>
+              Decline
+            </Button>
+            <Button size="sm" className="bg-gigavibe-500 hover:bg-gigavibe-600" onClick={() => handleJoinRequest(participant.fid, true)}>
+              Let in
+            </Button>
+          </div>
+        ))}
+
         {/* Participants Grid - Mobile Optimized */}
         <div className="flex-1 p-4 overflow-y-auto">
           <div className="grid grid-cols-2 gap-4 max-w-md mx-auto">
@@ -372,9 +472,41 @@ export default function SocialAudioRooms({
                             : "bg-blue-500/20 text-blue-400 border-blue-500/30"
                         )}
                       >
-                        {participant.role}
+                        {participant.isModerator ? 'moderator' : participant.role}
                       </Badge>
                     </div>
+
+                    {/* Moderators cannot act on each other; the server enforces this too */}
+                    {canModerateRoom && participant.fid !== myFid && (isRoomHost || !participant.isModerator) && (
+                      <div className="flex justify-center gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0 text-white/60 hover:text-white"
+                          onClick={() => handleModerate(participant.isMuted ? 'unmute' : 'mute', participant.fid)}
+                        >
+                          {participant.isMuted ? <Mic className="w-3.5 h-3.5" /> : <MicOff className="w-3.5 h-3.5" />}
+                        </Button>
+                        {isRoomHost && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className={cn("h-7 w-7 p-0 hover:text-white", participant.isModerator ? "text-gigavibe-400" : "text-white/60")}
+                            onClick={() => handleModerate(participant.isModerator ? 'demote' : 'promote', participant.fid)}
+                          >
+                            <Shield className="w-3.5 h-3.5" />
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 w-7 p-0 text-red-400 hover:text-red-300"
+                          onClick={() => handleModerate('kick', participant.fid)}
+                        >
+                          <UserX className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </Card>
               </motion.div>
@@ -486,6 +618,29 @@ export default function SocialAudioRooms({
                     Settings
                   </Button>
                 </div>
+
+                {canModerateRoom && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <Button
+                      variant="outline"
+                      onClick={() => handleModerate(currentRoom.isLocked ? 'unlock' : 'lock')}
+                      className={cn("border-white/20 text-white hover:bg-white/10", !isRoomHost && "col-span-2")}
+                    >
+                      {currentRoom.isLocked ? <Unlock className="w-4 h-4 mr-2" /> : <Lock className="w-4 h-4 mr-2" />}
+                      {currentRoom.isLocked ? 'Unlock' : 'Lock'}
+                    </Button>
+                    {isRoomHost && (
+                      <Button
+                        variant="outline"
+                        onClick={() => handleModerate('end')}
+                        className="border-red-500/40 text-red-400 hover:bg-red-500/10"
+                      >
+                        <PhoneOff className="w-4 h-4 mr-2" />
+                        End Room
+                      </Button>
+                    )}
+                  </div>
+                )}
                 
                 <Button
                   onClick={handleLeaveRoom}
@@ -542,6 +697,21 @@ export default function SocialAudioRooms({
         Create Audio Room
       </Button>
 
+      {roomError && (
+        <p className="text-center text-sm text-red-400">{roomError}</p>
+      )}
+
+      {pendingRoomId && (
+        <Card className="bg-black/20 backdrop-blur-sm border-yellow-500/30">
+          <CardContent className="p-4 flex items-center justify-between gap-3">
+            <span className="text-sm text-yellow-400">Waiting for the host to let you in…</span>
+            <Button size="sm" variant="ghost" className="text-white/60" onClick={handleLeaveRoom}>
+              Cancel
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Rooms List - Mobile Optimized */}
       <div className="space-y-3">
         {rooms.map(room => (
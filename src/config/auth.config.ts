@@ -54,6 +54,7 @@ export const AUTH_CONFIG = {
   ERRORS: {
     INVALID_SIGNATURE: 'Invalid signature. Please try again.',
     EXPIRED_SESSION: 'Your session has expired. Please sign in again.',
+    INVALID_NONCE: 'This sign-in request has expired or was already used. Please try again.',
     NETWORK_ERROR: 'Network error. Please check your connection and try again.',
     UNAUTHORIZED: 'Unauthorized access. Please sign in.',
     RATE_LIMITED: 'Too many attempts. Please wait before trying again.',
@@ -5,17 +5,20 @@ import React, {
   useContext,
   useState,
   useEffect,
+  useRef,
   ReactNode,
 } from "react";
 import { useFarcasterAuth } from "./FarcasterAuthContext";
-import { AUTH_CONFIG, validateAuthSession } from "@/config/auth.config";
+import { AUTH_CONFIG } from "@/config/auth.config";
 import {
   quickResolveProfile,
   type UnifiedProfile,
 } from "@/lib/profile/resolver";
+import type { Account } from "@/lib/auth/AccountService";
 
 interface EthUser {
   address: string;
+  chainId?: number;
   fid?: string;
   username?: string;
 }
@@ -36,6 +39,10 @@ interface UnifiedAuthContextType {
   ethUser: EthUser | null;
   setEthUser: (user: EthUser | null) => void;
 
+  // The signed-in account and its linked wallets and FID
+  account: Account | null;
+  refreshAccount: () => Promise<void>;
+
   // Computed values
   canPost: boolean;
   displayName: string | null;
@@ -52,6 +59,9 @@ const UnifiedAuthContext = createContext<UnifiedAuthContextType | undefined>(
 
 const STORAGE_KEYS = AUTH_CONFIG.STORAGE_KEYS;
 
+// Sessions this close to expiring are swapped for a fresh one on load
+const SESSION_REFRESH_WINDOW = 24 * 60 * 60 * 1000;
+
 export function UnifiedAuthProvider({ children }: { children: ReactNode }) {
   const [ethUser, setEthUserState] = useState<EthUser | null>(null);
   const [authMethod, setAuthMethod] = useState<"farcaster" | "ethereum" | null>(
@@ -59,6 +69,9 @@ export function UnifiedAuthProvider({ children }: { children: ReactNode }) {
   );
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [account, setAccount] = useState<Account | null>(null);
+  // FIDs we already tried to link, so a refusal is not retried every render
+  const linkAttempted = useRef<number | null>(null);
 
   // Profile resolution state
   const [resolvedProfile, setResolvedProfile] = useState<UnifiedProfile | null>(
@@ -69,9 +82,9 @@ export function UnifiedAuthProvider({ children }: { children: ReactNode }) {
   // Use existing Farcaster auth context
   const farcasterAuth = useFarcasterAuth();
 
-  // Load saved eth auth data on mount
+  // Restore the wallet session from the server on mount
   useEffect(() => {
-    loadSavedEthAuth();
+    loadEthSession();
   }, []);
 
   // Update loading state based on both auth methods
@@ -79,38 +92,53 @@ export function UnifiedAuthProvider({ children }: { children: ReactNode }) {
     setLoading(farcasterAuth.loading);
   }, [farcasterAuth.loading]);
 
-  const loadSavedEthAuth = () => {
+  // The session cookie is httpOnly; the server is the only source of truth
+  const loadEthSession = async () => {
     try {
-      const savedEthUser = localStorage.getItem(STORAGE_KEYS.ETH_USER);
-      const savedTimestamp = localStorage.getItem(STORAGE_KEYS.ETH_TIMESTAMP);
-      const savedAuthMethod = localStorage.getItem(STORAGE_KEYS.AUTH_METHOD);
-
-      if (savedEthUser && savedTimestamp) {
-        const timestamp = parseInt(savedTimestamp);
-        const now = Date.now();
-
-        if (validateAuthSession(timestamp)) {
-          const userData = JSON.parse(savedEthUser);
-          setEthUserState(userData);
-          if (savedAuthMethod === "ethereum") {
-            setAuthMethod("ethereum");
-          }
-          console.log("✅ Restored Ethereum auth from storage");
-        } else {
-          console.log("⚠️ Ethereum auth expired, clearing storage");
+      let response = await fetch("/api/auth/session", { cache: "no-store" });
+      if (!response.ok) {
+        clearEthStoredAuth();
+        return;
+      }
+
+      let data = await response.json();
+      if (new Date(data.expiresAt).getTime() - Date.now() < SESSION_REFRESH_WINDOW) {
+        response = await fetch("/api/auth/refresh", { method: "POST" });
+        if (!response.ok) {
+          console.log("⚠️ Ethereum session expired, clearing storage");
           clearEthStoredAuth();
+          return;
         }
+        data = await response.json();
       }
+
+      const address: string = data.user.address;
+      setAccount(data.account ?? null);
+      setEthUserState({
+        address,
+        chainId: data.user.chainId,
+        username: `${address.substring(0, 6)}...${address.substring(38)}`,
+      });
+      if (localStorage.getItem(STORAGE_KEYS.AUTH_METHOD) === "ethereum") {
+        setAuthMethod("ethereum");
+      }
+      console.log("✅ Restored Ethereum session");
     } catch (error) {
-      console.error("Failed to load saved eth auth:", error);
-      clearEthStoredAuth();
+      console.error("Failed to load eth session:", error);
     }
   };
 
-  const saveEthAuthToStorage = (userData: EthUser) => {
+  const refreshAccount = async () => {
+    try {
+      const response = await fetch("/api/account", { cache: "no-store" });
+      setAccount(response.ok ? (await response.json()).account : null);
+    } catch (error) {
+      console.error("Failed to load account:", error);
+    }
+  };
+
+  const saveEthAuthToStorage = () => {
     try {
-      localStorage.setItem(STORAGE_KEYS.ETH_USER, JSON.stringify(userData));
-      localStorage.setItem(STORAGE_KEYS.ETH_TIMESTAMP, Date.now().toString());
       localStorage.setItem(STORAGE_KEYS.AUTH_METHOD, "ethereum");
     } catch (error) {
       console.error("Failed to save eth auth to storage:", error);
@@ -127,31 +155,70 @@ export function UnifiedAuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  /**
+   * Record a completed SIWE sign-in (the server has already set the session
+   * cookie), or sign the wallet out.
+   */
   const setEthUser = (user: EthUser | null) => {
     setEthUserState(user);
     if (user) {
       setAuthMethod("ethereum");
-      saveEthAuthToStorage(user);
+      saveEthAuthToStorage();
+      refreshAccount();
     } else {
+      setAccount(null);
       clearEthStoredAuth();
+      endEthSession();
       if (authMethod === "ethereum") {
         setAuthMethod(null);
       }
     }
   };
 
-  // Update auth method when Farcaster auth changes
+  const endEthSession = () => {
+    fetch("/api/auth/logout", { method: "POST" }).catch((error) => {
+      console.error("Failed to end eth session:", error);
+    });
+  };
+
+  // Update auth method when Farcaster auth changes. A signed-in wallet stays
+  // signed in; the two are linked into one account below.
   useEffect(() => {
     if (farcasterAuth.isAuthenticated) {
       setAuthMethod("farcaster");
-      // Clear eth auth when switching to Farcaster
-      setEthUserState(null);
-      clearEthStoredAuth();
     } else if (authMethod === "farcaster") {
-      setAuthMethod(null);
+      setAuthMethod(ethUser ? "ethereum" : null);
     }
   }, [farcasterAuth.isAuthenticated]);
 
+  // Link the Farcaster user to the wallet's account. The server only accepts
+  // it if one of the account's wallets is a verified address of the FID.
+  useEffect(() => {
+    const fid = farcasterAuth.user?.fid;
+    if (!fid || !account || account.fid !== null || linkAttempted.current === fid) {
+      return;
+    }
+    linkAttempted.current = fid;
+
+    fetch("/api/account/farcaster", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fid }),
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (response.ok) {
+          setAccount(data.account);
+          console.log(`🔗 Linked Farcaster ID ${fid} to your account`);
+        } else {
+          console.log(`⚠️ Farcaster ID ${fid} not linked: ${data.error}`);
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to link Farcaster account:", error);
+      });
+  }, [farcasterAuth.user?.fid, account]);
+
   // Computed values
   const isAuthenticated = farcasterAuth.isAuthenticated || !!ethUser;
   const user = farcasterAuth.user || ethUser;
@@ -236,6 +303,9 @@ export function UnifiedAuthProvider({ children }: { children: ReactNode }) {
     ethUser,
     setEthUser,
 
+    account,
+    refreshAccount,
+
     // Computed values
     canPost,
     displayName,
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import { useAccount } from 'wagmi';
 import { RealityCheckResult } from '@/lib/zora/types';
 import { DiscoveryService } from '@/lib/discovery/DiscoveryService';
 import { useCommunityOwnership } from './useCommunityOwnership';
@@ -11,7 +12,9 @@ export function useDiscoveryFeed(feedType: 'trending' | 'foryou' | 'recent' | 'v
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [hasMore, setHasMore] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
 
+  const { address } = useAccount();
   const discoveryService = DiscoveryService.getInstance();
   const { recordVote, recordShare, getCommunityOwnership: getAsyncCommunityOwnership } = useCommunityOwnership();
   const { likePerformance: farcasterLike, commentOnPerformance: farcasterComment } = useFarcasterIntegration();
@@ -28,47 +31,68 @@ export function useDiscoveryFeed(feedType: 'trending' | 'foryou' | 'recent' | 'v
       setLoading(true);
       setError(null);
 
-      const newPerformances = await discoveryService.getFeed(feedType, refresh ? 0 : performances.length);
-      
+      if (!refresh && !nextCursor) {
+        setHasMore(false);
+        return;
+      }
+
+      let page = await discoveryService.getFeed(feedType, refresh ? null : nextCursor);
+
+      // The snapshot behind the cursor expired - start a fresh scroll session
+      if (page.expired) {
+        refresh = true;
+        page = await discoveryService.getFeed(feedType, null);
+      }
+
       if (refresh) {
-        setPerformances(newPerformances);
+        setPerformances(page.performances);
       } else {
-        setPerformances(prev => [...prev, ...newPerformances]);
+        // Snapshots never repeat an item, but a refresh racing a page load could
+        setPerformances(prev => {
+          const seen = new Set(prev.map(p => p.id));
+          return [...prev, ...page.performances.filter(p => !seen.has(p.id))];
+        });
       }
       
-      setHasMore(newPerformances.length > 0);
+      setNextCursor(page.nextCursor);
+      setHasMore(page.hasMore);
     } catch (err) {
       console.error('Failed to load discovery feed:', err);
       setError('Failed to load performances');
     } finally {
       setLoading(false);
     }
-  }, [feedType, performances.length, discoveryService]);
+  }, [feedType, nextCursor, discoveryService]);
 
   const refreshFeed = useCallback(() => {
     loadFeed(true);
   }, [loadFeed]);
 
   const ratePerformance = useCallback(async (performanceId: string, rating: number) => {
+    if (!address) {
+      console.warn('Connect a wallet to rate performances');
+      return;
+    }
+
     try {
       // Record in discovery service
-      await discoveryService.ratePerformance(performanceId, rating);
+      const communityRating = await discoveryService.ratePerformance(performanceId, rating);
       
       // Record in community ownership
       await recordVote(performanceId, rating);
       
-      // Update local state
+      // Update local state with the server's aggregate
       setPerformances(prev => 
         prev.map(p => 
           p.id === performanceId 
-            ? { ...p, communityRating: (p.communityRating + rating) / 2 } // Simplified rating update
+            ? { ...p, communityRating }
             : p
         )
       );
     } catch (err) {
       console.error('Failed to rate performance:', err);
     }
-  }, [discoveryService, recordVote]);
+  }, [address, discoveryService, recordVote]);
 
   const sharePerformance = useCallback(async (performanceId: string) => {
     try {
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { AudioService } from '@/lib/audio/AudioService';
+import { featureFlags } from '@/lib/features/FeatureFlags';
 import { PitchData, UsePitchDetectionReturn } from '@/types';
 
 export function usePitchDetection(): UsePitchDetectionReturn {
@@ -27,7 +28,7 @@ export function usePitchDetection(): UsePitchDetectionReturn {
       setError(null);
 
       if (!audioServiceRef.current) {
-        audioServiceRef.current = new AudioService();
+        audioServiceRef.current = new AudioService(featureFlags.getAudioFeatures().pitchDetector);
       }
 
       await audioServiceRef.current.initialize();
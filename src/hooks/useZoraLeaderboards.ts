@@ -41,9 +41,10 @@ export function useZoraLeaderboards() {
     }
   }, [marketDataService]);
 
-  const fetchUserPortfolio = useCallback(async (userAddress: Address) => {
+  // Pass every wallet linked to the account to see its whole portfolio
+  const fetchUserPortfolio = useCallback(async (userAddresses: Address | Address[]) => {
     try {
-      const portfolio = await marketDataService.getUserPortfolio(userAddress);
+      const portfolio = await marketDataService.getUserPortfolio(userAddresses);
       setUserPortfolio(portfolio);
     } catch (err) {
       console.error('Failed to fetch user portfolio:', err);
@@ -318,6 +318,24 @@ export type Database = {
           detected_at: string
           processed_at: string | null
           result_message: string | null
+          idempotency_key: string
+          eligibility_type: string | null
+          reason: string | null
+          snapshot: Json | null
+          attempts: number
+          max_attempts: number
+          next_attempt_at: string | null
+          locked_at: string | null
+          locked_by: string | null
+          approved_at: string | null
+          approved_by: string | null
+          payout_recipient: string | null
+          metadata_uri: string | null
+          tx_hash: string | null
+          signed_transaction: string | null
+          coin_address: string | null
+          minted_at: string | null
+          updated_at: string | null
         }
         Insert: {
           id?: string
@@ -327,6 +345,24 @@ export type Database = {
           detected_at?: string
           processed_at?: string | null
           result_message?: string | null
+          idempotency_key: string
+          eligibility_type?: string | null
+          reason?: string | null
+          snapshot?: Json | null
+          attempts?: number
+          max_attempts?: number
+          next_attempt_at?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          approved_at?: string | null
+          approved_by?: string | null
+          payout_recipient?: string | null
+          metadata_uri?: string | null
+          tx_hash?: string | null
+          signed_transaction?: string | null
+          coin_address?: string | null
+          minted_at?: string | null
+          updated_at?: string | null
         }
         Update: {
           id?: string
@@ -336,16 +372,26 @@ export type Database = {
           detected_at?: string
           processed_at?: string | null
           result_message?: string | null
+          idempotency_key?: string
+          eligibility_type?: string | null
+          reason?: string | null
+          snapshot?: Json | null
+          attempts?: number
+          max_attempts?: number
+          next_attempt_at?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          approved_at?: string | null
+          approved_by?: string | null
+          payout_recipient?: string | null
+          metadata_uri?: string | null
+          tx_hash?: string | null
+          signed_transaction?: string | null
+          coin_address?: string | null
+          minted_at?: string | null
+          updated_at?: string | null
         }
-        Relationships: [
-          {
-            foreignKeyName: "viral_queue_performance_id_fkey"
-            columns: ["performance_id"]
-            isOneToOne: false
-            referencedRelation: "performances"
-            referencedColumns: ["id"]
-          }
-        ]
+        Relationships: []
       }
       viral_thresholds: {
         Row: {
@@ -371,6 +417,86 @@ export type Database = {
         }
         Relationships: []
       }
+      viral_rule_sets: {
+        Row: {
+          id: string
+          version: number
+          name: string | null
+          rules: Json
+          notes: string | null
+          status: string
+          traffic_percent: number
+          created_by: string
+          created_at: string
+          activated_at: string | null
+          retired_at: string | null
+        }
+        Insert: {
+          id?: string
+          name?: string | null
+          rules: Json
+          notes?: string | null
+          status?: string
+          traffic_percent?: number
+          created_by: string
+          created_at?: string
+          activated_at?: string | null
+          retired_at?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string | null
+          notes?: string | null
+          status?: string
+          traffic_percent?: number
+          created_by?: string
+          created_at?: string
+          activated_at?: string | null
+          retired_at?: string | null
+        }
+        Relationships: []
+      }
+      viral_rule_audit_log: {
+        Row: {
+          id: string
+          action: string
+          rule_set_version: number | null
+          actor: string
+          reason: string | null
+          before: Json | null
+          after: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          action: string
+          rule_set_version?: number | null
+          actor: string
+          reason?: string | null
+          before?: Json | null
+          after?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          action?: string
+          rule_set_version?: number | null
+          actor?: string
+          reason?: string | null
+          before?: Json | null
+          after?: Json | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "viral_rule_audit_log_rule_set_version_fkey"
+            columns: ["rule_set_version"]
+            isOneToOne: false
+            referencedRelation: "viral_rule_sets"
+            referencedColumns: ["version"]
+          }
+        ]
+      }
       analytics_events: {
         Row: {
           id: string
@@ -496,15 +622,26 @@ export type Database = {
           confidence: string
           duration: number
           user_fid: number | null
+          user_id: string | null
           cast_hash: string | null
           accuracy: number | null
           community_rating: number | null
+          community_rating_count: number
+          community_rating_confidence: number
           gap: number | null
           likes_count: number
           comments_count: number
           shares_count: number
           viral_score: number
           coin_address: string | null
+          verification_status: string
+          verification_flags: Json
+          audio_format: string | null
+          claimed_duration: number | null
+          claimed_accuracy: number | null
+          verified_at: string | null
+          audio_cid: string | null
+          duplicate_of_result_id: string | null
           created_at: string
           updated_at: string
         }
@@ -517,15 +654,26 @@ export type Database = {
           confidence: string
           duration: number
           user_fid?: number | null
+          user_id?: string | null
           cast_hash?: string | null
           accuracy?: number | null
           community_rating?: number | null
+          community_rating_count?: number
+          community_rating_confidence?: number
           gap?: number | null
           likes_count?: number
           comments_count?: number
           shares_count?: number
           viral_score?: number
           coin_address?: string | null
+          verification_status?: string
+          verification_flags?: Json
+          audio_format?: string | null
+          claimed_duration?: number | null
+          claimed_accuracy?: number | null
+          verified_at?: string | null
+          audio_cid?: string | null
+          duplicate_of_result_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -538,15 +686,204 @@ export type Database = {
           confidence?: string
           duration?: number
           user_fid?: number | null
+          user_id?: string | null
           cast_hash?: string | null
           accuracy?: number | null
           community_rating?: number | null
+          community_rating_count?: number
+          community_rating_confidence?: number
           gap?: number | null
           likes_count?: number
           comments_count?: number
           shares_count?: number
           viral_score?: number
           coin_address?: string | null
+          verification_status?: string
+          verification_flags?: Json
+          audio_format?: string | null
+          claimed_duration?: number | null
+          claimed_accuracy?: number | null
+          verified_at?: string | null
+          audio_cid?: string | null
+          duplicate_of_result_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      challenge_result_pitch_tracks: {
+        Row: {
+          challenge_result_id: string
+          analyzer_version: string
+          sample_rate: number
+          hop_size: number
+          frame_size: number
+          duration: number
+          frame_count: number
+          voiced_ratio: number | null
+          median_frequency: number | null
+          frames: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          challenge_result_id: string
+          analyzer_version: string
+          sample_rate: number
+          hop_size: number
+          frame_size: number
+          duration: number
+          frame_count: number
+          voiced_ratio?: number | null
+          median_frequency?: number | null
+          frames: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          challenge_result_id?: string
+          analyzer_version?: string
+          sample_rate?: number
+          hop_size?: number
+          frame_size?: number
+          duration?: number
+          frame_count?: number
+          voiced_ratio?: number | null
+          median_frequency?: number | null
+          frames?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "challenge_result_pitch_tracks_challenge_result_id_fkey"
+            columns: ["challenge_result_id"]
+            isOneToOne: true
+            referencedRelation: "challenge_results"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      challenge_reference_melodies: {
+        Row: {
+          challenge_id: string
+          vocal_url: string
+          analyzer_version: string
+          sample_rate: number
+          hop_size: number
+          frame_size: number
+          duration: number
+          frames: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          challenge_id: string
+          vocal_url: string
+          analyzer_version: string
+          sample_rate: number
+          hop_size: number
+          frame_size: number
+          duration: number
+          frames: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          challenge_id?: string
+          vocal_url?: string
+          analyzer_version?: string
+          sample_rate?: number
+          hop_size?: number
+          frame_size?: number
+          duration?: number
+          frames?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      challenge_result_scores: {
+        Row: {
+          challenge_result_id: string
+          challenge_id: string
+          scorer_version: string
+          accuracy: number
+          pitch_accuracy: number
+          coverage: number
+          timing_offset_ms: number
+          octave_shift: number
+          phrases: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          challenge_result_id: string
+          challenge_id: string
+          scorer_version: string
+          accuracy: number
+          pitch_accuracy: number
+          coverage: number
+          timing_offset_ms: number
+          octave_shift?: number
+          phrases: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          challenge_result_id?: string
+          challenge_id?: string
+          scorer_version?: string
+          accuracy?: number
+          pitch_accuracy?: number
+          coverage?: number
+          timing_offset_ms?: number
+          octave_shift?: number
+          phrases?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "challenge_result_scores_challenge_result_id_fkey"
+            columns: ["challenge_result_id"]
+            isOneToOne: true
+            referencedRelation: "challenge_results"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      community_ratings: {
+        Row: {
+          id: string
+          performance_id: string
+          user_id: string
+          rating: number
+          raw_rating: number
+          raw_scale: string
+          weight: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          performance_id: string
+          user_id: string
+          rating: number
+          raw_rating: number
+          raw_scale: string
+          weight?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          performance_id?: string
+          user_id?: string
+          rating?: number
+          raw_rating?: number
+          raw_scale?: string
+          weight?: number
           created_at?: string
           updated_at?: string
         }
@@ -588,54 +925,1044 @@ export type Database = {
         }
         Relationships: []
       }
-    }
-    Views: {
-      challenge_leaderboard: {
+      performance_event_actors: {
         Row: {
-          id: string
-          challenge_id: string
-          challenge_title: string
-          audio_url: string
-          self_rating: number
-          community_rating: number | null
-          gap: number | null
-          likes_count: number
-          viral_score: number
-          user_fid: number | null
+          performance_id: string
+          event_type: string
+          actor: string
+          window_start: string
+        }
+        Insert: {
+          performance_id: string
+          event_type: string
+          actor: string
+          window_start: string
+        }
+        Update: {
+          performance_id?: string
+          event_type?: string
+          actor?: string
+          window_start?: string
+        }
+        Relationships: []
+      }
+      performance_event_buckets: {
+        Row: {
+          performance_id: string
+          event_type: string
+          bucket_start: string
+          count: number
+        }
+        Insert: {
+          performance_id: string
+          event_type: string
+          bucket_start: string
+          count?: number
+        }
+        Update: {
+          performance_id?: string
+          event_type?: string
+          bucket_start?: string
+          count?: number
+        }
+        Relationships: []
+      }
+      moderation_results: {
+        Row: {
+          content_id: string
+          content_type: string
+          status: string
+          owner_id: string | null
+          reason: string | null
+          confidence: number | null
+          review_required: boolean
+          moderator_id: string | null
+          action_taken: string | null
+          metadata: Json
           created_at: string
-          rank: number
-          percentile: number
+          updated_at: string
+        }
+        Insert: {
+          content_id: string
+          content_type: string
+          status: string
+          owner_id?: string | null
+          reason?: string | null
+          confidence?: number | null
+          review_required?: boolean
+          moderator_id?: string | null
+          action_taken?: string | null
+          metadata?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          content_id?: string
+          content_type?: string
+          status?: string
+          owner_id?: string | null
+          reason?: string | null
+          confidence?: number | null
+          review_required?: boolean
+          moderator_id?: string | null
+          action_taken?: string | null
+          metadata?: Json
+          created_at?: string
+          updated_at?: string
         }
         Relationships: []
       }
-      discovery_feed: {
+      moderation_reports: {
         Row: {
           id: string
-          challenge_id: string
-          challenge_title: string
-          audio_url: string
-          self_rating: number
-          community_rating: number | null
-          gap: number | null
-          likes_count: number
-          comments_count: number
-          shares_count: number
-          viral_score: number
-          user_fid: number | null
-          cast_hash: string | null
-          coin_address: string | null
+          content_id: string
+          content_type: string
+          reporter_id: string
+          reporter_reputation_level: string
+          reason: string
+          details: string | null
+          status: string
+          reviewer_id: string | null
+          reviewed_at: string | null
+          action_taken: string | null
           created_at: string
-          trending_score: number
+        }
+        Insert: {
+          id: string
+          content_id: string
+          content_type: string
+          reporter_id: string
+          reporter_reputation_level: string
+          reason: string
+          details?: string | null
+          status?: string
+          reviewer_id?: string | null
+          reviewed_at?: string | null
+          action_taken?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          content_id?: string
+          content_type?: string
+          reporter_id?: string
+          reporter_reputation_level?: string
+          reason?: string
+          details?: string | null
+          status?: string
+          reviewer_id?: string | null
+          reviewed_at?: string | null
+          action_taken?: string | null
+          created_at?: string
         }
         Relationships: []
       }
-    }
-    Functions: {
-      increment_challenge_participants: {
-        Args: {
-          challenge_id: string
+      user_reputations: {
+        Row: {
+          user_id: string
+          reputation_level: string
+          reputation_score: number
+          content_submitted: number
+          content_approved: number
+          content_rejected: number
+          reports_submitted: number
+          reports_validated: number
+          verification: Json | null
+          strike_count: number
+          strike_history: Json
+          updated_at: string
         }
-        Returns: undefined
+        Insert: {
+          user_id: string
+          reputation_level?: string
+          reputation_score?: number
+          content_submitted?: number
+          content_approved?: number
+          content_rejected?: number
+          reports_submitted?: number
+          reports_validated?: number
+          verification?: Json | null
+          strike_count?: number
+          strike_history?: Json
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          reputation_level?: string
+          reputation_score?: number
+          content_submitted?: number
+          content_approved?: number
+          content_rejected?: number
+          reports_submitted?: number
+          reports_validated?: number
+          verification?: Json | null
+          strike_count?: number
+          strike_history?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      moderation_reviewers: {
+        Row: {
+          user_id: string
+          registered_at: string
+        }
+        Insert: {
+          user_id: string
+          registered_at?: string
+        }
+        Update: {
+          user_id?: string
+          registered_at?: string
+        }
+        Relationships: []
+      }
+      moderation_review_assignments: {
+        Row: {
+          content_id: string
+          reviewer_id: string
+          assigned_at: string
+        }
+        Insert: {
+          content_id: string
+          reviewer_id: string
+          assigned_at?: string
+        }
+        Update: {
+          content_id?: string
+          reviewer_id?: string
+          assigned_at?: string
+        }
+        Relationships: []
+      }
+      moderation_appeals: {
+        Row: {
+          id: string
+          user_id: string
+          content_id: string
+          reason: string
+          evidence: string | null
+          status: string
+          reviewer_id: string | null
+          resolved_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id: string
+          user_id: string
+          content_id: string
+          reason: string
+          evidence?: string | null
+          status?: string
+          reviewer_id?: string | null
+          resolved_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          content_id?: string
+          reason?: string
+          evidence?: string | null
+          status?: string
+          reviewer_id?: string | null
+          resolved_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      moderation_sanctions: {
+        Row: {
+          subject: string
+          sanction_type: string
+          reason: string | null
+          expires_at: string | null
+          created_at: string
+        }
+        Insert: {
+          subject: string
+          sanction_type: string
+          reason?: string | null
+          expires_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          subject?: string
+          sanction_type?: string
+          reason?: string | null
+          expires_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      audio_fingerprints: {
+        Row: {
+          cid: string
+          content_hash: string
+          fingerprint_version: string | null
+          hop_size: number | null
+          duration: number | null
+          hashes: Json | null
+          challenge_id: string | null
+          uploader: string | null
+          duplicate_of: string | null
+          match_type: string | null
+          similarity: number | null
+          created_at: string
+        }
+        Insert: {
+          cid: string
+          content_hash: string
+          fingerprint_version?: string | null
+          hop_size?: number | null
+          duration?: number | null
+          hashes?: Json | null
+          challenge_id?: string | null
+          uploader?: string | null
+          duplicate_of?: string | null
+          match_type?: string | null
+          similarity?: number | null
+          created_at?: string
+        }
+        Update: {
+          cid?: string
+          content_hash?: string
+          fingerprint_version?: string | null
+          hop_size?: number | null
+          duration?: number | null
+          hashes?: Json | null
+          challenge_id?: string | null
+          uploader?: string | null
+          duplicate_of?: string | null
+          match_type?: string | null
+          similarity?: number | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      audio_fingerprint_landmarks: {
+        Row: {
+          hash: number
+          cid: string
+          frame: number
+        }
+        Insert: {
+          hash: number
+          cid: string
+          frame: number
+        }
+        Update: {
+          hash?: number
+          cid?: string
+          frame?: number
+        }
+        Relationships: []
+      }
+      feed_snapshots: {
+        Row: {
+          id: string
+          feed_type: string
+          user_id: string | null
+          items: Json
+          created_at: string
+          expires_at: string
+        }
+        Insert: {
+          id?: string
+          feed_type: string
+          user_id?: string | null
+          items: Json
+          created_at?: string
+          expires_at: string
+        }
+        Update: {
+          id?: string
+          feed_type?: string
+          user_id?: string | null
+          items?: Json
+          created_at?: string
+          expires_at?: string
+        }
+        Relationships: []
+      }
+      seed_blend_policies: {
+        Row: {
+          scope: string
+          enabled: boolean | null
+          initial_ratio: number | null
+          half_life: number | null
+          floor_ratio: number | null
+          retire_after: number | null
+          updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          scope: string
+          enabled?: boolean | null
+          initial_ratio?: number | null
+          half_life?: number | null
+          floor_ratio?: number | null
+          retire_after?: number | null
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          scope?: string
+          enabled?: boolean | null
+          initial_ratio?: number | null
+          half_life?: number | null
+          floor_ratio?: number | null
+          retire_after?: number | null
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      challenges: {
+        Row: {
+          id: string
+          title: string
+          artist: string
+          description: string | null
+          difficulty: string
+          duration: number | null
+          bpm: number | null
+          musical_key: string | null
+          tags: string[]
+          type: string
+          preview_url: string
+          instrumental_url: string | null
+          vocal_url: string | null
+          available_from: string | null
+          available_until: string | null
+          source: string
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          archived_at: string | null
+        }
+        Insert: {
+          id: string
+          title: string
+          artist?: string
+          description?: string | null
+          difficulty?: string
+          duration?: number | null
+          bpm?: number | null
+          musical_key?: string | null
+          tags?: string[]
+          type?: string
+          preview_url: string
+          instrumental_url?: string | null
+          vocal_url?: string | null
+          available_from?: string | null
+          available_until?: string | null
+          source?: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          archived_at?: string | null
+        }
+        Update: {
+          id?: string
+          title?: string
+          artist?: string
+          description?: string | null
+          difficulty?: string
+          duration?: number | null
+          bpm?: number | null
+          musical_key?: string | null
+          tags?: string[]
+          type?: string
+          preview_url?: string
+          instrumental_url?: string | null
+          vocal_url?: string | null
+          available_from?: string | null
+          available_until?: string | null
+          source?: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          archived_at?: string | null
+        }
+        Relationships: []
+      }
+      suno_generation_jobs: {
+        Row: {
+          id: string
+          status: string
+          prompt: string
+          title: string | null
+          model: string
+          difficulty: string
+          requested_by: string | null
+          generate_task_id: string | null
+          separation_task_id: string | null
+          track: Json | null
+          stems: Json | null
+          pinned: Json | null
+          challenge_id: string | null
+          challenge: Json | null
+          failed_stage: string | null
+          error: string | null
+          attempts: number
+          created_at: string
+          updated_at: string
+          published_at: string | null
+        }
+        Insert: {
+          id?: string
+          status?: string
+          prompt: string
+          title?: string | null
+          model?: string
+          difficulty?: string
+          requested_by?: string | null
+          generate_task_id?: string | null
+          separation_task_id?: string | null
+          track?: Json | null
+          stems?: Json | null
+          pinned?: Json | null
+          challenge_id?: string | null
+          challenge?: Json | null
+          failed_stage?: string | null
+          error?: string | null
+          attempts?: number
+          created_at?: string
+          updated_at?: string
+          published_at?: string | null
+        }
+        Update: {
+          id?: string
+          status?: string
+          prompt?: string
+          title?: string | null
+          model?: string
+          difficulty?: string
+          requested_by?: string | null
+          generate_task_id?: string | null
+          separation_task_id?: string | null
+          track?: Json | null
+          stems?: Json | null
+          pinned?: Json | null
+          challenge_id?: string | null
+          challenge?: Json | null
+          failed_stage?: string | null
+          error?: string | null
+          attempts?: number
+          created_at?: string
+          updated_at?: string
+          published_at?: string | null
+        }
+        Relationships: []
+      }
+      suno_generation_callbacks: {
+        Row: {
+          id: string
+          job_id: string
+          task_id: string | null
+          callback_type: string
+          code: number | null
+          payload: Json
+          received_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          task_id?: string | null
+          callback_type: string
+          code?: number | null
+          payload: Json
+          received_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          task_id?: string | null
+          callback_type?: string
+          code?: number | null
+          payload?: Json
+          received_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "suno_generation_callbacks_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "suno_generation_jobs"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      audio_rooms: {
+        Row: {
+          id: string
+          name: string
+          description: string
+          host_fid: number
+          host_name: string
+          max_participants: number
+          is_live: boolean
+          current_track: Json | null
+          settings: Json
+          created_at: string
+          updated_at: string
+          ended_at: string | null
+          locked: boolean
+        }
+        Insert: {
+          id: string
+          name: string
+          description?: string
+          host_fid: number
+          host_name: string
+          max_participants?: number
+          is_live?: boolean
+          current_track?: Json | null
+          settings: Json
+          created_at?: string
+          updated_at?: string
+          ended_at?: string | null
+          locked?: boolean
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string
+          host_fid?: number
+          host_name?: string
+          max_participants?: number
+          is_live?: boolean
+          current_track?: Json | null
+          settings?: Json
+          created_at?: string
+          updated_at?: string
+          ended_at?: string | null
+          locked?: boolean
+        }
+        Relationships: []
+      }
+      audio_room_participants: {
+        Row: {
+          room_id: string
+          fid: number
+          username: string
+          display_name: string
+          pfp_url: string
+          role: string
+          status: string
+          is_muted: boolean
+          is_listening: boolean
+          requested_at: string
+          joined_at: string | null
+          last_active: string
+          left_at: string | null
+          muted_by: number | null
+        }
+        Insert: {
+          room_id: string
+          fid: number
+          username: string
+          display_name: string
+          pfp_url?: string
+          role?: string
+          status?: string
+          is_muted?: boolean
+          is_listening?: boolean
+          requested_at?: string
+          joined_at?: string | null
+          last_active?: string
+          left_at?: string | null
+          muted_by?: number | null
+        }
+        Update: {
+          room_id?: string
+          fid?: number
+          username?: string
+          display_name?: string
+          pfp_url?: string
+          role?: string
+          status?: string
+          is_muted?: boolean
+          is_listening?: boolean
+          requested_at?: string
+          joined_at?: string | null
+          last_active?: string
+          left_at?: string | null
+          muted_by?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audio_room_participants_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "audio_rooms"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      audio_room_signals: {
+        Row: {
+          id: number
+          room_id: string
+          type: string
+          from_fid: number | null
+          to_fid: number | null
+          payload: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          room_id: string
+          type: string
+          from_fid?: number | null
+          to_fid?: number | null
+          payload?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          room_id?: string
+          type?: string
+          from_fid?: number | null
+          to_fid?: number | null
+          payload?: Json | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audio_room_signals_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "audio_rooms"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      audio_room_moderation_log: {
+        Row: {
+          id: string
+          room_id: string
+          action: string
+          actor_fid: number
+          target_fid: number | null
+          reason: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          room_id: string
+          action: string
+          actor_fid: number
+          target_fid?: number | null
+          reason?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          room_id?: string
+          action?: string
+          actor_fid?: number
+          target_fid?: number | null
+          reason?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audio_room_moderation_log_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "audio_rooms"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      siwe_nonces: {
+        Row: {
+          nonce: string
+          expires_at: string
+          used_at: string | null
+          created_at: string
+        }
+        Insert: {
+          nonce: string
+          expires_at: string
+          used_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          nonce?: string
+          expires_at?: string
+          used_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      auth_sessions: {
+        Row: {
+          id: string
+          address: string
+          chain_id: number
+          user_id: string | null
+          user_agent: string | null
+          expires_at: string
+          revoked_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id: string
+          address: string
+          chain_id: number
+          user_id?: string | null
+          user_agent?: string | null
+          expires_at: string
+          revoked_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          address?: string
+          chain_id?: number
+          user_id?: string | null
+          user_agent?: string | null
+          expires_at?: string
+          revoked_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      profile_cache: {
+        Row: {
+          key: string
+          fid: number | null
+          username: string | null
+          display_name: string | null
+          pfp_url: string | null
+          source: string
+          fetched_at: string
+          expires_at: string
+        }
+        Insert: {
+          key: string
+          fid?: number | null
+          username?: string | null
+          display_name?: string | null
+          pfp_url?: string | null
+          source: string
+          fetched_at?: string
+          expires_at: string
+        }
+        Update: {
+          key?: string
+          fid?: number | null
+          username?: string | null
+          display_name?: string | null
+          pfp_url?: string | null
+          source?: string
+          fetched_at?: string
+          expires_at?: string
+        }
+        Relationships: []
+      }
+      user_identities: {
+        Row: {
+          kind: string
+          identifier: string
+          user_id: string
+          verified_via: string
+          created_at: string
+        }
+        Insert: {
+          kind: string
+          identifier: string
+          user_id: string
+          verified_via: string
+          created_at?: string
+        }
+        Update: {
+          kind?: string
+          identifier?: string
+          user_id?: string
+          verified_via?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_identities_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+    }
+    Views: {
+      challenge_leaderboard: {
+        Row: {
+          id: string
+          challenge_id: string
+          challenge_title: string
+          audio_url: string
+          self_rating: number
+          community_rating: number | null
+          gap: number | null
+          likes_count: number
+          viral_score: number
+          user_fid: number | null
+          created_at: string
+          accuracy: number | null
+          verification_status: string
+          rank: number
+          percentile: number
+        }
+        Relationships: []
+      }
+      discovery_feed: {
+        Row: {
+          id: string
+          challenge_id: string
+          challenge_title: string
+          audio_url: string
+          self_rating: number
+          community_rating: number | null
+          gap: number | null
+          likes_count: number
+          comments_count: number
+          shares_count: number
+          viral_score: number
+          user_fid: number | null
+          cast_hash: string | null
+          coin_address: string | null
+          created_at: string
+          trending_score: number
+          community_rating_count: number
+          shares_1h: number
+          shares_24h: number
+          engagement_24h: number
+          user_id: string | null
+        }
+        Relationships: []
+      }
+      performance_event_windows: {
+        Row: {
+          performance_id: string
+          shares_1h: number
+          shares_24h: number
+          shares_7d: number
+          likes_1h: number
+          likes_24h: number
+          likes_7d: number
+          rates_1h: number
+          rates_24h: number
+          rates_7d: number
+          comments_1h: number
+          comments_24h: number
+          comments_7d: number
+        }
+        Relationships: []
+      }
+      moderation_result_counts: {
+        Row: {
+          status: string
+          count: number
+        }
+        Relationships: []
+      }
+      moderation_report_counts: {
+        Row: {
+          status: string
+          count: number
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      increment_challenge_participants: {
+        Args: {
+          challenge_id: string
+        }
+        Returns: undefined
+      }
+      record_performance_event: {
+        Args: {
+          performance_id: string
+          event_type: string
+          occurred_at?: string
+          amount?: number
+          actor?: string | null
+        }
+        Returns: boolean
+      }
+      prune_performance_event_buckets: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      set_viral_rule_allocations: {
+        Args: {
+          allocations: Json
+          actor: string
+          reason?: string | null
+        }
+        Returns: {
+          id: string
+          version: number
+          name: string | null
+          rules: Json
+          notes: string | null
+          status: string
+          traffic_percent: number
+          created_by: string
+          created_at: string
+          activated_at: string | null
+          retired_at: string | null
+        }[]
+      }
+      admit_audio_room_participant: {
+        Args: {
+          p_room_id: string
+          p_participant: Json
+        }
+        Returns: {
+          room_id: string
+          fid: number
+          username: string
+          display_name: string
+          pfp_url: string
+          role: string
+          status: string
+          is_muted: boolean
+          is_listening: boolean
+          requested_at: string
+          joined_at: string | null
+          last_active: string
+          left_at: string | null
+          muted_by: number | null
+        }[]
+      }
+      ensure_wallet_account: {
+        Args: {
+          p_address: string
+        }
+        Returns: {
+          id: string
+          wallet_address: string
+          farcaster_fid: number | null
+          display_name: string | null
+          pfp_url: string | null
+          bio: string | null
+          created_at: string
+          updated_at: string
+        }[]
+      }
+      link_user_identity: {
+        Args: {
+          p_user_id: string
+          p_kind: string
+          p_identifier: string
+          p_verified_via: string
+        }
+        Returns: Json
       }
     }
     Enums: {
@@ -0,0 +1,120 @@
+/**
+ * Event Counters
+ * Server-side rolling-window engagement counts (shares, likes, ratings,
+ * comments) backed by 5-minute buckets in performance_event_buckets.
+ */
+
+import { createHash } from 'crypto';
+import { databaseService, PerformanceEventWindows } from '@/lib/database/DatabaseService';
+
+export type CounterEventType = 'share' | 'like' | 'rate' | 'comment';
+export type CounterWindow = '1h' | '24h' | '7d';
+export type WindowedCounts = Record<CounterEventType, Record<CounterWindow, number>>;
+
+export const COUNTER_EVENT_TYPES: CounterEventType[] = ['share', 'like', 'rate', 'comment'];
+export const COUNTER_WINDOWS: CounterWindow[] = ['1h', '24h', '7d'];
+
+// Set by Netlify's edge; a client-sent value is overwritten
+const CLIENT_IP_HEADER = 'x-nf-client-connection-ip';
+
+/**
+ * Counts for a performance with no events in the last 7 days
+ */
+export function emptyWindowedCounts(): WindowedCounts {
+  return {
+    share: { '1h': 0, '24h': 0, '7d': 0 },
+    like: { '1h': 0, '24h': 0, '7d': 0 },
+    rate: { '1h': 0, '24h': 0, '7d': 0 },
+    comment: { '1h': 0, '24h': 0, '7d': 0 }
+  };
+}
+
+export function toWindowedCounts(row: PerformanceEventWindows | null | undefined): WindowedCounts {
+  if (!row) return emptyWindowedCounts();
+  return {
+    share: { '1h': row.shares_1h, '24h': row.shares_24h, '7d': row.shares_7d },
+    like: { '1h': row.likes_1h, '24h': row.likes_24h, '7d': row.likes_7d },
+    rate: { '1h': row.rates_1h, '24h': row.rates_24h, '7d': row.rates_7d },
+    comment: { '1h': row.comments_1h, '24h': row.comments_24h, '7d': row.comments_7d }
+  };
+}
+
+/**
+ * All interactions in a window
+ */
+export function totalInteractions(counts: WindowedCounts, window: CounterWindow): number {
+  return COUNTER_EVENT_TYPES.reduce((sum, type) => sum + counts[type][window], 0);
+}
+
+/**
+ * Who an event is counted for: the signed-in user, else the client's IP
+ * (hashed - raw addresses are never stored). The IP is the one Netlify's
+ * edge connected from; X-Forwarded-For is written by the client and not used.
+ * @returns null if neither is known
+ */
+export function counterActor(userId: string | null, request?: Request): string | null {
+  if (userId) return `user:${userId}`;
+  if (!request) return null;
+
+  const ip = request.headers.get(CLIENT_IP_HEADER)?.trim();
+  return ip ? `ip:${createHash('sha256').update(ip).digest('hex')}` : null;
+}
+
+export class EventCounterService {
+  private static instance: EventCounterService;
+
+  static getInstance(): EventCounterService {
+    if (!EventCounterService.instance) {
+      EventCounterService.instance = new EventCounterService();
+    }
+    return EventCounterService.instance;
+  }
+
+  /**
+   * Count an event, at most once per actor per hour. Failures are logged,
+   * never thrown - a missed count must not fail the share/like/rate that caused it.
+   * @param actor See counterActor; null counts every event
+   * @returns false if the actor was already counted this hour
+   */
+  async record(
+    performanceId: string,
+    eventType: CounterEventType,
+    actor: string | null = null,
+    amount: number = 1
+  ): Promise<boolean> {
+    try {
+      return await databaseService.recordPerformanceEvent(performanceId, eventType, amount, actor);
+    } catch (error) {
+      console.warn(`⚠️ Failed to count ${eventType} for ${performanceId}:`, error);
+      return true;
+    }
+  }
+
+  /**
+   * @throws Error if the counters cannot be read
+   */
+  async getWindowedCounts(performanceId: string): Promise<WindowedCounts> {
+    const [row] = await databaseService.getPerformanceEventWindows([performanceId]);
+    return toWindowedCounts(row);
+  }
+
+  /**
+   * Counts for many performances; ids with no recent events get zeros
+   * @throws Error if the counters cannot be read
+   */
+  async getWindowedCountsBatch(performanceIds: string[]): Promise<Map<string, WindowedCounts>> {
+    const rows = await databaseService.getPerformanceEventWindows(performanceIds);
+    const byId = new Map(rows.map(row => [row.performance_id, toWindowedCounts(row)]));
+    return new Map(performanceIds.map(id => [id, byId.get(id) || emptyWindowedCounts()]));
+  }
+
+  /**
+   * Drop buckets older than the longest window
+   * @returns Number of buckets removed
+   */
+  async prune(): Promise<number> {
+    return databaseService.prunePerformanceEventBuckets();
+  }
+}
+
+export const eventCounterService = EventCounterService.getInstance();
@@ -3,7 +3,7 @@
  * Dynamically adjusts backing tracks based on user performance in real-time
  */
 
-import { PitchData } from './LiveAudioAnalysisService';
+import { PitchData } from '@/types';
 
 export interface BackingTrackConfig {
   originalTempo: number;
@@ -0,0 +1,236 @@
+/**
+ * Audio Decoder
+ * Decodes audio to mono PCM without Web Audio, so API routes can analyze
+ * what browsers record (WebM or Ogg Opus) and the catalog's MP3 stems.
+ * Containers are demuxed here; Opus and MP3 frames go to WebAssembly
+ * builds of libopus and mpg123, loaded on first use.
+ */
+
+import { PcmBuffer, decodeWav } from './PcmDecoder';
+import { detectAudioFormat, readVint } from './AudioProbe';
+
+interface DecodedChannels {
+  channelData: Float32Array[];
+  samplesDecoded: number;
+  sampleRate: number;
+}
+
+interface OpusStream {
+  channels: number;
+  preSkip: number;
+  frames: Uint8Array[];
+}
+
+// EBML element IDs (WebM/Matroska)
+const EBML_SEGMENT = 0x18538067;
+const EBML_TRACKS = 0x1654ae6b;
+const EBML_TRACK_ENTRY = 0xae;
+const EBML_TRACK_NUMBER = 0xd7;
+const EBML_CODEC_ID = 0x86;
+const EBML_CODEC_PRIVATE = 0x63a2;
+const EBML_CLUSTER = 0x1f43b675;
+const EBML_BLOCK_GROUP = 0xa0;
+const EBML_SIMPLE_BLOCK = 0xa3;
+const EBML_BLOCK = 0xa1;
+const EBML_MASTER_IDS = new Set([EBML_SEGMENT, EBML_TRACKS, EBML_TRACK_ENTRY, EBML_CLUSTER, EBML_BLOCK_GROUP]);
+
+/**
+ * Decode WAV, WebM/Opus, Ogg/Opus or MP3 to mono PCM
+ * @throws Error if the format is unsupported or the audio cannot be decoded
+ */
+export async function decodeAudio(data: ArrayBuffer): Promise<PcmBuffer> {
+  const format = detectAudioFormat(data);
+
+  switch (format) {
+    case 'wav':
+      return decodeWav(data);
+    case 'webm':
+      return toPcm(await decodeOpus(demuxWebmOpus(new DataView(data))));
+    case 'ogg':
+      return toPcm(await decodeOpus(demuxOggOpus(new Uint8Array(data))));
+    case 'mp3':
+      return toPcm(await decodeMp3(new Uint8Array(data)));
+    default:
+      throw new Error(`Cannot decode ${format || 'unknown'} audio on the server`);
+  }
+}
+
+async function decodeOpus(stream: OpusStream): Promise<DecodedChannels> {
+  if (stream.channels < 1 || stream.channels > 2) {
+    throw new Error(`Unsupported Opus channel count: ${stream.channels}`);
+  }
+  if (stream.frames.length === 0) {
+    throw new Error('Opus stream has no audio frames');
+  }
+
+  const { OpusDecoder } = await import('opus-decoder');
+  const decoder = new OpusDecoder({ channels: stream.channels, preSkip: stream.preSkip });
+  await decoder.ready;
+  try {
+    return decoder.decodeFrames(stream.frames);
+  } finally {
+    decoder.free();
+  }
+}
+
+async function decodeMp3(bytes: Uint8Array): Promise<DecodedChannels> {
+  const { MPEGDecoder } = await import('mpg123-decoder');
+  const decoder = new MPEGDecoder();
+  await decoder.ready;
+  try {
+    return decoder.decode(bytes);
+  } finally {
+    decoder.free();
+  }
+}
+
+function toPcm(decoded: DecodedChannels): PcmBuffer {
+  const { channelData, samplesDecoded, sampleRate } = decoded;
+  if (samplesDecoded === 0 || channelData.length === 0) {
+    throw new Error('No audio could be decoded');
+  }
+
+  const samples = new Float32Array(samplesDecoded);
+  for (const channel of channelData) {
+    for (let i = 0; i < samplesDecoded; i++) {
+      samples[i] += channel[i] / channelData.length;
+    }
+  }
+
+  return { samples, sampleRate, duration: samplesDecoded / sampleRate };
+}
+
+/**
+ * Opus frames of the first Opus track. Master elements are walked flat, as
+ * MediaRecorder writes unknown-size Segment and Cluster elements.
+ */
+function demuxWebmOpus(view: DataView): OpusStream {
+  const tracks: { number: number; codec: string; header: Uint8Array | null }[] = [];
+  let opusTrack: { number: number; header: Uint8Array | null } | undefined;
+  const frames: Uint8Array[] = [];
+  let offset = 0;
+
+  while (offset < view.byteLength) {
+    const id = readVint(view, offset, false);
+    if (!id) break;
+    const size = readVint(view, offset + id.length, true);
+    if (!size) break;
+
+    const dataStart = offset + id.length + size.length;
+    const track = tracks[tracks.length - 1];
+
+    if (EBML_MASTER_IDS.has(id.value)) {
+      if (id.value === EBML_TRACK_ENTRY) {
+        tracks.push({ number: 0, codec: '', header: null });
+      }
+      offset = dataStart;
+      continue;
+    }
+
+    // A recording cut off mid-block still decodes up to the cut
+    if (size.value < 0 || dataStart + size.value > view.byteLength) break;
+
+    switch (id.value) {
+      case EBML_TRACK_NUMBER:
+        if (track) track.number = readUint(view, dataStart, size.value);
+        break;
+      case EBML_CODEC_ID:
+        if (track) track.codec = readAscii(view, dataStart, size.value);
+        break;
+      case EBML_CODEC_PRIVATE:
+        if (track) track.header = new Uint8Array(view.buffer, view.byteOffset + dataStart, size.value);
+        break;
+      case EBML_SIMPLE_BLOCK:
+      case EBML_BLOCK: {
+        opusTrack ??= tracks.find(entry => entry.codec === 'A_OPUS');
+        const blockTrack = readVint(view, dataStart, true);
+        if (!opusTrack || blockTrack?.value !== opusTrack.number) break;
+
+        const headerLength = blockTrack.length + 3; // Track, timecode (int16), flags
+        if (view.getUint8(dataStart + blockTrack.length + 2) & 0x06) {
+          throw new Error('Laced WebM blocks are not supported');
+        }
+        frames.push(new Uint8Array(view.buffer, view.byteOffset + dataStart + headerLength, size.value - headerLength));
+        break;
+      }
+    }
+
+    offset = dataStart + size.value;
+  }
+
+  if (!opusTrack?.header) {
+    throw new Error('WebM file has no Opus track');
+  }
+  return { ...parseOpusHead(opusTrack.header), frames };
+}
+
+/**
+ * Opus packets of an Ogg stream; the first two are the OpusHead and OpusTags headers
+ */
+function demuxOggOpus(bytes: Uint8Array): OpusStream {
+  const packets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let offset = 0;
+
+  while (offset + 27 <= bytes.length && readAsciiBytes(bytes, offset, 4) === 'OggS') {
+    const segmentCount = bytes[offset + 26];
+    const lacing = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    let position = offset + 27 + segmentCount;
+
+    for (const length of lacing) {
+      if (position + length > bytes.length) break;
+      pending.push(bytes.subarray(position, position + length));
+      position += length;
+      // A segment shorter than 255 bytes ends its packet
+      if (length < 255) {
+        packets.push(concat(pending));
+        pending = [];
+      }
+    }
+    offset = position;
+  }
+
+  const [head, , ...frames] = packets;
+  if (!head || readAsciiBytes(head, 0, 8) !== 'OpusHead') {
+    throw new Error('Ogg file is not Opus');
+  }
+  return { ...parseOpusHead(head), frames };
+}
+
+function parseOpusHead(head: Uint8Array): { channels: number; preSkip: number } {
+  if (head.length < 19 || readAsciiBytes(head, 0, 8) !== 'OpusHead') {
+    throw new Error('Invalid Opus header');
+  }
+  return { channels: head[9], preSkip: head[10] | (head[11] << 8) };
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  if (parts.length === 1) return parts[0];
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function readUint(view: DataView, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + view.getUint8(offset + i);
+  }
+  return value;
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  return readAsciiBytes(new Uint8Array(view.buffer, view.byteOffset + offset, length), 0, length);
+}
+
+function readAsciiBytes(bytes: Uint8Array, offset: number, length: number): string {
+  let result = '';
+  for (let i = 0; i < length && offset + i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[offset + i]);
+  }
+  return result;
+}
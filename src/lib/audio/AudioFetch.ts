@@ -0,0 +1,129 @@
+/**
+ * Audio Fetch
+ * Size- and time-limited downloads of user-supplied audio URLs, restricted to
+ * public http(s) hosts so submissions cannot probe the internal network.
+ * On the server every hop, redirects included, is resolved and checked
+ * before it is requested.
+ */
+
+import { promises as dns } from 'dns';
+
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 5;
+
+/**
+ * Thrown when a URL, or a redirect it leads to, points at a non-public address
+ */
+export class UnsafeAudioUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeAudioUrlError';
+  }
+}
+
+/**
+ * Only public http(s) hosts - never let submissions probe the internal network.
+ * Checks the URL as written; fetchAudioBytes also checks where it resolves.
+ */
+export function isFetchableAudioUrl(audioUrl: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(audioUrl);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+
+  const host = url.hostname.toLowerCase();
+  if (host === 'localhost' || host.endsWith('.local') || host.endsWith('.internal')) return false;
+  if (host.startsWith('[')) return false; // IPv6 literals
+
+  return !isPrivateAddress(host);
+}
+
+/**
+ * Download the audio, or null when it exceeds the size limit
+ * @throws UnsafeAudioUrlError if the URL or a redirect leads to a non-public address
+ * @throws Error if the request fails or times out
+ */
+export async function fetchAudioBytes(audioUrl: string, maxBytes: number = MAX_AUDIO_BYTES): Promise<ArrayBuffer | null> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  // Browsers can't reach our network and hide redirects from scripts
+  const isServer = typeof window === 'undefined';
+
+  try {
+    let url = audioUrl;
+    let response: Response;
+
+    for (let redirects = 0; ; redirects++) {
+      if (isServer) await assertPublicUrl(url);
+
+      response = await fetch(url, { signal: controller.signal, redirect: isServer ? 'manual' : 'follow' });
+
+      const location = response.headers.get('location');
+      if (!isServer || response.status < 300 || response.status >= 400 || !location) break;
+
+      if (redirects === MAX_REDIRECTS) {
+        throw new Error('Too many redirects');
+      }
+      url = new URL(location, url).toString();
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const contentLength = Number(response.headers.get('content-length') || 0);
+    if (contentLength > maxBytes) return null;
+
+    const data = await response.arrayBuffer();
+    return data.byteLength > maxBytes ? null : data;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+async function assertPublicUrl(url: string): Promise<void> {
+  if (!isFetchableAudioUrl(url)) {
+    throw new UnsafeAudioUrlError(`Not a public http(s) URL: ${url}`);
+  }
+
+  const { hostname } = new URL(url);
+  const addresses = await dns.lookup(hostname, { all: true, verbatim: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new UnsafeAudioUrlError(`${hostname} does not resolve to a public address`);
+  }
+}
+
+/**
+ * Loopback, private, link-local, shared and unspecified IPv4/IPv6 addresses.
+ * Anything that is not an IP address (a hostname) is not private.
+ */
+function isPrivateAddress(address: string): boolean {
+  const ipv6 = address.toLowerCase();
+  if (ipv6.includes(':')) {
+    // IPv4-mapped (::ffff:10.0.0.1) - judge the IPv4 address
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/.exec(ipv6);
+    if (mapped) return isPrivateAddress(mapped[1]);
+
+    return ipv6 === '::' || ipv6 === '::1' ||
+      /^f[cd]/.test(ipv6) ||            // fc00::/7 unique local
+      /^fe[89ab]/.test(ipv6);           // fe80::/10 link-local
+  }
+
+  const octets = address.split('.').map(Number);
+  if (octets.length !== 4 || !octets.every(octet => Number.isInteger(octet) && octet >= 0 && octet <= 255)) {
+    return false;
+  }
+
+  const [a, b] = octets;
+  if (a === 0 || a === 10 || a === 127) return true;
+  if (a === 100 && b >= 64 && b <= 127) return true; // carrier-grade NAT
+  if (a === 169 && b === 254) return true;
+  if (a === 172 && b >= 16 && b <= 31) return true;
+  if (a === 192 && b === 168) return true;
+  return a >= 224; // multicast and reserved
+}
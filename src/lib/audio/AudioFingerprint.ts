@@ -0,0 +1,279 @@
+/**
+ * Audio Fingerprint
+ * Compact spectral fingerprints for recognising the same recording played
+ * back (e.g. a challenge's original track) inside another one. Each 32-bit
+ * sub-fingerprint encodes the sign of band-energy differences across
+ * frequency and time, which survives re-encoding, volume changes and
+ * moderate background noise. Pure TypeScript, so it runs in API routes.
+ */
+
+import { PcmBuffer } from './PcmDecoder';
+
+export const AUDIO_FINGERPRINT_VERSION = '1';
+
+export interface AudioFingerprint {
+  version: string;
+  sampleRate: number; // Analysis sample rate (after decimation)
+  hopSize: number; // Seconds between sub-fingerprints
+  duration: number;
+  hashes: number[]; // Unsigned 32-bit sub-fingerprints, -1 for silent frames
+}
+
+export interface FingerprintMatch {
+  similarity: number; // 1 - bit error rate over the overlap; ~0.5 for unrelated audio
+  offset: number; // Seconds into the reference where the query starts (negative if it starts before)
+  overlap: number; // Seconds of non-silent audio compared
+}
+
+const TARGET_SAMPLE_RATE = 5512;
+const FRAME_SIZE = 2048; // ~0.37s at the analysis rate
+const HOP_SIZE = 256; // ~46ms
+const MIN_FREQUENCY = 300;
+const MAX_FREQUENCY = 2000;
+const BAND_COUNT = 33; // 33 bands -> 32 difference bits
+const SILENCE_RMS = 0.005;
+const COARSE_STRIDE = 4;
+
+/**
+ * Compute the fingerprint of a decoded recording
+ */
+export function computeFingerprint(pcm: PcmBuffer): AudioFingerprint {
+  const { samples, sampleRate } = decimate(pcm.samples, pcm.sampleRate);
+  const window = hannWindow(FRAME_SIZE);
+  const bandEdges = logBandEdges(sampleRate);
+  const real = new Float64Array(FRAME_SIZE);
+  const imag = new Float64Array(FRAME_SIZE);
+
+  const hashes: number[] = [];
+  let previous: Float64Array | null = null;
+
+  for (let start = 0; start + FRAME_SIZE <= samples.length; start += HOP_SIZE) {
+    let energy = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const sample = samples[start + i];
+      energy += sample * sample;
+      real[i] = sample * window[i];
+      imag[i] = 0;
+    }
+
+    fft(real, imag);
+    const bands = bandEnergies(real, imag, bandEdges);
+
+    if (Math.sqrt(energy / FRAME_SIZE) < SILENCE_RMS) {
+      hashes.push(-1);
+    } else if (previous) {
+      hashes.push(subFingerprint(bands, previous));
+    } else {
+      hashes.push(-1); // First frame has nothing to difference against
+    }
+    previous = bands;
+  }
+
+  return {
+    version: AUDIO_FINGERPRINT_VERSION,
+    sampleRate,
+    hopSize: HOP_SIZE / sampleRate,
+    duration: pcm.duration,
+    hashes
+  };
+}
+
+/**
+ * Find where `query` best lines up with `reference`.
+ * @returns The best alignment, or null when no alignment overlaps at least `minOverlap` seconds of sound
+ */
+export function compareFingerprints(
+  query: AudioFingerprint,
+  reference: AudioFingerprint,
+  minOverlap: number = 5
+): FingerprintMatch | null {
+  if (query.version !== reference.version || query.hopSize <= 0) return null;
+
+  const minFrames = Math.max(1, Math.ceil(minOverlap / query.hopSize));
+  const q = query.hashes;
+  const r = reference.hashes;
+
+  // Coarse pass: every alignment, sampling every few frames
+  let bestOffset = 0;
+  let bestErrorRate = Infinity;
+  for (let offset = -(q.length - 1); offset < r.length; offset++) {
+    const score = bitErrorRate(q, r, offset, COARSE_STRIDE);
+    if (score && score.frames * COARSE_STRIDE >= minFrames && score.errorRate < bestErrorRate) {
+      bestErrorRate = score.errorRate;
+      bestOffset = offset;
+    }
+  }
+  if (bestErrorRate === Infinity) return null;
+
+  // Fine pass around the best coarse alignment
+  let best: { offset: number; errorRate: number; frames: number } | null = null;
+  for (let offset = bestOffset - COARSE_STRIDE; offset <= bestOffset + COARSE_STRIDE; offset++) {
+    const score = bitErrorRate(q, r, offset, 1);
+    if (score && score.frames >= minFrames && (!best || score.errorRate < best.errorRate)) {
+      best = { offset, ...score };
+    }
+  }
+  if (!best) return null;
+
+  return {
+    similarity: round(1 - best.errorRate, 3),
+    offset: round(best.offset * reference.hopSize, 2),
+    overlap: round(best.frames * query.hopSize, 2)
+  };
+}
+
+/**
+ * Bit error rate between query frame i and reference frame i + offset, skipping silent frames
+ */
+function bitErrorRate(
+  query: number[],
+  reference: number[],
+  offset: number,
+  stride: number
+): { errorRate: number; frames: number } | null {
+  const start = Math.max(0, -offset);
+  const end = Math.min(query.length, reference.length - offset);
+
+  let errors = 0;
+  let frames = 0;
+  for (let i = start; i < end; i += stride) {
+    const a = query[i];
+    const b = reference[i + offset];
+    if (a < 0 || b < 0) continue;
+    errors += popcount((a ^ b) >>> 0);
+    frames++;
+  }
+
+  return frames > 0 ? { errorRate: errors / (frames * 32), frames } : null;
+}
+
+/**
+ * Bit m is set when the energy difference between bands m and m+1 grew since the previous frame
+ */
+function subFingerprint(bands: Float64Array, previous: Float64Array): number {
+  let hash = 0;
+  for (let m = 0; m < BAND_COUNT - 1; m++) {
+    const delta = (bands[m] - bands[m + 1]) - (previous[m] - previous[m + 1]);
+    if (delta > 0) {
+      hash |= 1 << m;
+    }
+  }
+  return hash >>> 0;
+}
+
+function bandEnergies(real: Float64Array, imag: Float64Array, edges: number[]): Float64Array {
+  const energies = new Float64Array(BAND_COUNT);
+  for (let band = 0; band < BAND_COUNT; band++) {
+    let sum = 0;
+    for (let bin = edges[band]; bin < edges[band + 1]; bin++) {
+      sum += real[bin] * real[bin] + imag[bin] * imag[bin];
+    }
+    energies[band] = sum;
+  }
+  return energies;
+}
+
+/**
+ * FFT bin boundaries of BAND_COUNT logarithmically spaced bands
+ */
+function logBandEdges(sampleRate: number): number[] {
+  const binWidth = sampleRate / FRAME_SIZE;
+  const maxFrequency = Math.min(MAX_FREQUENCY, sampleRate / 2);
+  const ratio = Math.pow(maxFrequency / MIN_FREQUENCY, 1 / BAND_COUNT);
+  const edges: number[] = [];
+
+  for (let band = 0; band <= BAND_COUNT; band++) {
+    const frequency = MIN_FREQUENCY * Math.pow(ratio, band);
+    const bin = Math.round(frequency / binWidth);
+    // Every band needs at least one bin
+    edges.push(band > 0 ? Math.max(bin, edges[band - 1] + 1) : bin);
+  }
+
+  return edges;
+}
+
+/**
+ * Integer-factor decimation with a moving-average low-pass
+ */
+function decimate(samples: Float32Array, sampleRate: number): { samples: Float32Array; sampleRate: number } {
+  const factor = Math.floor(sampleRate / TARGET_SAMPLE_RATE);
+  if (factor <= 1) {
+    return { samples, sampleRate };
+  }
+
+  const output = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < output.length; i++) {
+    let sum = 0;
+    const offset = i * factor;
+    for (let j = 0; j < factor; j++) {
+      sum += samples[offset + j];
+    }
+    output[i] = sum / factor;
+  }
+
+  return { samples: output, sampleRate: sampleRate / factor };
+}
+
+function hannWindow(length: number): Float64Array {
+  const window = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+  }
+  return window;
+}
+
+/**
+ * In-place iterative radix-2 FFT (length must be a power of two)
+ */
+function fft(real: Float64Array, imag: Float64Array): void {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    const half = size >> 1;
+
+    for (let start = 0; start < n; start += size) {
+      let twiddleReal = 1;
+      let twiddleImag = 0;
+      for (let k = 0; k < half; k++) {
+        const even = start + k;
+        const odd = even + half;
+        const oddReal = real[odd] * twiddleReal - imag[odd] * twiddleImag;
+        const oddImag = real[odd] * twiddleImag + imag[odd] * twiddleReal;
+        real[odd] = real[even] - oddReal;
+        imag[odd] = imag[even] - oddImag;
+        real[even] += oddReal;
+        imag[even] += oddImag;
+
+        const nextReal = twiddleReal * stepReal - twiddleImag * stepImag;
+        twiddleImag = twiddleReal * stepImag + twiddleImag * stepReal;
+        twiddleReal = nextReal;
+      }
+    }
+  }
+}
+
+function popcount(value: number): number {
+  value = value - ((value >>> 1) & 0x55555555);
+  value = (value & 0x33333333) + ((value >>> 2) & 0x33333333);
+  return (((value + (value >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,250 @@
+/**
+ * Audio Fingerprint Index
+ * Registers uploaded audio by CID and links re-uploads of an existing
+ * recording to the original: byte-identical files by content hash, re-encoded
+ * or trimmed copies by acoustic fingerprint. Candidates are found through the
+ * landmark (sub-fingerprint) index and confirmed with a full alignment.
+ */
+
+import { createHash } from 'crypto';
+import { databaseService, AudioFingerprintRow, ChallengeResultRow } from '@/lib/database/DatabaseService';
+import type { Json } from '@/integrations/supabase/types';
+import { decodeAudio } from './AudioDecoder';
+import {
+  AUDIO_FINGERPRINT_VERSION,
+  AudioFingerprint,
+  compareFingerprints,
+  computeFingerprint
+} from './AudioFingerprint';
+
+export type DuplicateMatchType = 'exact' | 'acoustic';
+
+export interface DuplicateMatch {
+  cid: string; // Earliest upload of the recording
+  matchType: DuplicateMatchType;
+  similarity: number; // 1 for exact matches
+}
+
+export interface FingerprintRegistration {
+  cid: string;
+  contentHash: string;
+  fingerprinted: boolean; // False when the format cannot be decoded server-side
+  duplicateOf: DuplicateMatch | null;
+}
+
+export interface DuplicateSubmission {
+  original: ChallengeResultRow;
+  matchType: DuplicateMatchType;
+  similarity: number;
+}
+
+// Sub-fingerprints looked up per query; evenly spaced over the recording
+const MAX_QUERY_LANDMARKS = 256;
+// Exact sub-fingerprint hits before a recording is worth aligning
+const MIN_LANDMARK_HITS = 3;
+const MAX_CANDIDATES = 5;
+// Re-encodes of the same recording sit well above the ~0.5 of unrelated audio
+const DUPLICATE_SIMILARITY = 0.75;
+// Share of the shorter recording the alignment must cover
+const DUPLICATE_MIN_COVERAGE = 0.5;
+
+/**
+ * The IPFS CID in a gateway, ipfs:// or local:// audio URL
+ */
+export function extractAudioCid(audioUrl: string): string | null {
+  const match = audioUrl.match(/^(?:ipfs|local):\/\/([^/?#]+)/) || audioUrl.match(/\/ipfs\/([^/?#]+)/);
+  return match ? match[1] : null;
+}
+
+export class AudioFingerprintIndex {
+  private static instance: AudioFingerprintIndex;
+
+  static getInstance(): AudioFingerprintIndex {
+    if (!AudioFingerprintIndex.instance) {
+      AudioFingerprintIndex.instance = new AudioFingerprintIndex();
+    }
+    return AudioFingerprintIndex.instance;
+  }
+
+  /**
+   * Fingerprint an upload and link it to an earlier upload of the same recording.
+   * A CID that is already registered (IPFS dedupes identical bytes) is returned as-is.
+   * @throws Error if the index cannot be read or written
+   */
+  async register(params: {
+    cid: string;
+    data: ArrayBuffer;
+    challengeId?: string;
+    uploader?: string;
+  }): Promise<FingerprintRegistration> {
+    const { cid, data, challengeId, uploader } = params;
+
+    const existing = await databaseService.getAudioFingerprint(cid);
+    if (existing) {
+      return toRegistration(existing);
+    }
+
+    const contentHash = createHash('sha256').update(Buffer.from(data)).digest('hex');
+
+    // MP4/AAC cannot be decoded here; those are matched by content hash only
+    let fingerprint: AudioFingerprint | null = null;
+    try {
+      fingerprint = computeFingerprint(await decodeAudio(data));
+    } catch (error) {
+      console.warn(`⚠️ Failed to fingerprint ${cid}:`, error);
+    }
+
+    const duplicateOf = await this.findDuplicate(cid, contentHash, fingerprint);
+
+    const row = await databaseService.saveAudioFingerprint({
+      cid,
+      content_hash: contentHash,
+      fingerprint_version: fingerprint?.version ?? null,
+      hop_size: fingerprint?.hopSize ?? null,
+      duration: fingerprint?.duration ?? null,
+      hashes: fingerprint ? (fingerprint.hashes as unknown as Json) : null,
+      challenge_id: challengeId ?? null,
+      uploader: uploader ?? null,
+      duplicate_of: duplicateOf?.cid ?? null,
+      match_type: duplicateOf?.matchType ?? null,
+      similarity: duplicateOf?.similarity ?? null
+    });
+
+    if (fingerprint) {
+      await databaseService.saveAudioFingerprintLandmarks(landmarks(fingerprint.hashes).map(({ hash, frame }) => ({ hash, cid, frame })));
+    }
+
+    if (duplicateOf) {
+      console.warn(`🚩 Upload ${cid} duplicates ${duplicateOf.cid} (${duplicateOf.matchType}, ${duplicateOf.similarity})`);
+    }
+
+    return toRegistration(row);
+  }
+
+  /**
+   * Earliest other submission using the same audio - the same CID or URL, or
+   * an upload the index linked to an earlier one
+   * @throws Error if the lookup fails
+   */
+  async findOriginalSubmission(audioUrl: string, submissionId: string): Promise<DuplicateSubmission | null> {
+    const cid = extractAudioCid(audioUrl);
+
+    const reused = cid
+      ? await databaseService.getFirstChallengeResultWithAudio('audio_cid', cid, submissionId)
+      : await databaseService.getFirstChallengeResultWithAudio('audio_url', audioUrl, submissionId);
+    if (reused) {
+      return { original: reused, matchType: 'exact', similarity: 1 };
+    }
+
+    const registration = cid ? await databaseService.getAudioFingerprint(cid) : null;
+    if (!registration?.duplicate_of) return null;
+
+    const original = await databaseService.getFirstChallengeResultWithAudio('audio_cid', registration.duplicate_of, submissionId);
+    if (!original) return null;
+
+    return {
+      original,
+      matchType: registration.match_type === 'acoustic' ? 'acoustic' : 'exact',
+      similarity: registration.similarity ?? 1
+    };
+  }
+
+  private async findDuplicate(
+    cid: string,
+    contentHash: string,
+    fingerprint: AudioFingerprint | null
+  ): Promise<DuplicateMatch | null> {
+    const sameBytes = (await databaseService.getAudioFingerprintsByContentHash(contentHash))
+      .find(row => row.cid !== cid);
+    if (sameBytes) {
+      return { cid: sameBytes.duplicate_of || sameBytes.cid, matchType: 'exact', similarity: 1 };
+    }
+
+    if (!fingerprint) return null;
+
+    // Recordings sharing the most exact sub-fingerprints are the likely copies
+    const hits = new Map<string, number>();
+    for (const landmark of await databaseService.findAudioFingerprintLandmarks(sampleHashes(fingerprint.hashes))) {
+      if (landmark.cid !== cid) {
+        hits.set(landmark.cid, (hits.get(landmark.cid) || 0) + 1);
+      }
+    }
+
+    const candidates = [...hits.entries()]
+      .filter(([, count]) => count >= MIN_LANDMARK_HITS)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_CANDIDATES)
+      .map(([candidateCid]) => candidateCid);
+
+    let best: DuplicateMatch | null = null;
+    for (const row of await databaseService.getAudioFingerprints(candidates)) {
+      const reference = toFingerprint(row);
+      if (!reference) continue;
+
+      const minOverlap = DUPLICATE_MIN_COVERAGE * Math.min(fingerprint.duration, reference.duration);
+      const match = compareFingerprints(fingerprint, reference, minOverlap);
+      if (match && match.similarity >= DUPLICATE_SIMILARITY && (!best || match.similarity > best.similarity)) {
+        best = { cid: row.duplicate_of || row.cid, matchType: 'acoustic', similarity: match.similarity };
+      }
+    }
+
+    return best;
+  }
+}
+
+function toRegistration(row: AudioFingerprintRow): FingerprintRegistration {
+  return {
+    cid: row.cid,
+    contentHash: row.content_hash,
+    fingerprinted: row.hashes !== null,
+    duplicateOf: row.duplicate_of
+      ? {
+          cid: row.duplicate_of,
+          matchType: row.match_type === 'acoustic' ? 'acoustic' : 'exact',
+          similarity: row.similarity ?? 1
+        }
+      : null
+  };
+}
+
+function toFingerprint(row: AudioFingerprintRow): AudioFingerprint | null {
+  if (row.fingerprint_version !== AUDIO_FINGERPRINT_VERSION || !Array.isArray(row.hashes) || row.hop_size === null) {
+    return null;
+  }
+
+  return {
+    version: row.fingerprint_version,
+    sampleRate: 0, // Not needed for comparison
+    hopSize: row.hop_size,
+    duration: row.duration ?? 0,
+    hashes: row.hashes as number[]
+  };
+}
+
+/**
+ * First occurrence of each non-silent sub-fingerprint
+ */
+function landmarks(hashes: number[]): Array<{ hash: number; frame: number }> {
+  const seen = new Set<number>();
+  const result: Array<{ hash: number; frame: number }> = [];
+  hashes.forEach((hash, frame) => {
+    if (hash >= 0 && !seen.has(hash)) {
+      seen.add(hash);
+      result.push({ hash, frame });
+    }
+  });
+  return result;
+}
+
+/**
+ * Up to MAX_QUERY_LANDMARKS distinct sub-fingerprints spread over the recording
+ */
+function sampleHashes(hashes: number[]): number[] {
+  const unique = landmarks(hashes).map(landmark => landmark.hash);
+  if (unique.length <= MAX_QUERY_LANDMARKS) return unique;
+
+  const step = unique.length / MAX_QUERY_LANDMARKS;
+  return Array.from({ length: MAX_QUERY_LANDMARKS }, (_, i) => unique[Math.floor(i * step)]);
+}
+
+export const audioFingerprintIndex = AudioFingerprintIndex.getInstance();
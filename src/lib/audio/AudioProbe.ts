@@ -0,0 +1,321 @@
+/**
+ * Audio Probe
+ * Identifies an audio container from its bytes and reads its real duration
+ * from container metadata, without decoding. Pure TypeScript so API routes
+ * can verify uploads that the server has no codec for.
+ */
+
+import { decodeWav, isWav } from './PcmDecoder';
+
+export type AudioFormat = 'wav' | 'webm' | 'ogg' | 'mp4' | 'mp3';
+
+export interface AudioProbeResult {
+  format: AudioFormat | null; // null when the bytes are not a supported audio container
+  mimeType: string | null;
+  duration: number | null; // Seconds, null when the container does not record it
+}
+
+const MIME_TYPES: Record<AudioFormat, string> = {
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+  ogg: 'audio/ogg',
+  mp4: 'audio/mp4',
+  mp3: 'audio/mpeg'
+};
+
+/**
+ * Detect the container format and duration of an audio file
+ */
+export function probeAudio(data: ArrayBuffer): AudioProbeResult {
+  const format = detectAudioFormat(data);
+  if (!format) {
+    return { format: null, mimeType: null, duration: null };
+  }
+
+  let duration: number | null = null;
+  try {
+    switch (format) {
+      case 'wav':
+        duration = decodeWav(data).duration;
+        break;
+      case 'webm':
+        duration = webmDuration(new DataView(data));
+        break;
+      case 'ogg':
+        duration = oggDuration(new Uint8Array(data));
+        break;
+      case 'mp4':
+        duration = mp4Duration(new DataView(data));
+        break;
+      case 'mp3':
+        duration = mp3Duration(new Uint8Array(data));
+        break;
+    }
+  } catch (error) {
+    console.warn(`Failed to read ${format} duration:`, error);
+    duration = null;
+  }
+
+  return {
+    format,
+    mimeType: MIME_TYPES[format],
+    duration: duration !== null && isFinite(duration) && duration > 0 ? duration : null
+  };
+}
+
+/**
+ * Container format from the file's magic bytes
+ */
+export function detectAudioFormat(data: ArrayBuffer): AudioFormat | null {
+  const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, 12));
+  if (bytes.length < 4) return null;
+
+  if (isWav(data)) return 'wav';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'webm';
+  if (ascii(bytes, 0, 4) === 'OggS') return 'ogg';
+  if (bytes.length >= 8 && ascii(bytes, 4, 4) === 'ftyp') return 'mp4';
+  if (ascii(bytes, 0, 3) === 'ID3') return 'mp3';
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) return 'mp3';
+
+  return null;
+}
+
+// EBML element IDs (WebM/Matroska)
+const EBML_SEGMENT = 0x18538067;
+const EBML_INFO = 0x1549a966;
+const EBML_TIMECODE_SCALE = 0x2ad7b1;
+const EBML_DURATION = 0x4489;
+const EBML_CLUSTER = 0x1f43b675;
+const EBML_CLUSTER_TIMECODE = 0xe7;
+const EBML_BLOCK_GROUP = 0xa0;
+const EBML_SIMPLE_BLOCK = 0xa3;
+const EBML_BLOCK = 0xa1;
+const EBML_MASTER_IDS = new Set([EBML_SEGMENT, EBML_INFO, EBML_CLUSTER, EBML_BLOCK_GROUP]);
+
+/**
+ * WebM duration from Segment Info, or from the last block timecode.
+ * MediaRecorder output usually omits Duration and uses unknown-size
+ * Segment/Cluster elements, so master elements are walked flat.
+ */
+function webmDuration(view: DataView): number | null {
+  let offset = 0;
+  let timecodeScale = 1000000; // Nanoseconds per tick (Matroska default)
+  let declaredDuration: number | null = null;
+  let clusterTimecode = 0;
+  let lastBlockTimecode = -1;
+
+  while (offset < view.byteLength) {
+    const id = readVint(view, offset, false);
+    if (!id) break;
+    const size = readVint(view, offset + id.length, true);
+    if (!size) break;
+
+    const dataStart = offset + id.length + size.length;
+    const unknownSize = size.value < 0;
+
+    if (EBML_MASTER_IDS.has(id.value)) {
+      // Descend into children without skipping
+      offset = dataStart;
+      continue;
+    }
+
+    if (unknownSize || dataStart + size.value > view.byteLength) break;
+
+    switch (id.value) {
+      case EBML_TIMECODE_SCALE:
+        timecodeScale = readUint(view, dataStart, size.value);
+        break;
+      case EBML_DURATION:
+        declaredDuration = size.value === 4 ? view.getFloat32(dataStart) : view.getFloat64(dataStart);
+        break;
+      case EBML_CLUSTER_TIMECODE:
+        clusterTimecode = readUint(view, dataStart, size.value);
+        break;
+      case EBML_SIMPLE_BLOCK:
+      case EBML_BLOCK: {
+        const track = readVint(view, dataStart, true);
+        if (track) {
+          const relative = view.getInt16(dataStart + track.length);
+          lastBlockTimecode = Math.max(lastBlockTimecode, clusterTimecode + relative);
+        }
+        break;
+      }
+    }
+
+    offset = dataStart + size.value;
+  }
+
+  if (declaredDuration && declaredDuration > 0) {
+    return (declaredDuration * timecodeScale) / 1e9;
+  }
+  return lastBlockTimecode >= 0 ? (lastBlockTimecode * timecodeScale) / 1e9 : null;
+}
+
+/**
+ * Ogg duration from the granule position of the last page
+ */
+function oggDuration(bytes: Uint8Array): number | null {
+  let sampleRate = 0;
+  let preSkip = 0;
+
+  // Codec identification header is the first packet of the first page
+  const packet = 27 + bytes[26];
+  if (ascii(bytes, packet, 8) === 'OpusHead') {
+    sampleRate = 48000; // Opus granules always count 48kHz samples
+    preSkip = bytes[packet + 10] | (bytes[packet + 11] << 8);
+  } else if (ascii(bytes, packet + 1, 6) === 'vorbis') {
+    sampleRate = readUint32LE(bytes, packet + 12);
+  }
+  if (sampleRate <= 0) return null;
+
+  for (let offset = bytes.length - 14; offset >= 0; offset--) {
+    if (bytes[offset] === 0x4f && ascii(bytes, offset, 4) === 'OggS') {
+      const low = readUint32LE(bytes, offset + 6);
+      const high = readUint32LE(bytes, offset + 10);
+      const granule = high * 0x100000000 + low;
+      return Math.max(0, granule - preSkip) / sampleRate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * MP4 duration from moov/mvhd, falling back to the fragment header (mvex/mehd)
+ */
+function mp4Duration(view: DataView): number | null {
+  const moov = findBox(view, 0, view.byteLength, 'moov');
+  if (!moov) return null;
+
+  const mvhd = findBox(view, moov.start, moov.end, 'mvhd');
+  if (!mvhd) return null;
+
+  const version = view.getUint8(mvhd.start);
+  const timescale = view.getUint32(mvhd.start + (version === 1 ? 20 : 12));
+  let duration = version === 1
+    ? readUint64(view, mvhd.start + 24)
+    : view.getUint32(mvhd.start + 16);
+
+  // Fragmented recordings (Safari MediaRecorder) leave mvhd empty
+  if (!duration) {
+    const mvex = findBox(view, moov.start, moov.end, 'mvex');
+    const mehd = mvex ? findBox(view, mvex.start, mvex.end, 'mehd') : null;
+    if (mehd) {
+      duration = view.getUint8(mehd.start) === 1
+        ? readUint64(view, mehd.start + 4)
+        : view.getUint32(mehd.start + 4);
+    }
+  }
+
+  return timescale > 0 && duration > 0 ? duration / timescale : null;
+}
+
+function findBox(view: DataView, start: number, end: number, type: string): { start: number; end: number } | null {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const boxType = String.fromCharCode(
+      view.getUint8(offset + 4), view.getUint8(offset + 5), view.getUint8(offset + 6), view.getUint8(offset + 7)
+    );
+    let header = 8;
+    if (size === 1) {
+      size = readUint64(view, offset + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) return null;
+
+    if (boxType === type) {
+      return { start: offset + header, end: Math.min(end, offset + size) };
+    }
+    offset += size;
+  }
+  return null;
+}
+
+// MPEG-1 Layer III bitrates (kbps) and sample rates
+const MP3_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+/**
+ * MP3 duration from the Xing/Info frame count, or a CBR estimate from the first frame
+ */
+function mp3Duration(bytes: Uint8Array): number | null {
+  let offset = 0;
+  if (ascii(bytes, 0, 3) === 'ID3') {
+    // Syncsafe tag size
+    const tagSize = ((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f);
+    offset = 10 + tagSize;
+  }
+
+  // Find the first MPEG-1 Layer III frame header
+  while (offset + 4 < bytes.length && !(bytes[offset] === 0xff && (bytes[offset + 1] & 0xfe) === 0xfa)) {
+    offset++;
+  }
+  if (offset + 4 >= bytes.length) return null;
+
+  const bitrate = MP3_BITRATES[bytes[offset + 2] >> 4] * 1000;
+  const sampleRate = MP3_SAMPLE_RATES[(bytes[offset + 2] >> 2) & 0x03];
+  if (!bitrate || !sampleRate) return null;
+
+  const mono = (bytes[offset + 3] >> 6) === 3;
+  const xingOffset = offset + 4 + (mono ? 17 : 32);
+  const tag = ascii(bytes, xingOffset, 4);
+  if ((tag === 'Xing' || tag === 'Info') && (bytes[xingOffset + 7] & 0x01)) {
+    const frames = (bytes[xingOffset + 8] << 24 | bytes[xingOffset + 9] << 16 | bytes[xingOffset + 10] << 8 | bytes[xingOffset + 11]) >>> 0;
+    return (frames * 1152) / sampleRate;
+  }
+
+  return ((bytes.length - offset) * 8) / bitrate;
+}
+
+/**
+ * EBML variable-length integer. IDs keep their marker bit; sizes strip it
+ * and report all-ones (unknown size) as -1.
+ */
+export function readVint(view: DataView, offset: number, stripMarker: boolean): { value: number; length: number } | null {
+  if (offset >= view.byteLength) return null;
+  const first = view.getUint8(offset);
+  let length = 1;
+  let mask = 0x80;
+  while (length <= 8 && !(first & mask)) {
+    mask >>= 1;
+    length++;
+  }
+  if (length > 8 || offset + length > view.byteLength) return null;
+
+  let value = stripMarker ? first & (mask - 1) : first;
+  let allOnes = value === mask - 1;
+  for (let i = 1; i < length; i++) {
+    const byte = view.getUint8(offset + i);
+    value = value * 256 + byte;
+    allOnes = allOnes && byte === 0xff;
+  }
+
+  return { value: stripMarker && allOnes ? -1 : value, length };
+}
+
+function readUint(view: DataView, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + view.getUint8(offset + i);
+  }
+  return value;
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset) * 0x100000000 + view.getUint32(offset + 4);
+}
+
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+}
+
+function ascii(bytes: Uint8Array, offset: number, length: number): string {
+  let result = '';
+  for (let i = 0; i < length && offset + i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[offset + i]);
+  }
+  return result;
+}
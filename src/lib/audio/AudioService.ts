@@ -1,4 +1,11 @@
 import { PitchData, AudioConfig, AudioAnalysis } from '@/types';
+import {
+  createPitchData,
+  createPitchDetector,
+  PitchDetectionAlgorithm,
+  PitchDetector,
+  PitchEstimate
+} from './PitchDetector';
 
 export class AudioService {
   private audioContext: AudioContext | null = null;
@@ -6,6 +13,7 @@ export class AudioService {
   private stream: MediaStream | null = null;
   private animationFrame: number | null = null;
   private dataArray: Float32Array | null = null;
+  private pitchDetector: PitchDetector;
   
   private config: AudioConfig = {
     sampleRate: 44100,
@@ -15,11 +23,14 @@ export class AudioService {
     maxVolume: 1.0,
   };
 
-  private noteNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
   private pitchHistory: number[] = [];
   private volumeHistory: number[] = [];
   private sessionStartTime: number = 0;
 
+  constructor(algorithm: PitchDetectionAlgorithm = 'yin') {
+    this.pitchDetector = createPitchDetector(algorithm);
+  }
+
   async initialize(): Promise<void> {
     try {
       this.stream = await navigator.mediaDevices.getUserMedia({
@@ -58,7 +69,8 @@ export class AudioService {
       this.analyser.getFloatTimeDomainData(this.dataArray);
       
       const volume = this.calculateVolume(this.dataArray);
-      const frequency = this.detectPitch(this.dataArray, this.audioContext.sampleRate);
+      const estimate = this.detectPitch(this.dataArray, this.audioContext.sampleRate, volume);
+      const frequency = estimate?.frequency || 0;
       
       // Update history for analysis
       this.pitchHistory.push(frequency);
@@ -70,13 +82,8 @@ export class AudioService {
         this.volumeHistory.shift();
       }
 
-      const pitchData: PitchData = {
-        frequency,
-        ...this.frequencyToNote(frequency),
-        volume: volume * 100,
-        confidence: this.calculateConfidence(frequency, volume),
-        timestamp: Date.now(),
-      };
+      const pitchData: PitchData = createPitchData(estimate, volume * 100);
+      pitchData.confidence = this.calculateConfidence(frequency, volume, pitchData.confidence);
 
       callback(pitchData);
       this.animationFrame = requestAnimationFrame(analyze);
@@ -141,94 +148,26 @@ export class AudioService {
     return Math.sqrt(sum / buffer.length);
   }
 
-  private detectPitch(buffer: Float32Array, sampleRate: number): number {
-    const SIZE = buffer.length;
-    const MAX_SAMPLES = Math.floor(SIZE / 2);
-    let bestOffset = -1;
-    let bestCorrelation = 0;
-    let rms = 0;
-    let foundGoodCorrelation = false;
-    const GOOD_ENOUGH_CORRELATION = 0.9;
-
-    // Calculate RMS
-    for (let i = 0; i < SIZE; i++) {
-      const val = buffer[i];
-      rms += val * val;
-    }
-    rms = Math.sqrt(rms / SIZE);
-
+  private detectPitch(buffer: Float32Array, sampleRate: number, volume: number): PitchEstimate | null {
     // Not enough signal
-    if (rms < this.config.minVolume) return 0;
-
-    // Autocorrelation
-    let lastCorrelation = 1;
-    for (let offset = 1; offset < MAX_SAMPLES; offset++) {
-      let correlation = 0;
-
-      for (let i = 0; i < MAX_SAMPLES; i++) {
-        correlation += Math.abs(buffer[i] - buffer[i + offset]);
-      }
-      correlation = 1 - (correlation / MAX_SAMPLES);
-
-      if (correlation > GOOD_ENOUGH_CORRELATION && correlation > lastCorrelation) {
-        foundGoodCorrelation = true;
-        if (correlation > bestCorrelation) {
-          bestCorrelation = correlation;
-          bestOffset = offset;
-        }
-      } else if (foundGoodCorrelation) {
-        break;
-      }
-      lastCorrelation = correlation;
+    if (volume < this.config.minVolume) {
+      this.pitchDetector.reset();
+      return null;
     }
 
-    if (bestCorrelation > 0.01) {
-      return sampleRate / bestOffset;
-    }
-    return 0;
-  }
-
-  private frequencyToNote(frequency: number): {
-    note: string;
-    octave: number;
-    cents: number;
-    isInTune: boolean;
-  } {
-    if (frequency === 0) {
-      return { note: 'A', octave: 4, cents: 0, isInTune: false };
-    }
-    
-    const A4 = 440;
-    const C0 = A4 * Math.pow(2, -4.75);
-    
-    if (frequency > C0) {
-      const h = Math.round(12 * Math.log2(frequency / C0));
-      const octave = Math.floor(h / 12);
-      const n = h % 12;
-      const exactNote = 12 * Math.log2(frequency / C0);
-      const cents = Math.round((exactNote - h) * 100);
-      
-      return {
-        note: this.noteNames[n],
-        octave,
-        cents: Math.max(-50, Math.min(50, cents)),
-        isInTune: Math.abs(cents) < 10,
-      };
-    }
-    
-    return { note: 'A', octave: 4, cents: 0, isInTune: false };
+    return this.pitchDetector.detect(buffer, sampleRate);
   }
 
-  private calculateConfidence(frequency: number, volume: number): number {
+  private calculateConfidence(frequency: number, volume: number, detectorConfidence: number): number {
     if (frequency === 0) return 0;
     
-    // Simple confidence based on volume and frequency stability
+    // Detector confidence scaled by volume and frequency stability
     const volumeConfidence = Math.min(1, volume / 0.1);
     const stabilityConfidence = this.pitchHistory.length > 5 
       ? this.calculateStabilityConfidence() 
       : 0.5;
     
-    return Math.min(1, volumeConfidence * stabilityConfidence);
+    return Math.min(1, detectorConfidence * volumeConfidence * stabilityConfidence);
   }
 
   private calculateStabilityConfidence(): number {
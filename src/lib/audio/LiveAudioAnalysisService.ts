@@ -3,14 +3,8 @@
  * Provides real-time pitch detection and audio analysis for enhanced user feedback
  */
 
-export interface PitchData {
-  note: string;
-  octave: number;
-  frequency: number;
-  cents: number;
-  confidence: number;
-  timestamp: number;
-}
+import { PitchData } from '@/types';
+import { createPitchData, createPitchDetector, PitchDetectionAlgorithm, PitchDetector } from './PitchDetector';
 
 export interface AudioAnalysisData {
   pitch: PitchData;
@@ -35,16 +29,19 @@ export class LiveAudioAnalysisService {
   private isAnalyzing = false;
   private animationFrame: number | null = null;
   
-  // Pitch detection using autocorrelation
+  // Pitch detection
   private sampleRate = 44100;
   private bufferSize = 4096;
   private pitchBuffer: Float32Array | null = null;
+  private pitchDetector: PitchDetector;
+  private static readonly MIN_PITCH_CONFIDENCE = 0.5;
   
   // Callbacks
   private onAnalysisUpdate?: (data: AudioAnalysisData) => void;
   private onPitchDetected?: (pitch: PitchData) => void;
   
-  constructor() {
+  constructor(algorithm: PitchDetectionAlgorithm = 'yin') {
+    this.pitchDetector = createPitchDetector(algorithm);
     this.initializeAudioContext();
   }
 
@@ -95,6 +92,7 @@ export class LiveAudioAnalysisService {
       this.frequencyData = new Float32Array(this.analyser.frequencyBinCount);
       this.pitchBuffer = new Float32Array(this.bufferSize);
 
+      this.pitchDetector.reset();
       this.isAnalyzing = true;
       this.analyzeAudio();
 
@@ -142,7 +140,9 @@ export class LiveAudioAnalysisService {
     // Detect pitch if voice is present
     let pitch: PitchData | null = null;
     if (isVoiceDetected) {
-      pitch = this.detectPitch(this.pitchBuffer);
+      pitch = this.detectPitch(this.pitchBuffer, volume);
+    } else {
+      this.pitchDetector.reset();
     }
 
     // Create waveform data for visualization
@@ -202,86 +202,14 @@ export class LiveAudioAnalysisService {
     return denominator > 0 ? numerator / denominator : 0;
   }
 
-  private detectPitch(buffer: Float32Array): PitchData | null {
-    // Autocorrelation-based pitch detection
-    const autocorrelation = this.autocorrelate(buffer);
-    const fundamentalFreq = this.findFundamentalFrequency(autocorrelation);
-    
-    if (!fundamentalFreq || fundamentalFreq < 80 || fundamentalFreq > 1000) {
-      return null; // Outside typical vocal range
-    }
-
-    const noteInfo = this.frequencyToNote(fundamentalFreq);
-    
-    return {
-      ...noteInfo,
-      frequency: fundamentalFreq,
-      confidence: this.calculatePitchConfidence(autocorrelation, fundamentalFreq),
-      timestamp: Date.now()
-    };
-  }
+  private detectPitch(buffer: Float32Array, volume: number): PitchData | null {
+    const estimate = this.pitchDetector.detect(buffer, this.sampleRate);
 
-  private autocorrelate(buffer: Float32Array): Float32Array {
-    const result = new Float32Array(buffer.length);
-    
-    for (let lag = 0; lag < buffer.length; lag++) {
-      let sum = 0;
-      for (let i = 0; i < buffer.length - lag; i++) {
-        sum += buffer[i] * buffer[i + lag];
-      }
-      result[lag] = sum / (buffer.length - lag);
+    if (!estimate || estimate.confidence < LiveAudioAnalysisService.MIN_PITCH_CONFIDENCE) {
+      return null;
     }
-    
-    return result;
-  }
 
-  private findFundamentalFrequency(autocorrelation: Float32Array): number | null {
-    // Find the first peak after the initial peak
-    let maxValue = 0;
-    let maxIndex = 0;
-    
-    // Skip the first few samples to avoid the initial peak
-    const startIndex = Math.floor(this.sampleRate / 1000); // Skip first 1ms
-    
-    for (let i = startIndex; i < autocorrelation.length / 2; i++) {
-      if (autocorrelation[i] > maxValue) {
-        maxValue = autocorrelation[i];
-        maxIndex = i;
-      }
-    }
-    
-    if (maxIndex === 0) return null;
-    
-    // Convert lag to frequency
-    return this.sampleRate / maxIndex;
-  }
-
-  private calculatePitchConfidence(autocorrelation: Float32Array, frequency: number): number {
-    const lag = Math.round(this.sampleRate / frequency);
-    if (lag >= autocorrelation.length) return 0;
-    
-    const peakValue = autocorrelation[lag];
-    const maxValue = Math.max(...autocorrelation);
-    
-    return maxValue > 0 ? peakValue / maxValue : 0;
-  }
-
-  private frequencyToNote(frequency: number): { note: string; octave: number; cents: number } {
-    const A4 = 440;
-    const semitoneRatio = Math.pow(2, 1/12);
-    
-    // Calculate semitones from A4
-    const semitones = Math.round(12 * Math.log2(frequency / A4));
-    const cents = Math.round(1200 * Math.log2(frequency / A4) - semitones * 100);
-    
-    // Calculate octave and note
-    const noteIndex = (semitones + 9) % 12; // A=0, A#=1, B=2, C=3, etc.
-    const octave = Math.floor((semitones + 9) / 12) + 4;
-    
-    const noteNames = ['A', 'A#', 'B', 'C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#'];
-    const note = noteNames[noteIndex];
-    
-    return { note, octave, cents };
+    return createPitchData(estimate, volume);
   }
 
   // Public methods for setting callbacks
@@ -0,0 +1,348 @@
+/**
+ * Melody Alignment
+ * Scores a performance against a challenge's reference melody.
+ * Both pitch contours are resampled onto a coarse grid and aligned with
+ * banded dynamic time warping, so late entries and rushed phrases are
+ * measured as timing offsets rather than wrong notes.
+ */
+
+import { PitchContour } from './OfflinePitchAnalyzer';
+
+export const MELODY_SCORER_VERSION = '1';
+
+export interface PhraseScore {
+  index: number;
+  startTime: number; // Seconds into the reference
+  endTime: number;
+  pitchAccuracy: number; // 0-100 over the notes the singer actually hit
+  coverage: number; // 0-1 share of reference notes with a sung match
+  timingOffsetMs: number; // Median lag of the singer (positive = late)
+}
+
+export interface MelodyAlignmentResult {
+  version: string;
+  accuracy: number; // 0-100, pitch accuracy weighted by coverage
+  pitchAccuracy: number; // 0-100 over matched notes only
+  coverage: number; // 0-1
+  timingOffsetMs: number;
+  octaveShift: number; // Octaves added to the performance (e.g. +1 when a male voice covers a female vocal)
+  phrases: PhraseScore[];
+}
+
+export interface MelodyAlignmentOptions {
+  resolution?: number; // Grid step in seconds
+  bandWidth?: number; // Max warp from the diagonal in seconds
+  phraseGap?: number; // Reference silence (seconds) that ends a phrase
+  minPhraseDuration?: number; // Shorter phrases are merged into their neighbour
+  bpm?: number; // Used to split long phrases into 4-bar chunks
+}
+
+const DEFAULT_OPTIONS: Required<Omit<MelodyAlignmentOptions, 'bpm'>> = {
+  resolution: 0.1,
+  bandWidth: 3,
+  phraseGap: 0.4,
+  minPhraseDuration: 1
+};
+
+// Full credit within 25 cents, none beyond a semitone
+const FULL_CREDIT_SEMITONES = 0.25;
+const ZERO_CREDIT_SEMITONES = 1;
+
+// DTW local costs
+const MISSED_NOTE_COST = 0.6;
+const EXTRA_NOTE_COST = 0.3;
+const WARP_STEP_COST = 0.05;
+const MAX_PITCH_COST_SEMITONES = 3;
+
+const FALLBACK_PHRASE_DURATION = 8;
+const UNVOICED = 0;
+
+/**
+ * Align a performance contour to a reference contour and score it
+ * @throws Error if the reference contains no voiced frames
+ */
+export function alignMelody(
+  reference: PitchContour,
+  performance: PitchContour,
+  options: MelodyAlignmentOptions = {}
+): MelodyAlignmentResult {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const { resolution } = settings;
+  const band = Math.max(1, Math.round(settings.bandWidth / resolution));
+
+  const user = toGrid(performance, resolution, performance.duration);
+  // Only score the part of the song the singer had a chance to reach
+  const ref = toGrid(reference, resolution, Math.min(reference.duration, performance.duration + settings.bandWidth));
+
+  if (!ref.some(value => value !== UNVOICED)) {
+    throw new Error('Reference melody has no voiced frames');
+  }
+
+  const octaveShift = estimateOctaveShift(ref, user);
+  for (let j = 0; j < user.length; j++) {
+    if (user[j] !== UNVOICED) user[j] += octaveShift * 12;
+  }
+
+  const phrases = segmentPhrases(ref, settings);
+
+  if (user.length === 0 || !user.some(value => value !== UNVOICED)) {
+    return {
+      version: MELODY_SCORER_VERSION,
+      accuracy: 0,
+      pitchAccuracy: 0,
+      coverage: 0,
+      timingOffsetMs: 0,
+      octaveShift,
+      phrases: phrases.map((phrase, index) => ({
+        index,
+        startTime: round(phrase.start * resolution, 2),
+        endTime: round(phrase.end * resolution, 2),
+        pitchAccuracy: 0,
+        coverage: 0,
+        timingOffsetMs: 0
+      }))
+    };
+  }
+
+  const path = warpPath(ref, user, band);
+
+  // Best sung match for every reference cell on the warp path
+  const matches: Array<{ error: number; offset: number } | null> = new Array(ref.length).fill(null);
+  for (const [i, j] of path) {
+    if (ref[i] === UNVOICED || user[j] === UNVOICED) continue;
+    const error = Math.abs(ref[i] - user[j]);
+    const current = matches[i];
+    if (!current || error < current.error) {
+      matches[i] = { error, offset: j - i };
+    }
+  }
+
+  const phraseScores: PhraseScore[] = [];
+  const allCredits: number[] = [];
+  const allOffsets: number[] = [];
+  let voicedTotal = 0;
+
+  phrases.forEach((phrase, index) => {
+    const credits: number[] = [];
+    const offsets: number[] = [];
+    let voiced = 0;
+
+    for (let i = phrase.start; i < phrase.end; i++) {
+      if (ref[i] === UNVOICED) continue;
+      voiced++;
+      const match = matches[i];
+      if (match) {
+        credits.push(pitchCredit(match.error));
+        offsets.push(match.offset * resolution * 1000);
+      }
+    }
+
+    voicedTotal += voiced;
+    allCredits.push(...credits);
+    allOffsets.push(...offsets);
+
+    phraseScores.push({
+      index,
+      startTime: round(phrase.start * resolution, 2),
+      endTime: round(phrase.end * resolution, 2),
+      pitchAccuracy: round(mean(credits) * 100, 1),
+      coverage: voiced > 0 ? round(credits.length / voiced, 3) : 0,
+      timingOffsetMs: Math.round(median(offsets))
+    });
+  });
+
+  const creditSum = allCredits.reduce((sum, credit) => sum + credit, 0);
+
+  return {
+    version: MELODY_SCORER_VERSION,
+    accuracy: voicedTotal > 0 ? round((creditSum / voicedTotal) * 100, 1) : 0,
+    pitchAccuracy: round(mean(allCredits) * 100, 1),
+    coverage: voicedTotal > 0 ? round(allCredits.length / voicedTotal, 3) : 0,
+    timingOffsetMs: Math.round(median(allOffsets)),
+    octaveShift,
+    phrases: phraseScores
+  };
+}
+
+/**
+ * Resample a contour onto a fixed grid of MIDI note numbers (UNVOICED = 0).
+ * Each cell takes the median pitch of its frames when most of them are voiced.
+ */
+function toGrid(contour: PitchContour, resolution: number, duration: number): Float32Array {
+  const cells = Math.max(0, Math.floor(duration / resolution));
+  const grid = new Float32Array(cells);
+  const buckets: number[][] = Array.from({ length: cells }, () => []);
+  const counts = new Array(cells).fill(0);
+
+  for (const frame of contour.frames) {
+    const cell = Math.floor(frame.time / resolution);
+    if (cell < 0 || cell >= cells) continue;
+    counts[cell]++;
+    if (frame.frequency > 0) {
+      buckets[cell].push(69 + 12 * Math.log2(frame.frequency / 440));
+    }
+  }
+
+  for (let cell = 0; cell < cells; cell++) {
+    grid[cell] = buckets[cell].length > 0 && buckets[cell].length * 2 >= counts[cell]
+      ? median(buckets[cell])
+      : UNVOICED;
+  }
+
+  return grid;
+}
+
+/**
+ * Whole-octave shift that best lines the performance up with the reference register
+ */
+function estimateOctaveShift(ref: Float32Array, user: Float32Array): number {
+  const refVoiced = Array.from(ref).filter(value => value !== UNVOICED);
+  const userVoiced = Array.from(user).filter(value => value !== UNVOICED);
+  if (refVoiced.length === 0 || userVoiced.length === 0) return 0;
+
+  return Math.round((median(refVoiced) - median(userVoiced)) / 12) || 0;
+}
+
+/**
+ * Split the reference into phrases at rests, capping phrase length at 4 bars
+ */
+function segmentPhrases(
+  ref: Float32Array,
+  settings: Required<Omit<MelodyAlignmentOptions, 'bpm'>> & { bpm?: number }
+): Array<{ start: number; end: number }> {
+  const { resolution } = settings;
+  const gapCells = Math.max(1, Math.round(settings.phraseGap / resolution));
+  const minCells = Math.max(1, Math.round(settings.minPhraseDuration / resolution));
+  const maxDuration = settings.bpm && settings.bpm > 0 ? (16 * 60) / settings.bpm : FALLBACK_PHRASE_DURATION;
+  const maxCells = Math.max(minCells, Math.round(maxDuration / resolution));
+
+  const phrases: Array<{ start: number; end: number }> = [];
+  let start = -1;
+  let lastVoiced = -1;
+
+  for (let i = 0; i <= ref.length; i++) {
+    const voiced = i < ref.length && ref[i] !== UNVOICED;
+    if (voiced) {
+      if (start < 0) start = i;
+      lastVoiced = i;
+      if (i + 1 - start >= maxCells) {
+        phrases.push({ start, end: i + 1 });
+        start = -1;
+      }
+    } else if (start >= 0 && (i - lastVoiced >= gapCells || i === ref.length)) {
+      phrases.push({ start, end: lastVoiced + 1 });
+      start = -1;
+    }
+  }
+
+  // Fold fragments into the previous phrase
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const phrase of phrases) {
+    const previous = merged[merged.length - 1];
+    if (previous && phrase.end - phrase.start < minCells) {
+      previous.end = phrase.end;
+    } else {
+      merged.push({ ...phrase });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Banded DTW (Sakoe-Chiba around the length-scaled diagonal).
+ * Returns the optimal warp path as [referenceCell, userCell] pairs.
+ */
+function warpPath(ref: Float32Array, user: Float32Array, band: number): Array<[number, number]> {
+  const rows = ref.length;
+  const cols = user.length;
+  const slope = cols / rows;
+  const starts = new Int32Array(rows);
+  const ends = new Int32Array(rows);
+  const cost: Float64Array[] = [];
+
+  for (let i = 0; i < rows; i++) {
+    const centre = Math.round(i * slope);
+    starts[i] = Math.max(0, centre - band);
+    ends[i] = Math.min(cols - 1, centre + band);
+    // Keep the band connected to the previous row
+    if (i > 0) {
+      starts[i] = Math.min(starts[i], ends[i - 1]);
+      ends[i] = Math.max(ends[i], starts[i - 1]);
+    }
+    if (i === rows - 1) ends[i] = cols - 1;
+    cost.push(new Float64Array(ends[i] - starts[i] + 1).fill(Infinity));
+  }
+
+  const at = (i: number, j: number): number =>
+    i < 0 || j < starts[i] || j > ends[i] ? Infinity : cost[i][j - starts[i]];
+
+  for (let i = 0; i < rows; i++) {
+    for (let j = starts[i]; j <= ends[i]; j++) {
+      const local = localCost(ref[i], user[j]);
+      if (i === 0 && j === 0) {
+        cost[i][0] = local;
+        continue;
+      }
+      const best = Math.min(
+        at(i - 1, j - 1),
+        at(i - 1, j) + WARP_STEP_COST,
+        at(i, j - 1) + WARP_STEP_COST
+      );
+      cost[i][j - starts[i]] = best + local;
+    }
+  }
+
+  // Backtrack from the end of both sequences
+  const path: Array<[number, number]> = [];
+  let i = rows - 1;
+  let j = cols - 1;
+  path.push([i, j]);
+
+  while (i > 0 || j > 0) {
+    const diagonal = at(i - 1, j - 1);
+    const up = at(i - 1, j) + WARP_STEP_COST;
+    const left = at(i, j - 1) + WARP_STEP_COST;
+
+    if (diagonal <= up && diagonal <= left) {
+      i--;
+      j--;
+    } else if (up <= left) {
+      i--;
+    } else {
+      j--;
+    }
+    path.push([i, j]);
+  }
+
+  return path.reverse();
+}
+
+function localCost(ref: number, user: number): number {
+  if (ref === UNVOICED && user === UNVOICED) return 0;
+  if (ref === UNVOICED) return EXTRA_NOTE_COST;
+  if (user === UNVOICED) return MISSED_NOTE_COST;
+  return Math.min(Math.abs(ref - user), MAX_PITCH_COST_SEMITONES) / MAX_PITCH_COST_SEMITONES;
+}
+
+function pitchCredit(errorSemitones: number): number {
+  if (errorSemitones <= FULL_CREDIT_SEMITONES) return 1;
+  if (errorSemitones >= ZERO_CREDIT_SEMITONES) return 0;
+  return 1 - (errorSemitones - FULL_CREDIT_SEMITONES) / (ZERO_CREDIT_SEMITONES - FULL_CREDIT_SEMITONES);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
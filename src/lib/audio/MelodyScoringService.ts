@@ -0,0 +1,121 @@
+/**
+ * Melody Scoring Service
+ * Extracts (and caches) reference melodies from challenge vocal stems and
+ * scores submitted pitch tracks against them. The stem and tempo always come
+ * from the challenge catalog, never from a request.
+ */
+
+import { databaseService } from '@/lib/database/DatabaseService';
+import { decodeAudio } from './AudioDecoder';
+import { fetchAudioBytes, isFetchableAudioUrl } from './AudioFetch';
+import { OfflinePitchAnalyzer, PitchContour, PITCH_CONTOUR_VERSION } from './OfflinePitchAnalyzer';
+import { alignMelody, MelodyAlignmentResult } from './MelodyAlignment';
+
+// A 5 minute stereo 16-bit WAV is ~53MB
+const MAX_REFERENCE_BYTES = 64 * 1024 * 1024;
+
+export class MelodyScoringService {
+  private static instance: MelodyScoringService;
+  private analyzer = new OfflinePitchAnalyzer();
+  private pendingExtractions = new Map<string, Promise<PitchContour>>();
+
+  static getInstance(): MelodyScoringService {
+    if (!MelodyScoringService.instance) {
+      MelodyScoringService.instance = new MelodyScoringService();
+    }
+    return MelodyScoringService.instance;
+  }
+
+  /**
+   * Get the reference melody for a challenge, extracting it from the
+   * catalog's vocal stem on first use (and again when the stem changes)
+   * @throws Error if the challenge has no vocal stem, or it cannot be fetched or decoded
+   */
+  async getReferenceMelody(challengeId: string): Promise<{ contour: PitchContour; bpm: number | null }> {
+    const challenge = await databaseService.getChallengeById(challengeId);
+    if (!challenge?.vocal_url) {
+      throw new Error(`Challenge ${challengeId} has no vocal stem to score against`);
+    }
+    const vocalUrl = challenge.vocal_url;
+
+    const cached = await databaseService.getReferenceMelody(challengeId);
+    if (cached && cached.vocalUrl === vocalUrl && cached.contour.version === PITCH_CONTOUR_VERSION) {
+      return { contour: cached.contour, bpm: challenge.bpm };
+    }
+
+    // Concurrent submissions for the same challenge share one extraction
+    let extraction = this.pendingExtractions.get(challengeId);
+    if (!extraction) {
+      extraction = this.extractReferenceMelody(challengeId, vocalUrl)
+        .finally(() => this.pendingExtractions.delete(challengeId));
+      this.pendingExtractions.set(challengeId, extraction);
+    }
+
+    return { contour: await extraction, bpm: challenge.bpm };
+  }
+
+  /**
+   * Score a pitch track against its challenge's reference melody (no persistence)
+   * @throws Error if the reference melody is unavailable
+   */
+  async score(params: {
+    challengeId: string;
+    pitchTrack: PitchContour;
+  }): Promise<MelodyAlignmentResult> {
+    const { challengeId, pitchTrack } = params;
+
+    const reference = await this.getReferenceMelody(challengeId);
+    return alignMelody(reference.contour, pitchTrack, { bpm: reference.bpm ?? undefined });
+  }
+
+  /**
+   * Score a performance against its challenge's reference melody and persist the result.
+   * The stored score replaces the client-reported accuracy on the challenge result.
+   */
+  async scoreSubmission(params: {
+    submissionId: string;
+    challengeId: string;
+    pitchTrack: PitchContour;
+  }): Promise<MelodyAlignmentResult> {
+    const { submissionId, challengeId } = params;
+
+    const score = await this.score(params);
+    await databaseService.saveChallengeScore(submissionId, challengeId, score);
+
+    console.log('🎯 Melody score computed:', {
+      submissionId,
+      challengeId,
+      accuracy: score.accuracy,
+      coverage: score.coverage,
+      timingOffsetMs: score.timingOffsetMs
+    });
+
+    return score;
+  }
+
+  private async extractReferenceMelody(challengeId: string, vocalUrl: string): Promise<PitchContour> {
+    if (!isFetchableAudioUrl(vocalUrl)) {
+      throw new Error('Vocal stem must be a public http(s) URL');
+    }
+
+    const data = await fetchAudioBytes(vocalUrl, MAX_REFERENCE_BYTES);
+    if (!data) {
+      throw new Error('Vocal stem is too large to analyze');
+    }
+
+    // Catalog stems are MP3 or WAV
+    const pcm = await decodeAudio(data);
+    const contour = this.analyzer.analyze(pcm);
+
+    if (contour.summary.voicedRatio === 0) {
+      throw new Error('No melody detected in vocal stem');
+    }
+
+    await databaseService.saveReferenceMelody(challengeId, vocalUrl, contour);
+    console.log(`🎼 Reference melody extracted for ${challengeId}: ${contour.frames.length} frames`);
+
+    return contour;
+  }
+}
+
+export const melodyScoringService = MelodyScoringService.getInstance();
@@ -1,6 +1,8 @@
 /**
  * Mobile-Optimized Audio Streaming Service
- * Designed for low bandwidth and battery efficiency in Farcaster mini app context
+ * Designed for low bandwidth and battery efficiency in Farcaster mini app context.
+ * Rooms live on the server (/api/rooms); offers, answers and ICE candidates
+ * are relayed through it and audio flows peer to peer.
  */
 
 export interface AudioRoom {
@@ -12,6 +14,7 @@ export interface AudioRoom {
   participants: RoomParticipant[];
   maxParticipants: number;
   isLive: boolean;
+  isLocked?: boolean;
   currentTrack?: {
     title: string;
     artist: string;
@@ -43,6 +46,24 @@ export interface RoomSettings {
   autoMuteNewJoiners: boolean;
 }
 
+export type JoinStatus = 'joined' | 'pending';
+
+export type RoomModerationAction = 'mute' | 'unmute' | 'kick' | 'promote' | 'demote' | 'lock' | 'unlock' | 'end';
+
+interface RoomSession {
+  roomId: string;
+  fid: number;
+  token: string;
+  cursor: number;
+}
+
+interface RoomSignal {
+  id: number;
+  type: string;
+  from: number | null;
+  payload: any;
+}
+
 export interface AudioStreamConfig {
   sampleRate: number;
   bitRate: number;
@@ -58,6 +79,11 @@ export class MobileAudioStreamingService {
   private currentRoom: AudioRoom | null = null;
   private isStreaming = false;
   private isMobile = false;
+
+  // Signaling
+  private session: RoomSession | null = null;
+  private events: EventSource | null = null;
+  private pendingCandidates: Map<string, RTCIceCandidateInit[]> = new Map();
   
   // Mobile-optimized configurations
   private mobileConfig: AudioStreamConfig = {
@@ -81,6 +107,10 @@ export class MobileAudioStreamingService {
   private onParticipantJoined?: (participant: RoomParticipant) => void;
   private onParticipantLeft?: (participantFid: number) => void;
   private onAudioReceived?: (participantFid: number, audioData: ArrayBuffer) => void;
+  private onJoinRequest?: (participant: RoomParticipant) => void;
+  private onJoinResolved?: (approved: boolean) => void;
+  private onRoomEnded?: () => void;
+  private onRemoved?: () => void;
 
   constructor() {
     this.detectMobileDevice();
@@ -109,63 +139,86 @@ export class MobileAudioStreamingService {
     }
   }
 
+  async listRooms(): Promise<AudioRoom[]> {
+    const response = await fetch('/api/rooms');
+    if (!response.ok) {
+      throw new Error(`Failed to load rooms (${response.status})`);
+    }
+
+    const { rooms } = await response.json();
+    return rooms.map((room: any) => this.toRoom(room));
+  }
+
+  /**
+   * Create a room on the signaling server and join it as host
+   */
   async createRoom(roomData: Partial<AudioRoom>): Promise<AudioRoom> {
-    const room: AudioRoom = {
-      id: `room-${Date.now()}`,
-      name: roomData.name || 'Untitled Room',
-      description: roomData.description || '',
-      hostFid: roomData.hostFid || 0,
-      hostName: roomData.hostName || 'Unknown Host',
-      participants: [],
-      maxParticipants: this.isMobile ? 6 : 12, // Reduced for mobile
-      isLive: false,
-      settings: {
-        allowParticipantAudio: true,
-        requireApprovalToJoin: false,
-        maxAudioQuality: this.isMobile ? 'medium' : 'high',
-        enableReactions: true,
-        enableChat: true,
-        autoMuteNewJoiners: this.isMobile // Auto-mute on mobile to save bandwidth
-      },
-      createdAt: new Date(),
-      ...roomData
-    };
+    const response = await fetch('/api/rooms', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: roomData.name || 'Untitled Room',
+        description: roomData.description || '',
+        maxParticipants: roomData.maxParticipants || (this.isMobile ? 6 : 12), // Reduced for mobile
+        settings: {
+          maxAudioQuality: this.isMobile ? 'medium' : 'high',
+          autoMuteNewJoiners: this.isMobile, // Auto-mute on mobile to save bandwidth
+          ...roomData.settings
+        },
+        host: {
+          fid: roomData.hostFid,
+          displayName: roomData.hostName
+        }
+      })
+    });
 
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to create room');
+    }
+
+    const room = this.toRoom(result.room);
     this.currentRoom = room;
+    this.openSession({ roomId: room.id, fid: room.hostFid, token: result.token, cursor: result.cursor });
+    this.onRoomUpdate?.(room);
     return room;
   }
 
-  async joinRoom(roomId: string, userInfo: Partial<RoomParticipant>): Promise<void> {
-    if (!this.currentRoom || this.currentRoom.id !== roomId) {
-      throw new Error('Room not found or not initialized');
-    }
-
-    const participant: RoomParticipant = {
-      fid: userInfo.fid || 0,
-      username: userInfo.username || 'anonymous',
-      displayName: userInfo.displayName || 'Anonymous User',
-      pfpUrl: userInfo.pfpUrl || '',
-      role: 'participant',
-      isMuted: this.currentRoom.settings.autoMuteNewJoiners,
-      isListening: true,
-      joinedAt: new Date(),
-      lastActive: new Date(),
-      ...userInfo
-    };
+  /**
+   * Join a room. Rooms that require approval resolve with 'pending'; the
+   * join resolved callback fires once a host or moderator answers.
+   */
+  async joinRoom(roomId: string, userInfo: Partial<RoomParticipant>): Promise<JoinStatus> {
+    // Rejoining the room we are in has to prove it is still us
+    const token = this.session?.roomId === roomId ? this.session.token : null;
+
+    const response = await fetch(`/api/rooms/${roomId}/join`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token && { 'Authorization': `Bearer ${token}` })
+      },
+      body: JSON.stringify({
+        fid: userInfo.fid,
+        username: userInfo.username,
+        displayName: userInfo.displayName,
+        pfpUrl: userInfo.pfpUrl
+      })
+    });
 
-    // Check room capacity
-    if (this.currentRoom.participants.length >= this.currentRoom.maxParticipants) {
-      throw new Error('Room is at maximum capacity');
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to join room');
     }
 
-    this.currentRoom.participants.push(participant);
-    this.onParticipantJoined?.(participant);
-    this.onRoomUpdate?.(this.currentRoom);
+    this.openSession({ roomId, fid: userInfo.fid!, token: result.token, cursor: result.cursor });
 
-    // Initialize audio streaming if allowed
-    if (this.currentRoom.settings.allowParticipantAudio && !participant.isMuted) {
-      await this.initializeAudioStreaming();
+    if (result.status === 'pending') {
+      return 'pending';
     }
+
+    await this.enterRoom(this.toRoom(result.room));
+    return 'joined';
   }
 
   async leaveRoom(): Promise<void> {
@@ -173,16 +226,357 @@ export class MobileAudioStreamingService {
       await this.stopStreaming();
     }
 
+    const session = this.session;
+    this.closeSession();
+
+    if (session) {
+      try {
+        await fetch(`/api/rooms/${session.roomId}/leave`, {
+          method: 'POST',
+          headers: { 'Authorization': `Bearer ${session.token}` },
+          keepalive: true
+        });
+      } catch (error) {
+        // The server notices the closed stream and removes us anyway
+        console.warn('Failed to leave room:', error);
+      }
+    }
+
+    this.resetConnections();
+    this.currentRoom = null;
+  }
+
+  /**
+   * Let a pending participant in, or turn them away (hosts and moderators)
+   */
+  async respondToJoinRequest(participantFid: number, approve: boolean): Promise<void> {
+    if (!this.session) {
+      throw new Error('Not in a room');
+    }
+
+    const response = await fetch(`/api/rooms/${this.session.roomId}/requests`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.session.token}`
+      },
+      body: JSON.stringify({ fid: participantFid, approve })
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || 'Failed to answer join request');
+    }
+  }
+
+  /**
+   * Moderate the room. The server checks our role; promote, demote and end
+   * are host-only.
+   */
+  async moderate(action: RoomModerationAction, targetFid?: number, reason?: string): Promise<void> {
+    if (!this.session) {
+      throw new Error('Not in a room');
+    }
+
+    const response = await fetch(`/api/rooms/${this.session.roomId}/moderation`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.session.token}`
+      },
+      body: JSON.stringify({ action, targetFid, reason })
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || `Failed to ${action}`);
+    }
+  }
+
+  /**
+   * Mute or unmute ourselves. Unmuting fails while a host or moderator has
+   * us muted.
+   */
+  async setSelfMuted(muted: boolean): Promise<void> {
+    if (!this.session) {
+      throw new Error('Not in a room');
+    }
+
+    const response = await fetch(`/api/rooms/${this.session.roomId}/me`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.session.token}`
+      },
+      body: JSON.stringify({ isMuted: muted })
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || (muted ? 'Failed to mute' : 'Failed to unmute'));
+    }
+
+    if (muted && this.isStreaming) {
+      await this.stopStreaming();
+    }
+    this.updateParticipant(this.toParticipant(result.participant));
+  }
+
+  private async enterRoom(room: AudioRoom): Promise<void> {
+    this.currentRoom = room;
+    this.onRoomUpdate?.(room);
+
+    const self = room.participants.find(p => p.fid === this.session?.fid);
+
+    // Initialize audio streaming if allowed
+    if (room.settings.allowParticipantAudio && self && !self.isMuted) {
+      await this.initializeAudioStreaming();
+    }
+  }
+
+  private openSession(session: RoomSession): void {
+    this.closeSession();
+    this.session = session;
+
+    const params = new URLSearchParams({ token: session.token, after: String(session.cursor) });
+    const events = new EventSource(`/api/rooms/${session.roomId}/events?${params}`);
+
+    events.addEventListener('room', (event) => {
+      const room = JSON.parse((event as MessageEvent).data);
+      if (room && this.currentRoom) {
+        this.currentRoom = this.toRoom(room);
+        this.onRoomUpdate?.(this.currentRoom);
+      }
+    });
+
+    events.addEventListener('signal', (event) => {
+      this.handleSignal(JSON.parse((event as MessageEvent).data)).catch(error => {
+        console.error('Failed to handle room signal:', error);
+      });
+    });
+
+    this.events = events;
+  }
+
+  private closeSession(): void {
+    this.events?.close();
+    this.events = null;
+    this.session = null;
+  }
+
+  private resetConnections(): void {
     // Clean up peer connections
     this.peerConnections.forEach(pc => pc.close());
     this.peerConnections.clear();
+    this.pendingCandidates.clear();
 
     if (this.mediaStream) {
       this.mediaStream.getTracks().forEach(track => track.stop());
       this.mediaStream = null;
     }
+  }
 
-    this.currentRoom = null;
+  private async handleSignal(signal: RoomSignal): Promise<void> {
+    const fromId = signal.from?.toString() ?? '';
+
+    switch (signal.type) {
+      case 'participant-joined': {
+        const participant = this.toParticipant(signal.payload);
+        if (!this.currentRoom || participant.fid === this.session?.fid) return;
+
+        this.currentRoom.participants = [
+          ...this.currentRoom.participants.filter(p => p.fid !== participant.fid),
+          participant
+        ];
+        this.onParticipantJoined?.(participant);
+        this.onRoomUpdate?.(this.currentRoom);
+
+        // Newcomers get an offer from everyone already streaming
+        if (this.isStreaming) {
+          await this.createPeerConnection(fromId);
+        }
+        return;
+      }
+
+      case 'participant-updated': {
+        const participant = this.toParticipant(signal.payload);
+        this.updateParticipant(participant);
+
+        // A host or moderator muted us
+        if (participant.fid === this.session?.fid && participant.isMuted && this.isStreaming) {
+          await this.stopStreaming();
+        }
+        return;
+      }
+
+      case 'participant-left': {
+        const fid = signal.payload?.fid ?? signal.from;
+
+        if (fid === this.session?.fid) {
+          // Kicked by a host or moderator
+          this.closeSession();
+          this.resetConnections();
+          this.isStreaming = false;
+          this.currentRoom = null;
+          this.onRemoved?.();
+          return;
+        }
+
+        this.peerConnections.get(String(fid))?.close();
+        this.peerConnections.delete(String(fid));
+        this.pendingCandidates.delete(String(fid));
+
+        if (this.currentRoom) {
+          this.currentRoom.participants = this.currentRoom.participants.filter(p => p.fid !== fid);
+          this.onRoomUpdate?.(this.currentRoom);
+        }
+        this.onParticipantLeft?.(fid);
+        return;
+      }
+
+      case 'join-requested':
+        this.onJoinRequest?.(this.toParticipant(signal.payload));
+        return;
+
+      case 'join-approved': {
+        const response = await fetch(`/api/rooms/${this.session?.roomId}`);
+        if (response.ok) {
+          const { room } = await response.json();
+          await this.enterRoom(this.toRoom(room));
+        }
+        this.onJoinResolved?.(true);
+        return;
+      }
+
+      case 'join-rejected':
+        this.closeSession();
+        this.onJoinResolved?.(false);
+        return;
+
+      case 'room-updated':
+        this.currentRoom = this.toRoom(signal.payload);
+        this.onRoomUpdate?.(this.currentRoom);
+        return;
+
+      case 'room-ended':
+        this.closeSession();
+        this.resetConnections();
+        this.isStreaming = false;
+        this.currentRoom = null;
+        this.onRoomEnded?.();
+        return;
+
+      case 'offer':
+        await this.handleOffer(fromId, signal.payload);
+        return;
+
+      case 'answer': {
+        const peerConnection = this.peerConnections.get(fromId);
+        if (!peerConnection) return;
+
+        await peerConnection.setRemoteDescription(signal.payload);
+        await this.flushCandidates(fromId, peerConnection);
+        return;
+      }
+
+      case 'ice-candidate': {
+        const peerConnection = this.peerConnections.get(fromId);
+        if (!signal.payload) return; // End of candidates
+
+        // Candidates can arrive before the description they belong to
+        if (!peerConnection?.remoteDescription) {
+          this.pendingCandidates.set(fromId, [...(this.pendingCandidates.get(fromId) || []), signal.payload]);
+          return;
+        }
+        await peerConnection.addIceCandidate(signal.payload);
+        return;
+      }
+    }
+  }
+
+  private async handleOffer(participantId: string, offer: RTCSessionDescriptionInit): Promise<void> {
+    let peerConnection = this.peerConnections.get(participantId);
+
+    // Both sides offered at once: the lower FID yields
+    if (peerConnection && peerConnection.signalingState !== 'stable') {
+      if ((this.session?.fid ?? 0) > Number(participantId)) return;
+      await peerConnection.setLocalDescription({ type: 'rollback' });
+    }
+
+    if (!peerConnection) {
+      peerConnection = await this.setupPeerConnection(participantId);
+    }
+
+    await peerConnection.setRemoteDescription(offer);
+    await this.flushCandidates(participantId, peerConnection);
+
+    const answer = await peerConnection.createAnswer();
+    await peerConnection.setLocalDescription(answer);
+    await this.sendSignal(participantId, 'answer', answer);
+  }
+
+  private async flushCandidates(participantId: string, peerConnection: RTCPeerConnection): Promise<void> {
+    const candidates = this.pendingCandidates.get(participantId) || [];
+    this.pendingCandidates.delete(participantId);
+
+    for (const candidate of candidates) {
+      await peerConnection.addIceCandidate(candidate);
+    }
+  }
+
+  private async sendSignal(participantId: string, type: 'offer' | 'answer' | 'ice-candidate', payload: unknown): Promise<void> {
+    if (!this.session) return;
+
+    const response = await fetch(`/api/rooms/${this.session.roomId}/signal`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.session.token}`
+      },
+      body: JSON.stringify({ to: Number(participantId), type, payload })
+    });
+
+    if (!response.ok) {
+      console.warn(`Failed to send ${type} to participant ${participantId} (${response.status})`);
+    }
+  }
+
+  private async updateRoom(updates: { isLive?: boolean }): Promise<void> {
+    if (!this.session || this.session.fid !== this.currentRoom?.hostFid) return;
+
+    await fetch(`/api/rooms/${this.session.roomId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.session.token}`
+      },
+      body: JSON.stringify(updates)
+    });
+  }
+
+  private updateParticipant(participant: RoomParticipant): void {
+    if (!this.currentRoom) return;
+
+    this.currentRoom.participants = this.currentRoom.participants.map(p =>
+      p.fid === participant.fid ? participant : p
+    );
+    this.onRoomUpdate?.(this.currentRoom);
+  }
+
+  private toRoom(room: any): AudioRoom {
+    return {
+      ...room,
+      participants: (room.participants || []).map((participant: any) => this.toParticipant(participant)),
+      createdAt: new Date(room.createdAt)
+    };
+  }
+
+  private toParticipant(participant: any): RoomParticipant {
+    return {
+      ...participant,
+      joinedAt: new Date(participant.joinedAt),
+      lastActive: new Date(participant.lastActive)
+    };
   }
 
   private async initializeAudioStreaming(): Promise<void> {
@@ -265,6 +659,7 @@ export class MobileAudioStreamingService {
     this.isStreaming = true;
     this.currentRoom.isLive = true;
     this.onRoomUpdate?.(this.currentRoom);
+    await this.updateRoom({ isLive: true });
 
     // Start streaming to all participants
     await this.broadcastToParticipants();
@@ -276,6 +671,7 @@ export class MobileAudioStreamingService {
     if (this.currentRoom) {
       this.currentRoom.isLive = false;
       this.onRoomUpdate?.(this.currentRoom);
+      await this.updateRoom({ isLive: false });
     }
 
     // Stop all peer connections
@@ -292,13 +688,13 @@ export class MobileAudioStreamingService {
     if (!this.currentRoom || !this.mediaStream) return;
 
     for (const participant of this.currentRoom.participants) {
-      if (participant.fid !== this.currentRoom.hostFid) {
+      if (participant.fid !== this.session?.fid) {
         await this.createPeerConnection(participant.fid.toString());
       }
     }
   }
 
-  private async createPeerConnection(participantId: string): Promise<void> {
+  private async setupPeerConnection(participantId: string): Promise<RTCPeerConnection> {
     const config = this.isMobile ? this.mobileConfig : this.desktopConfig;
     
     const peerConnection = new RTCPeerConnection({
@@ -335,15 +731,23 @@ export class MobileAudioStreamingService {
       this.handleIncomingAudio(participantId, remoteStream);
     };
 
+    peerConnection.onicecandidate = (event) => {
+      this.sendSignal(participantId, 'ice-candidate', event.candidate?.toJSON() ?? null);
+    };
+
     // Store peer connection
     this.peerConnections.set(participantId, peerConnection);
+    return peerConnection;
+  }
+
+  private async createPeerConnection(participantId: string): Promise<void> {
+    this.peerConnections.get(participantId)?.close();
+    const peerConnection = await this.setupPeerConnection(participantId);
 
-    // Create and send offer
+    // Create and send offer through the signaling server
     const offer = await peerConnection.createOffer();
     await peerConnection.setLocalDescription(offer);
-    
-    // In a real implementation, send offer through signaling server
-    console.log(`Offer created for participant ${participantId}`);
+    await this.sendSignal(participantId, 'offer', offer);
   }
 
   private handleIncomingAudio(participantId: string, stream: MediaStream): void {
@@ -372,24 +776,12 @@ export class MobileAudioStreamingService {
   }
 
   // Utility methods
-  muteParticipant(participantFid: number): void {
-    if (!this.currentRoom) return;
-
-    const participant = this.currentRoom.participants.find(p => p.fid === participantFid);
-    if (participant) {
-      participant.isMuted = true;
-      this.onRoomUpdate?.(this.currentRoom);
-    }
+  muteParticipant(participantFid: number): Promise<void> {
+    return this.moderate('mute', participantFid);
   }
 
-  unmuteParticipant(participantFid: number): void {
-    if (!this.currentRoom) return;
-
-    const participant = this.currentRoom.participants.find(p => p.fid === participantFid);
-    if (participant) {
-      participant.isMuted = false;
-      this.onRoomUpdate?.(this.currentRoom);
-    }
+  unmuteParticipant(participantFid: number): Promise<void> {
+    return this.moderate('unmute', participantFid);
   }
 
   getCurrentRoom(): AudioRoom | null {
@@ -417,6 +809,22 @@ export class MobileAudioStreamingService {
     this.onParticipantLeft = callback;
   }
 
+  setJoinRequestCallback(callback: (participant: RoomParticipant) => void): void {
+    this.onJoinRequest = callback;
+  }
+
+  setJoinResolvedCallback(callback: (approved: boolean) => void): void {
+    this.onJoinResolved = callback;
+  }
+
+  setRoomEndedCallback(callback: () => void): void {
+    this.onRoomEnded = callback;
+  }
+
+  setRemovedCallback(callback: () => void): void {
+    this.onRemoved = callback;
+  }
+
   // Cleanup
   dispose(): void {
     this.leaveRoom();
@@ -0,0 +1,211 @@
+/**
+ * Offline Pitch Analyzer
+ * Extracts a time-stamped pitch/confidence/volume contour from a decoded recording.
+ * Pure TypeScript (no Web Audio), so contours can be produced in the browser
+ * after recording or on the server for uploaded files.
+ */
+
+import { PcmBuffer } from './PcmDecoder';
+import { createPitchDetector, PitchDetectionAlgorithm, PitchDetector } from './PitchDetector';
+
+export const PITCH_CONTOUR_VERSION = '1';
+
+export interface PitchFrame {
+  time: number; // Seconds from start of recording (frame centre)
+  frequency: number; // Hz, 0 when unvoiced
+  confidence: number; // 0-1
+  volume: number; // RMS, 0-1
+}
+
+export interface PitchContourSummary {
+  voicedRatio: number;
+  medianFrequency: number;
+  minFrequency: number;
+  maxFrequency: number;
+  averageConfidence: number;
+}
+
+export interface PitchContour {
+  version: string;
+  sampleRate: number; // Analysis sample rate (after decimation)
+  hopSize: number; // Seconds between frames
+  frameSize: number; // Seconds per analysis window
+  duration: number;
+  frames: PitchFrame[];
+  summary: PitchContourSummary;
+}
+
+export interface OfflinePitchAnalyzerOptions {
+  frameDuration?: number; // Seconds
+  hopDuration?: number; // Seconds
+  minFrequency?: number;
+  maxFrequency?: number;
+  volumeThreshold?: number; // RMS below this is treated as silence
+  confidenceThreshold?: number; // Frames below this are reported unvoiced
+  targetSampleRate?: number; // Decimate towards this rate before analysis
+  algorithm?: PitchDetectionAlgorithm;
+}
+
+const DEFAULT_OPTIONS: Required<OfflinePitchAnalyzerOptions> = {
+  frameDuration: 0.046,
+  hopDuration: 0.02,
+  minFrequency: 70, // Below a low bass E2
+  maxFrequency: 1100, // Above a soprano C6
+  volumeThreshold: 0.01,
+  confidenceThreshold: 0.5,
+  targetSampleRate: 16000,
+  algorithm: 'pyin' // No real-time budget offline, so use the most robust tracker
+};
+
+/**
+ * OfflinePitchAnalyzer - frame-by-frame pitch tracking over a whole recording
+ */
+export class OfflinePitchAnalyzer {
+  private options: Required<OfflinePitchAnalyzerOptions>;
+  private detector: PitchDetector;
+
+  constructor(options: OfflinePitchAnalyzerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.detector = createPitchDetector(this.options.algorithm, {
+      minFrequency: this.options.minFrequency,
+      maxFrequency: this.options.maxFrequency
+    });
+  }
+
+  /**
+   * Analyze a decoded recording and return its pitch contour
+   */
+  analyze(pcm: PcmBuffer): PitchContour {
+    const { samples, sampleRate } = this.downsample(pcm.samples, pcm.sampleRate);
+    const frameLength = Math.max(64, Math.round(this.options.frameDuration * sampleRate));
+    const hopLength = Math.max(1, Math.round(this.options.hopDuration * sampleRate));
+    const frames: PitchFrame[] = [];
+    this.detector.reset();
+
+    for (let start = 0; start + frameLength <= samples.length; start += hopLength) {
+      const frame = samples.subarray(start, start + frameLength);
+      const time = (start + frameLength / 2) / sampleRate;
+      const volume = this.calculateVolume(frame);
+
+      let frequency = 0;
+      let confidence = 0;
+
+      if (volume >= this.options.volumeThreshold) {
+        const detected = this.detector.detect(frame, sampleRate);
+        if (detected && detected.confidence >= this.options.confidenceThreshold) {
+          frequency = detected.frequency;
+          confidence = detected.confidence;
+        }
+      } else {
+        // Silence breaks pitch continuity for stateful detectors
+        this.detector.reset();
+      }
+
+      frames.push({
+        time: round(time, 3),
+        frequency: round(frequency, 2),
+        confidence: round(confidence, 3),
+        volume: round(volume, 4)
+      });
+    }
+
+    return {
+      version: PITCH_CONTOUR_VERSION,
+      sampleRate,
+      hopSize: hopLength / sampleRate,
+      frameSize: frameLength / sampleRate,
+      duration: pcm.duration,
+      frames,
+      summary: OfflinePitchAnalyzer.summarize(frames)
+    };
+  }
+
+  /**
+   * Summarize a set of frames (also used when re-reading stored contours)
+   */
+  static summarize(frames: PitchFrame[]): PitchContourSummary {
+    const voiced = frames.filter(frame => frame.frequency > 0);
+
+    if (voiced.length === 0) {
+      return {
+        voicedRatio: 0,
+        medianFrequency: 0,
+        minFrequency: 0,
+        maxFrequency: 0,
+        averageConfidence: 0
+      };
+    }
+
+    const frequencies = voiced.map(frame => frame.frequency).sort((a, b) => a - b);
+    const middle = Math.floor(frequencies.length / 2);
+    const median = frequencies.length % 2 === 0
+      ? (frequencies[middle - 1] + frequencies[middle]) / 2
+      : frequencies[middle];
+
+    return {
+      voicedRatio: round(voiced.length / frames.length, 3),
+      medianFrequency: round(median, 2),
+      minFrequency: frequencies[0],
+      maxFrequency: frequencies[frequencies.length - 1],
+      averageConfidence: round(voiced.reduce((sum, frame) => sum + frame.confidence, 0) / voiced.length, 3)
+    };
+  }
+
+  private calculateVolume(frame: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < frame.length; i++) {
+      sum += frame[i] * frame[i];
+    }
+    return Math.sqrt(sum / frame.length);
+  }
+
+  /**
+   * Integer-factor decimation with a moving-average low-pass.
+   * Keeps the O(n * lags) detectors affordable for full-length recordings.
+   */
+  private downsample(samples: Float32Array, sampleRate: number): { samples: Float32Array; sampleRate: number } {
+    const factor = Math.floor(sampleRate / this.options.targetSampleRate);
+    if (factor <= 1) {
+      return { samples, sampleRate };
+    }
+
+    const output = new Float32Array(Math.floor(samples.length / factor));
+    for (let i = 0; i < output.length; i++) {
+      let sum = 0;
+      const offset = i * factor;
+      for (let j = 0; j < factor; j++) {
+        sum += samples[offset + j];
+      }
+      output[i] = sum / factor;
+    }
+
+    return { samples: output, sampleRate: sampleRate / factor };
+  }
+}
+
+/**
+ * Runtime check for contours received over the network
+ */
+export function isPitchContour(value: unknown): value is PitchContour {
+  if (!value || typeof value !== 'object') return false;
+  const contour = value as PitchContour;
+
+  return typeof contour.version === 'string' &&
+    typeof contour.sampleRate === 'number' &&
+    typeof contour.hopSize === 'number' &&
+    typeof contour.duration === 'number' &&
+    Array.isArray(contour.frames) &&
+    contour.frames.every(frame =>
+      frame !== null &&
+      typeof frame === 'object' &&
+      typeof frame.time === 'number' &&
+      typeof frame.frequency === 'number' &&
+      typeof frame.confidence === 'number' &&
+      typeof frame.volume === 'number'
+    );
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
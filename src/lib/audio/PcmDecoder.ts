@@ -0,0 +1,192 @@
+/**
+ * PCM Decoder
+ * Turns recorded or uploaded audio into mono Float32 PCM for offline analysis.
+ * WAV parsing is pure TypeScript so it also runs inside API routes.
+ */
+
+export interface PcmBuffer {
+  samples: Float32Array; // Mono, normalized to [-1, 1]
+  sampleRate: number;
+  duration: number; // Seconds
+}
+
+/**
+ * Minimal shape of a Web Audio AudioBuffer, so callers can pass
+ * either a real AudioBuffer or a test double.
+ */
+export interface AudioBufferLike {
+  numberOfChannels: number;
+  sampleRate: number;
+  length: number;
+  getChannelData(channel: number): Float32Array;
+}
+
+/**
+ * Mix a (possibly multi-channel) AudioBuffer down to mono PCM
+ */
+export function audioBufferToPcm(buffer: AudioBufferLike): PcmBuffer {
+  const samples = new Float32Array(buffer.length);
+  const channels = Math.max(1, buffer.numberOfChannels);
+
+  for (let channel = 0; channel < channels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < buffer.length; i++) {
+      samples[i] += data[i] / channels;
+    }
+  }
+
+  return {
+    samples,
+    sampleRate: buffer.sampleRate,
+    duration: buffer.length / buffer.sampleRate
+  };
+}
+
+/**
+ * Check for a RIFF/WAVE header
+ */
+export function isWav(data: ArrayBuffer): boolean {
+  if (data.byteLength < 12) return false;
+  const view = new DataView(data);
+  return readString(view, 0, 4) === 'RIFF' && readString(view, 8, 4) === 'WAVE';
+}
+
+/**
+ * Decode a PCM or IEEE-float WAV file into mono PCM
+ * @throws Error if the file is not a supported WAV
+ */
+export function decodeWav(data: ArrayBuffer): PcmBuffer {
+  if (!isWav(data)) {
+    throw new Error('Not a WAV file');
+  }
+
+  const view = new DataView(data);
+  let offset = 12;
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk RIFF chunks until we have both "fmt " and "data"
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = readString(view, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const chunkStart = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      let audioFormat = view.getUint16(chunkStart, true);
+      // WAVE_FORMAT_EXTENSIBLE stores the real format code in its sub-format GUID
+      if (audioFormat === 0xfffe && chunkSize >= 26) {
+        audioFormat = view.getUint16(chunkStart + 24, true);
+      }
+      format = {
+        audioFormat,
+        channels: view.getUint16(chunkStart + 2, true),
+        sampleRate: view.getUint32(chunkStart + 4, true),
+        bitsPerSample: view.getUint16(chunkStart + 14, true)
+      };
+    } else if (chunkId === 'data') {
+      dataOffset = chunkStart;
+      // Streaming encoders sometimes write 0 or 0xFFFFFFFF here
+      dataLength = Math.min(chunkSize || view.byteLength, view.byteLength - chunkStart);
+      break;
+    }
+
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  if (!format || dataOffset < 0) {
+    throw new Error('WAV file is missing fmt or data chunk');
+  }
+
+  const { audioFormat, channels, sampleRate, bitsPerSample } = format;
+  // 1 = PCM, 3 = IEEE float
+  if (audioFormat !== 1 && audioFormat !== 3) {
+    throw new Error(`Unsupported WAV encoding: ${audioFormat}`);
+  }
+  if (channels < 1 || sampleRate <= 0) {
+    throw new Error('Invalid WAV format header');
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channels));
+  const samples = new Float32Array(frameCount);
+  const isFloat = audioFormat === 3;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      const position = dataOffset + (frame * channels + channel) * bytesPerSample;
+      sum += readSample(view, position, bitsPerSample, isFloat);
+    }
+    samples[frame] = sum / channels;
+  }
+
+  return {
+    samples,
+    sampleRate,
+    duration: frameCount / sampleRate
+  };
+}
+
+/**
+ * Decode any browser-supported audio Blob (webm/opus, mp4, wav) to mono PCM.
+ * Uses Web Audio's decoder in the browser; on the server, or without Web Audio,
+ * falls back to the WAV parser or the WebAssembly decoders in AudioDecoder.
+ * @throws Error if the audio cannot be decoded
+ */
+export async function decodeAudioBlob(blob: Blob): Promise<PcmBuffer> {
+  const arrayBuffer = await blob.arrayBuffer();
+
+  if (typeof window !== 'undefined') {
+    const AudioContextClass: typeof AudioContext | undefined =
+      window.AudioContext || (window as any).webkitAudioContext;
+
+    if (AudioContextClass) {
+      const audioContext = new AudioContextClass();
+      try {
+        // decodeAudioData detaches the buffer, so hand it a copy
+        const decoded = await audioContext.decodeAudioData(arrayBuffer.slice(0));
+        return audioBufferToPcm(decoded);
+      } catch (error) {
+        if (!isWav(arrayBuffer)) {
+          throw new Error(`Failed to decode audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      } finally {
+        audioContext.close();
+      }
+    }
+  }
+
+  if (isWav(arrayBuffer)) {
+    return decodeWav(arrayBuffer);
+  }
+  const { decodeAudio } = await import('./AudioDecoder');
+  return decodeAudio(arrayBuffer);
+}
+
+function readSample(view: DataView, position: number, bitsPerSample: number, isFloat: boolean): number {
+  switch (bitsPerSample) {
+    case 8:
+      return (view.getUint8(position) - 128) / 128;
+    case 16:
+      return view.getInt16(position, true) / 0x8000;
+    case 24: {
+      const value = view.getUint8(position) |
+        (view.getUint8(position + 1) << 8) |
+        (view.getInt8(position + 2) << 16);
+      return value / 0x800000;
+    }
+    case 32:
+      return isFloat ? view.getFloat32(position, true) : view.getInt32(position, true) / 0x80000000;
+    default:
+      throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+  }
+}
+
+function readString(view: DataView, offset: number, length: number): string {
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return result;
+}
@@ -0,0 +1,371 @@
+/**
+ * Pitch Detectors
+ * Pluggable fundamental-frequency estimators shared by the live tuner,
+ * the challenge coach and offline contour extraction.
+ * Pure TypeScript (no Web Audio), so every detector also runs server-side.
+ */
+
+import { PitchData } from '@/types';
+
+export type PitchDetectionAlgorithm = 'autocorrelation' | 'yin' | 'pyin';
+
+export interface PitchEstimate {
+  frequency: number; // Hz
+  confidence: number; // 0-1
+}
+
+export interface PitchDetectorOptions {
+  minFrequency?: number;
+  maxFrequency?: number;
+  threshold?: number; // YIN absolute threshold on the normalized difference
+}
+
+/**
+ * Common interface for all pitch detection algorithms.
+ * Detectors may keep state between frames (pYIN tracks the previous pitch),
+ * so use one instance per audio stream and reset() it between takes.
+ */
+export interface PitchDetector {
+  readonly algorithm: PitchDetectionAlgorithm;
+  detect(buffer: Float32Array, sampleRate: number): PitchEstimate | null;
+  reset(): void;
+}
+
+const DEFAULT_OPTIONS: Required<PitchDetectorOptions> = {
+  minFrequency: 70, // Below a low bass E2
+  maxFrequency: 1100, // Above a soprano C6
+  threshold: 0.15
+};
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+const IN_TUNE_CENTS = 10;
+
+/**
+ * Normalized autocorrelation restricted to the vocal lag range.
+ * Cheapest option; picks the first peak close to the global maximum
+ * to limit octave-down errors.
+ */
+export class AutocorrelationPitchDetector implements PitchDetector {
+  readonly algorithm = 'autocorrelation' as const;
+  private options: Required<PitchDetectorOptions>;
+
+  constructor(options: PitchDetectorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  detect(buffer: Float32Array, sampleRate: number): PitchEstimate | null {
+    const { minLag, maxLag } = lagRange(buffer.length, sampleRate, this.options);
+    if (maxLag <= minLag) return null;
+
+    const correlation = new Float32Array(maxLag + 2);
+    let bestValue = 0;
+
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+      let cross = 0;
+      let energyA = 0;
+      let energyB = 0;
+      for (let i = 0; i < buffer.length - lag; i++) {
+        cross += buffer[i] * buffer[i + lag];
+        energyA += buffer[i] * buffer[i];
+        energyB += buffer[i + lag] * buffer[i + lag];
+      }
+      const denominator = Math.sqrt(energyA * energyB);
+      correlation[lag] = denominator > 0 ? cross / denominator : 0;
+      if (lag >= minLag && lag <= maxLag && correlation[lag] > bestValue) {
+        bestValue = correlation[lag];
+      }
+    }
+
+    if (bestValue <= 0) return null;
+
+    // First local maximum within 90% of the best peak
+    let chosenLag = -1;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (correlation[lag] >= bestValue * 0.9 &&
+          correlation[lag] >= correlation[lag - 1] &&
+          correlation[lag] >= correlation[lag + 1]) {
+        chosenLag = lag;
+        break;
+      }
+    }
+    if (chosenLag < 0) return null;
+
+    const refinedLag = chosenLag + parabolicShift(correlation, chosenLag);
+
+    return {
+      frequency: sampleRate / refinedLag,
+      confidence: clamp(correlation[chosenLag], 0, 1)
+    };
+  }
+
+  reset(): void {
+    // Stateless
+  }
+}
+
+/**
+ * YIN (de Cheveigné & Kawahara, 2002).
+ * The cumulative mean normalized difference plus "first dip under the threshold"
+ * rule is far less prone to octave errors than raw autocorrelation,
+ * especially on low voices with a weak fundamental.
+ */
+export class YinPitchDetector implements PitchDetector {
+  readonly algorithm = 'yin' as const;
+  private options: Required<PitchDetectorOptions>;
+
+  constructor(options: PitchDetectorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  detect(buffer: Float32Array, sampleRate: number): PitchEstimate | null {
+    const { minLag, maxLag } = lagRange(buffer.length, sampleRate, this.options);
+    if (maxLag <= minLag) return null;
+
+    const cmnd = cumulativeMeanNormalizedDifference(buffer, maxLag);
+
+    // First dip below the threshold, followed down to its local minimum
+    let chosenLag = -1;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (cmnd[lag] < this.options.threshold) {
+        while (lag + 1 <= maxLag && cmnd[lag + 1] < cmnd[lag]) {
+          lag++;
+        }
+        chosenLag = lag;
+        break;
+      }
+    }
+
+    // No dip under the threshold - fall back to the global minimum
+    if (chosenLag < 0) {
+      chosenLag = minLag;
+      for (let lag = minLag + 1; lag <= maxLag; lag++) {
+        if (cmnd[lag] < cmnd[chosenLag]) chosenLag = lag;
+      }
+    }
+
+    const refinedLag = chosenLag + parabolicShift(cmnd, chosenLag);
+
+    return {
+      frequency: sampleRate / refinedLag,
+      confidence: clamp(1 - cmnd[chosenLag], 0, 1)
+    };
+  }
+
+  reset(): void {
+    // Stateless
+  }
+}
+
+/**
+ * Probabilistic YIN (Mauch & Dixon, 2014), adapted for streaming.
+ * Every trough of the YIN curve becomes a pitch candidate weighted by a
+ * Beta(2, 18) prior over thresholds; candidates are then chosen with a
+ * pitch-continuity transition so single-frame octave jumps are suppressed.
+ */
+export class ProbabilisticYinPitchDetector implements PitchDetector {
+  readonly algorithm = 'pyin' as const;
+  private options: Required<PitchDetectorOptions>;
+  private previousFrequency = 0;
+
+  private static readonly THRESHOLDS = Array.from({ length: 100 }, (_, i) => (i + 1) / 100);
+  private static readonly THRESHOLD_PRIOR = betaPrior(ProbabilisticYinPitchDetector.THRESHOLDS, 2, 18);
+  // Probability mass kept for the global minimum when no trough is under a threshold
+  private static readonly ABSOLUTE_MIN_WEIGHT = 0.01;
+  // Transition weight for jumps outside the continuity window
+  private static readonly JUMP_WEIGHT = 0.1;
+  private static readonly CONTINUITY_CENTS = 300;
+
+  constructor(options: PitchDetectorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  detect(buffer: Float32Array, sampleRate: number): PitchEstimate | null {
+    const { minLag, maxLag } = lagRange(buffer.length, sampleRate, this.options);
+    if (maxLag <= minLag) return null;
+
+    const cmnd = cumulativeMeanNormalizedDifference(buffer, maxLag);
+
+    const troughs: number[] = [];
+    let globalMinLag = minLag;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (cmnd[lag] < cmnd[globalMinLag]) globalMinLag = lag;
+      if (cmnd[lag] <= cmnd[lag - 1] && cmnd[lag] < cmnd[lag + 1]) {
+        troughs.push(lag);
+      }
+    }
+    if (troughs.length === 0) troughs.push(globalMinLag);
+
+    // Each threshold votes for the first trough underneath it
+    const candidates: { lag: number; probability: number }[] = [];
+    const { THRESHOLDS, THRESHOLD_PRIOR, ABSOLUTE_MIN_WEIGHT } = ProbabilisticYinPitchDetector;
+    for (let i = 0; i < THRESHOLDS.length; i++) {
+      const trough = troughs.find(lag => cmnd[lag] < THRESHOLDS[i]);
+      const lag = trough ?? globalMinLag;
+      const weight = trough !== undefined ? THRESHOLD_PRIOR[i] : THRESHOLD_PRIOR[i] * ABSOLUTE_MIN_WEIGHT;
+      const candidate = candidates.find(entry => entry.lag === lag);
+      if (candidate) {
+        candidate.probability += weight;
+      } else {
+        candidates.push({ lag, probability: weight });
+      }
+    }
+
+    let best = candidates[0];
+    let bestScore = -1;
+    for (const candidate of candidates) {
+      const score = candidate.probability * this.transitionWeight(sampleRate / candidate.lag);
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    if (!best || best.probability <= 0) {
+      this.previousFrequency = 0;
+      return null;
+    }
+
+    const { lag, probability } = best;
+    const frequency = sampleRate / (lag + parabolicShift(cmnd, lag));
+    this.previousFrequency = frequency;
+
+    return {
+      frequency,
+      confidence: clamp(probability, 0, 1)
+    };
+  }
+
+  reset(): void {
+    this.previousFrequency = 0;
+  }
+
+  private transitionWeight(frequency: number): number {
+    if (this.previousFrequency <= 0) return 1;
+
+    const { CONTINUITY_CENTS, JUMP_WEIGHT } = ProbabilisticYinPitchDetector;
+    const cents = Math.abs(1200 * Math.log2(frequency / this.previousFrequency));
+    if (cents >= CONTINUITY_CENTS) return JUMP_WEIGHT;
+
+    // Linear fall-off inside the continuity window
+    return 1 - (1 - JUMP_WEIGHT) * (cents / CONTINUITY_CENTS);
+  }
+}
+
+/**
+ * Create a detector for the given algorithm
+ */
+export function createPitchDetector(
+  algorithm: PitchDetectionAlgorithm,
+  options: PitchDetectorOptions = {}
+): PitchDetector {
+  switch (algorithm) {
+    case 'autocorrelation':
+      return new AutocorrelationPitchDetector(options);
+    case 'pyin':
+      return new ProbabilisticYinPitchDetector(options);
+    case 'yin':
+    default:
+      return new YinPitchDetector(options);
+  }
+}
+
+/**
+ * Convert a frequency to note name, octave and cents (equal temperament, A4 = 440Hz)
+ */
+export function frequencyToNote(frequency: number): { note: string; octave: number; cents: number; isInTune: boolean } {
+  if (frequency <= 0) {
+    return { note: 'A', octave: 4, cents: 0, isInTune: false };
+  }
+
+  // MIDI note numbers: 69 = A4, 60 = C4
+  const exactMidi = 69 + 12 * Math.log2(frequency / 440);
+  const midi = Math.round(exactMidi);
+  const cents = Math.round((exactMidi - midi) * 100);
+
+  return {
+    note: NOTE_NAMES[((midi % 12) + 12) % 12],
+    octave: Math.floor(midi / 12) - 1,
+    cents,
+    isInTune: Math.abs(cents) < IN_TUNE_CENTS
+  };
+}
+
+/**
+ * Build the canonical PitchData for a detector result.
+ * A null estimate produces an unvoiced reading (frequency 0).
+ */
+export function createPitchData(
+  estimate: PitchEstimate | null,
+  volume: number,
+  timestamp: number = Date.now()
+): PitchData {
+  const frequency = estimate?.frequency || 0;
+
+  return {
+    frequency,
+    ...frequencyToNote(frequency),
+    volume,
+    confidence: frequency > 0 ? estimate!.confidence : 0,
+    timestamp
+  };
+}
+
+function lagRange(
+  bufferLength: number,
+  sampleRate: number,
+  options: Required<PitchDetectorOptions>
+): { minLag: number; maxLag: number } {
+  return {
+    minLag: Math.max(2, Math.floor(sampleRate / options.maxFrequency)),
+    // Keep at least half the buffer as the integration window
+    maxLag: Math.min(Math.floor(bufferLength / 2) - 2, Math.ceil(sampleRate / options.minFrequency))
+  };
+}
+
+/**
+ * YIN steps 2-3: difference function normalized by its running mean.
+ * Returned array covers lags 0..maxLag + 1.
+ */
+function cumulativeMeanNormalizedDifference(buffer: Float32Array, maxLag: number): Float32Array {
+  const window = buffer.length - maxLag - 1;
+  const cmnd = new Float32Array(maxLag + 2);
+  cmnd[0] = 1;
+
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag + 1; lag++) {
+    let difference = 0;
+    for (let i = 0; i < window; i++) {
+      const delta = buffer[i] - buffer[i + lag];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    cmnd[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1;
+  }
+
+  return cmnd;
+}
+
+/**
+ * Sub-sample offset of a peak/trough from parabolic interpolation
+ */
+function parabolicShift(values: Float32Array, index: number): number {
+  const previous = values[index - 1];
+  const current = values[index];
+  const next = values[index + 1];
+  const curvature = previous - 2 * current + next;
+  if (curvature === 0) return 0;
+  return clamp(0.5 * (previous - next) / curvature, -0.5, 0.5);
+}
+
+/**
+ * Beta distribution pdf sampled at the given points, normalized to sum to 1
+ */
+function betaPrior(points: number[], alpha: number, beta: number): number[] {
+  const weights = points.map(x => (x >= 1 ? 0 : Math.pow(x, alpha - 1) * Math.pow(1 - x, beta - 1)));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => weight / total);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,284 @@
+/**
+ * Submission Verifier
+ * Server-side checks for challenge submissions: fetches the uploaded audio,
+ * verifies its real format and duration, and flags claimed numbers
+ * (duration, accuracy, pitch track) that diverge from what the audio supports.
+ */
+
+import { probeAudio, AudioFormat } from './AudioProbe';
+import { fetchAudioBytes, isFetchableAudioUrl, UnsafeAudioUrlError } from './AudioFetch';
+import { decodeAudio } from './AudioDecoder';
+import { OfflinePitchAnalyzer, PitchContour } from './OfflinePitchAnalyzer';
+
+export type VerificationStatus = 'verified' | 'unverified' | 'flagged';
+
+export type VerificationFlagCode =
+  | 'audio_unreachable'
+  | 'duration_unverified'
+  | 'duration_mismatch'
+  | 'pitch_track_mismatch'
+  | 'pitch_track_unverified'
+  | 'accuracy_unverified'
+  | 'accuracy_mismatch'
+  | 'duplicate_audio';
+
+export interface VerificationFlag {
+  code: VerificationFlagCode;
+  message: string;
+  claimed?: number;
+  actual?: number;
+}
+
+export interface SubmissionVerification {
+  status: VerificationStatus;
+  rejection: string | null; // Set when the submission must not be stored at all
+  format: AudioFormat | null;
+  sizeBytes: number | null;
+  duration: number | null; // Seconds, from the audio container
+  pitchTrack: PitchContour | null; // Extracted server-side when the audio is decodable here - the only contour to score
+  flags: VerificationFlag[];
+}
+
+// Divergence tolerances
+const DURATION_TOLERANCE_SECONDS = 2;
+const DURATION_TOLERANCE_RATIO = 0.1;
+const ACCURACY_TOLERANCE_POINTS = 15;
+const PITCH_TRACK_MEDIAN_TOLERANCE_SEMITONES = 1;
+const PITCH_TRACK_VOICED_RATIO_TOLERANCE = 0.25;
+
+// Flags that make a submission ineligible for leaderboards
+const BLOCKING_FLAGS: VerificationFlagCode[] = [
+  'audio_unreachable',
+  'duration_mismatch',
+  'pitch_track_mismatch',
+  'accuracy_mismatch',
+  'duplicate_audio'
+];
+
+export class SubmissionVerifier {
+  private static instance: SubmissionVerifier;
+  private analyzer = new OfflinePitchAnalyzer();
+
+  static getInstance(): SubmissionVerifier {
+    if (!SubmissionVerifier.instance) {
+      SubmissionVerifier.instance = new SubmissionVerifier();
+    }
+    return SubmissionVerifier.instance;
+  }
+
+  /**
+   * Fetch and inspect the submitted audio, comparing it to the claimed duration and pitch track.
+   * Unfetchable URLs and non-audio payloads come back with a rejection reason.
+   */
+  async verifyAudio(params: {
+    audioUrl: string;
+    claimedDuration?: number;
+    pitchTrack?: PitchContour | null;
+  }): Promise<SubmissionVerification> {
+    const { audioUrl, claimedDuration, pitchTrack } = params;
+    const flags: VerificationFlag[] = [];
+
+    if (!isFetchableAudioUrl(audioUrl)) {
+      return this.reject('audioUrl must be a public http(s) URL');
+    }
+
+    let data: ArrayBuffer | null;
+    try {
+      data = await fetchAudioBytes(audioUrl);
+    } catch (error) {
+      if (error instanceof UnsafeAudioUrlError) {
+        return this.reject('audioUrl must be a public http(s) URL');
+      }
+      // Gateways are flaky - keep the submission but never trust its numbers
+      flags.push({
+        code: 'audio_unreachable',
+        message: `Could not fetch submitted audio: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+      return this.finalize({ rejection: null, format: null, sizeBytes: null, duration: null, pitchTrack: null, flags });
+    }
+
+    if (!data) {
+      return this.reject('Submitted audio exceeds the size limit');
+    }
+
+    const probe = probeAudio(data);
+    if (!probe.format) {
+      return this.reject('Submitted file is not a supported audio format');
+    }
+
+    if (probe.duration === null) {
+      flags.push({ code: 'duration_unverified', message: `Could not read duration from ${probe.format} container` });
+    } else if (typeof claimedDuration === 'number' && this.durationsDiverge(claimedDuration, probe.duration)) {
+      flags.push({
+        code: 'duration_mismatch',
+        message: 'Claimed duration does not match the audio',
+        claimed: claimedDuration,
+        actual: round(probe.duration, 2)
+      });
+    }
+
+    // Extract our own contour; only MP4/AAC recordings cannot be decoded here
+    let serverPitchTrack: PitchContour | null = null;
+    try {
+      serverPitchTrack = this.analyzer.analyze(await decodeAudio(data));
+    } catch (error) {
+      console.warn('Server-side pitch extraction failed:', error);
+    }
+
+    if (pitchTrack) {
+      const mismatch = this.comparePitchTrack(pitchTrack, probe.duration, serverPitchTrack);
+      if (mismatch) {
+        flags.push(mismatch);
+      } else if (!serverPitchTrack) {
+        // Only its duration could be checked; the melody in it could be anything
+        flags.push({ code: 'pitch_track_unverified', message: `Pitch track could not be checked against ${probe.format} audio` });
+      }
+    }
+
+    return this.finalize({
+      rejection: null,
+      format: probe.format,
+      sizeBytes: data.byteLength,
+      duration: probe.duration,
+      pitchTrack: serverPitchTrack,
+      flags
+    });
+  }
+
+  /**
+   * Compare a client-claimed accuracy with the server-computed one (null when it could not be computed)
+   */
+  checkAccuracy(
+    verification: SubmissionVerification,
+    claimedAccuracy: number | undefined,
+    serverAccuracy: number | null
+  ): SubmissionVerification {
+    const flags = [...verification.flags];
+
+    if (serverAccuracy === null) {
+      if (typeof claimedAccuracy === 'number') {
+        flags.push({
+          code: 'accuracy_unverified',
+          message: 'Accuracy could not be recomputed on the server',
+          claimed: claimedAccuracy
+        });
+      }
+    } else if (typeof claimedAccuracy === 'number' &&
+               Math.abs(claimedAccuracy - serverAccuracy) > ACCURACY_TOLERANCE_POINTS) {
+      flags.push({
+        code: 'accuracy_mismatch',
+        message: 'Claimed accuracy diverges from server score',
+        claimed: claimedAccuracy,
+        actual: serverAccuracy
+      });
+    }
+
+    return this.finalize({ ...verification, flags });
+  }
+
+  /**
+   * Flag a submission whose audio is a copy of an earlier submission
+   */
+  checkDuplicate(
+    verification: SubmissionVerification,
+    duplicate: { submissionId: string; matchType: string; similarity: number } | null
+  ): SubmissionVerification {
+    if (!duplicate) return verification;
+
+    return this.finalize({
+      ...verification,
+      flags: [
+        ...verification.flags,
+        {
+          code: 'duplicate_audio',
+          message: `Audio duplicates submission ${duplicate.submissionId} (${duplicate.matchType} match)`,
+          actual: duplicate.similarity
+        }
+      ]
+    });
+  }
+
+  private reject(reason: string): SubmissionVerification {
+    return {
+      status: 'flagged',
+      rejection: reason,
+      format: null,
+      sizeBytes: null,
+      duration: null,
+      pitchTrack: null,
+      flags: []
+    };
+  }
+
+  private finalize(verification: Omit<SubmissionVerification, 'status'>): SubmissionVerification {
+    const { flags } = verification;
+    let status: VerificationStatus = 'verified';
+
+    if (flags.some(flag => BLOCKING_FLAGS.includes(flag.code))) {
+      status = 'flagged';
+    } else if (flags.length > 0) {
+      status = 'unverified';
+    }
+
+    return { ...verification, status };
+  }
+
+  private durationsDiverge(claimed: number, actual: number): boolean {
+    const tolerance = Math.max(DURATION_TOLERANCE_SECONDS, actual * DURATION_TOLERANCE_RATIO);
+    return Math.abs(claimed - actual) > tolerance;
+  }
+
+  /**
+   * A client pitch track must cover the real recording, and match our own
+   * extraction when we have one
+   */
+  private comparePitchTrack(
+    pitchTrack: PitchContour,
+    duration: number | null,
+    serverPitchTrack: PitchContour | null
+  ): VerificationFlag | null {
+    if (duration !== null && this.durationsDiverge(pitchTrack.duration, duration)) {
+      return {
+        code: 'pitch_track_mismatch',
+        message: 'Pitch track duration does not match the audio',
+        claimed: pitchTrack.duration,
+        actual: round(duration, 2)
+      };
+    }
+
+    if (!serverPitchTrack) return null;
+
+    const claimed = OfflinePitchAnalyzer.summarize(pitchTrack.frames);
+    const actual = serverPitchTrack.summary;
+
+    if (Math.abs(claimed.voicedRatio - actual.voicedRatio) > PITCH_TRACK_VOICED_RATIO_TOLERANCE) {
+      return {
+        code: 'pitch_track_mismatch',
+        message: 'Pitch track voicing does not match the audio',
+        claimed: claimed.voicedRatio,
+        actual: actual.voicedRatio
+      };
+    }
+
+    if (claimed.medianFrequency > 0 && actual.medianFrequency > 0) {
+      const semitones = Math.abs(12 * Math.log2(claimed.medianFrequency / actual.medianFrequency));
+      if (semitones > PITCH_TRACK_MEDIAN_TOLERANCE_SEMITONES) {
+        return {
+          code: 'pitch_track_mismatch',
+          message: 'Pitch track register does not match the audio',
+          claimed: claimed.medianFrequency,
+          actual: actual.medianFrequency
+        };
+      }
+    }
+
+    return null;
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export const submissionVerifier = SubmissionVerifier.getInstance();
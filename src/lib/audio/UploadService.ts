@@ -1,5 +1,7 @@
 'use client';
 
+import type { FingerprintRegistration } from './AudioFingerprintIndex';
+
 /**
  * Enhanced Upload Service with real IPFS integration
  * Handles audio uploads with proper error handling and retry logic
@@ -28,6 +30,7 @@ export interface UploadResult {
   metadata?: UploadMetadata;
   warning?: string;
   error?: string;
+  fingerprint?: Pick<FingerprintRegistration, 'contentHash' | 'fingerprinted' | 'duplicateOf'> | null;
 }
 
 export class UploadService {
@@ -0,0 +1,159 @@
+/**
+ * Account Service
+ * One GIGAVIBE account holds several wallets and at most one Farcaster ID.
+ * Wallets are linked by signing a SIWE message; a Farcaster ID is linked
+ * when one of the account's wallets is a verified address of that FID.
+ * Linking an identity another account already holds merges the two (see
+ * linked-identities-schema.sql).
+ */
+
+import { databaseService, IdentityLinkResult } from '@/lib/database/DatabaseService';
+import { farcasterService, FarcasterUser } from '@/services/FarcasterService';
+import { RatingService } from '@/lib/services/RatingService';
+import { forYouFeedService } from '@/lib/discovery/ForYouFeedService';
+import { Session, verifySignIn } from './SessionAuth';
+
+export type AccountResult<T> = T | { error: string; status: number };
+
+export interface Account {
+  id: string;
+  /** The primary wallet, which the account's results and votes are keyed by */
+  userId: string;
+  /** Every linked wallet, lowercased */
+  wallets: string[];
+  fid: number | null;
+}
+
+export interface LinkResult {
+  account: Account;
+  merged: IdentityLinkResult;
+}
+
+class AccountService {
+  private static instance: AccountService;
+
+  static getInstance(): AccountService {
+    if (!AccountService.instance) {
+      AccountService.instance = new AccountService();
+    }
+    return AccountService.instance;
+  }
+
+  async getAccount(session: Session): Promise<Account> {
+    const identities = await databaseService.getUserIdentities(session.accountId);
+    const wallets = identities
+      .filter(identity => identity.kind === 'wallet')
+      .map(identity => identity.identifier);
+    const farcaster = identities.find(identity => identity.kind === 'farcaster');
+
+    return {
+      id: session.accountId,
+      userId: session.userId,
+      wallets,
+      fid: farcaster ? Number(farcaster.identifier) : session.fid
+    };
+  }
+
+  /**
+   * Link the wallet that signed `message` to the session's account
+   */
+  async linkWallet(
+    session: Session,
+    message: string,
+    signature: string,
+    host: string | null
+  ): Promise<AccountResult<LinkResult>> {
+    const verified = await verifySignIn(message, signature, host);
+    if ('error' in verified) {
+      return { error: 'Wallet signature could not be verified', status: 401 };
+    }
+
+    return this.link(session, 'wallet', verified.address.toLowerCase(), 'siwe');
+  }
+
+  /**
+   * Link a Farcaster ID that has one of the account's wallets as a verified
+   * (or custody) address
+   */
+  async linkFarcaster(session: Session, fid: number): Promise<AccountResult<LinkResult>> {
+    const user = await farcasterService.getUserByFid(fid);
+    if (!user) {
+      return { error: 'Farcaster user not found', status: 404 };
+    }
+
+    const account = await this.getAccount(session);
+    const addresses = [...user.verifiedAddresses, user.custodyAddress]
+      .filter((address): address is string => !!address)
+      .map(address => address.toLowerCase());
+
+    if (!account.wallets.some(wallet => addresses.includes(wallet))) {
+      return { error: 'None of your wallets is a verified address of this Farcaster account', status: 403 };
+    }
+
+    return this.link(session, 'farcaster', String(fid), 'farcaster_verified_address');
+  }
+
+  /**
+   * The account a Farcaster user acts as where there is no session, e.g. in
+   * frames: the account holding the FID, else the account of the user's first
+   * verified wallet, which the FID is then linked to.
+   * @returns null if the user has no account and no verified wallet
+   */
+  async getFarcasterAccount(user: FarcasterUser): Promise<{ accountId: string; userId: string } | null> {
+    const holder = await databaseService.getUserByFarcasterFid(user.fid);
+    if (holder) {
+      return { accountId: holder.id, userId: holder.wallet_address };
+    }
+
+    const [address] = user.verifiedAddresses;
+    if (!address) return null;
+
+    const account = await databaseService.ensureWalletAccount(address.toLowerCase());
+    // Nobody holds the FID, so there is nothing to merge
+    const linked = await databaseService.linkUserIdentity(account.id, 'farcaster', String(user.fid), 'farcaster_verified_address');
+    if ('conflict' in linked) {
+      console.warn(`⚠️ FID ${user.fid} not linked to account ${account.id}: ${linked.conflict}`);
+    }
+
+    return { accountId: account.id, userId: account.wallet_address };
+  }
+
+  /**
+   * The account holding a wallet, which may be any of its linked wallets, e.g.
+   * the `user_id` of a result submitted before its account was merged
+   * @returns null if no account holds the wallet
+   */
+  async getWalletAccount(address: string): Promise<{ accountId: string; userId: string } | null> {
+    const wallet = address.toLowerCase();
+    const holder = await databaseService.getUserByIdentity('wallet', wallet) ||
+      await databaseService.getUserByWallet(wallet);
+    return holder ? { accountId: holder.id, userId: holder.wallet_address } : null;
+  }
+
+  private async link(
+    session: Session,
+    kind: 'wallet' | 'farcaster',
+    identifier: string,
+    verifiedVia: 'siwe' | 'farcaster_verified_address'
+  ): Promise<AccountResult<LinkResult>> {
+    const merged = await databaseService.linkUserIdentity(session.accountId, kind, identifier, verifiedVia);
+    if ('conflict' in merged) {
+      return { error: merged.conflict, status: 409 };
+    }
+
+    if (merged.mergedAccountId) {
+      console.log(`🔗 Merged account ${merged.mergedAccountId} into ${session.accountId}: ${merged.results} results, ${merged.ratings} ratings`);
+    }
+
+    // Duplicate votes were dropped; their aggregates are stale
+    const ratingService = RatingService.getInstance();
+    for (const performanceId of merged.reratedPerformanceIds) {
+      await ratingService.recompute(performanceId);
+    }
+    forYouFeedService.invalidateProfile(session.userId);
+
+    return { account: await this.getAccount(session), merged };
+  }
+}
+
+export const accountService = AccountService.getInstance();
@@ -0,0 +1,214 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import type { NextResponse } from 'next/server';
+import { SiweMessage } from 'siwe';
+import { AUTH_CONFIG } from '@/config/auth.config';
+import { databaseService, AuthSessionRow, User } from '@/lib/database/DatabaseService';
+
+export const SESSION_COOKIE = 'gigavibe_session';
+
+// Long enough to open a wallet and sign, short enough that stale nonces go
+const NONCE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * A signed-in wallet and the account it belongs to, as every API route sees it
+ */
+export interface Session {
+  id: string;
+  /** The wallet that signed in */
+  address: string;
+  chainId: number;
+  expiresAt: Date;
+  /** users.id of the account */
+  accountId: string;
+  /** The account's primary wallet; what results, votes and events are keyed by */
+  userId: string;
+  /** The account's linked Farcaster ID */
+  fid: number | null;
+}
+
+export function isSessionConfigured(): boolean {
+  return !!getSecret();
+}
+
+/**
+ * Issue a single-use nonce for a Sign-In with Ethereum message
+ */
+export async function createNonce(): Promise<{ nonce: string; expiresAt: Date }> {
+  // SIWE nonces must be alphanumeric
+  const nonce = randomBytes(16).toString('hex');
+  const expiresAt = new Date(Date.now() + NONCE_TTL_MS);
+
+  await databaseService.createSiweNonce(nonce, expiresAt);
+
+  // Fire and forget; expired nonces can never be redeemed anyway
+  databaseService.deleteSiweNoncesBefore(new Date()).catch(error => {
+    console.warn('⚠️ Failed to prune SIWE nonces:', error);
+  });
+
+  return { nonce, expiresAt };
+}
+
+/**
+ * Verify a signed SIWE message for this host and redeem its nonce, so the
+ * same signature can never open a second session.
+ */
+export async function verifySignIn(
+  message: string,
+  signature: string,
+  host: string | null
+): Promise<{ address: string; chainId: number } | { error: 'INVALID_SIGNATURE' | 'INVALID_NONCE' }> {
+  let fields;
+  try {
+    // Expiration and not-before are checked by verify
+    fields = await new SiweMessage(message).verify({ signature, domain: host || undefined });
+  } catch (error) {
+    console.warn('⚠️ SIWE verification failed:', error);
+    return { error: 'INVALID_SIGNATURE' };
+  }
+
+  if (!fields.success) {
+    return { error: 'INVALID_SIGNATURE' };
+  }
+
+  if (!(await databaseService.consumeSiweNonce(fields.data.nonce))) {
+    return { error: 'INVALID_NONCE' };
+  }
+
+  return { address: fields.data.address, chainId: fields.data.chainId };
+}
+
+/**
+ * Open a session for a verified wallet, creating its account on first sign-in
+ * @throws Error if AUTH_SESSION_SECRET is not configured
+ */
+export async function createSession(
+  address: string,
+  chainId: number,
+  request: Request
+): Promise<{ session: Session; token: string }> {
+  const secret = getSecret();
+  if (!secret) {
+    throw new Error('AUTH_SESSION_SECRET is not configured');
+  }
+
+  const account = await databaseService.ensureWalletAccount(address);
+  const row = await databaseService.createAuthSession({
+    id: randomUUID(),
+    address,
+    chain_id: chainId,
+    user_id: account.id,
+    user_agent: request.headers.get('user-agent')?.slice(0, 500) || null,
+    expires_at: new Date(Date.now() + AUTH_CONFIG.SESSION_DURATION).toISOString()
+  });
+
+  return { session: toSession(row, account), token: `${row.id}.${sign(row.id, secret)}` };
+}
+
+/**
+ * Resolve the session behind the request's session cookie.
+ * @returns null if there is no cookie, or the session is forged, expired or revoked
+ */
+export async function getSession(request: Request): Promise<Session | null> {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const [id, signature] = (readCookie(request, SESSION_COOKIE) || '').split('.');
+  if (!id || !signature) return null;
+
+  const expected = Buffer.from(sign(id, secret));
+  const provided = Buffer.from(signature);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  const row = await databaseService.getAuthSession(id);
+  if (!row || row.revoked_at || new Date(row.expires_at).getTime() <= Date.now()) {
+    return null;
+  }
+
+  // Sessions opened before accounts existed have no user_id
+  const account = row.user_id
+    ? await databaseService.getUserById(row.user_id)
+    : await databaseService.ensureWalletAccount(row.address);
+  if (!account) return null;
+
+  return toSession(row, account);
+}
+
+/**
+ * Swap the current session for a fresh one with a new expiry
+ * @returns null if the request has no live session
+ */
+export async function refreshSession(request: Request): Promise<{ session: Session; token: string } | null> {
+  const current = await getSession(request);
+  if (!current) return null;
+
+  // Only one concurrent refresh wins; the other is told to sign in again
+  if (!(await databaseService.revokeAuthSession(current.id))) {
+    return null;
+  }
+
+  return createSession(current.address, current.chainId, request);
+}
+
+/**
+ * Revoke the request's session, if it has one
+ */
+export async function endSession(request: Request): Promise<void> {
+  const session = await getSession(request);
+  if (session) {
+    await databaseService.revokeAuthSession(session.id);
+  }
+}
+
+export function setSessionCookie(response: NextResponse, token: string, session: Session): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: AUTH_CONFIG.SECURITY.REQUIRE_HTTPS,
+    sameSite: 'lax',
+    path: '/',
+    expires: session.expiresAt
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: AUTH_CONFIG.SECURITY.REQUIRE_HTTPS,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0
+  });
+}
+
+function toSession(row: AuthSessionRow, account: User): Session {
+  return {
+    id: row.id,
+    address: row.address,
+    chainId: row.chain_id,
+    expiresAt: new Date(row.expires_at),
+    accountId: account.id,
+    userId: account.wallet_address,
+    fid: account.farcaster_fid
+  };
+}
+
+function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie') || '';
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      return decodeURIComponent(part.slice(separator + 1).trim());
+    }
+  }
+  return null;
+}
+
+function getSecret(): string | undefined {
+  return process.env.AUTH_SESSION_SECRET;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
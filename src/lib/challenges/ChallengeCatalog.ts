@@ -0,0 +1,204 @@
+/**
+ * Challenge Catalog
+ * The admin API's view of a catalog challenge and its mapping to and from
+ * the challenges table. Pure functions - routes do the I/O.
+ */
+
+import type { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import type { ChallengeRow } from '@/lib/database/DatabaseService';
+import type { Challenge } from '@/types/challenge.types';
+
+export type ChallengeDifficulty = Challenge['difficulty'];
+export type ChallengeType = NonNullable<Challenge['type']>;
+
+export interface ChallengeStems {
+  preview: string; // Full mix
+  instrumental?: string | null;
+  vocal?: string | null;
+}
+
+/**
+ * Body of a create (all of `title` and `stems.preview` required) or update request
+ */
+export interface ChallengeInput {
+  id?: string;
+  title?: string;
+  artist?: string;
+  description?: string | null;
+  difficulty?: ChallengeDifficulty;
+  duration?: number | null;
+  bpm?: number | null;
+  key?: string | null;
+  tags?: string[];
+  type?: ChallengeType;
+  stems?: Partial<ChallengeStems>;
+  availableFrom?: string | null;
+  availableUntil?: string | null;
+}
+
+export const CHALLENGE_DIFFICULTIES: ChallengeDifficulty[] = ['easy', 'medium', 'hard'];
+export const CHALLENGE_TYPES: ChallengeType[] = ['viral', 'structured', 'featured'];
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]{2,63}$/;
+
+export function generateChallengeId(): string {
+  return `challenge-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+export function isChallengeAvailable(row: ChallengeRow, now: Date = new Date()): boolean {
+  if (row.archived_at) return false;
+  if (row.available_from && new Date(row.available_from) > now) return false;
+  if (row.available_until && new Date(row.available_until) <= now) return false;
+  return true;
+}
+
+/**
+ * Validate a create or update request
+ * @param partial True for updates, where every field is optional
+ * @returns Error messages, empty if valid
+ */
+export function validateChallengeInput(input: unknown, partial: boolean = false): string[] {
+  if (!input || typeof input !== 'object') {
+    return ['Challenge must be an object'];
+  }
+
+  const errors: string[] = [];
+  const challenge = input as Record<string, unknown>;
+  const stems = challenge.stems as Record<string, unknown> | undefined;
+
+  const isText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+  const isUrl = (value: unknown) => isText(value) && /^(https?|ipfs):\/\/|^\//.test(value as string);
+  const isOptional = (value: unknown) => value === undefined || value === null;
+  const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+  const isDate = (value: unknown) => typeof value === 'string' && !isNaN(Date.parse(value));
+
+  if (challenge.id !== undefined) {
+    if (partial) {
+      errors.push('id cannot be changed');
+    } else if (typeof challenge.id !== 'string' || !ID_PATTERN.test(challenge.id)) {
+      errors.push('id must be 3-64 lowercase letters, digits or dashes');
+    }
+  }
+
+  if (partial ? challenge.title !== undefined && !isText(challenge.title) : !isText(challenge.title)) {
+    errors.push('title is required');
+  }
+  if (challenge.artist !== undefined && !isText(challenge.artist)) {
+    errors.push('artist must be a non-empty string');
+  }
+  if (!isOptional(challenge.description) && typeof challenge.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  if (challenge.difficulty !== undefined && !CHALLENGE_DIFFICULTIES.includes(challenge.difficulty as ChallengeDifficulty)) {
+    errors.push(`difficulty must be one of: ${CHALLENGE_DIFFICULTIES.join(', ')}`);
+  }
+  if (challenge.type !== undefined && !CHALLENGE_TYPES.includes(challenge.type as ChallengeType)) {
+    errors.push(`type must be one of: ${CHALLENGE_TYPES.join(', ')}`);
+  }
+  for (const field of ['duration', 'bpm'] as const) {
+    if (!isOptional(challenge[field]) && !isPositiveInteger(challenge[field])) {
+      errors.push(`${field} must be a positive integer`);
+    }
+  }
+  if (!isOptional(challenge.key) && typeof challenge.key !== 'string') {
+    errors.push('key must be a string');
+  }
+  if (challenge.tags !== undefined &&
+      !(Array.isArray(challenge.tags) && challenge.tags.every(tag => isText(tag)))) {
+    errors.push('tags must be an array of strings');
+  }
+
+  if (stems === undefined) {
+    if (!partial) errors.push('stems.preview is required');
+  } else if (typeof stems !== 'object' || stems === null) {
+    errors.push('stems must be an object');
+  } else {
+    if (partial ? stems.preview !== undefined && !isUrl(stems.preview) : !isUrl(stems.preview)) {
+      errors.push('stems.preview must be a URL');
+    }
+    for (const stem of ['instrumental', 'vocal'] as const) {
+      if (!isOptional(stems[stem]) && !isUrl(stems[stem])) {
+        errors.push(`stems.${stem} must be a URL`);
+      }
+    }
+  }
+
+  for (const field of ['availableFrom', 'availableUntil'] as const) {
+    if (!isOptional(challenge[field]) && !isDate(challenge[field])) {
+      errors.push(`${field} must be an ISO date`);
+    }
+  }
+  if (isDate(challenge.availableFrom) && isDate(challenge.availableUntil) &&
+      Date.parse(challenge.availableUntil as string) <= Date.parse(challenge.availableFrom as string)) {
+    errors.push('availableUntil must be after availableFrom');
+  }
+
+  return errors;
+}
+
+/**
+ * Columns for a validated create request
+ */
+export function toChallengeInsert(input: ChallengeInput, createdBy: string): TablesInsert<'challenges'> {
+  return {
+    ...toChallengeUpdate(input),
+    id: input.id || generateChallengeId(),
+    title: input.title!.trim(),
+    preview_url: input.stems!.preview!,
+    source: 'admin',
+    created_by: createdBy
+  };
+}
+
+/**
+ * Columns for a validated update request; fields left out are not touched
+ */
+export function toChallengeUpdate(input: ChallengeInput): TablesUpdate<'challenges'> {
+  const update: TablesUpdate<'challenges'> = {};
+
+  if (input.title !== undefined) update.title = input.title.trim();
+  if (input.artist !== undefined) update.artist = input.artist.trim();
+  if (input.description !== undefined) update.description = input.description;
+  if (input.difficulty !== undefined) update.difficulty = input.difficulty;
+  if (input.duration !== undefined) update.duration = input.duration;
+  if (input.bpm !== undefined) update.bpm = input.bpm;
+  if (input.key !== undefined) update.musical_key = input.key;
+  if (input.tags !== undefined) update.tags = input.tags.map(tag => tag.trim());
+  if (input.type !== undefined) update.type = input.type;
+  if (input.stems?.preview !== undefined) update.preview_url = input.stems.preview;
+  if (input.stems?.instrumental !== undefined) update.instrumental_url = input.stems.instrumental;
+  if (input.stems?.vocal !== undefined) update.vocal_url = input.stems.vocal;
+  if (input.availableFrom !== undefined) update.available_from = input.availableFrom;
+  if (input.availableUntil !== undefined) update.available_until = input.availableUntil;
+
+  return update;
+}
+
+/**
+ * The unified Challenge shape served to the app. Social and market fields
+ * start empty; the client fills them from live data.
+ */
+export function toChallenge(row: ChallengeRow): Challenge {
+  return {
+    id: row.id,
+    title: row.title,
+    artist: row.artist,
+    difficulty: row.difficulty as ChallengeDifficulty,
+    duration: row.duration ?? 0,
+    description: row.description ?? undefined,
+    tags: row.tags,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    previewUrl: row.preview_url,
+    instrumentalUrl: row.instrumental_url ?? row.preview_url,
+    vocalUrl: row.vocal_url ?? undefined,
+    bpm: row.bpm ?? undefined,
+    key: row.musical_key ?? undefined,
+    participants: 0,
+    trending: false,
+    recentPerformers: [],
+    type: row.type as ChallengeType,
+    availableFrom: row.available_from ? new Date(row.available_from) : undefined,
+    availableUntil: row.available_until ? new Date(row.available_until) : undefined
+  };
+}
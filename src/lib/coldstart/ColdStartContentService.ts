@@ -7,6 +7,18 @@
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import { databaseService, SeedBlendPolicyRow } from '@/lib/database/DatabaseService';
+import { FeedReason } from '@/lib/zora/types';
+import challengeSongs from '@/data/challenge-songs.json';
+import {
+  DEFAULT_SEED_BLEND_POLICY,
+  SEED_ID_PREFIX,
+  SeedBlendConfig,
+  SeedBlendOverride,
+  blendWithSeeds,
+  resolveSeedBlendPolicy,
+  seedRatio
+} from './SeedBlending';
 
 export interface SeedPerformance {
   id: string;
@@ -37,6 +49,14 @@ export interface SeedPerformance {
   // Additional properties for compatibility
   isLiked?: boolean;
   realityRevealed?: boolean;
+  reasons?: FeedReason[]; // Why the For You feed picked it
+  spotlight?: boolean; // Generated from the challenge catalog rather than curated
+}
+
+export interface SeedBlendPlan {
+  ratio: number; // Share of the feed that should be seed content
+  realCount: number;
+  seeds: SeedPerformance[]; // Eligible seeds, least-covered challenges first
 }
 
 export interface ColdStartStrategy {
@@ -46,7 +66,11 @@ export interface ColdStartStrategy {
   encouragementMessages: string[];
 }
 
+const BLEND_PLAN_CACHE_MS = 60 * 1000;
+
 class ColdStartContentService {
+  private blendPlan: { plan: SeedBlendPlan; timestamp: number } | null = null;
+
   private strategy: ColdStartStrategy = {
     showSeedContent: true,
     seedContentRatio: 0.7, // Start with 70% seed content
@@ -127,29 +151,125 @@ class ColdStartContentService {
     hasMore: boolean;
     strategy: ColdStartStrategy;
   }> {
-    // Get real user performance count
-    const realPerformanceCount = await this.getRealPerformanceCount();
-    
-    // Adjust strategy based on real content availability
-    const adjustedStrategy = this.adjustStrategy(realPerformanceCount);
-    
-    // Get real performances
-    const realPerformances = await this.getRealPerformances(limit, offset);
-    
-    // Mix with seed content if needed
-    const mixedContent = this.mixContent(realPerformances, adjustedStrategy, limit);
-    
+    const [plan, realPerformances] = await Promise.all([
+      this.getBlendPlan(),
+      this.getRealPerformances(limit, offset)
+    ]);
+
+    const adjustedStrategy: ColdStartStrategy = {
+      ...this.strategy,
+      showSeedContent: plan.ratio > 0 && plan.seeds.length > 0,
+      seedContentRatio: plan.ratio
+    };
+
+    // Seeds only lead the first page; later pages are real content
+    const seeds = offset === 0 ? plan.seeds : [];
+    const mixedContent = blendWithSeeds(realPerformances, seeds, plan.ratio).slice(0, limit);
+
     return {
       performances: mixedContent,
-      hasMore: mixedContent.length === limit,
+      hasMore: realPerformances.length === limit,
       strategy: adjustedStrategy
     };
   }
 
+  /**
+   * Seed share for the feeds and the seeds eligible to fill it. Seeds for
+   * challenges with few real performances come first, so new challenges
+   * surface; a challenge whose policy retires its seeds contributes none.
+   */
+  async getBlendPlan(): Promise<SeedBlendPlan> {
+    if (this.blendPlan && Date.now() - this.blendPlan.timestamp < BLEND_PLAN_CACHE_MS) {
+      return this.blendPlan.plan;
+    }
+
+    const [config, realCount, challengeCounts] = await Promise.all([
+      this.getBlendConfig(),
+      this.getRealPerformanceCount(),
+      databaseService.getChallengeSubmissionCounts().catch(error => {
+        console.warn('⚠️ Challenge counts unavailable, treating challenges as empty:', error);
+        return {} as Record<string, number>;
+      })
+    ]);
+
+    const seeds = this.getSeedPerformances()
+      .map(seed => ({
+        seed,
+        ratio: seedRatio(challengeCounts[seed.challengeId] || 0, resolveSeedBlendPolicy(config, seed.challengeId))
+      }))
+      .filter(({ ratio }) => ratio > 0)
+      // Curated seeds before spotlights at the same coverage
+      .sort((a, b) => b.ratio - a.ratio || Number(!!a.seed.spotlight) - Number(!!b.seed.spotlight))
+      .map(({ seed }) => seed);
+
+    const plan: SeedBlendPlan = {
+      ratio: seedRatio(realCount, config.defaults),
+      realCount,
+      seeds
+    };
+
+    this.blendPlan = { plan, timestamp: Date.now() };
+    return plan;
+  }
+
+  /**
+   * Default and per-challenge policies; the built-in policy if none are stored
+   */
+  async getBlendConfig(): Promise<SeedBlendConfig> {
+    let rows: SeedBlendPolicyRow[] = [];
+    try {
+      rows = await databaseService.getSeedBlendPolicies();
+    } catch (error) {
+      console.warn('⚠️ Seed blend policies unavailable, using defaults:', error);
+    }
+
+    const stored = rows.find(row => row.scope === 'default');
+    const config: SeedBlendConfig = {
+      defaults: { ...DEFAULT_SEED_BLEND_POLICY, ...(stored ? toOverride(stored) : {}) },
+      challenges: {}
+    };
+    for (const row of rows) {
+      if (row.scope !== 'default') {
+        config.challenges[row.scope] = toOverride(row);
+      }
+    }
+    return config;
+  }
+
+  /**
+   * Forget the cached plan after policies change
+   */
+  invalidateBlendPlan(): void {
+    this.blendPlan = null;
+  }
+
+  /**
+   * Curated seeds plus a spotlight for every catalog challenge without one
+   */
+  getSeedPerformances(): SeedPerformance[] {
+    const covered = new Set(this.seedPerformances.map(seed => seed.challengeId));
+    const spotlights = (challengeSongs as Array<{
+      id: string;
+      title: string;
+      audioUrl: string;
+      difficulty?: string;
+      duration?: number;
+      uploadedAt?: string;
+    }>)
+      .filter(song => !covered.has(song.id))
+      .map(song => this.toSpotlight(song));
+
+    return [...this.seedPerformances, ...spotlights];
+  }
+
+  getSeedPerformance(id: string): SeedPerformance | null {
+    return this.getSeedPerformances().find(seed => seed.id === id) || null;
+  }
+
   /**
    * Get count of real user performances
    */
-  private async getRealPerformanceCount(): Promise<number> {
+  async getRealPerformanceCount(): Promise<number> {
     try {
       const { count, error } = await supabase
         .from('challenge_results')
@@ -171,65 +291,81 @@ class ColdStartContentService {
    * Get real user performances from database
    */
   private async getRealPerformances(limit: number, offset: number): Promise<SeedPerformance[]> {
-    // For now, return empty array until database relations are properly set up
-    // This will be implemented once the schema relationships are established
-    console.log('Real performances not yet implemented - using seed content only');
-    return [];
-  }
-
-  /**
-   * Adjust strategy based on real content availability
-   */
-  private adjustStrategy(realPerformanceCount: number): ColdStartStrategy {
-    const adjustedStrategy = { ...this.strategy };
-
-    if (realPerformanceCount === 0) {
-      // No real content - show mostly seed content with strong encouragement
-      adjustedStrategy.seedContentRatio = 1.0;
-      adjustedStrategy.showSeedContent = true;
-    } else if (realPerformanceCount < this.strategy.transitionThreshold) {
-      // Some real content - gradually reduce seed content
-      const progress = realPerformanceCount / this.strategy.transitionThreshold;
-      adjustedStrategy.seedContentRatio = Math.max(0.3, 0.7 - (progress * 0.4));
-    } else {
-      // Enough real content - minimal seed content for variety
-      adjustedStrategy.seedContentRatio = 0.1;
-    }
-
-    return adjustedStrategy;
-  }
-
-  /**
-   * Mix real and seed content strategically
-   */
-  private mixContent(
-    realPerformances: SeedPerformance[], 
-    strategy: ColdStartStrategy, 
-    limit: number
-  ): SeedPerformance[] {
-    if (!strategy.showSeedContent) {
-      return realPerformances.slice(0, limit);
-    }
-
-    const seedCount = Math.floor(limit * strategy.seedContentRatio);
-    const realCount = limit - seedCount;
-
-    // Get seed performances
-    const seedContent = this.seedPerformances.slice(0, seedCount);
-    
-    // Get real performances
-    const realContent = realPerformances.slice(0, realCount);
+    try {
+      const { data, error } = await supabase
+        .from('discovery_feed')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
 
-    // Interleave content for natural feel
-    const mixed: SeedPerformance[] = [];
-    const maxLength = Math.max(seedContent.length, realContent.length);
+      if (error) {
+        console.error('Error loading real performances:', error);
+        return [];
+      }
 
-    for (let i = 0; i < maxLength; i++) {
-      if (i < realContent.length) mixed.push(realContent[i]);
-      if (i < seedContent.length) mixed.push(seedContent[i]);
+      return (data || []).map(row => ({
+        id: row.id,
+        challengeId: row.challenge_id,
+        challengeTitle: row.challenge_title,
+        audioUrl: row.audio_url,
+        duration: 0,
+        selfRating: row.self_rating,
+        communityRating: row.community_rating_count > 0 && row.community_rating !== null ? row.community_rating : undefined,
+        gap: row.community_rating_count > 0 && row.gap !== null ? row.gap : undefined,
+        author: {
+          id: String(row.user_fid || 0),
+          username: `user${row.user_fid || 0}`,
+          displayName: `User ${row.user_fid || 0}`,
+          pfpUrl: '',
+          isVerified: false,
+          isSeedAccount: false
+        },
+        engagement: {
+          likes: row.likes_count,
+          comments: row.comments_count,
+          shares: row.shares_count
+        },
+        timestamp: new Date(row.created_at),
+        tags: [],
+        difficulty: 'medium' as const,
+        featured: false
+      }));
+    } catch (error) {
+      console.error('Error in getRealPerformances:', error);
+      return [];
     }
+  }
 
-    return mixed.slice(0, limit);
+  private toSpotlight(song: {
+    id: string;
+    title: string;
+    audioUrl: string;
+    difficulty?: string;
+    duration?: number;
+    uploadedAt?: string;
+  }): SeedPerformance {
+    return {
+      id: `${SEED_ID_PREFIX}spotlight-${song.id}`,
+      challengeId: song.id,
+      challengeTitle: song.title,
+      audioUrl: song.audioUrl,
+      duration: song.duration || 0,
+      selfRating: 0,
+      author: {
+        id: 'gigavibe-team',
+        username: 'gigavibe',
+        displayName: 'GIGAVIBE',
+        pfpUrl: '/images/gigavibeclouds.png',
+        isVerified: true,
+        isSeedAccount: true
+      },
+      engagement: { likes: 0, comments: 0, shares: 0 },
+      timestamp: new Date(song.uploadedAt || 0),
+      tags: ['spotlight'],
+      difficulty: song.difficulty === 'easy' || song.difficulty === 'hard' ? song.difficulty : 'medium',
+      featured: false,
+      spotlight: true
+    };
   }
 
   /**
@@ -274,5 +410,15 @@ class ColdStartContentService {
   }
 }
 
+function toOverride(row: SeedBlendPolicyRow): SeedBlendOverride {
+  const override: SeedBlendOverride = {};
+  if (row.enabled !== null) override.enabled = row.enabled;
+  if (row.initial_ratio !== null) override.initialRatio = Number(row.initial_ratio);
+  if (row.half_life !== null) override.halfLife = row.half_life;
+  if (row.floor_ratio !== null) override.floorRatio = Number(row.floor_ratio);
+  if (row.retire_after !== null) override.retireAfter = row.retire_after;
+  return override;
+}
+
 export const coldStartContentService = new ColdStartContentService();
 export default coldStartContentService;
\ No newline at end of file
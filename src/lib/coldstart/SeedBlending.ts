@@ -0,0 +1,125 @@
+/**
+ * Seed Blending
+ * How much curated seed content to mix into the discovery feeds. The seed
+ * share starts high and decays as real performances arrive; policies can be
+ * overridden per challenge so a brand-new challenge still has something to
+ * show. Pure functions - ColdStartContentService loads counts and policies.
+ */
+
+export interface SeedBlendPolicy {
+  enabled: boolean;
+  initialRatio: number; // Seed share once the first real performance exists (0-1)
+  halfLife: number; // Real performances that halve the seed share
+  floorRatio: number; // Lowest share while seeds are still shown
+  retireAfter: number | null; // Real performances after which seeds stop entirely
+}
+
+export type SeedBlendOverride = Partial<SeedBlendPolicy>;
+
+export interface SeedBlendConfig {
+  defaults: SeedBlendPolicy;
+  challenges: Record<string, SeedBlendOverride>; // Keyed by challenge id
+}
+
+export const DEFAULT_SEED_BLEND_POLICY: SeedBlendPolicy = {
+  enabled: true,
+  initialRatio: 0.7,
+  halfLife: 25,
+  floorRatio: 0.1,
+  retireAfter: null
+};
+
+// Seed and spotlight ids share this prefix so every route can recognise them
+export const SEED_ID_PREFIX = 'seed-';
+
+export function isSeedPerformanceId(performanceId: string): boolean {
+  return performanceId.startsWith(SEED_ID_PREFIX);
+}
+
+export function resolveSeedBlendPolicy(config: SeedBlendConfig, challengeId?: string): SeedBlendPolicy {
+  const override = challengeId ? config.challenges[challengeId] : undefined;
+  return override ? { ...config.defaults, ...override } : config.defaults;
+}
+
+/**
+ * Share of a feed that should be seed content, given how many real
+ * performances exist. With none at all the feed is entirely seeds.
+ */
+export function seedRatio(realCount: number, policy: SeedBlendPolicy): number {
+  if (!policy.enabled) return 0;
+  if (policy.retireAfter !== null && realCount >= policy.retireAfter) return 0;
+  if (realCount <= 0) return 1;
+
+  const decayed = policy.initialRatio * Math.pow(0.5, realCount / Math.max(1, policy.halfLife));
+  return Math.min(1, Math.max(policy.floorRatio, decayed));
+}
+
+/**
+ * Interleave seeds evenly through the real items so that roughly `ratio` of
+ * the blended list is seed content. Real items keep their order and lead;
+ * once they run out no further seeds are added, except when there are no
+ * real items at all.
+ */
+export function blendWithSeeds<T>(real: T[], seeds: T[], ratio: number): T[] {
+  if (seeds.length === 0 || ratio <= 0) return real;
+  if (real.length === 0) return [...seeds];
+
+  // Seeds needed so they make up `ratio` of the blended list
+  const seedTarget = ratio >= 1
+    ? seeds.length
+    : Math.min(seeds.length, Math.round((real.length * ratio) / (1 - ratio)));
+
+  const blended: T[] = [];
+  let realIndex = 0;
+  let seedIndex = 0;
+
+  while (realIndex < real.length) {
+    const position = blended.length + 1;
+    const seedsDue = Math.floor(position * ratio);
+    if (seedIndex < seedTarget && seedIndex < seedsDue && realIndex > 0) {
+      blended.push(seeds[seedIndex++]);
+    } else {
+      blended.push(real[realIndex++]);
+    }
+  }
+
+  // Ratios above one half can leave seeds owed after the last real item
+  while (seedIndex < seedTarget) {
+    blended.push(seeds[seedIndex++]);
+  }
+
+  return blended;
+}
+
+/**
+ * Validate a policy override from the admin API
+ * @returns Error messages, empty if valid
+ */
+export function validateSeedBlendOverride(override: unknown): string[] {
+  if (!override || typeof override !== 'object') {
+    return ['Policy must be an object'];
+  }
+
+  const errors: string[] = [];
+  const policy = override as Record<string, unknown>;
+  const isRatio = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+  if (policy.enabled !== undefined && typeof policy.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+  if (policy.initialRatio !== undefined && !isRatio(policy.initialRatio)) {
+    errors.push('initialRatio must be between 0 and 1');
+  }
+  if (policy.floorRatio !== undefined && !isRatio(policy.floorRatio)) {
+    errors.push('floorRatio must be between 0 and 1');
+  }
+  if (policy.halfLife !== undefined && !(typeof policy.halfLife === 'number' && policy.halfLife >= 1)) {
+    errors.push('halfLife must be at least 1');
+  }
+  if (policy.retireAfter !== undefined && policy.retireAfter !== null &&
+      !(typeof policy.retireAfter === 'number' && Number.isInteger(policy.retireAfter) && policy.retireAfter >= 0)) {
+    errors.push('retireAfter must be a non-negative integer or null');
+  }
+
+  return errors;
+}
@@ -1,5 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
-import { Tables } from '@/integrations/supabase/types';
+import { Database, Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { PitchContour, PitchFrame, OfflinePitchAnalyzer } from '@/lib/audio/OfflinePitchAnalyzer';
+import { MelodyAlignmentResult, PhraseScore } from '@/lib/audio/MelodyAlignment';
 import { v4 as uuidv4 } from 'uuid';
 
 // Type aliases for better readability
@@ -8,10 +10,42 @@ export type Performance = Tables<'performances'>;
 export type PerformanceMetrics = Tables<'performance_metrics'>;
 export type PerformanceCoin = Tables<'performance_coins'>;
 export type ViralQueueItem = Tables<'viral_queue'>;
-export type ViralThreshold = Tables<'viral_thresholds'>;
+export type ViralRuleSetRow = Tables<'viral_rule_sets'>;
+export type ViralRuleAuditEntry = Tables<'viral_rule_audit_log'>;
 export type AnalyticsEvent = Tables<'analytics_events'>;
+export type PerformanceEventWindows = Database['public']['Views']['performance_event_windows']['Row'];
+export type DiscoveryFeedRow = Database['public']['Views']['discovery_feed']['Row'];
 export type Notification = Tables<'notifications'>;
 export type NotificationPreference = Tables<'notification_preferences'>;
+export type PitchTrack = Tables<'challenge_result_pitch_tracks'>;
+export type ReferenceMelody = Tables<'challenge_reference_melodies'>;
+export type ChallengeResultScore = Tables<'challenge_result_scores'>;
+export type ChallengeResultRow = Tables<'challenge_results'>;
+export type CommunityRating = Tables<'community_ratings'>;
+export type AudioFingerprintRow = Tables<'audio_fingerprints'>;
+export type AudioFingerprintLandmark = Tables<'audio_fingerprint_landmarks'>;
+export type FeedSnapshotRow = Tables<'feed_snapshots'>;
+export type SeedBlendPolicyRow = Tables<'seed_blend_policies'>;
+export type SunoGenerationJobRow = Tables<'suno_generation_jobs'>;
+export type SunoGenerationCallbackRow = Tables<'suno_generation_callbacks'>;
+export type ChallengeRow = Tables<'challenges'>;
+export type AudioRoomRow = Tables<'audio_rooms'>;
+export type AudioRoomParticipantRow = Tables<'audio_room_participants'>;
+export type AudioRoomSignalRow = Tables<'audio_room_signals'>;
+export type AudioRoomModerationEntry = Tables<'audio_room_moderation_log'>;
+export type AuthSessionRow = Tables<'auth_sessions'>;
+export type UserIdentityRow = Tables<'user_identities'>;
+export type ProfileCacheRow = Tables<'profile_cache'>;
+
+/**
+ * What link_user_identity moved onto the account
+ */
+export interface IdentityLinkResult {
+  mergedAccountId: string | null;
+  results: number;
+  ratings: number;
+  reratedPerformanceIds: string[];
+}
 
 /**
  * DatabaseService provides methods to interact with the Supabase database
@@ -137,6 +171,18 @@ class DatabaseService {
     return data;
   }
 
+  async getPerformanceMetricsBatch(performanceIds: string[]): Promise<PerformanceMetrics[]> {
+    if (performanceIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('performance_metrics')
+      .select('*')
+      .in('performance_id', performanceIds);
+    
+    if (error) throw new Error(`Failed to get performance metrics: ${error.message}`);
+    return data || [];
+  }
+
   async updatePerformanceMetrics(metrics: Partial<PerformanceMetrics> & { performance_id: string }): Promise<PerformanceMetrics | null> {
     const existingMetrics = await this.getPerformanceMetrics(metrics.performance_id);
     
@@ -215,80 +261,215 @@ class DatabaseService {
     if (error) throw new Error(`Failed to update coin price: ${error.message}`);
   }
 
-  // Viral detection methods
-  async getViralThresholds(): Promise<ViralThreshold[]> {
+  // Viral rule set methods
+  async getViralRuleSets(statuses?: string[], limit: number = 50): Promise<ViralRuleSetRow[]> {
+    let query = supabase
+      .from('viral_rule_sets')
+      .select('*')
+      .order('version', { ascending: false })
+      .limit(limit);
+
+    if (statuses && statuses.length > 0) {
+      query = query.in('status', statuses);
+    }
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to get viral rule sets: ${error.message}`);
+    return data || [];
+  }
+
+  async getViralRuleSet(version: number): Promise<ViralRuleSetRow | null> {
     const { data, error } = await supabase
-      .from('viral_thresholds')
-      .select('*');
-    
-    if (error) throw new Error(`Failed to get viral thresholds: ${error.message}`);
+      .from('viral_rule_sets')
+      .select('*')
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) return null;
     return data;
   }
 
-  async updateViralThreshold(threshold: Partial<ViralThreshold> & { threshold_name: string; threshold_value: number }): Promise<ViralThreshold | null> {
+  async createViralRuleSet(ruleSet: TablesInsert<'viral_rule_sets'>): Promise<ViralRuleSetRow> {
     const { data, error } = await supabase
-      .from('viral_thresholds')
-      .update({
-        threshold_value: threshold.threshold_value,
-        description: threshold.description,
-        updated_at: new Date().toISOString()
-      })
-      .eq('threshold_name', threshold.threshold_name)
+      .from('viral_rule_sets')
+      .insert(ruleSet)
       .select()
       .single();
-    
-    if (error) throw new Error(`Failed to update viral threshold: ${error.message}`);
+
+    if (error) throw new Error(`Failed to create viral rule set: ${error.message}`);
     return data;
   }
 
-  async addToViralQueue(queueItem: Partial<ViralQueueItem> & { performance_id: string; detection_score: number; status: string }): Promise<ViralQueueItem | null> {
+  /**
+   * Replace the active traffic split in one transaction (audited by the database)
+   */
+  async setViralRuleAllocations(
+    allocations: { version: number; trafficPercent: number }[],
+    actor: string,
+    reason?: string
+  ): Promise<ViralRuleSetRow[]> {
+    const { data, error } = await supabase.rpc('set_viral_rule_allocations', {
+      allocations: allocations.map(allocation => ({
+        version: allocation.version,
+        traffic_percent: allocation.trafficPercent
+      })),
+      actor,
+      reason: reason || null
+    });
+
+    if (error) throw new Error(`Failed to set viral rule allocations: ${error.message}`);
+    return data || [];
+  }
+
+  async getViralRuleAuditLog(limit: number = 50): Promise<ViralRuleAuditEntry[]> {
+    const { data, error } = await supabase
+      .from('viral_rule_audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get viral rule audit log: ${error.message}`);
+    return data || [];
+  }
+
+  // Viral job methods (viral_queue is a durable job table, see viral-jobs-schema.sql)
+  async enqueueViralJob(
+    job: TablesInsert<'viral_queue'>
+  ): Promise<{ job: ViralQueueItem; created: boolean }> {
+    // The idempotency key makes concurrent detections of the same performance collapse into one job
     const { data, error } = await supabase
       .from('viral_queue')
-      .insert({
-        ...queueItem,
+      .upsert({
+        ...job,
         id: uuidv4(),
-        detected_at: new Date().toISOString()
-      })
-      .select()
-      .single();
+        detected_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+      .select();
     
     if (error) throw new Error(`Failed to add to viral queue: ${error.message}`);
+    if (data && data.length > 0) {
+      return { job: data[0], created: true };
+    }
+
+    const existing = await this.getViralJobByKey(job.idempotency_key);
+    if (!existing) throw new Error(`Failed to add to viral queue: job ${job.idempotency_key} not found after conflict`);
+    return { job: existing, created: false };
+  }
+
+  async getViralJob(id: string): Promise<ViralQueueItem | null> {
+    const { data, error } = await supabase
+      .from('viral_queue')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error) return null;
     return data;
   }
 
-  async getViralQueue(): Promise<ViralQueueItem[]> {
+  async getViralJobByKey(idempotencyKey: string): Promise<ViralQueueItem | null> {
     const { data, error } = await supabase
       .from('viral_queue')
       .select('*')
-      .eq('status', 'pending')
-      .order('detected_at', { ascending: true });
+      .eq('idempotency_key', idempotencyKey)
+      .single();
     
-    if (error) throw new Error(`Failed to get viral queue: ${error.message}`);
+    if (error) return null;
     return data;
   }
 
-  async updateViralQueueItemStatus(
-    id: string, 
-    status: 'processing' | 'completed' | 'failed',
-    resultMessage?: string
-  ): Promise<void> {
-    const { error } = await supabase
+  async getViralJobs(statuses?: string[], limit: number = 50): Promise<ViralQueueItem[]> {
+    let query = supabase
+      .from('viral_queue')
+      .select('*');
+    
+    if (statuses && statuses.length > 0) {
+      query = query.in('status', statuses);
+    }
+    
+    const { data, error } = await query
+      .order('detected_at', { ascending: false })
+      .limit(limit);
+    
+    if (error) throw new Error(`Failed to get viral jobs: ${error.message}`);
+    return data || [];
+  }
+
+  async getDueViralJobs(status: string, limit: number = 10): Promise<ViralQueueItem[]> {
+    const { data, error } = await supabase
+      .from('viral_queue')
+      .select('*')
+      .eq('status', status)
+      .lte('next_attempt_at', new Date().toISOString())
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+    
+    if (error) throw new Error(`Failed to get due viral jobs: ${error.message}`);
+    return data || [];
+  }
+
+  async getStaleMintingJobs(lockedBefore: Date, limit: number = 10): Promise<ViralQueueItem[]> {
+    const { data, error } = await supabase
+      .from('viral_queue')
+      .select('*')
+      .eq('status', 'minting')
+      .lt('locked_at', lockedBefore.toISOString())
+      .order('locked_at', { ascending: true })
+      .limit(limit);
+    
+    if (error) throw new Error(`Failed to get stale minting jobs: ${error.message}`);
+    return data || [];
+  }
+
+  /**
+   * Compare-and-set update: only applies while the job is still in the expected
+   * status (and lock, when given). Returns null if another worker got there first.
+   */
+  async updateViralJob(
+    id: string,
+    expected: { status: string; lockedAt?: string | null },
+    updates: TablesUpdate<'viral_queue'>
+  ): Promise<ViralQueueItem | null> {
+    let query = supabase
       .from('viral_queue')
       .update({
-        status,
-        processed_at: new Date().toISOString(),
-        result_message: resultMessage
+        ...updates,
+        updated_at: new Date().toISOString()
       })
-      .eq('id', id);
+      .eq('id', id)
+      .eq('status', expected.status);
+    
+    if (expected.lockedAt !== undefined) {
+      query = expected.lockedAt === null ? query.is('locked_at', null) : query.eq('locked_at', expected.lockedAt);
+    }
+    
+    const { data, error } = await query.select();
+    
+    if (error) throw new Error(`Failed to update viral job: ${error.message}`);
+    return data && data.length > 0 ? data[0] : null;
+  }
+
+  async getViralQueueCounts(): Promise<Record<string, number>> {
+    const { data, error } = await supabase
+      .from('viral_queue')
+      .select('status');
+    
+    if (error) throw new Error(`Failed to count viral queue: ${error.message}`);
     
-    if (error) throw new Error(`Failed to update viral queue item: ${error.message}`);
+    const counts: Record<string, number> = {};
+    (data || []).forEach(row => {
+      counts[row.status] = (counts[row.status] || 0) + 1;
+    });
+    return counts;
   }
 
   async clearViralQueue(): Promise<void> {
+    // Only unapproved detections - minting history must never be deleted
     const { error } = await supabase
       .from('viral_queue')
       .delete()
-      .eq('status', 'pending');
+      .eq('status', 'detected');
     
     if (error) throw new Error(`Failed to clear viral queue: ${error.message}`);
   }
@@ -306,6 +487,90 @@ class DatabaseService {
     if (error) throw new Error(`Failed to track analytics event: ${error.message}`);
   }
 
+  /**
+   * Analytics events for a set of performances up to a point in time, oldest first
+   */
+  async getAnalyticsEventsForPerformances(
+    performanceIds: string[],
+    eventTypes: string[],
+    until: Date
+  ): Promise<AnalyticsEvent[]> {
+    const events: AnalyticsEvent[] = [];
+
+    // Keep the IN lists short enough for the query string
+    for (let i = 0; i < performanceIds.length; i += 100) {
+      const { data, error } = await supabase
+        .from('analytics_events')
+        .select('*')
+        .in('performance_id', performanceIds.slice(i, i + 100))
+        .in('event_type', eventTypes)
+        .lte('server_timestamp', until.toISOString())
+        .order('server_timestamp', { ascending: true });
+
+      if (error) throw new Error(`Failed to get analytics events: ${error.message}`);
+      events.push(...(data || []));
+    }
+
+    return events;
+  }
+
+  async getAnalyticsEventsForUser(userId: string, eventTypes: string[], limit: number = 200): Promise<AnalyticsEvent[]> {
+    const { data, error } = await supabase
+      .from('analytics_events')
+      .select('*')
+      .eq('user_id', userId)
+      .in('event_type', eventTypes)
+      .order('server_timestamp', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get user analytics events: ${error.message}`);
+    return data || [];
+  }
+
+  // Windowed event counter methods
+  /**
+   * @returns false if the actor was already counted for this event type this hour
+   */
+  async recordPerformanceEvent(
+    performanceId: string,
+    eventType: string,
+    amount: number = 1,
+    actor: string | null = null
+  ): Promise<boolean> {
+    const { data, error } = await supabase.rpc('record_performance_event', {
+      performance_id: performanceId,
+      event_type: eventType,
+      amount,
+      actor
+    });
+
+    if (error) throw new Error(`Failed to record performance event: ${error.message}`);
+    return data !== false;
+  }
+
+  async getPerformanceEventWindows(performanceIds: string[]): Promise<PerformanceEventWindows[]> {
+    if (performanceIds.length === 0) return [];
+
+    const rows: PerformanceEventWindows[] = [];
+    for (let i = 0; i < performanceIds.length; i += 100) {
+      const { data, error } = await supabase
+        .from('performance_event_windows')
+        .select('*')
+        .in('performance_id', performanceIds.slice(i, i + 100));
+
+      if (error) throw new Error(`Failed to get performance event windows: ${error.message}`);
+      rows.push(...(data || []));
+    }
+    return rows;
+  }
+
+  async prunePerformanceEventBuckets(): Promise<number> {
+    const { data, error } = await supabase.rpc('prune_performance_event_buckets');
+
+    if (error) throw new Error(`Failed to prune performance event buckets: ${error.message}`);
+    return data || 0;
+  }
+
   // Notification methods
   async createNotification(notification: Partial<Notification> & { user_id: string; notification_type: string; content: string }): Promise<Notification | null> {
     const { data, error } = await supabase
@@ -394,102 +659,1141 @@ class DatabaseService {
   }
 
   // Discovery feed methods using database views
-  async getDiscoveryFeedRecent(limit: number = 20, offset: number = 0): Promise<any[]> {
+  /**
+   * Ids of the discovery feed in the given order, newest first on ties
+   */
+  async getDiscoveryFeedIds(
+    orderBy: 'created_at' | 'trending_score' | 'viral_score',
+    limit: number = 500
+  ): Promise<string[]> {
+    let query = supabase
+      .from('discovery_feed')
+      .select('id')
+      .order(orderBy, { ascending: false });
+
+    if (orderBy !== 'created_at') {
+      query = query.order('created_at', { ascending: false });
+    }
+
+    const { data, error } = await query.limit(limit);
+
+    if (error) throw new Error(`Failed to get discovery feed: ${error.message}`);
+    return (data || []).map(row => row.id);
+  }
+
+  async getDiscoveryFeedByIds(ids: string[]): Promise<DiscoveryFeedRow[]> {
+    if (ids.length === 0) return [];
+
     const { data, error } = await supabase
       .from('discovery_feed')
       .select('*')
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
-    
-    if (error) throw new Error(`Failed to get recent discovery feed: ${error.message}`);
+      .in('id', ids);
+
+    if (error) throw new Error(`Failed to get discovery feed items: ${error.message}`);
     return data || [];
   }
 
-  async getDiscoveryFeedTrending(limit: number = 20, offset: number = 0): Promise<any[]> {
+  /**
+   * Candidate pool for personalised ranking - the strongest recent performances
+   */
+  async getDiscoveryFeedCandidates(since: Date, limit: number = 300): Promise<DiscoveryFeedRow[]> {
     const { data, error } = await supabase
       .from('discovery_feed')
       .select('*')
+      .gte('created_at', since.toISOString())
       .order('trending_score', { ascending: false })
-      .range(offset, offset + limit - 1);
-    
-    if (error) throw new Error(`Failed to get trending discovery feed: ${error.message}`);
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get discovery feed candidates: ${error.message}`);
     return data || [];
   }
 
-  async getDiscoveryFeedViral(limit: number = 20, offset: number = 0): Promise<any[]> {
+  // Feed snapshot methods (cursor pagination)
+  async createFeedSnapshot(snapshot: TablesInsert<'feed_snapshots'>): Promise<FeedSnapshotRow> {
     const { data, error } = await supabase
-      .from('discovery_feed')
-      .select('*')
-      .order('viral_score', { ascending: false })
-      .range(offset, offset + limit - 1);
-    
-    if (error) throw new Error(`Failed to get viral discovery feed: ${error.message}`);
-    return data || [];
+      .from('feed_snapshots')
+      .insert(snapshot)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create feed snapshot: ${error.message}`);
+    return data;
   }
 
-  async getDiscoveryFeedForYou(limit: number = 20, offset: number = 0): Promise<any[]> {
-    // For "For You" feed, we can use a combination of factors
-    // For now, let's use a mix of recent and trending
+  async getFeedSnapshot(id: string): Promise<FeedSnapshotRow | null> {
     const { data, error } = await supabase
-      .from('discovery_feed')
+      .from('feed_snapshots')
       .select('*')
-      .order('trending_score', { ascending: false })
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
-    
-    if (error) throw new Error(`Failed to get for you discovery feed: ${error.message}`);
-    return data || [];
+      .eq('id', id)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get feed snapshot: ${error.message}`);
+    return data;
   }
 
-  // Challenge leaderboard methods
-  async getChallengeLeaderboard(challengeId?: string, limit: number = 20, offset: number = 0): Promise<any[]> {
-    let query = supabase
-      .from('challenge_leaderboard')
+  async pruneFeedSnapshots(): Promise<void> {
+    const { error } = await supabase
+      .from('feed_snapshots')
+      .delete()
+      .lt('expires_at', new Date().toISOString());
+
+    if (error) throw new Error(`Failed to prune feed snapshots: ${error.message}`);
+  }
+
+  // Seed blending methods (cold start)
+  async getSeedBlendPolicies(): Promise<SeedBlendPolicyRow[]> {
+    const { data, error } = await supabase
+      .from('seed_blend_policies')
       .select('*');
-    
-    if (challengeId) {
-      query = query.eq('challenge_id', challengeId);
-    }
-    
-    const { data, error } = await query
-      .order('rank', { ascending: true })
-      .range(offset, offset + limit - 1);
-    
-    if (error) throw new Error(`Failed to get challenge leaderboard: ${error.message}`);
+
+    if (error) throw new Error(`Failed to get seed blend policies: ${error.message}`);
     return data || [];
   }
 
-  // Challenge results methods (using challenge_results table)
-  async getChallengeResults(challengeId?: string, limit: number = 20, offset: number = 0): Promise<any[]> {
+  async upsertSeedBlendPolicy(policy: TablesInsert<'seed_blend_policies'>): Promise<SeedBlendPolicyRow> {
+    const { data, error } = await supabase
+      .from('seed_blend_policies')
+      .upsert({ ...policy, updated_at: new Date().toISOString() }, { onConflict: 'scope' })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to save seed blend policy: ${error.message}`);
+    return data;
+  }
+
+  async deleteSeedBlendPolicy(scope: string): Promise<void> {
+    const { error } = await supabase
+      .from('seed_blend_policies')
+      .delete()
+      .eq('scope', scope);
+
+    if (error) throw new Error(`Failed to delete seed blend policy: ${error.message}`);
+  }
+
+  /**
+   * Submissions per challenge, from the challenge_stats counters
+   */
+  async getChallengeSubmissionCounts(): Promise<Record<string, number>> {
+    const { data, error } = await supabase
+      .from('challenge_stats')
+      .select('challenge_id, total_submissions');
+
+    if (error) throw new Error(`Failed to get challenge stats: ${error.message}`);
+    return Object.fromEntries((data || []).map(row => [row.challenge_id, row.total_submissions]));
+  }
+
+  // Suno generation job methods
+  async createSunoGenerationJob(job: TablesInsert<'suno_generation_jobs'>): Promise<SunoGenerationJobRow> {
+    const { data, error } = await supabase
+      .from('suno_generation_jobs')
+      .insert(job)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create Suno generation job: ${error.message}`);
+    return data;
+  }
+
+  async getSunoGenerationJob(id: string): Promise<SunoGenerationJobRow | null> {
+    const { data, error } = await supabase
+      .from('suno_generation_jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get Suno generation job: ${error.message}`);
+    return data;
+  }
+
+  async getSunoGenerationJobs(statuses?: string[], limit: number = 50): Promise<SunoGenerationJobRow[]> {
     let query = supabase
-      .from('challenge_results')
+      .from('suno_generation_jobs')
       .select('*');
-    
-    if (challengeId) {
-      query = query.eq('challenge_id', challengeId);
+
+    if (statuses && statuses.length > 0) {
+      query = query.in('status', statuses);
     }
-    
+
     const { data, error } = await query
       .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
-    
-    if (error) throw new Error(`Failed to get challenge results: ${error.message}`);
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get Suno generation jobs: ${error.message}`);
     return data || [];
   }
 
-  async getRecentChallengeResults(hours: number = 24, limit: number = 20): Promise<any[]> {
-    const cutoffTime = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
-    
+  /**
+   * In-flight jobs that have not moved since `before` - their callback may have been lost
+   */
+  async getStaleSunoGenerationJobs(before: Date, limit: number = 20): Promise<SunoGenerationJobRow[]> {
     const { data, error } = await supabase
-      .from('challenge_results')
+      .from('suno_generation_jobs')
       .select('*')
-      .gte('created_at', cutoffTime)
-      .order('created_at', { ascending: false })
+      .in('status', ['generating', 'separating', 'pinning'])
+      .lt('updated_at', before.toISOString())
+      .order('updated_at', { ascending: true })
       .limit(limit);
-    
-    if (error) throw new Error(`Failed to get recent challenge results: ${error.message}`);
+
+    if (error) throw new Error(`Failed to get stale Suno generation jobs: ${error.message}`);
     return data || [];
   }
+
+  /**
+   * Compare-and-set update: only applies while the job is still in `expectedStatus`
+   * @returns The updated job, or null if another request moved it first
+   */
+  async updateSunoGenerationJob(
+    id: string,
+    expectedStatus: string,
+    updates: TablesUpdate<'suno_generation_jobs'>
+  ): Promise<SunoGenerationJobRow | null> {
+    const { data, error } = await supabase
+      .from('suno_generation_jobs')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('status', expectedStatus)
+      .select();
+
+    if (error) throw new Error(`Failed to update Suno generation job: ${error.message}`);
+    return data && data.length > 0 ? data[0] : null;
+  }
+
+  async saveSunoGenerationCallback(callback: TablesInsert<'suno_generation_callbacks'>): Promise<void> {
+    const { error } = await supabase
+      .from('suno_generation_callbacks')
+      .insert(callback);
+
+    if (error) throw new Error(`Failed to save Suno callback: ${error.message}`);
+  }
+
+  async getSunoGenerationCallbacks(jobId: string): Promise<SunoGenerationCallbackRow[]> {
+    const { data, error } = await supabase
+      .from('suno_generation_callbacks')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('received_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to get Suno callbacks: ${error.message}`);
+    return data || [];
+  }
+
+  // Challenge catalog methods
+  /**
+   * Catalog challenges, newest first. By default only those inside their
+   * availability window; archived challenges only when asked for.
+   */
+  async getChallenges(options: {
+    types?: string[];
+    includeUnavailable?: boolean;
+    includeArchived?: boolean;
+    limit?: number;
+  } = {}): Promise<ChallengeRow[]> {
+    let query = supabase
+      .from('challenges')
+      .select('*');
+
+    if (!options.includeArchived) {
+      query = query.is('archived_at', null);
+    }
+
+    if (!options.includeUnavailable) {
+      const now = new Date().toISOString();
+      query = query
+        .or(`available_from.is.null,available_from.lte.${now}`)
+        .or(`available_until.is.null,available_until.gt.${now}`);
+    }
+
+    if (options.types && options.types.length > 0) {
+      query = query.in('type', options.types);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 200);
+
+    if (error) throw new Error(`Failed to get challenges: ${error.message}`);
+    return data || [];
+  }
+
+  async getChallengeById(id: string): Promise<ChallengeRow | null> {
+    const { data, error } = await supabase
+      .from('challenges')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get challenge: ${error.message}`);
+    return data;
+  }
+
+  async getChallengesByIds(ids: string[]): Promise<ChallengeRow[]> {
+    if (ids.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('challenges')
+      .select('*')
+      .in('id', ids);
+
+    if (error) throw new Error(`Failed to get challenges: ${error.message}`);
+    return data || [];
+  }
+
+  async createChallenge(challenge: TablesInsert<'challenges'>): Promise<ChallengeRow> {
+    const { data, error } = await supabase
+      .from('challenges')
+      .insert(challenge)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create challenge: ${error.message}`);
+    return data;
+  }
+
+  async upsertChallenge(challenge: TablesInsert<'challenges'>): Promise<ChallengeRow> {
+    const { data, error } = await supabase
+      .from('challenges')
+      .upsert({ ...challenge, updated_at: new Date().toISOString() }, { onConflict: 'id' })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to save challenge: ${error.message}`);
+    return data;
+  }
+
+  /**
+   * @returns The updated challenge, or null if it does not exist
+   */
+  async updateChallenge(id: string, updates: TablesUpdate<'challenges'>): Promise<ChallengeRow | null> {
+    const { data, error } = await supabase
+      .from('challenges')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select();
+
+    if (error) throw new Error(`Failed to update challenge: ${error.message}`);
+    return data && data.length > 0 ? data[0] : null;
+  }
+
+  // Audio room methods
+  async createAudioRoom(room: TablesInsert<'audio_rooms'>): Promise<AudioRoomRow> {
+    const { data, error } = await supabase
+      .from('audio_rooms')
+      .insert(room)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create audio room: ${error.message}`);
+    return data;
+  }
+
+  async getAudioRoom(id: string): Promise<AudioRoomRow | null> {
+    const { data, error } = await supabase
+      .from('audio_rooms')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get audio room: ${error.message}`);
+    return data;
+  }
+
+  async getOpenAudioRooms(limit: number = 50): Promise<AudioRoomRow[]> {
+    const { data, error } = await supabase
+      .from('audio_rooms')
+      .select('*')
+      .is('ended_at', null)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get audio rooms: ${error.message}`);
+    return data || [];
+  }
+
+  /**
+   * @returns The updated room, or null if it does not exist or has ended
+   */
+  async updateAudioRoom(id: string, updates: TablesUpdate<'audio_rooms'>): Promise<AudioRoomRow | null> {
+    const { data, error } = await supabase
+      .from('audio_rooms')
+      .update({
+        ...updates,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .is('ended_at', null)
+      .select();
+
+    if (error) throw new Error(`Failed to update audio room: ${error.message}`);
+    return data && data.length > 0 ? data[0] : null;
+  }
+
+  async getAudioRoomParticipants(roomIds: string[], statuses: string[] = ['joined']): Promise<AudioRoomParticipantRow[]> {
+    if (roomIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('audio_room_participants')
+      .select('*')
+      .in('room_id', roomIds)
+      .in('status', statuses)
+      .order('joined_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to get audio room participants: ${error.message}`);
+    return data || [];
+  }
+
+  async getAudioRoomParticipant(roomId: string, fid: number): Promise<AudioRoomParticipantRow | null> {
+    const { data, error } = await supabase
+      .from('audio_room_participants')
+      .select('*')
+      .eq('room_id', roomId)
+      .eq('fid', fid)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get audio room participant: ${error.message}`);
+    return data;
+  }
+
+  async upsertAudioRoomParticipant(participant: TablesInsert<'audio_room_participants'>): Promise<AudioRoomParticipantRow> {
+    const { data, error } = await supabase
+      .from('audio_room_participants')
+      .upsert(participant, { onConflict: 'room_id,fid' })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to save audio room participant: ${error.message}`);
+    return data;
+  }
+
+  /**
+   * Compare-and-set update: only applies while the participant is still in `expectedStatus`
+   * @returns The updated participant, or null if their status changed first
+   */
+  async updateAudioRoomParticipant(
+    roomId: string,
+    fid: number,
+    expectedStatus: string,
+    updates: TablesUpdate<'audio_room_participants'>
+  ): Promise<AudioRoomParticipantRow | null> {
+    const { data, error } = await supabase
+      .from('audio_room_participants')
+      .update(updates)
+      .eq('room_id', roomId)
+      .eq('fid', fid)
+      .eq('status', expectedStatus)
+      .select();
+
+    if (error) throw new Error(`Failed to update audio room participant: ${error.message}`);
+    return data && data.length > 0 ? data[0] : null;
+  }
+
+  /**
+   * Atomically admit a participant, holding the room's capacity
+   * @returns The joined participant, or null if the room is full
+   */
+  async admitAudioRoomParticipant(
+    roomId: string,
+    participant: Pick<AudioRoomParticipantRow, 'fid' | 'username' | 'display_name' | 'pfp_url' | 'role' | 'is_muted'>
+  ): Promise<AudioRoomParticipantRow | null> {
+    const { data, error } = await supabase.rpc('admit_audio_room_participant', {
+      p_room_id: roomId,
+      p_participant: participant
+    });
+
+    if (error) throw new Error(`Failed to admit audio room participant: ${error.message}`);
+    return data && data.length > 0 ? data[0] : null;
+  }
+
+  async addAudioRoomSignals(signals: TablesInsert<'audio_room_signals'>[]): Promise<void> {
+    if (signals.length === 0) return;
+
+    const { error } = await supabase
+      .from('audio_room_signals')
+      .insert(signals);
+
+    if (error) throw new Error(`Failed to add audio room signals: ${error.message}`);
+  }
+
+  /**
+   * Signals after `afterId` addressed to `fid` or to the whole room, oldest first
+   */
+  async getAudioRoomSignals(roomId: string, fid: number, afterId: number, limit: number = 100): Promise<AudioRoomSignalRow[]> {
+    const { data, error } = await supabase
+      .from('audio_room_signals')
+      .select('*')
+      .eq('room_id', roomId)
+      .gt('id', afterId)
+      .or(`to_fid.is.null,to_fid.eq.${fid}`)
+      .order('id', { ascending: true })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get audio room signals: ${error.message}`);
+    return data || [];
+  }
+
+  async getLatestAudioRoomSignalId(roomId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('audio_room_signals')
+      .select('id')
+      .eq('room_id', roomId)
+      .order('id', { ascending: false })
+      .limit(1);
+
+    if (error) throw new Error(`Failed to get audio room signals: ${error.message}`);
+    return data && data.length > 0 ? data[0].id : 0;
+  }
+
+  async addAudioRoomModerationEntry(entry: TablesInsert<'audio_room_moderation_log'>): Promise<AudioRoomModerationEntry> {
+    const { data, error } = await supabase
+      .from('audio_room_moderation_log')
+      .insert(entry)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to record audio room moderation: ${error.message}`);
+    return data;
+  }
+
+  async getAudioRoomModerationLog(roomId: string, limit: number = 100): Promise<AudioRoomModerationEntry[]> {
+    const { data, error } = await supabase
+      .from('audio_room_moderation_log')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get audio room moderation log: ${error.message}`);
+    return data || [];
+  }
+
+  /**
+   * Signals are only needed while peers connect; old ones can go
+   */
+  async deleteAudioRoomSignalsBefore(before: Date): Promise<void> {
+    const { error } = await supabase
+      .from('audio_room_signals')
+      .delete()
+      .lt('created_at', before.toISOString());
+
+    if (error) throw new Error(`Failed to delete audio room signals: ${error.message}`);
+  }
+
+  // Auth session methods
+  async createSiweNonce(nonce: string, expiresAt: Date): Promise<void> {
+    const { error } = await supabase
+      .from('siwe_nonces')
+      .insert({ nonce, expires_at: expiresAt.toISOString() });
+
+    if (error) throw new Error(`Failed to create SIWE nonce: ${error.message}`);
+  }
+
+  /**
+   * Mark a nonce used. Only one caller can redeem it, and only before it expires.
+   * @returns false if the nonce is unknown, expired or already used
+   */
+  async consumeSiweNonce(nonce: string): Promise<boolean> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('siwe_nonces')
+      .update({ used_at: now })
+      .eq('nonce', nonce)
+      .is('used_at', null)
+      .gt('expires_at', now)
+      .select();
+
+    if (error) throw new Error(`Failed to consume SIWE nonce: ${error.message}`);
+    return (data || []).length > 0;
+  }
+
+  async deleteSiweNoncesBefore(before: Date): Promise<void> {
+    const { error } = await supabase
+      .from('siwe_nonces')
+      .delete()
+      .lt('expires_at', before.toISOString());
+
+    if (error) throw new Error(`Failed to delete SIWE nonces: ${error.message}`);
+  }
+
+  async createAuthSession(session: TablesInsert<'auth_sessions'>): Promise<AuthSessionRow> {
+    const { data, error } = await supabase
+      .from('auth_sessions')
+      .insert(session)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create auth session: ${error.message}`);
+    return data;
+  }
+
+  async getAuthSession(id: string): Promise<AuthSessionRow | null> {
+    const { data, error } = await supabase
+      .from('auth_sessions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get auth session: ${error.message}`);
+    return data;
+  }
+
+  /**
+   * @returns false if the session was already revoked
+   */
+  async revokeAuthSession(id: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('auth_sessions')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .is('revoked_at', null)
+      .select();
+
+    if (error) throw new Error(`Failed to revoke auth session: ${error.message}`);
+    return (data || []).length > 0;
+  }
+
+  // Linked identity methods
+  /**
+   * The account a signed-in wallet belongs to, created on first sign-in
+   */
+  async ensureWalletAccount(address: string): Promise<User> {
+    const { data, error } = await supabase.rpc('ensure_wallet_account', { p_address: address });
+
+    if (error) throw new Error(`Failed to ensure wallet account: ${error.message}`);
+    if (!data || data.length === 0) throw new Error(`Failed to ensure wallet account: no account for ${address}`);
+    return data[0];
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    const { data, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get user: ${error.message}`);
+    return data;
+  }
+
+  /**
+   * The account holding a linked wallet or FID
+   */
+  async getUserByIdentity(kind: 'wallet' | 'farcaster', identifier: string): Promise<User | null> {
+    const { data, error } = await supabase
+      .from('user_identities')
+      .select('user_id')
+      .eq('kind', kind)
+      .eq('identifier', identifier)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get user identity: ${error.message}`);
+    return data ? this.getUserById(data.user_id) : null;
+  }
+
+  async getUserIdentities(userId: string): Promise<UserIdentityRow[]> {
+    const { data, error } = await supabase
+      .from('user_identities')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to get user identities: ${error.message}`);
+    return data || [];
+  }
+
+  /**
+   * Attach a verified identity to an account, merging in any account that
+   * already holds it (see linked-identities-schema.sql)
+   * @returns What moved, or the reason the link was refused
+   */
+  async linkUserIdentity(
+    userId: string,
+    kind: 'wallet' | 'farcaster',
+    identifier: string,
+    verifiedVia: 'siwe' | 'farcaster_verified_address'
+  ): Promise<IdentityLinkResult | { conflict: string }> {
+    const { data, error } = await supabase.rpc('link_user_identity', {
+      p_user_id: userId,
+      p_kind: kind,
+      p_identifier: identifier,
+      p_verified_via: verifiedVia
+    });
+
+    // Refusals raised by the function, and links that raced another one
+    if (error && (error.code === 'P0001' || error.code === '23505')) {
+      return { conflict: error.message };
+    }
+    if (error) throw new Error(`Failed to link user identity: ${error.message}`);
+    return data as unknown as IdentityLinkResult;
+  }
+
+  // Profile cache methods
+  /**
+   * Cached profiles for the given keys, expired or not
+   */
+  async getProfileCacheEntries(keys: string[]): Promise<ProfileCacheRow[]> {
+    if (keys.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('profile_cache')
+      .select('*')
+      .in('key', keys);
+
+    if (error) throw new Error(`Failed to get cached profiles: ${error.message}`);
+    return data || [];
+  }
+
+  async upsertProfileCacheEntries(entries: TablesInsert<'profile_cache'>[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const { error } = await supabase
+      .from('profile_cache')
+      .upsert(entries, { onConflict: 'key' });
+
+    if (error) throw new Error(`Failed to cache profiles: ${error.message}`);
+  }
+
+  // Challenge leaderboard methods
+  async getChallengeLeaderboard(challengeId?: string, limit: number = 20, offset: number = 0): Promise<any[]> {
+    let query = supabase
+      .from('challenge_leaderboard')
+      .select('*');
+    
+    if (challengeId) {
+      query = query.eq('challenge_id', challengeId);
+    }
+    
+    const { data, error } = await query
+      .order('rank', { ascending: true })
+      .range(offset, offset + limit - 1);
+    
+    if (error) throw new Error(`Failed to get challenge leaderboard: ${error.message}`);
+    return data || [];
+  }
+
+  // Challenge results methods (using challenge_results table)
+  async getChallengeResults(challengeId?: string, limit: number = 20, offset: number = 0): Promise<any[]> {
+    let query = supabase
+      .from('challenge_results')
+      .select('*');
+    
+    if (challengeId) {
+      query = query.eq('challenge_id', challengeId);
+    }
+    
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+    
+    if (error) throw new Error(`Failed to get challenge results: ${error.message}`);
+    return data || [];
+  }
+
+  async getRecentChallengeResults(hours: number = 24, limit: number = 20): Promise<any[]> {
+    const cutoffTime = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+    
+    const { data, error } = await supabase
+      .from('challenge_results')
+      .select('*')
+      .gte('created_at', cutoffTime)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    
+    if (error) throw new Error(`Failed to get recent challenge results: ${error.message}`);
+    return data || [];
+  }
+
+  async getChallengeResultsCreatedBetween(from: Date, to: Date, limit: number = 500): Promise<ChallengeResultRow[]> {
+    const { data, error } = await supabase
+      .from('challenge_results')
+      .select('*')
+      .gte('created_at', from.toISOString())
+      .lte('created_at', to.toISOString())
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get challenge results: ${error.message}`);
+    return data || [];
+  }
+
+  async getChallengeResultsByIds(ids: string[]): Promise<ChallengeResultRow[]> {
+    if (ids.length === 0) return [];
+
+    const results: ChallengeResultRow[] = [];
+    for (let i = 0; i < ids.length; i += 100) {
+      const { data, error } = await supabase
+        .from('challenge_results')
+        .select('*')
+        .in('id', ids.slice(i, i + 100));
+
+      if (error) throw new Error(`Failed to get challenge results: ${error.message}`);
+      results.push(...(data || []));
+    }
+
+    return results;
+  }
+
+  /**
+   * Submissions by a user, matched on user id or Farcaster FID
+   */
+  async getChallengeResultsByUser(userId: string, fid: number | null, limit: number = 100): Promise<ChallengeResultRow[]> {
+    let query = supabase
+      .from('challenge_results')
+      .select('*');
+
+    query = fid !== null
+      ? query.or(`user_id.eq."${userId.replace(/"/g, '')}",user_fid.eq.${fid}`)
+      : query.eq('user_id', userId);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get user challenge results: ${error.message}`);
+    return data || [];
+  }
+
+  async getChallengeResultById(id: string): Promise<ChallengeResultRow | null> {
+    const { data, error } = await supabase
+      .from('challenge_results')
+      .select('*')
+      .eq('id', id)
+      .single();
+    
+    if (error) return null;
+    return data;
+  }
+
+  async getChallengeResultByCoinAddress(coinAddress: string): Promise<ChallengeResultRow | null> {
+    const { data, error } = await supabase
+      .from('challenge_results')
+      .select('*')
+      .ilike('coin_address', coinAddress)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get challenge result by coin: ${error.message}`);
+    return data;
+  }
+
+  async updateChallengeResultRating(
+    id: string,
+    rating: { communityRating: number | null; count: number; confidence: number }
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('challenge_results')
+      .update({
+        community_rating: rating.communityRating,
+        community_rating_count: rating.count,
+        community_rating_confidence: rating.confidence,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id);
+    
+    if (error) throw new Error(`Failed to update community rating: ${error.message}`);
+  }
+
+  async setChallengeResultCoin(id: string, coinAddress: string): Promise<void> {
+    const { error } = await supabase
+      .from('challenge_results')
+      .update({ coin_address: coinAddress, updated_at: new Date().toISOString() })
+      .eq('id', id);
+    
+    if (error) throw new Error(`Failed to record challenge result coin: ${error.message}`);
+  }
+
+  /**
+   * Earliest other submission whose audio matches (by CID or URL)
+   */
+  async getFirstChallengeResultWithAudio(
+    column: 'audio_cid' | 'audio_url',
+    value: string,
+    excludeId?: string
+  ): Promise<ChallengeResultRow | null> {
+    let query = supabase
+      .from('challenge_results')
+      .select('*')
+      .eq(column, value);
+
+    if (excludeId) {
+      query = query.neq('id', excludeId);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to look up challenge results by audio: ${error.message}`);
+    return data;
+  }
+
+  // Audio fingerprint methods (duplicate upload detection)
+  async getAudioFingerprint(cid: string): Promise<AudioFingerprintRow | null> {
+    const { data, error } = await supabase
+      .from('audio_fingerprints')
+      .select('*')
+      .eq('cid', cid)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get audio fingerprint: ${error.message}`);
+    return data;
+  }
+
+  async getAudioFingerprints(cids: string[]): Promise<AudioFingerprintRow[]> {
+    if (cids.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('audio_fingerprints')
+      .select('*')
+      .in('cid', cids);
+
+    if (error) throw new Error(`Failed to get audio fingerprints: ${error.message}`);
+    return data || [];
+  }
+
+  async getAudioFingerprintsByContentHash(contentHash: string): Promise<AudioFingerprintRow[]> {
+    const { data, error } = await supabase
+      .from('audio_fingerprints')
+      .select('*')
+      .eq('content_hash', contentHash)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to get audio fingerprints by content hash: ${error.message}`);
+    return data || [];
+  }
+
+  async saveAudioFingerprint(row: TablesInsert<'audio_fingerprints'>): Promise<AudioFingerprintRow> {
+    const { data, error } = await supabase
+      .from('audio_fingerprints')
+      .insert(row)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to save audio fingerprint: ${error.message}`);
+    return data;
+  }
+
+  async saveAudioFingerprintLandmarks(landmarks: AudioFingerprintLandmark[]): Promise<void> {
+    // Keep each request comfortably under PostgREST payload limits
+    for (let i = 0; i < landmarks.length; i += 1000) {
+      const { error } = await supabase
+        .from('audio_fingerprint_landmarks')
+        .upsert(landmarks.slice(i, i + 1000), { onConflict: 'hash,cid', ignoreDuplicates: true });
+
+      if (error) throw new Error(`Failed to save audio fingerprint landmarks: ${error.message}`);
+    }
+  }
+
+  async findAudioFingerprintLandmarks(hashes: number[]): Promise<AudioFingerprintLandmark[]> {
+    if (hashes.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('audio_fingerprint_landmarks')
+      .select('*')
+      .in('hash', hashes);
+
+    if (error) throw new Error(`Failed to find audio fingerprint landmarks: ${error.message}`);
+    return data || [];
+  }
+
+  // Community rating methods (one vote per rater per performance)
+  async upsertCommunityRating(
+    vote: Omit<CommunityRating, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<CommunityRating | null> {
+    const { data, error } = await supabase
+      .from('community_ratings')
+      .upsert({
+        ...vote,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'performance_id,user_id' })
+      .select()
+      .single();
+    
+    if (error) throw new Error(`Failed to save community rating: ${error.message}`);
+    return data;
+  }
+
+  async getCommunityRatings(performanceId: string): Promise<CommunityRating[]> {
+    const { data, error } = await supabase
+      .from('community_ratings')
+      .select('*')
+      .eq('performance_id', performanceId);
+    
+    if (error) throw new Error(`Failed to get community ratings: ${error.message}`);
+    return data || [];
+  }
+
+  async getCommunityRating(performanceId: string, userId: string): Promise<CommunityRating | null> {
+    const { data, error } = await supabase
+      .from('community_ratings')
+      .select('*')
+      .eq('performance_id', performanceId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get community rating: ${error.message}`);
+    return data;
+  }
+
+  async getCommunityRatingsByUser(userId: string, limit: number = 200): Promise<CommunityRating[]> {
+    const { data, error } = await supabase
+      .from('community_ratings')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to get user community ratings: ${error.message}`);
+    return data || [];
+  }
+
+  // Pitch track methods (offline contours stored next to challenge_results)
+  async savePitchTrack(challengeResultId: string, contour: PitchContour): Promise<PitchTrack | null> {
+    const { data, error } = await supabase
+      .from('challenge_result_pitch_tracks')
+      .upsert({
+        challenge_result_id: challengeResultId,
+        analyzer_version: contour.version,
+        sample_rate: Math.round(contour.sampleRate),
+        hop_size: contour.hopSize,
+        frame_size: contour.frameSize,
+        duration: contour.duration,
+        frame_count: contour.frames.length,
+        voiced_ratio: contour.summary?.voicedRatio ?? null,
+        median_frequency: contour.summary?.medianFrequency ?? null,
+        frames: contour.frames as unknown as PitchTrack['frames'],
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'challenge_result_id' })
+      .select()
+      .single();
+    
+    if (error) throw new Error(`Failed to save pitch track: ${error.message}`);
+    return data;
+  }
+
+  async getPitchTrack(challengeResultId: string): Promise<PitchContour | null> {
+    const { data, error } = await supabase
+      .from('challenge_result_pitch_tracks')
+      .select('*')
+      .eq('challenge_result_id', challengeResultId)
+      .single();
+    
+    if (error || !data) return null;
+
+    const frames = (data.frames as unknown as PitchFrame[]) || [];
+    return {
+      version: data.analyzer_version,
+      sampleRate: data.sample_rate,
+      hopSize: data.hop_size,
+      frameSize: data.frame_size,
+      duration: data.duration,
+      frames,
+      summary: OfflinePitchAnalyzer.summarize(frames)
+    };
+  }
+
+  // Reference melody methods (contours extracted from challenge vocal stems)
+  async saveReferenceMelody(challengeId: string, vocalUrl: string, contour: PitchContour): Promise<ReferenceMelody | null> {
+    const { data, error } = await supabase
+      .from('challenge_reference_melodies')
+      .upsert({
+        challenge_id: challengeId,
+        vocal_url: vocalUrl,
+        analyzer_version: contour.version,
+        sample_rate: Math.round(contour.sampleRate),
+        hop_size: contour.hopSize,
+        frame_size: contour.frameSize,
+        duration: contour.duration,
+        frames: contour.frames as unknown as ReferenceMelody['frames'],
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'challenge_id' })
+      .select()
+      .single();
+    
+    if (error) throw new Error(`Failed to save reference melody: ${error.message}`);
+    return data;
+  }
+
+  async getReferenceMelody(challengeId: string): Promise<{ vocalUrl: string; contour: PitchContour } | null> {
+    const { data, error } = await supabase
+      .from('challenge_reference_melodies')
+      .select('*')
+      .eq('challenge_id', challengeId)
+      .single();
+    
+    if (error || !data) return null;
+
+    const frames = (data.frames as unknown as PitchFrame[]) || [];
+    return {
+      vocalUrl: data.vocal_url,
+      contour: {
+        version: data.analyzer_version,
+        sampleRate: data.sample_rate,
+        hopSize: data.hop_size,
+        frameSize: data.frame_size,
+        duration: data.duration,
+        frames,
+        summary: OfflinePitchAnalyzer.summarize(frames)
+      }
+    };
+  }
+
+  // Melody alignment score methods
+  async saveChallengeScore(challengeResultId: string, challengeId: string, score: MelodyAlignmentResult): Promise<ChallengeResultScore | null> {
+    const { data, error } = await supabase
+      .from('challenge_result_scores')
+      .upsert({
+        challenge_result_id: challengeResultId,
+        challenge_id: challengeId,
+        scorer_version: score.version,
+        accuracy: score.accuracy,
+        pitch_accuracy: score.pitchAccuracy,
+        coverage: score.coverage,
+        timing_offset_ms: score.timingOffsetMs,
+        octave_shift: score.octaveShift,
+        phrases: score.phrases as unknown as ChallengeResultScore['phrases'],
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'challenge_result_id' })
+      .select()
+      .single();
+    
+    if (error) throw new Error(`Failed to save challenge score: ${error.message}`);
+
+    // Objective score replaces whatever accuracy the client reported
+    const { error: updateError } = await supabase
+      .from('challenge_results')
+      .update({ accuracy: score.accuracy, updated_at: new Date().toISOString() })
+      .eq('id', challengeResultId);
+
+    if (updateError) throw new Error(`Failed to update challenge result accuracy: ${updateError.message}`);
+    return data;
+  }
+
+  async getChallengeScore(challengeResultId: string): Promise<MelodyAlignmentResult | null> {
+    const { data, error } = await supabase
+      .from('challenge_result_scores')
+      .select('*')
+      .eq('challenge_result_id', challengeResultId)
+      .single();
+    
+    if (error || !data) return null;
+
+    return {
+      version: data.scorer_version,
+      accuracy: data.accuracy,
+      pitchAccuracy: data.pitch_accuracy,
+      coverage: data.coverage,
+      timingOffsetMs: data.timing_offset_ms,
+      octaveShift: data.octave_shift,
+      phrases: (data.phrases as unknown as PhraseScore[]) || []
+    };
+  }
 }
 
 // Export a singleton instance
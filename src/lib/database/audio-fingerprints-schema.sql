@@ -0,0 +1,50 @@
+-- Audio Fingerprints
+-- Acoustic fingerprints of uploaded audio, keyed by IPFS CID, so re-uploads of
+-- an existing performance can be linked to the original. Sub-fingerprints are
+-- also stored as landmarks in an inverted index for candidate lookup.
+-- Run after moderation-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS audio_fingerprints (
+  cid TEXT PRIMARY KEY, -- IPFS CID (or local upload id)
+  content_hash TEXT NOT NULL, -- SHA-256 of the uploaded bytes
+  fingerprint_version TEXT, -- NULL when the format cannot be decoded server-side
+  hop_size DECIMAL(8,5), -- Seconds between sub-fingerprints
+  duration DECIMAL(8,2),
+  hashes JSONB, -- Unsigned 32-bit sub-fingerprints, -1 for silent frames
+  challenge_id TEXT,
+  uploader TEXT,
+  duplicate_of TEXT REFERENCES audio_fingerprints(cid) ON DELETE SET NULL, -- Earliest upload of the same recording
+  match_type TEXT CHECK (match_type IN ('exact', 'acoustic')),
+  similarity DECIMAL(4,3), -- 1 - bit error rate against duplicate_of
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audio_fingerprints_content_hash ON audio_fingerprints(content_hash);
+CREATE INDEX IF NOT EXISTS idx_audio_fingerprints_duplicate_of ON audio_fingerprints(duplicate_of);
+
+-- Inverted index: sub-fingerprint -> recordings containing it (first occurrence only)
+CREATE TABLE IF NOT EXISTS audio_fingerprint_landmarks (
+  hash BIGINT NOT NULL,
+  cid TEXT NOT NULL REFERENCES audio_fingerprints(cid) ON DELETE CASCADE,
+  frame INTEGER NOT NULL, -- Sub-fingerprint index, for offset estimates
+  PRIMARY KEY (hash, cid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audio_fingerprint_landmarks_cid ON audio_fingerprint_landmarks(cid);
+
+-- Link submissions to their audio and to the submission they duplicate
+ALTER TABLE challenge_results
+  ADD COLUMN IF NOT EXISTS audio_cid TEXT,
+  ADD COLUMN IF NOT EXISTS duplicate_of_result_id TEXT REFERENCES challenge_results(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_challenge_results_audio_cid ON challenge_results(audio_cid);
+CREATE INDEX IF NOT EXISTS idx_challenge_results_duplicate_of ON challenge_results(duplicate_of_result_id);
+
+ALTER TABLE audio_fingerprints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audio_fingerprint_landmarks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "System can manage audio fingerprints" ON audio_fingerprints
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "System can manage audio fingerprint landmarks" ON audio_fingerprint_landmarks
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
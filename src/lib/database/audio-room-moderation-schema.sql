@@ -0,0 +1,42 @@
+-- Audio Room Moderation
+-- Server-enforced room permissions: hosts and moderators can mute, kick,
+-- promote and demote participants, lock the room to newcomers and end it.
+-- Every action is recorded in audio_room_moderation_log.
+-- Run after audio-rooms-schema.sql in your Supabase SQL editor.
+
+ALTER TABLE audio_rooms ADD COLUMN IF NOT EXISTS locked BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Who muted the participant; null when they muted themselves. Only hosts and
+-- moderators can lift a mute they did not choose.
+ALTER TABLE audio_room_participants ADD COLUMN IF NOT EXISTS muted_by INTEGER;
+
+ALTER TABLE audio_room_participants DROP CONSTRAINT IF EXISTS audio_room_participants_status_check;
+ALTER TABLE audio_room_participants ADD CONSTRAINT audio_room_participants_status_check
+  CHECK (status IN ('pending', 'joined', 'left', 'rejected', 'kicked'));
+
+ALTER TABLE audio_room_signals DROP CONSTRAINT IF EXISTS audio_room_signals_type_check;
+ALTER TABLE audio_room_signals ADD CONSTRAINT audio_room_signals_type_check
+  CHECK (type IN (
+    'offer', 'answer', 'ice-candidate',
+    'participant-joined', 'participant-left', 'participant-updated',
+    'join-requested', 'join-approved', 'join-rejected',
+    'room-updated', 'room-ended'
+  ));
+
+CREATE TABLE IF NOT EXISTS audio_room_moderation_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id TEXT NOT NULL REFERENCES audio_rooms(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('mute', 'unmute', 'kick', 'promote', 'demote', 'lock', 'unlock', 'end')),
+  actor_fid INTEGER NOT NULL,
+  target_fid INTEGER,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audio_room_moderation_log_room ON audio_room_moderation_log(room_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audio_room_moderation_log_target ON audio_room_moderation_log(target_fid, created_at DESC);
+
+ALTER TABLE audio_room_moderation_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "System can manage audio room moderation log" ON audio_room_moderation_log
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
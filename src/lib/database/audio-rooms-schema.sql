@@ -0,0 +1,136 @@
+-- Audio Rooms
+-- Server-side state for social audio rooms and the WebRTC signaling between
+-- their participants. Audio itself flows peer to peer; the server only relays
+-- offers, answers and ICE candidates, and tells everyone who joined or left.
+-- Run after challenges-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS audio_rooms (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  host_fid INTEGER NOT NULL,
+  host_name TEXT NOT NULL,
+  max_participants INTEGER NOT NULL DEFAULT 12 CHECK (max_participants BETWEEN 2 AND 50),
+  is_live BOOLEAN NOT NULL DEFAULT FALSE,
+  current_track JSONB, -- { title, artist, duration, currentTime }
+  settings JSONB NOT NULL, -- RoomSettings
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ended_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_audio_rooms_open ON audio_rooms(created_at DESC) WHERE ended_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS audio_room_participants (
+  room_id TEXT NOT NULL REFERENCES audio_rooms(id) ON DELETE CASCADE,
+  fid INTEGER NOT NULL,
+  username TEXT NOT NULL,
+  display_name TEXT NOT NULL,
+  pfp_url TEXT NOT NULL DEFAULT '',
+  role TEXT NOT NULL DEFAULT 'participant' CHECK (role IN ('host', 'moderator', 'participant')),
+  -- pending: waiting for the host to approve; only joined participants count toward capacity
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'joined', 'left', 'rejected')),
+  is_muted BOOLEAN NOT NULL DEFAULT FALSE,
+  is_listening BOOLEAN NOT NULL DEFAULT TRUE,
+  requested_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  joined_at TIMESTAMP WITH TIME ZONE,
+  last_active TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  left_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (room_id, fid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audio_room_participants_status ON audio_room_participants(room_id, status);
+
+-- Delivered in id order over each participant's event stream. to_fid is null
+-- for room-wide events (join/leave, room updates).
+CREATE TABLE IF NOT EXISTS audio_room_signals (
+  id BIGSERIAL PRIMARY KEY,
+  room_id TEXT NOT NULL REFERENCES audio_rooms(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN (
+    'offer', 'answer', 'ice-candidate',
+    'participant-joined', 'participant-left',
+    'join-requested', 'join-approved', 'join-rejected',
+    'room-updated', 'room-ended'
+  )),
+  from_fid INTEGER,
+  to_fid INTEGER,
+  payload JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audio_room_signals_room ON audio_room_signals(room_id, id);
+
+-- Admit a participant unless the room is full. The room row is locked so
+-- concurrent joins cannot overshoot max_participants. Returns no rows if the
+-- room is full; raises if it has ended.
+CREATE OR REPLACE FUNCTION admit_audio_room_participant(p_room_id TEXT, p_participant JSONB)
+RETURNS SETOF audio_room_participants AS $$
+DECLARE
+  room audio_rooms%ROWTYPE;
+  joined INTEGER;
+BEGIN
+  SELECT * INTO room FROM audio_rooms WHERE id = p_room_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Audio room % not found', p_room_id;
+  END IF;
+  IF room.ended_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Audio room % has ended', p_room_id;
+  END IF;
+
+  SELECT COUNT(*) INTO joined
+    FROM audio_room_participants
+    WHERE room_id = p_room_id AND status = 'joined' AND fid <> (p_participant ->> 'fid')::INTEGER;
+
+  IF joined >= room.max_participants THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO audio_room_participants (
+    room_id, fid, username, display_name, pfp_url, role, status, is_muted, is_listening, joined_at, last_active
+  ) VALUES (
+    p_room_id,
+    (p_participant ->> 'fid')::INTEGER,
+    p_participant ->> 'username',
+    p_participant ->> 'display_name',
+    COALESCE(p_participant ->> 'pfp_url', ''),
+    COALESCE(p_participant ->> 'role', 'participant'),
+    'joined',
+    COALESCE((p_participant ->> 'is_muted')::BOOLEAN, FALSE),
+    TRUE,
+    NOW(),
+    NOW()
+  )
+  ON CONFLICT (room_id, fid) DO UPDATE SET
+    username = EXCLUDED.username,
+    display_name = EXCLUDED.display_name,
+    pfp_url = EXCLUDED.pfp_url,
+    status = 'joined',
+    is_muted = EXCLUDED.is_muted,
+    joined_at = NOW(),
+    last_active = NOW(),
+    left_at = NULL
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE audio_rooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audio_room_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audio_room_signals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view audio rooms" ON audio_rooms
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view audio room participants" ON audio_room_participants
+  FOR SELECT USING (status = 'joined');
+
+CREATE POLICY "System can manage audio rooms" ON audio_rooms
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "System can manage audio room participants" ON audio_room_participants
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Signals carry SDP and ICE candidates, so they are never publicly readable
+CREATE POLICY "System can manage audio room signals" ON audio_room_signals
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,35 @@
+-- Auth Sessions
+-- Sign-In with Ethereum nonces and the server-side sessions they open. A nonce
+-- can be redeemed once; a session lives in an httpOnly cookie that carries its
+-- id and a signature, and can be revoked by logging out or refreshing.
+-- Run after audio-room-moderation-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS siwe_nonces (
+  nonce TEXT PRIMARY KEY,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_siwe_nonces_expires ON siwe_nonces(expires_at);
+
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  id TEXT PRIMARY KEY,
+  address TEXT NOT NULL,
+  chain_id INTEGER NOT NULL,
+  user_agent TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_address ON auth_sessions(address, created_at DESC);
+
+ALTER TABLE siwe_nonces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE auth_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "System can manage SIWE nonces" ON siwe_nonces
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "System can manage auth sessions" ON auth_sessions
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
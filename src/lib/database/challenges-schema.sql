@@ -0,0 +1,43 @@
+-- Challenge Catalog
+-- Songs users can sing, each with its stems: the preview (full mix), the
+-- instrumental backing track and the isolated vocal. Replaces the static
+-- src/data/challenge-songs.json; import it with `npm run import-challenges`.
+-- A challenge is only listed inside its availability window, and deleting
+-- one archives it so past submissions keep their challenge.
+-- Run after suno-generation-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS challenges (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  artist TEXT NOT NULL DEFAULT 'GIGAVIBE',
+  description TEXT,
+  difficulty TEXT NOT NULL DEFAULT 'medium' CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  duration INTEGER, -- Seconds
+  bpm INTEGER,
+  musical_key TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  type TEXT NOT NULL DEFAULT 'featured' CHECK (type IN ('viral', 'structured', 'featured')),
+  preview_url TEXT NOT NULL,
+  instrumental_url TEXT,
+  vocal_url TEXT,
+  available_from TIMESTAMP WITH TIME ZONE, -- NULL: available immediately
+  available_until TIMESTAMP WITH TIME ZONE, -- NULL: never expires
+  source TEXT NOT NULL DEFAULT 'admin' CHECK (source IN ('admin', 'import', 'suno')),
+  created_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  archived_at TIMESTAMP WITH TIME ZONE,
+  CHECK (available_until IS NULL OR available_from IS NULL OR available_until > available_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenges_available ON challenges(available_from, available_until)
+  WHERE archived_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_challenges_type ON challenges(type, created_at DESC);
+
+ALTER TABLE challenges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view challenges" ON challenges
+  FOR SELECT USING (archived_at IS NULL);
+
+CREATE POLICY "System can manage challenges" ON challenges
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,79 @@
+-- Community Ratings
+-- One vote per rater per performance, normalized to 1-5 stars and weighted by
+-- rater reputation. The Bayesian aggregate is written back to challenge_results.
+-- Run after challenge-results-schema.sql and submission-verification-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS community_ratings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  performance_id TEXT NOT NULL, -- challenge_results.id or performances.id
+  user_id TEXT NOT NULL, -- Rater (wallet address or user id)
+  rating DECIMAL(3,2) NOT NULL CHECK (rating >= 1 AND rating <= 5), -- Normalized to 1-5 stars
+  raw_rating DECIMAL(4,2) NOT NULL, -- As submitted
+  raw_scale TEXT NOT NULL CHECK (raw_scale IN ('1-5', '1-10')),
+  weight DECIMAL(5,3) NOT NULL DEFAULT 1, -- Rater reputation weight at vote time
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Re-rating replaces the previous vote
+  UNIQUE(performance_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_community_ratings_performance_id ON community_ratings(performance_id);
+CREATE INDEX IF NOT EXISTS idx_community_ratings_user_id ON community_ratings(user_id);
+
+-- Aggregate bookkeeping on challenge results
+ALTER TABLE challenge_results
+  ADD COLUMN IF NOT EXISTS community_rating_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS community_rating_confidence DECIMAL(4,3) NOT NULL DEFAULT 0;
+
+-- Keep the reality gap in step with every aggregate update, not just the first one
+CREATE OR REPLACE FUNCTION calculate_reality_gap()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.community_rating IS DISTINCT FROM OLD.community_rating THEN
+    NEW.gap = CASE
+      WHEN NEW.community_rating IS NULL THEN NULL
+      ELSE NEW.self_rating - NEW.community_rating
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Expose vote counts so consumers can tell a 5.0 from two votes apart from a 5.0 from two hundred
+CREATE OR REPLACE VIEW discovery_feed AS
+SELECT
+  cr.id,
+  cr.challenge_id,
+  cr.challenge_title,
+  cr.audio_url,
+  cr.self_rating,
+  cr.community_rating,
+  cr.gap,
+  cr.likes_count,
+  cr.comments_count,
+  cr.shares_count,
+  cr.viral_score,
+  cr.user_fid,
+  cr.cast_hash,
+  cr.coin_address,
+  cr.created_at,
+  -- Calculate trending score (recency + engagement)
+  (
+    cr.viral_score * 0.4 +
+    (cr.likes_count + cr.comments_count * 2 + cr.shares_count * 3) * 0.3 +
+    (EXTRACT(EPOCH FROM (NOW() - cr.created_at)) / 3600) * -0.3 -- Recency bonus
+  ) as trending_score,
+  cr.community_rating_count
+FROM challenge_results cr
+ORDER BY trending_score DESC, cr.created_at DESC;
+
+-- RLS: votes are public, writes go through the rating API
+ALTER TABLE community_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view community ratings" ON community_ratings
+  FOR SELECT USING (true);
+
+CREATE POLICY "System can manage community ratings" ON community_ratings
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
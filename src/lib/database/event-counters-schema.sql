@@ -0,0 +1,151 @@
+-- Windowed Event Counters
+-- Share / like / rate / comment counts per performance in 5-minute buckets, so
+-- rolling windows (last 1h, 24h, 7d) can be measured instead of guessed from
+-- lifetime totals. Written by the /api/discovery/* routes, read by viral
+-- detection and the trending feed. Buckets older than 8 days are pruned.
+-- Run after community-ratings-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS performance_event_buckets (
+  performance_id TEXT NOT NULL, -- challenge_results or performances id
+  event_type TEXT NOT NULL CHECK (event_type IN ('share', 'like', 'rate', 'comment')),
+  bucket_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (performance_id, event_type, bucket_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_performance_event_buckets_bucket_start ON performance_event_buckets(bucket_start DESC);
+
+-- Who was counted for a performance in each hour, so one session or IP
+-- counts at most once per event type per hour. Kept for a day.
+CREATE TABLE IF NOT EXISTS performance_event_actors (
+  performance_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  actor TEXT NOT NULL, -- 'user:<id>' or 'ip:<sha256>'
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (performance_id, event_type, actor, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_performance_event_actors_window_start ON performance_event_actors(window_start);
+
+-- Atomic increment of the bucket an event falls into. With an actor, only
+-- their first event of the hour is counted.
+-- Returns whether the event was counted.
+DROP FUNCTION IF EXISTS record_performance_event(TEXT, TEXT, TIMESTAMP WITH TIME ZONE, INTEGER);
+CREATE OR REPLACE FUNCTION record_performance_event(
+  performance_id TEXT,
+  event_type TEXT,
+  occurred_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  amount INTEGER DEFAULT 1,
+  actor TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF record_performance_event.actor IS NOT NULL THEN
+    INSERT INTO performance_event_actors (performance_id, event_type, actor, window_start)
+    VALUES (
+      record_performance_event.performance_id,
+      record_performance_event.event_type,
+      record_performance_event.actor,
+      date_trunc('hour', occurred_at)
+    )
+    ON CONFLICT DO NOTHING;
+
+    IF NOT FOUND THEN
+      RETURN FALSE;
+    END IF;
+  END IF;
+
+  INSERT INTO performance_event_buckets AS b (performance_id, event_type, bucket_start, count)
+  VALUES (
+    record_performance_event.performance_id,
+    record_performance_event.event_type,
+    to_timestamp(floor(EXTRACT(EPOCH FROM occurred_at) / 300) * 300),
+    amount
+  )
+  ON CONFLICT ON CONSTRAINT performance_event_buckets_pkey
+  DO UPDATE SET count = b.count + EXCLUDED.count;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION prune_performance_event_buckets()
+RETURNS INTEGER AS $$
+DECLARE
+  removed INTEGER;
+BEGIN
+  DELETE FROM performance_event_buckets WHERE bucket_start < NOW() - INTERVAL '8 days';
+  GET DIAGNOSTICS removed = ROW_COUNT;
+  DELETE FROM performance_event_actors WHERE window_start < NOW() - INTERVAL '1 day';
+  RETURN removed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rolling windows per performance (accurate to one 5-minute bucket)
+CREATE OR REPLACE VIEW performance_event_windows AS
+SELECT
+  performance_id,
+  COALESCE(SUM(count) FILTER (WHERE event_type = 'share' AND bucket_start >= NOW() - INTERVAL '1 hour'), 0)::INTEGER AS shares_1h,
+  COALESCE(SUM(count) FILTER (WHERE event_type = 'share' AND bucket_start >= NOW() - INTERVAL '24 hours'), 0)::INTEGER AS shares_24h,
+  COALESCE(SUM(count) FILTER (WHERE event_type = 'share'), 0)::INTEGER AS shares_7d,
+  COALESCE(SUM(count) FILTER (WHERE event_type = 'like' AND bucket_start >= NOW() - INTERVAL '1 hour'), 0)::INTEGER AS likes_1h,
+  COALESCE(SUM(count) FILTER (WHERE event_type = 'like' AND bucket_start >= NOW() - INTERVAL '24 hours'), 0)::INTEGER AS likes_24h,
+  COALESCE(SUM(count) FILTER (WHERE event_type = 'like'), 0)::INTEGER AS likes_7d,
+  COALESCE(SUM(count) FILTER (WHERE event_type = 'rate' AND bucket_start >= NOW() - INTERVAL '1 hour'), 0)::INTEGER AS rates_1h,
+  COALESCE(SUM(count) FILTER (WHERE event_type = 'rate' AND bucket_start >= NOW() - INTERVAL '24 hours'), 0)::INTEGER AS rates_24h,
+  COALESCE(SUM(count) FILTER (WHERE event_type = 'rate'), 0)::INTEGER AS rates_7d,
+  COALESCE(SUM(count) FILTER (WHERE event_type = 'comment' AND bucket_start >= NOW() - INTERVAL '1 hour'), 0)::INTEGER AS comments_1h,
+  COALESCE(SUM(count) FILTER (WHERE event_type = 'comment' AND bucket_start >= NOW() - INTERVAL '24 hours'), 0)::INTEGER AS comments_24h,
+  COALESCE(SUM(count) FILTER (WHERE event_type = 'comment'), 0)::INTEGER AS comments_7d
+FROM performance_event_buckets
+WHERE bucket_start >= NOW() - INTERVAL '7 days'
+GROUP BY performance_id;
+
+-- Trending now means engagement in the last day, with a boost for the last hour
+DROP VIEW IF EXISTS discovery_feed;
+CREATE VIEW discovery_feed AS
+SELECT
+  cr.id,
+  cr.challenge_id,
+  cr.challenge_title,
+  cr.audio_url,
+  cr.self_rating,
+  cr.community_rating,
+  cr.gap,
+  cr.likes_count,
+  cr.comments_count,
+  cr.shares_count,
+  cr.viral_score,
+  cr.user_fid,
+  cr.cast_hash,
+  cr.coin_address,
+  cr.created_at,
+  (
+    cr.viral_score * 0.4 +
+    (COALESCE(w.likes_24h, 0) + COALESCE(w.rates_24h, 0) + COALESCE(w.comments_24h, 0) * 2 + COALESCE(w.shares_24h, 0) * 3) * 0.5 +
+    (COALESCE(w.likes_1h, 0) + COALESCE(w.rates_1h, 0) + COALESCE(w.comments_1h, 0) * 2 + COALESCE(w.shares_1h, 0) * 3) * 1.0 +
+    (cr.likes_count + cr.comments_count * 2 + cr.shares_count * 3) * 0.05 + -- Lifetime engagement still counts a little
+    (EXTRACT(EPOCH FROM (NOW() - cr.created_at)) / 3600) * -0.3 -- Recency bonus
+  ) as trending_score,
+  cr.community_rating_count,
+  COALESCE(w.shares_1h, 0) as shares_1h,
+  COALESCE(w.shares_24h, 0) as shares_24h,
+  COALESCE(w.likes_24h + w.rates_24h + w.comments_24h + w.shares_24h, 0) as engagement_24h
+FROM challenge_results cr
+LEFT JOIN performance_event_windows w ON w.performance_id = cr.id
+ORDER BY trending_score DESC, cr.created_at DESC;
+
+-- RLS: counts are public, writes go through the discovery API
+ALTER TABLE performance_event_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view performance event buckets" ON performance_event_buckets
+  FOR SELECT USING (true);
+
+CREATE POLICY "System can manage performance event buckets" ON performance_event_buckets
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Actors are never exposed
+ALTER TABLE performance_event_actors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "System can manage performance event actors" ON performance_event_actors
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,22 @@
+-- Feed Snapshots
+-- The ranked order of a discovery feed, captured when its first page is
+-- requested. Later pages read from the snapshot through an opaque cursor, so
+-- scores that move while the user scrolls cannot duplicate or skip items.
+-- Snapshots expire after 30 minutes and are pruned when new ones are taken.
+-- Run after audio-fingerprints-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS feed_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  feed_type TEXT NOT NULL CHECK (feed_type IN ('foryou', 'trending', 'viral', 'recent')),
+  user_id TEXT, -- Owner of a personalised snapshot; NULL for shared feeds
+  items JSONB NOT NULL, -- [{ id, reasons? }] in ranked order, deduplicated
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_feed_snapshots_expires_at ON feed_snapshots(expires_at);
+
+ALTER TABLE feed_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "System can manage feed snapshots" ON feed_snapshots
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,209 @@
+-- Linked Identities
+-- One GIGAVIBE account can hold several wallets (each proven with a SIWE
+-- signature) and one Farcaster ID (proven by one of those wallets being a
+-- verified address of the FID). Everything the account owns is stored under
+-- its primary wallet, users.wallet_address. Linking an identity that another
+-- account already holds merges that account into this one.
+-- Run after auth-sessions-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS user_identities (
+  kind TEXT NOT NULL CHECK (kind IN ('wallet', 'farcaster')),
+  -- Lowercased wallet address, or the FID as text
+  identifier TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  verified_via TEXT NOT NULL CHECK (verified_via IN ('siwe', 'farcaster_verified_address')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (kind, identifier)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_identities_user ON user_identities(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_identities_one_fid ON user_identities(user_id) WHERE kind = 'farcaster';
+
+ALTER TABLE auth_sessions ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES users(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions(user_id);
+
+-- The submitting account's primary wallet
+ALTER TABLE challenge_results ADD COLUMN IF NOT EXISTS user_id TEXT;
+CREATE INDEX IF NOT EXISTS idx_challenge_results_user_id ON challenge_results(user_id);
+
+-- Same as event-counters-schema.sql, plus the owning account
+CREATE OR REPLACE VIEW discovery_feed AS
+SELECT
+  cr.id,
+  cr.challenge_id,
+  cr.challenge_title,
+  cr.audio_url,
+  cr.self_rating,
+  cr.community_rating,
+  cr.gap,
+  cr.likes_count,
+  cr.comments_count,
+  cr.shares_count,
+  cr.viral_score,
+  cr.user_fid,
+  cr.cast_hash,
+  cr.coin_address,
+  cr.created_at,
+  (
+    cr.viral_score * 0.4 +
+    (COALESCE(w.likes_24h, 0) + COALESCE(w.rates_24h, 0) + COALESCE(w.comments_24h, 0) * 2 + COALESCE(w.shares_24h, 0) * 3) * 0.5 +
+    (COALESCE(w.likes_1h, 0) + COALESCE(w.rates_1h, 0) + COALESCE(w.comments_1h, 0) * 2 + COALESCE(w.shares_1h, 0) * 3) * 1.0 +
+    (cr.likes_count + cr.comments_count * 2 + cr.shares_count * 3) * 0.05 + -- Lifetime engagement still counts a little
+    (EXTRACT(EPOCH FROM (NOW() - cr.created_at)) / 3600) * -0.3 -- Recency bonus
+  ) as trending_score,
+  cr.community_rating_count,
+  COALESCE(w.shares_1h, 0) as shares_1h,
+  COALESCE(w.shares_24h, 0) as shares_24h,
+  COALESCE(w.likes_24h + w.rates_24h + w.comments_24h + w.shares_24h, 0) as engagement_24h,
+  cr.user_id
+FROM challenge_results cr
+LEFT JOIN performance_event_windows w ON w.performance_id = cr.id
+ORDER BY trending_score DESC, cr.created_at DESC;
+
+-- The account a wallet signs in to, created on first sign-in. Wallets that
+-- already have a users row (from before linking) keep it.
+CREATE OR REPLACE FUNCTION ensure_wallet_account(p_address TEXT)
+RETURNS SETOF users AS $$
+DECLARE
+  account_id UUID;
+BEGIN
+  SELECT user_id INTO account_id FROM user_identities
+  WHERE kind = 'wallet' AND identifier = lower(p_address);
+
+  IF account_id IS NULL THEN
+    INSERT INTO users (wallet_address) VALUES (p_address)
+    ON CONFLICT (wallet_address) DO UPDATE SET updated_at = NOW()
+    RETURNING id INTO account_id;
+
+    INSERT INTO user_identities (kind, identifier, user_id, verified_via)
+    VALUES ('wallet', lower(p_address), account_id, 'siwe')
+    ON CONFLICT (kind, identifier) DO NOTHING;
+
+    -- A concurrent sign-in may have linked the wallet first
+    SELECT user_id INTO account_id FROM user_identities
+    WHERE kind = 'wallet' AND identifier = lower(p_address);
+  END IF;
+
+  RETURN QUERY SELECT * FROM users WHERE id = account_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Attach a verified identity to an account and move everything recorded
+-- under it (results, votes, performances) to the account's primary wallet.
+-- If another account holds the identity, that account is merged in and
+-- deleted. Where both accounts rated the same performance, the newer vote
+-- wins; the performances that lost a vote are returned for re-aggregation.
+CREATE OR REPLACE FUNCTION link_user_identity(
+  p_user_id UUID,
+  p_kind TEXT,
+  p_identifier TEXT,
+  p_verified_via TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  primary_key TEXT;
+  account_fid INTEGER;
+  owner_id UUID;
+  source_fid INTEGER;
+  source_keys TEXT[];
+  rerated TEXT[];
+  moved_results INTEGER;
+  moved_ratings INTEGER;
+BEGIN
+  SELECT wallet_address INTO primary_key FROM users WHERE id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account % not found', p_user_id;
+  END IF;
+
+  SELECT user_id INTO owner_id FROM user_identities
+  WHERE kind = p_kind AND identifier = p_identifier
+  FOR UPDATE;
+
+  IF owner_id = p_user_id THEN
+    RETURN jsonb_build_object('mergedAccountId', NULL, 'results', 0, 'ratings', 0, 'reratedPerformanceIds', '[]'::JSONB);
+  END IF;
+
+  SELECT identifier::INTEGER INTO account_fid FROM user_identities
+  WHERE user_id = p_user_id AND kind = 'farcaster';
+
+  IF owner_id IS NOT NULL THEN
+    PERFORM 1 FROM users WHERE id = owner_id FOR UPDATE;
+
+    SELECT identifier::INTEGER INTO source_fid FROM user_identities
+    WHERE user_id = owner_id AND kind = 'farcaster';
+    IF account_fid IS NOT NULL AND source_fid IS NOT NULL AND account_fid <> source_fid THEN
+      RAISE EXCEPTION 'Accounts are linked to different Farcaster IDs';
+    END IF;
+
+    SELECT array_agg(lower(identifier)) || lower(u.wallet_address) INTO source_keys
+    FROM user_identities i JOIN users u ON u.id = i.user_id
+    WHERE i.user_id = owner_id
+    GROUP BY u.wallet_address;
+
+    UPDATE user_identities SET user_id = p_user_id WHERE user_id = owner_id;
+    UPDATE auth_sessions SET user_id = p_user_id WHERE user_id = owner_id;
+    UPDATE performances SET user_id = p_user_id WHERE user_id = owner_id;
+    UPDATE analytics_events SET user_id = p_user_id WHERE user_id = owner_id;
+    -- farcaster_fid is unique; free it before it moves
+    UPDATE users SET farcaster_fid = NULL WHERE id = owner_id;
+  ELSE
+    IF p_kind = 'farcaster' AND account_fid IS NOT NULL THEN
+      RAISE EXCEPTION 'Account is already linked to Farcaster ID %', account_fid;
+    END IF;
+
+    INSERT INTO user_identities (kind, identifier, user_id, verified_via)
+    VALUES (p_kind, p_identifier, p_user_id, p_verified_via);
+
+    source_keys := ARRAY[lower(p_identifier)];
+    IF p_kind = 'farcaster' THEN
+      source_fid := p_identifier::INTEGER;
+    END IF;
+  END IF;
+
+  -- One vote per account
+  WITH ranked AS (
+    SELECT id, row_number() OVER (PARTITION BY performance_id ORDER BY updated_at DESC, created_at DESC) AS rank
+    FROM community_ratings
+    WHERE lower(user_id) = lower(primary_key) OR lower(user_id) = ANY(source_keys)
+  ), dropped AS (
+    DELETE FROM community_ratings
+    WHERE id IN (SELECT id FROM ranked WHERE rank > 1)
+    RETURNING performance_id
+  )
+  SELECT COALESCE(array_agg(DISTINCT performance_id), '{}') INTO rerated FROM dropped;
+
+  -- updated_at stays: it is when the vote was cast
+  UPDATE community_ratings SET user_id = primary_key
+  WHERE (lower(user_id) = lower(primary_key) OR lower(user_id) = ANY(source_keys))
+    AND user_id <> primary_key;
+  GET DIAGNOSTICS moved_ratings = ROW_COUNT;
+
+  UPDATE challenge_results
+  SET user_id = primary_key,
+      user_fid = COALESCE(user_fid, account_fid, source_fid),
+      updated_at = NOW()
+  WHERE (lower(user_id) = ANY(source_keys) OR (source_fid IS NOT NULL AND user_fid = source_fid))
+    AND user_id IS DISTINCT FROM primary_key;
+  GET DIAGNOSTICS moved_results = ROW_COUNT;
+
+  IF owner_id IS NOT NULL THEN
+    DELETE FROM users WHERE id = owner_id;
+  END IF;
+
+  UPDATE users
+  SET farcaster_fid = COALESCE(account_fid, source_fid), updated_at = NOW()
+  WHERE id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'mergedAccountId', owner_id,
+    'results', moved_results,
+    'ratings', moved_ratings,
+    'reratedPerformanceIds', to_jsonb(rerated)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE user_identities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "System can manage user identities" ON user_identities
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,50 @@
+-- Melody Scoring Storage
+-- Reference melodies extracted from challenge vocal stems, and the
+-- alignment scores computed for each submission against them.
+-- Run after pitch-tracks-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS challenge_reference_melodies (
+  challenge_id TEXT PRIMARY KEY,
+  vocal_url TEXT NOT NULL, -- Stem the contour was extracted from; re-extract when it changes
+  analyzer_version TEXT NOT NULL,
+  sample_rate INTEGER NOT NULL,
+  hop_size REAL NOT NULL,
+  frame_size REAL NOT NULL,
+  duration REAL NOT NULL,
+  frames JSONB NOT NULL, -- [{ time, frequency, confidence, volume }]
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS challenge_result_scores (
+  challenge_result_id TEXT PRIMARY KEY REFERENCES challenge_results(id) ON DELETE CASCADE,
+  challenge_id TEXT NOT NULL,
+  scorer_version TEXT NOT NULL,
+  accuracy REAL NOT NULL, -- 0-100, coverage weighted
+  pitch_accuracy REAL NOT NULL, -- 0-100 over matched notes
+  coverage REAL NOT NULL, -- 0-1
+  timing_offset_ms INTEGER NOT NULL, -- Positive = singer late
+  octave_shift INTEGER NOT NULL DEFAULT 0,
+  phrases JSONB NOT NULL, -- [{ index, startTime, endTime, pitchAccuracy, coverage, timingOffsetMs }]
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_challenge_result_scores_challenge ON challenge_result_scores(challenge_id);
+
+ALTER TABLE challenge_reference_melodies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE challenge_result_scores ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read reference melodies and scores
+CREATE POLICY "Anyone can view reference melodies" ON challenge_reference_melodies
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view challenge scores" ON challenge_result_scores
+  FOR SELECT USING (true);
+
+-- Policy: Only the server writes melodies and scores
+CREATE POLICY "System can manage reference melodies" ON challenge_reference_melodies
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "System can manage challenge scores" ON challenge_result_scores
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
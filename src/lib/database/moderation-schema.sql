@@ -0,0 +1,144 @@
+-- Moderation Store
+-- Durable state for ModerationService (see src/lib/moderation/ModerationRepository.ts):
+-- content reports, moderation results, user reputations, reviewers and their
+-- assignments, appeals, and user/IP sanctions. Replaces the per-instance
+-- in-memory maps so every server instance and device sees the same state.
+-- Run after event-counters-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS moderation_results (
+  content_id TEXT PRIMARY KEY,
+  content_type TEXT NOT NULL CHECK (content_type IN ('audio', 'text', 'image', 'user_profile', 'challenge')),
+  status TEXT NOT NULL CHECK (status IN ('pending', 'approved', 'rejected', 'flagged', 'under_review', 'auto_approved')),
+  owner_id TEXT, -- Submitting user; null for content only known from reports
+  reason TEXT,
+  confidence DECIMAL(4,3),
+  review_required BOOLEAN NOT NULL DEFAULT FALSE,
+  moderator_id TEXT,
+  action_taken TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_results_status ON moderation_results(status);
+CREATE INDEX IF NOT EXISTS idx_moderation_results_owner_id ON moderation_results(owner_id);
+
+CREATE TABLE IF NOT EXISTS moderation_reports (
+  id TEXT PRIMARY KEY,
+  content_id TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  reporter_id TEXT NOT NULL,
+  reporter_reputation_level TEXT NOT NULL, -- Level at report time, used for report weighting
+  reason TEXT NOT NULL,
+  details TEXT,
+  status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'under_review', 'resolved', 'rejected')),
+  reviewer_id TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  action_taken TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_reports_content_id ON moderation_reports(content_id);
+CREATE INDEX IF NOT EXISTS idx_moderation_reports_status ON moderation_reports(status);
+
+CREATE TABLE IF NOT EXISTS user_reputations (
+  user_id TEXT PRIMARY KEY,
+  reputation_level TEXT NOT NULL DEFAULT 'new',
+  reputation_score DECIMAL(10,2) NOT NULL DEFAULT 50,
+  content_submitted INTEGER NOT NULL DEFAULT 0,
+  content_approved INTEGER NOT NULL DEFAULT 0,
+  content_rejected INTEGER NOT NULL DEFAULT 0,
+  reports_submitted INTEGER NOT NULL DEFAULT 0,
+  reports_validated INTEGER NOT NULL DEFAULT 0,
+  verification JSONB, -- { verified, method, timestamp }
+  strike_count INTEGER NOT NULL DEFAULT 0,
+  strike_history JSONB NOT NULL DEFAULT '[]', -- [{ reason, timestamp, expiresAt }]
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS moderation_reviewers (
+  user_id TEXT PRIMARY KEY,
+  registered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One reviewer per piece of content; the row is removed once a decision is made
+CREATE TABLE IF NOT EXISTS moderation_review_assignments (
+  content_id TEXT PRIMARY KEY,
+  reviewer_id TEXT NOT NULL REFERENCES moderation_reviewers(user_id) ON DELETE CASCADE,
+  assigned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_review_assignments_reviewer_id ON moderation_review_assignments(reviewer_id);
+
+CREATE TABLE IF NOT EXISTS moderation_appeals (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  content_id TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  evidence TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewer_id TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_appeals_user_id ON moderation_appeals(user_id);
+CREATE INDEX IF NOT EXISTS idx_moderation_appeals_status ON moderation_appeals(status);
+
+-- Blocks, shadow bans and IP blocks; temporary bans carry an expiry instead of a timer
+CREATE TABLE IF NOT EXISTS moderation_sanctions (
+  subject TEXT NOT NULL, -- User id, or IP address for ip_block
+  sanction_type TEXT NOT NULL CHECK (sanction_type IN ('user_block', 'shadow_ban', 'ip_block')),
+  reason TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE, -- Null means permanent
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (subject, sanction_type)
+);
+
+-- Dashboard counts without shipping every row to the server
+CREATE OR REPLACE VIEW moderation_result_counts AS
+SELECT status, COUNT(*)::INTEGER AS count
+FROM moderation_results
+GROUP BY status;
+
+CREATE OR REPLACE VIEW moderation_report_counts AS
+SELECT status, COUNT(*)::INTEGER AS count
+FROM moderation_reports
+GROUP BY status;
+
+-- RLS: moderation state is written by the server only; reports, appeals and
+-- sanctions are not publicly readable
+ALTER TABLE moderation_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_reputations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_reviewers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_review_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_appeals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE moderation_sanctions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view moderation results" ON moderation_results
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view user reputations" ON user_reputations
+  FOR SELECT USING (true);
+
+CREATE POLICY "System can manage moderation results" ON moderation_results
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "System can manage moderation reports" ON moderation_reports
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "System can manage user reputations" ON user_reputations
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "System can manage moderation reviewers" ON moderation_reviewers
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "System can manage moderation review assignments" ON moderation_review_assignments
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "System can manage moderation appeals" ON moderation_appeals
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "System can manage moderation sanctions" ON moderation_sanctions
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,28 @@
+-- Pitch Track Storage
+-- Offline pitch contours extracted from recorded performances.
+-- Run after challenge-results-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS challenge_result_pitch_tracks (
+  challenge_result_id TEXT PRIMARY KEY REFERENCES challenge_results(id) ON DELETE CASCADE,
+  analyzer_version TEXT NOT NULL,
+  sample_rate INTEGER NOT NULL, -- Analysis sample rate in Hz
+  hop_size REAL NOT NULL, -- Seconds between frames
+  frame_size REAL NOT NULL, -- Seconds per analysis window
+  duration REAL NOT NULL, -- Recording duration in seconds
+  frame_count INTEGER NOT NULL,
+  voiced_ratio REAL, -- Share of frames with a detected pitch
+  median_frequency REAL, -- Hz over voiced frames
+  frames JSONB NOT NULL, -- [{ time, frequency, confidence, volume }]
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE challenge_result_pitch_tracks ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Anyone can read pitch tracks (used for replays)
+CREATE POLICY "Anyone can view pitch tracks" ON challenge_result_pitch_tracks
+  FOR SELECT USING (true);
+
+-- Policy: Only the server writes pitch tracks
+CREATE POLICY "System can manage pitch tracks" ON challenge_result_pitch_tracks
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,24 @@
+-- Profile Cache
+-- Author profiles resolved for feed items, keyed by 'fid:<fid>' or
+-- 'address:<lowercased address>'. Lookups that found nothing are cached too
+-- (source 'none'), for less time. Expired rows are still served when the
+-- upstream services are unavailable.
+-- Run after linked-identities-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS profile_cache (
+  key TEXT PRIMARY KEY,
+  fid INTEGER,
+  username TEXT,
+  display_name TEXT,
+  pfp_url TEXT,
+  source TEXT NOT NULL CHECK (source IN ('farcaster', 'web3bio', 'ensdata', 'none')),
+  fetched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_profile_cache_expires ON profile_cache(expires_at);
+
+ALTER TABLE profile_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "System can manage profile cache" ON profile_cache
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
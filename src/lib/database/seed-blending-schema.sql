@@ -0,0 +1,25 @@
+-- Seed Blending Policies
+-- How much curated seed content the discovery feeds mix in while real
+-- performances are scarce. The 'default' row applies everywhere; a row keyed
+-- by challenge id overrides any of its fields for that challenge's seeds.
+-- NULL fields fall back to the default row, then to the built-in policy.
+-- Run after feed-snapshots-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS seed_blend_policies (
+  scope TEXT PRIMARY KEY, -- 'default' or a challenge id
+  enabled BOOLEAN,
+  initial_ratio DECIMAL(4,3) CHECK (initial_ratio BETWEEN 0 AND 1),
+  half_life INTEGER CHECK (half_life >= 1),
+  floor_ratio DECIMAL(4,3) CHECK (floor_ratio BETWEEN 0 AND 1),
+  retire_after INTEGER CHECK (retire_after >= 0),
+  updated_by TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE seed_blend_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view seed blend policies" ON seed_blend_policies
+  FOR SELECT USING (true);
+
+CREATE POLICY "System can manage seed blend policies" ON seed_blend_policies
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
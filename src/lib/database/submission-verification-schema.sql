@@ -0,0 +1,45 @@
+-- Submission Verification
+-- Server-side verification results for challenge submissions.
+-- Run after challenge-results-schema.sql and melody-scoring-schema.sql in your Supabase SQL editor.
+
+ALTER TABLE challenge_results
+  ADD COLUMN IF NOT EXISTS verification_status TEXT NOT NULL DEFAULT 'unverified'
+    CHECK (verification_status IN ('verified', 'unverified', 'flagged')),
+  ADD COLUMN IF NOT EXISTS verification_flags JSONB NOT NULL DEFAULT '[]', -- [{ code, message, claimed, actual }]
+  ADD COLUMN IF NOT EXISTS audio_format TEXT, -- Container detected from the audio bytes
+  ADD COLUMN IF NOT EXISTS claimed_duration INTEGER, -- Seconds, as sent by the client
+  ADD COLUMN IF NOT EXISTS claimed_accuracy DECIMAL(5,2), -- As sent by the client; accuracy holds the server score
+  ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_challenge_results_verification_status ON challenge_results(verification_status);
+
+-- Leaderboard excludes flagged submissions
+CREATE OR REPLACE VIEW challenge_leaderboard AS
+SELECT 
+  cr.id,
+  cr.challenge_id,
+  cr.challenge_title,
+  cr.audio_url,
+  cr.self_rating,
+  cr.community_rating,
+  cr.gap,
+  cr.likes_count,
+  cr.viral_score,
+  cr.user_fid,
+  cr.created_at,
+  cr.accuracy,
+  cr.verification_status,
+  -- Calculate rank based on community rating
+  ROW_NUMBER() OVER (
+    PARTITION BY cr.challenge_id 
+    ORDER BY cr.community_rating DESC NULLS LAST, cr.self_rating DESC
+  ) as rank,
+  -- Calculate percentile
+  PERCENT_RANK() OVER (
+    PARTITION BY cr.challenge_id 
+    ORDER BY cr.community_rating ASC NULLS FIRST
+  ) * 100 as percentile
+FROM challenge_results cr
+WHERE cr.community_rating IS NOT NULL
+  AND cr.verification_status <> 'flagged'
+ORDER BY cr.challenge_id, rank;
@@ -0,0 +1,55 @@
+-- Suno Generation Jobs
+-- Server-side record of every paid AI track generation. A job is created by
+-- an admin, advanced by Suno's callbacks (generate → separate vocals), then
+-- its stems are pinned to IPFS and published as a challenge. Every callback
+-- payload is kept so a job can be replayed or audited.
+-- Run after seed-blending-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS suno_generation_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL DEFAULT 'generating'
+    CHECK (status IN ('generating', 'separating', 'pinning', 'published', 'failed')),
+  prompt TEXT NOT NULL,
+  title TEXT,
+  model TEXT NOT NULL DEFAULT 'V4_5',
+  difficulty TEXT NOT NULL DEFAULT 'medium' CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  requested_by TEXT,
+  generate_task_id TEXT,
+  separation_task_id TEXT,
+  track JSONB, -- The Suno track chosen for the challenge
+  stems JSONB, -- { original, instrumental, vocals } Suno URLs (these expire)
+  pinned JSONB, -- { original, instrumental, vocals } IPFS CIDs
+  challenge_id TEXT UNIQUE,
+  challenge JSONB, -- The published Challenge
+  failed_stage TEXT CHECK (failed_stage IN ('generating', 'separating', 'pinning')),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  published_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_suno_generation_jobs_status ON suno_generation_jobs(status, updated_at);
+CREATE INDEX IF NOT EXISTS idx_suno_generation_jobs_published ON suno_generation_jobs(published_at DESC)
+  WHERE status = 'published';
+
+CREATE TABLE IF NOT EXISTS suno_generation_callbacks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES suno_generation_jobs(id) ON DELETE CASCADE,
+  task_id TEXT,
+  callback_type TEXT NOT NULL, -- text, first, complete, error or vocal_removal
+  code INTEGER,
+  payload JSONB NOT NULL,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_suno_generation_callbacks_job ON suno_generation_callbacks(job_id, received_at);
+
+ALTER TABLE suno_generation_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE suno_generation_callbacks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "System can manage Suno generation jobs" ON suno_generation_jobs
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "System can manage Suno generation callbacks" ON suno_generation_callbacks
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
@@ -1,6 +1,7 @@
 import { RealityCheckResult } from '@/lib/zora/types';
-import { Address } from 'viem';
+import { Address, isAddress, zeroAddress } from 'viem';
 import { SeedPerformance } from '@/lib/coldstart/ColdStartContentService';
+import { ogImageUrl } from '@/lib/og/OgImageUrls';
 
 /**
  * Transform database discovery feed results to RealityCheckResult format
@@ -11,9 +12,10 @@ export function transformDiscoveryFeedToRealityCheck(feedItem: any): RealityChec
     eventId: feedItem.id,
     challengeTitle: feedItem.challenge_title || 'Untitled Challenge',
     challengeId: feedItem.challenge_id,
-    userAddress: (feedItem.user_fid?.toString() || '0x0') as Address,
+    userAddress: toUserAddress(feedItem.user_id),
     selfRating: feedItem.self_rating || 0,
     communityRating: feedItem.community_rating || 0,
+    communityRatingCount: feedItem.community_rating_count || 0,
     gap: feedItem.gap || 0,
     wittyCommentary: generateWittyCommentary(feedItem.self_rating, feedItem.community_rating, feedItem.gap),
     shareCount: feedItem.shares_count || 0,
@@ -43,9 +45,10 @@ export function transformChallengeResultToRealityCheck(result: any): RealityChec
     eventId: result.id,
     challengeTitle: result.challenge_title,
     challengeId: result.challenge_id,
-    userAddress: (result.user_fid?.toString() || '0x0') as Address,
+    userAddress: toUserAddress(result.user_id),
     selfRating: result.self_rating,
     communityRating: result.community_rating || 0,
+    communityRatingCount: result.community_rating_count || 0,
     gap: result.gap || 0,
     wittyCommentary: generateWittyCommentary(result.self_rating, result.community_rating, result.gap),
     shareCount: result.shares_count,
@@ -94,7 +97,10 @@ export function transformSeedPerformanceToRealityCheck(seedPerf: SeedPerformance
       likes: seedPerf.engagement.likes,
       recasts: seedPerf.engagement.shares,
       replies: seedPerf.engagement.comments
-    }
+    },
+    seed: seedPerf.spotlight
+      ? { kind: 'spotlight', label: 'New challenge' }
+      : { kind: 'curated', label: 'Example performance' }
   };
 }
 
@@ -138,10 +144,10 @@ function categorizePerformance(selfRating: number, communityRating: number, gap:
 }
 
 /**
- * Generate result image URL (placeholder for now)
+ * Shareable Reality Reveal image, rendered by /api/og/result
  */
 function generateResultImageUrl(performanceId: string): string {
-  return `https://storage.googleapis.com/gigavibe/images/performance-${performanceId}.jpg`;
+  return ogImageUrl('result', performanceId);
 }
 
 /**
@@ -150,4 +156,12 @@ function generateResultImageUrl(performanceId: string): string {
 function generateProfilePicture(userFid?: number): string {
   if (!userFid) return 'https://storage.googleapis.com/gigavibe/profiles/default.jpg';
   return `https://storage.googleapis.com/gigavibe/profiles/user${userFid}.jpg`;
-}
\ No newline at end of file
+}
+
+/**
+ * The owning account's primary wallet. A FID is not an address; results
+ * from before accounts existed have no owner and get the zero address.
+ */
+function toUserAddress(userId?: string | null): Address {
+  return userId && isAddress(userId) ? userId : zeroAddress;
+}
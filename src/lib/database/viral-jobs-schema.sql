@@ -0,0 +1,65 @@
+-- Viral Coin Jobs
+-- Turns viral_queue into a durable job table processed server-side by /api/viral/jobs/run.
+-- Jobs move detected -> approved -> minting -> minted, or to failed. The idempotency key
+-- (one per performance) and the unique coin index make double-minting impossible.
+-- Run after new-supabase-schema.sql and challenge-results-schema.sql in your Supabase SQL editor.
+
+-- Queue items reference challenge_results (TEXT ids) as well as performances
+ALTER TABLE viral_queue DROP CONSTRAINT IF EXISTS viral_queue_performance_id_fkey;
+ALTER TABLE viral_queue ALTER COLUMN performance_id TYPE TEXT USING performance_id::TEXT;
+
+-- Migrate legacy statuses onto the job state machine
+ALTER TABLE viral_queue DROP CONSTRAINT IF EXISTS viral_queue_status_check;
+UPDATE viral_queue SET status = CASE status
+  WHEN 'pending' THEN 'detected'
+  WHEN 'processing' THEN 'approved' -- Never broadcast anything; safe to retry
+  WHEN 'completed' THEN 'minted'
+  ELSE status
+END;
+
+ALTER TABLE viral_queue
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT,
+  ADD COLUMN IF NOT EXISTS eligibility_type TEXT,
+  ADD COLUMN IF NOT EXISTS reason TEXT,
+  ADD COLUMN IF NOT EXISTS snapshot JSONB, -- Metrics at detection time
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS approved_by TEXT,
+  ADD COLUMN IF NOT EXISTS payout_recipient TEXT,
+  ADD COLUMN IF NOT EXISTS metadata_uri TEXT,
+  ADD COLUMN IF NOT EXISTS tx_hash TEXT, -- Recorded before broadcast
+  ADD COLUMN IF NOT EXISTS signed_transaction TEXT, -- Rebroadcast (never re-signed) when reconciling
+  ADD COLUMN IF NOT EXISTS coin_address TEXT,
+  ADD COLUMN IF NOT EXISTS minted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+UPDATE viral_queue SET idempotency_key = 'coin:' || performance_id WHERE idempotency_key IS NULL;
+
+-- Keep only the most advanced job per performance before enforcing uniqueness
+DELETE FROM viral_queue a
+USING viral_queue b
+WHERE a.idempotency_key = b.idempotency_key
+  AND a.id <> b.id
+  AND (
+    CASE a.status WHEN 'minted' THEN 4 WHEN 'minting' THEN 3 WHEN 'approved' THEN 2 WHEN 'detected' THEN 1 ELSE 0 END,
+    a.detected_at
+  ) < (
+    CASE b.status WHEN 'minted' THEN 4 WHEN 'minting' THEN 3 WHEN 'approved' THEN 2 WHEN 'detected' THEN 1 ELSE 0 END,
+    b.detected_at
+  );
+
+ALTER TABLE viral_queue ALTER COLUMN idempotency_key SET NOT NULL;
+ALTER TABLE viral_queue
+  ADD CONSTRAINT viral_queue_status_check
+    CHECK (status IN ('detected', 'approved', 'minting', 'minted', 'failed'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_viral_queue_idempotency_key ON viral_queue(idempotency_key);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_viral_queue_tx_hash ON viral_queue(tx_hash) WHERE tx_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_viral_queue_next_attempt ON viral_queue(status, next_attempt_at);
+
+-- A performance can only ever own one coin
+CREATE UNIQUE INDEX IF NOT EXISTS idx_performance_coins_performance_unique ON performance_coins(performance_id);
@@ -0,0 +1,134 @@
+-- Viral Rule Sets
+-- Versioned, declarative viral-coin rules (see src/lib/viral/ViralRules.ts) edited
+-- through /api/viral/thresholds. Rule sets are immutable once created; changing
+-- thresholds publishes a new version. Active versions split traffic for A/B tests,
+-- and every publish or allocation change is written to viral_rule_audit_log.
+-- Supersedes the flat viral_thresholds table, which is no longer read.
+-- Run after viral-jobs-schema.sql in your Supabase SQL editor.
+
+CREATE TABLE IF NOT EXISTS viral_rule_sets (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  version INTEGER GENERATED ALWAYS AS IDENTITY UNIQUE,
+  name TEXT,
+  rules JSONB NOT NULL,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'active', 'retired')),
+  traffic_percent INTEGER NOT NULL DEFAULT 0 CHECK (traffic_percent BETWEEN 0 AND 100),
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  activated_at TIMESTAMP WITH TIME ZONE,
+  retired_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_viral_rule_sets_status ON viral_rule_sets(status);
+
+CREATE TABLE IF NOT EXISTS viral_rule_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  action TEXT NOT NULL CHECK (action IN ('create', 'allocate')),
+  rule_set_version INTEGER REFERENCES viral_rule_sets(version), -- Null for allocation changes
+  actor TEXT NOT NULL,
+  reason TEXT,
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_viral_rule_audit_log_created_at ON viral_rule_audit_log(created_at DESC);
+
+-- Published rules never change
+CREATE OR REPLACE FUNCTION prevent_viral_rule_edits()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.rules IS DISTINCT FROM OLD.rules OR NEW.version IS DISTINCT FROM OLD.version THEN
+    RAISE EXCEPTION 'Viral rule set % is immutable - publish a new version instead', OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prevent_viral_rule_edits ON viral_rule_sets;
+CREATE TRIGGER trigger_prevent_viral_rule_edits
+  BEFORE UPDATE ON viral_rule_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_viral_rule_edits();
+
+-- Audit every new version
+CREATE OR REPLACE FUNCTION audit_viral_rule_set_created()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO viral_rule_audit_log (action, rule_set_version, actor, reason, after)
+  VALUES ('create', NEW.version, NEW.created_by, NEW.notes, NEW.rules);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_audit_viral_rule_set_created ON viral_rule_sets;
+CREATE TRIGGER trigger_audit_viral_rule_set_created
+  AFTER INSERT ON viral_rule_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_viral_rule_set_created();
+
+-- Atomically replace the active traffic split, e.g.
+-- '[{"version": 3, "traffic_percent": 50}, {"version": 4, "traffic_percent": 50}]'.
+-- Versions left out are retired. Percentages must add up to 100.
+CREATE OR REPLACE FUNCTION set_viral_rule_allocations(allocations JSONB, actor TEXT, reason TEXT DEFAULT NULL)
+RETURNS SETOF viral_rule_sets AS $$
+DECLARE
+  previous JSONB;
+  total INTEGER;
+  known INTEGER;
+BEGIN
+  LOCK TABLE viral_rule_sets IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT COALESCE(SUM((a ->> 'traffic_percent')::INTEGER), 0), COUNT(*)
+    INTO total, known
+    FROM jsonb_array_elements(allocations) a;
+
+  IF known = 0 THEN
+    RAISE EXCEPTION 'At least one rule set version must be active';
+  END IF;
+  IF total <> 100 THEN
+    RAISE EXCEPTION 'Traffic percentages must add up to 100 (got %)', total;
+  END IF;
+  IF (SELECT COUNT(*) FROM viral_rule_sets WHERE version IN (
+        SELECT (a ->> 'version')::INTEGER FROM jsonb_array_elements(allocations) a
+      )) <> known THEN
+    RAISE EXCEPTION 'Unknown or duplicated rule set version in allocations';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('version', version, 'traffic_percent', traffic_percent) ORDER BY version), '[]'::JSONB)
+    INTO previous
+    FROM viral_rule_sets WHERE status = 'active';
+
+  UPDATE viral_rule_sets
+    SET status = 'retired', traffic_percent = 0, retired_at = NOW()
+    WHERE status = 'active'
+      AND version NOT IN (SELECT (a ->> 'version')::INTEGER FROM jsonb_array_elements(allocations) a);
+
+  UPDATE viral_rule_sets s
+    SET status = 'active',
+        traffic_percent = (a ->> 'traffic_percent')::INTEGER,
+        activated_at = CASE WHEN s.status = 'active' THEN s.activated_at ELSE NOW() END,
+        retired_at = NULL
+    FROM jsonb_array_elements(allocations) a
+    WHERE s.version = (a ->> 'version')::INTEGER;
+
+  INSERT INTO viral_rule_audit_log (action, actor, reason, before, after)
+  VALUES ('allocate', actor, reason, previous, allocations);
+
+  RETURN QUERY SELECT * FROM viral_rule_sets WHERE status = 'active' ORDER BY version;
+END;
+$$ LANGUAGE plpgsql;
+
+-- RLS: rules are public so clients can preview eligibility, writes are server-only
+ALTER TABLE viral_rule_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE viral_rule_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view viral rule sets" ON viral_rule_sets
+  FOR SELECT USING (true);
+
+CREATE POLICY "System can manage viral rule sets" ON viral_rule_sets
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "System can manage viral rule audit log" ON viral_rule_audit_log
+  FOR ALL USING (auth.jwt() ->> 'role' = 'service_role');
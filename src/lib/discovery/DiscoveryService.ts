@@ -3,6 +3,15 @@
 import { RealityCheckResult } from '@/lib/zora/types';
 import { Address } from 'viem';
 
+export type DiscoveryFeedType = 'trending' | 'foryou' | 'recent' | 'viral';
+
+export interface DiscoveryFeedPage {
+  performances: RealityCheckResult[];
+  hasMore: boolean;
+  nextCursor: string | null; // Pass back to getFeed for the next page
+  expired?: boolean; // The cursor's snapshot is gone - reload from the first page
+}
+
 /**
  * Discovery Service for algorithmic content curation
  * Implements TikTok-style feed algorithms for performance discovery
@@ -29,35 +38,38 @@ export class DiscoveryService {
    * @throws Error if feed data cannot be retrieved
    */
   async getFeed(
-    feedType: 'trending' | 'foryou' | 'recent' | 'viral',
-    offset: number = 0,
+    feedType: DiscoveryFeedType,
+    cursor: string | null = null,
     limit: number = 20
-  ): Promise<RealityCheckResult[]> {
-    const cacheKey = `feed-${feedType}-${offset}`;
+  ): Promise<DiscoveryFeedPage> {
+    // A cursor always names the same slice of the same snapshot
+    const cacheKey = `feed-${feedType}-${limit}-${cursor || 'first'}`;
     const cached = this.getFromCache(cacheKey);
     if (cached) return cached;
 
     try {
-      let performances: RealityCheckResult[];
+      let page: DiscoveryFeedPage;
 
       switch (feedType) {
         case 'trending':
-          performances = await this.getTrendingFeed(offset, limit);
+          page = await this.getTrendingFeed(cursor, limit);
           break;
         case 'viral':
-          performances = await this.getViralFeed(offset, limit);
+          page = await this.getViralFeed(cursor, limit);
           break;
         case 'recent':
-          performances = await this.getRecentFeed(offset, limit);
+          page = await this.getRecentFeed(cursor, limit);
           break;
         case 'foryou':
         default:
-          performances = await this.getPersonalizedFeed(offset, limit);
+          page = await this.getPersonalizedFeed(cursor, limit);
           break;
       }
 
-      this.setCache(cacheKey, performances);
-      return performances;
+      if (!page.expired) {
+        this.setCache(cacheKey, page);
+      }
+      return page;
     } catch (error) {
       console.error('Failed to get feed:', error);
       throw new Error(`Failed to retrieve ${feedType} feed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -71,16 +83,10 @@ export class DiscoveryService {
    * Get trending performances (high engagement in last 24h)
    * @throws Error if API request fails
    */
-  private async getTrendingFeed(offset: number, limit: number): Promise<RealityCheckResult[]> {
+  private async getTrendingFeed(cursor: string | null, limit: number): Promise<DiscoveryFeedPage> {
     try {
-      const response = await fetch(`/api/discovery/feed/trending?offset=${offset}&limit=${limit}`);
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      return data.performances;
+      const response = await fetch(`/api/discovery/feed/trending?${this.pageQuery(cursor, limit)}`);
+      return await this.toFeedPage(response);
     } catch (error) {
       console.error('Failed to fetch trending feed:', error);
       throw new Error(`Trending feed request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -94,16 +100,10 @@ export class DiscoveryService {
    * Get viral performances (high share count)
    * @throws Error if API request fails
    */
-  private async getViralFeed(offset: number, limit: number): Promise<RealityCheckResult[]> {
+  private async getViralFeed(cursor: string | null, limit: number): Promise<DiscoveryFeedPage> {
     try {
-      const response = await fetch(`/api/discovery/feed/viral?offset=${offset}&limit=${limit}`);
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      return data.performances;
+      const response = await fetch(`/api/discovery/feed/viral?${this.pageQuery(cursor, limit)}`);
+      return await this.toFeedPage(response);
     } catch (error) {
       console.error('Failed to fetch viral feed:', error);
       throw new Error(`Viral feed request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -114,16 +114,10 @@ export class DiscoveryService {
    * Get recent performances (chronological)
    * @throws Error if API request fails
    */
-  private async getRecentFeed(offset: number, limit: number): Promise<RealityCheckResult[]> {
+  private async getRecentFeed(cursor: string | null, limit: number): Promise<DiscoveryFeedPage> {
     try {
-      const response = await fetch(`/api/discovery/feed/recent?offset=${offset}&limit=${limit}`);
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      return data.performances;
+      const response = await fetch(`/api/discovery/feed/recent?${this.pageQuery(cursor, limit)}`);
+      return await this.toFeedPage(response);
     } catch (error) {
       console.error('Failed to fetch recent feed:', error);
       throw new Error(`Recent feed request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -131,22 +125,13 @@ export class DiscoveryService {
   }
 
   /**
-   * Get personalized "For You" feed
+   * Get personalized "For You" feed, ranked for the signed-in account
    * @throws Error if API request fails
    */
-  private async getPersonalizedFeed(offset: number, limit: number): Promise<RealityCheckResult[]> {
+  private async getPersonalizedFeed(cursor: string | null, limit: number): Promise<DiscoveryFeedPage> {
     try {
-      // Get user id for personalization (if available)
-      const userId = localStorage.getItem('userId') || 'anonymous';
-      
-      const response = await fetch(`/api/discovery/feed/foryou?userId=${userId}&offset=${offset}&limit=${limit}`);
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      
-      const data = await response.json();
-      return data.performances;
+      const response = await fetch(`/api/discovery/feed/foryou?${this.pageQuery(cursor, limit)}`);
+      return await this.toFeedPage(response);
     } catch (error) {
       console.error('Failed to fetch personalized feed:', error);
       throw new Error(`Personalized feed request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -157,10 +142,12 @@ export class DiscoveryService {
    * Rate a performance
    */
   /**
-   * Rate a performance
+   * Rate a performance as the signed-in user (one vote per user; re-rating
+   * replaces the previous vote)
+   * @returns The updated community rating on the 5-star scale
    * @throws Error if rating submission fails
    */
-  async ratePerformance(performanceId: string, rating: number): Promise<void> {
+  async ratePerformance(performanceId: string, rating: number): Promise<number> {
     try {
       const response = await fetch('/api/discovery/rate', {
         method: 'POST',
@@ -169,7 +156,8 @@ export class DiscoveryService {
         },
         body: JSON.stringify({
           performanceId,
-          rating
+          rating,
+          scale: '1-5'
         }),
       });
       
@@ -177,8 +165,12 @@ export class DiscoveryService {
         throw new Error(`API error: ${response.status} ${response.statusText}`);
       }
       
+      const data = await response.json();
+
       // Update local cache
       this.invalidateCache();
+
+      return data.communityRating;
     } catch (error) {
       console.error('Failed to rate performance:', error);
       throw new Error(`Rating submission failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -241,6 +233,32 @@ export class DiscoveryService {
     }
   }
 
+  private pageQuery(cursor: string | null, limit: number): string {
+    const params = new URLSearchParams({ limit: limit.toString() });
+    if (cursor) params.set('cursor', cursor);
+    return params.toString();
+  }
+
+  /**
+   * @throws Error if the response is an error other than an expired cursor
+   */
+  private async toFeedPage(response: Response): Promise<DiscoveryFeedPage> {
+    if (response.status === 410) {
+      return { performances: [], hasMore: false, nextCursor: null, expired: true };
+    }
+
+    if (!response.ok) {
+      throw new Error(`API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return {
+      performances: data.performances,
+      hasMore: !!data.pagination?.hasMore,
+      nextCursor: data.pagination?.nextCursor ?? null
+    };
+  }
+
   /**
    * Cache management
    */
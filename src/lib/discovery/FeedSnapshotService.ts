@@ -0,0 +1,211 @@
+/**
+ * Feed Snapshot Service
+ * Cursor pagination for the discovery feeds. The first page ranks the feed
+ * once and stores the order as a snapshot; every later page is a slice of
+ * that snapshot, addressed by an opaque cursor. Items are hydrated fresh so
+ * counts stay current while the order stays put, and their authors get real
+ * profiles (see ProfileHydrationService). Seed performances are blended in
+ * when the snapshot is taken (see SeedBlending).
+ */
+
+import { databaseService } from '@/lib/database/DatabaseService';
+import { transformDiscoveryFeedToRealityCheck, transformSeedPerformanceToRealityCheck } from '@/lib/database/transformers';
+import type { Json } from '@/integrations/supabase/types';
+import { FeedReason, RealityCheckResult } from '@/lib/zora/types';
+import { coldStartContentService } from '@/lib/coldstart/ColdStartContentService';
+import { blendWithSeeds, isSeedPerformanceId } from '@/lib/coldstart/SeedBlending';
+import { profileHydrationService } from '@/lib/profile/ProfileHydrationService';
+import { forYouFeedService } from './ForYouFeedService';
+
+export type FeedType = 'foryou' | 'trending' | 'viral' | 'recent';
+
+export const FEED_TYPES: FeedType[] = ['foryou', 'trending', 'viral', 'recent'];
+
+export interface FeedPage {
+  performances: RealityCheckResult[];
+  total: number; // Items in the snapshot
+  hasMore: boolean;
+  nextCursor: string | null;
+  personalised?: boolean; // Only known when the snapshot is taken
+}
+
+export type FeedPageResult =
+  | { page: FeedPage }
+  | { error: string; status: 400 | 410 };
+
+interface SnapshotItem {
+  id: string;
+  reasons?: FeedReason[];
+}
+
+interface FeedCursor {
+  snapshotId: string;
+  position: number;
+}
+
+// Deepest a single scroll session can go before the feed must be reloaded
+const SNAPSHOT_SIZE = 500;
+const SNAPSHOT_TTL_MS = 30 * 60 * 1000;
+
+const FEED_ORDER: Record<Exclude<FeedType, 'foryou'>, 'created_at' | 'trending_score' | 'viral_score'> = {
+  recent: 'created_at',
+  trending: 'trending_score',
+  viral: 'viral_score'
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify({ s: cursor.snapshotId, p: cursor.position })).toString('base64url');
+}
+
+/**
+ * @returns null if the token is not a cursor this service issued
+ */
+export function decodeFeedCursor(token: string): FeedCursor | null {
+  try {
+    const { s, p } = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (typeof s !== 'string' || !UUID_PATTERN.test(s) || !Number.isInteger(p) || p < 0) {
+      return null;
+    }
+    return { snapshotId: s, position: p };
+  } catch {
+    return null;
+  }
+}
+
+export class FeedSnapshotService {
+  private static instance: FeedSnapshotService;
+
+  static getInstance(): FeedSnapshotService {
+    if (!FeedSnapshotService.instance) {
+      FeedSnapshotService.instance = new FeedSnapshotService();
+    }
+    return FeedSnapshotService.instance;
+  }
+
+  /**
+   * A page of a discovery feed. Without a cursor the feed is ranked and
+   * snapshotted; with one, the next slice of that snapshot is returned.
+   * @throws Error if the feed cannot be ranked or read
+   */
+  async getPage(
+    feedType: FeedType,
+    params: {
+      cursor?: string | null;
+      limit: number;
+      userId?: string;
+      fid?: number | null;
+    }
+  ): Promise<FeedPageResult> {
+    const { limit } = params;
+    const userId = params.userId || 'anonymous';
+
+    if (!params.cursor) {
+      return { page: await this.takeSnapshot(feedType, userId, params.fid ?? null, limit) };
+    }
+
+    const cursor = decodeFeedCursor(params.cursor);
+    if (!cursor) {
+      return { error: 'Invalid cursor', status: 400 };
+    }
+
+    const snapshot = await databaseService.getFeedSnapshot(cursor.snapshotId);
+    if (!snapshot) {
+      return { error: 'Feed cursor expired, reload the feed', status: 410 };
+    }
+
+    // A personalised snapshot belongs to the user it was ranked for
+    if (snapshot.feed_type !== feedType || (snapshot.user_id !== null && snapshot.user_id !== userId)) {
+      return { error: 'Invalid cursor', status: 400 };
+    }
+
+    const items = snapshot.items as unknown as SnapshotItem[];
+    return { page: await this.slice(snapshot.id, items, cursor.position, limit) };
+  }
+
+  private async takeSnapshot(feedType: FeedType, userId: string, fid: number | null, limit: number): Promise<FeedPage> {
+    let items: SnapshotItem[];
+    let personalised: boolean | undefined;
+
+    if (feedType === 'foryou') {
+      const ranking = await forYouFeedService.rank({ userId, fid, pageSize: limit });
+      items = ranking.ranked.map(({ candidate, reasons }) => ({ id: candidate.id, reasons }));
+      personalised = ranking.personalised;
+    } else {
+      items = (await databaseService.getDiscoveryFeedIds(FEED_ORDER[feedType], SNAPSHOT_SIZE)).map(id => ({ id }));
+    }
+
+    // An item appears once per scroll session, whatever the ranking did
+    const seen = new Set<string>();
+    items = (await this.blendSeeds(items.filter(item => !seen.has(item.id) && seen.add(item.id))))
+      .slice(0, SNAPSHOT_SIZE);
+
+    if (items.length <= limit) {
+      // Everything fits on one page - nothing to snapshot
+      return { ...(await this.slice(null, items, 0, limit)), personalised };
+    }
+
+    const snapshot = await databaseService.createFeedSnapshot({
+      feed_type: feedType,
+      user_id: feedType === 'foryou' ? userId : null,
+      items: items as unknown as Json,
+      expires_at: new Date(Date.now() + SNAPSHOT_TTL_MS).toISOString()
+    });
+
+    databaseService.pruneFeedSnapshots().catch(error => {
+      console.warn('⚠️ Failed to prune feed snapshots:', error);
+    });
+
+    return { ...(await this.slice(snapshot.id, items, 0, limit)), personalised };
+  }
+
+  /**
+   * Interleave seed performances at the current blend ratio. The feed is
+   * still served without them if the plan cannot be built.
+   */
+  private async blendSeeds(items: SnapshotItem[]): Promise<SnapshotItem[]> {
+    try {
+      const plan = await coldStartContentService.getBlendPlan();
+      return blendWithSeeds(items, plan.seeds.map(seed => ({ id: seed.id })), plan.ratio);
+    } catch (error) {
+      console.warn('⚠️ Failed to blend seed performances:', error);
+      return items;
+    }
+  }
+
+  /**
+   * Hydrate one page of a snapshot. Performances deleted since the snapshot
+   * was taken, or seeds since removed, are dropped rather than back-filled.
+   */
+  private async slice(snapshotId: string | null, items: SnapshotItem[], position: number, limit: number): Promise<FeedPage> {
+    const pageItems = items.slice(position, position + limit);
+    const realIds = pageItems.map(item => item.id).filter(id => !isSeedPerformanceId(id));
+    const rows = new Map(
+      (await databaseService.getDiscoveryFeedByIds(realIds)).map(row => [row.id, row] as const)
+    );
+
+    const nextPosition = position + limit;
+    const hasMore = snapshotId !== null && nextPosition < items.length;
+
+    const performances: RealityCheckResult[] = [];
+    for (const item of pageItems) {
+      if (isSeedPerformanceId(item.id)) {
+        const seed = coldStartContentService.getSeedPerformance(item.id);
+        if (seed) performances.push(transformSeedPerformanceToRealityCheck(seed));
+        continue;
+      }
+      const row = rows.get(item.id);
+      if (row) performances.push({ ...transformDiscoveryFeedToRealityCheck(row), reasons: item.reasons });
+    }
+
+    return {
+      performances: await profileHydrationService.hydrate(performances),
+      total: items.length,
+      hasMore,
+      nextCursor: hasMore ? encodeFeedCursor({ snapshotId: snapshotId!, position: nextPosition }) : null
+    };
+  }
+}
+
+export const feedSnapshotService = FeedSnapshotService.getInstance();
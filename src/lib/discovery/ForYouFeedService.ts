@@ -0,0 +1,192 @@
+/**
+ * For You Feed Service
+ * Gathers a user's interactions into a taste profile and ranks recent
+ * discovery feed performances against it (see ForYouRanking).
+ */
+
+import { databaseService, ChallengeResultRow, DiscoveryFeedRow } from '@/lib/database/DatabaseService';
+import { farcasterService } from '@/services/FarcasterService';
+import challengeSongs from '@/data/challenge-songs.json';
+import {
+  buildTasteProfile,
+  challengeTags,
+  rankCandidates,
+  RankedCandidate,
+  TasteProfile,
+  TasteSignal
+} from './ForYouRanking';
+
+export interface ForYouRanking {
+  ranked: RankedCandidate<DiscoveryFeedRow>[];
+  personalised: boolean; // False when nothing is known about the user
+}
+
+const CANDIDATE_WINDOW_DAYS = 30;
+const CANDIDATE_POOL_SIZE = 300;
+const PROFILE_CACHE_MS = 5 * 60 * 1000;
+const PROFILE_CACHE_SIZE = 1000;
+
+const ENGAGEMENT_EVENTS: Record<string, TasteSignal['action']> = {
+  performance_liked: 'liked',
+  performance_shared: 'shared'
+};
+
+const challengeDetails = new Map<string, { difficulty?: string; bpm?: number }>(
+  (challengeSongs as Array<{ id: string; difficulty?: string; bpm?: number }>).map(song => [
+    song.id,
+    { difficulty: song.difficulty, bpm: song.bpm }
+  ])
+);
+
+function tagsFor(challengeId: string | null, challengeTitle: string | null) {
+  return challengeTags(challengeTitle, challengeId ? challengeDetails.get(challengeId) : null);
+}
+
+export class ForYouFeedService {
+  private static instance: ForYouFeedService;
+  private profiles: Map<string, { profile: TasteProfile; timestamp: number }> = new Map();
+
+  static getInstance(): ForYouFeedService {
+    if (!ForYouFeedService.instance) {
+      ForYouFeedService.instance = new ForYouFeedService();
+    }
+    return ForYouFeedService.instance;
+  }
+
+  /**
+   * The full ranked feed. Anonymous users get the unpersonalised ranking
+   * (quality and freshness only). Diversity caps apply per `pageSize` items.
+   * @throws Error if the candidate pool cannot be loaded
+   */
+  async rank(params: {
+    userId: string;
+    fid?: number | null;
+    pageSize: number;
+  }): Promise<ForYouRanking> {
+    const [profile, candidates] = await Promise.all([
+      this.getProfile(params.userId, params.fid ?? null),
+      databaseService.getDiscoveryFeedCandidates(
+        new Date(Date.now() - CANDIDATE_WINDOW_DAYS * 24 * 60 * 60 * 1000),
+        CANDIDATE_POOL_SIZE
+      )
+    ]);
+
+    return {
+      ranked: rankCandidates(candidates, profile, { pageSize: params.pageSize, tagsFor }),
+      personalised: profile.signalCount > 0 || profile.followedFids.length > 0
+    };
+  }
+
+  /**
+   * Taste profile from ratings, likes, shares, sung challenges and Farcaster
+   * follows. Sources that fail are skipped rather than failing the feed.
+   */
+  async getProfile(userId: string, fid: number | null): Promise<TasteProfile> {
+    const cacheKey = `${userId}:${fid ?? ''}`;
+    const cached = this.profiles.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < PROFILE_CACHE_MS) {
+      return cached.profile;
+    }
+
+    if (!userId || userId === 'anonymous') {
+      return buildTasteProfile({ userId, fid, signals: [], followedFids: [], excludedIds: [], tagsFor });
+    }
+
+    const resolvedFid = fid ?? await this.resolveFid(userId);
+
+    const [ratings, events, submissions, followedFids] = await Promise.all([
+      databaseService.getCommunityRatingsByUser(userId).catch(error => this.skipSource('ratings', error)),
+      databaseService.getAnalyticsEventsForUser(userId, Object.keys(ENGAGEMENT_EVENTS)).catch(error => this.skipSource('engagement', error)),
+      databaseService.getChallengeResultsByUser(userId, resolvedFid).catch(error => this.skipSource('submissions', error)),
+      resolvedFid !== null ? farcasterService.getFollowingFids(resolvedFid) : Promise.resolve([])
+    ]);
+
+    // Ratings and engagement point at performances; look up what was sung and by whom
+    const performanceIds = [...new Set([
+      ...ratings.map(rating => rating.performance_id),
+      ...events.map(event => event.performance_id).filter((id): id is string => !!id)
+    ])];
+    const performances = new Map<string, ChallengeResultRow>(
+      (await databaseService.getChallengeResultsByIds(performanceIds).catch(error => this.skipSource('performances', error)))
+        .map(result => [result.id, result] as const)
+    );
+
+    const signals: TasteSignal[] = [];
+
+    for (const rating of ratings) {
+      const performance = performances.get(rating.performance_id);
+      if (!performance) continue;
+      signals.push({
+        action: 'rated',
+        challengeId: performance.challenge_id,
+        challengeTitle: performance.challenge_title,
+        creatorFid: performance.user_fid,
+        rating: rating.rating,
+        at: new Date(rating.updated_at)
+      });
+    }
+
+    for (const event of events) {
+      const performance = event.performance_id ? performances.get(event.performance_id) : undefined;
+      if (!performance) continue;
+      signals.push({
+        action: ENGAGEMENT_EVENTS[event.event_type],
+        challengeId: performance.challenge_id,
+        challengeTitle: performance.challenge_title,
+        creatorFid: performance.user_fid,
+        at: new Date(event.server_timestamp)
+      });
+    }
+
+    for (const submission of submissions) {
+      signals.push({
+        action: 'sang',
+        challengeId: submission.challenge_id,
+        challengeTitle: submission.challenge_title,
+        creatorFid: null,
+        at: new Date(submission.created_at)
+      });
+    }
+
+    const profile = buildTasteProfile({
+      userId,
+      fid: resolvedFid,
+      signals,
+      followedFids,
+      // Nothing the user sang or already rated
+      excludedIds: [...submissions.map(submission => submission.id), ...ratings.map(rating => rating.performance_id)],
+      tagsFor
+    });
+
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    if (this.profiles.size >= PROFILE_CACHE_SIZE) {
+      this.profiles.delete(this.profiles.keys().next().value as string);
+    }
+    this.profiles.set(cacheKey, { profile, timestamp: Date.now() });
+    return profile;
+  }
+
+  /**
+   * Forget a cached profile after the user interacts, so the next page reflects it
+   */
+  invalidateProfile(userId: string): void {
+    for (const key of this.profiles.keys()) {
+      if (key.startsWith(`${userId}:`)) {
+        this.profiles.delete(key);
+      }
+    }
+  }
+
+  private async resolveFid(userId: string): Promise<number | null> {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(userId)) return null;
+    const user = await databaseService.getUserByWallet(userId);
+    return user?.farcaster_fid ?? null;
+  }
+
+  private skipSource(source: string, error: unknown): never[] {
+    console.warn(`⚠️ For You profile: skipping ${source}:`, error);
+    return [];
+  }
+}
+
+export const forYouFeedService = ForYouFeedService.getInstance();
@@ -0,0 +1,372 @@
+/**
+ * For You Ranking
+ * Builds a taste profile from a user's interactions (ratings, likes, shares,
+ * challenges sung, Farcaster follows) and ranks feed candidates against it.
+ * No I/O here - ForYouFeedService gathers the signals and candidates.
+ */
+
+import type { DiscoveryFeedRow } from '@/lib/database/DatabaseService';
+import { FeedReason } from '@/lib/zora/types';
+
+export type TasteAction = 'sang' | 'shared' | 'liked' | 'rated';
+
+export interface TasteSignal {
+  action: TasteAction;
+  challengeId: string | null;
+  challengeTitle: string | null;
+  creatorFid: number | null; // Null for the user's own submissions
+  rating?: number; // 1-5 stars, for 'rated'
+  at: Date;
+}
+
+export interface TasteAffinity {
+  weight: number; // Normalised to -1..1 (negative only for creators rated poorly)
+  label: string; // Challenge title, tag description or creator handle
+  action: TasteAction; // Interaction contributing most, for the explanation
+}
+
+export interface TasteProfile {
+  userId: string;
+  fid: number | null;
+  challenges: Record<string, TasteAffinity>;
+  tags: Record<string, TasteAffinity>;
+  creators: Record<string, TasteAffinity>; // Keyed by FID
+  followedFids: number[];
+  excludedIds: string[]; // Own and already-rated performances
+  signalCount: number;
+}
+
+export type RankingCandidate = Pick<
+  DiscoveryFeedRow,
+  | 'id'
+  | 'challenge_id'
+  | 'challenge_title'
+  | 'user_fid'
+  | 'created_at'
+  | 'community_rating'
+  | 'community_rating_count'
+  | 'engagement_24h'
+>;
+
+export interface RankedCandidate<T extends RankingCandidate = RankingCandidate> {
+  candidate: T;
+  score: number;
+  reasons: FeedReason[];
+}
+
+export interface ForYouRankingConfig {
+  weights: {
+    challenge: number;
+    tag: number;
+    creator: number;
+    following: number;
+    freshness: number;
+    quality: number;
+  };
+  signalHalfLifeDays: number; // Older interactions count for less
+  freshnessHalfLifeHours: number;
+  maxPerCreator: number; // Per page
+  maxPerChallenge: number; // Per page
+  maxReasons: number;
+}
+
+export const DEFAULT_FOR_YOU_CONFIG: ForYouRankingConfig = {
+  weights: {
+    challenge: 0.3,
+    tag: 0.1,
+    creator: 0.2,
+    following: 0.25,
+    freshness: 0.15,
+    quality: 0.2
+  },
+  signalHalfLifeDays: 30,
+  freshnessHalfLifeHours: 48,
+  maxPerCreator: 2,
+  maxPerChallenge: 3,
+  maxReasons: 2
+};
+
+const ACTION_WEIGHTS: Record<TasteAction, number> = {
+  sang: 4,
+  shared: 3,
+  liked: 2,
+  rated: 1
+};
+
+const ACTION_VERBS: Record<TasteAction, string> = {
+  sang: 'sang',
+  shared: 'shared',
+  liked: 'liked',
+  rated: 'rated'
+};
+
+// A reason must add at least this much to the score to be shown
+const MIN_REASON_CONTRIBUTION = 0.03;
+
+/**
+ * Tags for a challenge: its base song (so a vocal and its instrumental share
+ * one), difficulty and tempo
+ */
+export function challengeTags(
+  challengeTitle: string | null,
+  details?: { difficulty?: string; bpm?: number } | null
+): Array<{ tag: string; label: string }> {
+  const tags: Array<{ tag: string; label: string }> = [];
+
+  const song = challengeTitle?.replace(/\s*\([^)]*\)\s*$/, '').trim();
+  if (song) {
+    tags.push({ tag: `song:${song.toLowerCase()}`, label: song });
+  }
+  if (details?.difficulty) {
+    tags.push({ tag: `difficulty:${details.difficulty}`, label: `${details.difficulty} challenges` });
+  }
+  if (typeof details?.bpm === 'number') {
+    const tempo = details.bpm < 90 ? 'slow' : details.bpm > 130 ? 'fast' : 'mid';
+    tags.push({ tag: `tempo:${tempo}`, label: tempo === 'mid' ? 'mid-tempo songs' : `${tempo} songs` });
+  }
+
+  return tags;
+}
+
+export type ChallengeTagLookup = (challengeId: string | null, challengeTitle: string | null) => Array<{ tag: string; label: string }>;
+
+/**
+ * Fold interactions into normalised challenge, tag and creator affinities
+ */
+export function buildTasteProfile(params: {
+  userId: string;
+  fid: number | null;
+  signals: TasteSignal[];
+  followedFids: number[];
+  excludedIds: string[];
+  tagsFor: ChallengeTagLookup;
+  now?: Date;
+  config?: ForYouRankingConfig;
+}): TasteProfile {
+  const { userId, fid, signals, followedFids, excludedIds, tagsFor } = params;
+  const now = params.now || new Date();
+  const config = params.config || DEFAULT_FOR_YOU_CONFIG;
+
+  const challenges = new AffinityAccumulator();
+  const tags = new AffinityAccumulator();
+  const creators = new AffinityAccumulator();
+
+  for (const signal of signals) {
+    const ageDays = Math.max(0, (now.getTime() - signal.at.getTime()) / 86_400_000);
+    const decay = Math.pow(0.5, ageDays / config.signalHalfLifeDays);
+    const base = ACTION_WEIGHTS[signal.action] * decay;
+
+    // A poor rating still shows interest in the song, but not in the singer
+    const interest = signal.action === 'rated' ? base * Math.max(0.5, (signal.rating ?? 3) - 2) : base;
+    const approval = signal.action === 'rated' ? base * ((signal.rating ?? 3) - 3) : base;
+
+    if (signal.challengeId) {
+      challenges.add(signal.challengeId, interest, signal.challengeTitle || 'this challenge', signal.action);
+      for (const { tag, label } of tagsFor(signal.challengeId, signal.challengeTitle)) {
+        tags.add(tag, interest, label, signal.action);
+      }
+    }
+    if (signal.creatorFid !== null && signal.creatorFid !== fid && approval !== 0) {
+      creators.add(String(signal.creatorFid), approval, `user${signal.creatorFid}`, signal.action);
+    }
+  }
+
+  return {
+    userId,
+    fid,
+    challenges: challenges.normalise(),
+    tags: tags.normalise(),
+    creators: creators.normalise(),
+    followedFids: followedFids.filter(followed => followed !== fid),
+    excludedIds,
+    signalCount: signals.length
+  };
+}
+
+/**
+ * Score every candidate against the profile and order them, applying the
+ * per-page creator/challenge caps
+ */
+export function rankCandidates<T extends RankingCandidate>(
+  candidates: T[],
+  profile: TasteProfile,
+  options: {
+    pageSize: number;
+    tagsFor: ChallengeTagLookup;
+    now?: Date;
+    config?: ForYouRankingConfig;
+  }
+): RankedCandidate<T>[] {
+  const now = options.now || new Date();
+  const config = options.config || DEFAULT_FOR_YOU_CONFIG;
+  const excluded = new Set(profile.excludedIds);
+
+  const scored = candidates
+    .filter(candidate => !excluded.has(candidate.id) && (profile.fid === null || candidate.user_fid !== profile.fid))
+    .map(candidate => scoreCandidate(candidate, profile, options.tagsFor, now, config))
+    // Ties go to the newer performance so the order is stable across requests
+    .sort((a, b) => b.score - a.score || b.candidate.created_at.localeCompare(a.candidate.created_at) || a.candidate.id.localeCompare(b.candidate.id));
+
+  return diversify(scored, options.pageSize, config);
+}
+
+export function scoreCandidate<T extends RankingCandidate>(
+  candidate: T,
+  profile: TasteProfile,
+  tagsFor: ChallengeTagLookup,
+  now: Date,
+  config: ForYouRankingConfig = DEFAULT_FOR_YOU_CONFIG
+): RankedCandidate<T> {
+  const { weights } = config;
+  const contributions: Array<{ value: number; reason: FeedReason }> = [];
+
+  const challenge = profile.challenges[candidate.challenge_id];
+  if (challenge && challenge.weight > 0) {
+    contributions.push({
+      value: weights.challenge * challenge.weight,
+      reason: { kind: 'challenge', label: `Because you ${ACTION_VERBS[challenge.action]} ${challenge.label}` }
+    });
+  }
+
+  // Best matching tag only - a vocal and its instrumental should not count twice
+  let bestTag: TasteAffinity | null = null;
+  for (const { tag } of tagsFor(candidate.challenge_id, candidate.challenge_title)) {
+    const affinity = profile.tags[tag];
+    if (affinity && affinity.weight > 0 && (!bestTag || affinity.weight > bestTag.weight)) {
+      bestTag = affinity;
+    }
+  }
+  if (bestTag) {
+    contributions.push({
+      value: weights.tag * bestTag.weight,
+      reason: { kind: 'tag', label: `More ${bestTag.label}` }
+    });
+  }
+
+  if (candidate.user_fid !== null) {
+    if (profile.followedFids.includes(candidate.user_fid)) {
+      contributions.push({
+        value: weights.following,
+        reason: { kind: 'following', label: 'From someone you follow' }
+      });
+    }
+
+    const creator = profile.creators[String(candidate.user_fid)];
+    if (creator) {
+      contributions.push({
+        value: weights.creator * creator.weight,
+        reason: { kind: 'creator', label: `Because you ${ACTION_VERBS[creator.action]} ${creator.label}` }
+      });
+    }
+  }
+
+  const ageHours = Math.max(0, (now.getTime() - new Date(candidate.created_at).getTime()) / 3_600_000);
+  const freshness = weights.freshness * Math.pow(0.5, ageHours / config.freshnessHalfLifeHours);
+  contributions.push({ value: freshness, reason: { kind: 'fresh', label: 'New performance' } });
+
+  const quality = weights.quality * qualityScore(candidate);
+  contributions.push({ value: quality, reason: { kind: 'popular', label: 'Popular with the community' } });
+
+  const score = contributions.reduce((sum, contribution) => sum + contribution.value, 0);
+
+  const personal = contributions
+    .filter(c => c.reason.kind !== 'fresh' && c.reason.kind !== 'popular' && c.value >= MIN_REASON_CONTRIBUTION)
+    .sort((a, b) => b.value - a.value)
+    .map(c => c.reason);
+
+  // Without a personal match, say why it is in the feed at all
+  const reasons = personal.length > 0
+    ? personal.slice(0, config.maxReasons)
+    : [quality >= freshness
+        ? { kind: 'popular' as const, label: 'Popular with the community' }
+        : { kind: 'fresh' as const, label: 'New performance' }];
+
+  return { candidate, score, reasons };
+}
+
+/**
+ * 0-1 from the community rating (trusted more as votes accumulate) and recent engagement
+ */
+function qualityScore(candidate: RankingCandidate): number {
+  const ratingConfidence = Math.min(1, (candidate.community_rating_count || 0) / 5);
+  const rating = candidate.community_rating ? (candidate.community_rating - 1) / 4 : 0.5;
+  const ratingScore = 0.5 + (rating - 0.5) * ratingConfidence;
+  const engagementScore = Math.min(1, Math.log1p(candidate.engagement_24h || 0) / Math.log1p(50));
+  return 0.7 * ratingScore + 0.3 * engagementScore;
+}
+
+/**
+ * Fill each page in score order while no creator or challenge exceeds its cap;
+ * if the caps leave a page short, top it up with the best of what was skipped
+ */
+function diversify<T extends RankingCandidate>(
+  scored: RankedCandidate<T>[],
+  pageSize: number,
+  config: ForYouRankingConfig
+): RankedCandidate<T>[] {
+  const ordered: RankedCandidate<T>[] = [];
+  let remaining = scored;
+
+  while (remaining.length > 0) {
+    const page: RankedCandidate<T>[] = [];
+    const skipped: RankedCandidate<T>[] = [];
+    const perCreator = new Map<number, number>();
+    const perChallenge = new Map<string, number>();
+
+    for (const item of remaining) {
+      if (page.length >= pageSize) {
+        skipped.push(item);
+        continue;
+      }
+
+      const creator = item.candidate.user_fid;
+      const creatorCount = creator !== null ? perCreator.get(creator) || 0 : 0;
+      const challengeCount = perChallenge.get(item.candidate.challenge_id) || 0;
+
+      if ((creator !== null && creatorCount >= config.maxPerCreator) || challengeCount >= config.maxPerChallenge) {
+        skipped.push(item);
+        continue;
+      }
+
+      page.push(item);
+      if (creator !== null) perCreator.set(creator, creatorCount + 1);
+      perChallenge.set(item.candidate.challenge_id, challengeCount + 1);
+    }
+
+    while (page.length < pageSize && skipped.length > 0) {
+      page.push(skipped.shift()!);
+    }
+
+    ordered.push(...page);
+    remaining = skipped;
+  }
+
+  return ordered;
+}
+
+class AffinityAccumulator {
+  private entries = new Map<string, { weight: number; label: string; actions: Map<TasteAction, number> }>();
+
+  add(key: string, weight: number, label: string, action: TasteAction): void {
+    const entry = this.entries.get(key) || { weight: 0, label, actions: new Map<TasteAction, number>() };
+    entry.weight += weight;
+    entry.actions.set(action, (entry.actions.get(action) || 0) + Math.abs(weight));
+    this.entries.set(key, entry);
+  }
+
+  /**
+   * Scale so the strongest affinity is 1 (or -1)
+   */
+  normalise(): Record<string, TasteAffinity> {
+    const max = Math.max(0, ...[...this.entries.values()].map(entry => Math.abs(entry.weight)));
+    const result: Record<string, TasteAffinity> = {};
+    if (max === 0) return result;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.weight === 0) continue;
+      const [action] = [...entry.actions.entries()].sort((a, b) => b[1] - a[1])[0];
+      result[key] = { weight: entry.weight / max, label: entry.label, action };
+    }
+    return result;
+  }
+}
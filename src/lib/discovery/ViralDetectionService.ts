@@ -1,34 +1,30 @@
 'use client';
 
 import { RealityCheckResult, CoinEligibility } from '@/lib/zora/types';
-import { ZoraService } from '@/lib/zora/ZoraService';
+import { ViralSignals, evaluateViralEligibility, windowedViralMetrics } from '@/lib/viral/ViralEligibility';
+import type { WindowedCounts } from '@/lib/analytics/EventCounters';
+import {
+  DEFAULT_VIRAL_RULES,
+  ViralChallengeType,
+  ViralRule,
+  ViralThresholds,
+  getRuleThreshold,
+  thresholdsFromRules,
+  toViralChallengeType
+} from '@/lib/viral/ViralRules';
+import type { ViralSimulationReport } from '@/lib/viral/ViralSimulator';
 
 /**
- * Viral Detection Service for automatic coin creation
- * Monitors performance metrics and triggers coin minting when viral thresholds are hit
+ * Viral Detection Service
+ * Client-side view of viral eligibility. Detection and coin minting run
+ * server-side as durable jobs (see ViralJobRunner); this service previews
+ * eligibility and asks the server to (re)check a performance.
  */
 export class ViralDetectionService {
   private static instance: ViralDetectionService;
-  private zoraService: ZoraService;
-  private monitoringInterval: NodeJS.Timeout | null = null;
 
-  // Viral thresholds for automatic coin creation (challenge-specific)
-  private readonly VIRAL_THRESHOLDS = {
-    SHARE_COUNT: 100,        // 100+ shares = viral moment
-    PERFECT_SCORE: 4.8,      // 4.8+ rating = perfect performance
-    REALITY_GAP: 2.5,        // 2.5+ gap = comedy gold
-    ENGAGEMENT_RATE: 0.3,    // 30% engagement rate
-    VELOCITY: 50,            // 50 shares in 1 hour = trending
-    
-    // Challenge-specific viral thresholds
-    VIRAL_CHALLENGE: 75,     // Fun mode - lower threshold for accessibility
-    STRUCTURED_CHALLENGE: 150, // Training mode - higher threshold for quality
-    ADVANCED_CHALLENGE: 200,   // Show off mode - highest threshold for excellence
-  };
-
-  constructor() {
-    this.zoraService = ZoraService.getInstance();
-  }
+  // Primary viral rule set, synced from /api/viral/thresholds
+  private rules: ViralRule[] = DEFAULT_VIRAL_RULES;
 
   static getInstance(): ViralDetectionService {
     if (!ViralDetectionService.instance) {
@@ -37,98 +33,27 @@ export class ViralDetectionService {
     return ViralDetectionService.instance;
   }
 
-  /**
-   * Start monitoring performances for viral thresholds
-   */
-  startMonitoring(): void {
-    if (this.monitoringInterval) return;
-
-    console.log('🔥 Starting viral detection monitoring...');
-    
-    // Check every 5 minutes for viral performances
-    this.monitoringInterval = setInterval(() => {
-      this.checkAllPerformances();
-    }, 5 * 60 * 1000);
-
-    // Initial check
-    this.checkAllPerformances();
-  }
-
-  /**
-   * Stop monitoring
-   */
-  stopMonitoring(): void {
-    if (this.monitoringInterval) {
-      clearInterval(this.monitoringInterval);
-      this.monitoringInterval = null;
-      console.log('⏹️ Stopped viral detection monitoring');
-    }
-  }
-
   /**
    * Check a specific performance for viral eligibility
    * @throws Error if eligibility check fails
    */
   async checkPerformanceEligibility(performance: RealityCheckResult): Promise<CoinEligibility | null> {
+    // Seed content is never coined
+    if (performance.seed) {
+      return null;
+    }
+
     try {
       // Check if already has a coin
       if (await this.hasExistingCoin(performance.id)) {
         return null;
       }
 
-      // Viral moment (high shares)
-      if (performance.shareCount >= this.VIRAL_THRESHOLDS.SHARE_COUNT) {
-        return {
-          type: 'viral_moment',
-          performance,
-          reason: `🔥 VIRAL: ${performance.shareCount} shares!`,
-          autoMint: true
-        };
-      }
-
-      // Perfect score
-      if (performance.communityRating >= this.VIRAL_THRESHOLDS.PERFECT_SCORE) {
-        return {
-          type: 'perfect_score',
-          performance,
-          reason: `⭐ PERFECT: ${performance.communityRating}/5 rating!`,
-          autoMint: true
-        };
-      }
-
-      // Reality gap (comedy gold)
-      if (performance.gap >= this.VIRAL_THRESHOLDS.REALITY_GAP) {
-        return {
-          type: 'reality_gap',
-          performance,
-          reason: `😅 REALITY GAP: ${performance.gap.toFixed(1)} star difference!`,
-          autoMint: true
-        };
-      }
-
-      // Trending velocity (rapid shares)
-      const velocity = await this.calculateShareVelocity(performance);
-      if (velocity >= this.VIRAL_THRESHOLDS.VELOCITY) {
-        return {
-          type: 'viral_moment',
-          performance,
-          reason: `🚀 TRENDING: ${velocity} shares/hour!`,
-          autoMint: true
-        };
-      }
-
-      // Community nomination (high engagement rate)
-      const engagementRate = await this.calculateEngagementRate(performance);
-      if (engagementRate >= this.VIRAL_THRESHOLDS.ENGAGEMENT_RATE) {
-        return {
-          type: 'community_nominated',
-          performance,
-          reason: `👥 COMMUNITY FAVORITE: ${(engagementRate * 100).toFixed(1)}% engagement!`,
-          autoMint: true
-        };
-      }
-
-      return null;
+      const [{ signals, windows }, challengeType] = await Promise.all([
+        this.getEngagementSignals(performance),
+        this.getChallengeType(performance.challengeId)
+      ]);
+      return evaluateViralEligibility(performance, signals, this.rules, challengeType, windowedViralMetrics(windows));
     } catch (error) {
       console.error('Error checking performance eligibility:', error);
       throw new Error(`Eligibility check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -136,13 +61,12 @@ export class ViralDetectionService {
   }
 
   /**
-   * Process viral performance and create coin
+   * Hand a viral performance to the server-side job queue.
+   * The server recomputes eligibility and mints at most one coin per performance.
+   * @returns true if the server accepted the performance as viral
+   * @throws Error if the queue request fails
    */
-  /**
-   * Process viral performance and create coin
-   * @throws Error if coin creation fails
-   */
-  async processViralPerformance(eligibility: CoinEligibility, walletClient?: any): Promise<boolean> {
+  async processViralPerformance(eligibility: CoinEligibility): Promise<boolean> {
     try {
       console.log(`🎯 Processing viral performance: ${eligibility.reason}`);
 
@@ -151,21 +75,7 @@ export class ViralDetectionService {
         return false;
       }
 
-      // Create performance coin
-      const result = await this.zoraService.createPerformanceCoin(
-        eligibility.performance,
-        walletClient
-      );
-
-      console.log(`✅ Coin created for viral performance: ${result.address}`);
-      
-      // Notify about coin creation
-      await this.notifyViralCoinCreation(eligibility, result.address);
-      
-      // Track viral event
-      await this.trackViralEvent(eligibility);
-      
-      return true;
+      return await this.queueForCoinCreation(eligibility);
     } catch (error) {
       console.error('Error processing viral performance:', error);
       throw new Error(`Viral coin creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -173,61 +83,27 @@ export class ViralDetectionService {
   }
 
   /**
-   * Check all recent performances for viral eligibility
-   */
-  /**
-   * Check all recent performances for viral eligibility
-   * @throws Error if performance retrieval fails
-   */
-  private async checkAllPerformances(): Promise<void> {
-    try {
-      const recentPerformances = await this.getRecentPerformances();
-      
-      for (const performance of recentPerformances) {
-        try {
-          const eligibility = await this.checkPerformanceEligibility(performance);
-          
-          if (eligibility) {
-            console.log(`🔥 Viral performance detected: ${eligibility.reason}`);
-            await this.queueForCoinCreation(eligibility);
-          }
-        } catch (error) {
-          // Log individual performance check errors but continue checking others
-          console.error(`Error checking performance ${performance.id}:`, error);
-        }
-      }
-    } catch (error) {
-      console.error('Error checking all performances:', error);
-      throw new Error(`Performance monitoring failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  /**
-   * Calculate share velocity (shares per hour)
-   */
-  private async calculateShareVelocity(performance: RealityCheckResult): Promise<number> {
-    const hoursOld = (Date.now() - performance.timestamp.getTime()) / (1000 * 60 * 60);
-    if (hoursOld < 1) return performance.shareCount; // Less than 1 hour old
-    return performance.shareCount / hoursOld;
-  }
-
-  /**
-   * Calculate engagement rate (interactions / views)
-   */
-  /**
-   * Calculate engagement rate (interactions / views)
+   * Share velocity (shares in the last hour) and engagement rate (interactions / views)
    * @throws Error if engagement data retrieval fails
    */
-  private async calculateEngagementRate(performance: RealityCheckResult): Promise<number> {
+  private async getEngagementSignals(
+    performance: RealityCheckResult
+  ): Promise<{ signals: ViralSignals; windows: WindowedCounts }> {
     try {
-      const response = await fetch(`/api/analytics/engagement/${performance.id}`);
+      const response = await fetch(`/api/analytics/engagement?performanceId=${encodeURIComponent(performance.id)}`);
       
       if (!response.ok) {
         throw new Error(`API error: ${response.status} ${response.statusText}`);
       }
       
       const data = await response.json();
-      return data.engagementRate || 0;
+      return {
+        signals: {
+          velocity: data.shareVelocity || 0,
+          engagementRate: data.engagementRate || 0
+        },
+        windows: data.windows
+      };
     } catch (error) {
       console.error('Failed to calculate engagement rate:', error);
       throw new Error(`Engagement rate calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -235,50 +111,48 @@ export class ViralDetectionService {
   }
 
   /**
-   * Check if performance already has a coin
-   * @throws Error if coin check fails
+   * The catalog challenge's type, which selects its rule overrides.
+   * Challenges the catalog no longer shows get none.
    */
-  private async hasExistingCoin(performanceId: string): Promise<boolean> {
+  private async getChallengeType(challengeId: string): Promise<ViralChallengeType | undefined> {
     try {
-      const response = await fetch(`/api/zora/has-coin/${performanceId}`);
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      
+      const response = await fetch(`/api/challenges/${encodeURIComponent(challengeId)}`);
+      if (!response.ok) return undefined;
+
       const data = await response.json();
-      return data.hasCoin || false;
+      return toViralChallengeType(data.challenge?.type);
     } catch (error) {
-      console.error('Failed to check for existing coin:', error);
-      throw new Error(`Coin existence check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.warn('⚠️ Failed to fetch challenge type:', error);
+      return undefined;
     }
   }
 
   /**
-   * Get recent performances for monitoring
-   * @throws Error if performance retrieval fails
+   * Check if performance already has a coin
+   * @throws Error if coin check fails
    */
-  private async getRecentPerformances(): Promise<RealityCheckResult[]> {
+  private async hasExistingCoin(performanceId: string): Promise<boolean> {
     try {
-      const response = await fetch('/api/performances/recent?hours=24');
+      const response = await fetch(`/api/zora/has-coin/${performanceId}`);
       
       if (!response.ok) {
         throw new Error(`API error: ${response.status} ${response.statusText}`);
       }
       
       const data = await response.json();
-      return data.performances || [];
+      return data.hasCoin || false;
     } catch (error) {
-      console.error('Failed to get recent performances:', error);
-      throw new Error(`Recent performance retrieval failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      console.error('Failed to check for existing coin:', error);
+      throw new Error(`Coin existence check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
    * Queue performance for coin creation
+   * @returns false if the server did not find the performance eligible
    * @throws Error if queuing fails
    */
-  private async queueForCoinCreation(eligibility: CoinEligibility): Promise<void> {
+  private async queueForCoinCreation(eligibility: CoinEligibility): Promise<boolean> {
     try {
       console.log(`📋 Queuing for coin creation: ${eligibility.performance.challengeTitle}`);
       
@@ -288,91 +162,27 @@ export class ViralDetectionService {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          eligibility,
-          queuedAt: new Date().toISOString()
+          performanceId: eligibility.performance.id
         }),
       });
       
+      if (response.status === 422) {
+        console.log(`⏸️ Server did not confirm viral eligibility: ${eligibility.performance.challengeTitle}`);
+        return false;
+      }
+
       if (!response.ok) {
         throw new Error(`API error: ${response.status} ${response.statusText}`);
       }
       
       console.log(`✅ Successfully queued for coin creation: ${eligibility.performance.challengeTitle}`);
+      return true;
     } catch (error) {
       console.error('Failed to queue for coin creation:', error);
       throw new Error(`Queuing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  /**
-   * Notify about viral coin creation
-   * @throws Error if notification fails
-   */
-  private async notifyViralCoinCreation(eligibility: CoinEligibility, coinAddress: string): Promise<void> {
-    try {
-      console.log(`🎉 VIRAL COIN CREATED: ${eligibility.performance.challengeTitle} → ${coinAddress}`);
-      
-      const response = await fetch('/api/notifications/viral-coin', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          performanceId: eligibility.performance.id,
-          coinAddress,
-          viralType: eligibility.type,
-          reason: eligibility.reason,
-          challengeTitle: eligibility.performance.challengeTitle
-        }),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      
-      console.log('✅ Viral coin notifications sent successfully');
-    } catch (error) {
-      console.error('Failed to send viral coin notifications:', error);
-      throw new Error(`Notification failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
-  /**
-   * Track viral event for analytics
-   * @throws Error if tracking fails
-   */
-  private async trackViralEvent(eligibility: CoinEligibility): Promise<void> {
-    try {
-      const event = {
-        type: 'viral_coin_created',
-        performanceId: eligibility.performance.id,
-        viralType: eligibility.type,
-        reason: eligibility.reason,
-        shareCount: eligibility.performance.shareCount,
-        communityRating: eligibility.performance.communityRating,
-        gap: eligibility.performance.gap,
-        timestamp: new Date().toISOString()
-      };
-      
-      const response = await fetch('/api/analytics/track', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(event),
-      });
-      
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-      
-      console.log('📊 Viral event tracked successfully');
-    } catch (error) {
-      console.error('Failed to track viral event:', error);
-      throw new Error(`Event tracking failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
   /**
    * Get viral queue for admin dashboard
    * @throws Error if queue retrieval fails
@@ -416,50 +226,72 @@ export class ViralDetectionService {
 
   /**
    * Update viral thresholds (for admin configuration)
+   * Publishes a new rule set version; needs the admin API secret.
    * @throws Error if threshold update fails
    */
-  async updateThresholds(newThresholds: Partial<typeof this.VIRAL_THRESHOLDS>): Promise<void> {
+  async updateThresholds(newThresholds: Partial<ViralThresholds>, adminSecret: string): Promise<void> {
     try {
-      // First update local copy for immediate use
-      Object.assign(this.VIRAL_THRESHOLDS, newThresholds);
-      
-      // Then persist to server
       const response = await fetch('/api/viral/thresholds', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminSecret}`,
         },
         body: JSON.stringify(newThresholds),
       });
       
       if (!response.ok) {
-        // Revert local changes if server update fails
-        const currentThresholds = await this.getThresholds();
-        Object.assign(this.VIRAL_THRESHOLDS, currentThresholds);
         throw new Error(`API error: ${response.status} ${response.statusText}`);
       }
       
-      console.log('🔧 Viral thresholds updated:', this.VIRAL_THRESHOLDS);
+      const data = await response.json();
+      this.rules = data.ruleSet.rules;
+
+      console.log(`🔧 Viral thresholds updated (v${data.ruleSet.version}):`, data.thresholds);
     } catch (error) {
       console.error('Failed to update thresholds:', error);
       throw new Error(`Threshold update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Dry-run candidate thresholds against the last `days` of history without minting.
+   * Needs the admin API secret.
+   * @throws Error if the simulation fails
+   */
+  async simulateThresholds(
+    candidate: Partial<ViralThresholds>,
+    adminSecret: string,
+    days: number = 7
+  ): Promise<ViralSimulationReport> {
+    try {
+      const response = await fetch('/api/viral/thresholds/simulate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${adminSecret}`,
+        },
+        body: JSON.stringify({ thresholds: candidate, days }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.simulation;
+    } catch (error) {
+      console.error('Failed to simulate thresholds:', error);
+      throw new Error(`Threshold simulation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Get challenge-specific viral threshold
    */
   getChallengeThreshold(challengeType: 'viral' | 'structured' | 'advanced'): number {
-    switch (challengeType) {
-      case 'viral':
-        return this.VIRAL_THRESHOLDS.VIRAL_CHALLENGE;
-      case 'structured':
-        return this.VIRAL_THRESHOLDS.STRUCTURED_CHALLENGE;
-      case 'advanced':
-        return this.VIRAL_THRESHOLDS.ADVANCED_CHALLENGE;
-      default:
-        return this.VIRAL_THRESHOLDS.SHARE_COUNT; // fallback to default
-    }
+    return getRuleThreshold(this.rules, 'viral_moment', 'share_count', challengeType)
+      ?? thresholdsFromRules(this.rules).SHARE_COUNT; // fallback to default
   }
 
   /**
@@ -474,7 +306,7 @@ export class ViralDetectionService {
    * Get current thresholds from server
    * @throws Error if threshold retrieval fails
    */
-  async getThresholds(): Promise<typeof this.VIRAL_THRESHOLDS> {
+  async getThresholds(): Promise<ViralThresholds> {
     try {
       const response = await fetch('/api/viral/thresholds');
       
@@ -485,14 +317,16 @@ export class ViralDetectionService {
       const data = await response.json();
       
       // Update local copy to ensure sync with server
-      Object.assign(this.VIRAL_THRESHOLDS, data.thresholds);
+      if (Array.isArray(data.rules)) {
+        this.rules = data.rules;
+      }
       
-      return { ...this.VIRAL_THRESHOLDS };
+      return thresholdsFromRules(this.rules);
     } catch (error) {
       console.error('Failed to get thresholds:', error);
       // Fall back to local copy if server retrieval fails
       console.log('Using local thresholds as fallback');
-      return { ...this.VIRAL_THRESHOLDS };
+      return thresholdsFromRules(this.rules);
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,397 @@
+/**
+ * Challenge Frame Service
+ * The states a challenge frame (see /api/farcaster/frames/challenge) moves
+ * through when its buttons are pressed: leaderboard pages, a song preview,
+ * rating the challenge's performances and a performance's coin. The frame
+ * state only names the screen a frame showed; whoever signs a frame message
+ * chooses its state, so what each button does is rebuilt from the database.
+ */
+
+import { Address } from 'viem';
+import { databaseService, ChallengeRow, ChallengeResultRow } from '@/lib/database/DatabaseService';
+import { accountService } from '@/lib/auth/AccountService';
+import { RatingService } from '@/lib/services/RatingService';
+import { eventCounterService } from '@/lib/analytics/EventCounters';
+import { forYouFeedService } from '@/lib/discovery/ForYouFeedService';
+import { getCoinInfo } from '@/lib/zora/CoinInfo';
+import { LEADERBOARD_PAGE_SIZE } from '@/lib/og/OgCardData';
+import { ogImageUrl } from '@/lib/og/OgImageUrls';
+import { farcasterService, FarcasterUser, FrameData, ValidatedFrameAction } from '@/services/FarcasterService';
+
+export type ChallengeFrameAction =
+  | 'leaderboard'
+  | 'previous'
+  | 'next'
+  | 'preview'
+  | 'rate'     // the next performance the user can rate
+  | 'review'   // rate the performance the frame is showing
+  | 'submit'
+  | 'coin'
+  | 'back';
+
+export type ChallengeFrameView =
+  | 'challenge'
+  | 'leaderboard'
+  | 'preview'
+  | 'rating'     // a performance's rating form
+  | 'rated'      // a performance just rated
+  | 'coin'
+  | 'caught_up'; // nothing left to rate
+
+export interface ChallengeFrameState {
+  challengeId: string;
+  view: ChallengeFrameView;
+  page?: number;
+  performanceId?: string;
+}
+
+type Button = {
+  label: string;
+  /** Link buttons open `target`; every other button posts `action` back */
+  action: ChallengeFrameAction | 'link';
+  target?: string;
+};
+
+// Performances looked at when picking the next one to rate
+const RATE_CANDIDATES = 50;
+// Frames must answer within 5s; coin info is left out rather than wait
+const COIN_INFO_BUDGET_MS = 2000;
+
+export const CHALLENGE_FRAME_POST_URL =
+  `${process.env.NEXT_PUBLIC_APP_URL || 'https://gigavibe.app'}/api/farcaster/frames/challenge/action`;
+
+const VIEWS: ChallengeFrameView[] = ['challenge', 'leaderboard', 'preview', 'rating', 'rated', 'coin', 'caught_up'];
+
+/**
+ * Screen of a newly shared challenge frame: accept (a link), leaderboard,
+ * preview and rate
+ */
+export const INITIAL_CHALLENGE_FRAME_VIEW: ChallengeFrameView = 'challenge';
+
+class ChallengeFrameService {
+  private static instance: ChallengeFrameService;
+
+  static getInstance(): ChallengeFrameService {
+    if (!ChallengeFrameService.instance) {
+      ChallengeFrameService.instance = new ChallengeFrameService();
+    }
+    return ChallengeFrameService.instance;
+  }
+
+  /**
+   * The frame to show after a button press. Frames shared before they carried
+   * state only know their challenge from the post URL (`challengeId`).
+   * @returns null if the frame's challenge does not exist
+   */
+  async handleAction(action: ValidatedFrameAction, challengeId: string | null): Promise<FrameData | null> {
+    const state = parseState(action.state) || (challengeId
+      ? { challengeId, view: INITIAL_CHALLENGE_FRAME_VIEW }
+      : null);
+    if (!state) return null;
+
+    const challenge = await databaseService.getChallengeById(state.challengeId);
+    if (!challenge) return null;
+
+    const page = state.page || 0;
+    const shown = await this.shownScreen(challenge, state);
+    switch (shown.buttons[action.buttonIndex - 1]?.action) {
+      case 'leaderboard':
+        return this.leaderboard(challenge, 0);
+      case 'previous':
+        return this.leaderboard(challenge, Math.max(0, page - 1));
+      case 'next':
+        return this.leaderboard(challenge, page + 1);
+      case 'preview':
+        return this.preview(challenge);
+      case 'rate':
+        return this.nextToRate(challenge, action.interactor, state.performanceId);
+      case 'review':
+        return shown.result ? this.ratingForm(challenge, shown.result) : this.challenge(challenge);
+      case 'submit':
+        return shown.result ? this.submit(challenge, action, shown.result) : this.challenge(challenge);
+      case 'coin':
+        return shown.result ? this.coin(challenge, shown.result) : this.challenge(challenge);
+      default:
+        return this.challenge(challenge);
+    }
+  }
+
+  /**
+   * The buttons a frame in `state` showed and the performance it showed,
+   * rebuilt from the database. A performance outside the challenge, or one
+   * its screen could not have shown, falls back to the challenge's buttons.
+   */
+  private async shownScreen(
+    challenge: ChallengeRow,
+    state: ChallengeFrameState
+  ): Promise<{ buttons: Button[]; result: ChallengeResultRow | null }> {
+    const fallback = { buttons: challengeButtons(challenge), result: null };
+
+    switch (state.view) {
+      case 'leaderboard': {
+        const page = state.page || 0;
+        return { buttons: leaderboardButtons(page, await this.hasLeaderboardPage(challenge, page + 1)), result: null };
+      }
+      case 'preview':
+        return { buttons: previewButtons(challenge), result: null };
+      case 'caught_up':
+        return { buttons: caughtUpButtons(), result: null };
+      case 'rating':
+      case 'rated':
+      case 'coin': {
+        const result = state.performanceId ? await databaseService.getChallengeResultById(state.performanceId) : null;
+        if (!result || result.challenge_id !== challenge.id) return fallback;
+        if (state.view === 'coin') {
+          return result.coin_address ? { buttons: coinButtons(result.coin_address, ''), result } : fallback;
+        }
+        if (state.view === 'rated') return { buttons: ratedButtons(result, ''), result };
+        return isRateable(result) ? { buttons: ratingButtons(result), result } : fallback;
+      }
+      default:
+        return fallback;
+    }
+  }
+
+  private challenge(challenge: ChallengeRow): FrameData {
+    return frame({ challengeId: challenge.id, view: 'challenge' }, ogImageUrl('challenge', challenge.id), challengeButtons(challenge));
+  }
+
+  private async leaderboard(challenge: ChallengeRow, page: number): Promise<FrameData> {
+    const buttons = leaderboardButtons(page, await this.hasLeaderboardPage(challenge, page + 1));
+    const image = ogImageUrl('leaderboard', challenge.id, page > 0 ? { page: String(page) } : undefined);
+    return frame({ challengeId: challenge.id, view: 'leaderboard', page }, image, buttons);
+  }
+
+  private async hasLeaderboardPage(challenge: ChallengeRow, page: number): Promise<boolean> {
+    const rows = await databaseService.getChallengeLeaderboard(challenge.id, 1, page * LEADERBOARD_PAGE_SIZE);
+    return rows.length > 0;
+  }
+
+  private preview(challenge: ChallengeRow): FrameData {
+    return frame({ challengeId: challenge.id, view: 'preview' }, ogImageUrl('challenge', challenge.id), previewButtons(challenge));
+  }
+
+  /**
+   * The newest performance after `afterId` that the user has not rated and
+   * did not sing. Frames can't show text, so "nothing left" is a button label.
+   */
+  private async nextToRate(challenge: ChallengeRow, user: FarcasterUser, afterId?: string): Promise<FrameData> {
+    const [results, account] = await Promise.all([
+      databaseService.getChallengeResults(challenge.id, RATE_CANDIDATES),
+      databaseService.getUserByFarcasterFid(user.fid)
+    ]);
+    const rated = new Set(
+      account
+        ? (await databaseService.getCommunityRatingsByUser(account.wallet_address)).map(vote => vote.performance_id)
+        : []
+    );
+
+    const start = results.findIndex((result: ChallengeResultRow) => result.id === afterId) + 1;
+    const next = results.slice(start).find((result: ChallengeResultRow) =>
+      isRateable(result) &&
+      !rated.has(result.id) &&
+      !isOwnResult(result, user.fid, account?.wallet_address)
+    );
+
+    if (!next) {
+      return frame({ challengeId: challenge.id, view: 'caught_up' }, ogImageUrl('challenge', challenge.id), caughtUpButtons());
+    }
+    return this.ratingForm(challenge, next);
+  }
+
+  private async submit(challenge: ChallengeRow, action: ValidatedFrameAction, result: ChallengeResultRow): Promise<FrameData> {
+    const match = /^\s*([1-5])\s*$/.exec(action.inputText);
+    if (!match) {
+      return this.ratingForm(challenge, result, 'Enter a whole number from 1 to 5');
+    }
+
+    const account = await accountService.getFarcasterAccount(action.interactor);
+    if (!account) {
+      return this.ratingForm(challenge, result, 'Verify a wallet on Farcaster to rate');
+    }
+    if (isOwnResult(result, action.interactor.fid, account.userId)) {
+      return this.nextToRate(challenge, action.interactor, result.id);
+    }
+
+    const rating = Number(match[1]);
+    const ratingData = await RatingService.getInstance().submitRating({
+      performanceId: result.id,
+      userId: account.userId,
+      rating,
+      scale: '1-5',
+      isChallengeResult: true
+    });
+
+    // Same bookkeeping as /api/discovery/rate
+    if (ratingData.previousRating === null) {
+      await eventCounterService.record(result.id, 'rate');
+    }
+    forYouFeedService.invalidateProfile(account.userId);
+    await databaseService.trackEvent({
+      event_type: 'performance_rated',
+      user_id: account.userId,
+      performance_id: result.id,
+      event_data: {
+        rating: ratingData.userRating,
+        rating_scale: '1-5',
+        raw_rating: rating,
+        raw_scale: '1-5',
+        weight: ratingData.weight,
+        replaced_rating: ratingData.previousRating,
+        source: 'farcaster_frame',
+        fid: action.interactor.fid
+      }
+    });
+
+    // A new URL, so clients show the updated community rating
+    const image = ogImageUrl('result', result.id, { votes: String(ratingData.voteCount) });
+    const buttons = ratedButtons(result, `✅ Rated ${rating}/5 · Next`);
+
+    return frame({ challengeId: challenge.id, view: 'rated', performanceId: result.id }, image, buttons);
+  }
+
+  private async coin(challenge: ChallengeRow, result: ChallengeResultRow): Promise<FrameData> {
+    if (!result.coin_address) return this.challenge(challenge);
+
+    const coinAddress = result.coin_address as Address;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const info = await Promise.race([
+      getCoinInfo(coinAddress).catch(error => {
+        console.warn('⚠️ Coin info unavailable for frame:', error);
+        return null;
+      }),
+      new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), COIN_INFO_BUDGET_MS); })
+    ]);
+    clearTimeout(timer);
+
+    const label = info
+      ? `🪙 $${info.symbol} · ${info.marketData.holders} holders`
+      : '🪙 Trade on Zora';
+
+    return frame(
+      { challengeId: challenge.id, view: 'coin', performanceId: result.id },
+      ogImageUrl('coin', coinAddress),
+      coinButtons(coinAddress, label)
+    );
+  }
+
+  /**
+   * A performance's Reality Reveal card with a 1-5 rating input. `prompt`
+   * replaces the input's placeholder, e.g. to say why a rating was refused.
+   */
+  private ratingForm(challenge: ChallengeRow, result: ChallengeResultRow, prompt?: string): FrameData {
+    // Coin frames offer any of the challenge's coins for rating
+    if (!isRateable(result)) return this.challenge(challenge);
+
+    return frame(
+      { challengeId: challenge.id, view: 'rating', performanceId: result.id },
+      ogImageUrl('result', result.id),
+      ratingButtons(result),
+      prompt || 'Your rating, 1 to 5'
+    );
+  }
+}
+
+function challengeButtons(challenge: ChallengeRow): Button[] {
+  return [
+    { label: '🎤 Accept Challenge', action: 'link', target: farcasterService.createChallengeInviteUrl(challenge.id) },
+    { label: '👀 View Leaderboard', action: 'leaderboard' },
+    { label: '🎵 Preview Song', action: 'preview' },
+    { label: '⭐ Rate Singers', action: 'rate' }
+  ];
+}
+
+function leaderboardButtons(page: number, hasNextPage: boolean): Button[] {
+  const buttons: Button[] = [];
+  if (page > 0) buttons.push({ label: '◀ Previous', action: 'previous' });
+  if (hasNextPage) buttons.push({ label: 'Next ▶', action: 'next' });
+  buttons.push({ label: '⭐ Rate Singers', action: 'rate' }, { label: '⬅ Back', action: 'back' });
+  return buttons;
+}
+
+function previewButtons(challenge: ChallengeRow): Button[] {
+  return [
+    { label: '▶ Listen', action: 'link', target: challenge.preview_url },
+    { label: '🎤 Sing It', action: 'link', target: farcasterService.createChallengeInviteUrl(challenge.id) },
+    { label: '🏆 Leaderboard', action: 'leaderboard' },
+    { label: '⬅ Back', action: 'back' }
+  ];
+}
+
+function caughtUpButtons(): Button[] {
+  return [
+    { label: '✅ All caught up! Leaderboard', action: 'leaderboard' },
+    { label: '⬅ Back', action: 'back' }
+  ];
+}
+
+function ratingButtons(result: ChallengeResultRow): Button[] {
+  const buttons: Button[] = [
+    { label: '⭐ Rate', action: 'submit' },
+    { label: '⏭ Skip', action: 'rate' }
+  ];
+  if (result.coin_address) buttons.push({ label: '🪙 Coin', action: 'coin' });
+  buttons.push({ label: '⬅ Back', action: 'back' });
+  return buttons;
+}
+
+function ratedButtons(result: ChallengeResultRow, nextLabel: string): Button[] {
+  const buttons: Button[] = [{ label: nextLabel, action: 'rate' }];
+  if (result.coin_address) buttons.push({ label: '🪙 Coin', action: 'coin' });
+  buttons.push({ label: '🏆 Leaderboard', action: 'leaderboard' }, { label: '⬅ Back', action: 'back' });
+  return buttons;
+}
+
+function coinButtons(coinAddress: string, label: string): Button[] {
+  return [
+    { label, action: 'link', target: `https://zora.co/collect/base:${coinAddress}` },
+    { label: '⭐ Rate It', action: 'review' },
+    { label: '⏭ Next Singer', action: 'rate' },
+    { label: '⬅ Back', action: 'back' }
+  ];
+}
+
+function frame(state: ChallengeFrameState, image: string, buttons: Button[], inputText?: string): FrameData {
+  return {
+    version: 'vNext',
+    image,
+    buttons: buttons.map(button => (button.action === 'link'
+      ? { label: button.label, action: 'link', target: button.target }
+      : { label: button.label, action: 'post' })),
+    inputText,
+    postUrl: CHALLENGE_FRAME_POST_URL,
+    aspectRatio: '1.91:1',
+    state: JSON.stringify(state)
+  };
+}
+
+function parseState(serialized: string): ChallengeFrameState | null {
+  if (!serialized) return null;
+  try {
+    const state = JSON.parse(serialized);
+    if (typeof state?.challengeId !== 'string') return null;
+    return {
+      challengeId: state.challengeId,
+      // Frames from before views were named show the challenge's buttons
+      view: VIEWS.includes(state.view) ? state.view : INITIAL_CHALLENGE_FRAME_VIEW,
+      page: Number.isInteger(state.page) && state.page >= 0 ? state.page : undefined,
+      performanceId: typeof state.performanceId === 'string' ? state.performanceId : undefined
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a performance may be rated from a frame: not flagged and not a
+ * copy of another submission
+ */
+function isRateable(result: ChallengeResultRow): boolean {
+  return result.verification_status !== 'flagged' && !result.duplicate_of_result_id;
+}
+
+function isOwnResult(result: ChallengeResultRow, fid: number, userId?: string): boolean {
+  return result.user_fid === fid || (!!userId && result.user_id?.toLowerCase() === userId.toLowerCase());
+}
+
+export const challengeFrameService = ChallengeFrameService.getInstance();
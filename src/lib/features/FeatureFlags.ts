@@ -3,6 +3,8 @@
  * Manages gradual rollout of enhanced audio features
  */
 
+import type { PitchDetectionAlgorithm } from '@/lib/audio/PitchDetector';
+
 export interface FeatureFlags {
   // Phase 1: Enhanced Audio Interactivity
   liveAudioCoaching: boolean;
@@ -43,6 +45,7 @@ class FeatureFlagsService {
   private flags: FeatureFlags;
   private deviceCapabilities: DeviceCapabilities;
   private userTier: 'basic' | 'premium' | 'beta' = 'basic';
+  private pitchDetector: PitchDetectionAlgorithm | null = null; // User override, null = device default
 
   constructor() {
     this.deviceCapabilities = this.detectDeviceCapabilities();
@@ -124,6 +127,11 @@ class FeatureFlagsService {
         this.flags = { ...this.flags, ...userFlags };
       }
 
+      const pitchDetector = localStorage.getItem('gigavibe-pitch-detector') as PitchDetectionAlgorithm | null;
+      if (pitchDetector && ['autocorrelation', 'yin', 'pyin'].includes(pitchDetector)) {
+        this.pitchDetector = pitchDetector;
+      }
+
       const userTier = localStorage.getItem('gigavibe-user-tier') as typeof this.userTier;
       if (userTier) {
         this.userTier = userTier;
@@ -181,6 +189,33 @@ class FeatureFlagsService {
     this.saveUserPreferences();
   }
 
+  /**
+   * Pitch detector for this device: pYIN where there is CPU headroom,
+   * YIN by default, plain autocorrelation on low-end devices.
+   */
+  getPitchDetectionAlgorithm(): PitchDetectionAlgorithm {
+    if (this.pitchDetector) return this.pitchDetector;
+
+    switch (this.deviceCapabilities.performanceLevel) {
+      case 'high': return 'pyin';
+      case 'low': return 'autocorrelation';
+      default: return 'yin';
+    }
+  }
+
+  setPitchDetectionAlgorithm(algorithm: PitchDetectionAlgorithm | null): void {
+    this.pitchDetector = algorithm;
+    try {
+      if (algorithm) {
+        localStorage.setItem('gigavibe-pitch-detector', algorithm);
+      } else {
+        localStorage.removeItem('gigavibe-pitch-detector');
+      }
+    } catch (error) {
+      console.warn('Failed to save pitch detector preference:', error);
+    }
+  }
+
   private saveUserPreferences(): void {
     try {
       localStorage.setItem('gigavibe-feature-flags', JSON.stringify(this.flags));
@@ -195,7 +230,8 @@ class FeatureFlagsService {
       liveCoaching: this.isEnabled('liveAudioCoaching'),
       adaptiveTracks: this.isEnabled('adaptiveBackingTracks'),
       immersiveVisuals: this.isEnabled('immersiveVisualizer'),
-      gestureControls: this.isEnabled('gestureControls')
+      gestureControls: this.isEnabled('gestureControls'),
+      pitchDetector: this.getPitchDetectionAlgorithm()
     };
   }
 
@@ -0,0 +1,360 @@
+/**
+ * Audio Moderation Pipeline
+ * Decodes a recording and runs signal-level checks on it: silence, clipping,
+ * duration mismatch, non-vocal content, playback of the challenge's original
+ * track (by fingerprint against its previewUrl) and speech-to-text. Returns
+ * findings only; ModerationService turns them into approve/flag/reject.
+ */
+
+import { probeAudio, AudioProbeResult } from '@/lib/audio/AudioProbe';
+import { PcmBuffer } from '@/lib/audio/PcmDecoder';
+import { decodeAudio } from '@/lib/audio/AudioDecoder';
+import { fetchAudioBytes, isFetchableAudioUrl } from '@/lib/audio/AudioFetch';
+import { OfflinePitchAnalyzer } from '@/lib/audio/OfflinePitchAnalyzer';
+import { AudioFingerprint, compareFingerprints, computeFingerprint } from '@/lib/audio/AudioFingerprint';
+import { createSpeechToTextProvider, SpeechToTextProvider, TranscriptSegment } from './SpeechToText';
+
+export type AudioCheck =
+  | 'decode'
+  | 'silence'
+  | 'clipping'
+  | 'duration_mismatch'
+  | 'non_vocal'
+  | 'copyrighted_playback'
+  | 'speech';
+
+export interface AudioCheckIssue {
+  check: AudioCheck;
+  confidence: number; // 0-1
+  message: string;
+  timestamp?: number; // Seconds into the recording
+  duration?: number; // Seconds affected
+}
+
+export interface AudioModerationContext {
+  referenceUrl?: string; // The challenge's previewUrl (original track)
+  claimedDuration?: number; // Seconds, as reported by the client
+}
+
+export interface AudioModerationInput extends AudioModerationContext {
+  audio: string | ArrayBuffer | Blob; // URL or recording bytes
+}
+
+export interface AudioAnalysis {
+  duration: number; // Seconds; decoded length, else container duration, else 0
+  format: AudioProbeResult['format'];
+  issues: AudioCheckIssue[];
+  transcript: TranscriptSegment[];
+  skippedChecks: Array<{ check: AudioCheck; reason: string }>;
+  metrics: {
+    silenceRatio?: number;
+    clippingRatio?: number;
+    voicedRatio?: number; // Pitched frames among non-silent frames
+    referenceSimilarity?: number;
+  };
+}
+
+export type AudioDecoder = (data: ArrayBuffer) => Promise<PcmBuffer>;
+
+// Silence: 50ms windows quieter than about -40 dBFS
+const SILENCE_WINDOW_SECONDS = 0.05;
+const SILENCE_RMS = 0.01;
+const SILENCE_RATIO_THRESHOLD = 0.9;
+
+// Clipping: runs of 3+ samples at full scale
+const CLIP_LEVEL = 0.99;
+const CLIP_RUN = 3;
+const CLIPPING_RATIO_THRESHOLD = 0.01;
+
+// Duration: same tolerance as submission verification
+const DURATION_TOLERANCE_SECONDS = 2;
+const DURATION_TOLERANCE_RATIO = 0.1;
+
+// Non-vocal: too little pitched sound among the non-silent frames
+const VOICED_RATIO_THRESHOLD = 0.15;
+
+// Original playback: bit error rate well below the ~0.5 of unrelated audio
+const REFERENCE_MIN_OVERLAP_SECONDS = 5;
+const REFERENCE_MATCH_SIMILARITY = 0.65;
+const REFERENCE_CACHE_SIZE = 50;
+
+export class AudioModerationPipeline {
+  private speechToText: SpeechToTextProvider;
+  private decoder: AudioDecoder;
+  private analyzer = new OfflinePitchAnalyzer();
+  private referenceCache = new Map<string, Promise<AudioFingerprint | null>>();
+
+  constructor(options: { speechToText?: SpeechToTextProvider; decoder?: AudioDecoder } = {}) {
+    this.speechToText = options.speechToText || createSpeechToTextProvider();
+    // WAV, WebM/Ogg Opus and MP3; MP4/AAC recordings skip the signal checks
+    this.decoder = options.decoder || decodeAudio;
+  }
+
+  setSpeechToText(provider: SpeechToTextProvider): void {
+    this.speechToText = provider;
+  }
+
+  /**
+   * Run every check the runtime supports. Checks that cannot run (undecodable
+   * format, unreachable reference) are listed in skippedChecks, not failed.
+   * @throws Error if the recording cannot be fetched
+   */
+  async analyze(input: AudioModerationInput): Promise<AudioAnalysis> {
+    const analysis: AudioAnalysis = {
+      duration: 0,
+      format: null,
+      issues: [],
+      transcript: [],
+      skippedChecks: [],
+      metrics: {}
+    };
+
+    const data = await this.loadAudio(input.audio);
+    const probe = probeAudio(data);
+    analysis.format = probe.format;
+
+    if (!probe.format) {
+      analysis.issues.push({ check: 'decode', confidence: 1, message: 'File is not a supported audio format' });
+      return analysis;
+    }
+
+    let pcm: PcmBuffer | null = null;
+    try {
+      pcm = await this.decoder(data);
+    } catch (error) {
+      const reason = `Could not decode ${probe.format} here: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      for (const check of ['silence', 'clipping', 'non_vocal', 'copyrighted_playback'] as AudioCheck[]) {
+        analysis.skippedChecks.push({ check, reason });
+      }
+    }
+
+    analysis.duration = pcm?.duration ?? probe.duration ?? 0;
+    this.checkDuration(analysis, probe, pcm, input.claimedDuration);
+
+    if (pcm) {
+      this.checkSilence(analysis, pcm);
+      this.checkClipping(analysis, pcm);
+      this.checkVoicing(analysis, pcm);
+      await this.checkReference(analysis, pcm, input.referenceUrl);
+    }
+
+    await this.transcribe(analysis, data, probe.mimeType, pcm);
+
+    return analysis;
+  }
+
+  private checkDuration(
+    analysis: AudioAnalysis,
+    probe: AudioProbeResult,
+    pcm: PcmBuffer | null,
+    claimedDuration?: number
+  ): void {
+    // A container that disagrees with its own samples has been tampered with
+    if (pcm && probe.duration !== null && durationsDiverge(probe.duration, pcm.duration)) {
+      analysis.issues.push({
+        check: 'duration_mismatch',
+        confidence: divergenceConfidence(probe.duration, pcm.duration),
+        message: `Container reports ${round(probe.duration, 2)}s but the audio is ${round(pcm.duration, 2)}s`
+      });
+      return;
+    }
+
+    if (typeof claimedDuration !== 'number') return;
+
+    const actual = pcm?.duration ?? probe.duration;
+    if (actual === null || actual === undefined) {
+      analysis.skippedChecks.push({ check: 'duration_mismatch', reason: `Could not read duration from ${probe.format} container` });
+    } else if (durationsDiverge(claimedDuration, actual)) {
+      analysis.issues.push({
+        check: 'duration_mismatch',
+        confidence: divergenceConfidence(claimedDuration, actual),
+        message: `Claimed ${round(claimedDuration, 2)}s but the audio is ${round(actual, 2)}s`
+      });
+    }
+  }
+
+  private checkSilence(analysis: AudioAnalysis, pcm: PcmBuffer): void {
+    const windowLength = Math.max(1, Math.round(SILENCE_WINDOW_SECONDS * pcm.sampleRate));
+    let windows = 0;
+    let silent = 0;
+
+    for (let start = 0; start < pcm.samples.length; start += windowLength) {
+      const end = Math.min(pcm.samples.length, start + windowLength);
+      let sum = 0;
+      for (let i = start; i < end; i++) {
+        sum += pcm.samples[i] * pcm.samples[i];
+      }
+      windows++;
+      if (Math.sqrt(sum / (end - start)) < SILENCE_RMS) silent++;
+    }
+
+    const silenceRatio = windows > 0 ? silent / windows : 1;
+    analysis.metrics.silenceRatio = round(silenceRatio, 3);
+
+    if (silenceRatio >= SILENCE_RATIO_THRESHOLD) {
+      analysis.issues.push({
+        check: 'silence',
+        // 0.5 at the threshold, 1 for a completely silent recording
+        confidence: round(0.5 + 0.5 * (silenceRatio - SILENCE_RATIO_THRESHOLD) / (1 - SILENCE_RATIO_THRESHOLD), 3),
+        message: `${Math.round(silenceRatio * 100)}% of the recording is silent`,
+        timestamp: 0,
+        duration: round(pcm.duration * silenceRatio, 2)
+      });
+    }
+  }
+
+  private checkClipping(analysis: AudioAnalysis, pcm: PcmBuffer): void {
+    let clipped = 0;
+    let run = 0;
+    let firstClip = -1;
+
+    for (let i = 0; i < pcm.samples.length; i++) {
+      if (Math.abs(pcm.samples[i]) >= CLIP_LEVEL) {
+        run++;
+        if (run === CLIP_RUN) {
+          clipped += CLIP_RUN;
+          if (firstClip < 0) firstClip = i - CLIP_RUN + 1;
+        } else if (run > CLIP_RUN) {
+          clipped++;
+        }
+      } else {
+        run = 0;
+      }
+    }
+
+    const clippingRatio = pcm.samples.length > 0 ? clipped / pcm.samples.length : 0;
+    analysis.metrics.clippingRatio = round(clippingRatio, 4);
+
+    if (clippingRatio >= CLIPPING_RATIO_THRESHOLD) {
+      analysis.issues.push({
+        check: 'clipping',
+        confidence: round(Math.min(1, clippingRatio / (CLIPPING_RATIO_THRESHOLD * 5)), 3),
+        message: `${round(clippingRatio * 100, 1)}% of samples are clipped`,
+        timestamp: round(firstClip / pcm.sampleRate, 2)
+      });
+    }
+  }
+
+  private checkVoicing(analysis: AudioAnalysis, pcm: PcmBuffer): void {
+    const contour = this.analyzer.analyze(pcm);
+    const audible = contour.frames.filter(frame => frame.volume >= SILENCE_RMS);
+    // Silent recordings are the silence check's job
+    if (audible.length < contour.frames.length * (1 - SILENCE_RATIO_THRESHOLD)) return;
+
+    const voicedRatio = audible.filter(frame => frame.frequency > 0).length / audible.length;
+    analysis.metrics.voicedRatio = round(voicedRatio, 3);
+
+    if (voicedRatio < VOICED_RATIO_THRESHOLD) {
+      analysis.issues.push({
+        check: 'non_vocal',
+        // 0.5 at the threshold, 1 when nothing is pitched
+        confidence: round(1 - 0.5 * voicedRatio / VOICED_RATIO_THRESHOLD, 3),
+        message: `Only ${Math.round(voicedRatio * 100)}% of the audible recording is pitched`
+      });
+    }
+  }
+
+  private async checkReference(analysis: AudioAnalysis, pcm: PcmBuffer, referenceUrl?: string): Promise<void> {
+    if (!referenceUrl) return;
+
+    const reference = await this.getReferenceFingerprint(referenceUrl);
+    if (!reference) {
+      analysis.skippedChecks.push({ check: 'copyrighted_playback', reason: 'Reference track could not be fetched or decoded' });
+      return;
+    }
+
+    const match = compareFingerprints(computeFingerprint(pcm), reference, REFERENCE_MIN_OVERLAP_SECONDS);
+    if (!match) return;
+
+    analysis.metrics.referenceSimilarity = match.similarity;
+    if (match.similarity >= REFERENCE_MATCH_SIMILARITY) {
+      analysis.issues.push({
+        check: 'copyrighted_playback',
+        // 0.5 at the threshold, 1 for a bit-exact copy
+        confidence: round(0.5 + 0.5 * (match.similarity - REFERENCE_MATCH_SIMILARITY) / (1 - REFERENCE_MATCH_SIMILARITY), 3),
+        message: `Recording matches the original track (${Math.round(match.similarity * 100)}% similar over ${match.overlap}s)`,
+        timestamp: Math.max(0, -match.offset),
+        duration: match.overlap
+      });
+    }
+  }
+
+  private async transcribe(
+    analysis: AudioAnalysis,
+    data: ArrayBuffer,
+    mimeType: string | null,
+    pcm: PcmBuffer | null
+  ): Promise<void> {
+    try {
+      analysis.transcript = await this.speechToText.transcribe({ data, mimeType, pcm });
+    } catch (error) {
+      analysis.skippedChecks.push({
+        check: 'speech',
+        reason: `${this.speechToText.name} transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  }
+
+  /**
+   * Reference fingerprints are reused across submissions to the same challenge
+   */
+  private getReferenceFingerprint(referenceUrl: string): Promise<AudioFingerprint | null> {
+    const cached = this.referenceCache.get(referenceUrl);
+    if (cached) return cached;
+
+    const fingerprint = this.loadAudio(referenceUrl)
+      .then(data => this.decoder(data))
+      .then(computeFingerprint)
+      .catch(error => {
+        console.warn(`⚠️ Failed to fingerprint reference ${referenceUrl}:`, error);
+        this.referenceCache.delete(referenceUrl);
+        return null;
+      });
+
+    if (this.referenceCache.size >= REFERENCE_CACHE_SIZE) {
+      this.referenceCache.delete(this.referenceCache.keys().next().value as string);
+    }
+    this.referenceCache.set(referenceUrl, fingerprint);
+    return fingerprint;
+  }
+
+  /**
+   * @throws Error if a URL is not fetchable or the download fails
+   */
+  private async loadAudio(audio: string | ArrayBuffer | Blob): Promise<ArrayBuffer> {
+    if (audio instanceof ArrayBuffer) return audio;
+    if (typeof audio !== 'string') return audio.arrayBuffer();
+
+    const isServer = typeof window === 'undefined';
+    // Challenge previews are often site-relative paths
+    const url = new URL(audio, isServer ? process.env.NEXT_PUBLIC_APP_URL || 'https://gigavibe.app' : window.location.origin).toString();
+
+    if (isServer && !isFetchableAudioUrl(url)) {
+      throw new Error('Audio URL must be a public http(s) URL');
+    }
+
+    const data = await fetchAudioBytes(url);
+    if (!data) {
+      throw new Error('Audio exceeds the size limit');
+    }
+    return data;
+  }
+}
+
+function durationsDiverge(claimed: number, actual: number): boolean {
+  const tolerance = Math.max(DURATION_TOLERANCE_SECONDS, actual * DURATION_TOLERANCE_RATIO);
+  return Math.abs(claimed - actual) > tolerance;
+}
+
+/**
+ * 0.5 just past the tolerance, approaching 1 as the gap grows
+ */
+function divergenceConfidence(claimed: number, actual: number): number {
+  const tolerance = Math.max(DURATION_TOLERANCE_SECONDS, actual * DURATION_TOLERANCE_RATIO);
+  return round(Math.min(1, Math.abs(claimed - actual) / (2 * tolerance)), 3);
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,221 @@
+import type {
+  ContentReport,
+  ModerationAppeal,
+  ModerationResult,
+  ModerationStatus,
+  ReportStatus,
+  UserReputation
+} from './ModerationService';
+
+/**
+ * Kinds of sanction a subject (user id or IP address) can carry
+ */
+export type SanctionType = 'user_block' | 'shadow_ban' | 'ip_block';
+
+export interface ModerationSanction {
+  subject: string;
+  type: SanctionType;
+  reason?: string;
+  expiresAt?: number; // Unset means permanent
+  createdAt: number;
+}
+
+export interface ReviewAssignment {
+  contentId: string;
+  reviewerId: string;
+  assignedAt: number;
+}
+
+export interface ReportFilter {
+  contentId?: string;
+  statuses?: ReportStatus[];
+}
+
+export interface AppealFilter {
+  userId?: string;
+  contentId?: string;
+  statuses?: ModerationAppeal['status'][];
+}
+
+/**
+ * Storage behind ModerationService.
+ * Reads return copies - callers save changes explicitly.
+ */
+export interface ModerationRepository {
+  // Moderation results (one per content id)
+  getResult(contentId: string): Promise<ModerationResult | null>;
+  saveResult(result: ModerationResult): Promise<void>;
+  listResults(statuses?: ModerationStatus[]): Promise<ModerationResult[]>;
+  countResultsByStatus(): Promise<Partial<Record<ModerationStatus, number>>>;
+
+  // Community reports
+  saveReport(report: ContentReport): Promise<void>;
+  listReports(filter?: ReportFilter): Promise<ContentReport[]>;
+  countReportsByStatus(): Promise<Partial<Record<ReportStatus, number>>>;
+
+  // Reputation
+  getReputation(userId: string): Promise<UserReputation | null>;
+  saveReputation(reputation: UserReputation): Promise<void>;
+
+  // Reviewers and the content assigned to them
+  listReviewers(): Promise<string[]>;
+  addReviewer(userId: string): Promise<void>;
+  removeReviewer(userId: string): Promise<void>;
+  assignReview(contentId: string, reviewerId: string): Promise<void>;
+  unassignReview(contentId: string): Promise<void>;
+  listAssignments(reviewerId?: string): Promise<ReviewAssignment[]>;
+
+  // Appeals
+  getAppeal(appealId: string): Promise<ModerationAppeal | null>;
+  saveAppeal(appeal: ModerationAppeal): Promise<void>;
+  listAppeals(filter?: AppealFilter): Promise<ModerationAppeal[]>;
+
+  // Blocks, shadow bans and IP blocks
+  addSanction(sanction: ModerationSanction): Promise<void>;
+  removeSanction(subject: string, type: SanctionType): Promise<void>;
+  /** Unexpired sanction for the subject, if any */
+  getSanction(subject: string, type: SanctionType): Promise<ModerationSanction | null>;
+  countSanctions(type: SanctionType): Promise<number>;
+}
+
+function isActive(sanction: ModerationSanction, now: number = Date.now()): boolean {
+  return sanction.expiresAt === undefined || sanction.expiresAt > now;
+}
+
+function countBy<T extends string>(values: T[]): Partial<Record<T, number>> {
+  const counts: Partial<Record<T, number>> = {};
+  for (const value of values) {
+    counts[value] = (counts[value] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Process-local store for tests and local development.
+ * State is lost on restart and not shared between instances.
+ */
+export class InMemoryModerationRepository implements ModerationRepository {
+  private results = new Map<string, ModerationResult>();
+  private reports = new Map<string, ContentReport>();
+  private reputations = new Map<string, UserReputation>();
+  private reviewers = new Set<string>();
+  private assignments = new Map<string, ReviewAssignment>(); // contentId -> assignment
+  private appeals = new Map<string, ModerationAppeal>();
+  private sanctions = new Map<string, ModerationSanction>(); // `${type}:${subject}` -> sanction
+
+  async getResult(contentId: string): Promise<ModerationResult | null> {
+    const result = this.results.get(contentId);
+    return result ? structuredClone(result) : null;
+  }
+
+  async saveResult(result: ModerationResult): Promise<void> {
+    this.results.set(result.contentId, structuredClone(result));
+  }
+
+  async listResults(statuses?: ModerationStatus[]): Promise<ModerationResult[]> {
+    return Array.from(this.results.values())
+      .filter(result => !statuses || statuses.includes(result.status))
+      .map(result => structuredClone(result));
+  }
+
+  async countResultsByStatus(): Promise<Partial<Record<ModerationStatus, number>>> {
+    return countBy(Array.from(this.results.values()).map(result => result.status));
+  }
+
+  async saveReport(report: ContentReport): Promise<void> {
+    this.reports.set(report.id, structuredClone(report));
+  }
+
+  async listReports(filter: ReportFilter = {}): Promise<ContentReport[]> {
+    return Array.from(this.reports.values())
+      .filter(report =>
+        (!filter.contentId || report.contentId === filter.contentId) &&
+        (!filter.statuses || filter.statuses.includes(report.status))
+      )
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(report => structuredClone(report));
+  }
+
+  async countReportsByStatus(): Promise<Partial<Record<ReportStatus, number>>> {
+    return countBy(Array.from(this.reports.values()).map(report => report.status));
+  }
+
+  async getReputation(userId: string): Promise<UserReputation | null> {
+    const reputation = this.reputations.get(userId);
+    return reputation ? structuredClone(reputation) : null;
+  }
+
+  async saveReputation(reputation: UserReputation): Promise<void> {
+    this.reputations.set(reputation.userId, structuredClone(reputation));
+  }
+
+  async listReviewers(): Promise<string[]> {
+    return Array.from(this.reviewers);
+  }
+
+  async addReviewer(userId: string): Promise<void> {
+    this.reviewers.add(userId);
+  }
+
+  async removeReviewer(userId: string): Promise<void> {
+    this.reviewers.delete(userId);
+    for (const [contentId, assignment] of this.assignments) {
+      if (assignment.reviewerId === userId) this.assignments.delete(contentId);
+    }
+  }
+
+  async assignReview(contentId: string, reviewerId: string): Promise<void> {
+    this.assignments.set(contentId, { contentId, reviewerId, assignedAt: Date.now() });
+  }
+
+  async unassignReview(contentId: string): Promise<void> {
+    this.assignments.delete(contentId);
+  }
+
+  async listAssignments(reviewerId?: string): Promise<ReviewAssignment[]> {
+    return Array.from(this.assignments.values())
+      .filter(assignment => !reviewerId || assignment.reviewerId === reviewerId)
+      .sort((a, b) => a.assignedAt - b.assignedAt)
+      .map(assignment => ({ ...assignment }));
+  }
+
+  async getAppeal(appealId: string): Promise<ModerationAppeal | null> {
+    const appeal = this.appeals.get(appealId);
+    return appeal ? { ...appeal } : null;
+  }
+
+  async saveAppeal(appeal: ModerationAppeal): Promise<void> {
+    this.appeals.set(appeal.id, { ...appeal });
+  }
+
+  async listAppeals(filter: AppealFilter = {}): Promise<ModerationAppeal[]> {
+    return Array.from(this.appeals.values())
+      .filter(appeal =>
+        (!filter.userId || appeal.userId === filter.userId) &&
+        (!filter.contentId || appeal.contentId === filter.contentId) &&
+        (!filter.statuses || filter.statuses.includes(appeal.status))
+      )
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(appeal => ({ ...appeal }));
+  }
+
+  async addSanction(sanction: ModerationSanction): Promise<void> {
+    this.sanctions.set(`${sanction.type}:${sanction.subject}`, { ...sanction });
+  }
+
+  async removeSanction(subject: string, type: SanctionType): Promise<void> {
+    this.sanctions.delete(`${type}:${subject}`);
+  }
+
+  async getSanction(subject: string, type: SanctionType): Promise<ModerationSanction | null> {
+    const sanction = this.sanctions.get(`${type}:${subject}`);
+    return sanction && isActive(sanction) ? { ...sanction } : null;
+  }
+
+  async countSanctions(type: SanctionType): Promise<number> {
+    const now = Date.now();
+    return Array.from(this.sanctions.values())
+      .filter(sanction => sanction.type === type && isActive(sanction, now))
+      .length;
+  }
+}
@@ -1,6 +1,9 @@
 import { EventEmitter } from 'events';
 import { analyticsManager, AnalyticsEventType } from '../analytics/AnalyticsManager';
 import { audioManager } from '../audio/AudioServiceManager';
+import { AppealFilter, ModerationRepository, ReportFilter } from './ModerationRepository';
+import { SupabaseModerationRepository } from './SupabaseModerationRepository';
+import { AudioCheck, AudioModerationContext, AudioModerationPipeline } from './AudioModerationPipeline';
 
 /**
  * Content moderation status
@@ -129,6 +132,7 @@ export interface ModerationResult {
   reviewRequired?: boolean;
   moderatorId?: string;
   actionTaken?: ModerationActionType;
+  ownerId?: string; // User who submitted the content
   metadata?: Record<string, any>;
 }
 
@@ -160,6 +164,45 @@ export interface UserReputation {
   };
 }
 
+/**
+ * Appeal against a moderation decision
+ */
+export interface ModerationAppeal {
+  id: string;
+  userId: string;
+  contentId: string;
+  reason: string;
+  evidence?: string;
+  timestamp: number;
+  status: 'pending' | 'approved' | 'rejected';
+  reviewerId?: string;
+  resolvedAt?: number;
+}
+
+/**
+ * Where a review or appeal stands against the humanModeration SLA
+ */
+export type ReviewSlaStatus = 'on_track' | 'at_risk' | 'overdue';
+
+export interface ReviewSla {
+  dueAt: number;
+  slaStatus: ReviewSlaStatus;
+}
+
+/**
+ * Content in a reviewer's queue
+ */
+export interface ReviewQueueItem extends ModerationResult, ReviewSla {
+  assignedTo: string;
+  assignedAt: number;
+  escalated: boolean;
+}
+
+/**
+ * Pending appeal awaiting a reviewer
+ */
+export interface AppealQueueItem extends ModerationAppeal, ReviewSla {}
+
 /**
  * Audio moderation result interface
  */
@@ -173,6 +216,8 @@ export interface AudioModerationResult {
     confidence: number;
     timestamp?: number;
     duration?: number;
+    check?: AudioCheck;
+    message?: string;
   }>;
   transcriptIssues?: Array<{
     text: string;
@@ -181,6 +226,7 @@ export interface AudioModerationResult {
     startTime: number;
     endTime: number;
   }>;
+  skippedChecks?: Array<{ check: AudioCheck; reason: string }>;
 }
 
 /**
@@ -233,8 +279,8 @@ export interface ModerationConfig {
   humanModeration: {
     enabled: boolean;
     reviewQueueSize: number;
-    reviewTimeoutHours: number;
-    escalationThreshold: number;
+    reviewTimeoutHours: number; // SLA for a decision once content is assigned or appealed
+    escalationThreshold: number; // Share of the SLA elapsed (0-1) before a review is escalated to admins
   };
   aiModeration: {
     enabled: boolean;
@@ -334,6 +380,22 @@ const DEFAULT_CONFIG: ModerationConfig = {
   }
 };
 
+/**
+ * How each audio pipeline finding is reported
+ */
+const AUDIO_CHECK_REASONS: Record<AudioCheck, ModerationReason> = {
+  decode: ModerationReason.OTHER,
+  silence: ModerationReason.SPAM,
+  clipping: ModerationReason.OTHER,
+  duration_mismatch: ModerationReason.OTHER,
+  non_vocal: ModerationReason.SPAM,
+  copyrighted_playback: ModerationReason.COPYRIGHT_VIOLATION,
+  speech: ModerationReason.OFFENSIVE_LANGUAGE
+};
+
+// Findings that are recorded but never hold content back
+const NON_BLOCKING_AUDIO_CHECKS: AudioCheck[] = ['clipping'];
+
 /**
  * Moderation events
  */
@@ -349,7 +411,8 @@ export enum ModerationEvent {
   USER_REPUTATION_UPDATED = 'user:reputation:updated',
   MODERATION_ERROR = 'moderation:error',
   APPEAL_SUBMITTED = 'appeal:submitted',
-  APPEAL_RESOLVED = 'appeal:resolved'
+  APPEAL_RESOLVED = 'appeal:resolved',
+  REVIEW_ESCALATED = 'review:escalated'
 }
 
 /**
@@ -357,20 +420,14 @@ export enum ModerationEvent {
  * 
  * This service provides a complete solution for content moderation including
  * automated filtering, community reporting, user reputation management,
- * and human moderation workflows.
+ * and human moderation workflows. State lives in a ModerationRepository
+ * (Supabase by default) so every instance sees the same reports and queues.
  */
 class ModerationService extends EventEmitter {
   private static instance: ModerationService;
   private config: ModerationConfig;
-  private moderationQueue: Map<string, ModerationResult> = new Map();
-  private reportQueue: Map<string, ContentReport> = new Map();
-  private userReputations: Map<string, UserReputation> = new Map();
-  private reviewers: Set<string> = new Set();
-  private reviewAssignments: Map<string, string[]> = new Map(); // reviewerId -> contentIds
-  private contentOwners: Map<string, string> = new Map(); // contentId -> userId
-  private blockedUsers: Set<string> = new Set();
-  private shadowBannedUsers: Set<string> = new Set();
-  private blockedIps: Set<string> = new Set();
+  private repository: ModerationRepository;
+  private audioPipeline: AudioModerationPipeline;
   private wordFilterRegex: RegExp | null = null;
   private isInitialized: boolean = false;
   private aiModerationBatch: Array<{
@@ -379,14 +436,6 @@ class ModerationService extends EventEmitter {
     content: string | ArrayBuffer;
   }> = [];
   private batchProcessingTimeout: NodeJS.Timeout | null = null;
-  private appealQueue: Map<string, {
-    userId: string;
-    contentId: string;
-    reason: string;
-    evidence?: string;
-    timestamp: number;
-    status: 'pending' | 'approved' | 'rejected';
-  }> = new Map();
 
   /**
    * Private constructor to enforce singleton pattern
@@ -394,6 +443,8 @@ class ModerationService extends EventEmitter {
   private constructor() {
     super();
     this.config = DEFAULT_CONFIG;
+    this.repository = new SupabaseModerationRepository();
+    this.audioPipeline = new AudioModerationPipeline();
   }
 
   /**
@@ -454,9 +505,6 @@ class ModerationService extends EventEmitter {
       this.compileWordFilter();
     }
 
-    // Load stored data (in a real implementation, this would load from a database)
-    await this.loadStoredData();
-
     // Mark as initialized
     this.isInitialized = true;
 
@@ -471,34 +519,47 @@ class ModerationService extends EventEmitter {
     });
   }
 
+  /**
+   * Swap the moderation store, e.g. for an InMemoryModerationRepository in tests
+   */
+  public useRepository(repository: ModerationRepository): void {
+    this.repository = repository;
+  }
+
+  /**
+   * Swap the audio pipeline, e.g. one with an OfflineSpeechToTextProvider in tests
+   */
+  public useAudioPipeline(pipeline: AudioModerationPipeline): void {
+    this.audioPipeline = pipeline;
+  }
+
   /**
    * Submit content for moderation
+   * @param audioContext For audio: the challenge's previewUrl and the client-claimed duration
    */
   public async moderateContent(
     contentId: string,
     contentType: ContentType,
     content: string | ArrayBuffer | Blob,
-    userId: string
+    userId: string,
+    audioContext?: AudioModerationContext
   ): Promise<ModerationResult> {
     if (!this.isInitialized || !this.config.enabled) {
       // Auto-approve if moderation is disabled
       return this.createModerationResult(contentId, contentType, ModerationStatus.APPROVED);
     }
 
-    // Store content owner mapping
-    this.contentOwners.set(contentId, userId);
-
     // Get user reputation
     const userReputation = await this.getUserReputation(userId);
 
     // Check if user is blocked or shadow banned
-    if (this.blockedUsers.has(userId)) {
-      return this.createModerationResult(
+    if (await this.repository.getSanction(userId, 'user_block')) {
+      return this.recordResult(this.createModerationResult(
         contentId, 
         contentType, 
         ModerationStatus.REJECTED, 
         ModerationReason.OTHER
-      );
+      ), userId);
     }
 
     // Auto-approve for trusted users if configured
@@ -507,10 +568,16 @@ class ModerationService extends EventEmitter {
          userReputation.reputationLevel === ReputationLevel.MODERATOR ||
          userReputation.reputationLevel === ReputationLevel.ADMIN)) {
       
-      const result = this.createModerationResult(contentId, contentType, ModerationStatus.AUTO_APPROVED);
+      const result = await this.recordResult(
+        this.createModerationResult(contentId, contentType, ModerationStatus.AUTO_APPROVED),
+        userId
+      );
       
       // Still queue for background checking
       this.queueForBackgroundCheck(contentId, contentType, content);
+      if (contentType === ContentType.AUDIO) {
+        this.queueForAudioModeration(contentId, content, audioContext);
+      }
       
       return result;
     }
@@ -519,11 +586,16 @@ class ModerationService extends EventEmitter {
     if (this.config.autoModeration.requireApprovalForNewUsers && 
         userReputation.reputationLevel === ReputationLevel.NEW) {
       
-      const result = this.createModerationResult(contentId, contentType, ModerationStatus.PENDING);
-      this.moderationQueue.set(contentId, result);
+      const result = await this.recordResult(
+        this.createModerationResult(contentId, contentType, ModerationStatus.PENDING),
+        userId
+      );
       
       // Queue for AI moderation
       this.queueForAIModeration(contentId, contentType, content);
+      if (contentType === ContentType.AUDIO) {
+        this.queueForAudioModeration(contentId, content, audioContext);
+      }
       
       return result;
     }
@@ -536,16 +608,22 @@ class ModerationService extends EventEmitter {
         immediateResult = await this.moderateText(contentId, content as string);
         break;
       case ContentType.AUDIO:
-        // Queue audio for async processing, return pending status
-        this.queueForAudioModeration(contentId, content);
-        immediateResult = this.createModerationResult(contentId, contentType, ModerationStatus.PENDING);
+        // Record the pending result before the async check looks it up
+        immediateResult = await this.recordResult(
+          this.createModerationResult(contentId, contentType, ModerationStatus.PENDING),
+          userId
+        );
+        this.queueForAudioModeration(contentId, content, audioContext);
         break;
       case ContentType.IMAGE:
         // Queue image for async processing, return pending status
+        immediateResult = await this.recordResult(
+          this.createModerationResult(contentId, contentType, ModerationStatus.PENDING),
+          userId
+        );
         if (this.config.autoModeration.imageAnalysis) {
           this.queueForImageModeration(contentId, content);
         }
-        immediateResult = this.createModerationResult(contentId, contentType, ModerationStatus.PENDING);
         break;
       case ContentType.USER_PROFILE:
         // For user profiles, check text content immediately
@@ -569,7 +647,7 @@ class ModerationService extends EventEmitter {
     if (immediateResult && immediateResult.status === ModerationStatus.REJECTED) {
       // Update user reputation
       await this.updateUserReputationForRejection(userId, immediateResult.reason || ModerationReason.OTHER);
-      return immediateResult;
+      return this.recordResult(immediateResult, userId);
     }
 
     // Queue for AI moderation if enabled
@@ -583,17 +661,20 @@ class ModerationService extends EventEmitter {
       (userReputation.reputationLevel === ReputationLevel.NEW && this.config.autoModeration.requireApprovalForNewUsers);
 
     if (needsHumanReview) {
-      const result = immediateResult || this.createModerationResult(contentId, contentType, ModerationStatus.PENDING);
-      this.moderationQueue.set(contentId, result);
+      const result = await this.recordResult(
+        immediateResult || this.createModerationResult(contentId, contentType, ModerationStatus.PENDING),
+        userId
+      );
       
       // Assign to human moderator if available
-      this.assignToModerator(contentId);
-      
-      return result;
+      return (await this.assignToModerator(contentId)) || result;
     }
 
     // If we got here, auto-approve the content
-    return immediateResult || this.createModerationResult(contentId, contentType, ModerationStatus.APPROVED);
+    return this.recordResult(
+      immediateResult || this.createModerationResult(contentId, contentType, ModerationStatus.APPROVED),
+      userId
+    );
   }
 
   /**
@@ -610,6 +691,16 @@ class ModerationService extends EventEmitter {
       return 'report_disabled';
     }
 
+    // One open report per reporter and content; repeats don't add weight
+    const openReports = await this.repository.listReports({
+      contentId,
+      statuses: [ReportStatus.SUBMITTED]
+    });
+    const existing = openReports.find(report => report.reporterId === reporterId);
+    if (existing) {
+      return existing.id;
+    }
+
     // Get reporter's reputation
     const reporterReputation = await this.getUserReputation(reporterId);
 
@@ -629,8 +720,8 @@ class ModerationService extends EventEmitter {
       timestamp: Date.now()
     };
 
-    // Add to report queue
-    this.reportQueue.set(reportId, report);
+    // Store the report
+    await this.repository.saveReport(report);
 
     // Track report submission
     analyticsManager.track(AnalyticsEventType.PERFORMANCE_SUBMITTED, {
@@ -644,7 +735,7 @@ class ModerationService extends EventEmitter {
     this.emit(ModerationEvent.REPORT_SUBMITTED, report);
 
     // Check if content has received enough reports to trigger review
-    this.checkReportThreshold(contentId);
+    await this.checkReportThreshold(contentId, contentType);
 
     return reportId;
   }
@@ -652,120 +743,270 @@ class ModerationService extends EventEmitter {
   /**
    * Check if content has reached the report threshold
    */
-  private checkReportThreshold(contentId: string): void {
-    // Count reports for this content
-    let reportCount = 0;
+  private async checkReportThreshold(contentId: string, contentType: ContentType): Promise<void> {
+    const reports = await this.repository.listReports({
+      contentId,
+      statuses: [ReportStatus.SUBMITTED]
+    });
+
+    // Count reports for this content, one per reporter
     let weightedCount = 0;
+    const counted = new Set<string>();
 
-    for (const report of this.reportQueue.values()) {
-      if (report.contentId === contentId && report.status === ReportStatus.SUBMITTED) {
-        reportCount++;
-
-        // Apply weight based on reporter's reputation
-        let weight = 1.0;
-        switch (report.reporterReputationLevel) {
-          case ReputationLevel.NEW:
-            weight = this.config.communityModeration.newUserReportWeight;
-            break;
-          case ReputationLevel.TRUSTED:
-          case ReputationLevel.VERIFIED:
-          case ReputationLevel.MODERATOR:
-          case ReputationLevel.ADMIN:
-            weight = this.config.communityModeration.trustedUserReportWeight;
-            break;
-        }
+    for (const report of reports) {
+      if (counted.has(report.reporterId)) continue;
+      counted.add(report.reporterId);
 
-        weightedCount += weight;
+      // Apply weight based on reporter's reputation
+      let weight = 1.0;
+      switch (report.reporterReputationLevel) {
+        case ReputationLevel.NEW:
+          weight = this.config.communityModeration.newUserReportWeight;
+          break;
+        case ReputationLevel.TRUSTED:
+        case ReputationLevel.VERIFIED:
+        case ReputationLevel.MODERATOR:
+        case ReputationLevel.ADMIN:
+          weight = this.config.communityModeration.trustedUserReportWeight;
+          break;
       }
+
+      weightedCount += weight;
     }
 
     // If threshold reached, flag content for review
     if (weightedCount >= this.config.communityModeration.minReportsForReview) {
-      const result = this.moderationQueue.get(contentId) || 
-        this.createModerationResult(contentId, ContentType.AUDIO, ModerationStatus.FLAGGED); // Default to AUDIO if unknown
+      const result = (await this.repository.getResult(contentId)) ||
+        this.createModerationResult(contentId, contentType, ModerationStatus.FLAGGED);
+
+      // Already waiting on a reviewer
+      if (result.status === ModerationStatus.UNDER_REVIEW) {
+        return;
+      }
       
       result.status = ModerationStatus.FLAGGED;
-      this.moderationQueue.set(contentId, result);
+      result.timestamp = Date.now();
+      await this.repository.saveResult(result);
       
       // Assign to human moderator
-      this.assignToModerator(contentId);
+      const assigned = await this.assignToModerator(contentId);
       
       // Emit event
-      this.emit(ModerationEvent.CONTENT_FLAGGED, result);
+      this.emit(ModerationEvent.CONTENT_FLAGGED, assigned || result);
     }
   }
 
   /**
    * Assign content to a human moderator
+   * @returns The updated moderation result, or null if no reviewer took it
    */
-  private assignToModerator(contentId: string): void {
-    if (!this.config.humanModeration.enabled || this.reviewers.size === 0) {
-      return;
+  private async assignToModerator(contentId: string, excludeReviewerId?: string): Promise<ModerationResult | null> {
+    if (!this.config.humanModeration.enabled) {
+      return null;
+    }
+
+    const reviewers = (await this.repository.listReviewers()).filter(reviewerId => reviewerId !== excludeReviewerId);
+    if (reviewers.length === 0) {
+      return null;
     }
 
     // Find moderator with fewest assignments
+    const assignmentCounts = new Map<string, number>(reviewers.map(reviewerId => [reviewerId, 0]));
+    for (const assignment of await this.repository.listAssignments()) {
+      if (assignmentCounts.has(assignment.reviewerId)) {
+        assignmentCounts.set(assignment.reviewerId, assignmentCounts.get(assignment.reviewerId)! + 1);
+      }
+    }
+
     let selectedModerator: string | null = null;
     let lowestAssignmentCount = Infinity;
 
-    for (const reviewerId of this.reviewers) {
-      const assignments = this.reviewAssignments.get(reviewerId) || [];
-      if (assignments.length < lowestAssignmentCount) {
+    for (const [reviewerId, count] of assignmentCounts) {
+      if (count < lowestAssignmentCount) {
         selectedModerator = reviewerId;
-        lowestAssignmentCount = assignments.length;
+        lowestAssignmentCount = count;
       }
     }
 
-    if (selectedModerator) {
-      // Add to moderator's assignments
-      const assignments = this.reviewAssignments.get(selectedModerator) || [];
-      assignments.push(contentId);
-      this.reviewAssignments.set(selectedModerator, assignments);
-      
-      // Update moderation result
-      const result = this.moderationQueue.get(contentId);
-      if (result) {
-        result.status = ModerationStatus.UNDER_REVIEW;
-        result.moderatorId = selectedModerator;
-        this.moderationQueue.set(contentId, result);
-      }
+    if (!selectedModerator) {
+      return null;
     }
+
+    // Add to moderator's assignments
+    await this.repository.assignReview(contentId, selectedModerator);
+    
+    // Update moderation result
+    const result = await this.repository.getResult(contentId);
+    if (!result) {
+      return null;
+    }
+
+    result.status = ModerationStatus.UNDER_REVIEW;
+    result.moderatorId = selectedModerator;
+    await this.repository.saveResult(result);
+    return result;
+  }
+
+  /**
+   * Flag content for human review from outside the automated checks
+   * (e.g. duplicate audio found at submission time)
+   */
+  public async flagForReview(
+    contentId: string,
+    contentType: ContentType,
+    ownerId: string | undefined,
+    reason: ModerationReason,
+    confidence: number,
+    metadata?: Record<string, any>
+  ): Promise<ModerationResult> {
+    const existing = await this.repository.getResult(contentId);
+    const result: ModerationResult = {
+      ...(existing || this.createModerationResult(contentId, contentType, ModerationStatus.FLAGGED)),
+      status: ModerationStatus.FLAGGED,
+      reason,
+      confidence,
+      reviewRequired: true,
+      timestamp: Date.now(),
+      ...(ownerId && { ownerId }),
+      metadata: { ...existing?.metadata, ...metadata }
+    };
+    await this.repository.saveResult(result);
+
+    const assigned = await this.assignToModerator(contentId);
+
+    this.emit(ModerationEvent.CONTENT_FLAGGED, assigned || result);
+    return assigned || result;
   }
 
   /**
    * Register as a content reviewer
+   * @returns false if the user has not reached ReputationLevel.MODERATOR
    */
-  public registerReviewer(userId: string): boolean {
-    // In a real implementation, this would check if user has moderator privileges
-    this.reviewers.add(userId);
-    if (!this.reviewAssignments.has(userId)) {
-      this.reviewAssignments.set(userId, []);
+  public async registerReviewer(userId: string): Promise<boolean> {
+    if (!(await this.isModerator(userId))) {
+      return false;
     }
+
+    await this.repository.addReviewer(userId);
     return true;
   }
 
+  /**
+   * Whether the user's reputation currently grants moderator privileges
+   */
+  public async isModerator(userId: string): Promise<boolean> {
+    const { reputationLevel } = await this.getUserReputation(userId);
+    return reputationLevel === ReputationLevel.MODERATOR || reputationLevel === ReputationLevel.ADMIN;
+  }
+
+  /**
+   * Whether the user is registered and still holds moderator privileges
+   */
+  public async isActiveReviewer(userId: string): Promise<boolean> {
+    const reviewers = await this.repository.listReviewers();
+    return reviewers.includes(userId) && (await this.isModerator(userId));
+  }
+
   /**
    * Unregister as a content reviewer
    */
-  public unregisterReviewer(userId: string): boolean {
+  public async unregisterReviewer(userId: string): Promise<boolean> {
+    const assignments = await this.repository.listAssignments(userId);
+    await this.repository.removeReviewer(userId);
+
     // Reassign any pending reviews
-    const assignments = this.reviewAssignments.get(userId) || [];
-    for (const contentId of assignments) {
-      this.assignToModerator(contentId);
+    for (const assignment of assignments) {
+      await this.assignToModerator(assignment.contentId);
     }
     
-    this.reviewers.delete(userId);
-    this.reviewAssignments.delete(userId);
     return true;
   }
 
   /**
-   * Get content awaiting review for a moderator
+   * Get content awaiting review for a moderator, most urgent first.
+   * Admins also see every escalated review, whoever it is assigned to.
    */
-  public getReviewQueue(reviewerId: string): ModerationResult[] {
-    const assignments = this.reviewAssignments.get(reviewerId) || [];
-    return assignments
-      .map(contentId => this.moderationQueue.get(contentId))
-      .filter(result => result !== undefined) as ModerationResult[];
+  public async getReviewQueue(reviewerId: string): Promise<ReviewQueueItem[]> {
+    const { reputationLevel } = await this.getUserReputation(reviewerId);
+    const assignments = await this.repository.listAssignments(
+      reputationLevel === ReputationLevel.ADMIN ? undefined : reviewerId
+    );
+
+    const items = await Promise.all(assignments.map(async (assignment): Promise<ReviewQueueItem | null> => {
+      const result = await this.repository.getResult(assignment.contentId);
+      if (!result) return null;
+
+      const escalated = Boolean(result.metadata?.escalatedAt);
+      if (assignment.reviewerId !== reviewerId && !escalated) return null;
+
+      return {
+        ...result,
+        ...this.getSla(assignment.assignedAt),
+        assignedTo: assignment.reviewerId,
+        assignedAt: assignment.assignedAt,
+        escalated
+      };
+    }));
+
+    return items
+      .filter((item): item is ReviewQueueItem => item !== null)
+      .sort((a, b) => a.dueAt - b.dueAt);
+  }
+
+  /**
+   * Escalate reviews past the escalation threshold and hand overdue ones to
+   * another reviewer. Safe to run repeatedly (e.g. from a scheduler).
+   */
+  public async processReviewSla(): Promise<{ escalated: number; reassigned: number }> {
+    const summary = { escalated: 0, reassigned: 0 };
+
+    for (const assignment of await this.repository.listAssignments()) {
+      const { slaStatus } = this.getSla(assignment.assignedAt);
+      if (slaStatus === 'on_track') continue;
+
+      const result = await this.repository.getResult(assignment.contentId);
+      if (!result) continue;
+
+      if (!result.metadata?.escalatedAt) {
+        result.metadata = { ...result.metadata, escalatedAt: Date.now() };
+        await this.repository.saveResult(result);
+        summary.escalated++;
+
+        this.emit(ModerationEvent.REVIEW_ESCALATED, {
+          contentId: result.contentId,
+          reviewerId: assignment.reviewerId,
+          slaStatus
+        });
+      }
+
+      if (slaStatus === 'overdue') {
+        // The new reviewer gets a fresh SLA; admins keep seeing it as escalated
+        const reassigned = await this.assignToModerator(assignment.contentId, assignment.reviewerId);
+        if (reassigned) {
+          summary.reassigned++;
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * SLA position of a review or appeal that started at `startedAt`
+   */
+  private getSla(startedAt: number): ReviewSla {
+    const { reviewTimeoutHours, escalationThreshold } = this.config.humanModeration;
+    const timeoutMs = reviewTimeoutHours * 60 * 60 * 1000;
+    const elapsed = (Date.now() - startedAt) / timeoutMs;
+
+    let slaStatus: ReviewSlaStatus = 'on_track';
+    if (elapsed >= 1) {
+      slaStatus = 'overdue';
+    } else if (elapsed >= escalationThreshold) {
+      slaStatus = 'at_risk';
+    }
+
+    return { dueAt: startedAt + timeoutMs, slaStatus };
   }
 
   /**
@@ -778,36 +1019,34 @@ class ModerationService extends EventEmitter {
     reason?: ModerationReason,
     actionTaken?: ModerationActionType
   ): Promise<boolean> {
-    // Check if reviewer is assigned to this content
-    const assignments = this.reviewAssignments.get(reviewerId) || [];
-    if (!assignments.includes(contentId)) {
-      return false;
-    }
-
     // Get the moderation result
-    const result = this.moderationQueue.get(contentId);
+    const result = await this.repository.getResult(contentId);
     if (!result) {
       return false;
     }
 
+    // Check if reviewer is assigned to this content; admins may take over escalated reviews
+    const assignments = await this.repository.listAssignments(reviewerId);
+    if (!assignments.some(assignment => assignment.contentId === contentId)) {
+      const { reputationLevel } = await this.getUserReputation(reviewerId);
+      if (!result.metadata?.escalatedAt || reputationLevel !== ReputationLevel.ADMIN) {
+        return false;
+      }
+    }
+
     // Update the result
     result.status = approved ? ModerationStatus.APPROVED : ModerationStatus.REJECTED;
     result.reason = reason;
     result.actionTaken = actionTaken;
     result.moderatorId = reviewerId;
     result.timestamp = Date.now();
-
-    // Remove from queue
-    this.moderationQueue.delete(contentId);
+    await this.repository.saveResult(result);
 
     // Remove from reviewer's assignments
-    this.reviewAssignments.set(
-      reviewerId,
-      assignments.filter(id => id !== contentId)
-    );
+    await this.repository.unassignReview(contentId);
 
     // Get content owner
-    const ownerId = this.contentOwners.get(contentId);
+    const ownerId = result.ownerId;
     if (ownerId) {
       // Update user reputation
       if (approved) {
@@ -823,27 +1062,30 @@ class ModerationService extends EventEmitter {
     }
 
     // Update reports related to this content
-    for (const report of this.reportQueue.values()) {
-      if (report.contentId === contentId && report.status === ReportStatus.SUBMITTED) {
-        report.status = ReportStatus.RESOLVED;
-        report.reviewerId = reviewerId;
-        report.reviewTimestamp = Date.now();
-        report.actionTaken = actionTaken;
-        
-        // Update reporter reputation
-        if (report.reporterId) {
-          if (!approved) {
-            // Report was valid
-            await this.updateUserReputationForValidReport(report.reporterId);
-          } else {
-            // Report was invalid
-            await this.updateUserReputationForInvalidReport(report.reporterId);
-          }
+    const reports = await this.repository.listReports({
+      contentId,
+      statuses: [ReportStatus.SUBMITTED]
+    });
+    for (const report of reports) {
+      report.status = ReportStatus.RESOLVED;
+      report.reviewerId = reviewerId;
+      report.reviewTimestamp = Date.now();
+      report.actionTaken = actionTaken;
+      await this.repository.saveReport(report);
+      
+      // Update reporter reputation
+      if (report.reporterId) {
+        if (!approved) {
+          // Report was valid
+          await this.updateUserReputationForValidReport(report.reporterId);
+        } else {
+          // Report was invalid
+          await this.updateUserReputationForInvalidReport(report.reporterId);
         }
-        
-        // Emit event
-        this.emit(ModerationEvent.REPORT_RESOLVED, report);
       }
+      
+      // Emit event
+      this.emit(ModerationEvent.REPORT_RESOLVED, report);
     }
 
     // Emit event
@@ -887,13 +1129,14 @@ class ModerationService extends EventEmitter {
         break;
         
       case ModerationActionType.TEMPORARY_BAN:
-        // Add to blocked users temporarily
-        this.blockedUsers.add(userId);
-        
-        // Set timeout to unblock after 24 hours
-        setTimeout(() => {
-          this.blockedUsers.delete(userId);
-        }, 24 * 60 * 60 * 1000);
+        // Block for 24 hours
+        await this.repository.addSanction({
+          subject: userId,
+          type: 'user_block',
+          reason,
+          expiresAt: Date.now() + 24 * 60 * 60 * 1000,
+          createdAt: Date.now()
+        });
         
         this.emit(ModerationEvent.USER_BANNED, { 
           userId, 
@@ -903,8 +1146,13 @@ class ModerationService extends EventEmitter {
         break;
         
       case ModerationActionType.PERMANENT_BAN:
-        // Add to blocked users permanently
-        this.blockedUsers.add(userId);
+        // Block permanently
+        await this.repository.addSanction({
+          subject: userId,
+          type: 'user_block',
+          reason,
+          createdAt: Date.now()
+        });
         
         this.emit(ModerationEvent.USER_BANNED, { 
           userId, 
@@ -915,7 +1163,12 @@ class ModerationService extends EventEmitter {
         
       case ModerationActionType.SHADOW_BAN:
         if (this.config.safetyFeatures.shadowBanning) {
-          this.shadowBannedUsers.add(userId);
+          await this.repository.addSanction({
+            subject: userId,
+            type: 'shadow_ban',
+            reason,
+            createdAt: Date.now()
+          });
         }
         break;
         
@@ -930,30 +1183,62 @@ class ModerationService extends EventEmitter {
   }
 
   /**
-   * Submit an appeal for rejected content
+   * Why the user cannot appeal this content right now
+   * @returns null if an appeal would be accepted
    */
-  public async submitAppeal(
+  public async checkAppealEligibility(
     userId: string,
     contentId: string,
-    reason: string,
     evidence?: string
   ): Promise<string | null> {
     if (!this.config.appealProcess.enabled) {
-      return null;
+      return 'Appeals are disabled';
+    }
+
+    // Check if content was actually rejected
+    const result = await this.repository.getResult(contentId);
+    if (!result || result.ownerId !== userId) {
+      return 'Content not found';
+    }
+    if (result.status !== ModerationStatus.REJECTED) {
+      return 'Only rejected content can be appealed';
+    }
+
+    if (this.config.appealProcess.requireEvidence && !evidence?.trim()) {
+      return 'Evidence is required to appeal';
     }
 
     // Check if user has reached appeal limit
-    const userAppeals = Array.from(this.appealQueue.values())
-      .filter(appeal => appeal.userId === userId)
-      .length;
-    
-    if (userAppeals >= this.config.appealProcess.maxAppealsPerUser) {
-      return null;
+    const userAppeals = await this.repository.listAppeals({ userId });
+
+    if (userAppeals.length >= this.config.appealProcess.maxAppealsPerUser) {
+      return 'Appeal limit reached';
     }
 
-    // Check if content was actually rejected
-    const contentOwner = this.contentOwners.get(contentId);
-    if (contentOwner !== userId) {
+    if (userAppeals.some(appeal => appeal.contentId === contentId && appeal.status === 'pending')) {
+      return 'An appeal for this content is already pending';
+    }
+
+    const cooldownMs = this.config.appealProcess.cooldownPeriod * 60 * 60 * 1000;
+    const lastAppealAt = Math.max(0, ...userAppeals.map(appeal => appeal.timestamp));
+    if (Date.now() - lastAppealAt < cooldownMs) {
+      return `Appeals are limited to one every ${this.config.appealProcess.cooldownPeriod} hours`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Submit an appeal for rejected content
+   * @returns The appeal ID, or null if checkAppealEligibility rejects it
+   */
+  public async submitAppeal(
+    userId: string,
+    contentId: string,
+    reason: string,
+    evidence?: string
+  ): Promise<string | null> {
+    if (await this.checkAppealEligibility(userId, contentId, evidence)) {
       return null;
     }
 
@@ -961,7 +1246,8 @@ class ModerationService extends EventEmitter {
     const appealId = `appeal_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 
     // Create appeal
-    this.appealQueue.set(appealId, {
+    await this.repository.saveAppeal({
+      id: appealId,
       userId,
       contentId,
       reason,
@@ -981,30 +1267,66 @@ class ModerationService extends EventEmitter {
     return appealId;
   }
 
+  /**
+   * Get an appeal by ID
+   */
+  public async getAppeal(appealId: string): Promise<ModerationAppeal | null> {
+    return this.repository.getAppeal(appealId);
+  }
+
+  /**
+   * List appeals, e.g. a user's own history
+   */
+  public async listAppeals(filter?: AppealFilter): Promise<ModerationAppeal[]> {
+    return this.repository.listAppeals(filter);
+  }
+
+  /**
+   * Pending appeals with their SLA, most urgent first
+   */
+  public async getAppealQueue(): Promise<AppealQueueItem[]> {
+    const appeals = await this.repository.listAppeals({ statuses: ['pending'] });
+    return appeals
+      .map(appeal => ({ ...appeal, ...this.getSla(appeal.timestamp) }))
+      .sort((a, b) => a.dueAt - b.dueAt);
+  }
+
   /**
    * Resolve an appeal
+   * @returns false if the appeal is not pending, or the reviewer made the original decision
    */
   public async resolveAppeal(
     appealId: string,
     approved: boolean,
     reviewerId: string
   ): Promise<boolean> {
-    const appeal = this.appealQueue.get(appealId);
-    if (!appeal) {
+    const appeal = await this.repository.getAppeal(appealId);
+    if (!appeal || appeal.status !== 'pending') {
+      return false;
+    }
+
+    // An appeal needs a second pair of eyes
+    const existing = await this.repository.getResult(appeal.contentId);
+    if (existing?.moderatorId === reviewerId) {
       return false;
     }
 
     // Update appeal status
     appeal.status = approved ? 'approved' : 'rejected';
+    appeal.reviewerId = reviewerId;
+    appeal.resolvedAt = Date.now();
+    await this.repository.saveAppeal(appeal);
 
     // If approved, restore content
     if (approved) {
-      // Create new moderation result
-      const result = this.createModerationResult(
-        appeal.contentId,
-        ContentType.AUDIO, // Default to AUDIO if unknown
-        ModerationStatus.APPROVED
-      );
+      const result: ModerationResult = {
+        ...(existing || this.createModerationResult(appeal.contentId, ContentType.AUDIO, ModerationStatus.APPROVED)),
+        status: ModerationStatus.APPROVED,
+        moderatorId: reviewerId,
+        ownerId: appeal.userId,
+        timestamp: Date.now()
+      };
+      await this.repository.saveResult(result);
       
       // Emit event
       this.emit(ModerationEvent.CONTENT_APPROVED, result);
@@ -1044,10 +1366,8 @@ class ModerationService extends EventEmitter {
         return textResult.status !== ModerationStatus.REJECTED;
         
       case ContentType.AUDIO:
-        // For audio, we need to do async processing
-        // This is a simplified check that just returns true
-        // In a real implementation, this would analyze the audio
-        return true;
+        const audioResult = await this.analyzeAudio(contentId, content);
+        return !audioResult.hasInappropriateContent;
         
       case ContentType.IMAGE:
         // For images, we need to do async processing
@@ -1072,7 +1392,7 @@ class ModerationService extends EventEmitter {
     }
 
     // Check if user is blocked
-    if (this.blockedUsers.has(userId)) {
+    if (await this.repository.getSanction(userId, 'user_block')) {
       return { 
         allowed: false,
         reason: 'User is blocked from posting content'
@@ -1096,8 +1416,8 @@ class ModerationService extends EventEmitter {
   /**
    * Check if user is shadow banned
    */
-  public isShadowBanned(userId: string): boolean {
-    return this.shadowBannedUsers.has(userId);
+  public async isShadowBanned(userId: string): Promise<boolean> {
+    return (await this.repository.getSanction(userId, 'shadow_ban')) !== null;
   }
 
   /**
@@ -1105,12 +1425,13 @@ class ModerationService extends EventEmitter {
    */
   public async getUserReputation(userId: string): Promise<UserReputation> {
     // Check if we already have reputation data
-    if (this.userReputations.has(userId)) {
-      return this.userReputations.get(userId)!;
+    const existing = await this.repository.getReputation(userId);
+    if (existing) {
+      return existing;
     }
 
-    // Create new reputation record
-    const newReputation: UserReputation = {
+    // New users start with a default record, stored on first change
+    return {
       userId,
       reputationLevel: ReputationLevel.NEW,
       reputationScore: this.config.reputationSystem.initialScore,
@@ -1125,9 +1446,6 @@ class ModerationService extends EventEmitter {
         history: []
       }
     };
-
-    this.userReputations.set(userId, newReputation);
-    return newReputation;
   }
 
   /**
@@ -1148,6 +1466,7 @@ class ModerationService extends EventEmitter {
     
     // Update reputation level
     this.updateReputationLevel(reputation);
+    await this.repository.saveReputation(reputation);
     
     // Emit event
     this.emit(ModerationEvent.USER_REPUTATION_UPDATED, reputation);
@@ -1181,6 +1500,7 @@ class ModerationService extends EventEmitter {
     
     // Update reputation level
     this.updateReputationLevel(reputation);
+    await this.repository.saveReputation(reputation);
     
     // Emit event
     this.emit(ModerationEvent.USER_REPUTATION_UPDATED, reputation);
@@ -1204,6 +1524,7 @@ class ModerationService extends EventEmitter {
     
     // Update reputation level
     this.updateReputationLevel(reputation);
+    await this.repository.saveReputation(reputation);
     
     // Emit event
     this.emit(ModerationEvent.USER_REPUTATION_UPDATED, reputation);
@@ -1226,6 +1547,7 @@ class ModerationService extends EventEmitter {
     
     // Update reputation level
     this.updateReputationLevel(reputation);
+    await this.repository.saveReputation(reputation);
     
     // Emit event
     this.emit(ModerationEvent.USER_REPUTATION_UPDATED, reputation);
@@ -1287,86 +1609,169 @@ class ModerationService extends EventEmitter {
   /**
    * Queue content for audio moderation
    */
-  private queueForAudioModeration(contentId: string, content: string | ArrayBuffer | Blob): void {
-    // In a real implementation, this would send the audio to a processing service
+  private queueForAudioModeration(
+    contentId: string,
+    content: string | ArrayBuffer | Blob,
+    context?: AudioModerationContext
+  ): void {
+    this.moderateAudio(contentId, content, context).catch(error => {
+      console.error('Audio moderation error:', error);
+      this.emit(ModerationEvent.MODERATION_ERROR, {
+        contentId,
+        error
+      });
+    });
+  }
+
+  /**
+   * Run the audio pipeline and apply its verdict: confident blocking findings
+   * reject, uncertain ones flag for human review, clean pending audio is approved
+   * @throws Error if the recording cannot be fetched or the result cannot be saved
+   */
+  public async moderateAudio(
+    contentId: string,
+    content: string | ArrayBuffer | Blob,
+    context?: AudioModerationContext
+  ): Promise<AudioModerationResult> {
+    const result = await this.analyzeAudio(contentId, content, context);
+
+    const moderationResult = (await this.repository.getResult(contentId)) ||
+      this.createModerationResult(contentId, ContentType.AUDIO, ModerationStatus.PENDING);
+    const ownerId = moderationResult.ownerId;
+    moderationResult.timestamp = Date.now();
+    moderationResult.metadata = { ...moderationResult.metadata, audio: result };
+
+    const blockingIssue = result.detectedIssues
+      .filter(issue => !issue.check || !NON_BLOCKING_AUDIO_CHECKS.includes(issue.check))
+      .sort((a, b) => b.confidence - a.confidence)[0];
+
+    if (result.hasInappropriateContent && blockingIssue) {
+      moderationResult.status = ModerationStatus.REJECTED;
+      moderationResult.reason = blockingIssue.type;
+      moderationResult.confidence = blockingIssue.confidence;
+      await this.repository.saveResult(moderationResult);
+      // Nothing left for a reviewer to decide
+      await this.repository.unassignReview(contentId);
+
+      if (ownerId) {
+        await this.updateUserReputationForRejection(ownerId, blockingIssue.type);
+      }
+
+      this.emit(ModerationEvent.CONTENT_REJECTED, moderationResult);
+    } else if (blockingIssue) {
+      // Something looks off but not with enough confidence to reject
+      moderationResult.status = ModerationStatus.FLAGGED;
+      moderationResult.reason = blockingIssue.type;
+      moderationResult.confidence = blockingIssue.confidence;
+      moderationResult.reviewRequired = true;
+      await this.repository.saveResult(moderationResult);
+
+      const assigned = await this.assignToModerator(contentId);
+
+      this.emit(ModerationEvent.CONTENT_FLAGGED, assigned || moderationResult);
+    } else if (moderationResult.status === ModerationStatus.PENDING) {
+      moderationResult.status = ModerationStatus.APPROVED;
+      moderationResult.confidence = result.confidence;
+      await this.repository.saveResult(moderationResult);
+
+      if (ownerId) {
+        await this.updateUserReputationForApproval(ownerId);
+      }
+
+      this.emit(ModerationEvent.CONTENT_APPROVED, moderationResult);
+    } else {
+      // Already with a reviewer - keep the findings for them
+      await this.repository.saveResult(moderationResult);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the audio pipeline and map its findings onto moderation reasons
+   */
+  private async analyzeAudio(
+    contentId: string,
+    content: string | ArrayBuffer | Blob,
+    context?: AudioModerationContext
+  ): Promise<AudioModerationResult> {
+    const analysis = await this.audioPipeline.analyze({ audio: content, ...context });
+
+    const detectedIssues: AudioModerationResult['detectedIssues'] = analysis.issues.map(issue => ({
+      type: AUDIO_CHECK_REASONS[issue.check],
+      confidence: issue.confidence,
+      timestamp: issue.timestamp,
+      duration: issue.duration,
+      check: issue.check,
+      message: issue.message
+    }));
+
+    const transcriptIssues: NonNullable<AudioModerationResult['transcriptIssues']> = [];
+    if (this.config.safetyFeatures.wordFilters && this.wordFilterRegex) {
+      for (const segment of analysis.transcript) {
+        if (!this.wordFilterRegex.test(segment.text)) continue;
+
+        transcriptIssues.push({
+          text: segment.text,
+          type: AUDIO_CHECK_REASONS.speech,
+          confidence: segment.confidence,
+          startTime: segment.startTime,
+          endTime: segment.endTime
+        });
+        detectedIssues.push({
+          type: AUDIO_CHECK_REASONS.speech,
+          confidence: segment.confidence,
+          timestamp: segment.startTime,
+          duration: segment.endTime - segment.startTime,
+          check: 'speech',
+          message: 'Restricted language in transcript'
+        });
+      }
+    }
+
+    const blockingConfidence = Math.max(0, ...detectedIssues
+      .filter(issue => !issue.check || !NON_BLOCKING_AUDIO_CHECKS.includes(issue.check))
+      .map(issue => issue.confidence));
+
+    return {
+      contentId,
+      duration: analysis.duration,
+      hasInappropriateContent: blockingConfidence >= this.config.autoModeration.confidenceThreshold,
+      // Confidence in the verdict, either way
+      confidence: blockingConfidence > 0 ? blockingConfidence : 1,
+      detectedIssues,
+      transcriptIssues,
+      skippedChecks: analysis.skippedChecks
+    };
+  }
+
+  /**
+   * Queue content for image moderation
+   */
+  private queueForImageModeration(contentId: string, content: string | ArrayBuffer | Blob): void {
+    // In a real implementation, this would send the image to a processing service
     // For now, we'll simulate async processing with a timeout
     setTimeout(async () => {
       try {
-        // Simulate audio analysis
-        const result: AudioModerationResult = {
-          contentId,
-          duration: 60, // Simulated duration
-          hasInappropriateContent: false,
-          confidence: 0.95,
-          detectedIssues: []
-        };
-
-        // Update moderation result
-        const moderationResult = this.moderationQueue.get(contentId) || 
-          this.createModerationResult(contentId, ContentType.AUDIO, ModerationStatus.PENDING);
+        // Simulate image analysis (always approve in this simulation)
+        const moderationResult = (await this.repository.getResult(contentId)) ||
+          this.createModerationResult(contentId, ContentType.IMAGE, ModerationStatus.PENDING);
         
-        if (result.hasInappropriateContent) {
-          moderationResult.status = ModerationStatus.REJECTED;
-          moderationResult.reason = ModerationReason.INAPPROPRIATE_CONTENT;
-          moderationResult.confidence = result.confidence;
-          
-          // Get content owner
-          const ownerId = this.contentOwners.get(contentId);
-          if (ownerId) {
-            await this.updateUserReputationForRejection(
-              ownerId,
-              ModerationReason.INAPPROPRIATE_CONTENT
-            );
-          }
-          
-          // Emit event
-          this.emit(ModerationEvent.CONTENT_REJECTED, moderationResult);
-        } else {
-          // Content is appropriate, approve it
+        if (moderationResult.status === ModerationStatus.PENDING) {
           moderationResult.status = ModerationStatus.APPROVED;
-          
-          // Get content owner
-          const ownerId = this.contentOwners.get(contentId);
-          if (ownerId) {
-            await this.updateUserReputationForApproval(ownerId);
-          }
+          moderationResult.timestamp = Date.now();
+          await this.repository.saveResult(moderationResult);
           
           // Emit event
           this.emit(ModerationEvent.CONTENT_APPROVED, moderationResult);
         }
-        
-        // Remove from queue since processing is complete
-        this.moderationQueue.delete(contentId);
       } catch (error) {
-        console.error('Audio moderation error:', error);
+        console.error('Image moderation error:', error);
         this.emit(ModerationEvent.MODERATION_ERROR, {
           contentId,
           error
         });
       }
-    }, 2000); // Simulate 2 second processing time
-  }
-
-  /**
-   * Queue content for image moderation
-   */
-  private queueForImageModeration(contentId: string, content: string | ArrayBuffer | Blob): void {
-    // In a real implementation, this would send the image to a processing service
-    // For now, we'll simulate async processing with a timeout
-    setTimeout(() => {
-      // Simulate image analysis (always approve in this simulation)
-      const moderationResult = this.moderationQueue.get(contentId) ||
-        this.createModerationResult(contentId, ContentType.IMAGE, ModerationStatus.PENDING);
-      
-      if (moderationResult.status === ModerationStatus.PENDING) {
-        moderationResult.status = ModerationStatus.APPROVED;
-        
-        // Emit event
-        this.emit(ModerationEvent.CONTENT_APPROVED, moderationResult);
-        
-        // Remove from queue
-        this.moderationQueue.delete(contentId);
-      }
     }, 1000); // Simulate 1 second processing time
   }
 
@@ -1445,17 +1850,18 @@ class ModerationService extends EventEmitter {
         const confidence = 0.8 + (Math.random() * 0.15); // 0.8 to 0.95
         
         // Get or create moderation result
-        const moderationResult = this.moderationQueue.get(item.contentId) ||
+        const moderationResult = (await this.repository.getResult(item.contentId)) ||
           this.createModerationResult(item.contentId, item.contentType, ModerationStatus.PENDING);
+        const ownerId = moderationResult.ownerId;
+        moderationResult.timestamp = Date.now();
         
         if (isInappropriate && confidence > this.config.autoModeration.confidenceThreshold) {
           // Content is inappropriate with high confidence
           moderationResult.status = ModerationStatus.REJECTED;
           moderationResult.reason = ModerationReason.INAPPROPRIATE_CONTENT;
           moderationResult.confidence = confidence;
+          await this.repository.saveResult(moderationResult);
           
-          // Get content owner
-          const ownerId = this.contentOwners.get(item.contentId);
           if (ownerId) {
             await this.updateUserReputationForRejection(
               ownerId,
@@ -1465,9 +1871,6 @@ class ModerationService extends EventEmitter {
           
           // Emit event
           this.emit(ModerationEvent.CONTENT_REJECTED, moderationResult);
-          
-          // Remove from queue
-          this.moderationQueue.delete(item.contentId);
         } else if (isInappropriate) {
           // Content might be inappropriate but confidence is low
           // Flag for human review
@@ -1475,31 +1878,25 @@ class ModerationService extends EventEmitter {
           moderationResult.reason = ModerationReason.INAPPROPRIATE_CONTENT;
           moderationResult.confidence = confidence;
           moderationResult.reviewRequired = true;
-          
-          // Update queue
-          this.moderationQueue.set(item.contentId, moderationResult);
+          await this.repository.saveResult(moderationResult);
           
           // Assign to human moderator
-          this.assignToModerator(item.contentId);
+          const assigned = await this.assignToModerator(item.contentId);
           
           // Emit event
-          this.emit(ModerationEvent.CONTENT_FLAGGED, moderationResult);
+          this.emit(ModerationEvent.CONTENT_FLAGGED, assigned || moderationResult);
         } else if (moderationResult.status === ModerationStatus.PENDING) {
           // Content is appropriate
           moderationResult.status = ModerationStatus.APPROVED;
           moderationResult.confidence = confidence;
+          await this.repository.saveResult(moderationResult);
           
-          // Get content owner
-          const ownerId = this.contentOwners.get(item.contentId);
           if (ownerId) {
             await this.updateUserReputationForApproval(ownerId);
           }
           
           // Emit event
           this.emit(ModerationEvent.CONTENT_APPROVED, moderationResult);
-          
-          // Remove from queue
-          this.moderationQueue.delete(item.contentId);
         }
       }
     } catch (error) {
@@ -1535,6 +1932,15 @@ class ModerationService extends EventEmitter {
     };
   }
 
+  /**
+   * Store a result against the user who submitted the content
+   */
+  private async recordResult(result: ModerationResult, ownerId: string): Promise<ModerationResult> {
+    const recorded = { ...result, ownerId };
+    await this.repository.saveResult(recorded);
+    return recorded;
+  }
+
   /**
    * Compile word filter regex
    */
@@ -1552,68 +1958,60 @@ class ModerationService extends EventEmitter {
     this.wordFilterRegex = new RegExp(`\\b(${pattern})\\b`, 'i');
   }
 
-  /**
-   * Load stored moderation data
-   */
-  private async loadStoredData(): Promise<void> {
-    // In a real implementation, this would load data from a database
-    // For now, we'll just initialize empty collections
-    
-    this.moderationQueue = new Map();
-    this.reportQueue = new Map();
-    this.userReputations = new Map();
-    this.reviewers = new Set();
-    this.reviewAssignments = new Map();
-    this.contentOwners = new Map();
-    this.blockedUsers = new Set();
-    this.shadowBannedUsers = new Set();
-    this.blockedIps = new Set();
-  }
-
   /**
    * Get moderation status for content
    */
-  public getModerationStatus(contentId: string): ModerationStatus {
-    const result = this.moderationQueue.get(contentId);
+  public async getModerationStatus(contentId: string): Promise<ModerationStatus> {
+    const result = await this.repository.getResult(contentId);
     return result ? result.status : ModerationStatus.APPROVED;
   }
 
   /**
    * Check if content is approved
    */
-  public isContentApproved(contentId: string): boolean {
-    const status = this.getModerationStatus(contentId);
+  public async isContentApproved(contentId: string): Promise<boolean> {
+    const status = await this.getModerationStatus(contentId);
     return status === ModerationStatus.APPROVED || status === ModerationStatus.AUTO_APPROVED;
   }
 
   /**
    * Get reports for content
    */
-  public getReportsForContent(contentId: string): ContentReport[] {
-    return Array.from(this.reportQueue.values())
-      .filter(report => report.contentId === contentId);
+  public async getReportsForContent(contentId: string): Promise<ContentReport[]> {
+    return this.repository.listReports({ contentId });
+  }
+
+  /**
+   * List reports across all content, e.g. the open ones for the reviewer console
+   */
+  public async listReports(filter?: ReportFilter): Promise<ContentReport[]> {
+    return this.repository.listReports(filter);
   }
 
   /**
    * Block an IP address
    */
-  public blockIpAddress(ip: string): void {
+  public async blockIpAddress(ip: string): Promise<void> {
     if (this.config.safetyFeatures.ipBlocking) {
-      this.blockedIps.add(ip);
+      await this.repository.addSanction({
+        subject: ip,
+        type: 'ip_block',
+        createdAt: Date.now()
+      });
     }
   }
 
   /**
    * Check if IP is blocked
    */
-  public isIpBlocked(ip: string): boolean {
-    return this.blockedIps.has(ip);
+  public async isIpBlocked(ip: string): Promise<boolean> {
+    return (await this.repository.getSanction(ip, 'ip_block')) !== null;
   }
 
   /**
    * Get moderation statistics
    */
-  public getModerationStats(): {
+  public async getModerationStats(): Promise<{
     pendingModeration: number;
     approvedContent: number;
     rejectedContent: number;
@@ -1622,53 +2020,24 @@ class ModerationService extends EventEmitter {
     resolvedReports: number;
     blockedUsers: number;
     shadowBannedUsers: number;
-  } {
-    // Count moderation results by status
-    let pendingModeration = 0;
-    let approvedContent = 0;
-    let rejectedContent = 0;
-    let flaggedContent = 0;
-    
-    for (const result of this.moderationQueue.values()) {
-      switch (result.status) {
-        case ModerationStatus.PENDING:
-          pendingModeration++;
-          break;
-        case ModerationStatus.APPROVED:
-        case ModerationStatus.AUTO_APPROVED:
-          approvedContent++;
-          break;
-        case ModerationStatus.REJECTED:
-          rejectedContent++;
-          break;
-        case ModerationStatus.FLAGGED:
-        case ModerationStatus.UNDER_REVIEW:
-          flaggedContent++;
-          break;
-      }
-    }
-    
-    // Count reports by status
-    let pendingReports = 0;
-    let resolvedReports = 0;
-    
-    for (const report of this.reportQueue.values()) {
-      if (report.status === ReportStatus.SUBMITTED || report.status === ReportStatus.UNDER_REVIEW) {
-        pendingReports++;
-      } else {
-        resolvedReports++;
-      }
-    }
-    
+  }> {
+    const [resultCounts, reportCounts, blockedUsers, shadowBannedUsers] = await Promise.all([
+      this.repository.countResultsByStatus(),
+      this.repository.countReportsByStatus(),
+      this.repository.countSanctions('user_block'),
+      this.repository.countSanctions('shadow_ban')
+    ]);
+    const count = (value?: number) => value || 0;
+
     return {
-      pendingModeration,
-      approvedContent,
-      rejectedContent,
-      flaggedContent,
-      pendingReports,
-      resolvedReports,
-      blockedUsers: this.blockedUsers.size,
-      shadowBannedUsers: this.shadowBannedUsers.size
+      pendingModeration: count(resultCounts[ModerationStatus.PENDING]),
+      approvedContent: count(resultCounts[ModerationStatus.APPROVED]) + count(resultCounts[ModerationStatus.AUTO_APPROVED]),
+      rejectedContent: count(resultCounts[ModerationStatus.REJECTED]),
+      flaggedContent: count(resultCounts[ModerationStatus.FLAGGED]) + count(resultCounts[ModerationStatus.UNDER_REVIEW]),
+      pendingReports: count(reportCounts[ReportStatus.SUBMITTED]) + count(reportCounts[ReportStatus.UNDER_REVIEW]),
+      resolvedReports: count(reportCounts[ReportStatus.RESOLVED]) + count(reportCounts[ReportStatus.REJECTED]),
+      blockedUsers,
+      shadowBannedUsers
     };
   }
 
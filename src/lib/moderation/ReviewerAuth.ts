@@ -0,0 +1,66 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { moderationService } from './ModerationService';
+
+const DEFAULT_TOKEN_TTL_HOURS = 12;
+
+/**
+ * Issue a bearer token for the reviewer console, signed with MODERATION_TOKEN_SECRET.
+ * Tokens only identify the reviewer; privileges are re-checked on every request.
+ * @throws Error if MODERATION_TOKEN_SECRET is not configured
+ */
+export function issueReviewerToken(
+  reviewerId: string,
+  ttlHours: number = DEFAULT_TOKEN_TTL_HOURS
+): { token: string; expiresAt: number } {
+  const secret = getSecret();
+  if (!secret) {
+    throw new Error('MODERATION_TOKEN_SECRET is not configured');
+  }
+
+  const expiresAt = Date.now() + ttlHours * 60 * 60 * 1000;
+  const payload = Buffer.from(JSON.stringify({ sub: reviewerId, exp: expiresAt })).toString('base64url');
+  return { token: `${payload}.${sign(payload, secret)}`, expiresAt };
+}
+
+/**
+ * Resolve the reviewer behind `Authorization: Bearer <token>`.
+ * @returns The reviewer ID, or null if the token is invalid or expired, or the
+ * user is no longer a registered reviewer at ReputationLevel.MODERATOR or above
+ */
+export async function authenticateReviewer(request: Request): Promise<string | null> {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const provided = Buffer.from(signature);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return null;
+  }
+
+  let claims: { sub?: unknown; exp?: unknown };
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number' || claims.exp < Date.now()) {
+    return null;
+  }
+
+  await moderationService.init();
+  return (await moderationService.isActiveReviewer(claims.sub)) ? claims.sub : null;
+}
+
+function getSecret(): string | undefined {
+  return process.env.MODERATION_TOKEN_SECRET;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
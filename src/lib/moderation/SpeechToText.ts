@@ -0,0 +1,110 @@
+/**
+ * Speech-to-text providers for audio moderation.
+ * The pipeline only needs timed transcript segments; which engine produces
+ * them is pluggable. The offline provider returns a fixed transcript, so
+ * moderation runs without network access (tests, local development).
+ */
+
+import { PcmBuffer } from '@/lib/audio/PcmDecoder';
+
+export interface TranscriptSegment {
+  text: string;
+  startTime: number; // Seconds
+  endTime: number; // Seconds
+  confidence: number; // 0-1
+}
+
+export interface SpeechToTextInput {
+  data: ArrayBuffer | null; // Encoded recording as uploaded
+  mimeType: string | null;
+  pcm: PcmBuffer | null; // Decoded mono PCM, when the runtime could decode it
+}
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+  /**
+   * @throws Error if transcription fails
+   */
+  transcribe(input: SpeechToTextInput): Promise<TranscriptSegment[]>;
+}
+
+/**
+ * Returns a canned transcript (empty by default) without touching the network
+ */
+export class OfflineSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'offline';
+
+  constructor(
+    private transcript: TranscriptSegment[] | ((input: SpeechToTextInput) => TranscriptSegment[]) = []
+  ) {}
+
+  async transcribe(input: SpeechToTextInput): Promise<TranscriptSegment[]> {
+    const segments = typeof this.transcript === 'function' ? this.transcript(input) : this.transcript;
+    return segments.map(segment => ({ ...segment }));
+  }
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3'
+};
+
+/**
+ * OpenAI Whisper (or any endpoint speaking the same transcription API)
+ */
+export class WhisperSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'whisper';
+  private apiKey: string;
+  private endpoint: string;
+  private model: string;
+
+  constructor(options: { apiKey: string; endpoint?: string; model?: string }) {
+    this.apiKey = options.apiKey;
+    this.endpoint = options.endpoint || 'https://api.openai.com/v1/audio/transcriptions';
+    this.model = options.model || 'whisper-1';
+  }
+
+  async transcribe(input: SpeechToTextInput): Promise<TranscriptSegment[]> {
+    if (!input.data) {
+      throw new Error('Whisper transcription needs the encoded recording');
+    }
+
+    const mimeType = input.mimeType || 'audio/webm';
+    const form = new FormData();
+    form.append('file', new Blob([input.data], { type: mimeType }), `recording.${FILE_EXTENSIONS[mimeType] || 'webm'}`);
+    form.append('model', this.model);
+    form.append('response_format', 'verbose_json');
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`
+      },
+      body: form
+    });
+
+    if (!response.ok) {
+      throw new Error(`Transcription failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return (data.segments || []).map((segment: any) => ({
+      text: String(segment.text || '').trim(),
+      startTime: Number(segment.start) || 0,
+      endTime: Number(segment.end) || 0,
+      // Mean token probability, discounted by Whisper's own no-speech estimate
+      confidence: Math.exp(Number(segment.avg_logprob) || 0) * (1 - (Number(segment.no_speech_prob) || 0))
+    }));
+  }
+}
+
+/**
+ * Whisper when OPENAI_API_KEY is set on the server, otherwise the offline stub
+ */
+export function createSpeechToTextProvider(): SpeechToTextProvider {
+  const apiKey = typeof window === 'undefined' ? process.env.OPENAI_API_KEY : undefined;
+  return apiKey ? new WhisperSpeechToTextProvider({ apiKey }) : new OfflineSpeechToTextProvider();
+}
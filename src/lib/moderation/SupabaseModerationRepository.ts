@@ -0,0 +1,422 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import type {
+  ContentReport,
+  ContentType,
+  ModerationActionType,
+  ModerationAppeal,
+  ModerationReason,
+  ModerationResult,
+  ModerationStatus,
+  ReportStatus,
+  ReputationLevel,
+  UserReputation
+} from './ModerationService';
+import {
+  AppealFilter,
+  ModerationRepository,
+  ModerationSanction,
+  ReportFilter,
+  ReviewAssignment,
+  SanctionType
+} from './ModerationRepository';
+
+const toIso = (timestamp: number) => new Date(timestamp).toISOString();
+const toMillis = (iso: string) => new Date(iso).getTime();
+
+function toResult(row: Tables<'moderation_results'>): ModerationResult {
+  return {
+    contentId: row.content_id,
+    contentType: row.content_type as ContentType,
+    status: row.status as ModerationStatus,
+    ownerId: row.owner_id ?? undefined,
+    reason: (row.reason ?? undefined) as ModerationReason | undefined,
+    confidence: row.confidence ?? undefined,
+    reviewRequired: row.review_required,
+    moderatorId: row.moderator_id ?? undefined,
+    actionTaken: (row.action_taken ?? undefined) as ModerationActionType | undefined,
+    metadata: row.metadata as Record<string, any>,
+    timestamp: toMillis(row.updated_at)
+  };
+}
+
+function toReport(row: Tables<'moderation_reports'>): ContentReport {
+  return {
+    id: row.id,
+    contentId: row.content_id,
+    contentType: row.content_type as ContentType,
+    reporterId: row.reporter_id,
+    reporterReputationLevel: row.reporter_reputation_level as ReputationLevel,
+    reason: row.reason as ModerationReason,
+    details: row.details ?? undefined,
+    status: row.status as ReportStatus,
+    timestamp: toMillis(row.created_at),
+    reviewerId: row.reviewer_id ?? undefined,
+    reviewTimestamp: row.reviewed_at ? toMillis(row.reviewed_at) : undefined,
+    actionTaken: (row.action_taken ?? undefined) as ModerationActionType | undefined
+  };
+}
+
+function toReputation(row: Tables<'user_reputations'>): UserReputation {
+  return {
+    userId: row.user_id,
+    reputationLevel: row.reputation_level as ReputationLevel,
+    reputationScore: Number(row.reputation_score),
+    contentSubmitted: row.content_submitted,
+    contentApproved: row.content_approved,
+    contentRejected: row.content_rejected,
+    reportsSubmitted: row.reports_submitted,
+    reportsValidated: row.reports_validated,
+    lastUpdated: toMillis(row.updated_at),
+    verificationStatus: (row.verification ?? undefined) as UserReputation['verificationStatus'],
+    strikes: {
+      count: row.strike_count,
+      history: row.strike_history as UserReputation['strikes']['history']
+    }
+  };
+}
+
+function toAppeal(row: Tables<'moderation_appeals'>): ModerationAppeal {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    contentId: row.content_id,
+    reason: row.reason,
+    evidence: row.evidence ?? undefined,
+    timestamp: toMillis(row.created_at),
+    status: row.status as ModerationAppeal['status'],
+    reviewerId: row.reviewer_id ?? undefined,
+    resolvedAt: row.resolved_at ? toMillis(row.resolved_at) : undefined
+  };
+}
+
+function toSanction(row: Tables<'moderation_sanctions'>): ModerationSanction {
+  return {
+    subject: row.subject,
+    type: row.sanction_type as SanctionType,
+    reason: row.reason ?? undefined,
+    expiresAt: row.expires_at ? toMillis(row.expires_at) : undefined,
+    createdAt: toMillis(row.created_at)
+  };
+}
+
+function toCounts<T extends string>(rows: Array<{ status: string; count: number }> | null): Partial<Record<T, number>> {
+  const counts: Partial<Record<T, number>> = {};
+  for (const row of rows || []) {
+    counts[row.status as T] = row.count;
+  }
+  return counts;
+}
+
+/**
+ * Moderation state in Supabase (see src/lib/database/moderation-schema.sql).
+ * Writes need the service role key, so this runs server-side only.
+ */
+export class SupabaseModerationRepository implements ModerationRepository {
+  async getResult(contentId: string): Promise<ModerationResult | null> {
+    const { data, error } = await supabase
+      .from('moderation_results')
+      .select('*')
+      .eq('content_id', contentId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get moderation result: ${error.message}`);
+    return data ? toResult(data) : null;
+  }
+
+  async saveResult(result: ModerationResult): Promise<void> {
+    const row: TablesInsert<'moderation_results'> = {
+      content_id: result.contentId,
+      content_type: result.contentType,
+      status: result.status,
+      owner_id: result.ownerId ?? null,
+      reason: result.reason ?? null,
+      confidence: result.confidence ?? null,
+      review_required: result.reviewRequired ?? false,
+      moderator_id: result.moderatorId ?? null,
+      action_taken: result.actionTaken ?? null,
+      metadata: (result.metadata || {}) as Json,
+      updated_at: toIso(result.timestamp)
+    };
+
+    const { error } = await supabase
+      .from('moderation_results')
+      .upsert(row, { onConflict: 'content_id' });
+
+    if (error) throw new Error(`Failed to save moderation result: ${error.message}`);
+  }
+
+  async listResults(statuses?: ModerationStatus[]): Promise<ModerationResult[]> {
+    let query = supabase
+      .from('moderation_results')
+      .select('*')
+      .order('updated_at', { ascending: true });
+
+    if (statuses) {
+      query = query.in('status', statuses);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw new Error(`Failed to list moderation results: ${error.message}`);
+    return (data || []).map(toResult);
+  }
+
+  async countResultsByStatus(): Promise<Partial<Record<ModerationStatus, number>>> {
+    const { data, error } = await supabase
+      .from('moderation_result_counts')
+      .select('*');
+
+    if (error) throw new Error(`Failed to count moderation results: ${error.message}`);
+    return toCounts<ModerationStatus>(data);
+  }
+
+  async saveReport(report: ContentReport): Promise<void> {
+    const { error } = await supabase
+      .from('moderation_reports')
+      .upsert({
+        id: report.id,
+        content_id: report.contentId,
+        content_type: report.contentType,
+        reporter_id: report.reporterId,
+        reporter_reputation_level: report.reporterReputationLevel,
+        reason: report.reason,
+        details: report.details ?? null,
+        status: report.status,
+        reviewer_id: report.reviewerId ?? null,
+        reviewed_at: report.reviewTimestamp ? toIso(report.reviewTimestamp) : null,
+        action_taken: report.actionTaken ?? null,
+        created_at: toIso(report.timestamp)
+      }, { onConflict: 'id' });
+
+    if (error) throw new Error(`Failed to save report: ${error.message}`);
+  }
+
+  async listReports(filter: ReportFilter = {}): Promise<ContentReport[]> {
+    let query = supabase
+      .from('moderation_reports')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (filter.contentId) {
+      query = query.eq('content_id', filter.contentId);
+    }
+    if (filter.statuses) {
+      query = query.in('status', filter.statuses);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw new Error(`Failed to list reports: ${error.message}`);
+    return (data || []).map(toReport);
+  }
+
+  async countReportsByStatus(): Promise<Partial<Record<ReportStatus, number>>> {
+    const { data, error } = await supabase
+      .from('moderation_report_counts')
+      .select('*');
+
+    if (error) throw new Error(`Failed to count reports: ${error.message}`);
+    return toCounts<ReportStatus>(data);
+  }
+
+  async getReputation(userId: string): Promise<UserReputation | null> {
+    const { data, error } = await supabase
+      .from('user_reputations')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get user reputation: ${error.message}`);
+    return data ? toReputation(data) : null;
+  }
+
+  async saveReputation(reputation: UserReputation): Promise<void> {
+    const { error } = await supabase
+      .from('user_reputations')
+      .upsert({
+        user_id: reputation.userId,
+        reputation_level: reputation.reputationLevel,
+        reputation_score: reputation.reputationScore,
+        content_submitted: reputation.contentSubmitted,
+        content_approved: reputation.contentApproved,
+        content_rejected: reputation.contentRejected,
+        reports_submitted: reputation.reportsSubmitted,
+        reports_validated: reputation.reportsValidated,
+        verification: (reputation.verificationStatus ?? null) as Json,
+        strike_count: reputation.strikes.count,
+        strike_history: reputation.strikes.history as unknown as Json,
+        updated_at: toIso(reputation.lastUpdated)
+      }, { onConflict: 'user_id' });
+
+    if (error) throw new Error(`Failed to save user reputation: ${error.message}`);
+  }
+
+  async listReviewers(): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('moderation_reviewers')
+      .select('user_id')
+      .order('registered_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to list reviewers: ${error.message}`);
+    return (data || []).map(row => row.user_id);
+  }
+
+  async addReviewer(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('moderation_reviewers')
+      .upsert({ user_id: userId }, { onConflict: 'user_id', ignoreDuplicates: true });
+
+    if (error) throw new Error(`Failed to add reviewer: ${error.message}`);
+  }
+
+  async removeReviewer(userId: string): Promise<void> {
+    // Assignments cascade
+    const { error } = await supabase
+      .from('moderation_reviewers')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) throw new Error(`Failed to remove reviewer: ${error.message}`);
+  }
+
+  async assignReview(contentId: string, reviewerId: string): Promise<void> {
+    const { error } = await supabase
+      .from('moderation_review_assignments')
+      .upsert({
+        content_id: contentId,
+        reviewer_id: reviewerId,
+        assigned_at: new Date().toISOString()
+      }, { onConflict: 'content_id' });
+
+    if (error) throw new Error(`Failed to assign review: ${error.message}`);
+  }
+
+  async unassignReview(contentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('moderation_review_assignments')
+      .delete()
+      .eq('content_id', contentId);
+
+    if (error) throw new Error(`Failed to unassign review: ${error.message}`);
+  }
+
+  async listAssignments(reviewerId?: string): Promise<ReviewAssignment[]> {
+    let query = supabase
+      .from('moderation_review_assignments')
+      .select('*')
+      .order('assigned_at', { ascending: true });
+
+    if (reviewerId) {
+      query = query.eq('reviewer_id', reviewerId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw new Error(`Failed to list review assignments: ${error.message}`);
+    return (data || []).map(row => ({
+      contentId: row.content_id,
+      reviewerId: row.reviewer_id,
+      assignedAt: toMillis(row.assigned_at)
+    }));
+  }
+
+  async getAppeal(appealId: string): Promise<ModerationAppeal | null> {
+    const { data, error } = await supabase
+      .from('moderation_appeals')
+      .select('*')
+      .eq('id', appealId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get appeal: ${error.message}`);
+    return data ? toAppeal(data) : null;
+  }
+
+  async saveAppeal(appeal: ModerationAppeal): Promise<void> {
+    const { error } = await supabase
+      .from('moderation_appeals')
+      .upsert({
+        id: appeal.id,
+        user_id: appeal.userId,
+        content_id: appeal.contentId,
+        reason: appeal.reason,
+        evidence: appeal.evidence ?? null,
+        status: appeal.status,
+        reviewer_id: appeal.reviewerId ?? null,
+        resolved_at: appeal.resolvedAt ? toIso(appeal.resolvedAt) : null,
+        created_at: toIso(appeal.timestamp)
+      }, { onConflict: 'id' });
+
+    if (error) throw new Error(`Failed to save appeal: ${error.message}`);
+  }
+
+  async listAppeals(filter: AppealFilter = {}): Promise<ModerationAppeal[]> {
+    let query = supabase
+      .from('moderation_appeals')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (filter.userId) {
+      query = query.eq('user_id', filter.userId);
+    }
+    if (filter.contentId) {
+      query = query.eq('content_id', filter.contentId);
+    }
+    if (filter.statuses) {
+      query = query.in('status', filter.statuses);
+    }
+
+    const { data, error } = await query;
+
+    if (error) throw new Error(`Failed to list appeals: ${error.message}`);
+    return (data || []).map(toAppeal);
+  }
+
+  async addSanction(sanction: ModerationSanction): Promise<void> {
+    const { error } = await supabase
+      .from('moderation_sanctions')
+      .upsert({
+        subject: sanction.subject,
+        sanction_type: sanction.type,
+        reason: sanction.reason ?? null,
+        expires_at: sanction.expiresAt ? toIso(sanction.expiresAt) : null,
+        created_at: toIso(sanction.createdAt)
+      }, { onConflict: 'subject,sanction_type' });
+
+    if (error) throw new Error(`Failed to add sanction: ${error.message}`);
+  }
+
+  async removeSanction(subject: string, type: SanctionType): Promise<void> {
+    const { error } = await supabase
+      .from('moderation_sanctions')
+      .delete()
+      .eq('subject', subject)
+      .eq('sanction_type', type);
+
+    if (error) throw new Error(`Failed to remove sanction: ${error.message}`);
+  }
+
+  async getSanction(subject: string, type: SanctionType): Promise<ModerationSanction | null> {
+    const { data, error } = await supabase
+      .from('moderation_sanctions')
+      .select('*')
+      .eq('subject', subject)
+      .eq('sanction_type', type)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to get sanction: ${error.message}`);
+    return data ? toSanction(data) : null;
+  }
+
+  async countSanctions(type: SanctionType): Promise<number> {
+    const { count, error } = await supabase
+      .from('moderation_sanctions')
+      .select('*', { count: 'exact', head: true })
+      .eq('sanction_type', type)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+
+    if (error) throw new Error(`Failed to count sanctions: ${error.message}`);
+    return count || 0;
+  }
+}
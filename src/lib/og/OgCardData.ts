@@ -0,0 +1,125 @@
+/**
+ * OG Card Data
+ * Loads what each /api/og/* card draws. Only stored data goes in, so an ID
+ * renders the same image until its challenge, ratings or author change.
+ */
+
+import { databaseService, ChallengeResultRow } from '@/lib/database/DatabaseService';
+import { coldStartContentService } from '@/lib/coldstart/ColdStartContentService';
+import { isSeedPerformanceId } from '@/lib/coldstart/SeedBlending';
+import { profileHydrationService } from '@/lib/profile/ProfileHydrationService';
+import {
+  transformChallengeResultToRealityCheck,
+  transformSeedPerformanceToRealityCheck
+} from '@/lib/database/transformers';
+import type { RealityCheckResult } from '@/lib/zora/types';
+import type { ChallengeCardProps, CoinCardProps, LeaderboardCardProps, RealityRevealCardProps } from './OgCards';
+
+export const LEADERBOARD_PAGE_SIZE = 5;
+
+const FALLBACK_AUTHOR_NAME = 'A GIGAVIBE singer';
+
+export async function getChallengeCardProps(challengeId: string): Promise<ChallengeCardProps | null> {
+  const row = await databaseService.getChallengeById(challengeId);
+  if (!row) return null;
+
+  return {
+    title: row.title,
+    artist: row.artist,
+    difficulty: row.difficulty,
+    bpm: row.bpm,
+    musicalKey: row.musical_key,
+    durationSeconds: row.duration,
+    tags: row.tags
+  };
+}
+
+/**
+ * A challenge result, or a seed performance (seeds share the feed's result links)
+ */
+export async function getRealityRevealCardProps(resultId: string): Promise<RealityRevealCardProps | null> {
+  if (isSeedPerformanceId(resultId)) {
+    const seed = coldStartContentService.getSeedPerformance(resultId);
+    if (!seed) return null;
+
+    const performance = transformSeedPerformanceToRealityCheck(seed);
+    return {
+      ...revealBase(performance),
+      communityRating: seed.communityRating ?? null,
+      ratingCount: 0,
+      gap: seed.gap ?? null
+    };
+  }
+
+  const row = await databaseService.getChallengeResultById(resultId);
+  if (!row) return null;
+
+  const [performance] = await profileHydrationService.hydrate([transformChallengeResultToRealityCheck(row)]);
+  return { ...revealBase(performance), ...storedRatings(row) };
+}
+
+export async function getCoinCardProps(coinAddress: string): Promise<CoinCardProps | null> {
+  const row = await databaseService.getChallengeResultByCoinAddress(coinAddress);
+  if (!row || !row.coin_address) return null;
+
+  const [performance] = await profileHydrationService.hydrate([transformChallengeResultToRealityCheck(row)]);
+  const { communityRating, ratingCount } = storedRatings(row);
+  return {
+    coinAddress: row.coin_address,
+    challengeTitle: performance.challengeTitle,
+    authorName: authorName(performance),
+    selfRating: performance.selfRating,
+    communityRating,
+    ratingCount,
+    category: performance.category
+  };
+}
+
+/**
+ * One page of a challenge's leaderboard (pages start at 0)
+ */
+export async function getLeaderboardCardProps(challengeId: string, page: number): Promise<LeaderboardCardProps | null> {
+  const challenge = await databaseService.getChallengeById(challengeId);
+  if (!challenge) return null;
+
+  const rows = await databaseService.getChallengeLeaderboard(challengeId, LEADERBOARD_PAGE_SIZE, page * LEADERBOARD_PAGE_SIZE);
+  const names = await profileHydrationService.getDisplayNames(
+    rows.map(row => row.user_fid).filter((fid): fid is number => !!fid)
+  );
+
+  return {
+    challengeTitle: challenge.title,
+    entries: rows.map(row => ({
+      rank: row.rank,
+      name: (row.user_fid && names.get(row.user_fid)) || FALLBACK_AUTHOR_NAME,
+      communityRating: row.community_rating !== null ? Number(row.community_rating) : null,
+      gap: row.gap !== null ? Number(row.gap) : null
+    }))
+  };
+}
+
+function revealBase(performance: RealityCheckResult) {
+  return {
+    challengeTitle: performance.challengeTitle,
+    authorName: authorName(performance),
+    selfRating: performance.selfRating,
+    category: performance.category,
+    commentary: performance.wittyCommentary
+  };
+}
+
+/**
+ * The transformers turn "not rated yet" into 0; the cards say so instead.
+ * DECIMAL columns can come back from PostgREST as strings.
+ */
+function storedRatings(row: ChallengeResultRow) {
+  return {
+    communityRating: row.community_rating !== null ? Number(row.community_rating) : null,
+    ratingCount: row.community_rating_count ?? 0,
+    gap: row.gap !== null ? Number(row.gap) : null
+  };
+}
+
+function authorName(performance: RealityCheckResult): string {
+  return performance.farcasterData?.authorDisplayName || FALLBACK_AUTHOR_NAME;
+}
@@ -0,0 +1,268 @@
+/**
+ * OG Cards
+ * The layouts behind the /api/og/* images, rendered to PNG by next/og.
+ * Satori lays these out, so every element with more than one child is a
+ * flex container and all styling is inline. Cards only draw the props they
+ * are given - the same props always give the same image.
+ */
+
+import type { ReactElement, ReactNode } from 'react';
+import type { RealityCheckResult } from '@/lib/zora/types';
+
+// 1.91:1, what Farcaster frames and Open Graph previews expect
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+export interface ChallengeCardProps {
+  title: string;
+  artist: string;
+  difficulty: string;
+  bpm: number | null;
+  musicalKey: string | null;
+  durationSeconds: number | null;
+  tags: string[];
+}
+
+export interface RealityRevealCardProps {
+  challengeTitle: string;
+  authorName: string;
+  selfRating: number;
+  communityRating: number | null; // null until the community has voted
+  ratingCount: number;
+  gap: number | null;
+  category: RealityCheckResult['category'];
+  commentary: string;
+}
+
+export interface CoinCardProps {
+  coinAddress: string;
+  challengeTitle: string;
+  authorName: string;
+  selfRating: number;
+  communityRating: number | null;
+  ratingCount: number;
+  category: RealityCheckResult['category'];
+}
+
+export interface LeaderboardCardProps {
+  challengeTitle: string;
+  entries: Array<{
+    rank: number;
+    name: string;
+    communityRating: number | null;
+    gap: number | null;
+  }>;
+}
+
+const COLORS = {
+  background: '#0f0a1e',
+  pink: '#ec4899',
+  text: '#ffffff',
+  muted: '#c4b5fd',
+  panel: 'rgba(255, 255, 255, 0.08)'
+};
+
+const CATEGORY_LABELS: Record<RealityCheckResult['category'], string> = {
+  quality: 'Quality',
+  legendary: 'Legendary',
+  comedy: 'Comedy Gold',
+  diva: 'Diva',
+  baritone: 'Baritone'
+};
+
+/**
+ * The same verdicts RealityReveal shows after a performance
+ */
+export function realityVerdict(gap: number | null): string {
+  if (gap === null) return 'Awaiting the community';
+  if (gap >= 2) return 'Overconfident';
+  if (gap <= -2) return 'Underrated';
+  if (Math.abs(gap) <= 0.5) return 'Spot on';
+  return 'Close call';
+}
+
+export function ChallengeCard(props: ChallengeCardProps): ReactElement {
+  const details = [
+    props.difficulty,
+    props.bpm ? `${props.bpm} BPM` : null,
+    props.musicalKey ? `Key of ${props.musicalKey}` : null,
+    props.durationSeconds ? formatDuration(props.durationSeconds) : null
+  ].filter((detail): detail is string => !!detail);
+
+  return (
+    <Frame eyebrow="Vocal Challenge">
+      <div style={{ display: 'flex', flexDirection: 'column', flexGrow: 1, justifyContent: 'center' }}>
+        <div style={{ fontSize: 76, fontWeight: 700, lineHeight: 1.1 }}>{truncate(props.title, 48)}</div>
+        <div style={{ fontSize: 40, color: COLORS.muted, marginTop: 16 }}>{truncate(props.artist, 60)}</div>
+        <div style={{ display: 'flex', marginTop: 40 }}>
+          {details.map(detail => <Chip key={detail} label={detail} />)}
+          {props.tags.slice(0, 3).map(tag => <Chip key={`#${tag}`} label={`#${tag}`} muted />)}
+        </div>
+      </div>
+      <div style={{ fontSize: 32, color: COLORS.muted }}>Think you can hit it? Sing it on GIGAVIBE.</div>
+    </Frame>
+  );
+}
+
+export function RealityRevealCard(props: RealityRevealCardProps): ReactElement {
+  return (
+    <Frame eyebrow="Reality Reveal">
+      <div style={{ display: 'flex', flexDirection: 'column' }}>
+        <div style={{ fontSize: 52, fontWeight: 700 }}>{truncate(props.challengeTitle, 40)}</div>
+        <div style={{ fontSize: 30, color: COLORS.muted, marginTop: 8 }}>
+          {`by ${truncate(props.authorName, 40)} - ${CATEGORY_LABELS[props.category]}`}
+        </div>
+      </div>
+      <div style={{ display: 'flex', flexGrow: 1, alignItems: 'center', marginTop: 24 }}>
+        <Score label="Thought they scored" value={formatRating(props.selfRating)} />
+        <Score
+          label={props.ratingCount > 0 ? `Community (${props.ratingCount} ${props.ratingCount === 1 ? 'vote' : 'votes'})` : 'Community'}
+          value={props.communityRating !== null ? formatRating(props.communityRating) : '?'}
+        />
+        <Score
+          label={realityVerdict(props.gap)}
+          value={props.gap !== null ? `${props.gap > 0 ? '+' : ''}${formatRating(props.gap)}` : '...'}
+          highlight
+        />
+      </div>
+      <div style={{ fontSize: 32, color: COLORS.muted }}>{truncate(props.commentary, 90)}</div>
+    </Frame>
+  );
+}
+
+export function CoinCard(props: CoinCardProps): ReactElement {
+  return (
+    <Frame eyebrow="Performance Coin">
+      <div style={{ display: 'flex', flexDirection: 'column', flexGrow: 1, justifyContent: 'center' }}>
+        <div style={{ fontSize: 64, fontWeight: 700 }}>{truncate(props.challengeTitle, 40)}</div>
+        <div style={{ fontSize: 34, color: COLORS.muted, marginTop: 12 }}>
+          {`by ${truncate(props.authorName, 40)} - ${CATEGORY_LABELS[props.category]}`}
+        </div>
+        <div style={{ display: 'flex', marginTop: 40 }}>
+          <Chip label={`Self ${formatRating(props.selfRating)}`} />
+          <Chip
+            label={props.communityRating !== null
+              ? `Community ${formatRating(props.communityRating)} from ${props.ratingCount}`
+              : 'Awaiting community votes'}
+          />
+        </div>
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 30, color: COLORS.muted }}>
+        <div>Trade it on Zora</div>
+        <div>{`${props.coinAddress.slice(0, 6)}...${props.coinAddress.slice(-4)}`}</div>
+      </div>
+    </Frame>
+  );
+}
+
+export function LeaderboardCard(props: LeaderboardCardProps): ReactElement {
+  return (
+    <Frame eyebrow="Leaderboard">
+      <div style={{ fontSize: 48, fontWeight: 700 }}>{truncate(props.challengeTitle, 44)}</div>
+      <div style={{ display: 'flex', flexDirection: 'column', flexGrow: 1, justifyContent: 'center', marginTop: 16 }}>
+        {props.entries.length === 0 && (
+          <div style={{ fontSize: 40, color: COLORS.muted }}>No rated performances yet. Be the first.</div>
+        )}
+        {props.entries.map(entry => (
+          <div
+            key={entry.rank}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              fontSize: 34,
+              padding: '12px 24px',
+              marginBottom: 10,
+              borderRadius: 20,
+              backgroundColor: COLORS.panel
+            }}
+          >
+            <div style={{ width: 100, color: COLORS.pink, fontWeight: 700 }}>{`#${entry.rank}`}</div>
+            <div style={{ flexGrow: 1 }}>{truncate(entry.name, 30)}</div>
+            <div style={{ width: 180 }}>
+              {entry.communityRating !== null ? `${formatRating(entry.communityRating)}/5` : 'unrated'}
+            </div>
+            <div style={{ width: 180, color: COLORS.muted }}>
+              {entry.gap !== null ? `gap ${entry.gap > 0 ? '+' : ''}${formatRating(entry.gap)}` : ''}
+            </div>
+          </div>
+        ))}
+      </div>
+    </Frame>
+  );
+}
+
+function Frame({ eyebrow, children }: { eyebrow: string; children: ReactNode }): ReactElement {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        width: '100%',
+        height: '100%',
+        padding: 64,
+        color: COLORS.text,
+        backgroundColor: COLORS.background,
+        backgroundImage: `linear-gradient(135deg, ${COLORS.background} 0%, #2e1065 60%, #831843 100%)`
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 28, letterSpacing: 4 }}>
+        <div style={{ color: COLORS.pink, fontWeight: 700 }}>GIGAVIBE</div>
+        <div style={{ color: COLORS.muted }}>{eyebrow.toUpperCase()}</div>
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', flexGrow: 1, marginTop: 32 }}>
+        {children}
+      </div>
+    </div>
+  );
+}
+
+function Chip({ label, muted = false }: { label: string; muted?: boolean }): ReactElement {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        fontSize: 28,
+        padding: '10px 24px',
+        marginRight: 16,
+        borderRadius: 999,
+        backgroundColor: muted ? COLORS.panel : 'rgba(168, 85, 247, 0.35)',
+        color: muted ? COLORS.muted : COLORS.text
+      }}
+    >
+      {label}
+    </div>
+  );
+}
+
+function Score({ label, value, highlight = false }: { label: string; value: string; highlight?: boolean }): ReactElement {
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        flexGrow: 1,
+        flexBasis: 0,
+        alignItems: 'center',
+        padding: 28,
+        marginRight: 24,
+        borderRadius: 32,
+        backgroundColor: highlight ? 'rgba(236, 72, 153, 0.3)' : COLORS.panel
+      }}
+    >
+      <div style={{ fontSize: 96, fontWeight: 700 }}>{value}</div>
+      <div style={{ fontSize: 26, color: COLORS.muted, marginTop: 8 }}>{label}</div>
+    </div>
+  );
+}
+
+function formatRating(rating: number): string {
+  return Number.isInteger(rating) ? String(rating) : rating.toFixed(1);
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
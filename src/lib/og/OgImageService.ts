@@ -0,0 +1,73 @@
+/**
+ * OG Image Service
+ * Renders the /api/og/* cards to PNG and caches them. An image's ETag is a
+ * hash of the props it was drawn from, so one ID and one set of data always
+ * give the same bytes: CDNs and Farcaster can cache it, and a changed rating
+ * gives a new ETag.
+ */
+
+import { createHash } from 'crypto';
+import type { ReactElement } from 'react';
+import { ImageResponse } from 'next/og';
+import { OG_IMAGE_SIZE } from './OgCards';
+
+// Bump when a card layout changes, so cached images are redrawn
+const CARD_VERSION = 1;
+const MAX_CACHED_IMAGES = 200;
+
+const CACHE_CONTROL = 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800';
+
+class OgImageService {
+  private static instance: OgImageService;
+  // Insertion-ordered, so the first key is the least recently used
+  private images = new Map<string, { etag: string; png: ArrayBuffer }>();
+
+  static getInstance(): OgImageService {
+    if (!OgImageService.instance) {
+      OgImageService.instance = new OgImageService();
+    }
+    return OgImageService.instance;
+  }
+
+  /**
+   * Respond with the PNG for `key`, drawing it only if `props` changed since
+   * it was last drawn. Answers 304 when the client already has it.
+   */
+  async respond<P extends object>(
+    request: Request,
+    key: string,
+    props: P,
+    card: (props: P) => ReactElement
+  ): Promise<Response> {
+    const etag = `"${createHash('sha256').update(JSON.stringify({ version: CARD_VERSION, key, props })).digest('hex').slice(0, 32)}"`;
+    const headers = {
+      'Content-Type': 'image/png',
+      'Cache-Control': CACHE_CONTROL,
+      ETag: etag
+    };
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    let cached = this.images.get(key);
+    if (!cached || cached.etag !== etag) {
+      const png = await new ImageResponse(card(props), OG_IMAGE_SIZE).arrayBuffer();
+      cached = { etag, png };
+    }
+    this.remember(key, cached);
+
+    return new Response(cached.png, { headers });
+  }
+
+  private remember(key: string, image: { etag: string; png: ArrayBuffer }) {
+    this.images.delete(key);
+    this.images.set(key, image);
+
+    if (this.images.size > MAX_CACHED_IMAGES) {
+      this.images.delete(this.images.keys().next().value!);
+    }
+  }
+}
+
+export const ogImageService = OgImageService.getInstance();
@@ -0,0 +1,14 @@
+/**
+ * OG Image URLs
+ * Where the shareable card images for challenges, Reality Reveal results,
+ * performance coins and challenge leaderboards live (see /api/og/*).
+ * Farcaster needs absolute URLs.
+ */
+
+export type OgImageKind = 'challenge' | 'result' | 'coin' | 'leaderboard';
+
+export function ogImageUrl(kind: OgImageKind, id: string, params?: Record<string, string>): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://gigavibe.app';
+  const query = params ? `?${new URLSearchParams(params)}` : '';
+  return `${baseUrl}/api/og/${kind}/${encodeURIComponent(id)}${query}`;
+}
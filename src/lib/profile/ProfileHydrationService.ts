@@ -0,0 +1,261 @@
+/**
+ * Profile Hydration Service
+ * Fills in the author of every feed item on a page with a real profile
+ * instead of the `user<fid>` placeholder the transformers produce. All
+ * authors on a page are resolved together: FIDs in one Farcaster bulk
+ * request, wallets through Farcaster's address lookup and then ProfileResolver
+ * (web3bio, ensdata). Results are cached in profile_cache. When the upstream
+ * services are slow or down, expired cache entries and then the placeholders
+ * are served instead.
+ */
+
+import { zeroAddress } from 'viem';
+import { databaseService } from '@/lib/database/DatabaseService';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import type { RealityCheckResult } from '@/lib/zora/types';
+import { farcasterService, FarcasterUser } from '@/services/FarcasterService';
+import { profileResolver } from './resolver';
+
+const PROFILE_TTL_MS = 24 * 60 * 60 * 1000;
+// Someone may set up a profile soon; check again sooner
+const MISSING_PROFILE_TTL_MS = 60 * 60 * 1000;
+// A feed page is not held up longer than this; late lookups still get cached
+const UPSTREAM_BUDGET_MS = 2500;
+const FIDS_PER_REQUEST = 100;
+
+type CacheEntry = TablesInsert<'profile_cache'>;
+
+class ProfileHydrationService {
+  private static instance: ProfileHydrationService;
+
+  static getInstance(): ProfileHydrationService {
+    if (!ProfileHydrationService.instance) {
+      ProfileHydrationService.instance = new ProfileHydrationService();
+    }
+    return ProfileHydrationService.instance;
+  }
+
+  /**
+   * Replace placeholder authors with resolved profiles. Never throws; items
+   * whose author cannot be resolved keep their placeholder.
+   */
+  async hydrate(performances: RealityCheckResult[]): Promise<RealityCheckResult[]> {
+    // Seed authors are curated, not looked up
+    const keys = [...new Set(
+      performances
+        .filter(performance => !performance.seed)
+        .map(authorKey)
+        .filter((key): key is string => key !== null)
+    )];
+    if (keys.length === 0) return performances;
+
+    const profiles = await this.getProfiles(keys);
+
+    return performances.map(performance => {
+      const key = performance.seed ? null : authorKey(performance);
+      const profile = key ? profiles.get(key) : undefined;
+      return applyProfile(performance, profile);
+    });
+  }
+
+  /**
+   * Display names for FIDs, for lists that are not feed items (e.g. frame
+   * leaderboards). FIDs without a resolved profile are left out.
+   */
+  async getDisplayNames(fids: number[]): Promise<Map<number, string>> {
+    const keys = [...new Set(fids.filter(fid => fid > 0))].map(fid => `fid:${fid}`);
+    const names = new Map<number, string>();
+    if (keys.length === 0) return names;
+
+    for (const profile of (await this.getProfiles(keys)).values()) {
+      const name = profile.display_name || profile.username;
+      if (profile.fid && name) names.set(profile.fid, name);
+    }
+    return names;
+  }
+
+  /**
+   * Cached profiles for `keys`, refreshing expired ones within the upstream budget
+   */
+  private async getProfiles(keys: string[]): Promise<Map<string, CacheEntry>> {
+    const profiles = new Map<string, CacheEntry>();
+    try {
+      for (const row of await databaseService.getProfileCacheEntries(keys)) {
+        profiles.set(row.key, row);
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to read profile cache:', error);
+    }
+
+    const now = Date.now();
+    const stale = keys.filter(key => {
+      const cached = profiles.get(key);
+      return !cached || new Date(cached.expires_at).getTime() <= now;
+    });
+
+    if (stale.length > 0) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const resolved = await Promise.race([
+        this.resolve(stale),
+        new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), UPSTREAM_BUDGET_MS); })
+      ]);
+      clearTimeout(timer);
+
+      if (resolved) {
+        resolved.forEach(entry => profiles.set(entry.key, entry));
+      } else {
+        console.warn(`⚠️ Profile lookups for ${stale.length} authors are slow, serving cached profiles`);
+      }
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Look up profiles upstream and cache what was found. Keys whose lookup
+   * failed are left out, so their old cache entry keeps being served.
+   */
+  private async resolve(keys: string[]): Promise<CacheEntry[]> {
+    const fids = keys.filter(key => key.startsWith('fid:')).map(key => Number(key.slice(4)));
+    const addresses = keys.filter(key => key.startsWith('address:')).map(key => key.slice(8));
+
+    const [fidEntries, addressEntries] = await Promise.all([
+      this.resolveFids(fids),
+      this.resolveAddresses(addresses)
+    ]);
+    const entries = [...fidEntries, ...addressEntries];
+
+    try {
+      await databaseService.upsertProfileCacheEntries(entries);
+    } catch (error) {
+      console.warn('⚠️ Failed to cache profiles:', error);
+    }
+
+    return entries;
+  }
+
+  private async resolveFids(fids: number[]): Promise<CacheEntry[]> {
+    const entries: CacheEntry[] = [];
+
+    for (let i = 0; i < fids.length; i += FIDS_PER_REQUEST) {
+      const batch = fids.slice(i, i + FIDS_PER_REQUEST);
+      try {
+        const users = new Map((await farcasterService.getUsersByFids(batch)).map(user => [user.fid, user] as const));
+        for (const fid of batch) {
+          const user = users.get(fid);
+          entries.push(user ? fromFarcasterUser(`fid:${fid}`, user) : missing(`fid:${fid}`));
+        }
+      } catch (error) {
+        console.warn('⚠️ Farcaster profile lookup failed:', error);
+      }
+    }
+
+    return entries;
+  }
+
+  private async resolveAddresses(addresses: string[]): Promise<CacheEntry[]> {
+    if (addresses.length === 0) return [];
+
+    let farcasterUsers = new Map<string, FarcasterUser>();
+    let farcasterFailed = false;
+    try {
+      farcasterUsers = await farcasterService.getUsersByAddresses(addresses);
+    } catch (error) {
+      // ProfileResolver can still name the wallet
+      console.warn('⚠️ Farcaster address lookup failed:', error);
+      farcasterFailed = true;
+    }
+
+    const entries: CacheEntry[] = [];
+    const withoutFarcaster: string[] = [];
+    for (const address of addresses) {
+      const user = farcasterUsers.get(address);
+      if (user) {
+        entries.push(fromFarcasterUser(`address:${address}`, user));
+      } else {
+        withoutFarcaster.push(address);
+      }
+    }
+
+    const resolved = await profileResolver.batchResolve(withoutFarcaster);
+    withoutFarcaster.forEach((address, index) => {
+      const profile = resolved[index];
+      // 'fallback' means neither web3bio nor ensdata knew the wallet
+      if (!profile || profile.source === 'fallback') {
+        // Without Farcaster's answer we cannot say the wallet has no profile
+        if (!farcasterFailed) entries.push(missing(`address:${address}`));
+        return;
+      }
+      entries.push({
+        key: `address:${address}`,
+        fid: null,
+        username: profile.primaryDomain,
+        display_name: profile.displayName,
+        pfp_url: profile.avatar,
+        source: profile.source,
+        fetched_at: new Date().toISOString(),
+        expires_at: new Date(Date.now() + PROFILE_TTL_MS).toISOString()
+      });
+    });
+
+    return entries;
+  }
+}
+
+function authorKey(performance: RealityCheckResult): string | null {
+  const fid = performance.farcasterData?.authorFid;
+  if (fid && fid > 0) return `fid:${fid}`;
+  if (performance.userAddress && performance.userAddress !== zeroAddress) {
+    return `address:${performance.userAddress.toLowerCase()}`;
+  }
+  return null;
+}
+
+function fromFarcasterUser(key: string, user: FarcasterUser): CacheEntry {
+  return {
+    key,
+    fid: user.fid,
+    username: user.username,
+    display_name: user.displayName,
+    pfp_url: user.pfpUrl || null,
+    source: 'farcaster',
+    fetched_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + PROFILE_TTL_MS).toISOString()
+  };
+}
+
+function missing(key: string): CacheEntry {
+  return {
+    key,
+    source: 'none',
+    fetched_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + MISSING_PROFILE_TTL_MS).toISOString()
+  };
+}
+
+function applyProfile(performance: RealityCheckResult, profile: CacheEntry | undefined): RealityCheckResult {
+  const author = performance.farcasterData;
+  if (!author) return performance;
+
+  if (!profile || profile.source === 'none') {
+    // A wallet reads better than "User 0"
+    if (!author.authorFid && performance.userAddress && performance.userAddress !== zeroAddress) {
+      const short = `${performance.userAddress.substring(0, 6)}...${performance.userAddress.substring(38)}`;
+      return { ...performance, farcasterData: { ...author, authorUsername: short, authorDisplayName: short } };
+    }
+    return performance;
+  }
+
+  return {
+    ...performance,
+    farcasterData: {
+      ...author,
+      authorFid: profile.fid ?? author.authorFid,
+      authorUsername: profile.username || author.authorUsername,
+      authorDisplayName: profile.display_name || profile.username || author.authorDisplayName,
+      authorPfp: profile.pfp_url || author.authorPfp
+    }
+  };
+}
+
+export const profileHydrationService = ProfileHydrationService.getInstance();
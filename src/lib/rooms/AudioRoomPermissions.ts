@@ -0,0 +1,162 @@
+/**
+ * Audio Room Permissions
+ * Who may moderate whom, and who may send audio. Roles live on the server;
+ * a client's idea of its own role is never trusted. Pure functions -
+ * AudioRoomService does the I/O.
+ */
+
+import type { AudioRoomParticipantRow, AudioRoomRow } from '@/lib/database/DatabaseService';
+import type { RoomModerationAction, RoomSettings } from '@/lib/audio/MobileAudioStreamingService';
+import { canModerate } from './AudioRoomRules';
+
+export interface ModerationRequest {
+  action: RoomModerationAction;
+  targetFid?: number;
+  reason?: string;
+}
+
+/**
+ * What the moderation system allows a Farcaster user to do in rooms
+ */
+export interface SpeakingRights {
+  canJoin: boolean;
+  canSpeak: boolean;
+  reason?: string;
+}
+
+export const ROOM_MODERATION_ACTIONS: RoomModerationAction[] = ['mute', 'unmute', 'kick', 'promote', 'demote', 'lock', 'unlock', 'end'];
+
+const TARGETED_ACTIONS: RoomModerationAction[] = ['mute', 'unmute', 'kick', 'promote', 'demote'];
+const HOST_ONLY_ACTIONS: RoomModerationAction[] = ['promote', 'demote', 'end'];
+
+type Denial = { error: string; status: number };
+
+/**
+ * Blocked users (see ModerationService.canUserPostContent) stay out of rooms;
+ * shadow-banned users may listen but are never heard
+ */
+export function toSpeakingRights(posting: { allowed: boolean; reason?: string }, shadowBanned: boolean): SpeakingRights {
+  if (!posting.allowed) {
+    return { canJoin: false, canSpeak: false, reason: posting.reason };
+  }
+  return { canJoin: true, canSpeak: !shadowBanned };
+}
+
+export function isTargetedAction(action: RoomModerationAction): boolean {
+  return TARGETED_ACTIONS.includes(action);
+}
+
+/**
+ * @returns Error messages, empty if valid
+ */
+export function validateModerationRequest(input: unknown): string[] {
+  if (!input || typeof input !== 'object') {
+    return ['Request must be an object'];
+  }
+
+  const errors: string[] = [];
+  const request = input as Record<string, unknown>;
+
+  if (!ROOM_MODERATION_ACTIONS.includes(request.action as RoomModerationAction)) {
+    errors.push(`action must be one of: ${ROOM_MODERATION_ACTIONS.join(', ')}`);
+  } else if (isTargetedAction(request.action as RoomModerationAction) &&
+             (!Number.isInteger(request.targetFid) || (request.targetFid as number) <= 0)) {
+    errors.push(`targetFid is required to ${request.action}`);
+  }
+  if (request.reason !== undefined && (typeof request.reason !== 'string' || request.reason.length > 500)) {
+    errors.push('reason must be at most 500 characters');
+  }
+
+  return errors;
+}
+
+/**
+ * Hosts can do anything to anyone but themselves; moderators can mute, kick
+ * and lock, but not touch the host or each other.
+ * @returns Why the action is not allowed, or null if it is
+ */
+export function authorizeModeration(
+  action: RoomModerationAction,
+  room: AudioRoomRow,
+  actor: AudioRoomParticipantRow | null,
+  target: AudioRoomParticipantRow | null
+): Denial | null {
+  if (room.ended_at) {
+    return { error: 'Room has ended', status: 410 };
+  }
+  if (!actor || !canModerate(actor)) {
+    return { error: 'Only hosts and moderators can moderate this room', status: 403 };
+  }
+  if (HOST_ONLY_ACTIONS.includes(action) && actor.role !== 'host') {
+    return { error: `Only the host can ${action}`, status: 403 };
+  }
+
+  if (!isTargetedAction(action)) {
+    return null;
+  }
+
+  if (!target || target.status !== 'joined') {
+    return { error: 'Participant is not in the room', status: 404 };
+  }
+  if (target.fid === actor.fid) {
+    return { error: `You cannot ${action} yourself`, status: 400 };
+  }
+  if (target.role === 'host') {
+    return { error: 'The host cannot be moderated', status: 403 };
+  }
+  if (actor.role === 'moderator' && target.role === 'moderator') {
+    return { error: 'Moderators cannot moderate each other', status: 403 };
+  }
+  if (action === 'promote' && target.role === 'moderator') {
+    return { error: 'Participant is already a moderator', status: 409 };
+  }
+  if (action === 'demote' && target.role !== 'moderator') {
+    return { error: 'Participant is not a moderator', status: 409 };
+  }
+
+  return null;
+}
+
+/**
+ * @returns Why the participant may not unmute, or null if they may
+ */
+export function authorizeUnmute(
+  participant: AudioRoomParticipantRow,
+  rights: SpeakingRights,
+  settings: RoomSettings,
+  byModerator: boolean = false
+): Denial | null {
+  if (!rights.canSpeak) {
+    return { error: 'This participant cannot speak in audio rooms', status: 403 };
+  }
+  if (!byModerator && participant.muted_by !== null && participant.muted_by !== participant.fid) {
+    return { error: 'A host or moderator muted you', status: 403 };
+  }
+  if (!settings.allowParticipantAudio && participant.role === 'participant') {
+    return { error: 'Only hosts and moderators can speak in this room', status: 403 };
+  }
+  return null;
+}
+
+export function canSendAudio(participant: AudioRoomParticipantRow, rights: SpeakingRights, settings: RoomSettings): boolean {
+  return rights.canSpeak &&
+    !participant.is_muted &&
+    (settings.allowParticipantAudio || participant.role !== 'participant');
+}
+
+/**
+ * Whether a session description offers to send audio. Audio sections are
+ * sendrecv unless they say otherwise; a zero port disables the section.
+ */
+export function sdpSendsAudio(sdp: string): boolean {
+  const sections = sdp.split(/\r?\nm=/).slice(1);
+
+  return sections.some(section => {
+    const [mediaLine] = section.split(/\r?\n/);
+    const [media, port] = mediaLine.split(' ');
+    if (media !== 'audio' || port === '0') return false;
+
+    const direction = section.match(/\r?\na=(sendrecv|sendonly|recvonly|inactive)\b/);
+    return !direction || direction[1] === 'sendrecv' || direction[1] === 'sendonly';
+  });
+}
@@ -0,0 +1,274 @@
+/**
+ * Audio Room Rules
+ * Admission, presence and signal validation for social audio rooms, and the
+ * mapping from room rows to the AudioRoom shape the client works with.
+ * Pure functions - AudioRoomService does the I/O.
+ */
+
+import type { AudioRoomParticipantRow, AudioRoomRow } from '@/lib/database/DatabaseService';
+import type { AudioRoom, RoomParticipant, RoomSettings } from '@/lib/audio/MobileAudioStreamingService';
+
+export type PeerSignalType = 'offer' | 'answer' | 'ice-candidate';
+
+export type RoomEventType =
+  | PeerSignalType
+  | 'participant-joined'
+  | 'participant-left'
+  | 'participant-updated'
+  | 'join-requested'
+  | 'join-approved'
+  | 'join-rejected'
+  | 'room-updated'
+  | 'room-ended';
+
+/**
+ * What each participant's event stream delivers
+ */
+export interface RoomEvent {
+  id: number;
+  type: RoomEventType;
+  from: number | null;
+  payload: any;
+}
+
+export interface RoomInput {
+  name: string;
+  description?: string;
+  maxParticipants?: number;
+  settings?: Partial<RoomSettings>;
+}
+
+export interface ParticipantProfile {
+  fid: number;
+  username?: string;
+  displayName?: string;
+  pfpUrl?: string;
+}
+
+export interface PeerSignal {
+  to: number;
+  type: PeerSignalType;
+  payload: any;
+}
+
+export type JoinDecision =
+  | { action: 'admit' }
+  | { action: 'request' }
+  | { error: string; status: number };
+
+export const PEER_SIGNAL_TYPES: PeerSignalType[] = ['offer', 'answer', 'ice-candidate'];
+
+export const DEFAULT_MAX_PARTICIPANTS = 12;
+export const MAX_ROOM_PARTICIPANTS = 50;
+
+// A joined participant whose stream has been silent this long has gone
+export const PRESENCE_TIMEOUT_MS = 45 * 1000;
+
+const MAX_SDP_LENGTH = 100 * 1000;
+
+export const DEFAULT_ROOM_SETTINGS: RoomSettings = {
+  allowParticipantAudio: true,
+  requireApprovalToJoin: false,
+  maxAudioQuality: 'high',
+  enableReactions: true,
+  enableChat: true,
+  autoMuteNewJoiners: false
+};
+
+export function generateRoomId(): string {
+  return `room-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+export function toRoomSettings(value: unknown): RoomSettings {
+  return { ...DEFAULT_ROOM_SETTINGS, ...((value as Partial<RoomSettings> | null) || {}) };
+}
+
+/**
+ * Hosts and moderators let people in, and moderate the room
+ */
+export function canModerate(participant: AudioRoomParticipantRow | null): boolean {
+  return participant?.status === 'joined' && (participant.role === 'host' || participant.role === 'moderator');
+}
+
+/**
+ * Decide what a join request does. Capacity is checked again atomically when
+ * the participant is admitted.
+ * @param joinedCount Joined participants other than this one
+ */
+export function decideJoin(
+  room: AudioRoomRow,
+  existing: AudioRoomParticipantRow | null,
+  joinedCount: number,
+  fid: number
+): JoinDecision {
+  if (room.ended_at) {
+    return { error: 'Room has ended', status: 410 };
+  }
+  if (existing?.status === 'rejected') {
+    return { error: 'Your request to join was declined', status: 403 };
+  }
+  if (existing?.status === 'kicked') {
+    return { error: 'You were removed from this room', status: 403 };
+  }
+
+  // Reconnecting never needs approval again
+  const isReturning = existing?.status === 'joined';
+  if (!isReturning && fid !== room.host_fid && room.locked) {
+    return { error: 'Room is locked', status: 403 };
+  }
+  if (!isReturning && fid !== room.host_fid && toRoomSettings(room.settings).requireApprovalToJoin) {
+    return { action: 'request' };
+  }
+
+  if (!isReturning && joinedCount >= room.max_participants) {
+    return { error: 'Room is at maximum capacity', status: 409 };
+  }
+
+  return { action: 'admit' };
+}
+
+export function isParticipantStale(participant: AudioRoomParticipantRow, now: Date = new Date()): boolean {
+  return participant.status === 'joined' &&
+    now.getTime() - new Date(participant.last_active).getTime() > PRESENCE_TIMEOUT_MS;
+}
+
+/**
+ * @returns Error messages, empty if valid
+ */
+export function validateRoomInput(input: unknown): string[] {
+  if (!input || typeof input !== 'object') {
+    return ['Room must be an object'];
+  }
+
+  const errors: string[] = [];
+  const room = input as Record<string, unknown>;
+
+  if (typeof room.name !== 'string' || room.name.trim().length === 0 || room.name.length > 100) {
+    errors.push('name must be 1-100 characters');
+  }
+  if (room.description !== undefined && (typeof room.description !== 'string' || room.description.length > 500)) {
+    errors.push('description must be at most 500 characters');
+  }
+  if (room.maxParticipants !== undefined &&
+      !(Number.isInteger(room.maxParticipants) &&
+        (room.maxParticipants as number) >= 2 &&
+        (room.maxParticipants as number) <= MAX_ROOM_PARTICIPANTS)) {
+    errors.push(`maxParticipants must be between 2 and ${MAX_ROOM_PARTICIPANTS}`);
+  }
+
+  if (room.settings !== undefined) {
+    if (!room.settings || typeof room.settings !== 'object') {
+      errors.push('settings must be an object');
+    } else {
+      const settings = room.settings as Record<string, unknown>;
+      for (const [key, value] of Object.entries(settings)) {
+        if (key === 'maxAudioQuality') {
+          if (!['low', 'medium', 'high'].includes(value as string)) {
+            errors.push('settings.maxAudioQuality must be low, medium or high');
+          }
+        } else if (!(key in DEFAULT_ROOM_SETTINGS)) {
+          errors.push(`Unknown setting: ${key}`);
+        } else if (typeof value !== 'boolean') {
+          errors.push(`settings.${key} must be a boolean`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * @returns Error messages, empty if valid
+ */
+export function validateParticipantProfile(input: unknown): string[] {
+  if (!input || typeof input !== 'object') {
+    return ['Participant must be an object'];
+  }
+
+  const errors: string[] = [];
+  const profile = input as Record<string, unknown>;
+
+  if (!Number.isInteger(profile.fid) || (profile.fid as number) <= 0) {
+    errors.push('fid must be a positive integer');
+  }
+  for (const field of ['username', 'displayName', 'pfpUrl'] as const) {
+    if (profile[field] !== undefined && (typeof profile[field] !== 'string' || (profile[field] as string).length > 500)) {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Offers and answers carry an RTCSessionDescriptionInit; ICE candidates an
+ * RTCIceCandidateInit, or null once gathering is complete.
+ * @returns Error messages, empty if valid
+ */
+export function validatePeerSignal(input: unknown): string[] {
+  if (!input || typeof input !== 'object') {
+    return ['Signal must be an object'];
+  }
+
+  const errors: string[] = [];
+  const signal = input as Record<string, unknown>;
+  const payload = signal.payload as Record<string, unknown> | null | undefined;
+
+  if (!Number.isInteger(signal.to) || (signal.to as number) <= 0) {
+    errors.push('to must be a participant fid');
+  }
+  if (!PEER_SIGNAL_TYPES.includes(signal.type as PeerSignalType)) {
+    errors.push(`type must be one of: ${PEER_SIGNAL_TYPES.join(', ')}`);
+    return errors;
+  }
+
+  if (signal.type === 'ice-candidate') {
+    if (payload !== null && (typeof payload !== 'object' || typeof payload?.candidate !== 'string')) {
+      errors.push('payload must be an ICE candidate or null');
+    }
+  } else if (!payload || typeof payload !== 'object' ||
+             payload.type !== signal.type ||
+             typeof payload.sdp !== 'string' ||
+             payload.sdp.length > MAX_SDP_LENGTH) {
+    errors.push(`payload must be an ${signal.type} session description`);
+  }
+
+  return errors;
+}
+
+export function toRoomParticipant(row: AudioRoomParticipantRow): RoomParticipant {
+  return {
+    fid: row.fid,
+    username: row.username,
+    displayName: row.display_name,
+    pfpUrl: row.pfp_url,
+    role: row.role as RoomParticipant['role'],
+    isMuted: row.is_muted,
+    isListening: row.is_listening,
+    joinedAt: new Date(row.joined_at || row.requested_at),
+    lastActive: new Date(row.last_active)
+  };
+}
+
+/**
+ * @param participants The room's joined participants
+ */
+export function toAudioRoom(row: AudioRoomRow, participants: AudioRoomParticipantRow[]): AudioRoom {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    hostFid: row.host_fid,
+    hostName: row.host_name,
+    participants: participants
+      .filter(participant => participant.room_id === row.id && participant.status === 'joined')
+      .map(toRoomParticipant),
+    maxParticipants: row.max_participants,
+    isLive: row.is_live && !row.ended_at,
+    isLocked: row.locked,
+    currentTrack: (row.current_track as AudioRoom['currentTrack'] | null) ?? undefined,
+    settings: toRoomSettings(row.settings),
+    createdAt: new Date(row.created_at)
+  };
+}
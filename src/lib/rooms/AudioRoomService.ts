@@ -0,0 +1,688 @@
+/**
+ * Audio Room Service
+ * Server-side owner of social audio rooms and the WebRTC signaling between
+ * their participants. Joining returns a participant token; every later
+ * request and the participant's event stream must carry it. Roles, mutes
+ * and bans are enforced here, and every moderation action is logged.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  databaseService,
+  AudioRoomModerationEntry,
+  AudioRoomParticipantRow,
+  AudioRoomRow
+} from '@/lib/database/DatabaseService';
+import { moderationService } from '@/lib/moderation/ModerationService';
+import type { Json, TablesInsert } from '@/integrations/supabase/types';
+import type { AudioRoom, RoomParticipant } from '@/lib/audio/MobileAudioStreamingService';
+import {
+  DEFAULT_MAX_PARTICIPANTS,
+  ParticipantProfile,
+  PeerSignal,
+  RoomEvent,
+  RoomEventType,
+  RoomInput,
+  canModerate,
+  decideJoin,
+  generateRoomId,
+  isParticipantStale,
+  toAudioRoom,
+  toRoomParticipant,
+  toRoomSettings
+} from './AudioRoomRules';
+import {
+  ModerationRequest,
+  SpeakingRights,
+  authorizeModeration,
+  authorizeUnmute,
+  canSendAudio,
+  sdpSendsAudio,
+  toSpeakingRights
+} from './AudioRoomPermissions';
+
+export type RoomResult<T> = T | { error: string; status: number };
+
+export interface RoomSession {
+  room: AudioRoom;
+  token: string;
+  // Stream events after this id; nothing addressed to the participant is older
+  cursor: number;
+}
+
+export type JoinResult = RoomResult<
+  | (RoomSession & { status: 'joined'; participant: RoomParticipant })
+  | { status: 'pending'; token: string; cursor: number }
+>;
+
+// Signals only matter while peers connect
+const SIGNAL_RETENTION_MS = 60 * 60 * 1000;
+
+class AudioRoomService {
+  private static instance: AudioRoomService;
+
+  static getInstance(): AudioRoomService {
+    if (!AudioRoomService.instance) {
+      AudioRoomService.instance = new AudioRoomService();
+    }
+    return AudioRoomService.instance;
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.AUDIO_ROOM_TOKEN_SECRET;
+  }
+
+  /**
+   * Resolve the participant behind `Authorization: Bearer <token>`, or the
+   * `token` query parameter for EventSource, which cannot set headers
+   * @returns The participant's FID, or null if the token is not for this room
+   */
+  authenticate(request: Request, roomId: string): number | null {
+    const secret = process.env.AUDIO_ROOM_TOKEN_SECRET;
+    if (!secret) return null;
+
+    const header = request.headers.get('authorization') || '';
+    const token = header.startsWith('Bearer ')
+      ? header.slice(7)
+      : new URL(request.url).searchParams.get('token') || '';
+
+    const [fid, signature] = token.split('.');
+    if (!fid || !signature || !/^\d+$/.test(fid)) return null;
+
+    const expected = Buffer.from(this.sign(roomId, Number(fid), secret));
+    const provided = Buffer.from(signature);
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      return null;
+    }
+    return Number(fid);
+  }
+
+  async listRooms(limit: number = 50): Promise<AudioRoom[]> {
+    const rooms = await databaseService.getOpenAudioRooms(limit);
+    const participants = await databaseService.getAudioRoomParticipants(rooms.map(room => room.id));
+    return rooms.map(room => toAudioRoom(room, participants));
+  }
+
+  async getRoom(roomId: string): Promise<AudioRoom | null> {
+    const room = await databaseService.getAudioRoom(roomId);
+    if (!room) return null;
+
+    const participants = await databaseService.getAudioRoomParticipants([roomId]);
+    return toAudioRoom(room, participants);
+  }
+
+  /**
+   * Create a room; the host joins it straight away
+   */
+  async createRoom(input: RoomInput, host: ParticipantProfile): Promise<RoomResult<RoomSession>> {
+    if (!this.isConfigured()) {
+      return { error: 'Audio rooms are not configured', status: 503 };
+    }
+
+    const rights = await this.getSpeakingRights(host.fid);
+    if (!rights.canJoin || !rights.canSpeak) {
+      return { error: 'You are not allowed to host audio rooms', status: 403 };
+    }
+
+    const room = await databaseService.createAudioRoom({
+      id: generateRoomId(),
+      name: input.name.trim(),
+      description: input.description?.trim() || '',
+      host_fid: host.fid,
+      host_name: host.displayName || host.username || `fid:${host.fid}`,
+      max_participants: input.maxParticipants ?? DEFAULT_MAX_PARTICIPANTS,
+      settings: toRoomSettings(input.settings) as unknown as Json
+    });
+
+    const participant = await databaseService.admitAudioRoomParticipant(room.id, {
+      ...this.toParticipantColumns(host),
+      role: 'host',
+      is_muted: false
+    });
+    if (!participant) {
+      throw new Error(`Host could not join room ${room.id}`);
+    }
+
+    console.log(`🎙️ Audio room ${room.id} created by fid ${host.fid}`);
+
+    this.pruneSignals().catch(error => console.warn('⚠️ Failed to prune audio room signals:', error));
+
+    return {
+      room: toAudioRoom(room, [participant]),
+      token: this.issueToken(room.id, host.fid),
+      cursor: 0
+    };
+  }
+
+  /**
+   * Join a room, or ask to if it requires approval. Everyone already in the
+   * room is told about the newcomer.
+   * @param profile Its FID must be the caller's authenticated one (see the
+   * join route); a room token is issued for it
+   */
+  async join(roomId: string, profile: ParticipantProfile): Promise<JoinResult> {
+    if (!this.isConfigured()) {
+      return { error: 'Audio rooms are not configured', status: 503 };
+    }
+
+    const room = await databaseService.getAudioRoom(roomId);
+    if (!room) {
+      return { error: 'Room not found', status: 404 };
+    }
+
+    await this.sweepStaleParticipants(room);
+
+    const [existing, joined, cursor] = await Promise.all([
+      databaseService.getAudioRoomParticipant(roomId, profile.fid),
+      databaseService.getAudioRoomParticipants([roomId]),
+      databaseService.getLatestAudioRoomSignalId(roomId)
+    ]);
+    const others = joined.filter(participant => participant.fid !== profile.fid);
+
+    const decision = decideJoin(room, existing, others.length, profile.fid);
+    if ('error' in decision) {
+      return decision;
+    }
+
+    const rights = await this.getSpeakingRights(profile.fid);
+    if (!rights.canJoin) {
+      return { error: rights.reason || 'You are not allowed to join audio rooms', status: 403 };
+    }
+
+    const token = this.issueToken(roomId, profile.fid);
+
+    if (decision.action === 'request') {
+      if (existing?.status !== 'pending') {
+        const pending = await databaseService.upsertAudioRoomParticipant({
+          room_id: roomId,
+          ...this.toParticipantColumns(profile),
+          role: 'participant',
+          status: 'pending',
+          requested_at: new Date().toISOString()
+        });
+
+        await databaseService.addAudioRoomSignals(
+          others
+            .filter(participant => canModerate(participant))
+            .map(manager => this.toSignal(roomId, 'join-requested', profile.fid, manager.fid, toRoomParticipant(pending)))
+        );
+        console.log(`✋ fid ${profile.fid} asked to join audio room ${roomId}`);
+      }
+
+      return { status: 'pending', token, cursor };
+    }
+
+    const admitted = await this.admit(room, existing, profile, rights);
+    if (!admitted) {
+      return { error: 'Room is at maximum capacity', status: 409 };
+    }
+
+    return {
+      status: 'joined',
+      room: toAudioRoom(room, [...others, admitted]),
+      participant: toRoomParticipant(admitted),
+      token,
+      cursor
+    };
+  }
+
+  /**
+   * Approve or decline a pending join request (hosts and moderators only)
+   */
+  async respondToJoinRequest(
+    roomId: string,
+    actorFid: number,
+    fid: number,
+    approve: boolean
+  ): Promise<RoomResult<{ participant: RoomParticipant }>> {
+    const room = await databaseService.getAudioRoom(roomId);
+    if (!room || room.ended_at) {
+      return { error: 'Room not found', status: 404 };
+    }
+
+    const [actor, request] = await Promise.all([
+      databaseService.getAudioRoomParticipant(roomId, actorFid),
+      databaseService.getAudioRoomParticipant(roomId, fid)
+    ]);
+
+    if (!canModerate(actor)) {
+      return { error: 'Only hosts and moderators can let people in', status: 403 };
+    }
+    if (request?.status !== 'pending') {
+      return { error: 'No pending request from this participant', status: 404 };
+    }
+
+    if (!approve) {
+      const rejected = await databaseService.updateAudioRoomParticipant(roomId, fid, 'pending', { status: 'rejected' });
+      if (!rejected) {
+        return { error: 'Request was already answered', status: 409 };
+      }
+
+      await databaseService.addAudioRoomSignals([this.toSignal(roomId, 'join-rejected', actorFid, fid, null)]);
+      return { participant: toRoomParticipant(rejected) };
+    }
+
+    const rights = await this.getSpeakingRights(fid);
+    if (!rights.canJoin) {
+      return { error: 'This participant is not allowed to join audio rooms', status: 403 };
+    }
+
+    const admitted = await this.admit(room, request, {
+      fid,
+      username: request.username,
+      displayName: request.display_name,
+      pfpUrl: request.pfp_url
+    }, rights);
+    if (!admitted) {
+      return { error: 'Room is at maximum capacity', status: 409 };
+    }
+
+    await databaseService.addAudioRoomSignals([
+      this.toSignal(roomId, 'join-approved', actorFid, fid, toRoomParticipant(admitted))
+    ]);
+    return { participant: toRoomParticipant(admitted) };
+  }
+
+  /**
+   * Leave a room. The room ends when its host leaves.
+   */
+  async leave(roomId: string, fid: number): Promise<RoomResult<{ ended: boolean }>> {
+    const room = await databaseService.getAudioRoom(roomId);
+    if (!room) {
+      return { error: 'Room not found', status: 404 };
+    }
+
+    const participant = await databaseService.getAudioRoomParticipant(roomId, fid);
+    if (!participant || (participant.status !== 'joined' && participant.status !== 'pending')) {
+      return { error: 'Not in this room', status: 404 };
+    }
+
+    const left = await this.markLeft(roomId, participant);
+    if (left && fid === room.host_fid && !room.ended_at) {
+      await this.endRoom(room, fid);
+      return { ended: true };
+    }
+
+    return { ended: !!room.ended_at };
+  }
+
+  /**
+   * Host-only changes to what the room is doing
+   */
+  async updateRoom(
+    roomId: string,
+    fid: number,
+    updates: { isLive?: boolean; currentTrack?: AudioRoom['currentTrack'] | null }
+  ): Promise<RoomResult<{ room: AudioRoom }>> {
+    const room = await databaseService.getAudioRoom(roomId);
+    if (!room || room.ended_at) {
+      return { error: 'Room not found', status: 404 };
+    }
+    if (room.host_fid !== fid) {
+      return { error: 'Only the host can update the room', status: 403 };
+    }
+
+    const updated = await databaseService.updateAudioRoom(roomId, {
+      ...(updates.isLive !== undefined && { is_live: updates.isLive }),
+      ...(updates.currentTrack !== undefined && { current_track: (updates.currentTrack ?? null) as unknown as Json })
+    });
+    if (!updated) {
+      return { error: 'Room not found', status: 404 };
+    }
+
+    const view = toAudioRoom(updated, await databaseService.getAudioRoomParticipants([roomId]));
+    await databaseService.addAudioRoomSignals([this.toSignal(roomId, 'room-updated', fid, null, view)]);
+    return { room: view };
+  }
+
+  /**
+   * Relay an offer, answer or ICE candidate to one participant
+   */
+  async relay(roomId: string, fromFid: number, signal: PeerSignal): Promise<RoomResult<{ delivered: true }>> {
+    if (signal.to === fromFid) {
+      return { error: 'Cannot signal yourself', status: 400 };
+    }
+
+    const [sender, recipient] = await Promise.all([
+      databaseService.getAudioRoomParticipant(roomId, fromFid),
+      databaseService.getAudioRoomParticipant(roomId, signal.to)
+    ]);
+
+    if (sender?.status !== 'joined') {
+      return { error: 'Join the room before signaling', status: 403 };
+    }
+    if (recipient?.status !== 'joined') {
+      return { error: 'Recipient is not in the room', status: 404 };
+    }
+
+    // Muted participants may still receive audio, but not send it
+    if (signal.type !== 'ice-candidate' && sdpSendsAudio(signal.payload.sdp)) {
+      const [room, rights] = await Promise.all([
+        databaseService.getAudioRoom(roomId),
+        this.getSpeakingRights(fromFid)
+      ]);
+      if (!room || !canSendAudio(sender, rights, toRoomSettings(room.settings))) {
+        return { error: 'You are muted', status: 403 };
+      }
+    }
+
+    await databaseService.addAudioRoomSignals([
+      this.toSignal(roomId, signal.type, fromFid, signal.to, signal.payload)
+    ]);
+    return { delivered: true };
+  }
+
+  /**
+   * Mute or unmute yourself, or stop listening. Lifting a mute set by a host
+   * or moderator, or speaking while banned, is refused.
+   */
+  async updateSelf(
+    roomId: string,
+    fid: number,
+    updates: { isMuted?: boolean; isListening?: boolean }
+  ): Promise<RoomResult<{ participant: RoomParticipant }>> {
+    const [room, participant] = await Promise.all([
+      databaseService.getAudioRoom(roomId),
+      databaseService.getAudioRoomParticipant(roomId, fid)
+    ]);
+
+    if (!room || room.ended_at || participant?.status !== 'joined') {
+      return { error: 'Not in this room', status: 404 };
+    }
+
+    if (updates.isMuted === false && participant.is_muted) {
+      const denial = authorizeUnmute(participant, await this.getSpeakingRights(fid), toRoomSettings(room.settings));
+      if (denial) return denial;
+    }
+
+    const updated = await databaseService.updateAudioRoomParticipant(roomId, fid, 'joined', {
+      ...(updates.isMuted !== undefined && { is_muted: updates.isMuted, muted_by: null }),
+      ...(updates.isListening !== undefined && { is_listening: updates.isListening })
+    });
+    if (!updated) {
+      return { error: 'Not in this room', status: 404 };
+    }
+
+    await databaseService.addAudioRoomSignals([
+      this.toSignal(roomId, 'participant-updated', fid, null, toRoomParticipant(updated))
+    ]);
+    return { participant: toRoomParticipant(updated) };
+  }
+
+  /**
+   * Mute, unmute, kick, promote or demote a participant, lock or unlock the
+   * room, or end it. Permissions come from the actor's server-side role.
+   */
+  async moderate(
+    roomId: string,
+    actorFid: number,
+    request: ModerationRequest
+  ): Promise<RoomResult<{ entry: AudioRoomModerationEntry; room: AudioRoom | null }>> {
+    const room = await databaseService.getAudioRoom(roomId);
+    if (!room) {
+      return { error: 'Room not found', status: 404 };
+    }
+
+    const [actor, target] = await Promise.all([
+      databaseService.getAudioRoomParticipant(roomId, actorFid),
+      request.targetFid ? databaseService.getAudioRoomParticipant(roomId, request.targetFid) : Promise.resolve(null)
+    ]);
+
+    const denial = authorizeModeration(request.action, room, actor, target);
+    if (denial) return denial;
+
+    const applied = await this.applyModeration(room, actorFid, target, request);
+    if (applied !== true) return applied;
+
+    const entry = await databaseService.addAudioRoomModerationEntry({
+      room_id: roomId,
+      action: request.action,
+      actor_fid: actorFid,
+      target_fid: target?.fid ?? null,
+      reason: request.reason?.trim() || null
+    });
+
+    console.log(`🛡️ fid ${actorFid} ${request.action}${target ? ` fid ${target.fid}` : ''} in audio room ${roomId}`);
+
+    return { entry, room: request.action === 'end' ? null : await this.getRoom(roomId) };
+  }
+
+  /**
+   * The room's moderation history (hosts and moderators, or admins)
+   */
+  async getModerationLog(roomId: string, fid: number | null, isAdmin: boolean): Promise<RoomResult<{ entries: AudioRoomModerationEntry[] }>> {
+    if (!isAdmin) {
+      const participant = fid !== null ? await databaseService.getAudioRoomParticipant(roomId, fid) : null;
+      if (!canModerate(participant)) {
+        return { error: 'Only hosts and moderators can view the moderation log', status: 403 };
+      }
+    }
+
+    return { entries: await databaseService.getAudioRoomModerationLog(roomId) };
+  }
+
+  /**
+   * The participant as the event stream sees them; null once they are out
+   */
+  async getStreamParticipant(roomId: string, fid: number): Promise<AudioRoomParticipantRow | null> {
+    const participant = await databaseService.getAudioRoomParticipant(roomId, fid);
+    return participant && (participant.status === 'joined' || participant.status === 'pending') ? participant : null;
+  }
+
+  /**
+   * Events after `afterId` for this participant. Pending participants only
+   * hear about their own request.
+   */
+  async getEvents(roomId: string, participant: AudioRoomParticipantRow, afterId: number): Promise<RoomEvent[]> {
+    const signals = await databaseService.getAudioRoomSignals(roomId, participant.fid, afterId);
+    return signals
+      .filter(signal => participant.status === 'joined' || signal.to_fid === participant.fid)
+      .map(signal => ({
+        id: signal.id,
+        type: signal.type as RoomEventType,
+        from: signal.from_fid,
+        payload: signal.payload
+      }));
+  }
+
+  /**
+   * Called from each participant's event stream: keeps them present and
+   * notices anyone whose stream has gone quiet
+   */
+  async heartbeat(roomId: string, participant: AudioRoomParticipantRow): Promise<void> {
+    await databaseService.updateAudioRoomParticipant(roomId, participant.fid, participant.status, {
+      last_active: new Date().toISOString()
+    });
+
+    const room = await databaseService.getAudioRoom(roomId);
+    if (room) {
+      await this.sweepStaleParticipants(room);
+    }
+  }
+
+  /**
+   * Participants whose stream went quiet have left; everyone else is told
+   */
+  async sweepStaleParticipants(room: AudioRoomRow): Promise<void> {
+    if (room.ended_at) return;
+
+    const now = new Date();
+    const stale = (await databaseService.getAudioRoomParticipants([room.id]))
+      .filter(participant => isParticipantStale(participant, now));
+
+    for (const participant of stale) {
+      const left = await this.markLeft(room.id, participant);
+      if (left && participant.fid === room.host_fid) {
+        await this.endRoom(room, participant.fid);
+        return;
+      }
+    }
+  }
+
+  private async pruneSignals(): Promise<void> {
+    await databaseService.deleteAudioRoomSignalsBefore(new Date(Date.now() - SIGNAL_RETENTION_MS));
+  }
+
+  private async admit(
+    room: AudioRoomRow,
+    existing: AudioRoomParticipantRow | null,
+    profile: ParticipantProfile,
+    rights: SpeakingRights
+  ): Promise<AudioRoomParticipantRow | null> {
+    const isHost = profile.fid === room.host_fid;
+    const wasJoined = existing?.status === 'joined';
+
+    // A mute set by a moderator survives leaving and coming back
+    const isMuted = !rights.canSpeak ||
+      (existing?.muted_by ?? null) !== null ||
+      (existing && wasJoined ? existing.is_muted : !isHost && toRoomSettings(room.settings).autoMuteNewJoiners);
+
+    const admitted = await databaseService.admitAudioRoomParticipant(room.id, {
+      ...this.toParticipantColumns(profile),
+      // Moderator rights end on leaving; only a reconnect keeps them
+      role: isHost ? 'host' : wasJoined ? existing.role : 'participant',
+      is_muted: isMuted
+    });
+
+    if (admitted && !wasJoined) {
+      await databaseService.addAudioRoomSignals([
+        this.toSignal(room.id, 'participant-joined', profile.fid, null, toRoomParticipant(admitted))
+      ]);
+      console.log(`🎧 fid ${profile.fid} joined audio room ${room.id}`);
+    }
+
+    return admitted;
+  }
+
+  /**
+   * @returns true once applied, or why it could not be
+   */
+  private async applyModeration(
+    room: AudioRoomRow,
+    actorFid: number,
+    target: AudioRoomParticipantRow | null,
+    request: ModerationRequest
+  ): Promise<true | { error: string; status: number }> {
+    const changedElsewhere = { error: 'Participant changed while moderating - try again', status: 409 };
+
+    if (target) {
+      if (request.action === 'kick') {
+        const kicked = await databaseService.updateAudioRoomParticipant(room.id, target.fid, 'joined', {
+          status: 'kicked',
+          left_at: new Date().toISOString()
+        });
+        if (!kicked) return changedElsewhere;
+
+        await databaseService.addAudioRoomSignals([
+          this.toSignal(room.id, 'participant-left', actorFid, null, { fid: target.fid, reason: 'kicked' })
+        ]);
+        return true;
+      }
+
+      if (request.action === 'unmute') {
+        const denial = authorizeUnmute(target, await this.getSpeakingRights(target.fid), toRoomSettings(room.settings), true);
+        if (denial) return denial;
+      }
+
+      const updated = await databaseService.updateAudioRoomParticipant(room.id, target.fid, 'joined', {
+        ...(request.action === 'mute' && { is_muted: true, muted_by: actorFid }),
+        ...(request.action === 'unmute' && { is_muted: false, muted_by: null }),
+        ...(request.action === 'promote' && { role: 'moderator' }),
+        ...(request.action === 'demote' && { role: 'participant' })
+      });
+      if (!updated) return changedElsewhere;
+
+      await databaseService.addAudioRoomSignals([
+        this.toSignal(room.id, 'participant-updated', actorFid, null, toRoomParticipant(updated))
+      ]);
+      return true;
+    }
+
+    if (request.action === 'end') {
+      await this.endRoom(room, actorFid);
+      return true;
+    }
+
+    const updated = await databaseService.updateAudioRoom(room.id, { locked: request.action === 'lock' });
+    if (!updated) {
+      return { error: 'Room has ended', status: 410 };
+    }
+
+    const view = toAudioRoom(updated, await databaseService.getAudioRoomParticipants([room.id]));
+    await databaseService.addAudioRoomSignals([this.toSignal(room.id, 'room-updated', actorFid, null, view)]);
+    return true;
+  }
+
+  private async getSpeakingRights(fid: number): Promise<SpeakingRights> {
+    await moderationService.init();
+
+    const userId = String(fid);
+    const [posting, shadowBanned] = await Promise.all([
+      moderationService.canUserPostContent(userId),
+      moderationService.isShadowBanned(userId)
+    ]);
+    return toSpeakingRights(posting, shadowBanned);
+  }
+
+  private async markLeft(roomId: string, participant: AudioRoomParticipantRow): Promise<boolean> {
+    const left = await databaseService.updateAudioRoomParticipant(roomId, participant.fid, participant.status, {
+      status: 'left',
+      left_at: new Date().toISOString()
+    });
+    if (!left) return false;
+
+    if (participant.status === 'joined') {
+      await databaseService.addAudioRoomSignals([
+        this.toSignal(roomId, 'participant-left', participant.fid, null, { fid: participant.fid })
+      ]);
+      console.log(`👋 fid ${participant.fid} left audio room ${roomId}`);
+    }
+    return true;
+  }
+
+  private async endRoom(room: AudioRoomRow, fid: number): Promise<void> {
+    const ended = await databaseService.updateAudioRoom(room.id, {
+      is_live: false,
+      ended_at: new Date().toISOString()
+    });
+    if (!ended) return;
+
+    await databaseService.addAudioRoomSignals([this.toSignal(room.id, 'room-ended', fid, null, null)]);
+    console.log(`🔚 Audio room ${room.id} ended`);
+  }
+
+  private toParticipantColumns(profile: ParticipantProfile) {
+    return {
+      fid: profile.fid,
+      username: profile.username || `fid:${profile.fid}`,
+      display_name: profile.displayName || profile.username || `fid:${profile.fid}`,
+      pfp_url: profile.pfpUrl || ''
+    };
+  }
+
+  private toSignal(
+    roomId: string,
+    type: RoomEventType,
+    fromFid: number,
+    toFid: number | null,
+    payload: unknown
+  ): TablesInsert<'audio_room_signals'> {
+    return {
+      room_id: roomId,
+      type,
+      from_fid: fromFid,
+      to_fid: toFid,
+      payload: (payload ?? null) as Json
+    };
+  }
+
+  private issueToken(roomId: string, fid: number): string {
+    return `${fid}.${this.sign(roomId, fid, process.env.AUDIO_ROOM_TOKEN_SECRET!)}`;
+  }
+
+  private sign(roomId: string, fid: number, secret: string): string {
+    return createHmac('sha256', secret).update(`audio-room:${roomId}:${fid}`).digest('base64url');
+  }
+}
+
+export const audioRoomService = AudioRoomService.getInstance();
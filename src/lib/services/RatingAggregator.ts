@@ -0,0 +1,123 @@
+/**
+ * Rating Aggregator
+ * Pure Bayesian aggregation of community votes. Every vote is normalized to
+ * the 5-star scale used by RealityCheckResult.communityRating, weighted by the
+ * rater's reputation and shrunk towards a prior so a handful of votes cannot
+ * outrank a large, consistent crowd.
+ */
+
+import { ReputationLevel, UserReputation } from '@/lib/moderation/ModerationService';
+
+export type RatingScale = '1-5' | '1-10';
+
+export const RATING_SCALE_MAX = 5;
+
+export interface RatingVote {
+  userId: string;
+  rating: number; // Normalized to 1-5
+  weight: number; // Rater weight at the time of voting
+  createdAt: string;
+}
+
+export interface RatingPrior {
+  mean: number; // Rating assumed before any votes arrive
+  weight: number; // How many full-weight votes the prior is worth
+}
+
+export interface RatingAggregate {
+  rating: number; // Bayesian estimate, 1-5
+  mean: number; // Weighted mean of the votes alone, 0 when there are none
+  voteCount: number; // Distinct raters
+  totalWeight: number; // Sum of rater weights
+  confidence: number; // 0-1, share of the estimate driven by votes rather than the prior
+}
+
+export const DEFAULT_RATING_PRIOR: RatingPrior = {
+  mean: 3,
+  weight: 10
+};
+
+// Vote weight by rater reputation
+const REPUTATION_WEIGHTS: Record<ReputationLevel, number> = {
+  [ReputationLevel.NEW]: 0.5,
+  [ReputationLevel.BASIC]: 0.75,
+  [ReputationLevel.TRUSTED]: 1,
+  [ReputationLevel.VERIFIED]: 1.25,
+  [ReputationLevel.MODERATOR]: 1.5,
+  [ReputationLevel.ADMIN]: 1.5
+};
+
+// Each moderation strike removes a quarter of a rater's weight
+const STRIKE_PENALTY = 0.25;
+
+/**
+ * Convert a rating on the given scale to the canonical 1-5 scale
+ * @throws Error if the rating is outside the scale
+ */
+export function normalizeRating(rating: number, scale: RatingScale): number {
+  const max = scale === '1-10' ? 10 : 5;
+  if (typeof rating !== 'number' || !isFinite(rating) || rating < 1 || rating > max) {
+    throw new Error(`Rating must be a number between 1 and ${max}`);
+  }
+
+  // Map endpoints onto endpoints so 1/10 stays 1 star and 10/10 stays 5 stars
+  const normalized = 1 + ((rating - 1) * (RATING_SCALE_MAX - 1)) / (max - 1);
+  return round(normalized, 2);
+}
+
+/**
+ * Vote weight for a rater. Shadow-banned raters still "vote" but count for nothing.
+ */
+export function reputationWeight(reputation: UserReputation, shadowBanned: boolean = false): number {
+  if (shadowBanned) return 0;
+
+  const base = REPUTATION_WEIGHTS[reputation.reputationLevel] ?? REPUTATION_WEIGHTS[ReputationLevel.NEW];
+  const penalty = Math.max(0, 1 - reputation.strikes.count * STRIKE_PENALTY);
+  return round(base * penalty, 3);
+}
+
+/**
+ * Keep only the latest vote from each rater
+ */
+export function dedupeVotes(votes: RatingVote[]): RatingVote[] {
+  const latest = new Map<string, RatingVote>();
+  for (const vote of votes) {
+    const existing = latest.get(vote.userId);
+    if (!existing || new Date(vote.createdAt).getTime() >= new Date(existing.createdAt).getTime()) {
+      latest.set(vote.userId, vote);
+    }
+  }
+  return Array.from(latest.values());
+}
+
+/**
+ * Reputation-weighted Bayesian average:
+ *   rating = (prior.weight * prior.mean + Σ wᵢ·rᵢ) / (prior.weight + Σ wᵢ)
+ */
+export function aggregateRatings(votes: RatingVote[], prior: RatingPrior = DEFAULT_RATING_PRIOR): RatingAggregate {
+  const unique = dedupeVotes(votes);
+
+  let totalWeight = 0;
+  let weightedSum = 0;
+  for (const vote of unique) {
+    const weight = Math.max(0, vote.weight);
+    totalWeight += weight;
+    weightedSum += weight * vote.rating;
+  }
+
+  const denominator = prior.weight + totalWeight;
+  const rating = denominator > 0 ? (prior.weight * prior.mean + weightedSum) / denominator : prior.mean;
+
+  return {
+    rating: round(rating, 2),
+    mean: totalWeight > 0 ? round(weightedSum / totalWeight, 2) : 0,
+    voteCount: unique.length,
+    totalWeight: round(totalWeight, 3),
+    confidence: denominator > 0 ? round(totalWeight / denominator, 3) : 0
+  };
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
@@ -1,19 +1,28 @@
 /**
  * Dedicated rating service
- * Modular, performant rating calculations
+ * One vote per rater, reputation-weighted Bayesian aggregation (see RatingAggregator)
  */
 
-import { supabase } from '@/integrations/supabase/client';
+import { databaseService, CommunityRating } from '@/lib/database/DatabaseService';
+import { moderationService } from '@/lib/moderation/ModerationService';
+import {
+  aggregateRatings,
+  normalizeRating,
+  reputationWeight,
+  RatingAggregate,
+  RatingScale,
+  RatingVote
+} from './RatingAggregator';
 
-export interface RatingData {
-  currentAverage: number;
-  totalRatings: number;
-  newAverage: number;
+export interface RatingData extends RatingAggregate {
+  userRating: number; // The rater's vote, normalized to 1-5
+  previousRating: number | null; // The vote it replaced, if the rater had already voted
+  weight: number; // Weight the vote was counted with
 }
 
 export class RatingService {
   private static instance: RatingService;
-  private ratingCache = new Map<string, { average: number; count: number; lastUpdated: number }>();
+  private ratingCache = new Map<string, { aggregate: RatingAggregate; lastUpdated: number }>();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
   static getInstance(): RatingService {
@@ -23,64 +32,114 @@ export class RatingService {
     return RatingService.instance;
   }
 
-  async calculateNewRating(performanceId: string, newRating: number): Promise<RatingData> {
-    const cached = this.getCachedRating(performanceId);
-    
-    if (cached) {
-      return this.computeNewAverage(cached.average, cached.count, newRating);
-    }
+  /**
+   * Record (or replace) a rater's vote and recompute the performance's aggregate.
+   * Challenge results get the aggregate written back to community_rating.
+   * @throws Error if the rating is out of range or the vote cannot be stored
+   */
+  async submitRating(params: {
+    performanceId: string;
+    userId: string;
+    rating: number;
+    scale: RatingScale;
+    isChallengeResult: boolean;
+  }): Promise<RatingData> {
+    const { performanceId, userId, rating, scale, isChallengeResult } = params;
 
-    // Only fetch from DB if not cached - more performant
-    const ratings = await this.fetchRecentRatings(performanceId);
-    const currentAverage = ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : 0;
-    const currentCount = ratings.length;
+    const normalized = normalizeRating(rating, scale);
+    const [reputation, shadowBanned] = await Promise.all([
+      moderationService.getUserReputation(userId),
+      moderationService.isShadowBanned(userId)
+    ]);
+    const weight = reputationWeight(reputation, shadowBanned);
 
-    // Cache the result
-    this.setCachedRating(performanceId, currentAverage, currentCount);
+    const previous = await databaseService.getCommunityRating(performanceId, userId);
 
-    return this.computeNewAverage(currentAverage, currentCount, newRating);
-  }
+    await databaseService.upsertCommunityRating({
+      performance_id: performanceId,
+      user_id: userId,
+      rating: normalized,
+      raw_rating: rating,
+      raw_scale: scale,
+      weight
+    });
 
-  private computeNewAverage(currentAverage: number, currentCount: number, newRating: number): RatingData {
-    const newAverage = currentCount > 0 
-      ? ((currentAverage * currentCount) + newRating) / (currentCount + 1)
-      : newRating;
+    // Read after writing, so votes cast meanwhile by others are in the aggregate
+    const votes = await databaseService.getCommunityRatings(performanceId);
+    const aggregate = aggregateRatings(votes.map(toRatingVote));
+    this.setCachedRating(performanceId, aggregate);
+
+    if (isChallengeResult) {
+      await databaseService.updateChallengeResultRating(performanceId, {
+        communityRating: aggregate.rating,
+        count: aggregate.voteCount,
+        confidence: aggregate.confidence
+      });
+    }
 
     return {
-      currentAverage,
-      totalRatings: currentCount + 1,
-      newAverage: Math.round(newAverage * 100) / 100
+      ...aggregate,
+      userRating: normalized,
+      previousRating: previous ? Number(previous.rating) : null,
+      weight
     };
   }
 
-  private async fetchRecentRatings(performanceId: string): Promise<number[]> {
-    const { data } = await supabase
-      .from('analytics_events')
-      .select('event_data')
-      .eq('event_type', 'performance_rated')
-      .eq('performance_id', performanceId)
-      .order('server_timestamp', { ascending: false })
-      .limit(50); // Reduced from 100 for better performance
-
-    return data?.map(event => {
-      const eventData = event.event_data as any;
-      return eventData?.rating;
-    }).filter(r => typeof r === 'number') || [];
+  /**
+   * Current aggregate for a performance
+   */
+  async getRating(performanceId: string): Promise<RatingAggregate> {
+    const cached = this.getCachedRating(performanceId);
+    if (cached) return cached;
+
+    const votes = await databaseService.getCommunityRatings(performanceId);
+    const aggregate = aggregateRatings(votes.map(toRatingVote));
+    this.setCachedRating(performanceId, aggregate);
+
+    return aggregate;
   }
 
-  private getCachedRating(performanceId: string) {
+  /**
+   * Re-aggregate a performance after its votes changed outside submitRating
+   * (e.g. duplicate votes dropped when accounts were merged)
+   */
+  async recompute(performanceId: string): Promise<RatingAggregate> {
+    const votes = await databaseService.getCommunityRatings(performanceId);
+    const aggregate = aggregateRatings(votes.map(toRatingVote));
+    this.setCachedRating(performanceId, aggregate);
+
+    // A no-op for performances that are not challenge results
+    await databaseService.updateChallengeResultRating(performanceId, {
+      communityRating: aggregate.rating,
+      count: aggregate.voteCount,
+      confidence: aggregate.confidence
+    });
+
+    return aggregate;
+  }
+
+  private getCachedRating(performanceId: string): RatingAggregate | null {
     const cached = this.ratingCache.get(performanceId);
     if (cached && Date.now() - cached.lastUpdated < this.CACHE_TTL) {
-      return cached;
+      return cached.aggregate;
     }
     return null;
   }
 
-  private setCachedRating(performanceId: string, average: number, count: number) {
+  private setCachedRating(performanceId: string, aggregate: RatingAggregate) {
     this.ratingCache.set(performanceId, {
-      average,
-      count,
+      aggregate,
       lastUpdated: Date.now()
     });
   }
-}
\ No newline at end of file
+}
+
+function toRatingVote(row: CommunityRating): RatingVote {
+  // DECIMAL columns can come back from PostgREST as strings
+  return {
+    userId: row.user_id,
+    rating: Number(row.rating),
+    weight: Number(row.weight),
+    createdAt: row.updated_at || row.created_at
+  };
+}
@@ -1,4 +1,5 @@
 import { ChallengeResult, LeaderboardEntry, UserVocalProfile, VocalChallenge } from '@/types';
+import { ogImageUrl } from '@/lib/og/OgImageUrls';
 
 export class SocialService {
   private baseUrl: string;
@@ -10,7 +11,7 @@ export class SocialService {
   async shareToFarcaster(result: ChallengeResult, challenge: VocalChallenge): Promise<void> {
     try {
       const shareText = this.generateShareText(result, challenge);
-      const imageUrl = await this.generateResultImage(result, challenge);
+      const imageUrl = this.generateResultImage(challenge);
       
       // Generate frame metadata
       const frameData = {
@@ -201,25 +202,9 @@ export class SocialService {
     return messages.join('\n');
   }
 
-  private async generateResultImage(result: ChallengeResult, challenge: VocalChallenge): Promise<string> {
-    // Use a real OG image generation endpoint
-    try {
-      // First check if the OG image API is available
-      const testResponse = await fetch(`${this.baseUrl}/api/og/status`, {
-        method: 'HEAD'
-      });
-      
-      if (!testResponse.ok) {
-        throw new Error('OG image generation API is not available');
-      }
-      
-      // Construct the actual URL for the OG image with proper parameters
-      return `${this.baseUrl}/api/og/challenge-result?score=${result.score}&accuracy=${result.accuracy}&challenge=${encodeURIComponent(challenge.title)}&userFid=${result.userFid || ''}&timestamp=${Date.now()}`;
-    } catch (error) {
-      console.error('Failed to generate result image:', error);
-      // Fallback to a static image if the dynamic generation fails
-      return `${this.baseUrl}/images/default-challenge-card.png`;
-    }
+  private generateResultImage(challenge: VocalChallenge): string {
+    // These results are not stored, so the share shows the challenge card
+    return ogImageUrl('challenge', challenge.id);
   }
 
   private async recordShareEvent(result: ChallengeResult, challenge: VocalChallenge): Promise<void> {
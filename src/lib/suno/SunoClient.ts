@@ -0,0 +1,201 @@
+/**
+ * Suno Client
+ * Server-side wrapper around the Suno API. The key never leaves the server;
+ * browsers go through the generation job routes instead.
+ */
+
+export type SunoModel = 'V3_5' | 'V4' | 'V4_5';
+
+export interface SunoGenerateRequest {
+  prompt: string;
+  style?: string;
+  title?: string;
+  customMode: boolean;
+  instrumental: boolean;
+  model: SunoModel;
+  negativeTags?: string;
+  callBackUrl: string;
+}
+
+export interface SunoTrack {
+  id: string;
+  audio_url: string;
+  source_audio_url: string;
+  stream_audio_url: string;
+  source_stream_audio_url: string;
+  image_url: string;
+  source_image_url: string;
+  prompt: string;
+  model_name: string;
+  title: string;
+  tags: string;
+  createTime: string;
+  duration: number;
+}
+
+export interface SunoGenerateResponse {
+  code: number;
+  msg: string;
+  data: {
+    task_id: string;
+    tracks?: SunoTrack[];
+  };
+}
+
+export type SunoTaskState = 'PENDING' | 'TEXT_SUCCESS' | 'FIRST_SUCCESS' | 'SUCCESS' | 'CREATE_TASK_FAILED' | 'GENERATE_AUDIO_FAILED';
+
+export interface SunoTaskStatus {
+  code: number;
+  msg: string;
+  data: {
+    taskId: string;
+    status: SunoTaskState;
+    response?: {
+      data?: SunoTrack[];
+    };
+  };
+}
+
+export interface SunoStems {
+  instrumental_url: string;
+  origin_url: string;
+  vocal_url: string;
+}
+
+export interface VocalRemovalResponse {
+  code: number;
+  msg: string;
+  data: {
+    task_id: string;
+    vocal_removal_info?: SunoStems;
+  };
+}
+
+export interface VocalRemovalStatus {
+  code: number;
+  msg: string;
+  data: {
+    taskId: string;
+    status: string;
+    vocal_removal_info?: SunoStems;
+  };
+}
+
+/**
+ * What a callback told us, whichever endpoint it hit
+ */
+export type SunoCallback =
+  | { kind: 'generate'; taskId: string | null; stage: 'text' | 'first' | 'complete'; tracks: SunoTrack[] }
+  | { kind: 'vocal_removal'; taskId: string | null; stems: SunoStems | null }
+  | { kind: 'error'; taskId: string | null; message: string };
+
+export const SUNO_MODELS: SunoModel[] = ['V3_5', 'V4', 'V4_5'];
+
+/**
+ * Normalise a generation callback body ({ code, msg, data: { callbackType, task_id, data } })
+ */
+export function parseGenerateCallback(body: any): SunoCallback {
+  const taskId = body?.data?.task_id ?? body?.data?.taskId ?? null;
+  const callbackType = body?.data?.callbackType;
+
+  if (body?.code !== 200 || callbackType === 'error') {
+    return { kind: 'error', taskId, message: body?.msg || 'Generation failed' };
+  }
+
+  return {
+    kind: 'generate',
+    taskId,
+    stage: callbackType === 'text' || callbackType === 'first' ? callbackType : 'complete',
+    tracks: Array.isArray(body?.data?.data) ? body.data.data : []
+  };
+}
+
+/**
+ * Normalise a vocal separation callback body ({ code, msg, data: { task_id, vocal_removal_info } })
+ */
+export function parseVocalRemovalCallback(body: any): SunoCallback {
+  const taskId = body?.data?.task_id ?? body?.data?.taskId ?? null;
+
+  if (body?.code !== 200) {
+    return { kind: 'error', taskId, message: body?.msg || 'Vocal separation failed' };
+  }
+
+  return { kind: 'vocal_removal', taskId, stems: body?.data?.vocal_removal_info ?? null };
+}
+
+export class SunoClient {
+  private static instance: SunoClient;
+  private static readonly BASE_URL = 'https://api.sunoapi.org/api/v1';
+
+  static getInstance(): SunoClient {
+    if (!SunoClient.instance) {
+      SunoClient.instance = new SunoClient();
+    }
+    return SunoClient.instance;
+  }
+
+  isConfigured(): boolean {
+    return !!process.env.SUNO_API_KEY;
+  }
+
+  /**
+   * Start a generation; the result arrives at `callBackUrl`
+   * @throws Error if the API key is missing or Suno rejects the request
+   */
+  async generate(request: SunoGenerateRequest): Promise<string> {
+    const response = await this.request<SunoGenerateResponse>('POST', '/generate', request);
+    if (response.code !== 200 || !response.data?.task_id) {
+      throw new Error(`Music generation failed: ${response.msg}`);
+    }
+    return response.data.task_id;
+  }
+
+  /**
+   * @throws Error if the API key is missing or the request fails
+   */
+  async getTaskStatus(taskId: string): Promise<SunoTaskStatus> {
+    return this.request<SunoTaskStatus>('GET', `/generate/record-info?taskId=${encodeURIComponent(taskId)}`);
+  }
+
+  /**
+   * Split a generated track into stems; the result arrives at `callBackUrl`
+   * @throws Error if the API key is missing or Suno rejects the request
+   */
+  async separateVocals(params: { taskId: string; audioId: string; callBackUrl: string }): Promise<string> {
+    const response = await this.request<VocalRemovalResponse>('POST', '/vocal-removal/generate', params);
+    if (response.code !== 200 || !response.data?.task_id) {
+      throw new Error(`Vocal separation failed: ${response.msg}`);
+    }
+    return response.data.task_id;
+  }
+
+  /**
+   * @throws Error if the API key is missing or the request fails
+   */
+  async getVocalSeparation(taskId: string): Promise<VocalRemovalStatus> {
+    return this.request<VocalRemovalStatus>('GET', `/vocal-removal/record-info?taskId=${encodeURIComponent(taskId)}`);
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    if (!process.env.SUNO_API_KEY) {
+      throw new Error('Suno API key not configured');
+    }
+
+    const response = await fetch(`${SunoClient.BASE_URL}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${process.env.SUNO_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Suno API error (${response.status}): ${await response.text()}`);
+    }
+
+    return response.json();
+  }
+}
+
+export const sunoClient = SunoClient.getInstance();
@@ -0,0 +1,525 @@
+/**
+ * Suno Job Runner
+ * Server-side owner of paid AI track generations. Jobs are advanced by Suno's
+ * callbacks (generate → separate vocals), then the stems are pinned to IPFS
+ * and published as a challenge. A periodic reconcile polls Suno for jobs whose
+ * callback never arrived, so closing the browser never loses a generation.
+ * Every state change is a compare-and-set on the job row.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { databaseService, SunoGenerationJobRow } from '@/lib/database/DatabaseService';
+import type { Json } from '@/integrations/supabase/types';
+import type { Challenge } from '@/types/challenge.types';
+import {
+  SunoCallback,
+  SunoModel,
+  SunoStems,
+  SunoTrack,
+  parseGenerateCallback,
+  parseVocalRemovalCallback,
+  sunoClient
+} from './SunoClient';
+import {
+  MAX_SUNO_JOB_ATTEMPTS,
+  SUNO_JOB_STALE_MS,
+  SunoJobStage,
+  SunoJobStatus,
+  assertTransition
+} from './SunoJobStateMachine';
+
+export type SunoCallbackEndpoint = 'callback' | 'vocal-callback';
+
+export interface SunoJobView {
+  id: string;
+  status: SunoJobStatus;
+  failedStage: SunoJobStage | null;
+  error: string | null;
+  prompt: string;
+  title: string | null;
+  difficulty: Challenge['difficulty'];
+  challengeId: string | null;
+  challenge: Challenge | null;
+  createdAt: string;
+  updatedAt: string;
+  publishedAt: string | null;
+}
+
+export type SunoCallbackResult =
+  | { job: SunoGenerationJobRow; advanced: boolean }
+  | { error: string; status: 401 | 404 };
+
+export type SunoRetryResult =
+  | { job: SunoGenerationJobRow }
+  | { error: string; status: 404 | 409 };
+
+export interface SunoReconcileSummary {
+  checked: number;
+  advanced: number;
+  failed: number;
+}
+
+interface PinnedStems {
+  original?: string;
+  instrumental?: string;
+  vocals?: string;
+}
+
+const STEM_NAMES: Array<{ key: keyof PinnedStems; url: keyof SunoStems }> = [
+  { key: 'original', url: 'origin_url' },
+  { key: 'instrumental', url: 'instrumental_url' },
+  { key: 'vocals', url: 'vocal_url' }
+];
+
+const IPFS_GATEWAY = 'https://gateway.pinata.cloud/ipfs';
+
+export function toSunoJobView(job: SunoGenerationJobRow): SunoJobView {
+  return {
+    id: job.id,
+    status: job.status as SunoJobStatus,
+    failedStage: job.failed_stage as SunoJobStage | null,
+    error: job.error,
+    prompt: job.prompt,
+    title: job.title,
+    difficulty: job.difficulty as Challenge['difficulty'],
+    challengeId: job.challenge_id,
+    challenge: job.challenge as unknown as Challenge | null,
+    createdAt: job.created_at,
+    updatedAt: job.updated_at,
+    publishedAt: job.published_at
+  };
+}
+
+export class SunoJobRunner {
+  private static instance: SunoJobRunner;
+
+  static getInstance(): SunoJobRunner {
+    if (!SunoJobRunner.instance) {
+      SunoJobRunner.instance = new SunoJobRunner();
+    }
+    return SunoJobRunner.instance;
+  }
+
+  /**
+   * Record a generation and ask Suno to start it. A job whose request to
+   * Suno fails is returned as failed rather than thrown, so it can be retried.
+   * @param origin Where Suno should send callbacks if NEXT_PUBLIC_URL is unset
+   * @throws Error if Suno is not configured or the job cannot be saved
+   */
+  async create(params: {
+    prompt: string;
+    title?: string;
+    model: SunoModel;
+    difficulty: Challenge['difficulty'];
+    requestedBy: string;
+    origin: string;
+  }): Promise<SunoGenerationJobRow> {
+    if (!sunoClient.isConfigured()) {
+      throw new Error('Suno API key not configured');
+    }
+
+    const job = await databaseService.createSunoGenerationJob({
+      status: 'generating',
+      prompt: params.prompt,
+      title: params.title || null,
+      model: params.model,
+      difficulty: params.difficulty,
+      requested_by: params.requestedBy
+    });
+
+    console.log(`🎼 Suno generation job ${job.id} created by ${params.requestedBy}`);
+    return this.startGeneration(job, params.origin);
+  }
+
+  /**
+   * Persist a callback and advance its job. Duplicate and out-of-order
+   * callbacks are stored but change nothing.
+   * @throws Error if the job cannot be read or updated
+   */
+  async handleCallback(params: {
+    endpoint: SunoCallbackEndpoint;
+    jobId: string | null;
+    token: string | null;
+    body: unknown;
+    origin: string;
+  }): Promise<SunoCallbackResult> {
+    const { endpoint, jobId, token, body, origin } = params;
+
+    if (!jobId || !token || !this.verifyCallbackToken(jobId, token)) {
+      return { error: 'Invalid callback token', status: 401 };
+    }
+
+    const job = await databaseService.getSunoGenerationJob(jobId);
+    if (!job) {
+      return { error: 'Generation job not found', status: 404 };
+    }
+
+    const callback = endpoint === 'callback' ? parseGenerateCallback(body) : parseVocalRemovalCallback(body);
+
+    await databaseService.saveSunoGenerationCallback({
+      job_id: job.id,
+      task_id: callback.taskId,
+      callback_type: callback.kind === 'generate' ? callback.stage : callback.kind,
+      code: typeof (body as { code?: unknown })?.code === 'number' ? (body as { code: number }).code : null,
+      payload: (body ?? null) as Json
+    });
+
+    const updated = await this.applyCallback(job, callback, endpoint, origin);
+    return { job: updated || job, advanced: !!updated && updated.status !== job.status };
+  }
+
+  /**
+   * Resume a failed job at the stage that failed
+   * @throws Error if the job cannot be read or updated
+   */
+  async retry(jobId: string, origin: string): Promise<SunoRetryResult> {
+    const job = await databaseService.getSunoGenerationJob(jobId);
+    if (!job) {
+      return { error: 'Generation job not found', status: 404 };
+    }
+    if (job.status !== 'failed') {
+      return { error: `Only failed jobs can be retried (job is ${job.status})`, status: 409 };
+    }
+
+    const stage = (job.failed_stage || 'generating') as SunoJobStage;
+    const resumed = await this.transition(job, stage, {
+      failed_stage: null,
+      error: null,
+      attempts: 0
+    });
+    if (!resumed) {
+      return { error: 'Job was changed by another request', status: 409 };
+    }
+
+    console.log(`🔁 Retrying Suno job ${job.id} at ${stage}`);
+    return { job: await this.runStage(resumed, origin) };
+  }
+
+  /**
+   * Poll Suno for in-flight jobs that have gone quiet, and resume pinning
+   * that was interrupted. Jobs that keep failing are left failed for an admin.
+   * @throws Error if the stale jobs cannot be listed
+   */
+  async reconcile(origin: string): Promise<SunoReconcileSummary> {
+    const stale = await databaseService.getStaleSunoGenerationJobs(new Date(Date.now() - SUNO_JOB_STALE_MS));
+    const summary: SunoReconcileSummary = { checked: stale.length, advanced: 0, failed: 0 };
+
+    for (const job of stale) {
+      try {
+        const updated = await this.reconcileJob(job, origin);
+        if (updated?.status === 'failed') {
+          summary.failed++;
+        } else if (updated && updated.status !== job.status) {
+          summary.advanced++;
+        }
+      } catch (error) {
+        console.error(`❌ Failed to reconcile Suno job ${job.id}:`, error);
+      }
+    }
+
+    return summary;
+  }
+
+  private callbackUrl(endpoint: SunoCallbackEndpoint, jobId: string, origin: string): string {
+    const base = (process.env.NEXT_PUBLIC_URL || origin).replace(/\/$/, '');
+    return `${base}/api/suno/${endpoint}?jobId=${jobId}&token=${this.callbackToken(jobId)}`;
+  }
+
+  /**
+   * Suno does not sign callbacks, so each callback URL carries a per-job token
+   */
+  private callbackToken(jobId: string): string {
+    const secret = process.env.SUNO_API_KEY || process.env.ADMIN_API_SECRET || '';
+    return createHmac('sha256', secret).update(`suno-callback:${jobId}`).digest('hex').slice(0, 32);
+  }
+
+  private verifyCallbackToken(jobId: string, token: string): boolean {
+    const expected = Buffer.from(this.callbackToken(jobId));
+    const given = Buffer.from(token);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  }
+
+  private async applyCallback(
+    job: SunoGenerationJobRow,
+    callback: SunoCallback,
+    endpoint: SunoCallbackEndpoint,
+    origin: string
+  ): Promise<SunoGenerationJobRow | null> {
+    // Each endpoint only speaks for its own stage
+    const stage: SunoJobStage = endpoint === 'callback' ? 'generating' : 'separating';
+    const expectedTaskId = stage === 'generating' ? job.generate_task_id : job.separation_task_id;
+    if (job.status !== stage || (expectedTaskId && callback.taskId && callback.taskId !== expectedTaskId)) {
+      return null;
+    }
+
+    if (callback.kind === 'error') {
+      return this.fail(job, stage, callback.message);
+    }
+    if (callback.kind === 'generate') {
+      return callback.stage === 'complete' ? this.onTracks(job, callback.tracks, origin) : null;
+    }
+    return callback.stems ? this.onStems(job, callback.stems) : this.fail(job, stage, 'Callback had no stems');
+  }
+
+  private async reconcileJob(job: SunoGenerationJobRow, origin: string): Promise<SunoGenerationJobRow | null> {
+    const stage = job.status as SunoJobStage;
+
+    if (job.attempts >= MAX_SUNO_JOB_ATTEMPTS) {
+      return this.fail(job, stage, `Gave up after ${job.attempts} attempts`);
+    }
+
+    if (stage === 'generating' && job.generate_task_id) {
+      const status = await sunoClient.getTaskStatus(job.generate_task_id);
+      if (status.data.status === 'SUCCESS') {
+        return this.onTracks(job, status.data.response?.data || [], origin);
+      }
+      if (status.data.status.includes('FAILED')) {
+        return this.fail(job, stage, `Generation failed with status: ${status.data.status}`);
+      }
+      return null; // Still generating
+    }
+
+    if (stage === 'separating' && job.separation_task_id) {
+      const status = await sunoClient.getVocalSeparation(job.separation_task_id);
+      if (status.data.status === 'SUCCESS' && status.data.vocal_removal_info) {
+        return this.onStems(job, status.data.vocal_removal_info);
+      }
+      if (status.data.status.includes('FAILED') || status.data.status.includes('ERROR')) {
+        return this.fail(job, stage, `Vocal separation failed with status: ${status.data.status}`);
+      }
+      return null; // Still separating
+    }
+
+    // The request to Suno never went out, or pinning was interrupted
+    return this.runStage(job, origin);
+  }
+
+  private async runStage(job: SunoGenerationJobRow, origin: string): Promise<SunoGenerationJobRow> {
+    switch (job.status as SunoJobStatus) {
+      case 'generating':
+        return this.startGeneration(job, origin);
+      case 'separating':
+        return this.startSeparation(job, origin);
+      case 'pinning':
+        return this.pinAndPublish(job);
+      default:
+        return job;
+    }
+  }
+
+  private async startGeneration(job: SunoGenerationJobRow, origin: string): Promise<SunoGenerationJobRow> {
+    try {
+      const taskId = await sunoClient.generate({
+        prompt: job.prompt,
+        customMode: false, // Let Suno write the lyrics
+        instrumental: false, // Vocals are needed for the vocal stem
+        model: job.model as SunoModel,
+        callBackUrl: this.callbackUrl('callback', job.id, origin)
+      });
+
+      return await this.update(job, 'generating', { generate_task_id: taskId, attempts: job.attempts + 1 });
+    } catch (error) {
+      return this.fail(job, 'generating', error);
+    }
+  }
+
+  private async onTracks(job: SunoGenerationJobRow, tracks: SunoTrack[], origin: string): Promise<SunoGenerationJobRow | null> {
+    const track = tracks.find(candidate => candidate.audio_url);
+    if (!track) {
+      return this.fail(job, 'generating', 'No tracks generated');
+    }
+
+    const separating = await this.transition(job, 'separating', {
+      track: track as unknown as Json,
+      attempts: 0
+    });
+    return separating ? this.startSeparation(separating, origin) : null;
+  }
+
+  private async startSeparation(job: SunoGenerationJobRow, origin: string): Promise<SunoGenerationJobRow> {
+    const track = job.track as unknown as SunoTrack | null;
+
+    try {
+      if (!track || !job.generate_task_id) {
+        throw new Error('No generated track to separate');
+      }
+
+      const taskId = await sunoClient.separateVocals({
+        taskId: job.generate_task_id,
+        audioId: track.id,
+        callBackUrl: this.callbackUrl('vocal-callback', job.id, origin)
+      });
+
+      return await this.update(job, 'separating', { separation_task_id: taskId, attempts: job.attempts + 1 });
+    } catch (error) {
+      return this.fail(job, 'separating', error);
+    }
+  }
+
+  private async onStems(job: SunoGenerationJobRow, stems: SunoStems): Promise<SunoGenerationJobRow | null> {
+    const pinning = await this.transition(job, 'pinning', {
+      stems: stems as unknown as Json,
+      attempts: 0
+    });
+    return pinning ? this.pinAndPublish(pinning) : null;
+  }
+
+  /**
+   * Suno's URLs expire, so every stem is copied to IPFS before publishing.
+   * Stems already pinned by an earlier attempt are kept.
+   */
+  private async pinAndPublish(job: SunoGenerationJobRow): Promise<SunoGenerationJobRow> {
+    job = await this.update(job, 'pinning', { attempts: job.attempts + 1 });
+
+    const stems = job.stems as unknown as SunoStems | null;
+    const track = job.track as unknown as SunoTrack | null;
+    const pinned: PinnedStems = { ...((job.pinned as PinnedStems | null) || {}) };
+
+    try {
+      if (!stems || !track) {
+        throw new Error('No stems to pin');
+      }
+
+      for (const { key, url } of STEM_NAMES) {
+        if (!pinned[key]) {
+          pinned[key] = await this.pinAudio(stems[url], `suno-${track.id}-${key}.mp3`, job.id);
+        }
+      }
+
+      const challenge = this.toChallenge(job, track, pinned);
+
+      // Catalog first: a retry after a failed transition upserts the same row
+      await databaseService.upsertChallenge({
+        id: challenge.id,
+        title: challenge.title,
+        artist: challenge.artist,
+        description: challenge.description,
+        difficulty: challenge.difficulty,
+        duration: challenge.duration || null,
+        tags: challenge.tags,
+        type: 'viral',
+        preview_url: challenge.previewUrl,
+        instrumental_url: challenge.instrumentalUrl,
+        vocal_url: challenge.vocalUrl,
+        source: 'suno',
+        created_by: job.requested_by
+      });
+
+      const published = await this.transition(job, 'published', {
+        pinned: pinned as unknown as Json,
+        challenge_id: challenge.id,
+        challenge: challenge as unknown as Json,
+        published_at: new Date().toISOString()
+      });
+
+      if (published) {
+        console.log(`🎉 Suno job ${job.id} published as challenge ${challenge.id}`);
+      }
+      return published || job;
+    } catch (error) {
+      return this.fail(job, 'pinning', error, { pinned: pinned as unknown as Json });
+    }
+  }
+
+  private toChallenge(job: SunoGenerationJobRow, track: SunoTrack, pinned: PinnedStems): Challenge {
+    return {
+      id: `suno-${track.id}`,
+      title: job.title || track.title,
+      artist: 'GIGAVIBE AI',
+      difficulty: job.difficulty as Challenge['difficulty'],
+      duration: Math.round(track.duration || 0),
+      description: job.prompt,
+      tags: (track.tags || '').split(',').map(tag => tag.trim()).filter(Boolean),
+      previewUrl: `${IPFS_GATEWAY}/${pinned.original}`,
+      instrumentalUrl: `${IPFS_GATEWAY}/${pinned.instrumental}`,
+      vocalUrl: `${IPFS_GATEWAY}/${pinned.vocals}`,
+      participants: 0,
+      trending: false,
+      recentPerformers: [],
+      type: 'viral',
+      createdAt: new Date()
+    };
+  }
+
+  /**
+   * @returns The CID of the pinned file
+   * @throws Error if Pinata is not configured, or the download or pin fails
+   */
+  private async pinAudio(url: string, filename: string, jobId: string): Promise<string> {
+    if (!process.env.PINATA_API_KEY || !process.env.PINATA_SECRET_API_KEY) {
+      throw new Error('Pinata is not configured');
+    }
+
+    const download = await fetch(url);
+    if (!download.ok) {
+      throw new Error(`Failed to download ${filename} (${download.status})`);
+    }
+
+    const formData = new FormData();
+    formData.append('file', await download.blob(), filename);
+    formData.append('pinataMetadata', JSON.stringify({
+      name: filename,
+      keyvalues: { sourceType: 'suno-generation', jobId }
+    }));
+    formData.append('pinataOptions', JSON.stringify({ cidVersion: 1 }));
+
+    const response = await fetch('https://api.pinata.cloud/pinning/pinFileToIPFS', {
+      method: 'POST',
+      headers: {
+        'pinata_api_key': process.env.PINATA_API_KEY,
+        'pinata_secret_api_key': process.env.PINATA_SECRET_API_KEY,
+      },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Pinata API error (${response.status}): ${await response.text()}`);
+    }
+
+    const result = await response.json();
+    return result.IpfsHash;
+  }
+
+  /**
+   * @returns The updated job, or null if another request moved it first
+   */
+  private async transition(
+    job: SunoGenerationJobRow,
+    to: SunoJobStatus,
+    updates: Parameters<typeof databaseService.updateSunoGenerationJob>[2]
+  ): Promise<SunoGenerationJobRow | null> {
+    assertTransition(job.status as SunoJobStatus, to);
+    return databaseService.updateSunoGenerationJob(job.id, job.status, { ...updates, status: to });
+  }
+
+  /**
+   * Update a job within its current stage
+   */
+  private async update(
+    job: SunoGenerationJobRow,
+    stage: SunoJobStage,
+    updates: Parameters<typeof databaseService.updateSunoGenerationJob>[2]
+  ): Promise<SunoGenerationJobRow> {
+    return (await databaseService.updateSunoGenerationJob(job.id, stage, updates)) || job;
+  }
+
+  private async fail(
+    job: SunoGenerationJobRow,
+    stage: SunoJobStage,
+    error: unknown,
+    updates: Parameters<typeof databaseService.updateSunoGenerationJob>[2] = {}
+  ): Promise<SunoGenerationJobRow> {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Suno job ${job.id} failed while ${stage}: ${message}`);
+
+    const failed = await databaseService.updateSunoGenerationJob(job.id, stage, {
+      ...updates,
+      status: 'failed',
+      failed_stage: stage,
+      error: message
+    });
+    return failed || job;
+  }
+}
+
+export const sunoJobRunner = SunoJobRunner.getInstance();
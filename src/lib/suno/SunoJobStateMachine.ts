@@ -0,0 +1,49 @@
+/**
+ * Suno Job State Machine
+ * Allowed status transitions for suno_generation_jobs.
+ *
+ *   generating ──▶ separating ──▶ pinning ──▶ published
+ *        │              │            │
+ *        └──────────────┴────────────┴──▶ failed ──retry──▶ (the stage that failed)
+ */
+
+export type SunoJobStatus = 'generating' | 'separating' | 'pinning' | 'published' | 'failed';
+
+export type SunoJobStage = Exclude<SunoJobStatus, 'published' | 'failed'>;
+
+export const SUNO_JOB_STATUSES: SunoJobStatus[] = ['generating', 'separating', 'pinning', 'published', 'failed'];
+
+const TRANSITIONS: Record<SunoJobStatus, SunoJobStatus[]> = {
+  generating: ['separating', 'failed'],
+  separating: ['pinning', 'failed'],
+  pinning: ['published', 'failed'],
+  published: [], // Terminal - the challenge exists
+  failed: ['generating', 'separating', 'pinning'] // Manual retry resumes the failed stage
+};
+
+// Attempts per stage before a job waits for an admin
+export const MAX_SUNO_JOB_ATTEMPTS = 3;
+
+// An in-flight job this quiet has probably missed its callback
+export const SUNO_JOB_STALE_MS = 10 * 60 * 1000;
+
+export function isSunoJobStatus(value: unknown): value is SunoJobStatus {
+  return typeof value === 'string' && (SUNO_JOB_STATUSES as string[]).includes(value);
+}
+
+export function isTerminalSunoJobStatus(status: SunoJobStatus): boolean {
+  return status === 'published' || status === 'failed';
+}
+
+export function canTransition(from: SunoJobStatus, to: SunoJobStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * @throws Error if the transition is not allowed
+ */
+export function assertTransition(from: SunoJobStatus, to: SunoJobStatus): void {
+  if (!canTransition(from, to)) {
+    throw new Error(`Invalid Suno job transition: ${from} → ${to}`);
+  }
+}
@@ -0,0 +1,18 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Check a server-to-server request (cron jobs, admin tools) for the shared
+ * ADMIN_API_SECRET, sent as `Authorization: Bearer <secret>`.
+ * Always false when no secret is configured.
+ */
+export function isAdminRequest(request: Request): boolean {
+  const secret = process.env.ADMIN_API_SECRET;
+  if (!secret) return false;
+
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+
+  const expected = Buffer.from(secret);
+  const provided = Buffer.from(token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
@@ -0,0 +1,242 @@
+/**
+ * Coin Minter
+ * Server-side Zora coin creation for the viral job runner, signed by the
+ * platform minter wallet. Transactions are signed first and their hash handed
+ * back before broadcast, so a crashed run can be reconciled by hash (or by
+ * rebroadcasting the same signed bytes) instead of minting a second coin.
+ */
+
+import { createCoinCall, getCoinCreateFromLogs, DeployCurrency, ValidMetadataURI } from '@zoralabs/coins-sdk';
+import {
+  Address,
+  Hex,
+  createPublicClient,
+  createWalletClient,
+  encodeFunctionData,
+  http,
+  keccak256,
+  parseTransaction
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { base } from 'viem/chains';
+import { RealityCheckResult } from '@/lib/zora/types';
+
+export interface SignedCoinTransaction {
+  hash: Hex;
+  serializedTransaction: Hex;
+}
+
+export type MintOutcome =
+  | { status: 'pending' }
+  | { status: 'success'; coinAddress: Address | null }
+  | { status: 'reverted' }
+  | { status: 'dropped' }; // Never mined and its nonce has been used - nothing was minted
+
+const RECEIPT_TIMEOUT_MS = 90 * 1000;
+
+const METADATA_URI_PREFIXES = ['ipfs://', 'ar://', 'data:', 'https://'];
+
+/**
+ * URIs the coins SDK accepts as coin metadata
+ */
+export function isValidMetadataUri(uri: string): uri is ValidMetadataURI {
+  return METADATA_URI_PREFIXES.some(prefix => uri.startsWith(prefix) && uri.length > prefix.length);
+}
+
+export class CoinMinter {
+  private static instance: CoinMinter;
+  private publicClient = createPublicClient({
+    chain: base,
+    transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL || 'https://mainnet.base.org'),
+  });
+
+  static getInstance(): CoinMinter {
+    if (!CoinMinter.instance) {
+      CoinMinter.instance = new CoinMinter();
+    }
+    return CoinMinter.instance;
+  }
+
+  /**
+   * Minting needs a server wallet; without one jobs wait in 'approved'
+   */
+  isConfigured(): boolean {
+    return !!process.env.VIRAL_MINTER_PRIVATE_KEY;
+  }
+
+  /**
+   * Pin coin metadata to IPFS
+   * @throws Error if Pinata is not configured or pinning fails
+   */
+  async pinMetadata(performance: RealityCheckResult): Promise<ValidMetadataURI> {
+    if (!process.env.PINATA_API_KEY || !process.env.PINATA_SECRET_API_KEY) {
+      throw new Error('Pinata is not configured');
+    }
+
+    const metadata = {
+      name: `${performance.challengeTitle} - Reality Check`,
+      description: `"I thought I was ${performance.selfRating}⭐... they said ${performance.communityRating}⭐" - a viral GIGAVIBE performance.`,
+      image: performance.resultImageUrl || `${process.env.NEXT_PUBLIC_URL || ''}/images/gigavibeclouds.png`,
+      animation_url: performance.audioUrl,
+      content: {
+        mime: 'audio/webm',
+        uri: performance.audioUrl
+      },
+      properties: {
+        performanceId: performance.id,
+        challengeId: performance.challengeId,
+        selfRating: performance.selfRating,
+        communityRating: performance.communityRating,
+        gap: performance.gap,
+        category: performance.category
+      }
+    };
+
+    const response = await fetch('https://api.pinata.cloud/pinning/pinJSONToIPFS', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'pinata_api_key': process.env.PINATA_API_KEY,
+        'pinata_secret_api_key': process.env.PINATA_SECRET_API_KEY,
+      },
+      body: JSON.stringify({
+        pinataContent: metadata,
+        pinataMetadata: { name: `coin-${performance.id}.json` }
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Pinata API error (${response.status}): ${await response.text()}`);
+    }
+
+    const result = await response.json();
+    return `ipfs://${result.IpfsHash}`;
+  }
+
+  /**
+   * Build and sign (but do not send) the coin creation transaction
+   * @throws Error if the minter wallet is not configured or the metadata URI is not one the SDK accepts
+   */
+  async signCreateCoin(params: {
+    performance: RealityCheckResult;
+    metadataUri: string;
+    payoutRecipient: Address;
+  }): Promise<SignedCoinTransaction> {
+    const { performance, metadataUri, payoutRecipient } = params;
+    if (!isValidMetadataUri(metadataUri)) {
+      throw new Error(`Unsupported coin metadata URI: ${metadataUri}`);
+    }
+    const account = this.getAccount();
+
+    const call = await createCoinCall({
+      name: `${performance.challengeTitle} - Reality Check`,
+      symbol: `RC${performance.eventId.slice(-4).toUpperCase()}`,
+      uri: metadataUri,
+      payoutRecipient,
+      platformReferrer: (process.env.NEXT_PUBLIC_ZORA_PLATFORM_REFERRER as Address) || undefined,
+      currency: DeployCurrency.ETH,
+      chainId: base.id
+    });
+
+    const walletClient = createWalletClient({
+      account,
+      chain: base,
+      transport: http(process.env.NEXT_PUBLIC_BASE_RPC_URL || 'https://mainnet.base.org'),
+    });
+
+    const request = await walletClient.prepareTransactionRequest({
+      account,
+      chain: base,
+      to: call.address,
+      data: encodeFunctionData({ abi: call.abi, functionName: call.functionName, args: call.args }),
+      value: call.value
+    });
+
+    const serializedTransaction = await walletClient.signTransaction(request);
+    return { hash: keccak256(serializedTransaction), serializedTransaction };
+  }
+
+  /**
+   * Send a signed transaction. Rebroadcasting the same bytes is harmless.
+   * @throws Error if the node rejects the transaction for any other reason
+   */
+  async broadcast(serializedTransaction: Hex): Promise<void> {
+    try {
+      await this.publicClient.sendRawTransaction({ serializedTransaction });
+    } catch (error) {
+      const message = error instanceof Error ? error.message.toLowerCase() : '';
+      if (message.includes('already known') || message.includes('nonce too low')) {
+        // Already in the mempool or mined - outcome is decided by the receipt
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Wait (bounded) for a broadcast transaction to settle
+   */
+  async waitForOutcome(signed: SignedCoinTransaction): Promise<MintOutcome> {
+    try {
+      await this.publicClient.waitForTransactionReceipt({ hash: signed.hash, timeout: RECEIPT_TIMEOUT_MS });
+    } catch (error) {
+      console.warn(`Receipt for ${signed.hash} not available yet:`, error);
+    }
+    return this.getOutcome(signed);
+  }
+
+  /**
+   * Current outcome of a signed transaction
+   */
+  async getOutcome(signed: SignedCoinTransaction): Promise<MintOutcome> {
+    try {
+      const receipt = await this.publicClient.getTransactionReceipt({ hash: signed.hash });
+      if (receipt.status !== 'success') {
+        return { status: 'reverted' };
+      }
+      const created = getCoinCreateFromLogs(receipt);
+      return { status: 'success', coinAddress: created?.coin || null };
+    } catch {
+      // No receipt yet
+    }
+
+    try {
+      await this.publicClient.getTransaction({ hash: signed.hash });
+      return { status: 'pending' };
+    } catch {
+      // Not known to the node either
+    }
+
+    // A mined nonce past ours means this transaction can never land
+    const { nonce, from } = this.parseSigned(signed.serializedTransaction);
+    if (nonce !== undefined && from) {
+      const confirmedNonce = await this.publicClient.getTransactionCount({ address: from, blockTag: 'latest' });
+      if (confirmedNonce > nonce) {
+        return { status: 'dropped' };
+      }
+    }
+
+    return { status: 'pending' };
+  }
+
+  private parseSigned(serializedTransaction: Hex): { nonce?: number; from: Address | null } {
+    const transaction = parseTransaction(serializedTransaction);
+    return {
+      nonce: transaction.nonce,
+      from: this.isConfigured() ? this.getAccount().address : null
+    };
+  }
+
+  /**
+   * @throws Error if VIRAL_MINTER_PRIVATE_KEY is not set
+   */
+  private getAccount() {
+    const privateKey = process.env.VIRAL_MINTER_PRIVATE_KEY;
+    if (!privateKey) {
+      throw new Error('VIRAL_MINTER_PRIVATE_KEY is not configured');
+    }
+    return privateKeyToAccount(privateKey as Hex);
+  }
+}
+
+export const coinMinter = CoinMinter.getInstance();
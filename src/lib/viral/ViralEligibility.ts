@@ -0,0 +1,103 @@
+/**
+ * Viral Eligibility
+ * Pure viral signal calculations shared by the browser (ViralDetectionService)
+ * and the server-side job runner, so both agree on what counts as viral.
+ */
+
+import { RealityCheckResult, CoinEligibility } from '@/lib/zora/types';
+import type { WindowedCounts } from '@/lib/analytics/EventCounters';
+import {
+  DEFAULT_VIRAL_RULES,
+  ViralChallengeType,
+  ViralMetricSnapshot,
+  ViralRule,
+  evaluateViralRules
+} from './ViralRules';
+
+/**
+ * Engagement signals that are not part of RealityCheckResult
+ */
+export interface ViralSignals {
+  velocity: number; // Shares in the last hour (see EventCounters)
+  engagementRate: number; // Interactions / views
+}
+
+/**
+ * Shares per hour since the performance was posted - a lifetime average, used
+ * only when windowed counters are unavailable
+ */
+export function calculateShareVelocity(performance: RealityCheckResult, now: number = Date.now()): number {
+  const hoursOld = (now - performance.timestamp.getTime()) / (1000 * 60 * 60);
+  if (hoursOld < 1) return performance.shareCount; // Less than 1 hour old
+  return performance.shareCount / hoursOld;
+}
+
+/**
+ * Interactions per view, 0 when nothing has been viewed yet
+ */
+export function calculateEngagementRate(metrics: {
+  likes: number;
+  replies: number;
+  recasts: number;
+  shares: number;
+  views: number;
+}): number {
+  if (metrics.views <= 0) return 0;
+  return (metrics.likes + metrics.replies + metrics.recasts + metrics.shares) / metrics.views;
+}
+
+/**
+ * Windowed share counts as rule-engine metrics
+ */
+export function windowedViralMetrics(counts: WindowedCounts): ViralMetricSnapshot {
+  return {
+    share_count: { ...counts.share }
+  };
+}
+
+/**
+ * Rule-engine metrics for a performance. Windowed values (e.g. shares in the
+ * last hour) are merged in when the caller has them.
+ */
+export function buildViralSnapshot(
+  performance: RealityCheckResult,
+  signals: ViralSignals,
+  windowed: ViralMetricSnapshot = {}
+): ViralMetricSnapshot {
+  const snapshot: ViralMetricSnapshot = {
+    share_count: { all: performance.shareCount },
+    share_velocity: { all: signals.velocity },
+    community_rating: { all: performance.communityRating },
+    rating_count: { all: performance.communityRatingCount || 0 },
+    reality_gap: { all: performance.gap },
+    engagement_rate: { all: signals.engagementRate }
+  };
+
+  for (const [metric, values] of Object.entries(windowed)) {
+    const key = metric as keyof ViralMetricSnapshot;
+    snapshot[key] = { ...snapshot[key], ...values };
+  }
+  return snapshot;
+}
+
+/**
+ * First matching viral rule for a performance, or null
+ */
+export function evaluateViralEligibility(
+  performance: RealityCheckResult,
+  signals: ViralSignals,
+  rules: ViralRule[] = DEFAULT_VIRAL_RULES,
+  challengeType?: ViralChallengeType,
+  windowed?: ViralMetricSnapshot
+): CoinEligibility | null {
+  const match = evaluateViralRules(rules, buildViralSnapshot(performance, signals, windowed), challengeType);
+  if (!match) return null;
+
+  return {
+    type: match.type,
+    performance,
+    reason: match.reason,
+    autoMint: match.autoMint,
+    ruleId: match.rule.id
+  };
+}
@@ -0,0 +1,584 @@
+/**
+ * Viral Job Runner
+ * Server-side replacement for in-browser viral monitoring. Each run scans recent
+ * challenge results and their performance_metrics, records detections as
+ * viral_queue jobs (one per performance), and drives them through the job
+ * state machine up to a minted coin. Safe to run concurrently: every state
+ * change is a compare-and-set on the job row.
+ */
+
+import { Address, Hex, isAddress } from 'viem';
+import { randomUUID } from 'crypto';
+import { databaseService, ViralQueueItem, ChallengeResultRow, PerformanceMetrics } from '@/lib/database/DatabaseService';
+import { transformChallengeResultToRealityCheck } from '@/lib/database/transformers';
+import { accountService } from '@/lib/auth/AccountService';
+import { CoinEligibility, RealityCheckResult } from '@/lib/zora/types';
+import type { Json } from '@/integrations/supabase/types';
+import { eventCounterService, WindowedCounts } from '@/lib/analytics/EventCounters';
+import { isSeedPerformanceId } from '@/lib/coldstart/SeedBlending';
+import {
+  calculateEngagementRate,
+  calculateShareVelocity,
+  evaluateViralEligibility,
+  windowedViralMetrics
+} from './ViralEligibility';
+import {
+  ViralJobStatus,
+  assertTransition,
+  nextRetryAt,
+  viralJobIdempotencyKey,
+  MINTING_LOCK_TIMEOUT_MS
+} from './ViralJobStateMachine';
+import { viralRuleService, ViralRuleSet } from './ViralRuleService';
+import { ViralChallengeType, toViralChallengeType } from './ViralRules';
+import { coinMinter, SignedCoinTransaction } from './CoinMinter';
+
+export interface ViralJobRunSummary {
+  scanned: number;
+  detected: number;
+  approved: number;
+  minted: number;
+  retried: number;
+  failed: number;
+  reconciled: number;
+  mintingEnabled: boolean;
+}
+
+// Detections of these types mint without a human in the loop
+const AUTO_APPROVE_TYPES: CoinEligibility['type'][] = ['viral_moment', 'perfect_score', 'reality_gap', 'community_nominated'];
+
+const SCAN_WINDOW_HOURS = 7 * 24;
+const SCAN_LIMIT = 200;
+const MINT_BATCH_SIZE = 3; // Sequential - one minter wallet, one nonce at a time
+
+/**
+ * Flagged submissions and re-uploads of another submission's audio never earn coins
+ */
+function isCoinEligibleSubmission(result: ChallengeResultRow): boolean {
+  return result.verification_status !== 'flagged' && !result.duplicate_of_result_id;
+}
+
+export class ViralJobRunner {
+  private static instance: ViralJobRunner;
+  private readonly workerId = `viral-worker-${randomUUID().slice(0, 8)}`;
+
+  static getInstance(): ViralJobRunner {
+    if (!ViralJobRunner.instance) {
+      ViralJobRunner.instance = new ViralJobRunner();
+    }
+    return ViralJobRunner.instance;
+  }
+
+  /**
+   * One full pass: detect, approve, reconcile crashed mints, then mint
+   */
+  async run(): Promise<ViralJobRunSummary> {
+    const summary: ViralJobRunSummary = {
+      scanned: 0,
+      detected: 0,
+      approved: 0,
+      minted: 0,
+      retried: 0,
+      failed: 0,
+      reconciled: 0,
+      mintingEnabled: coinMinter.isConfigured()
+    };
+
+    const scan = await this.scan();
+    summary.scanned = scan.scanned;
+    summary.detected = scan.detected;
+
+    summary.approved = await this.approveDetected();
+    await this.reconcileStale(summary);
+
+    if (summary.mintingEnabled) {
+      const due = await databaseService.getDueViralJobs('approved', MINT_BATCH_SIZE);
+      for (const job of due) {
+        await this.mintJob(job, summary);
+      }
+    } else {
+      console.warn('⏸️ VIRAL_MINTER_PRIVATE_KEY not set - approved viral jobs will wait');
+    }
+
+    console.log('🔥 Viral job run complete:', summary);
+    return summary;
+  }
+
+  /**
+   * Check recent challenge results against their viral rule set variant and queue detections
+   */
+  async scan(): Promise<{ scanned: number; detected: number }> {
+    const results: ChallengeResultRow[] = await databaseService.getRecentChallengeResults(SCAN_WINDOW_HOURS, SCAN_LIMIT);
+    const candidates = results.filter(result => !result.coin_address && isCoinEligibleSubmission(result));
+
+    const metrics = await databaseService.getPerformanceMetricsBatch(candidates.map(result => result.id));
+    const metricsById = new Map(metrics.map(row => [row.performance_id, row]));
+    const countsById = await this.loadWindowedCounts(candidates.map(result => result.id));
+    const challengeTypes = await this.loadChallengeTypes(candidates.map(result => result.challenge_id));
+
+    let detected = 0;
+    for (const result of candidates) {
+      try {
+        const ruleSet = await viralRuleService.resolveRuleSet(result.id);
+        const eligibility = this.evaluate(
+          result,
+          metricsById.get(result.id) || null,
+          countsById?.get(result.id) || null,
+          ruleSet,
+          challengeTypes.get(result.challenge_id)
+        );
+        if (eligibility) {
+          const { created } = await this.enqueue(eligibility);
+          if (created) detected++;
+        }
+      } catch (error) {
+        // Log individual performance check errors but continue checking others
+        console.error(`Error checking performance ${result.id}:`, error);
+      }
+    }
+
+    return { scanned: candidates.length, detected };
+  }
+
+  /**
+   * Re-check a single performance on request. Client-side detections are never
+   * trusted - eligibility is recomputed from the database.
+   * @returns null when the performance is unknown or not viral
+   */
+  async detectPerformance(performanceId: string): Promise<{ job: ViralQueueItem; created: boolean } | null> {
+    if (isSeedPerformanceId(performanceId)) return null;
+
+    const result = await databaseService.getChallengeResultById(performanceId);
+    if (!result || result.coin_address || !isCoinEligibleSubmission(result)) return null;
+
+    const metrics = await databaseService.getPerformanceMetrics(performanceId);
+    const counts = await this.loadWindowedCounts([performanceId]);
+    const ruleSet = await viralRuleService.resolveRuleSet(performanceId);
+    const challengeTypes = await this.loadChallengeTypes([result.challenge_id]);
+    const eligibility = this.evaluate(
+      result,
+      metrics,
+      counts?.get(performanceId) || null,
+      ruleSet,
+      challengeTypes.get(result.challenge_id)
+    );
+    return eligibility ? this.enqueue(eligibility) : null;
+  }
+
+  /**
+   * Record a detection. Re-detecting a performance returns its existing job.
+   */
+  async enqueue(eligibility: CoinEligibility): Promise<{ job: ViralQueueItem; created: boolean }> {
+    const { performance } = eligibility;
+
+    const result = await databaseService.enqueueViralJob({
+      performance_id: performance.id,
+      idempotency_key: viralJobIdempotencyKey(performance.id),
+      detection_score: this.detectionScore(eligibility),
+      status: 'detected',
+      eligibility_type: eligibility.type,
+      reason: eligibility.reason,
+      snapshot: {
+        shareCount: performance.shareCount,
+        communityRating: performance.communityRating,
+        communityRatingCount: performance.communityRatingCount || 0,
+        gap: performance.gap,
+        autoMint: eligibility.autoMint,
+        ruleId: eligibility.ruleId ?? null,
+        ruleSetVersion: eligibility.ruleSetVersion ?? null
+      },
+      next_attempt_at: new Date().toISOString()
+    });
+
+    if (result.created) {
+      console.log(`🔥 Viral performance detected: ${eligibility.reason}`);
+    }
+    return result;
+  }
+
+  /**
+   * Approve a detected job (or retry a failed one) for minting
+   * @throws Error if the job does not exist or is not awaiting approval
+   */
+  async approve(jobId: string, approvedBy: string): Promise<ViralQueueItem> {
+    const job = await this.requireJob(jobId);
+
+    if (job.status === 'failed') {
+      return this.retryFailed(job, approvedBy);
+    }
+
+    const updated = await this.transition(job, 'approved', {
+      approved_at: new Date().toISOString(),
+      approved_by: approvedBy,
+      next_attempt_at: new Date().toISOString()
+    });
+    if (!updated) throw new Error(`Viral job ${jobId} changed while approving`);
+    return updated;
+  }
+
+  /**
+   * Reject a detection so it never mints
+   * @throws Error if the job does not exist or is past approval
+   */
+  async reject(jobId: string, rejectedBy: string, reason?: string): Promise<ViralQueueItem> {
+    const job = await this.requireJob(jobId);
+
+    const updated = await this.transition(job, 'failed', {
+      processed_at: new Date().toISOString(),
+      result_message: `Rejected by ${rejectedBy}${reason ? `: ${reason}` : ''}`
+    });
+    if (!updated) throw new Error(`Viral job ${jobId} changed while rejecting`);
+    return updated;
+  }
+
+  private async approveDetected(): Promise<number> {
+    const detected = await databaseService.getViralJobs(['detected'], 50);
+    let approved = 0;
+
+    for (const job of detected) {
+      const snapshot = (job.snapshot || {}) as { autoMint?: boolean };
+      const autoMint = snapshot.autoMint !== false &&
+        AUTO_APPROVE_TYPES.includes(job.eligibility_type as CoinEligibility['type']);
+      if (!autoMint) continue;
+
+      const updated = await this.transition(job, 'approved', {
+        approved_at: new Date().toISOString(),
+        approved_by: 'auto',
+        next_attempt_at: new Date().toISOString()
+      });
+      if (updated) approved++;
+    }
+
+    return approved;
+  }
+
+  /**
+   * Claim an approved job and mint its coin
+   */
+  private async mintJob(job: ViralQueueItem, summary: ViralJobRunSummary): Promise<void> {
+    const lockedAt = new Date().toISOString();
+    const claimed = await this.transition(job, 'minting', {
+      locked_at: lockedAt,
+      locked_by: this.workerId,
+      attempts: job.attempts + 1
+    });
+    if (!claimed) return; // Another worker got it
+
+    let signed: SignedCoinTransaction | null = null;
+    try {
+      const result = await databaseService.getChallengeResultById(claimed.performance_id);
+      if (!result) {
+        await this.fail(claimed, 'Performance no longer exists', summary);
+        return;
+      }
+
+      // A coin recorded outside this job still counts - never mint twice
+      if (result.coin_address) {
+        await this.finish(claimed, result.coin_address as Address, summary);
+        return;
+      }
+
+      if (!isCoinEligibleSubmission(result)) {
+        await this.fail(claimed, 'Submission was flagged by verification', summary);
+        return;
+      }
+
+      const payoutRecipient = await this.resolvePayoutRecipient(result);
+      if (!payoutRecipient) {
+        await this.fail(claimed, `No wallet linked to creator (fid ${result.user_fid ?? 'none'}, user ${result.user_id ?? 'none'})`, summary);
+        return;
+      }
+
+      const performance = transformChallengeResultToRealityCheck(result);
+      const metadataUri = claimed.metadata_uri || await coinMinter.pinMetadata(performance);
+
+      signed = await coinMinter.signCreateCoin({ performance, metadataUri, payoutRecipient });
+
+      // Persist the hash before anything leaves this process
+      const recorded = await databaseService.updateViralJob(claimed.id, { status: 'minting', lockedAt }, {
+        metadata_uri: metadataUri,
+        payout_recipient: payoutRecipient,
+        tx_hash: signed.hash,
+        signed_transaction: signed.serializedTransaction
+      });
+      if (!recorded) {
+        console.warn(`Lost lock on viral job ${claimed.id} before broadcast - not sending`);
+        return;
+      }
+
+      await coinMinter.broadcast(signed.serializedTransaction);
+      console.log(`⛓️ Coin transaction broadcast for ${claimed.performance_id}: ${signed.hash}`);
+
+      await this.settle(recorded, signed, summary);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Viral job ${claimed.id} failed:`, error);
+
+      if (signed) {
+        // Signed bytes may be out there - leave the job for reconciliation, never re-sign
+        await databaseService.updateViralJob(claimed.id, { status: 'minting', lockedAt }, {
+          result_message: `Broadcast uncertain: ${message}`
+        });
+        return;
+      }
+
+      await this.retryOrFail(claimed, message, summary);
+    }
+  }
+
+  /**
+   * Apply the on-chain outcome of a recorded transaction
+   */
+  private async settle(job: ViralQueueItem, signed: SignedCoinTransaction, summary: ViralJobRunSummary): Promise<void> {
+    const outcome = await coinMinter.waitForOutcome(signed);
+
+    switch (outcome.status) {
+      case 'success':
+        await this.finish(job, outcome.coinAddress, summary);
+        break;
+      case 'reverted':
+      case 'dropped':
+        // Nothing was minted - safe to sign a fresh transaction later
+        await this.retryOrFail(job, `Transaction ${outcome.status}: ${signed.hash}`, summary, true);
+        break;
+      case 'pending':
+        await databaseService.updateViralJob(job.id, { status: 'minting', lockedAt: job.locked_at }, {
+          result_message: `Awaiting confirmation: ${signed.hash}`
+        });
+        break;
+    }
+  }
+
+  /**
+   * Minting jobs whose lock expired: the worker crashed or timed out mid-mint
+   */
+  private async reconcileStale(summary: ViralJobRunSummary): Promise<void> {
+    const stale = await databaseService.getStaleMintingJobs(new Date(Date.now() - MINTING_LOCK_TIMEOUT_MS));
+
+    for (const job of stale) {
+      try {
+        if (!job.tx_hash || !job.signed_transaction) {
+          // Hash is recorded before broadcast, so nothing was sent
+          await this.retryOrFail(job, 'Worker stopped before broadcasting', summary);
+          summary.reconciled++;
+          continue;
+        }
+
+        const signed = { hash: job.tx_hash as Hex, serializedTransaction: job.signed_transaction as Hex };
+        const lockedAt = new Date().toISOString();
+        const relocked = await databaseService.updateViralJob(job.id, { status: 'minting', lockedAt: job.locked_at }, {
+          locked_at: lockedAt,
+          locked_by: this.workerId
+        });
+        if (!relocked) continue;
+
+        const outcome = await coinMinter.getOutcome(signed);
+        if (outcome.status === 'pending') {
+          // Rebroadcast the same bytes - cannot create a second coin
+          await coinMinter.broadcast(signed.serializedTransaction);
+        }
+
+        await this.settle(relocked, signed, summary);
+        summary.reconciled++;
+      } catch (error) {
+        console.error(`Failed to reconcile viral job ${job.id}:`, error);
+      }
+    }
+  }
+
+  private async finish(job: ViralQueueItem, coinAddress: Address | null, summary: ViralJobRunSummary): Promise<void> {
+    const minted = await this.transition(job, 'minted', {
+      coin_address: coinAddress,
+      minted_at: new Date().toISOString(),
+      processed_at: new Date().toISOString(),
+      result_message: coinAddress ? 'Coin created' : `Coin created; address not found in logs of ${job.tx_hash}`
+    });
+    if (!minted) return;
+
+    summary.minted++;
+    console.log(`✅ Coin created for viral performance ${job.performance_id}: ${coinAddress}`);
+
+    if (coinAddress) {
+      try {
+        await databaseService.setChallengeResultCoin(job.performance_id, coinAddress);
+      } catch (error) {
+        console.warn('Failed to record coin on challenge result:', error);
+      }
+    }
+
+    await databaseService.trackEvent({
+      event_type: 'viral_coin_created',
+      performance_id: job.performance_id,
+      event_data: {
+        viral_type: job.eligibility_type,
+        reason: job.reason,
+        coin_address: coinAddress,
+        tx_hash: job.tx_hash,
+        attempts: job.attempts
+      } as Json
+    });
+  }
+
+  private async retryOrFail(
+    job: ViralQueueItem,
+    message: string,
+    summary: ViralJobRunSummary,
+    clearTransaction: boolean = false
+  ): Promise<void> {
+    const exhausted = job.attempts >= job.max_attempts;
+    const transactionReset = clearTransaction ? { tx_hash: null, signed_transaction: null } : {};
+
+    if (exhausted) {
+      await this.fail(job, `${message} (after ${job.attempts} attempts)`, summary, transactionReset);
+      return;
+    }
+
+    const retried = await this.transition(job, 'approved', {
+      ...transactionReset,
+      locked_at: null,
+      locked_by: null,
+      next_attempt_at: nextRetryAt(job.attempts).toISOString(),
+      result_message: message
+    });
+    if (retried) summary.retried++;
+  }
+
+  private async fail(
+    job: ViralQueueItem,
+    message: string,
+    summary: ViralJobRunSummary,
+    extra: Partial<ViralQueueItem> = {}
+  ): Promise<void> {
+    const failed = await this.transition(job, 'failed', {
+      ...extra,
+      locked_at: null,
+      locked_by: null,
+      processed_at: new Date().toISOString(),
+      result_message: message
+    });
+    if (failed) summary.failed++;
+  }
+
+  /**
+   * Failed jobs never hold a live transaction (reverted/dropped ones are cleared), so a retry starts fresh
+   * @throws Error if the job still records a transaction
+   */
+  private async retryFailed(job: ViralQueueItem, approvedBy: string): Promise<ViralQueueItem> {
+    if (job.tx_hash) {
+      throw new Error(`Viral job ${job.id} still records transaction ${job.tx_hash} - check it on-chain first`);
+    }
+
+    const updated = await this.transition(job, 'approved', {
+      attempts: 0,
+      approved_at: new Date().toISOString(),
+      approved_by: approvedBy,
+      next_attempt_at: new Date().toISOString()
+    });
+    if (!updated) throw new Error(`Viral job ${job.id} changed while retrying`);
+    return updated;
+  }
+
+  /**
+   * Validated compare-and-set status change
+   */
+  private async transition(
+    job: ViralQueueItem,
+    to: ViralJobStatus,
+    updates: Partial<ViralQueueItem>
+  ): Promise<ViralQueueItem | null> {
+    assertTransition(job.status as ViralJobStatus, to);
+    return databaseService.updateViralJob(
+      job.id,
+      { status: job.status, lockedAt: job.status === 'minting' ? job.locked_at : undefined },
+      { ...updates, status: to }
+    );
+  }
+
+  private async requireJob(jobId: string): Promise<ViralQueueItem> {
+    const job = await databaseService.getViralJob(jobId);
+    if (!job) throw new Error(`Viral job ${jobId} not found`);
+    return job;
+  }
+
+  private evaluate(
+    result: ChallengeResultRow,
+    metrics: PerformanceMetrics | null,
+    counts: WindowedCounts | null,
+    ruleSet: ViralRuleSet,
+    challengeType?: ViralChallengeType
+  ): CoinEligibility | null {
+    const performance = transformChallengeResultToRealityCheck({
+      ...result,
+      shares_count: Math.max(result.shares_count || 0, metrics?.shares_count || 0)
+    });
+
+    const eligibility = evaluateViralEligibility(performance, {
+      velocity: counts ? counts.share['1h'] : calculateShareVelocity(performance),
+      engagementRate: metrics
+        ? calculateEngagementRate({
+            likes: metrics.likes_count || 0,
+            replies: metrics.replies_count || 0,
+            recasts: metrics.recasts_count || 0,
+            shares: metrics.shares_count || 0,
+            views: metrics.views_count || 0
+          })
+        : 0
+    }, ruleSet.rules, challengeType, counts ? windowedViralMetrics(counts) : undefined);
+
+    return eligibility ? { ...eligibility, ruleSetVersion: ruleSet.version } : null;
+  }
+
+  /**
+   * Rolling-window counts, or null to fall back to lifetime averages
+   */
+  private async loadWindowedCounts(performanceIds: string[]): Promise<Map<string, WindowedCounts> | null> {
+    try {
+      return await eventCounterService.getWindowedCountsBatch(performanceIds);
+    } catch (error) {
+      console.warn('⚠️ Windowed counters unavailable, using lifetime share velocity:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Catalog challenge id -> the challenge-type override its rules use
+   */
+  private async loadChallengeTypes(challengeIds: string[]): Promise<Map<string, ViralChallengeType>> {
+    const challenges = await databaseService.getChallengesByIds([...new Set(challengeIds)]);
+    const types = new Map<string, ViralChallengeType>();
+    for (const challenge of challenges) {
+      const challengeType = toViralChallengeType(challenge.type);
+      if (challengeType) types.set(challenge.id, challengeType);
+    }
+    return types;
+  }
+
+  /**
+   * The primary wallet of the performer's account, found by FID or, for
+   * performers without one, by the wallet the result was submitted with
+   */
+  private async resolvePayoutRecipient(result: ChallengeResultRow): Promise<Address | null> {
+    if (result.user_fid) {
+      const user = await databaseService.getUserByFarcasterFid(result.user_fid);
+      if (user?.wallet_address) return user.wallet_address as Address;
+    }
+    if (!result.user_id || !isAddress(result.user_id)) return null;
+
+    const account = await accountService.getWalletAccount(result.user_id);
+    return account ? account.userId as Address : null;
+  }
+
+  private detectionScore(eligibility: CoinEligibility): number {
+    const performance: RealityCheckResult = eligibility.performance;
+    switch (eligibility.type) {
+      case 'perfect_score':
+        return performance.communityRating;
+      case 'reality_gap':
+        return performance.gap;
+      default:
+        return performance.shareCount;
+    }
+  }
+}
+
+export const viralJobRunner = ViralJobRunner.getInstance();
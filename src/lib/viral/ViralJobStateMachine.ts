@@ -0,0 +1,62 @@
+/**
+ * Viral Job State Machine
+ * Allowed status transitions for viral_queue jobs and their retry policy.
+ *
+ *   detected ──approve──▶ approved ──claim──▶ minting ──▶ minted
+ *      │                     ▲                   │
+ *      └──reject──▶ failed ◀─┼───────────────────┘ (attempts exhausted / reverted)
+ *                     │      │
+ *                     └retry─┘ (admin)
+ */
+
+export type ViralJobStatus = 'detected' | 'approved' | 'minting' | 'minted' | 'failed';
+
+export const VIRAL_JOB_STATUSES: ViralJobStatus[] = ['detected', 'approved', 'minting', 'minted', 'failed'];
+
+const TRANSITIONS: Record<ViralJobStatus, ViralJobStatus[]> = {
+  detected: ['approved', 'failed'],
+  approved: ['minting', 'failed'],
+  // Back to approved only when nothing was broadcast (or the broadcast reverted)
+  minting: ['minted', 'approved', 'failed'],
+  minted: [], // Terminal - a coin exists
+  failed: ['approved'] // Manual retry
+};
+
+// Retry backoff: 1m, 5m, 25m, ... capped at 6h
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// A minting lock older than this belongs to a crashed or timed-out run
+export const MINTING_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function isViralJobStatus(value: unknown): value is ViralJobStatus {
+  return typeof value === 'string' && (VIRAL_JOB_STATUSES as string[]).includes(value);
+}
+
+export function canTransition(from: ViralJobStatus, to: ViralJobStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * @throws Error if the transition is not allowed
+ */
+export function assertTransition(from: ViralJobStatus, to: ViralJobStatus): void {
+  if (!canTransition(from, to)) {
+    throw new Error(`Invalid viral job transition: ${from} → ${to}`);
+  }
+}
+
+/**
+ * One coin per performance, whatever triggered the detection
+ */
+export function viralJobIdempotencyKey(performanceId: string): string {
+  return `coin:${performanceId}`;
+}
+
+/**
+ * When a job that failed its nth attempt may run again
+ */
+export function nextRetryAt(attempts: number, now: number = Date.now()): Date {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(5, Math.max(0, attempts - 1)));
+  return new Date(now + delay);
+}
@@ -0,0 +1,200 @@
+/**
+ * Viral Rule Service
+ * Loads versioned viral rule sets from the database, assigns performances to
+ * A/B variants, and publishes new versions. Falls back to the built-in rules
+ * (version 0) until a version has been activated.
+ */
+
+import { databaseService, ViralRuleSetRow, ViralRuleAuditEntry } from '@/lib/database/DatabaseService';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  DEFAULT_VIRAL_RULES,
+  ViralRule,
+  ViralThresholds,
+  applyThresholds,
+  assignVariant,
+  thresholdsFromRules,
+  validateViralRules
+} from './ViralRules';
+
+export interface ViralRuleSet {
+  version: number;
+  name: string | null;
+  rules: ViralRule[];
+  notes: string | null;
+  status: 'draft' | 'active' | 'retired';
+  trafficPercent: number;
+  createdBy: string;
+  createdAt: string;
+  activatedAt: string | null;
+}
+
+export interface ViralRuleAllocation {
+  version: number;
+  trafficPercent: number;
+}
+
+export const BUILTIN_VIRAL_RULE_SET: ViralRuleSet = {
+  version: 0,
+  name: 'Built-in defaults',
+  rules: DEFAULT_VIRAL_RULES,
+  notes: null,
+  status: 'active',
+  trafficPercent: 100,
+  createdBy: 'system',
+  createdAt: new Date(0).toISOString(),
+  activatedAt: null
+};
+
+const CACHE_TTL_MS = 60 * 1000;
+
+export class ViralRuleService {
+  private static instance: ViralRuleService;
+  private activeCache: { ruleSets: ViralRuleSet[]; expiresAt: number } | null = null;
+
+  static getInstance(): ViralRuleService {
+    if (!ViralRuleService.instance) {
+      ViralRuleService.instance = new ViralRuleService();
+    }
+    return ViralRuleService.instance;
+  }
+
+  /**
+   * Active rule sets in allocation order (never empty)
+   */
+  async getActiveRuleSets(): Promise<ViralRuleSet[]> {
+    if (this.activeCache && this.activeCache.expiresAt > Date.now()) {
+      return this.activeCache.ruleSets;
+    }
+
+    let ruleSets: ViralRuleSet[] = [];
+    try {
+      const rows = await databaseService.getViralRuleSets(['active']);
+      ruleSets = rows.map(toRuleSet).sort((a, b) => a.version - b.version);
+    } catch (error) {
+      console.warn('⚠️ Could not load viral rule sets, using built-in rules:', error);
+    }
+
+    if (ruleSets.length === 0) {
+      ruleSets = [BUILTIN_VIRAL_RULE_SET];
+    }
+
+    this.activeCache = { ruleSets, expiresAt: Date.now() + CACHE_TTL_MS };
+    return ruleSets;
+  }
+
+  /**
+   * The variant a performance is evaluated with. Assignment is sticky per id.
+   */
+  async resolveRuleSet(performanceId: string): Promise<ViralRuleSet> {
+    const ruleSets = await this.getActiveRuleSets();
+    return assignVariant(ruleSets, performanceId) || BUILTIN_VIRAL_RULE_SET;
+  }
+
+  /**
+   * The active rule set with the most traffic - what the flat thresholds describe
+   */
+  async getPrimaryRuleSet(): Promise<ViralRuleSet> {
+    const ruleSets = await this.getActiveRuleSets();
+    return ruleSets.reduce((primary, ruleSet) =>
+      ruleSet.trafficPercent > primary.trafficPercent ? ruleSet : primary
+    );
+  }
+
+  async getThresholds(): Promise<ViralThresholds> {
+    return thresholdsFromRules((await this.getPrimaryRuleSet()).rules);
+  }
+
+  async listRuleSets(limit: number = 50): Promise<ViralRuleSet[]> {
+    const rows = await databaseService.getViralRuleSets(undefined, limit);
+    return rows.map(toRuleSet);
+  }
+
+  async getRuleSet(version: number): Promise<ViralRuleSet | null> {
+    if (version === 0) return BUILTIN_VIRAL_RULE_SET;
+    const row = await databaseService.getViralRuleSet(version);
+    return row ? toRuleSet(row) : null;
+  }
+
+  async getAuditLog(limit: number = 50): Promise<ViralRuleAuditEntry[]> {
+    return databaseService.getViralRuleAuditLog(limit);
+  }
+
+  /**
+   * Store a new (draft) rule set version
+   * @throws Error if the rules are invalid or the insert fails
+   */
+  async publish(params: { rules: ViralRule[]; name?: string; notes?: string; actor: string }): Promise<ViralRuleSet> {
+    const errors = validateViralRules(params.rules);
+    if (errors.length > 0) {
+      throw new Error(`Invalid viral rules: ${errors.join('; ')}`);
+    }
+
+    const row = await databaseService.createViralRuleSet({
+      name: params.name || null,
+      rules: params.rules as unknown as Json,
+      notes: params.notes || null,
+      created_by: params.actor
+    });
+
+    console.log(`📐 Viral rule set v${row.version} published by ${params.actor}`);
+    return toRuleSet(row);
+  }
+
+  /**
+   * Replace the traffic split between active versions. Versions left out are retired.
+   * @throws Error if percentages do not add up to 100 or a version is unknown
+   */
+  async allocate(allocations: ViralRuleAllocation[], actor: string, reason?: string): Promise<ViralRuleSet[]> {
+    const total = allocations.reduce((sum, allocation) => sum + allocation.trafficPercent, 0);
+    if (allocations.length === 0 || total !== 100) {
+      throw new Error(`Traffic percentages must add up to 100 (got ${total})`);
+    }
+    if (allocations.some(allocation => allocation.version === 0)) {
+      throw new Error('The built-in rule set cannot be allocated - publish it as a version first');
+    }
+
+    const rows = await databaseService.setViralRuleAllocations(allocations, actor, reason);
+    this.invalidate();
+
+    console.log(`📐 Viral rule allocations set by ${actor}:`, allocations);
+    return rows.map(toRuleSet);
+  }
+
+  /**
+   * Publish a copy of the primary rule set with flat threshold changes applied,
+   * and send all traffic to it
+   * @throws Error if publishing or activation fails
+   */
+  async publishThresholds(updates: Partial<ViralThresholds>, actor: string, notes?: string): Promise<ViralRuleSet> {
+    const primary = await this.getPrimaryRuleSet();
+    const ruleSet = await this.publish({
+      rules: applyThresholds(primary.rules, updates),
+      name: `v${primary.version} + threshold update`,
+      notes,
+      actor
+    });
+    await this.allocate([{ version: ruleSet.version, trafficPercent: 100 }], actor, notes);
+    return { ...ruleSet, status: 'active', trafficPercent: 100 };
+  }
+
+  invalidate(): void {
+    this.activeCache = null;
+  }
+}
+
+function toRuleSet(row: ViralRuleSetRow): ViralRuleSet {
+  return {
+    version: row.version,
+    name: row.name,
+    rules: row.rules as unknown as ViralRule[],
+    notes: row.notes,
+    status: row.status as ViralRuleSet['status'],
+    trafficPercent: row.traffic_percent,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    activatedAt: row.activated_at
+  };
+}
+
+export const viralRuleService = ViralRuleService.getInstance();
@@ -0,0 +1,426 @@
+/**
+ * Viral Rules
+ * Declarative viral-coin triggers. Each rule maps a set of metric conditions
+ * to a CoinEligibility type; rule sets are versioned in the database and
+ * evaluated here with no I/O, so the browser, the job runner and simulations
+ * all agree on the outcome.
+ */
+
+import { CoinEligibility } from '@/lib/zora/types';
+
+export type ViralEligibilityType = CoinEligibility['type'];
+export type ViralChallengeType = 'viral' | 'structured' | 'advanced';
+
+export type ViralMetric =
+  | 'share_count'
+  | 'share_velocity'   // Shares per hour
+  | 'community_rating' // 1-5 stars
+  | 'rating_count'
+  | 'reality_gap'
+  | 'engagement_rate'; // Interactions / views
+
+export type ViralComparator = 'gte' | 'gt' | 'lte' | 'lt';
+
+// 'all' means lifetime; other windows need windowed counters in the snapshot
+export type ViralWindow = 'all' | '1h' | '24h' | '7d';
+
+export const VIRAL_ELIGIBILITY_TYPES: ViralEligibilityType[] = [
+  'leaderboard_winner',
+  'viral_moment',
+  'perfect_score',
+  'reality_gap',
+  'meme_worthy',
+  'community_nominated'
+];
+export const VIRAL_CHALLENGE_TYPES: ViralChallengeType[] = ['viral', 'structured', 'advanced'];
+export const VIRAL_METRICS: ViralMetric[] = [
+  'share_count',
+  'share_velocity',
+  'community_rating',
+  'rating_count',
+  'reality_gap',
+  'engagement_rate'
+];
+export const VIRAL_COMPARATORS: ViralComparator[] = ['gte', 'gt', 'lte', 'lt'];
+export const VIRAL_WINDOWS: ViralWindow[] = ['all', '1h', '24h', '7d'];
+
+export interface ViralRuleCondition {
+  metric: ViralMetric;
+  comparator: ViralComparator;
+  value: number;
+  window?: ViralWindow; // Defaults to 'all'
+}
+
+export interface ViralRuleOverride {
+  enabled?: boolean;
+  values?: Partial<Record<ViralMetric, number>>; // Replaces the value of every condition on that metric
+}
+
+export interface ViralRule {
+  id: string;
+  type: ViralEligibilityType;
+  enabled: boolean;
+  conditions: ViralRuleCondition[]; // All must hold
+  reason: string; // Template, e.g. "🔥 VIRAL: {share_count} shares!" - see formatReason
+  autoMint: boolean;
+  challengeTypeOverrides?: Partial<Record<ViralChallengeType, ViralRuleOverride>>;
+}
+
+/**
+ * Metric values for one performance, keyed by metric and window
+ */
+export type ViralMetricSnapshot = Partial<Record<ViralMetric, Partial<Record<ViralWindow, number>>>>;
+
+export interface ViralRuleMatch {
+  rule: ViralRule;
+  type: ViralEligibilityType;
+  reason: string;
+  autoMint: boolean;
+}
+
+/**
+ * Flat threshold view of a rule set, kept for the legacy thresholds API and
+ * the leaderboard's challenge-type thresholds
+ */
+export interface ViralThresholds {
+  SHARE_COUNT: number;
+  PERFECT_SCORE: number;
+  MIN_RATINGS: number;
+  REALITY_GAP: number;
+  ENGAGEMENT_RATE: number;
+  VELOCITY: number;
+  VIRAL_CHALLENGE: number;
+  STRUCTURED_CHALLENGE: number;
+  ADVANCED_CHALLENGE: number;
+}
+
+// Viral thresholds for automatic coin creation (challenge-specific)
+export const DEFAULT_VIRAL_THRESHOLDS: ViralThresholds = {
+  SHARE_COUNT: 100,        // 100+ shares = viral moment
+  PERFECT_SCORE: 4.8,      // 4.8+ rating = perfect performance
+  MIN_RATINGS: 20,         // Rating-based triggers need a real crowd behind them
+  REALITY_GAP: 2.5,        // 2.5+ gap = comedy gold
+  ENGAGEMENT_RATE: 0.3,    // 30% engagement rate
+  VELOCITY: 50,            // 50 shares in 1 hour = trending
+
+  // Challenge-specific viral thresholds
+  VIRAL_CHALLENGE: 75,     // Fun mode - lower threshold for accessibility
+  STRUCTURED_CHALLENGE: 150, // Training mode - higher threshold for quality
+  ADVANCED_CHALLENGE: 200,   // Show off mode - highest threshold for excellence
+};
+
+/**
+ * The built-in rule set, expressed from flat thresholds. Rules are checked in
+ * order and the first match wins.
+ */
+export function rulesFromThresholds(thresholds: ViralThresholds): ViralRule[] {
+  return [
+    {
+      id: 'viral_shares',
+      type: 'viral_moment',
+      enabled: true,
+      conditions: [{ metric: 'share_count', comparator: 'gte', value: thresholds.SHARE_COUNT }],
+      reason: '🔥 VIRAL: {share_count} shares!',
+      // Signed-out shares count too, so these wait for an admin like trending
+      autoMint: false,
+      challengeTypeOverrides: {
+        viral: { values: { share_count: thresholds.VIRAL_CHALLENGE } },
+        structured: { values: { share_count: thresholds.STRUCTURED_CHALLENGE } },
+        advanced: { values: { share_count: thresholds.ADVANCED_CHALLENGE } }
+      }
+    },
+    {
+      id: 'perfect_score',
+      type: 'perfect_score',
+      enabled: true,
+      conditions: [
+        { metric: 'rating_count', comparator: 'gte', value: thresholds.MIN_RATINGS },
+        { metric: 'community_rating', comparator: 'gte', value: thresholds.PERFECT_SCORE }
+      ],
+      reason: '⭐ PERFECT: {community_rating}/5 rating from {rating_count} votes!',
+      autoMint: true
+    },
+    {
+      id: 'reality_gap',
+      type: 'reality_gap',
+      enabled: true,
+      conditions: [
+        { metric: 'rating_count', comparator: 'gte', value: thresholds.MIN_RATINGS },
+        { metric: 'reality_gap', comparator: 'gte', value: thresholds.REALITY_GAP }
+      ],
+      reason: '😅 REALITY GAP: {reality_gap:1} star difference!',
+      autoMint: true
+    },
+    {
+      id: 'trending',
+      type: 'viral_moment',
+      enabled: true,
+      conditions: [{ metric: 'share_velocity', comparator: 'gte', value: thresholds.VELOCITY }],
+      reason: '🚀 TRENDING: {share_velocity:0} shares/hour!',
+      // Velocity includes signed-out shares; an admin approves these
+      autoMint: false
+    },
+    {
+      id: 'community_favorite',
+      type: 'community_nominated',
+      enabled: true,
+      conditions: [{ metric: 'engagement_rate', comparator: 'gte', value: thresholds.ENGAGEMENT_RATE }],
+      reason: '👥 COMMUNITY FAVORITE: {engagement_rate:%} engagement!',
+      // Engagement counts signed-out shares and likes; held for an admin too
+      autoMint: false
+    }
+  ];
+}
+
+export const DEFAULT_VIRAL_RULES: ViralRule[] = rulesFromThresholds(DEFAULT_VIRAL_THRESHOLDS);
+
+/**
+ * Read the flat thresholds back out of a rule set. Thresholds with no matching
+ * rule keep their default.
+ */
+export function thresholdsFromRules(rules: ViralRule[]): ViralThresholds {
+  const thresholds = { ...DEFAULT_VIRAL_THRESHOLDS };
+  const valueOf = (ruleId: string, metric: ViralMetric) =>
+    rules.find(rule => rule.id === ruleId)?.conditions.find(condition => condition.metric === metric)?.value;
+  const overrideOf = (challengeType: ViralChallengeType) =>
+    rules.find(rule => rule.id === 'viral_shares')?.challengeTypeOverrides?.[challengeType]?.values?.share_count;
+
+  thresholds.SHARE_COUNT = valueOf('viral_shares', 'share_count') ?? thresholds.SHARE_COUNT;
+  thresholds.PERFECT_SCORE = valueOf('perfect_score', 'community_rating') ?? thresholds.PERFECT_SCORE;
+  thresholds.MIN_RATINGS = valueOf('perfect_score', 'rating_count') ?? thresholds.MIN_RATINGS;
+  thresholds.REALITY_GAP = valueOf('reality_gap', 'reality_gap') ?? thresholds.REALITY_GAP;
+  thresholds.VELOCITY = valueOf('trending', 'share_velocity') ?? thresholds.VELOCITY;
+  thresholds.ENGAGEMENT_RATE = valueOf('community_favorite', 'engagement_rate') ?? thresholds.ENGAGEMENT_RATE;
+  thresholds.VIRAL_CHALLENGE = overrideOf('viral') ?? thresholds.VIRAL_CHALLENGE;
+  thresholds.STRUCTURED_CHALLENGE = overrideOf('structured') ?? thresholds.STRUCTURED_CHALLENGE;
+  thresholds.ADVANCED_CHALLENGE = overrideOf('advanced') ?? thresholds.ADVANCED_CHALLENGE;
+  return thresholds;
+}
+
+/**
+ * Apply flat threshold changes to a rule set, returning a new rule set
+ */
+export function applyThresholds(rules: ViralRule[], updates: Partial<ViralThresholds>): ViralRule[] {
+  const current = thresholdsFromRules(rules);
+  const defaults = rulesFromThresholds({ ...current, ...updates });
+  const byId = new Map(defaults.map(rule => [rule.id, rule]));
+
+  // Only built-in rules carry flat thresholds; custom rules are left alone
+  return rules.map(rule => {
+    const replacement = byId.get(rule.id);
+    if (!replacement) return rule;
+    return {
+      ...rule,
+      conditions: rule.conditions.map(condition => ({
+        ...condition,
+        value: replacement.conditions.find(c => c.metric === condition.metric)?.value ?? condition.value
+      })),
+      challengeTypeOverrides: rule.id === 'viral_shares'
+        ? mergeOverrides(rule.challengeTypeOverrides, replacement.challengeTypeOverrides)
+        : rule.challengeTypeOverrides
+    };
+  });
+}
+
+function mergeOverrides(
+  existing: ViralRule['challengeTypeOverrides'],
+  replacement: ViralRule['challengeTypeOverrides']
+): ViralRule['challengeTypeOverrides'] {
+  const merged: NonNullable<ViralRule['challengeTypeOverrides']> = { ...existing };
+  for (const challengeType of VIRAL_CHALLENGE_TYPES) {
+    const value = replacement?.[challengeType]?.values?.share_count;
+    if (value === undefined) continue;
+    merged[challengeType] = {
+      ...merged[challengeType],
+      values: { ...merged[challengeType]?.values, share_count: value }
+    };
+  }
+  return merged;
+}
+
+/**
+ * The override a catalog challenge's `type` selects; types without one get none
+ */
+export function toViralChallengeType(type: string | null | undefined): ViralChallengeType | undefined {
+  return VIRAL_CHALLENGE_TYPES.find(challengeType => challengeType === type);
+}
+
+/**
+ * First matching rule for a performance, or null
+ */
+export function evaluateViralRules(
+  rules: ViralRule[],
+  snapshot: ViralMetricSnapshot,
+  challengeType?: ViralChallengeType
+): ViralRuleMatch | null {
+  for (const rule of rules) {
+    const override = challengeType ? rule.challengeTypeOverrides?.[challengeType] : undefined;
+    if (!(override?.enabled ?? rule.enabled)) continue;
+    if (rule.conditions.length === 0) continue;
+
+    const matches = rule.conditions.every(condition => {
+      const threshold = override?.values?.[condition.metric] ?? condition.value;
+      const actual = snapshot[condition.metric]?.[condition.window || 'all'];
+      // A metric we have no data for can never trigger a coin
+      return actual !== undefined && compare(actual, condition.comparator, threshold);
+    });
+
+    if (matches) {
+      return {
+        rule,
+        type: rule.type,
+        reason: formatReason(rule.reason, snapshot),
+        autoMint: rule.autoMint
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Effective threshold of a metric in the first enabled rule of a type,
+ * after challenge-type overrides
+ */
+export function getRuleThreshold(
+  rules: ViralRule[],
+  type: ViralEligibilityType,
+  metric: ViralMetric,
+  challengeType?: ViralChallengeType
+): number | null {
+  for (const rule of rules) {
+    if (rule.type !== type) continue;
+    const override = challengeType ? rule.challengeTypeOverrides?.[challengeType] : undefined;
+    if (!(override?.enabled ?? rule.enabled)) continue;
+    const condition = rule.conditions.find(c => c.metric === metric);
+    if (condition) return override?.values?.[metric] ?? condition.value;
+  }
+  return null;
+}
+
+/**
+ * Fill {metric}, {metric:N} (N decimals) and {metric:%} placeholders from
+ * lifetime metric values
+ */
+export function formatReason(template: string, snapshot: ViralMetricSnapshot): string {
+  return template.replace(/\{(\w+)(?::(\d|%))?\}/g, (placeholder, metric: string, format?: string) => {
+    const value = snapshot[metric as ViralMetric]?.all;
+    if (value === undefined) return placeholder;
+    if (format === '%') return `${(value * 100).toFixed(1)}%`;
+    if (format !== undefined) return value.toFixed(Number(format));
+    return String(value);
+  });
+}
+
+/**
+ * Problems with a rule set, empty when it is valid
+ */
+export function validateViralRules(input: unknown): string[] {
+  if (!Array.isArray(input)) return ['rules must be an array'];
+  if (input.length === 0) return ['rules must not be empty'];
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  input.forEach((rule: any, index) => {
+    const label = `rules[${index}]`;
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof rule.id !== 'string' || !rule.id) errors.push(`${label}.id is required`);
+    else if (ids.has(rule.id)) errors.push(`${label}.id "${rule.id}" is duplicated`);
+    else ids.add(rule.id);
+
+    if (!VIRAL_ELIGIBILITY_TYPES.includes(rule.type)) errors.push(`${label}.type must be one of ${VIRAL_ELIGIBILITY_TYPES.join(', ')}`);
+    if (typeof rule.enabled !== 'boolean') errors.push(`${label}.enabled must be a boolean`);
+    if (typeof rule.autoMint !== 'boolean') errors.push(`${label}.autoMint must be a boolean`);
+    if (typeof rule.reason !== 'string' || !rule.reason) errors.push(`${label}.reason is required`);
+
+    if (!Array.isArray(rule.conditions) || rule.conditions.length === 0) {
+      errors.push(`${label}.conditions must be a non-empty array`);
+    } else {
+      rule.conditions.forEach((condition: any, conditionIndex: number) => {
+        errors.push(...validateCondition(condition, `${label}.conditions[${conditionIndex}]`));
+      });
+    }
+
+    if (rule.challengeTypeOverrides !== undefined) {
+      if (!rule.challengeTypeOverrides || typeof rule.challengeTypeOverrides !== 'object') {
+        errors.push(`${label}.challengeTypeOverrides must be an object`);
+      } else {
+        for (const [challengeType, override] of Object.entries<any>(rule.challengeTypeOverrides)) {
+          const overrideLabel = `${label}.challengeTypeOverrides.${challengeType}`;
+          if (!VIRAL_CHALLENGE_TYPES.includes(challengeType as ViralChallengeType)) {
+            errors.push(`${overrideLabel} is not a challenge type`);
+            continue;
+          }
+          if (override?.enabled !== undefined && typeof override.enabled !== 'boolean') {
+            errors.push(`${overrideLabel}.enabled must be a boolean`);
+          }
+          for (const [metric, value] of Object.entries(override?.values || {})) {
+            if (!VIRAL_METRICS.includes(metric as ViralMetric)) errors.push(`${overrideLabel}.values.${metric} is not a metric`);
+            else if (!isFiniteNumber(value)) errors.push(`${overrideLabel}.values.${metric} must be a number`);
+          }
+        }
+      }
+    }
+  });
+
+  return errors;
+}
+
+function validateCondition(condition: any, label: string): string[] {
+  const errors: string[] = [];
+  if (!condition || typeof condition !== 'object') return [`${label} must be an object`];
+  if (!VIRAL_METRICS.includes(condition.metric)) errors.push(`${label}.metric must be one of ${VIRAL_METRICS.join(', ')}`);
+  if (!VIRAL_COMPARATORS.includes(condition.comparator)) errors.push(`${label}.comparator must be one of ${VIRAL_COMPARATORS.join(', ')}`);
+  if (!isFiniteNumber(condition.value)) errors.push(`${label}.value must be a number`);
+  if (condition.window !== undefined && !VIRAL_WINDOWS.includes(condition.window)) {
+    errors.push(`${label}.window must be one of ${VIRAL_WINDOWS.join(', ')}`);
+  }
+  return errors;
+}
+
+/**
+ * Deterministic 0-99 bucket for A/B assignment (FNV-1a)
+ */
+export function trafficBucket(subjectId: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < subjectId.length; i++) {
+    hash ^= subjectId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+}
+
+/**
+ * Pick the rule set variant for a subject. Allocations are walked in order;
+ * traffic left unallocated goes to the first one.
+ */
+export function assignVariant<T extends { trafficPercent: number }>(allocations: T[], subjectId: string): T | null {
+  if (allocations.length === 0) return null;
+  const bucket = trafficBucket(subjectId);
+  let ceiling = 0;
+  for (const allocation of allocations) {
+    ceiling += allocation.trafficPercent;
+    if (bucket < ceiling) return allocation;
+  }
+  return allocations[0];
+}
+
+function compare(actual: number, comparator: ViralComparator, threshold: number): boolean {
+  switch (comparator) {
+    case 'gte':
+      return actual >= threshold;
+    case 'gt':
+      return actual > threshold;
+    case 'lte':
+      return actual <= threshold;
+    case 'lt':
+      return actual < threshold;
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
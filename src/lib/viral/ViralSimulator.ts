@@ -0,0 +1,327 @@
+/**
+ * Viral Simulator
+ * Dry-runs candidate viral rules against history without minting anything.
+ * Each performance is replayed hour by hour: share, like and rating events are
+ * folded into the metrics it had at that moment, and the first checkpoint where
+ * a rule matches is when the job runner would have queued its coin.
+ */
+
+import { databaseService, AnalyticsEvent, ChallengeResultRow, PerformanceMetrics } from '@/lib/database/DatabaseService';
+import { transformChallengeResultToRealityCheck } from '@/lib/database/transformers';
+import { aggregateRatings, normalizeRating, RatingScale, RatingVote } from '@/lib/services/RatingAggregator';
+import { buildViralSnapshot, calculateEngagementRate } from './ViralEligibility';
+import {
+  VIRAL_CHALLENGE_TYPES,
+  ViralChallengeType,
+  ViralEligibilityType,
+  ViralRule,
+  evaluateViralRules,
+  getRuleThreshold,
+  toViralChallengeType
+} from './ViralRules';
+import { viralRuleService } from './ViralRuleService';
+
+export type SimulatedChallengeType = ViralChallengeType | 'unclassified';
+
+export interface ViralSimulationOptions {
+  rules: ViralRule[];
+  from: Date;
+  to: Date;
+  challengeTypes?: Record<string, ViralChallengeType>; // challengeId -> type; defaults to the catalog's type
+  stepMinutes?: number;
+}
+
+export interface SimulatedPerformance {
+  performanceId: string;
+  challengeId: string;
+  challengeTitle: string;
+  challengeType: SimulatedChallengeType;
+  type: ViralEligibilityType;
+  ruleId: string;
+  reason: string;
+  wouldMintAt: string;
+  alreadyMinted: boolean;
+  change: 'new' | 'unchanged' | 'changed_type'; // Compared with the live rules
+}
+
+export interface ViralSimulationCounts {
+  total: number;
+  byEligibilityType: Partial<Record<ViralEligibilityType, number>>;
+  byChallengeType: Partial<Record<SimulatedChallengeType, number>>;
+}
+
+export interface ViralSimulationReport {
+  window: { from: string; to: string; stepMinutes: number };
+  baselineVersion: number;
+  scanned: number;
+  skippedFlagged: number;
+  candidate: ViralSimulationCounts;
+  baseline: ViralSimulationCounts;
+  challengeThresholds: Record<ViralChallengeType, number | null>; // Candidate share threshold per challenge type
+  performances: SimulatedPerformance[];
+  removed: { performanceId: string; type: ViralEligibilityType; reason: string }[]; // Would mint today, not with the candidate
+}
+
+/**
+ * Timestamped history for one performance
+ */
+export interface PerformanceHistory {
+  result: ChallengeResultRow;
+  metrics: PerformanceMetrics | null;
+  events: AnalyticsEvent[];
+}
+
+export interface ReplayMatch {
+  type: ViralEligibilityType;
+  ruleId: string;
+  reason: string;
+  at: Date;
+}
+
+// Detections are looked for as far back as the job runner scans
+const LOOKBACK_DAYS = 7;
+const MAX_PERFORMANCES = 500;
+const DEFAULT_STEP_MINUTES = 60;
+const HOUR_MS = 60 * 60 * 1000;
+const REPLAYED_EVENTS = ['performance_shared', 'performance_liked', 'performance_rated'];
+
+export class ViralSimulator {
+  private static instance: ViralSimulator;
+
+  static getInstance(): ViralSimulator {
+    if (!ViralSimulator.instance) {
+      ViralSimulator.instance = new ViralSimulator();
+    }
+    return ViralSimulator.instance;
+  }
+
+  /**
+   * Replay performances from the window (plus the runner's lookback) through
+   * the candidate rules and the live primary rules
+   * @throws Error if history cannot be loaded
+   */
+  async simulate(options: ViralSimulationOptions): Promise<ViralSimulationReport> {
+    const stepMinutes = options.stepMinutes || DEFAULT_STEP_MINUTES;
+    const baseline = await viralRuleService.getPrimaryRuleSet();
+
+    const since = new Date(options.from.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const results = await databaseService.getChallengeResultsCreatedBetween(since, options.to, MAX_PERFORMANCES);
+    const candidates = results.filter(result => result.verification_status !== 'flagged');
+    const ids = candidates.map(result => result.id);
+
+    const metrics: PerformanceMetrics[] = [];
+    for (let i = 0; i < ids.length; i += 100) {
+      metrics.push(...await databaseService.getPerformanceMetricsBatch(ids.slice(i, i + 100)));
+    }
+    const metricsById = new Map(metrics.map(row => [row.performance_id, row]));
+
+    // Unmapped challenges use their catalog type, as the job runner does
+    const challengeTypes: Record<string, ViralChallengeType> = {};
+    const challenges = await databaseService.getChallengesByIds([...new Set(candidates.map(result => result.challenge_id))]);
+    for (const challenge of challenges) {
+      const challengeType = toViralChallengeType(challenge.type);
+      if (challengeType) challengeTypes[challenge.id] = challengeType;
+    }
+    Object.assign(challengeTypes, options.challengeTypes);
+
+    const events = await databaseService.getAnalyticsEventsForPerformances(ids, REPLAYED_EVENTS, options.to);
+    const eventsById = new Map<string, AnalyticsEvent[]>();
+    for (const event of events) {
+      if (!event.performance_id) continue;
+      const list = eventsById.get(event.performance_id) || [];
+      list.push(event);
+      eventsById.set(event.performance_id, list);
+    }
+
+    const performances: SimulatedPerformance[] = [];
+    const removed: ViralSimulationReport['removed'] = [];
+    const candidateCounts = emptyCounts();
+    const baselineCounts = emptyCounts();
+
+    for (const result of candidates) {
+      const history: PerformanceHistory = {
+        result,
+        metrics: metricsById.get(result.id) || null,
+        events: eventsById.get(result.id) || []
+      };
+      const challengeType = challengeTypes[result.challenge_id];
+      const simulatedType: SimulatedChallengeType = challengeType || 'unclassified';
+
+      const window = { from: options.from, to: options.to, stepMinutes };
+      const candidateMatch = replayPerformance(history, options.rules, window, challengeType);
+      const baselineMatch = replayPerformance(history, baseline.rules, window, challengeType);
+
+      if (baselineMatch) addCount(baselineCounts, baselineMatch.type, simulatedType);
+
+      if (candidateMatch) {
+        addCount(candidateCounts, candidateMatch.type, simulatedType);
+        performances.push({
+          performanceId: result.id,
+          challengeId: result.challenge_id,
+          challengeTitle: result.challenge_title,
+          challengeType: simulatedType,
+          type: candidateMatch.type,
+          ruleId: candidateMatch.ruleId,
+          reason: candidateMatch.reason,
+          wouldMintAt: candidateMatch.at.toISOString(),
+          alreadyMinted: !!result.coin_address,
+          change: !baselineMatch ? 'new' : baselineMatch.type === candidateMatch.type ? 'unchanged' : 'changed_type'
+        });
+      } else if (baselineMatch) {
+        removed.push({ performanceId: result.id, type: baselineMatch.type, reason: baselineMatch.reason });
+      }
+    }
+
+    performances.sort((a, b) => a.wouldMintAt.localeCompare(b.wouldMintAt));
+
+    const challengeThresholds = {} as Record<ViralChallengeType, number | null>;
+    for (const challengeType of VIRAL_CHALLENGE_TYPES) {
+      challengeThresholds[challengeType] = getRuleThreshold(options.rules, 'viral_moment', 'share_count', challengeType);
+    }
+
+    return {
+      window: { from: options.from.toISOString(), to: options.to.toISOString(), stepMinutes },
+      baselineVersion: baseline.version,
+      scanned: candidates.length,
+      skippedFlagged: results.length - candidates.length,
+      candidate: candidateCounts,
+      baseline: baselineCounts,
+      challengeThresholds,
+      performances,
+      removed
+    };
+  }
+}
+
+/**
+ * Checkpoint where a rule first matches, or null when that is not inside the
+ * window (never, or already detected before it). Counts not backed by events
+ * (e.g. shares synced from Farcaster, views) only become visible at the metrics
+ * row's last update.
+ */
+export function replayPerformance(
+  history: PerformanceHistory,
+  rules: ViralRule[],
+  window: { from: Date; to: Date; stepMinutes: number },
+  challengeType?: ViralChallengeType
+): ReplayMatch | null {
+  const { result, metrics, events } = history;
+  const createdAt = new Date(result.created_at).getTime();
+  const metricsAt = metrics ? new Date(metrics.last_updated).getTime() : window.to.getTime();
+  const step = window.stepMinutes * 60 * 1000;
+
+  const shareTimes = eventTimes(events, 'performance_shared');
+  const likeTimes = eventTimes(events, 'performance_liked');
+  const votes = ratingVotes(events);
+
+  const finalShares = Math.max(result.shares_count || 0, metrics?.shares_count || 0);
+  const finalLikes = Math.max(result.likes_count || 0, metrics?.likes_count || 0);
+  const untrackedShares = Math.max(0, finalShares - shareTimes.length);
+  const untrackedLikes = Math.max(0, finalLikes - likeTimes.length);
+
+  for (let t = createdAt; t <= window.to.getTime(); t += step) {
+    const settled = t >= metricsAt;
+    const shares = countUntil(shareTimes, t) + (settled ? untrackedShares : 0);
+    const likes = countUntil(likeTimes, t) + (settled ? untrackedLikes : 0);
+
+    const rating = votes.length > 0
+      ? aggregateRatings(votes.filter(vote => new Date(vote.createdAt).getTime() <= t))
+      : null;
+    const communityRating = rating ? rating.rating : settled ? result.community_rating || 0 : 0;
+    const ratingCount = rating ? rating.voteCount : settled ? result.community_rating_count || 0 : 0;
+
+    const performance = {
+      ...transformChallengeResultToRealityCheck(result),
+      shareCount: shares,
+      communityRating,
+      communityRatingCount: ratingCount,
+      gap: ratingCount > 0 ? result.self_rating - communityRating : 0
+    };
+
+    // Same windows the live counters keep, rebuilt from share events
+    const sharesSince = (hours: number) => shares - countUntil(shareTimes, t - hours * HOUR_MS) - (settled ? untrackedShares : 0);
+    const sharesLastHour = Math.max(0, sharesSince(1));
+    const engagementRate = settled && metrics
+      ? calculateEngagementRate({
+          likes,
+          replies: metrics.replies_count || 0,
+          recasts: metrics.recasts_count || 0,
+          shares,
+          views: metrics.views_count || 0
+        })
+      : 0;
+
+    const match = evaluateViralRules(
+      rules,
+      buildViralSnapshot(performance, {
+        velocity: sharesLastHour,
+        engagementRate
+      }, {
+        share_count: {
+          '1h': sharesLastHour,
+          '24h': Math.max(0, sharesSince(24)),
+          '7d': Math.max(0, sharesSince(24 * 7))
+        }
+      }),
+      challengeType
+    );
+
+    if (match) {
+      return t >= window.from.getTime()
+        ? { type: match.type, ruleId: match.rule.id, reason: match.reason, at: new Date(t) }
+        : null;
+    }
+  }
+
+  return null;
+}
+
+function eventTimes(events: AnalyticsEvent[], eventType: string): number[] {
+  return events
+    .filter(event => event.event_type === eventType)
+    .map(event => new Date(event.server_timestamp).getTime())
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Votes on the 5-star scale. Events record the scale of their `rating`;
+ * older ones stored the raw 1-10 rating.
+ */
+function ratingVotes(events: AnalyticsEvent[]): RatingVote[] {
+  const votes: RatingVote[] = [];
+  for (const event of events) {
+    if (event.event_type !== 'performance_rated' || !event.user_id) continue;
+
+    const data = (event.event_data || {}) as { rating?: number; rating_scale?: string; weight?: number };
+    const scale: RatingScale = data.rating_scale === '1-5' ? '1-5' : '1-10';
+    try {
+      votes.push({
+        userId: event.user_id,
+        rating: normalizeRating(data.rating as number, scale),
+        weight: data.weight ?? 1,
+        createdAt: event.server_timestamp
+      });
+    } catch {
+      // Missing or out of range for its scale - not a vote
+    }
+  }
+  return votes;
+}
+
+function countUntil(sortedTimes: number[], t: number): number {
+  let count = 0;
+  while (count < sortedTimes.length && sortedTimes[count] <= t) count++;
+  return count;
+}
+
+function emptyCounts(): ViralSimulationCounts {
+  return { total: 0, byEligibilityType: {}, byChallengeType: {} };
+}
+
+function addCount(counts: ViralSimulationCounts, type: ViralEligibilityType, challengeType: SimulatedChallengeType): void {
+  counts.total++;
+  counts.byEligibilityType[type] = (counts.byEligibilityType[type] || 0) + 1;
+  counts.byChallengeType[challengeType] = (counts.byChallengeType[challengeType] || 0) + 1;
+}
+
+export const viralSimulator = ViralSimulator.getInstance();
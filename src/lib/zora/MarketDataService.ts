@@ -73,17 +73,22 @@ export class MarketDataService {
   }
 
   /**
-   * Get user's coin portfolio
+   * Get user's coin portfolio, across every wallet linked to their account
    */
-  async getUserPortfolio(userAddress: Address): Promise<{
+  async getUserPortfolio(userAddresses: Address | Address[]): Promise<{
     coins: PerformanceCoin[];
     totalValue: number;
     totalGainLoss: number;
     totalGainLossPercent: number;
   }> {
     try {
-      // In production, fetch user's actual coin holdings
-      const userCoins = await this.fetchUserCoins(userAddress);
+      const wallets = Array.isArray(userAddresses) ? userAddresses : [userAddresses];
+      const holdings = await Promise.all(wallets.map(wallet => this.fetchUserCoins(wallet)));
+
+      // A coin held in two linked wallets is one position
+      const userCoins = [...new Map(
+        holdings.flat().map(coin => [coin.address.toLowerCase(), coin] as const)
+      ).values()];
       
       const totalValue = userCoins.reduce((sum, coin) => sum + coin.marketData.price, 0);
       const totalGainLoss = userCoins.reduce((sum, coin) => sum + coin.marketData.priceChange24h, 0);
@@ -77,18 +77,21 @@ export class ZoraService {
         };
       }
 
-      // Perfect score (5.0 community rating)
-      if (performance.communityRating >= 5.0) {
+      // Rating-based triggers need enough votes for the Bayesian rating to mean something
+      const hasEnoughRatings = (performance.communityRatingCount || 0) >= 20;
+
+      // Perfect score (4.8+ Bayesian community rating)
+      if (hasEnoughRatings && performance.communityRating >= 4.8) {
         return {
           type: 'perfect_score',
           performance,
-          reason: 'Perfect 5⭐ community rating',
+          reason: `Perfect ${performance.communityRating}⭐ community rating`,
           autoMint: true
         };
       }
 
       // Reality gap (3+ star difference - hilarious fails)
-      if (performance.gap >= 3) {
+      if (hasEnoughRatings && performance.gap >= 3) {
         return {
           type: 'reality_gap',
           performance,
@@ -7,7 +7,8 @@ export interface RealityCheckResult {
   challengeId: string;
   userAddress: Address;
   selfRating: number;
-  communityRating: number;
+  communityRating: number; // Bayesian community rating, 1-5 stars
+  communityRatingCount?: number; // Distinct raters behind communityRating
   gap: number;
   wittyCommentary: string;
   shareCount: number;
@@ -25,6 +26,18 @@ export interface RealityCheckResult {
     recasts: number;
     replies: number;
   };
+  reasons?: FeedReason[]; // Why a personalised feed picked this performance
+  seed?: SeedLabel; // Set on cold-start content; seeds cannot be rated or go viral
+}
+
+export interface FeedReason {
+  kind: 'challenge' | 'tag' | 'creator' | 'following' | 'popular' | 'fresh';
+  label: string; // e.g. "Because you rated Español"
+}
+
+export interface SeedLabel {
+  kind: 'curated' | 'spotlight';
+  label: string; // e.g. "Example performance"
 }
 
 export interface PerformanceCoin {
@@ -64,6 +77,8 @@ export interface CoinEligibility {
   performance: RealityCheckResult;
   reason: string;
   autoMint: boolean;
+  ruleId?: string; // Viral rule that matched
+  ruleSetVersion?: number; // Viral rule set version it came from (0 = built-in defaults)
 }
 
 export interface TradingMetrics {
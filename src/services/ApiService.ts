@@ -200,19 +200,25 @@ class ApiService {
    */
   async getDiscoveryFeed(
     feedType: 'foryou' | 'trending' | 'viral' | 'recent' = 'foryou',
-    offset: number = 0,
+    cursor: string | null = null,
     limit: number = 20
-  ): Promise<PerformanceData[]> {
-    const response = await this.fetchWithRetry<{ performances: any[] }>(
-      `/api/discovery/feed/${feedType}?offset=${offset}&limit=${limit}`
+  ): Promise<{ performances: PerformanceData[]; nextCursor: string | null }> {
+    const params = new URLSearchParams({ limit: limit.toString() });
+    if (cursor) params.set('cursor', cursor);
+
+    const response = await this.fetchWithRetry<{ performances: any[]; pagination?: { nextCursor?: string | null } }>(
+      `/api/discovery/feed/${feedType}?${params}`
     );
 
     if (!response.success || !response.data) {
       console.warn('Failed to fetch discovery feed - database may be empty');
-      return [];
+      return { performances: [], nextCursor: null };
     }
 
-    return this.transformApiPerformances(response.data.performances);
+    return {
+      performances: this.transformApiPerformances(response.data.performances),
+      nextCursor: response.data.pagination?.nextCursor ?? null
+    };
   }
 
   /**
@@ -228,12 +234,12 @@ class ApiService {
   }
 
   /**
-   * Rate a performance (updates database)
+   * Rate a performance on the 5-star scale as the signed-in user (updates database)
    */
   async ratePerformance(performanceId: string, rating: number): Promise<boolean> {
     const response = await this.fetchWithRetry('/api/discovery/rate', {
       method: 'POST',
-      body: JSON.stringify({ performanceId, rating }),
+      body: JSON.stringify({ performanceId, rating, scale: '1-5' }),
     });
 
     return response.success;
@@ -268,9 +274,9 @@ class ApiService {
       difficulty: this.normalizeDifficulty(challenge.difficulty),
       duration: challenge.duration || 180,
       description: challenge.description || `Sing along to ${challenge.title}`,
-      previewUrl: challenge.originalAudio || challenge.audioUrl || challenge.vocalUrl,
+      previewUrl: challenge.previewUrl || challenge.originalAudio || challenge.audioUrl || challenge.vocalUrl,
       instrumentalUrl: challenge.instrumentalAudio || challenge.instrumentalUrl,
-      vocalUrl: challenge.vocalsOnlyAudio,
+      vocalUrl: challenge.vocalsOnlyAudio || (challenge.previewUrl ? challenge.vocalUrl : undefined),
       bpm: challenge.bpm,
       key: challenge.key,
       participants: challenge.participants || 0,
@@ -280,8 +286,10 @@ class ApiService {
       totalEarnings: challenge.totalEarnings || 0,
       tips: this.generateTips(challenge.title),
       type: challenge.type || 'featured',
-      tags: challenge.tags?.split(',') || [],
-      createdAt: new Date(challenge.uploadedAt || challenge.createdAt || Date.now())
+      tags: Array.isArray(challenge.tags) ? challenge.tags : challenge.tags?.split(',') || [],
+      createdAt: new Date(challenge.uploadedAt || challenge.createdAt || Date.now()),
+      availableFrom: challenge.availableFrom ? new Date(challenge.availableFrom) : undefined,
+      availableUntil: challenge.availableUntil ? new Date(challenge.availableUntil) : undefined
     }));
   }
 
@@ -6,6 +6,8 @@
 import { GroveService } from '@/lib/storage/GroveService';
 import { AudioUploadService } from '@/lib/audio/AudioUploadService';
 import { AudioMixerService } from '@/lib/audio/AudioMixerService';
+import { decodeAudioBlob } from '@/lib/audio/PcmDecoder';
+import { OfflinePitchAnalyzer, PitchContour } from '@/lib/audio/OfflinePitchAnalyzer';
 
 interface RecordingOptions {
   sampleRate?: number;
@@ -178,6 +180,18 @@ class EnhancedAudioRecordingService {
     });
   }
 
+  /**
+   * Extract an offline pitch contour from a finished recording or uploaded file
+   * @throws Error if the audio cannot be decoded
+   */
+  async extractPitchTrack(audioBlob: Blob): Promise<PitchContour> {
+    const pcm = await decodeAudioBlob(audioBlob);
+    const contour = new OfflinePitchAnalyzer().analyze(pcm);
+
+    console.log(`🎼 Pitch track extracted: ${contour.frames.length} frames, ${Math.round(contour.summary.voicedRatio * 100)}% voiced`);
+    return contour;
+  }
+
   /**
    * Get current audio level for visualization
    */
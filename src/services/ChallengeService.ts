@@ -246,7 +246,8 @@ class UnifiedChallengeService implements ChallengeServiceInterface {
           userFid: result.userFid,
           castHash: result.castHash,
           accuracy: result.accuracy,
-          submissionId: result.submissionId
+          submissionId: result.submissionId,
+          pitchTrack: result.pitchTrack
         }),
       });
       
@@ -5,13 +5,17 @@
  */
 
 import { ChallengeResult } from '@/types/challenge.types';
+import { ogImageUrl } from '@/lib/og/OgImageUrls';
 
-interface FarcasterUser {
+export interface FarcasterUser {
   fid: number;
   username: string;
   displayName: string;
   pfpUrl: string;
   isVerified?: boolean;
+  /** Ethereum addresses the user has proven they control */
+  verifiedAddresses: string[];
+  custodyAddress?: string;
 }
 
 interface CastData {
@@ -30,7 +34,7 @@ interface CastData {
   };
 }
 
-interface FrameData {
+export interface FrameData {
   version: string;
   image: string;
   buttons?: Array<{
@@ -41,8 +45,22 @@ interface FrameData {
   inputText?: string;
   postUrl?: string;
   aspectRatio?: '1.91:1' | '1:1';
+  state?: string;
 }
 
+/**
+ * The signed part of a frame action, as checked by Neynar
+ */
+export interface ValidatedFrameAction {
+  interactor: FarcasterUser;
+  buttonIndex: number;
+  inputText: string;
+  state: string;
+}
+
+// Signed frame messages older than this are replays
+const FRAME_ACTION_MAX_AGE_MS = 10 * 60 * 1000;
+
 class FarcasterService {
   private static instance: FarcasterService;
   private baseUrl: string;
@@ -88,6 +106,61 @@ class FarcasterService {
     }
   }
 
+  /**
+   * Get many users in one request (up to 100 FIDs). Unknown FIDs are left out.
+   * @throws Error if the API is unavailable, so callers can tell that apart
+   * from users not existing
+   */
+  async getUsersByFids(fids: number[]): Promise<FarcasterUser[]> {
+    if (fids.length === 0) return [];
+
+    const response = await fetch(`${this.baseUrl}/farcaster/user/bulk?fids=${fids.join(',')}`, {
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch users: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return (data.users || [])
+      .map((user: any) => this.transformUserData(user))
+      .filter((user: FarcasterUser | null): user is FarcasterUser => user !== null);
+  }
+
+  /**
+   * The Farcaster user behind each of up to 350 addresses, keyed by the
+   * lowercased address. Addresses with no Farcaster account are left out.
+   * @throws Error if the API is unavailable
+   */
+  async getUsersByAddresses(addresses: string[]): Promise<Map<string, FarcasterUser>> {
+    const users = new Map<string, FarcasterUser>();
+    if (addresses.length === 0) return users;
+
+    const response = await fetch(`${this.baseUrl}/farcaster/user/bulk-by-address?addresses=${addresses.join(',')}`, {
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    // Neynar answers 404 when none of the addresses has an account
+    if (response.status === 404) return users;
+    if (!response.ok) {
+      throw new Error(`Failed to fetch users by address: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    for (const [address, matches] of Object.entries(data || {})) {
+      const user = Array.isArray(matches) ? this.transformUserData(matches[0]) : null;
+      if (user) users.set(address.toLowerCase(), user);
+    }
+    return users;
+  }
+
   /**
    * Get user information by username
    */
@@ -112,6 +185,86 @@ class FarcasterService {
     }
   }
 
+  /**
+   * FIDs a user follows, newest follows first (capped at `limit`)
+   */
+  async getFollowingFids(fid: number, limit: number = 500): Promise<number[]> {
+    if (!fid) return [];
+    const fids: number[] = [];
+    let cursor: string | undefined;
+
+    try {
+      do {
+        const params = new URLSearchParams({ fid: fid.toString(), limit: '100' });
+        if (cursor) params.set('cursor', cursor);
+
+        const response = await fetch(`${this.baseUrl}/farcaster/following?${params}`, {
+          headers: {
+            'Authorization': `Bearer ${this.apiKey}`,
+            'Content-Type': 'application/json',
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch following: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        for (const follow of data.users || []) {
+          if (follow.user?.fid) fids.push(follow.user.fid);
+        }
+        cursor = data.next?.cursor || undefined;
+      } while (cursor && fids.length < limit);
+
+      return fids.slice(0, limit);
+    } catch (error) {
+      console.error('Error fetching Farcaster following:', error);
+      return fids;
+    }
+  }
+
+  /**
+   * Check a frame action's signed message and return what it says. Only signed
+   * fields are returned, so nothing in a request's untrustedData is trusted.
+   * @param postUrl The URL the frame posts to; messages signed for another
+   * frame, or too long ago, are refused. Its query string is not compared.
+   * @returns null if the message is not validly signed, for this URL and recent
+   * @throws Error if the API is unavailable
+   */
+  async validateFrameAction(messageBytes: string, postUrl: string): Promise<ValidatedFrameAction | null> {
+    const response = await fetch(`${this.baseUrl}/farcaster/frame/validate`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ message_bytes_in_hex: messageBytes }),
+    });
+
+    // Neynar answers 400 for bytes that are not a frame message
+    if (response.status === 400) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to validate frame action: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const interactor = data.valid ? this.transformUserData(data.action?.interactor) : null;
+    if (!interactor) return null;
+
+    if (!isSameEndpoint(data.action.url, postUrl)) return null;
+    const signedAt = Date.parse(data.action.timestamp);
+    if (!Number.isFinite(signedAt) || Math.abs(Date.now() - signedAt) > FRAME_ACTION_MAX_AGE_MS) {
+      return null;
+    }
+
+    return {
+      interactor,
+      buttonIndex: data.action.tapped_button?.index ?? 0,
+      inputText: data.action.input?.text || '',
+      state: data.action.state?.serialized || '',
+    };
+  }
+
   /**
    * Create a cast
    */
@@ -189,6 +342,10 @@ class FarcasterService {
       metadata['fc:frame:post_url'] = frameData.postUrl;
     }
 
+    if (frameData.state) {
+      metadata['fc:frame:state'] = frameData.state;
+    }
+
     if (frameData.buttons) {
       frameData.buttons.forEach((button, index) => {
         const buttonIndex = index + 1;
@@ -204,6 +361,27 @@ class FarcasterService {
     return metadata;
   }
 
+  /**
+   * A minimal HTML page carrying a frame, as frame action handlers answer with
+   */
+  generateFrameHtml(frameData: FrameData): string {
+    const metadata = {
+      ...this.generateFrameMetadata(frameData),
+      'og:image': frameData.image,
+    };
+    const tags = Object.entries(metadata)
+      .map(([property, content]) => `<meta property="${property}" content="${escapeHtmlAttribute(content)}" />`)
+      .join('\n    ');
+
+    return `<!DOCTYPE html>
+<html>
+  <head>
+    ${tags}
+  </head>
+  <body></body>
+</html>`;
+  }
+
   /**
    * Create performance sharing URL
    */
@@ -221,45 +399,17 @@ class FarcasterService {
   }
 
   /**
-   * Generate frame image URL for performance
+   * Generate frame image URL for performance (its Reality Reveal card)
    */
-  generatePerformanceFrameImageUrl(
-    performanceId: string, 
-    options: {
-      width?: number;
-      height?: number;
-      quality?: number;
-    } = {}
-  ): string {
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://gigavibe.app';
-    const params = new URLSearchParams({
-      width: (options.width || 1200).toString(),
-      height: (options.height || 630).toString(),
-      quality: (options.quality || 85).toString(),
-    });
-    
-    return `${baseUrl}/api/frames/performance/${performanceId}/image?${params}`;
+  generatePerformanceFrameImageUrl(performanceId: string): string {
+    return ogImageUrl('result', performanceId);
   }
 
   /**
    * Generate frame image URL for challenge
    */
-  generateChallengeFrameImageUrl(
-    challengeId: string,
-    options: {
-      width?: number;
-      height?: number;
-      quality?: number;
-    } = {}
-  ): string {
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://gigavibe.app';
-    const params = new URLSearchParams({
-      width: (options.width || 1200).toString(),
-      height: (options.height || 630).toString(),
-      quality: (options.quality || 85).toString(),
-    });
-    
-    return `${baseUrl}/api/frames/challenge/${challengeId}/image?${params}`;
+  generateChallengeFrameImageUrl(challengeId: string): string {
+    return ogImageUrl('challenge', challengeId);
   }
 
   /**
@@ -314,6 +464,8 @@ class FarcasterService {
       displayName: userData.display_name || userData.username,
       pfpUrl: userData.pfp_url || '',
       isVerified: userData.power_badge || false,
+      verifiedAddresses: userData.verified_addresses?.eth_addresses || userData.verifications || [],
+      custodyAddress: userData.custody_address || undefined,
     };
   }
 
@@ -345,6 +497,25 @@ class FarcasterService {
   }
 }
 
+function escapeHtmlAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function isSameEndpoint(url: unknown, expected: string): boolean {
+  if (typeof url !== 'string') return false;
+  try {
+    const actual = new URL(url);
+    const target = new URL(expected);
+    return actual.origin === target.origin && actual.pathname === target.pathname;
+  } catch {
+    return false;
+  }
+}
+
 // Export singleton instance
 export const farcasterService = FarcasterService.getInstance();
 export default FarcasterService;
\ No newline at end of file
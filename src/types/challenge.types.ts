@@ -3,6 +3,8 @@
  * Consolidates all challenge-related types for consistency and DRY principles
  */
 
+import type { PitchContour } from '@/lib/audio/OfflinePitchAnalyzer';
+
 // Base challenge interface that all challenge types extend
 export interface BaseChallenge {
   id: string;
@@ -52,6 +54,8 @@ export interface ChallengeEconomics {
 export interface Challenge extends BaseChallenge, ChallengeAudio, ChallengeSocial, ChallengeEconomics {
   tips?: string[];
   type?: 'viral' | 'structured' | 'featured';
+  availableFrom?: Date; // Catalog availability window; open-ended when unset
+  availableUntil?: Date;
 }
 
 // Challenge flow states
@@ -80,6 +84,7 @@ export interface ChallengeResult {
   submissionId?: string;
   castHash?: string;
   userFid?: number;
+  pitchTrack?: PitchContour; // Offline contour extracted from the recording
 }
 
 // Challenge progress tracking
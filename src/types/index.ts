@@ -1,12 +1,13 @@
 // Core Audio Types
+// Canonical pitch reading - produced via createPitchData() in lib/audio/PitchDetector
 export interface PitchData {
-  frequency: number;
+  frequency: number; // Hz, 0 when unvoiced
   note: string;
   octave: number;
   cents: number;
   isInTune: boolean;
-  volume: number;
-  confidence: number;
+  volume: number; // RMS scaled to 0-100
+  confidence: number; // 0-1
   timestamp: number;
 }
 
@@ -101,7 +101,7 @@ export function generateChallengeFrame(
 ): FrameMetadata {
   return {
     version: 'vNext',
-    image: `${baseUrl}/api/frames/challenge/${challengeId}/image`,
+    image: `${baseUrl}/api/og/challenge/${encodeURIComponent(challengeId)}`,
     buttons: [
       {
         label: '🎤 Accept Challenge',
@@ -145,7 +145,7 @@ export function generateResultsFrame(
 
   return {
     version: 'vNext',
-    image: `${baseUrl}/api/frames/results/${performanceId}/image`,
+    image: `${baseUrl}/api/og/result/${encodeURIComponent(performanceId)}`,
     buttons: [
       {
         label: '🎯 View Analysis',